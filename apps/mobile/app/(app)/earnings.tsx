@@ -18,6 +18,7 @@ import { colors, typography, spacing, radius } from '../../lib/theme';
 import { useDriverEarnings } from '../../hooks/useDriverEarnings';
 import {
   SettlementCard,
+  StatementCard,
   EarningsSummary,
   EarningsStatsRow,
   EarningsFilterTabs,
@@ -25,7 +26,7 @@ import {
 import { ErrorState } from '../../components/ui';
 
 export default function EarningsScreen() {
-  const { settlements, summary, loading, error, refetch } = useDriverEarnings();
+  const { settlements, statements, summary, loading, error, refetch } = useDriverEarnings();
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'pending' | 'paid'>('all');
@@ -37,6 +38,12 @@ export default function EarningsScreen() {
     return true;
   });
 
+  const filteredStatements = statements.filter((s) => {
+    if (selectedFilter === 'pending') return s.status !== 'paid';
+    if (selectedFilter === 'paid') return s.status === 'paid';
+    return true;
+  });
+
   if (error) {
     return (
       <>
@@ -82,6 +89,15 @@ export default function EarningsScreen() {
           onFilterChange={setSelectedFilter}
         />
 
+        {filteredStatements.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pay Statements</Text>
+            {filteredStatements.map((statement) => (
+              <StatementCard key={statement.id} statement={statement} />
+            ))}
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Trip Settlements</Text>
           {filteredSettlements.length === 0 ? (
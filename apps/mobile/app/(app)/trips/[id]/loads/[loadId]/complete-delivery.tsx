@@ -5,24 +5,43 @@
  * - Prominent confirmation button
  * - Success celebration with confetti
  * - Navigates to next load or trip summary
+ * - When the load has an inventory, items are checked off first
+ * - The customer then signs the delivery receipt (can be skipped if nobody is available)
  */
 
 import React, { useCallback, useState, useMemo } from 'react';
-import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, ScrollView } from 'react-native';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { DeliveryCompleteScreen } from '../../../../../../components/ui/DeliveryCompleteScreen';
 import { useLoadDetail } from '../../../../../../hooks/useLoadDetail';
 import { useLoadActions } from '../../../../../../hooks/useLoadActions';
 import { useDriverTripDetail } from '../../../../../../hooks/useDriverTrips';
+import { useLoadInventory } from '../../../../../../hooks/useLoadInventory';
+import { useSignedLoadDocument } from '../../../../../../hooks/useSignedLoadDocument';
+import { InventoryDocumentation } from '../../../../../../components/InventoryDocumentation';
+import { SignaturePad } from '../../../../../../components/SignaturePad';
+import { useToast } from '../../../../../../components/ui';
+import type { CapturedSignature } from '../../../../../../types';
 import { colors, typography, spacing } from '../../../../../../lib/theme';
 
 export default function CompleteDeliveryRoute() {
   const { id: tripId, loadId } = useLocalSearchParams<{ id: string; loadId: string }>();
   const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const toast = useToast();
   const { load, loading, error, refetch } = useLoadDetail(loadId);
+  const { summary: inventorySummary, loading: inventoryLoading } = useLoadInventory(loadId);
+  const [inventoryConfirmed, setInventoryConfirmed] = useState(false);
   const { trip, refetch: refetchTrip } = useDriverTripDetail(tripId);
   const actions = useLoadActions(loadId, refetch);
   const [isProcessing, setIsProcessing] = useState(false);
+  const { createSignedDocument } = useSignedLoadDocument(loadId);
+  const [signatureStepDone, setSignatureStepDone] = useState(false);
+  const [signerName, setSignerName] = useState<string | null>(null);
+  const [signature, setSignature] = useState<CapturedSignature | null>(null);
+  const [signedAt, setSignedAt] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
 
   // Find the next load after this one
   const nextLoadInfo = useMemo(() => {
@@ -69,13 +88,32 @@ export default function CompleteDeliveryRoute() {
 
     try {
       const result = await actions.completeDelivery();
+
+      // Generate the signed delivery receipt once the delivery figures are saved
+      if (result.success && signature && signerName?.trim()) {
+        const signed = await createSignedDocument({
+          documentType: 'delivery_receipt',
+          signerName: signerName.trim(),
+          signature,
+          signedAt: signedAt || new Date().toISOString(),
+        });
+        if (!signed.success) {
+          toast.warning(signed.error || 'Signed delivery receipt could not be generated');
+        }
+      }
+
       return result;
     } catch (error) {
       return { success: false, error: 'Failed to complete delivery' };
     } finally {
       setIsProcessing(false);
     }
-  }, [actions, isProcessing]);
+  }, [actions, isProcessing, signature, signerName, signedAt, createSignedDocument, toast]);
+
+  const handleSignatureChange = useCallback((value: CapturedSignature | null) => {
+    setSignature(value);
+    setSignedAt(value ? new Date().toISOString() : null);
+  }, []);
 
   const handleCancel = useCallback(() => {
     router.back();
@@ -112,7 +150,7 @@ export default function CompleteDeliveryRoute() {
   }, [router, tripId, loadId, refetchTrip]);
 
   // Loading state
-  if (loading) {
+  if (loading || inventoryLoading) {
     return (
       <>
         <Stack.Screen
@@ -159,6 +197,106 @@ export default function CompleteDeliveryRoute() {
 
   const loadNumber = load.job_number || load.load_number || 'Unknown';
 
+  // Inventory check-off step
+  if (inventorySummary.itemCount > 0 && !inventoryConfirmed) {
+    return (
+      <>
+        <Stack.Screen
+          options={{
+            headerShown: false,
+            presentation: 'fullScreenModal',
+            animation: 'slide_from_bottom',
+          }}
+        />
+        <View style={[styles.inventoryContainer, { paddingTop: insets.top + spacing.md }]}>
+          <View style={styles.inventoryHeader}>
+            <TouchableOpacity onPress={handleCancel}>
+              <Text style={styles.backText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.inventoryTitle}>Check Off Inventory</Text>
+            <View style={{ width: 50 }} />
+          </View>
+          <ScrollView contentContainerStyle={styles.inventoryContent}>
+            <InventoryDocumentation loadId={loadId} mode="delivery" />
+          </ScrollView>
+          <View style={[styles.inventoryFooter, { paddingBottom: insets.bottom + spacing.lg }]}>
+            <TouchableOpacity
+              style={[styles.continueButton, inventorySummary.pending > 0 && styles.buttonDisabled]}
+              onPress={() => setInventoryConfirmed(true)}
+              disabled={inventorySummary.pending > 0}
+            >
+              <Text style={styles.retryText}>
+                {inventorySummary.pending > 0
+                  ? `${inventorySummary.pending} item${inventorySummary.pending === 1 ? '' : 's'} left to check`
+                  : 'Continue'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </>
+    );
+  }
+
+  // Delivery receipt signature step
+  if (!signatureStepDone) {
+    const receiptSigner = signerName ?? load.customer_name ?? '';
+    const canContinue = !!signature && receiptSigner.trim() !== '';
+
+    return (
+      <>
+        <Stack.Screen
+          options={{
+            headerShown: false,
+            presentation: 'fullScreenModal',
+            animation: 'slide_from_bottom',
+          }}
+        />
+        <View style={[styles.inventoryContainer, { paddingTop: insets.top + spacing.md }]}>
+          <View style={styles.inventoryHeader}>
+            <TouchableOpacity onPress={handleCancel}>
+              <Text style={styles.backText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.inventoryTitle}>Delivery Receipt</Text>
+            <TouchableOpacity
+              onPress={() => {
+                handleSignatureChange(null);
+                setSignatureStepDone(true);
+              }}
+            >
+              <Text style={styles.backText}>Skip</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView
+            contentContainerStyle={styles.inventoryContent}
+            scrollEnabled={!signing}
+            keyboardDismissMode="on-drag"
+          >
+            <SignaturePad
+              title="Customer Signature"
+              acknowledgement="Customer signs for receipt of the shipment. A signed delivery receipt PDF with the accessorials and balance collected is added to the load documents."
+              signerName={receiptSigner}
+              onSignerNameChange={setSignerName}
+              onSignatureChange={handleSignatureChange}
+              onDrawingChange={setSigning}
+            />
+          </ScrollView>
+          <View style={[styles.inventoryFooter, { paddingBottom: insets.bottom + spacing.lg }]}>
+            <TouchableOpacity
+              style={[styles.continueButton, !canContinue && styles.buttonDisabled]}
+              onPress={() => {
+                setSignerName(receiptSigner);
+                setSignatureStepDone(true);
+              }}
+              disabled={!canContinue}
+            >
+              <Text style={styles.retryText}>{canContinue ? 'Continue' : 'Signature required'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </>
+    );
+  }
+
   return (
     <>
       <Stack.Screen
@@ -238,4 +376,37 @@ const styles = StyleSheet.create({
     ...typography.button,
     color: colors.textSecondary,
   },
+  inventoryContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  inventoryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: spacing.md,
+  },
+  inventoryTitle: {
+    ...typography.headline,
+    color: colors.textPrimary,
+  },
+  inventoryContent: {
+    padding: spacing.screenPadding,
+  },
+  inventoryFooter: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  continueButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: spacing.lg,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
 });
@@ -19,7 +19,10 @@ import {
   CustomerDeliverySection,
   AccessorialsSection,
   ContractSummaryCard,
+  ScanReviewModal,
 } from '../../../../../../components/contract';
+import type { ScanReviewItem } from '../../../../../../components/contract/ScanReviewModal';
+import type { DocumentExtraction } from '../../../../../../types';
 
 interface AccessorialsState {
   shuttle: string;
@@ -31,6 +34,33 @@ interface AccessorialsState {
   notes: string;
 }
 
+// Scanned load fields this screen fills, in review order
+const SCANNED_FIELD_LABELS: Record<string, string> = {
+  balance_due: 'Balance Due on Delivery',
+  internal_reference: 'Job Number',
+  rate_per_cuft: 'Rate per CUFT',
+  customer_name: 'Customer Name',
+  customer_phone: 'Customer Phone',
+  delivery_address_full: 'Delivery Address',
+  contract_accessorials_shuttle: 'Shuttle',
+  contract_accessorials_long_carry: 'Long Carry',
+  contract_accessorials_stairs: 'Stairs',
+  contract_accessorials_bulky: 'Bulky',
+  contract_accessorials_packing: 'Packing',
+  contract_accessorials_other: 'Other Accessorials',
+  contract_notes: 'Accessorial Notes',
+};
+
+const SCANNED_ACCESSORIALS: Record<string, keyof AccessorialsState> = {
+  contract_accessorials_shuttle: 'shuttle',
+  contract_accessorials_long_carry: 'longCarry',
+  contract_accessorials_stairs: 'stairs',
+  contract_accessorials_bulky: 'bulky',
+  contract_accessorials_packing: 'packing',
+  contract_accessorials_other: 'other',
+  contract_notes: 'notes',
+};
+
 export default function ContractDetailsScreen() {
   const { id: tripId, loadId } = useLocalSearchParams<{ id: string; loadId: string }>();
   const router = useRouter();
@@ -71,6 +101,9 @@ export default function ContractDetailsScreen() {
   const [loadingReportUrl, setLoadingReportUrl] = useState<string | null>(null);
   const [bolUrl, setBolUrl] = useState<string | null>(null);
 
+  // Scan awaiting review
+  const [scanReview, setScanReview] = useState<DocumentExtraction | null>(null);
+
   // Submission state
   const [submitting, setSubmitting] = useState(false);
 
@@ -101,30 +134,52 @@ export default function ContractDetailsScreen() {
     setAccessorials(prev => ({ ...prev, [field]: value }));
   };
 
-  // Handle loading report scan data
-  const handleLoadingReportData = (data: Record<string, unknown>) => {
-    if (data.balance_due) {
-      setBalanceDue(String(data.balance_due));
-    }
-    if (data.job_number) {
-      setJobNumber(String(data.job_number));
-    }
-    if (data.rate_per_cuft) {
-      setRatePerCuft(String(data.rate_per_cuft));
+  // Scanned values this screen uses, low-confidence ones flagged for review
+  const scanReviewItems = useMemo<ScanReviewItem[]>(() => {
+    if (!scanReview) return [];
+    return Object.keys(SCANNED_FIELD_LABELS).flatMap((key) => {
+      const field = scanReview.fields[key];
+      if (!field) return [];
+      return [{
+        key,
+        label: SCANNED_FIELD_LABELS[key],
+        value: String(field.value),
+        confidence: field.confidence,
+        lowConfidence: scanReview.low_confidence.includes(key),
+      }];
+    });
+  }, [scanReview]);
+
+  const handleExtracted = (extraction: DocumentExtraction) => {
+    if (!Object.keys(SCANNED_FIELD_LABELS).some((key) => extraction.fields[key])) {
+      toast.warning('Nothing found on that document - enter manually');
+      return;
     }
+    setScanReview(extraction);
   };
 
-  // Handle BOL scan data
-  const handleBolData = (data: Record<string, unknown>) => {
-    if (data.customer_name) {
-      setCustomerName(String(data.customer_name));
-    }
-    if (data.customer_phone) {
-      setCustomerPhone(String(data.customer_phone));
-    }
-    if (data.delivery_address) {
-      setDeliveryAddress(String(data.delivery_address));
+  // Apply reviewed scan values
+  const handleScanApply = (values: Record<string, string>) => {
+    if (values.balance_due) setBalanceDue(values.balance_due);
+    if (values.internal_reference) setJobNumber(values.internal_reference);
+    if (values.rate_per_cuft) setRatePerCuft(values.rate_per_cuft);
+    if (values.customer_name) setCustomerName(values.customer_name);
+    if (values.customer_phone) setCustomerPhone(values.customer_phone);
+    if (values.delivery_address_full) setDeliveryAddress(values.delivery_address_full);
+
+    const scannedAccessorials = Object.entries(SCANNED_ACCESSORIALS).filter(([key]) => values[key]);
+    if (scannedAccessorials.length > 0) {
+      setAccessorials(prev => {
+        const next = { ...prev };
+        scannedAccessorials.forEach(([key, field]) => {
+          next[field] = values[key];
+        });
+        return next;
+      });
     }
+
+    setScanReview(null);
+    toast.success('Scan applied - verify values are correct');
   };
 
   // Save and Continue
@@ -237,7 +292,7 @@ export default function ContractDetailsScreen() {
             endpoint="loading-report"
             photo={loadingReportPhoto}
             onPhotoTaken={setLoadingReportPhoto}
-            onDataExtracted={handleLoadingReportData}
+            onExtracted={handleExtracted}
           />
 
           <View style={styles.inputGroup}>
@@ -307,7 +362,7 @@ export default function ContractDetailsScreen() {
             endpoint="bill-of-lading"
             photo={bolPhoto}
             onPhotoTaken={setBolPhoto}
-            onDataExtracted={handleBolData}
+            onExtracted={handleExtracted}
           />
 
           <CustomerDeliverySection
@@ -379,6 +434,13 @@ export default function ContractDetailsScreen() {
 
         <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <ScanReviewModal
+        visible={scanReview !== null}
+        items={scanReviewItems}
+        onApply={handleScanApply}
+        onCancel={() => setScanReview(null)}
+      />
     </>
   );
 }
@@ -32,6 +32,7 @@ import { useDriver } from '../../../../../../providers/DriverProvider';
 import { useAuth } from '../../../../../../providers/AuthProvider';
 import { useToast, Icon } from '../../../../../../components/ui';
 import { DamageDocumentation } from '../../../../../../components/DamageDocumentation';
+import { InventoryDocumentation } from '../../../../../../components/InventoryDocumentation';
 import { checkSameCompanyLoads } from '../../../../../../hooks/useLoadHelpers';
 import { colors, typography, spacing, radius } from '../../../../../../lib/theme';
 
@@ -222,7 +223,7 @@ export default function FinishLoadingScreen() {
               <Icon name="check-circle" size={40} color={colors.success} />
             </View>
             <Text style={styles.title}>Finish Loading</Text>
-            <Text style={styles.subtitle}>Document damages, enter ending CUFT, and take a photo</Text>
+            <Text style={styles.subtitle}>Finish the inventory, enter ending CUFT, and take a photo</Text>
           </View>
 
           {/* Multi-load info banner */}
@@ -286,6 +287,11 @@ export default function FinishLoadingScreen() {
             <DamageDocumentation loadId={loadId} />
           </View>
 
+          {/* Descriptive Inventory */}
+          <View style={styles.section}>
+            <InventoryDocumentation loadId={loadId} mode="build" />
+          </View>
+
           {/* Ending CUFT Input */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>
@@ -6,10 +6,12 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLoadDetail } from '../../../../../../hooks/useLoadDetail';
 import { useLoadActions } from '../../../../../../hooks/useLoadActions';
 import { useImageUpload } from '../../../../../../hooks/useImageUpload';
+import { useSignedLoadDocument } from '../../../../../../hooks/useSignedLoadDocument';
 import { useToast, LoadDetailSkeleton } from '../../../../../../components/ui';
 import { ErrorState } from '../../../../../../components/ui';
-import { PaymentMethod, ZelleRecipient } from '../../../../../../types';
+import { CapturedSignature, PaymentMethod, ZelleRecipient } from '../../../../../../types';
 import { DamageDocumentation } from '../../../../../../components/DamageDocumentation';
+import { SignaturePad } from '../../../../../../components/SignaturePad';
 import {
   ContractDetailsSection,
   PaymentCollectionSection,
@@ -41,6 +43,7 @@ export default function PickupCompletionScreen() {
   const { load, loading, error, refetch } = useLoadDetail(loadId);
   const actions = useLoadActions(loadId, refetch);
   const { uploading, progress, uploadLoadPhoto } = useImageUpload();
+  const { createSignedDocument } = useSignedLoadDocument(loadId);
 
   // Contract details state
   const [ratePerCuft, setRatePerCuft] = useState('');
@@ -76,6 +79,12 @@ export default function PickupCompletionScreen() {
   const [contractPhoto, setContractPhoto] = useState<string | null>(null);
   const [inventoryPhotos, setInventoryPhotos] = useState<string[]>([]);
 
+  // Customer signature on the bill of lading
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<CapturedSignature | null>(null);
+  const [signedAt, setSignedAt] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
+
   // Submission state
   const [submitting, setSubmitting] = useState(false);
 
@@ -92,6 +101,9 @@ export default function PickupCompletionScreen() {
       if (load.balance_due_on_delivery || load.contract_balance_due) {
         setBalanceDue((load.balance_due_on_delivery || load.contract_balance_due)?.toString() || '');
       }
+      if (load.customer_name) {
+        setSignerName(load.customer_name);
+      }
       setInitialized(true);
     }
   }, [load, initialized]);
@@ -160,6 +172,11 @@ export default function PickupCompletionScreen() {
     }
   };
 
+  const handleSignatureChange = (value: CapturedSignature | null) => {
+    setSignature(value);
+    setSignedAt(value ? new Date().toISOString() : null);
+  };
+
   // Take photo helper
   const takePhoto = async (): Promise<string | null> => {
     const { status } = await ImagePicker.requestCameraPermissionsAsync();
@@ -208,6 +225,9 @@ export default function PickupCompletionScreen() {
     if (!contractPhoto && inventoryPhotos.length === 0) {
       toast.warning('No paperwork photos captured');
     }
+    if (!signature || !signerName.trim()) {
+      toast.warning('No customer signature - signed BOL will not be generated');
+    }
 
     setSubmitting(true);
     try {
@@ -268,6 +288,19 @@ export default function PickupCompletionScreen() {
         return;
       }
 
+      // Generate the signed BOL from the saved pickup figures
+      if (signature && signerName.trim()) {
+        const signed = await createSignedDocument({
+          documentType: 'bol',
+          signerName: signerName.trim(),
+          signature,
+          signedAt: signedAt || new Date().toISOString(),
+        });
+        if (!signed.success) {
+          toast.warning(signed.error || 'Signed BOL could not be generated');
+        }
+      }
+
       // Navigate explicitly to load detail (ready for delivery)
       toast.success('Pickup complete - Ready for delivery!');
       router.replace(`/(app)/trips/${tripId}/loads/${loadId}`);
@@ -317,6 +350,7 @@ export default function PickupCompletionScreen() {
           style={styles.container}
           contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + spacing.screenPadding }]}
           keyboardDismissMode="on-drag"
+          scrollEnabled={!signing}
         >
           <PickupCompletionHeader title={customerInfo} subtitle={locationInfo} />
 
@@ -386,6 +420,17 @@ export default function PickupCompletionScreen() {
             remainingBalance={remainingBalance}
           />
 
+          {/* Section 8: Customer Signature */}
+          <SignaturePad
+            title="Customer Signature"
+            acknowledgement="Shipper signs the bill of lading for the charges, accessorials and payment above. A signed BOL PDF is added to the load documents."
+            signerName={signerName}
+            onSignerNameChange={setSignerName}
+            onSignatureChange={handleSignatureChange}
+            onDrawingChange={setSigning}
+            disabled={submitting || uploading}
+          />
+
           <PickupSubmitButton
             canSubmit={canSubmit}
             submitting={submitting}
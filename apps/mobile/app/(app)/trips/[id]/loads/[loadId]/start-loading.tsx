@@ -29,6 +29,7 @@ import { useImageUpload } from '../../../../../../hooks/useImageUpload';
 import { useDriver } from '../../../../../../providers/DriverProvider';
 import { useAuth } from '../../../../../../providers/AuthProvider';
 import { useToast, Icon } from '../../../../../../components/ui';
+import { InventoryDocumentation } from '../../../../../../components/InventoryDocumentation';
 import { colors, typography, spacing, radius } from '../../../../../../lib/theme';
 
 export default function StartLoadingScreen() {
@@ -216,6 +217,11 @@ export default function StartLoadingScreen() {
               </TouchableOpacity>
             )}
           </View>
+
+          {/* Descriptive Inventory - tag items as they come out of the house */}
+          <View style={styles.section}>
+            <InventoryDocumentation loadId={loadId} mode="build" />
+          </View>
         </ScrollView>
 
         {/* Submit Button - Fixed at bottom, above tab bar */}
@@ -266,6 +266,15 @@ export default function OwnerLayout() {
               tabBarStyle: { display: 'none' },
             }}
           />
+          <Tabs.Screen
+            name="load-board/saved-searches"
+            options={{
+              href: null,
+              headerShown: false,
+              title: 'Saved Searches',
+              tabBarStyle: { display: 'none' },
+            }}
+          />
           <Tabs.Screen
             name="my-requests/index"
             options={{
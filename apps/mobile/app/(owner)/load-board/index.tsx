@@ -259,6 +259,12 @@ export default function LoadBoardScreen() {
           <Icon name="arrow-left" size="md" color={colors.textPrimary} />
         </Pressable>
         <Text style={styles.title}>Load Board</Text>
+        <Pressable
+          style={styles.filterButton}
+          onPress={() => router.push('/(owner)/load-board/saved-searches')}
+        >
+          <Icon name="bookmark" size="md" color={colors.textPrimary} />
+        </Pressable>
         <Pressable
           style={[styles.filterButton, hasFilters && styles.filterButtonActive]}
           onPress={() => setShowFilters(!showFilters)}
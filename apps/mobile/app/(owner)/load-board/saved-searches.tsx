@@ -0,0 +1,655 @@
+/**
+ * Saved Searches Screen - Lanes the dispatcher watches on the load board
+ * New marketplace loads matching a search send a push alert and can be
+ * collected in a daily email digest
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useSavedSearches, type SavedSearchCenter } from '../../../hooks/useSavedSearches';
+import {
+  describeSavedSearch,
+  lookupSearchCenter,
+  SAVED_SEARCH_LOAD_KIND_LABELS,
+  SAVED_SEARCH_TRUCK_LABELS,
+  type SavedLoadSearch,
+  type SavedSearchLoadKind,
+  type SavedSearchTruckRequirement,
+} from '../../../lib/savedSearches';
+import { Icon } from '../../../components/ui/Icon';
+import { colors, typography, spacing, radius, shadows } from '../../../lib/theme';
+import { haptics } from '../../../lib/haptics';
+
+const US_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
+  'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
+  'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
+  'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
+  'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface PlaceForm {
+  mode: 'states' | 'radius';
+  states: string[];
+  zip: string;
+  radius: string;
+}
+
+interface SearchForm {
+  name: string;
+  origin: PlaceForm;
+  destination: PlaceForm;
+  minCuft: string;
+  maxCuft: string;
+  minRatePerCuft: string;
+  loadKind: SavedSearchLoadKind;
+  availableFrom: string;
+  availableTo: string;
+  truckRequirement: SavedSearchTruckRequirement;
+  instantAlerts: boolean;
+  emailDigest: boolean;
+}
+
+const EMPTY_PLACE: PlaceForm = { mode: 'states', states: [], zip: '', radius: '100' };
+
+const EMPTY_FORM: SearchForm = {
+  name: '',
+  origin: EMPTY_PLACE,
+  destination: EMPTY_PLACE,
+  minCuft: '',
+  maxCuft: '',
+  minRatePerCuft: '',
+  loadKind: 'any',
+  availableFrom: '',
+  availableTo: '',
+  truckRequirement: 'any',
+  instantAlerts: true,
+  emailDigest: false,
+};
+
+function parseOptionalNumber(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <Pressable style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function PlaceInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: PlaceForm;
+  onChange: (value: PlaceForm) => void;
+}) {
+  const toggleState = (state: string) => {
+    onChange({
+      ...value,
+      states: value.states.includes(state)
+        ? value.states.filter((s) => s !== state)
+        : [...value.states, state],
+    });
+  };
+
+  return (
+    <View style={styles.inputGroup}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.chipRow}>
+        <Chip label="States" selected={value.mode === 'states'} onPress={() => onChange({ ...value, mode: 'states' })} />
+        <Chip label="Radius" selected={value.mode === 'radius'} onPress={() => onChange({ ...value, mode: 'radius' })} />
+      </View>
+      {value.mode === 'states' ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.stateScroll}>
+          {US_STATES.map((state) => (
+            <Chip
+              key={state}
+              label={state}
+              selected={value.states.includes(state)}
+              onPress={() => toggleState(state)}
+            />
+          ))}
+        </ScrollView>
+      ) : (
+        <View style={styles.row}>
+          <TextInput
+            style={[styles.input, styles.rowInput]}
+            value={value.zip}
+            onChangeText={(zip) => onChange({ ...value, zip })}
+            placeholder="ZIP"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+            maxLength={5}
+          />
+          <TextInput
+            style={[styles.input, styles.rowInput]}
+            value={value.radius}
+            onChangeText={(radius) => onChange({ ...value, radius })}
+            placeholder="Miles"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+          />
+        </View>
+      )}
+      {value.mode === 'states' && value.states.length === 0 && (
+        <Text style={styles.hint}>No states selected matches anywhere</Text>
+      )}
+    </View>
+  );
+}
+
+function SearchCard({
+  search,
+  onToggleAlerts,
+  onToggleDigest,
+  onDelete,
+}: {
+  search: SavedLoadSearch;
+  onToggleAlerts: (value: boolean) => void;
+  onToggleDigest: (value: boolean) => void;
+  onDelete: () => void;
+}) {
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle} numberOfLines={1}>{search.name}</Text>
+        <Pressable style={styles.iconButton} onPress={onDelete}>
+          <Icon name="trash" size="sm" color={colors.error} />
+        </Pressable>
+      </View>
+      <Text style={styles.cardDescription}>{describeSavedSearch(search)}</Text>
+      <View style={styles.switchRow}>
+        <Icon name="bell" size="sm" color={colors.textMuted} />
+        <Text style={styles.switchLabel}>Instant alerts</Text>
+        <Switch
+          value={search.instant_alerts}
+          onValueChange={onToggleAlerts}
+          trackColor={{ false: colors.border, true: colors.primary }}
+          thumbColor={colors.white}
+          ios_backgroundColor={colors.border}
+        />
+      </View>
+      <View style={styles.switchRow}>
+        <Icon name="mail" size="sm" color={colors.textMuted} />
+        <Text style={styles.switchLabel}>Daily email digest</Text>
+        <Switch
+          value={search.email_digest}
+          onValueChange={onToggleDigest}
+          trackColor={{ false: colors.border, true: colors.primary }}
+          thumbColor={colors.white}
+          ios_backgroundColor={colors.border}
+        />
+      </View>
+    </View>
+  );
+}
+
+export default function SavedSearchesScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { searches, isLoading, refetch, createSearch, isCreating, updateAlerts, deleteSearch } =
+    useSavedSearches();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<SearchForm>(EMPTY_FORM);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const updateField = <K extends keyof SearchForm>(field: K, value: SearchForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const resolvePlace = async (label: string, place: PlaceForm): Promise<SavedSearchCenter | null | undefined> => {
+    if (place.mode === 'states') return null;
+    const center = await lookupSearchCenter(place.zip);
+    if (!center) {
+      Alert.alert('Location not found', `Enter a valid ${label.toLowerCase()} ZIP code`);
+      return undefined;
+    }
+    return center;
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      Alert.alert('Name required', 'Give this search a name');
+      return;
+    }
+    for (const date of [form.availableFrom, form.availableTo]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        Alert.alert('Invalid date', 'Use YYYY-MM-DD for dates');
+        return;
+      }
+    }
+
+    const origin = await resolvePlace('Origin', form.origin);
+    if (origin === undefined) return;
+    const destination = await resolvePlace('Destination', form.destination);
+    if (destination === undefined) return;
+
+    try {
+      await createSearch({
+        name: form.name,
+        origin,
+        originRadiusMiles: parseOptionalNumber(form.origin.radius),
+        originStates: form.origin.states,
+        destination,
+        destinationRadiusMiles: parseOptionalNumber(form.destination.radius),
+        destinationStates: form.destination.states,
+        minCuft: parseOptionalNumber(form.minCuft),
+        maxCuft: parseOptionalNumber(form.maxCuft),
+        minRatePerCuft: parseOptionalNumber(form.minRatePerCuft),
+        loadKind: form.loadKind,
+        availableFrom: form.availableFrom || null,
+        availableTo: form.availableTo || null,
+        truckRequirement: form.truckRequirement,
+        instantAlerts: form.instantAlerts,
+        emailDigest: form.emailDigest,
+      });
+      haptics.success();
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (error) {
+      haptics.error();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save search');
+    }
+  };
+
+  const handleUpdateAlerts = async (
+    searchId: string,
+    alerts: { instantAlerts?: boolean; emailDigest?: boolean }
+  ) => {
+    haptics.selection();
+    try {
+      await updateAlerts({ searchId, ...alerts });
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update search');
+    }
+  };
+
+  const handleDelete = (search: SavedLoadSearch) => {
+    Alert.alert('Delete Search', `Stop watching "${search.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteSearch(search.id);
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete search');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable style={styles.headerButton} onPress={() => router.back()}>
+          <Icon name="arrow-left" size="md" color={colors.textPrimary} />
+        </Pressable>
+        <Text style={styles.title}>Saved Searches</Text>
+        <Pressable
+          style={[styles.headerButton, showForm && styles.headerButtonActive]}
+          onPress={() => setShowForm(!showForm)}
+        >
+          <Icon name={showForm ? 'x' : 'plus'} size="md" color={showForm ? colors.primary : colors.textPrimary} />
+        </Pressable>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.primary} />
+        }
+      >
+        {showForm && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>New Search</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={form.name}
+                onChangeText={(text) => updateField('name', text)}
+                placeholder="e.g. Texas to Florida"
+                placeholderTextColor={colors.textMuted}
+              />
+            </View>
+
+            <PlaceInput label="Origin" value={form.origin} onChange={(value) => updateField('origin', value)} />
+            <PlaceInput
+              label="Destination"
+              value={form.destination}
+              onChange={(value) => updateField('destination', value)}
+            />
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Cubic Feet</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={form.minCuft}
+                  onChangeText={(text) => updateField('minCuft', text)}
+                  placeholder="Min"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                />
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={form.maxCuft}
+                  onChangeText={(text) => updateField('maxCuft', text)}
+                  placeholder="Max"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Minimum Rate ($/cuft)</Text>
+              <TextInput
+                style={styles.input}
+                value={form.minRatePerCuft}
+                onChangeText={(text) => updateField('minRatePerCuft', text)}
+                placeholder="Any rate"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Load Type</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(SAVED_SEARCH_LOAD_KIND_LABELS) as SavedSearchLoadKind[]).map((kind) => (
+                  <Chip
+                    key={kind}
+                    label={SAVED_SEARCH_LOAD_KIND_LABELS[kind]}
+                    selected={form.loadKind === kind}
+                    onPress={() => updateField('loadKind', kind)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Available Between</Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={form.availableFrom}
+                  onChangeText={(text) => updateField('availableFrom', text)}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={colors.textMuted}
+                />
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={form.availableTo}
+                  onChangeText={(text) => updateField('availableTo', text)}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={colors.textMuted}
+                />
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>My Truck</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(SAVED_SEARCH_TRUCK_LABELS) as SavedSearchTruckRequirement[]).map((truck) => (
+                  <Chip
+                    key={truck}
+                    label={SAVED_SEARCH_TRUCK_LABELS[truck]}
+                    selected={form.truckRequirement === truck}
+                    onPress={() => updateField('truckRequirement', truck)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.switchRow}>
+              <Icon name="bell" size="sm" color={colors.textMuted} />
+              <Text style={styles.switchLabel}>Instant alerts</Text>
+              <Switch
+                value={form.instantAlerts}
+                onValueChange={(value) => updateField('instantAlerts', value)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={colors.white}
+                ios_backgroundColor={colors.border}
+              />
+            </View>
+            <View style={styles.switchRow}>
+              <Icon name="mail" size="sm" color={colors.textMuted} />
+              <Text style={styles.switchLabel}>Daily email digest</Text>
+              <Switch
+                value={form.emailDigest}
+                onValueChange={(value) => updateField('emailDigest', value)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={colors.white}
+                ios_backgroundColor={colors.border}
+              />
+            </View>
+
+            <Pressable
+              style={[styles.saveButton, isCreating && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isCreating}
+            >
+              {isCreating ? (
+                <ActivityIndicator color={colors.white} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Search</Text>
+              )}
+            </Pressable>
+          </View>
+        )}
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : searches.length === 0 && !showForm ? (
+          <View style={styles.emptyContainer}>
+            <Icon name="bookmark" size="xl" color={colors.textMuted} />
+            <Text style={styles.emptyTitle}>No Saved Searches</Text>
+            <Text style={styles.emptyText}>
+              Save the lanes you run and get alerted when a matching load is posted
+            </Text>
+          </View>
+        ) : (
+          searches.map((search) => (
+            <SearchCard
+              key={search.id}
+              search={search}
+              onToggleAlerts={(value) => handleUpdateAlerts(search.id, { instantAlerts: value })}
+              onToggleDigest={(value) => handleUpdateAlerts(search.id, { emailDigest: value })}
+              onDelete={() => handleDelete(search)}
+            />
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.screenPadding,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 20,
+    backgroundColor: colors.surface,
+  },
+  headerButtonActive: {
+    backgroundColor: colors.primarySoft,
+  },
+  title: {
+    flex: 1,
+    ...typography.title,
+    color: colors.textPrimary,
+  },
+  content: {
+    paddingHorizontal: spacing.screenPadding,
+    gap: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    ...shadows.sm,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  cardTitle: {
+    flex: 1,
+    ...typography.headline,
+    color: colors.textPrimary,
+  },
+  cardDescription: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  iconButton: {
+    padding: spacing.xs,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  switchLabel: {
+    flex: 1,
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  inputGroup: {
+    gap: spacing.xs,
+  },
+  label: {
+    ...typography.caption,
+    color: colors.textMuted,
+  },
+  hint: {
+    ...typography.caption,
+    color: colors.textMuted,
+  },
+  input: {
+    ...typography.body,
+    backgroundColor: colors.inputBackground,
+    borderRadius: radius.input,
+    padding: spacing.inputPadding,
+    borderWidth: 1,
+    borderColor: colors.border,
+    color: colors.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  stateScroll: {
+    flexGrow: 0,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+    backgroundColor: colors.background,
+    marginRight: spacing.xs,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    fontWeight: '600',
+    color: colors.white,
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.primary,
+    marginTop: spacing.sm,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    ...typography.button,
+    color: colors.white,
+  },
+  loadingContainer: {
+    paddingVertical: spacing.xxl,
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxl,
+    gap: spacing.sm,
+  },
+  emptyTitle: {
+    ...typography.headline,
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+});
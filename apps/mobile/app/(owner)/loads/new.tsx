@@ -39,21 +39,19 @@ const SERVICE_TYPES: { value: ServiceType; label: string }[] = [
   { value: 'other', label: 'Other' },
 ];
 
-// ZIP auto-lookup using free Zippopotam.us API
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://moveboss.com';
+
+// ZIP auto-lookup against the web app's bundled ZIP dataset
 async function lookupZip(zip: string): Promise<{ city: string; state: string }> {
   if (!zip || zip.length < 5) return { city: '', state: '' };
   try {
-    const response = await fetch(`https://api.zippopotam.us/us/${zip}`);
+    const response = await fetch(`${API_BASE_URL}/api/zip-lookup?postal_code=${encodeURIComponent(zip)}&country=US`);
     if (!response.ok) return { city: '', state: '' };
     const data = await response.json();
-    const place = data.places?.[0];
-    if (place) {
-      return {
-        city: place['place name'] || '',
-        state: place['state abbreviation'] || '',
-      };
-    }
-    return { city: '', state: '' };
+    return {
+      city: data.city || '',
+      state: data.state || '',
+    };
   } catch {
     return { city: '', state: '' };
   }
@@ -13,10 +13,26 @@ import {
   RefreshControl,
   ActivityIndicator,
   Alert,
+  TextInput,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useMyRequests, useWithdrawMyRequest, MyRequest } from '../../../hooks/useMyRequests';
+import {
+  useMyRequests,
+  useWithdrawMyRequest,
+  useNegotiateMyRequest,
+  MyRequest,
+  CounterMyRequestParams,
+} from '../../../hooks/useMyRequests';
+import {
+  OFFER_EXPIRY_OPTIONS,
+  OFFER_STATUS_LABELS,
+  describeOfferTerms,
+  effectiveOfferStatus,
+  formatOfferRate,
+  offerRateUnit,
+  type LoadRequestOffer,
+} from '../../../lib/loadRequestNegotiation';
 import { Icon } from '../../../components/ui/Icon';
 import { colors, typography, spacing, radius, shadows } from '../../../lib/theme';
 import { haptics } from '../../../lib/haptics';
@@ -51,23 +67,216 @@ function formatDate(dateStr: string | null): string {
   return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function OfferThread({ offers, companyName }: { offers: LoadRequestOffer[]; companyName: string }) {
+  return (
+    <View style={styles.thread}>
+      {offers.map((offer) => {
+        const offerStatus = effectiveOfferStatus(offer);
+        return (
+          <View key={offer.id} style={styles.threadItem}>
+            <View style={styles.threadItemHeader}>
+              <Text style={styles.threadAuthor}>
+                {offer.offered_by === 'carrier' ? 'You' : companyName}
+              </Text>
+              <Text
+                style={[
+                  styles.threadStatus,
+                  offerStatus === 'accepted' && { color: colors.success },
+                  (offerStatus === 'expired' || offerStatus === 'declined') && { color: colors.error },
+                  offerStatus === 'open' && { color: colors.warning },
+                ]}
+              >
+                {OFFER_STATUS_LABELS[offerStatus]}
+              </Text>
+            </View>
+            <Text style={styles.threadTerms}>{describeOfferTerms(offer)}</Text>
+            {offer.message && <Text style={styles.threadMessage}>"{offer.message}"</Text>}
+            <Text style={styles.threadTime}>
+              {timeAgo(offer.created_at)}
+              {offer.expires_at && offerStatus === 'open'
+                ? ` · expires ${new Date(offer.expires_at).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}`
+                : ''}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+function CounterForm({
+  request,
+  initialRate,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: {
+  request: MyRequest;
+  initialRate: number | null;
+  onSubmit: (params: CounterMyRequestParams) => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}) {
+  const rateUnit = offerRateUnit(request.load.company_rate_type);
+  const [rate, setRate] = useState(initialRate ? initialRate.toFixed(2) : '');
+  const [loadDate, setLoadDate] = useState('');
+  const [maxCuft, setMaxCuft] = useState('');
+  const [message, setMessage] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState(24);
+
+  const handleSubmit = () => {
+    const rateValue = parseFloat(rate);
+    if (!(rateValue > 0)) {
+      Alert.alert('Invalid rate', 'Enter a rate above zero');
+      return;
+    }
+    if (loadDate && !DATE_PATTERN.test(loadDate)) {
+      Alert.alert('Invalid date', 'Use YYYY-MM-DD for the load date');
+      return;
+    }
+    const cuftValue = maxCuft ? parseInt(maxCuft, 10) : null;
+    if (cuftValue !== null && !(cuftValue > 0)) {
+      Alert.alert('Invalid cap', 'Cubic feet cap must be above zero');
+      return;
+    }
+
+    onSubmit({
+      requestId: request.id,
+      rate: rateValue,
+      rateType: request.load.company_rate_type,
+      loadDate: loadDate || null,
+      maxCuft: cuftValue,
+      message: message || null,
+      expiresInHours,
+    });
+  };
+
+  return (
+    <View style={styles.counterForm}>
+      <View style={styles.counterRow}>
+        <View style={styles.counterField}>
+          <Text style={styles.counterLabel}>Rate ({rateUnit ? `$${rateUnit}` : '$ flat'})</Text>
+          <TextInput
+            style={styles.input}
+            value={rate}
+            onChangeText={setRate}
+            keyboardType="decimal-pad"
+            placeholder="0.00"
+            placeholderTextColor={colors.textMuted}
+          />
+        </View>
+        <View style={styles.counterField}>
+          <Text style={styles.counterLabel}>Cuft Cap</Text>
+          <TextInput
+            style={styles.input}
+            value={maxCuft}
+            onChangeText={setMaxCuft}
+            keyboardType="number-pad"
+            placeholder="No cap"
+            placeholderTextColor={colors.textMuted}
+          />
+        </View>
+      </View>
+      <Text style={styles.counterLabel}>Load Date</Text>
+      <TextInput
+        style={styles.input}
+        value={loadDate}
+        onChangeText={setLoadDate}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="none"
+      />
+      <Text style={styles.counterLabel}>Offer Expires</Text>
+      <View style={styles.chipRow}>
+        {OFFER_EXPIRY_OPTIONS.map((option) => (
+          <Pressable
+            key={option.hours}
+            style={[styles.chip, expiresInHours === option.hours && styles.chipSelected]}
+            onPress={() => {
+              haptics.selection();
+              setExpiresInHours(option.hours);
+            }}
+          >
+            <Text style={[styles.chipText, expiresInHours === option.hours && styles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <TextInput
+        style={styles.input}
+        value={message}
+        onChangeText={setMessage}
+        placeholder="Message (optional)"
+        placeholderTextColor={colors.textMuted}
+      />
+      <View style={styles.negotiationActions}>
+        <Pressable style={[styles.negotiationButton, styles.secondaryButton]} onPress={onCancel}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.negotiationButton, styles.primaryButton]}
+          onPress={handleSubmit}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color={colors.white} />
+          ) : (
+            <Text style={styles.primaryButtonText}>Send Counter</Text>
+          )}
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
 function RequestCard({
   request,
   onPress,
   onWithdraw,
   isWithdrawing,
+  onAgree,
+  onCounter,
+  isNegotiating,
 }: {
   request: MyRequest;
   onPress: () => void;
   onWithdraw?: () => void;
   isWithdrawing?: boolean;
+  onAgree?: (offer: LoadRequestOffer) => void;
+  onCounter?: (params: CounterMyRequestParams) => Promise<boolean>;
+  isNegotiating?: boolean;
 }) {
+  const [showCounterForm, setShowCounterForm] = useState(false);
   const status = STATUS_CONFIG[request.status] || STATUS_CONFIG.pending;
   const load = request.load;
   const isPending = request.status === 'pending';
+  const companyName = request.company?.name || 'Company';
+
+  const openOffer = request.offers.find((offer) => offer.status === 'open');
+  const posterCounter =
+    isPending && request.awaiting_response_from === 'carrier' && openOffer?.offered_by === 'poster'
+      ? openOffer
+      : null;
+  const posterCounterExpired = posterCounter ? effectiveOfferStatus(posterCounter) === 'expired' : false;
+  const showThread = request.offers.length > 1 || !!posterCounter;
 
   // Determine offer display
   const getOfferDisplay = () => {
+    if (request.agreed_rate !== null) {
+      return `${formatOfferRate(request.agreed_rate, request.agreed_rate_type)} (agreed)`;
+    }
+    const latestCarrierOffer = [...request.offers].reverse().find((offer) => offer.offered_by === 'carrier');
+    if (latestCarrierOffer && request.offers.length > 1) {
+      return `${formatOfferRate(latestCarrierOffer.rate, latestCarrierOffer.rate_type)} (counter)`;
+    }
     if (request.request_type === 'counter_offer' && request.counter_offer_rate) {
       return `$${request.counter_offer_rate.toFixed(2)}/CF (counter)`;
     }
@@ -190,6 +399,83 @@ function RequestCard({
         </View>
       )}
 
+      {/* Negotiation */}
+      {showThread && <OfferThread offers={request.offers} companyName={companyName} />}
+
+      {posterCounter && !showCounterForm && (
+        <View style={styles.negotiationBanner}>
+          <Text style={styles.negotiationTitle}>
+            {posterCounterExpired
+              ? `${companyName}'s counter offer expired`
+              : `${companyName} countered at ${describeOfferTerms(posterCounter)}`}
+          </Text>
+          <View style={styles.negotiationActions}>
+            {!posterCounterExpired && onAgree && (
+              <Pressable
+                style={[styles.negotiationButton, styles.primaryButton]}
+                onPress={(e) => {
+                  e.stopPropagation();
+                  haptics.tap();
+                  onAgree(posterCounter);
+                }}
+                disabled={isNegotiating}
+              >
+                {isNegotiating ? (
+                  <ActivityIndicator size="small" color={colors.white} />
+                ) : (
+                  <>
+                    <Icon name="check" size="xs" color={colors.white} />
+                    <Text style={styles.primaryButtonText}>
+                      Accept {formatOfferRate(posterCounter.rate, posterCounter.rate_type)}
+                    </Text>
+                  </>
+                )}
+              </Pressable>
+            )}
+            {load.is_open_to_counter && onCounter && (
+              <Pressable
+                style={[styles.negotiationButton, styles.secondaryButton]}
+                onPress={(e) => {
+                  e.stopPropagation();
+                  haptics.tap();
+                  setShowCounterForm(true);
+                }}
+                disabled={isNegotiating}
+              >
+                <Icon name="refresh" size="xs" color={colors.primary} />
+                <Text style={styles.secondaryButtonText}>Counter</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      )}
+
+      {posterCounter && showCounterForm && onCounter && (
+        <CounterForm
+          request={request}
+          initialRate={posterCounter.rate}
+          isSubmitting={!!isNegotiating}
+          onCancel={() => setShowCounterForm(false)}
+          onSubmit={async (params) => {
+            if (await onCounter(params)) setShowCounterForm(false);
+          }}
+        />
+      )}
+
+      {isPending && request.agreed_rate !== null && (
+        <View style={styles.negotiationBanner}>
+          <Text style={styles.negotiationTitle}>
+            You agreed at {formatOfferRate(request.agreed_rate, request.agreed_rate_type)}. Waiting for {companyName} to confirm.
+          </Text>
+        </View>
+      )}
+
+      {isPending && request.agreed_rate === null && !posterCounter && request.offers.length > 1 && (
+        <View style={styles.negotiationBanner}>
+          <Text style={styles.negotiationTitle}>Waiting for {companyName} to respond to your counter</Text>
+        </View>
+      )}
+
       {/* Footer */}
       <View style={styles.cardFooter}>
         <Text style={styles.timeAgo}>Requested {timeAgo(request.created_at)}</Text>
@@ -234,6 +520,8 @@ export default function MyRequestsScreen() {
 
   const { withdrawRequest, isWithdrawing } = useWithdrawMyRequest();
   const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const { counterOffer, agreeToOffer } = useNegotiateMyRequest();
+  const [negotiatingId, setNegotiatingId] = useState<string | null>(null);
 
   const [refreshing, setRefreshing] = useState(false);
 
@@ -268,6 +556,48 @@ export default function MyRequestsScreen() {
     );
   };
 
+  const handleAgree = (request: MyRequest, offer: LoadRequestOffer) => {
+    Alert.alert(
+      'Accept Counter Offer',
+      `Agree to ${describeOfferTerms(offer)} for load #${request.load.load_number}? ${
+        request.company?.name || 'The company'
+      } will then confirm the assignment.`,
+      [
+        { text: 'Not Yet', style: 'cancel' },
+        {
+          text: 'Accept',
+          onPress: async () => {
+            setNegotiatingId(request.id);
+            try {
+              await agreeToOffer({ requestId: request.id, offer });
+              haptics.success();
+            } catch (e) {
+              haptics.error();
+              Alert.alert('Error', e instanceof Error ? e.message : 'Failed to accept counter offer');
+            } finally {
+              setNegotiatingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCounter = async (params: CounterMyRequestParams): Promise<boolean> => {
+    setNegotiatingId(params.requestId);
+    try {
+      await counterOffer(params);
+      haptics.success();
+      return true;
+    } catch (e) {
+      haptics.error();
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to send counter offer');
+      return false;
+    } finally {
+      setNegotiatingId(null);
+    }
+  };
+
   const handleRequestPress = (request: MyRequest) => {
     // For accepted requests, go to assigned loads; otherwise go to load board detail
     if (request.status === 'accepted') {
@@ -416,6 +746,9 @@ export default function MyRequestsScreen() {
               onPress={() => handleRequestPress(item)}
               onWithdraw={item.status === 'pending' ? () => handleWithdraw(item) : undefined}
               isWithdrawing={withdrawingId === item.id}
+              onAgree={(offer) => handleAgree(item, offer)}
+              onCounter={handleCounter}
+              isNegotiating={negotiatingId === item.id}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -643,6 +976,136 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.textSecondary,
   },
+  thread: {
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  threadItem: {
+    backgroundColor: colors.background,
+    padding: spacing.sm,
+    borderRadius: radius.sm,
+  },
+  threadItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  threadAuthor: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  threadStatus: {
+    ...typography.caption,
+    color: colors.textMuted,
+  },
+  threadTerms: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  threadMessage: {
+    ...typography.caption,
+    fontStyle: 'italic',
+    color: colors.textMuted,
+  },
+  threadTime: {
+    ...typography.caption,
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  negotiationBanner: {
+    backgroundColor: colors.primarySoft,
+    padding: spacing.sm,
+    borderRadius: radius.sm,
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  negotiationTitle: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  negotiationActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  negotiationButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xxs,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+  },
+  primaryButtonText: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.white,
+  },
+  secondaryButton: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  secondaryButtonText: {
+    ...typography.caption,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  counterForm: {
+    backgroundColor: colors.background,
+    padding: spacing.sm,
+    borderRadius: radius.sm,
+    marginBottom: spacing.sm,
+    gap: spacing.xs,
+  },
+  counterRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  counterField: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  counterLabel: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  input: {
+    ...typography.body,
+    backgroundColor: colors.inputBackground,
+    borderRadius: radius.input,
+    padding: spacing.inputPadding,
+    borderWidth: 1,
+    borderColor: colors.border,
+    color: colors.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    fontWeight: '600',
+    color: colors.white,
+  },
   cardFooter: {
     flexDirection: 'row',
     alignItems: 'center',
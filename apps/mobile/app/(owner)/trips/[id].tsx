@@ -2,7 +2,7 @@
  * Trip Detail Screen - View and manage trip with assigned loads
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -20,6 +20,7 @@ import { supabase } from '../../../lib/supabase';
 import { Icon } from '../../../components/ui/Icon';
 import { colors, typography, spacing, radius, shadows } from '../../../lib/theme';
 import { haptics } from '../../../lib/haptics';
+import { buildCapacityTimeline } from '../../../lib/capacityTimeline';
 
 type Tab = 'overview' | 'loads';
 
@@ -28,16 +29,25 @@ interface TripLoad {
   load_id: string;
   sequence_index: number;
   role: string;
+  pickup_stop_index: number | null;
+  delivery_stop_index: number | null;
   load: {
     id: string;
     load_number: string;
     pickup_city: string | null;
     pickup_state: string | null;
+    loading_city: string | null;
+    loading_state: string | null;
     delivery_city: string | null;
     delivery_state: string | null;
+    dropoff_city: string | null;
+    dropoff_state: string | null;
     cubic_feet: number | null;
+    cubic_feet_estimate: number | null;
+    actual_cuft_loaded: number | null;
     rate_per_cuft: number | null;
     status: string;
+    load_status: string | null;
     rfd_date: string | null;
   };
 }
@@ -67,10 +77,12 @@ interface Trip {
   truck: {
     id: string;
     unit_number: string;
+    cubic_capacity: number | null;
   } | null;
   trailer: {
     id: string;
     unit_number: string;
+    capacity_cuft: number | null;
   } | null;
 }
 
@@ -116,11 +128,13 @@ export default function TripDetailScreen() {
           ),
           truck:trucks(
             id,
-            unit_number
+            unit_number,
+            cubic_capacity
           ),
           trailer:trailers(
             id,
-            unit_number
+            unit_number,
+            capacity_cuft
           )
         `)
         .eq('id', id)
@@ -158,16 +172,25 @@ export default function TripDetailScreen() {
           load_id,
           sequence_index,
           role,
+          pickup_stop_index,
+          delivery_stop_index,
           load:loads(
             id,
             load_number,
             pickup_city,
             pickup_state,
+            loading_city,
+            loading_state,
             delivery_city,
             delivery_state,
+            dropoff_city,
+            dropoff_state,
             cubic_feet,
+            cubic_feet_estimate,
+            actual_cuft_loaded,
             rate_per_cuft,
             status,
+            load_status,
             rfd_date
           )
         `)
@@ -245,6 +268,36 @@ export default function TripDetailScreen() {
     );
   };
 
+  // Prioritize trailer capacity, then truck capacity (for box trucks)
+  const capacityCuft = Number(trip?.trailer?.capacity_cuft || trip?.truck?.cubic_capacity || 0);
+
+  const capacityTimeline = useMemo(
+    () =>
+      buildCapacityTimeline(
+        capacityCuft,
+        (tripLoads || [])
+          .filter((tripLoad) => tripLoad.load)
+          .map((tripLoad) => ({
+            load_id: tripLoad.load_id,
+            load_number: tripLoad.load.load_number,
+            load_status: tripLoad.load.load_status,
+            pickup_label: formatPlace(
+              tripLoad.load.pickup_city || tripLoad.load.loading_city,
+              tripLoad.load.pickup_city ? tripLoad.load.pickup_state : tripLoad.load.loading_state
+            ),
+            delivery_label: formatPlace(
+              tripLoad.load.delivery_city || tripLoad.load.dropoff_city,
+              tripLoad.load.delivery_city ? tripLoad.load.delivery_state : tripLoad.load.dropoff_state
+            ),
+            estimated_cuft: Number(tripLoad.load.cubic_feet ?? tripLoad.load.cubic_feet_estimate ?? 0),
+            actual_cuft: tripLoad.load.actual_cuft_loaded != null ? Number(tripLoad.load.actual_cuft_loaded) : null,
+            pickup_stop_index: tripLoad.pickup_stop_index,
+            delivery_stop_index: tripLoad.delivery_stop_index,
+          }))
+      ),
+    [capacityCuft, tripLoads]
+  );
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -451,6 +504,61 @@ export default function TripDetailScreen() {
               <Text style={styles.addLoadText}>Add Load to Trip</Text>
             </Pressable>
 
+            {/* Trailer Capacity */}
+            {capacityTimeline.stops.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Trailer Capacity</Text>
+                <Text style={styles.capacitySummary}>
+                  Peak {formatCuft(capacityTimeline.peak_cuft)} cuft
+                  {capacityTimeline.peak_utilization_percent !== null &&
+                    ` of ${formatCuft(capacityTimeline.capacity_cuft)} (${capacityTimeline.peak_utilization_percent}%)`}
+                  {capacityTimeline.starting_cuft > 0 &&
+                    ` · ${formatCuft(capacityTimeline.starting_cuft)} cuft on board at departure`}
+                </Text>
+                {capacityTimeline.first_overload_stop !== null && (
+                  <View style={styles.overloadRow}>
+                    <Icon name="alert-triangle" size="sm" color={colors.error} />
+                    <Text style={styles.overloadText}>
+                      Over capacity at stop {capacityTimeline.first_overload_stop}
+                    </Text>
+                  </View>
+                )}
+                {capacityTimeline.stops.map((stop, index) => (
+                  <View key={`${stop.load_id}-${stop.type}`} style={styles.capacityStop}>
+                    <View style={styles.capacityStopHeader}>
+                      <Text style={styles.capacityStopTitle} numberOfLines={1}>
+                        {index + 1}. {stop.type === 'pickup' ? 'Pickup' : 'Deliver'} {stop.load_number} · {stop.label}
+                      </Text>
+                      {stop.utilization_percent !== null && (
+                        <Text style={[styles.capacityPercent, { color: getUtilizationColor(stop.utilization_percent) }]}>
+                          {stop.utilization_percent}%
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={styles.capacityStopDetail}>
+                      {formatCuft(stop.onboard_cuft)} cuft on board
+                      {stop.estimated_onboard_cuft !== stop.onboard_cuft &&
+                        ` (est. ${formatCuft(stop.estimated_onboard_cuft)})`}
+                      {stop.overloaded && ' · Overloaded'}
+                    </Text>
+                    {stop.utilization_percent !== null && (
+                      <View style={styles.capacityBar}>
+                        <View
+                          style={[
+                            styles.capacityBarFill,
+                            {
+                              width: `${Math.min(stop.utilization_percent, 100)}%`,
+                              backgroundColor: getUtilizationColor(stop.utilization_percent),
+                            },
+                          ]}
+                        />
+                      </View>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* Loads List */}
             {loadsLoading ? (
               <View style={styles.loadingState}>
@@ -552,6 +660,20 @@ function getLoadStatusColor(status: string): string {
   }
 }
 
+function getUtilizationColor(percent: number): string {
+  if (percent > 100) return colors.error;
+  if (percent >= 90) return colors.warning;
+  return colors.success;
+}
+
+function formatCuft(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+function formatPlace(city: string | null, state: string | null): string {
+  return [city, state].filter(Boolean).join(', ') || 'Unknown location';
+}
+
 function formatStatus(status: string): string {
   return status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 }
@@ -810,6 +932,58 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginLeft: spacing.sm,
   },
+  capacitySummary: {
+    ...typography.body,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  overloadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  overloadText: {
+    ...typography.caption,
+    color: colors.error,
+    fontWeight: '600',
+  },
+  capacityStop: {
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  capacityStopHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  capacityStopTitle: {
+    ...typography.caption,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+  capacityPercent: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  capacityStopDetail: {
+    ...typography.caption,
+    color: colors.textMuted,
+    marginTop: spacing.xxs,
+  },
+  capacityBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.surfaceElevated,
+    marginTop: spacing.xs,
+    overflow: 'hidden',
+  },
+  capacityBarFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: spacing.xxxl,
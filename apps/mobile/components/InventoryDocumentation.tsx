@@ -0,0 +1,957 @@
+/**
+ * InventoryDocumentation - Household goods descriptive inventory for a load
+ *
+ * Modes:
+ * - build: driver tags items during loading (room, description, condition codes,
+ *   cartons, high-value flag, link to a pre-existing damage sticker)
+ * - delivery: driver checks items off at delivery and records exceptions
+ * - readonly: summary list for the load detail screen
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type {
+  DamageItem,
+  InventoryConditionCode,
+  InventoryDeliveryException,
+  InventoryItem,
+} from '../types';
+import {
+  useLoadInventory,
+  CONDITION_CODE_LABELS,
+  DELIVERY_EXCEPTION_LABELS,
+} from '../hooks/useLoadInventory';
+import { useLoadActions } from '../hooks/useLoadActions';
+import { useToast, Skeleton } from './ui';
+import { colors, typography, spacing, radius } from '../lib/theme';
+
+const CONDITION_CODES = Object.keys(CONDITION_CODE_LABELS) as InventoryConditionCode[];
+const EXCEPTION_TYPES = Object.keys(DELIVERY_EXCEPTION_LABELS) as InventoryDeliveryException[];
+
+interface InventoryDocumentationProps {
+  loadId: string;
+  mode?: 'build' | 'delivery' | 'readonly';
+}
+
+export function InventoryDocumentation({ loadId, mode = 'build' }: InventoryDocumentationProps) {
+  const insets = useSafeAreaInsets();
+  const toast = useToast();
+  const inventory = useLoadInventory(loadId);
+  const actions = useLoadActions(loadId);
+  const { items, summary } = inventory;
+
+  const [damages, setDamages] = useState<DamageItem[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Item form state
+  const [tagNumber, setTagNumber] = useState('');
+  const [room, setRoom] = useState('');
+  const [description, setDescription] = useState('');
+  const [conditionCodes, setConditionCodes] = useState<InventoryConditionCode[]>([]);
+  const [conditionNotes, setConditionNotes] = useState('');
+  const [cartonCount, setCartonCount] = useState('');
+  const [isHighValue, setIsHighValue] = useState(false);
+  const [declaredValue, setDeclaredValue] = useState('');
+  const [damageItemId, setDamageItemId] = useState<string | null>(null);
+
+  // Delivery exception state
+  const [exceptionItem, setExceptionItem] = useState<InventoryItem | null>(null);
+  const [exceptionType, setExceptionType] = useState<InventoryDeliveryException>('damaged');
+  const [exceptionNotes, setExceptionNotes] = useState('');
+
+  // Pre-existing damage stickers available to link
+  useEffect(() => {
+    if (mode === 'build') {
+      actions.getDamages().then(setDamages);
+    }
+  }, [loadId, mode]);
+
+  const resetForm = () => {
+    setEditingItem(null);
+    setTagNumber(inventory.nextTagNumber);
+    setRoom('');
+    setDescription('');
+    setConditionCodes([]);
+    setConditionNotes('');
+    setCartonCount('');
+    setIsHighValue(false);
+    setDeclaredValue('');
+    setDamageItemId(null);
+  };
+
+  const openAddModal = () => {
+    resetForm();
+    // Keep the last room - drivers usually tag a room at a time
+    const lastItem = items[items.length - 1];
+    if (lastItem?.room) setRoom(lastItem.room);
+    setModalVisible(true);
+  };
+
+  const openEditModal = (item: InventoryItem) => {
+    setEditingItem(item);
+    setTagNumber(item.tag_number);
+    setRoom(item.room || '');
+    setDescription(item.description);
+    setConditionCodes(item.condition_codes || []);
+    setConditionNotes(item.condition_notes || '');
+    setCartonCount(item.carton_count ? String(item.carton_count) : '');
+    setIsHighValue(item.is_high_value);
+    setDeclaredValue(item.declared_value != null ? String(item.declared_value) : '');
+    setDamageItemId(item.damage_item_id);
+    setModalVisible(true);
+  };
+
+  const toggleCode = (code: InventoryConditionCode) => {
+    setConditionCodes((current) =>
+      current.includes(code) ? current.filter((c) => c !== code) : [...current, code],
+    );
+  };
+
+  const linkDamage = (damage: DamageItem) => {
+    if (damageItemId === damage.id) {
+      setDamageItemId(null);
+      return;
+    }
+    setDamageItemId(damage.id);
+    if (!description.trim()) setDescription(damage.item_description);
+  };
+
+  const handleSave = async () => {
+    if (!tagNumber.trim()) {
+      toast.warning('Enter the tag number');
+      return;
+    }
+    if (!description.trim()) {
+      toast.warning('Enter an item description');
+      return;
+    }
+
+    setSubmitting(true);
+    const input = {
+      tag_number: tagNumber.trim(),
+      room: room.trim() || null,
+      description: description.trim(),
+      condition_codes: conditionCodes,
+      condition_notes: conditionNotes.trim() || null,
+      carton_count: parseInt(cartonCount, 10) || 0,
+      is_high_value: isHighValue,
+      declared_value: isHighValue && declaredValue ? parseFloat(declaredValue) || null : null,
+      damage_item_id: damageItemId,
+    };
+
+    const result = editingItem
+      ? await inventory.updateItem(editingItem.id, input)
+      : await inventory.addItem(input);
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save item');
+      return;
+    }
+
+    if (editingItem) {
+      setModalVisible(false);
+      resetForm();
+    } else {
+      // Stay open for the next tag in the same room
+      toast.success(`Tag ${input.tag_number} added`);
+      const keepRoom = input.room;
+      resetForm();
+      setTagNumber(String((parseInt(input.tag_number, 10) || 0) + 1));
+      setRoom(keepRoom || '');
+    }
+  };
+
+  const handleDelete = (item: InventoryItem) => {
+    Alert.alert('Remove Item', `Remove tag ${item.tag_number} from the inventory?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await inventory.removeItem(item.id);
+          if (!result.success) toast.error(result.error || 'Failed to remove item');
+        },
+      },
+    ]);
+  };
+
+  const handleCheckOff = async (item: InventoryItem) => {
+    const result =
+      item.delivery_status === 'pending'
+        ? await inventory.markDelivered(item.id)
+        : await inventory.resetDelivery(item.id);
+    if (!result.success) toast.error(result.error || 'Failed to update item');
+  };
+
+  const openException = (item: InventoryItem) => {
+    setExceptionItem(item);
+    setExceptionType(item.delivery_exception || 'damaged');
+    setExceptionNotes(item.delivery_notes || '');
+  };
+
+  const saveException = async () => {
+    if (!exceptionItem) return;
+    if (exceptionType !== 'missing' && !exceptionNotes.trim()) {
+      toast.warning('Describe the exception');
+      return;
+    }
+    setSubmitting(true);
+    const result = await inventory.markDelivered(exceptionItem.id, {
+      type: exceptionType,
+      notes: exceptionNotes.trim() || null,
+    });
+    setSubmitting(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to record exception');
+      return;
+    }
+    setExceptionItem(null);
+  };
+
+  const handleCheckAll = () => {
+    Alert.alert(
+      'Check Off All Items',
+      `Mark the ${summary.pending} remaining item${summary.pending === 1 ? '' : 's'} as delivered in good condition?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Check Off',
+          onPress: async () => {
+            const result = await inventory.markAllDelivered();
+            if (!result.success) toast.error(result.error || 'Failed to check off items');
+          },
+        },
+      ],
+    );
+  };
+
+  const renderItem = (item: InventoryItem) => {
+    const linkedDamage = item.damage_item_id ? damages.find((d) => d.id === item.damage_item_id) : null;
+    const isDelivered = item.delivery_status === 'delivered';
+    const isException = item.delivery_status === 'exception';
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={[
+          styles.item,
+          isDelivered && styles.itemDelivered,
+          isException && styles.itemException,
+        ]}
+        onPress={() => mode === 'build' && openEditModal(item)}
+        disabled={mode !== 'build'}
+        activeOpacity={mode === 'build' ? 0.7 : 1}
+      >
+        <View style={styles.itemHeader}>
+          <View style={styles.tagBadge}>
+            <Ionicons name="pricetag" size={12} color={colors.background} />
+            <Text style={styles.tagBadgeText}>{item.tag_number}</Text>
+          </View>
+          {item.room && <Text style={styles.itemRoom}>{item.room}</Text>}
+          {item.is_high_value && (
+            <View style={styles.highValueBadge}>
+              <Text style={styles.highValueText}>HIGH VALUE</Text>
+            </View>
+          )}
+          <View style={{ flex: 1 }} />
+          {mode === 'build' && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+              <Ionicons name="trash-outline" size={16} color={colors.error} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.itemDescription}>
+          {item.description}
+          {item.carton_count > 0 ? ` (${item.carton_count} ctn)` : ''}
+        </Text>
+        {(item.condition_codes?.length > 0 || item.condition_notes) && (
+          <Text style={styles.itemCondition}>
+            {item.condition_codes.join(', ')}
+            {item.condition_notes ? `${item.condition_codes.length ? ' - ' : ''}${item.condition_notes}` : ''}
+          </Text>
+        )}
+        {(linkedDamage || (item.damage_item_id && mode !== 'build')) && (
+          <Text style={styles.itemDamageLink}>
+            <Ionicons name="alert-circle-outline" size={12} color={colors.warning} /> Pre-existing damage
+            {linkedDamage ? ` #${linkedDamage.sticker_number}` : ''}
+          </Text>
+        )}
+        {isException && (
+          <Text style={styles.itemExceptionText}>
+            {item.delivery_exception ? DELIVERY_EXCEPTION_LABELS[item.delivery_exception] : 'Exception'}
+            {item.delivery_notes ? `: ${item.delivery_notes}` : ''}
+          </Text>
+        )}
+
+        {mode === 'delivery' && (
+          <View style={styles.deliveryActions}>
+            <TouchableOpacity
+              style={[styles.checkButton, isDelivered && styles.checkButtonActive]}
+              onPress={() => handleCheckOff(item)}
+            >
+              <Ionicons
+                name={isDelivered ? 'checkmark-circle' : 'ellipse-outline'}
+                size={20}
+                color={isDelivered ? colors.background : colors.success}
+              />
+              <Text style={[styles.checkButtonText, isDelivered && styles.checkButtonTextActive]}>
+                {isDelivered ? 'Delivered' : isException ? 'Clear' : 'Check Off'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.exceptionButton, isException && styles.exceptionButtonActive]}
+              onPress={() => openException(item)}
+            >
+              <Ionicons name="warning-outline" size={18} color={isException ? colors.background : colors.error} />
+              <Text style={[styles.exceptionButtonText, isException && styles.checkButtonTextActive]}>
+                Exception
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (inventory.loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Skeleton width={160} height={18} />
+        <Skeleton width="100%" height={80} borderRadius={12} style={{ marginTop: 12 }} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <View style={styles.titleRow}>
+            <Ionicons name="list-outline" size={20} color={colors.primary} />
+            <Text style={styles.title}>Inventory</Text>
+          </View>
+          <Text style={styles.subtitle}>
+            {mode === 'delivery'
+              ? 'Check off each tag as it comes off the truck'
+              : mode === 'build'
+                ? 'Tag each item and note its condition as it is loaded'
+                : 'Descriptive inventory for this load'}
+          </Text>
+        </View>
+        {summary.itemCount > 0 && (
+          <View style={styles.countBadge}>
+            <Text style={styles.countBadgeText}>{summary.itemCount}</Text>
+          </View>
+        )}
+      </View>
+
+      {summary.itemCount > 0 && (
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>{summary.itemCount} tags</Text>
+          <Text style={styles.summaryText}>{summary.cartonCount} cartons</Text>
+          {summary.highValueCount > 0 && (
+            <Text style={styles.summaryText}>{summary.highValueCount} high value</Text>
+          )}
+          {mode !== 'build' && (
+            <Text style={[styles.summaryText, summary.exceptions > 0 && { color: colors.error }]}>
+              {summary.delivered}/{summary.itemCount} delivered
+              {summary.exceptions > 0 ? `, ${summary.exceptions} exception${summary.exceptions === 1 ? '' : 's'}` : ''}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {items.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="cube-outline" size={32} color={colors.textMuted} />
+          <Text style={styles.emptyStateText}>No inventory items yet</Text>
+        </View>
+      ) : (
+        <View style={styles.list}>{items.map(renderItem)}</View>
+      )}
+
+      {mode === 'build' && (
+        <TouchableOpacity style={styles.addButton} onPress={openAddModal}>
+          <Ionicons name="add-circle" size={24} color={colors.background} />
+          <Text style={styles.addButtonText}>Add Inventory Item</Text>
+        </TouchableOpacity>
+      )}
+
+      {mode === 'delivery' && summary.pending > 0 && (
+        <TouchableOpacity style={styles.checkAllButton} onPress={handleCheckAll}>
+          <Ionicons name="checkmark-done" size={20} color={colors.success} />
+          <Text style={styles.checkAllText}>Check Off Remaining ({summary.pending})</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Add/Edit Item Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setModalVisible(false)} disabled={submitting}>
+              <Text style={styles.modalCancel}>{editingItem ? 'Cancel' : 'Done'}</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>{editingItem ? `Tag ${editingItem.tag_number}` : 'Add Item'}</Text>
+            <TouchableOpacity onPress={handleSave} disabled={submitting}>
+              <Text style={[styles.modalSave, submitting && styles.modalButtonDisabled]}>
+                {submitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.modalScrollView}
+            contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + spacing.xxxl }]}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.inputRow}>
+              <View style={[styles.inputGroup, { flex: 1 }]}>
+                <Text style={styles.label}>
+                  Tag # <Text style={styles.required}>*</Text>
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={tagNumber}
+                  onChangeText={setTagNumber}
+                  placeholder="1"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="number-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, { flex: 2 }]}>
+                <Text style={styles.label}>Room</Text>
+                <TextInput
+                  style={styles.input}
+                  value={room}
+                  onChangeText={setRoom}
+                  placeholder="e.g. Living room"
+                  placeholderTextColor={colors.textMuted}
+                />
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Item <Text style={styles.required}>*</Text>
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={description}
+                onChangeText={setDescription}
+                placeholder="e.g. Sofa, 3 cushion"
+                placeholderTextColor={colors.textMuted}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Condition at origin</Text>
+              <View style={styles.chipGrid}>
+                {CONDITION_CODES.map((code) => {
+                  const selected = conditionCodes.includes(code);
+                  return (
+                    <TouchableOpacity
+                      key={code}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => toggleCode(code)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{code}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {conditionCodes.length > 0 && (
+                <Text style={styles.helperText}>
+                  {conditionCodes.map((code) => CONDITION_CODE_LABELS[code]).join(', ')}
+                </Text>
+              )}
+              <TextInput
+                style={styles.input}
+                value={conditionNotes}
+                onChangeText={setConditionNotes}
+                placeholder="Location/extent, e.g. left arm, top"
+                placeholderTextColor={colors.textMuted}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Cartons</Text>
+              <TextInput
+                style={styles.input}
+                value={cartonCount}
+                onChangeText={setCartonCount}
+                placeholder="0 for furniture"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="number-pad"
+              />
+            </View>
+
+            <View style={[styles.inputGroup, styles.switchRow]}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>High-value item</Text>
+                <Text style={styles.helperText}>Items listed on the high-value inventory</Text>
+              </View>
+              <Switch value={isHighValue} onValueChange={setIsHighValue} />
+            </View>
+
+            {isHighValue && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Declared value</Text>
+                <TextInput
+                  style={styles.input}
+                  value={declaredValue}
+                  onChangeText={setDeclaredValue}
+                  placeholder="0.00"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            )}
+
+            {damages.length > 0 && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Link pre-existing damage</Text>
+                <Text style={styles.helperText}>Match this tag to a damage sticker already documented</Text>
+                <View style={styles.chipGrid}>
+                  {damages.map((damage) => {
+                    const selected = damageItemId === damage.id;
+                    return (
+                      <TouchableOpacity
+                        key={damage.id}
+                        style={[styles.chip, selected && styles.chipWarning]}
+                        onPress={() => linkDamage(damage)}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          #{damage.sticker_number} {damage.item_description}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Delivery Exception Modal */}
+      <Modal
+        visible={!!exceptionItem}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setExceptionItem(null)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setExceptionItem(null)} disabled={submitting}>
+              <Text style={styles.modalCancel}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Tag {exceptionItem?.tag_number}</Text>
+            <TouchableOpacity onPress={saveException} disabled={submitting}>
+              <Text style={[styles.modalSave, submitting && styles.modalButtonDisabled]}>
+                {submitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalScrollView} contentContainerStyle={styles.modalContent}>
+            <Text style={styles.itemDescription}>{exceptionItem?.description}</Text>
+            {exceptionItem?.condition_codes?.length ? (
+              <Text style={styles.helperText}>At origin: {exceptionItem.condition_codes.join(', ')}</Text>
+            ) : null}
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Exception</Text>
+              <View style={styles.chipGrid}>
+                {EXCEPTION_TYPES.map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.chip, exceptionType === type && styles.chipError]}
+                    onPress={() => setExceptionType(type)}
+                  >
+                    <Text style={[styles.chipText, exceptionType === type && styles.chipTextSelected]}>
+                      {DELIVERY_EXCEPTION_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={styles.textArea}
+                value={exceptionNotes}
+                onChangeText={setExceptionNotes}
+                placeholder="Describe what the customer noted"
+                placeholderTextColor={colors.textMuted}
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.xl,
+  },
+  loadingContainer: {
+    padding: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.md,
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  title: {
+    ...typography.headline,
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  countBadge: {
+    backgroundColor: colors.primary,
+    borderRadius: radius.full,
+    minWidth: 28,
+    height: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.sm,
+  },
+  countBadgeText: {
+    ...typography.caption,
+    color: colors.background,
+    fontWeight: '700',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.md,
+    marginBottom: spacing.md,
+  },
+  summaryText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  emptyState: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    padding: spacing.xl,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+    gap: spacing.md,
+  },
+  emptyStateText: {
+    ...typography.body,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+  list: {
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  item: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.primary,
+    padding: spacing.md,
+  },
+  itemDelivered: {
+    borderLeftColor: colors.success,
+  },
+  itemException: {
+    borderLeftColor: colors.error,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  tagBadge: {
+    backgroundColor: colors.primary,
+    borderRadius: radius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  tagBadgeText: {
+    ...typography.caption,
+    color: colors.background,
+    fontWeight: '700',
+  },
+  itemRoom: {
+    ...typography.caption,
+    color: colors.textMuted,
+  },
+  highValueBadge: {
+    backgroundColor: colors.warningMuted,
+    borderRadius: radius.sm,
+    paddingHorizontal: spacing.xs,
+    paddingVertical: 2,
+  },
+  highValueText: {
+    ...typography.caption,
+    fontSize: 10,
+    color: colors.warning,
+    fontWeight: '700',
+  },
+  iconButton: {
+    padding: spacing.xs,
+    borderRadius: radius.sm,
+    backgroundColor: colors.errorSoft,
+  },
+  itemDescription: {
+    ...typography.subheadline,
+    color: colors.textPrimary,
+  },
+  itemCondition: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.xxs,
+  },
+  itemDamageLink: {
+    ...typography.caption,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  itemExceptionText: {
+    ...typography.bodySmall,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+  deliveryActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  checkButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.success,
+  },
+  checkButtonActive: {
+    backgroundColor: colors.success,
+  },
+  checkButtonText: {
+    ...typography.buttonSmall,
+    color: colors.success,
+  },
+  checkButtonTextActive: {
+    color: colors.background,
+  },
+  exceptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  exceptionButtonActive: {
+    backgroundColor: colors.error,
+  },
+  exceptionButtonText: {
+    ...typography.buttonSmall,
+    color: colors.error,
+  },
+  addButton: {
+    backgroundColor: colors.primary,
+    borderRadius: radius.md,
+    padding: spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  addButtonText: {
+    ...typography.button,
+    color: colors.background,
+  },
+  checkAllButton: {
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.success,
+    padding: spacing.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  checkAllText: {
+    ...typography.button,
+    color: colors.success,
+  },
+
+  // Modal styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalCancel: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  modalTitle: {
+    ...typography.headline,
+    color: colors.textPrimary,
+  },
+  modalSave: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalScrollView: {
+    flex: 1,
+  },
+  modalContent: {
+    padding: spacing.lg,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  inputGroup: {
+    marginBottom: spacing.xl,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  label: {
+    ...typography.subheadline,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  required: {
+    color: colors.error,
+  },
+  helperText: {
+    ...typography.caption,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    padding: spacing.lg,
+    ...typography.body,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  textArea: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    padding: spacing.lg,
+    ...typography.body,
+    color: colors.textPrimary,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipWarning: {
+    backgroundColor: colors.warning,
+    borderColor: colors.warning,
+  },
+  chipError: {
+    backgroundColor: colors.error,
+    borderColor: colors.error,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: colors.background,
+  },
+});
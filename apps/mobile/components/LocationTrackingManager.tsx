@@ -8,6 +8,7 @@
  * - Automatically stops when no active trips
  * - Handles app state changes (foreground/background)
  * - Syncs cached locations when online
+ * - Keeps geofences around the active loads' stops registered
  */
 
 import { useEffect, useRef } from 'react';
@@ -21,6 +22,7 @@ import {
   clearTrackingContext,
   syncCachedLocations,
   isLocationTrackingActive,
+  refreshGeofences,
 } from '../services/locationTracking';
 import { supabase } from '../lib/supabase';
 import { createLogger } from '../lib/logger';
@@ -99,6 +101,7 @@ export function LocationTrackingManager() {
               logger.info('Location tracking started automatically', { activeTripId });
             }
           }
+          await refreshGeofences(activeTripId, true);
         }
 
         // Sync any cached locations
@@ -150,6 +153,11 @@ export function LocationTrackingManager() {
         await stopLocationTracking();
         logger.info('Tracking stopped - no active trips');
       }
+
+      // Picks up loads added to or removed from the trip
+      if (activeTripId && locationSharingEnabled) {
+        await refreshGeofences(activeTripId);
+      }
     };
 
     // Check immediately on mount
@@ -0,0 +1,236 @@
+/**
+ * SignaturePad - Customer signature capture for load paperwork
+ *
+ * Collects the signer's printed name and a finger-drawn signature. Strokes are
+ * reported in the pad's own coordinate space so the web API can redraw them
+ * into the signed PDF at any size.
+ */
+
+import { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import type { CapturedSignature } from '../types';
+import { Icon } from './ui';
+import { colors, typography, spacing, radius } from '../lib/theme';
+
+type Point = [number, number];
+
+interface SignaturePadProps {
+  title: string;
+  acknowledgement: string;
+  signerName: string;
+  onSignerNameChange: (name: string) => void;
+  onSignatureChange: (signature: CapturedSignature | null) => void;
+  /** Lets a parent ScrollView stop scrolling while the signer is drawing */
+  onDrawingChange?: (drawing: boolean) => void;
+  disabled?: boolean;
+}
+
+function toPath(stroke: Point[]): string {
+  if (stroke.length === 0) return '';
+  const [first, ...rest] = stroke;
+  if (rest.length === 0) {
+    // A tap leaves a dot
+    return `M ${first[0]} ${first[1]} l 0.1 0.1`;
+  }
+  return `M ${first[0]} ${first[1]} ${rest.map(([x, y]) => `L ${x} ${y}`).join(' ')}`;
+}
+
+export function SignaturePad({
+  title,
+  acknowledgement,
+  signerName,
+  onSignerNameChange,
+  onSignatureChange,
+  onDrawingChange,
+  disabled = false,
+}: SignaturePadProps) {
+  const [strokes, setStrokes] = useState<Point[][]>([]);
+  const [currentStroke, setCurrentStroke] = useState<Point[]>([]);
+  const strokesRef = useRef<Point[][]>([]);
+  const currentRef = useRef<Point[]>([]);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const disabledRef = useRef(disabled);
+  disabledRef.current = disabled;
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const finishStroke = () => {
+    if (currentRef.current.length > 0) {
+      strokesRef.current = [...strokesRef.current, currentRef.current];
+      setStrokes(strokesRef.current);
+      onSignatureChange({
+        strokes: strokesRef.current,
+        width: sizeRef.current.width,
+        height: sizeRef.current.height,
+      });
+    }
+    currentRef.current = [];
+    setCurrentStroke([]);
+    onDrawingChange?.(false);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !disabledRef.current,
+      onMoveShouldSetPanResponder: () => !disabledRef.current,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        onDrawingChange?.(true);
+        const { locationX, locationY } = event.nativeEvent;
+        currentRef.current = [[round(locationX), round(locationY)]];
+        setCurrentStroke(currentRef.current);
+      },
+      onPanResponderMove: (event) => {
+        const { locationX, locationY } = event.nativeEvent;
+        const { width, height } = sizeRef.current;
+        const x = round(Math.min(Math.max(locationX, 0), width));
+        const y = round(Math.min(Math.max(locationY, 0), height));
+        currentRef.current = [...currentRef.current, [x, y]];
+        setCurrentStroke(currentRef.current);
+      },
+      onPanResponderRelease: finishStroke,
+      onPanResponderTerminate: finishStroke,
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    sizeRef.current = { width: round(width), height: round(height) };
+  };
+
+  const handleClear = () => {
+    strokesRef.current = [];
+    currentRef.current = [];
+    setStrokes([]);
+    setCurrentStroke([]);
+    onSignatureChange(null);
+  };
+
+  const hasSignature = strokes.length > 0;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <Text style={styles.acknowledgement}>{acknowledgement}</Text>
+
+      <Text style={styles.label}>Signer Name</Text>
+      <TextInput
+        style={styles.input}
+        value={signerName}
+        onChangeText={onSignerNameChange}
+        placeholder="Full name"
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="words"
+        editable={!disabled}
+      />
+
+      <View style={styles.padHeader}>
+        <Text style={styles.label}>Signature</Text>
+        {hasSignature && !disabled && (
+          <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
+            <Icon name="x" size="sm" color={colors.textSecondary} />
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={styles.pad} onLayout={handleLayout} {...panResponder.panHandlers}>
+        <Svg style={StyleSheet.absoluteFill}>
+          {[...strokes, currentStroke].map((stroke, index) => (
+            <Path
+              key={index}
+              d={toPath(stroke)}
+              stroke={colors.textInverse}
+              strokeWidth={2.5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="none"
+            />
+          ))}
+        </Svg>
+        {!hasSignature && currentStroke.length === 0 && (
+          <Text style={styles.placeholder} pointerEvents="none">
+            Sign here
+          </Text>
+        )}
+        <View style={styles.signatureLine} pointerEvents="none" />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: spacing.sectionGap,
+  },
+  sectionTitle: {
+    ...typography.subheadline,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  acknowledgement: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  label: {
+    ...typography.subheadline,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    padding: spacing.lg,
+    ...typography.body,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: spacing.lg,
+  },
+  padHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+  clearText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  pad: {
+    height: 180,
+    backgroundColor: colors.white,
+    borderRadius: radius.md,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholder: {
+    ...typography.body,
+    color: colors.textMuted,
+  },
+  signatureLine: {
+    position: 'absolute',
+    left: spacing.lg,
+    right: spacing.lg,
+    bottom: 36,
+    height: 1,
+    backgroundColor: colors.borderLight,
+  },
+});
+
+export default SignaturePad;
@@ -4,7 +4,7 @@
  * Handles document scanning with OCR for contract details:
  * - Take photo
  * - Send to OCR API
- * - Return extracted data
+ * - Return extracted fields with confidence for review
  */
 
 import { useState } from 'react';
@@ -20,6 +20,7 @@ import * as ImagePicker from 'expo-image-picker';
 import { readAsStringAsync, EncodingType } from 'expo-file-system/legacy';
 import { supabase } from '../../lib/supabase';
 import { useToast } from '../ui';
+import { DocumentExtraction } from '../../types';
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://moveboss.com';
 
@@ -28,7 +29,7 @@ interface DocumentScannerProps {
   endpoint: 'loading-report' | 'bill-of-lading';
   photo: string | null;
   onPhotoTaken: (uri: string) => void;
-  onDataExtracted: (data: Record<string, unknown>) => void;
+  onExtracted: (extraction: DocumentExtraction) => void;
 }
 
 export function DocumentScanner({
@@ -36,7 +37,7 @@ export function DocumentScanner({
   endpoint,
   photo,
   onPhotoTaken,
-  onDataExtracted,
+  onExtracted,
 }: DocumentScannerProps) {
   const toast = useToast();
   const [scanning, setScanning] = useState(false);
@@ -90,9 +91,8 @@ export function DocumentScanner({
 
       const result = await response.json();
 
-      if (result.success && result.data) {
-        onDataExtracted(result.data);
-        toast.success('Scanned! Verify values are correct');
+      if (result.success && result.fields) {
+        onExtracted(result as DocumentExtraction);
       } else {
         toast.warning(result.error || 'Could not extract data');
       }
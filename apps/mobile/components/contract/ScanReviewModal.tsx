@@ -0,0 +1,200 @@
+/**
+ * ScanReviewModal Component
+ *
+ * Review screen shown after a document scan:
+ * - Lists every value read from the document with its confidence
+ * - Highlights values the server flagged as hard to read
+ * - Lets the driver fix or skip values before they fill the form
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+
+export interface ScanReviewItem {
+  key: string;
+  label: string;
+  value: string;
+  confidence: number;
+  lowConfidence: boolean;
+}
+
+interface ScanReviewModalProps {
+  visible: boolean;
+  items: ScanReviewItem[];
+  onApply: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function ScanReviewModal({ visible, items, onApply, onCancel }: ScanReviewModalProps) {
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<Record<string, boolean>>({});
+
+  // Start each review from the freshly scanned values
+  useEffect(() => {
+    setDraft(Object.fromEntries(items.map((item) => [item.key, item.value])));
+    setSkipped({});
+  }, [items]);
+
+  const lowCount = items.filter((item) => item.lowConfidence).length;
+
+  const handleApply = () => {
+    const values: Record<string, string> = {};
+    items.forEach((item) => {
+      const value = draft[item.key]?.trim();
+      if (!skipped[item.key] && value) values[item.key] = value;
+    });
+    onApply(values);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.headerCancel}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Review Scan</Text>
+          <TouchableOpacity onPress={handleApply}>
+            <Text style={styles.headerApply}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.summary}>
+            {lowCount > 0
+              ? `${lowCount} highlighted value${lowCount === 1 ? ' was' : 's were'} hard to read. Check ${lowCount === 1 ? 'it' : 'them'} against the document.`
+              : 'Check the values against the document before applying.'}
+          </Text>
+
+          {items.map((item) => (
+            <View
+              key={item.key}
+              style={[
+                styles.row,
+                item.lowConfidence && styles.rowLow,
+                skipped[item.key] && styles.rowSkipped,
+              ]}
+            >
+              <View style={styles.rowHeader}>
+                <Text style={styles.label}>{item.label}</Text>
+                <Text style={[styles.confidence, item.lowConfidence && styles.confidenceLow]}>
+                  {item.lowConfidence ? '⚠ ' : ''}
+                  {Math.round(item.confidence * 100)}%
+                </Text>
+              </View>
+              <TextInput
+                style={styles.input}
+                value={draft[item.key] ?? ''}
+                onChangeText={(value) => setDraft((prev) => ({ ...prev, [item.key]: value }))}
+                editable={!skipped[item.key]}
+                placeholderTextColor="#666"
+              />
+              <TouchableOpacity
+                onPress={() => setSkipped((prev) => ({ ...prev, [item.key]: !prev[item.key] }))}
+              >
+                <Text style={styles.skipText}>{skipped[item.key] ? 'Use this value' : "Don't use"}</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#3a3a4e',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  headerCancel: {
+    fontSize: 16,
+    color: '#888',
+  },
+  headerApply: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 16,
+  },
+  row: {
+    backgroundColor: '#2a2a3e',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2a2a3e',
+    padding: 12,
+    marginBottom: 12,
+  },
+  rowLow: {
+    borderColor: '#f59e0b',
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+  },
+  rowSkipped: {
+    opacity: 0.5,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#ccc',
+  },
+  confidence: {
+    fontSize: 13,
+    color: '#888',
+  },
+  confidenceLow: {
+    color: '#f59e0b',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#fff',
+  },
+  skipText: {
+    fontSize: 13,
+    color: '#0066CC',
+    marginTop: 8,
+  },
+});
+
+export default ScanReviewModal;
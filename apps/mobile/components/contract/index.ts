@@ -2,3 +2,4 @@ export { DocumentScanner } from './DocumentScanner';
 export { CustomerDeliverySection } from './CustomerDeliverySection';
 export { AccessorialsSection } from './AccessorialsSection';
 export { ContractSummaryCard } from './ContractSummaryCard';
+export { ScanReviewModal } from './ScanReviewModal';
@@ -61,6 +61,9 @@ export function SettlementCard({ settlement, onPress }: SettlementCardProps) {
         <View>
           <Text style={styles.tripNumber}>Trip #{settlement.tripNumber}</Text>
           <Text style={styles.tripRoute}>{settlement.route}</Text>
+          {settlement.statementNumber && (
+            <Text style={styles.statementRef}>On statement {settlement.statementNumber}</Text>
+          )}
         </View>
         <View
           style={[
@@ -172,6 +175,11 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 2,
   },
+  statementRef: {
+    ...typography.caption,
+    color: colors.info,
+    marginTop: 2,
+  },
   statusBadge: {
     paddingHorizontal: spacing.sm,
     paddingVertical: spacing.xs,
@@ -0,0 +1,242 @@
+/**
+ * StatementCard Component
+ *
+ * Card showing a pay-period statement: trip pay netted against
+ * reimbursements, collections, advances, deductions and escrow.
+ */
+
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors, typography, spacing, radius } from '../../lib/theme';
+import { DriverPayStatement, DriverStatementLineCategory } from '../../types';
+
+const CATEGORY_LABELS: Record<DriverStatementLineCategory, string> = {
+  trip_pay: 'Trip pay',
+  reimbursement: 'Reimbursement',
+  collection: 'Collected',
+  advance: 'Advance',
+  deduction: 'Deduction',
+  escrow_holdback: 'Escrow',
+  escrow_release: 'Escrow',
+};
+
+interface StatementCardProps {
+  statement: DriverPayStatement;
+}
+
+export function StatementCard({ statement }: StatementCardProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const formatCurrency = (amount: number) =>
+    `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const isPaid = statement.status === 'paid';
+  const statusColor = isPaid ? colors.textMuted : colors.success;
+
+  const breakdown = [
+    { label: 'Trip pay', value: statement.grossPay, isGross: true },
+    { label: '+ Reimb', value: statement.reimbursements },
+    { label: '+ Escrow', value: statement.escrowRelease },
+    { label: '- Cash', value: -statement.collections },
+    { label: '- Advances', value: -statement.advances },
+    { label: '- Deductions', value: -statement.deductions },
+    { label: '- Escrow', value: -statement.escrowHoldback },
+  ].filter((item) => item.value !== 0);
+
+  return (
+    <TouchableOpacity style={styles.statementCard} onPress={() => setExpanded((value) => !value)}>
+      <View style={styles.statementHeader}>
+        <View>
+          <Text style={styles.statementNumber}>{statement.statementNumber}</Text>
+          <Text style={styles.period}>
+            {formatDate(statement.periodStart)} - {formatDate(statement.periodEnd)}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+          <Text style={[styles.statusText, { color: statusColor }]}>{isPaid ? 'Paid' : 'Approved'}</Text>
+        </View>
+      </View>
+
+      <View style={styles.statementFooter}>
+        <View style={styles.payBreakdown}>
+          {breakdown.map((item) => (
+            <View key={item.label} style={styles.payItem}>
+              <Text style={styles.payLabel}>{item.label}</Text>
+              <Text
+                style={[
+                  styles.payAmount,
+                  item.isGross
+                    ? null
+                    : item.value > 0
+                    ? styles.positiveAmount
+                    : styles.negativeAmount,
+                ]}
+              >
+                {formatCurrency(Math.abs(item.value))}
+              </Text>
+            </View>
+          ))}
+        </View>
+        <View style={styles.netPay}>
+          <Text style={styles.netPayLabel}>Net Pay</Text>
+          <Text style={styles.netPayAmount}>{formatCurrency(statement.netPay)}</Text>
+        </View>
+      </View>
+
+      {expanded && (
+        <View style={styles.lines}>
+          {statement.lines.map((line) => (
+            <View key={line.id} style={styles.lineRow}>
+              <View style={styles.lineText}>
+                <Text style={styles.lineCategory}>{CATEGORY_LABELS[line.category]}</Text>
+                <Text style={styles.lineDescription}>{line.description}</Text>
+              </View>
+              <Text style={[styles.lineAmount, line.amount < 0 && styles.negativeAmount]}>
+                {formatCurrency(line.amount)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {isPaid && statement.paidAt && (
+        <View style={styles.paidInfo}>
+          <Text style={styles.paidInfoText}>
+            Paid {formatDate(statement.paidAt)}
+            {statement.paidMethod ? ` via ${statement.paidMethod}` : ''}
+          </Text>
+        </View>
+      )}
+
+      <Text style={styles.toggleText}>{expanded ? 'Hide details' : 'Show details'}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  statementCard: {
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    padding: spacing.cardPadding,
+    marginBottom: spacing.itemGap,
+  },
+  statementHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.itemGap,
+  },
+  statementNumber: {
+    ...typography.subheadline,
+    color: colors.textPrimary,
+  },
+  period: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+  },
+  statusText: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  statementFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+    paddingTop: spacing.itemGap,
+  },
+  payBreakdown: {
+    gap: spacing.xs,
+  },
+  payItem: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  payLabel: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    width: 80,
+  },
+  payAmount: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  positiveAmount: {
+    color: colors.success,
+  },
+  negativeAmount: {
+    color: colors.error,
+  },
+  netPay: {
+    alignItems: 'flex-end',
+  },
+  netPayLabel: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  netPayAmount: {
+    ...typography.headline,
+    color: colors.textPrimary,
+  },
+  lines: {
+    marginTop: spacing.itemGap,
+    paddingTop: spacing.itemGap,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+    gap: spacing.sm,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  lineText: {
+    flex: 1,
+  },
+  lineCategory: {
+    ...typography.caption,
+    color: colors.textMuted,
+  },
+  lineDescription: {
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  lineAmount: {
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  paidInfo: {
+    marginTop: spacing.itemGap,
+    paddingTop: spacing.itemGap,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  paidInfoText: {
+    ...typography.caption,
+    color: colors.success,
+    textAlign: 'center',
+  },
+  toggleText: {
+    ...typography.caption,
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+});
+
+export default StatementCard;
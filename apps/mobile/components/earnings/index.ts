@@ -1,4 +1,5 @@
 export { SettlementCard } from './SettlementCard';
+export { StatementCard } from './StatementCard';
 export { EarningsSummary } from './EarningsSummary';
 export { EarningsStatsRow } from './EarningsStatsRow';
 export { EarningsFilterTabs } from './EarningsFilterTabs';
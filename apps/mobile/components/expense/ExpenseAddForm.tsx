@@ -30,6 +30,8 @@ export function ExpenseAddForm({ tripId, createExpense, toast }: ExpenseAddFormP
   const [showForm, setShowForm] = useState(false);
   const [category, setCategory] = useState<ExpenseCategory>('fuel');
   const [amount, setAmount] = useState('');
+  const [gallons, setGallons] = useState('');
+  const [fuelState, setFuelState] = useState('');
   const [description, setDescription] = useState('');
   const [paidBy, setPaidBy] = useState<ExpensePaidBy>('driver_personal');
   const [receiptImage, setReceiptImage] = useState<string | null>(null);
@@ -38,6 +40,8 @@ export function ExpenseAddForm({ tripId, createExpense, toast }: ExpenseAddFormP
   const resetForm = () => {
     setCategory('fuel');
     setAmount('');
+    setGallons('');
+    setFuelState('');
     setDescription('');
     setPaidBy('driver_personal');
     setReceiptImage(null);
@@ -49,6 +53,14 @@ export function ExpenseAddForm({ tripId, createExpense, toast }: ExpenseAddFormP
       toast.error('Enter a valid amount');
       return;
     }
+    if (category === 'fuel' && gallons && !(parseFloat(gallons) > 0)) {
+      toast.error('Enter a valid number of gallons');
+      return;
+    }
+    if (category === 'fuel' && fuelState && !/^[A-Z]{2}$/.test(fuelState)) {
+      toast.error('Enter the two-letter state code');
+      return;
+    }
 
     setSubmitting(true);
 
@@ -68,6 +80,8 @@ export function ExpenseAddForm({ tripId, createExpense, toast }: ExpenseAddFormP
       const input: CreateExpenseInput = {
         category,
         amount: parseFloat(amount),
+        gallons: category === 'fuel' && gallons ? parseFloat(gallons) : undefined,
+        fuelState: category === 'fuel' && fuelState ? fuelState : undefined,
         description: description || undefined,
         paidBy,
         receiptPhotoUrl: receiptUrl,
@@ -114,6 +128,10 @@ export function ExpenseAddForm({ tripId, createExpense, toast }: ExpenseAddFormP
         onCategoryChange={setCategory}
         amount={amount}
         onAmountChange={setAmount}
+        gallons={gallons}
+        onGallonsChange={setGallons}
+        fuelState={fuelState}
+        onFuelStateChange={setFuelState}
         description={description}
         onDescriptionChange={setDescription}
         paidBy={paidBy}
@@ -4,6 +4,7 @@
  * Premium form for adding new expenses with:
  * - Category selection with icons
  * - Amount input
+ * - Gallons and purchase state for fuel (IFTA)
  * - Description
  * - Paid by selection
  * - Receipt photo
@@ -47,6 +48,10 @@ interface ExpenseFormProps {
   onCategoryChange: (category: ExpenseCategory) => void;
   amount: string;
   onAmountChange: (amount: string) => void;
+  gallons: string;
+  onGallonsChange: (gallons: string) => void;
+  fuelState: string;
+  onFuelStateChange: (fuelState: string) => void;
   description: string;
   onDescriptionChange: (description: string) => void;
   paidBy: ExpensePaidBy;
@@ -66,6 +71,10 @@ export function ExpenseForm({
   onCategoryChange,
   amount,
   onAmountChange,
+  gallons,
+  onGallonsChange,
+  fuelState,
+  onFuelStateChange,
   description,
   onDescriptionChange,
   paidBy,
@@ -176,6 +185,35 @@ export function ExpenseForm({
         />
       </View>
 
+      {/* Fuel purchase details for IFTA */}
+      {category === 'fuel' && (
+        <View style={styles.fuelRow}>
+          <View style={styles.fuelField}>
+            <Text style={styles.inputLabel}>Gallons</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.000"
+              placeholderTextColor={colors.textMuted}
+              value={gallons}
+              onChangeText={onGallonsChange}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={styles.fuelField}>
+            <Text style={styles.inputLabel}>State</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., TX"
+              placeholderTextColor={colors.textMuted}
+              value={fuelState}
+              onChangeText={(text) => onFuelStateChange(text.toUpperCase())}
+              autoCapitalize="characters"
+              maxLength={2}
+            />
+          </View>
+        </View>
+      )}
+
       {/* Description */}
       <Text style={styles.inputLabel}>Description (optional)</Text>
       <TextInput
@@ -360,6 +398,13 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     padding: spacing.md,
   },
+  fuelRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  fuelField: {
+    flex: 1,
+  },
   input: {
     backgroundColor: colors.inputBackground,
     borderRadius: radius.input,
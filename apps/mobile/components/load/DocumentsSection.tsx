@@ -14,6 +14,7 @@ import {
   TouchableOpacity,
   Image,
   Modal,
+  Linking,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import { useLoadDocuments, DocumentType, LoadDocument } from '../../hooks/useLoadDocuments';
@@ -27,6 +28,7 @@ const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
   { value: 'inventory', label: 'Inventory' },
   { value: 'loading_report', label: 'Loading Report' },
   { value: 'delivery_report', label: 'Delivery Report' },
+  { value: 'delivery_receipt', label: 'Delivery Receipt' },
   { value: 'damage', label: 'Damage' },
   { value: 'other', label: 'Other' },
 ];
@@ -179,10 +181,17 @@ export function DocumentsSection({ loadId }: DocumentsSectionProps) {
                   <TouchableOpacity
                     key={doc.id}
                     style={styles.docThumbnail}
-                    onPress={() => setViewingDocument(doc)}
+                    onPress={() => (doc.isPdf ? Linking.openURL(doc.url) : setViewingDocument(doc))}
                     onLongPress={() => handleDelete(doc)}
                   >
-                    <Image source={{ uri: doc.url }} style={styles.docThumbnailImage} />
+                    {doc.isPdf ? (
+                      <View style={styles.docThumbnailPdf}>
+                        <Icon name="file-text" size={24} color={colors.textSecondary} />
+                        <Text style={styles.docThumbnailPdfText}>PDF</Text>
+                      </View>
+                    ) : (
+                      <Image source={{ uri: doc.url }} style={styles.docThumbnailImage} />
+                    )}
                   </TouchableOpacity>
                 ))}
               </View>
@@ -359,6 +368,16 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  docThumbnailPdf: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xxs,
+  },
+  docThumbnailPdfText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
   // Upload Modal
   modalOverlay: {
     flex: 1,
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Pressable } from 'react-native';
 import { Icon } from '../ui';
 import { DamageDocumentation } from '../DamageDocumentation';
+import { InventoryDocumentation } from '../InventoryDocumentation';
 import { colors, typography, spacing, radius } from '../../lib/theme';
 import type { LoadDetail } from '../../types';
 
@@ -62,6 +63,12 @@ export function LoadInfoSection({
     load.pre_existing_damages &&
     (load.pre_existing_damages as unknown as Array<unknown>).length > 0;
 
+  const showInventory =
+    load.load_status === 'loaded' ||
+    load.load_status === 'in_transit' ||
+    load.load_status === 'delivered' ||
+    load.load_status === 'storage_completed';
+
   const isRFD = isRFDLoad(load);
   const alreadyLoaded = isAlreadyLoaded(load);
   const pickupLabel = isRFD ? 'Loading Address' : 'Pickup';
@@ -202,6 +209,12 @@ export function LoadInfoSection({
           <DamageDocumentation loadId={loadId} readonly />
         </View>
       )}
+
+      {showInventory && (
+        <View style={styles.card}>
+          <InventoryDocumentation loadId={loadId} mode="readonly" />
+        </View>
+      )}
     </>
   );
 }
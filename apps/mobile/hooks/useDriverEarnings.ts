@@ -3,7 +3,14 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../providers/AuthProvider';
 import { useDriver } from '../providers/DriverProvider';
-import { TripSettlement, EarningsSummary, SettlementStatus, DriverPayMode } from '../types';
+import {
+  TripSettlement,
+  EarningsSummary,
+  SettlementStatus,
+  DriverPayMode,
+  DriverPayStatement,
+  DriverStatementLine,
+} from '../types';
 
 // Calculate driver pay based on pay mode and trip data
 function calculateDriverPay(
@@ -52,7 +59,11 @@ export function useDriverEarnings(dateRange?: { start: Date; end: Date }) {
   const { user } = useAuth();
   const { driverId, ownerId, loading: driverLoading, error: driverError, isReady: driverReady } = useDriver();
 
-  const earningsQuery = useQuery<{ settlements: TripSettlement[]; summary: EarningsSummary }>({
+  const earningsQuery = useQuery<{
+    settlements: TripSettlement[];
+    statements: DriverPayStatement[];
+    summary: EarningsSummary;
+  }>({
     queryKey: [
       'driverEarnings',
       user?.id,
@@ -94,6 +105,7 @@ export function useDriverEarnings(dateRange?: { start: Date; end: Date }) {
           trip_flat_daily_rate,
           settlement_paid_at,
           settlement_paid_method,
+          driver_statement_id,
           trip_expenses (
             id,
             category,
@@ -110,11 +122,83 @@ export function useDriverEarnings(dateRange?: { start: Date; end: Date }) {
         query = query.gte('end_date', dateRange.start.toISOString()).lte('end_date', dateRange.end.toISOString());
       }
 
-      const { data: trips, error: tripsError } = await query;
+      // Drivers only see finalized and paid statements (RLS hides drafts)
+      let statementsQuery = supabase
+        .from('driver_statements')
+        .select(`
+          id,
+          statement_number,
+          status,
+          period_start,
+          period_end,
+          gross_pay,
+          reimbursements,
+          collections,
+          advances,
+          deductions,
+          escrow_holdback,
+          escrow_release,
+          net_pay,
+          paid_at,
+          paid_method,
+          lines:driver_statement_lines (
+            id,
+            trip_id,
+            category,
+            description,
+            amount,
+            sort_order
+          )
+        `)
+        .eq('driver_id', driverId)
+        .in('status', ['finalized', 'paid'])
+        .order('period_end', { ascending: false });
+
+      if (dateRange) {
+        statementsQuery = statementsQuery
+          .gte('period_end', dateRange.start.toISOString().split('T')[0])
+          .lte('period_end', dateRange.end.toISOString().split('T')[0]);
+      }
+
+      const [{ data: trips, error: tripsError }, { data: statementRows, error: statementsError }] =
+        await Promise.all([query, statementsQuery]);
 
       if (tripsError) {
         throw tripsError;
       }
+      if (statementsError) {
+        throw statementsError;
+      }
+
+      const statements: DriverPayStatement[] = (statementRows || []).map((row) => ({
+        id: row.id,
+        statementNumber: row.statement_number,
+        status: row.status,
+        periodStart: row.period_start,
+        periodEnd: row.period_end,
+        grossPay: Number(row.gross_pay) || 0,
+        reimbursements: Number(row.reimbursements) || 0,
+        collections: Number(row.collections) || 0,
+        advances: Number(row.advances) || 0,
+        deductions: Number(row.deductions) || 0,
+        escrowHoldback: Number(row.escrow_holdback) || 0,
+        escrowRelease: Number(row.escrow_release) || 0,
+        netPay: Number(row.net_pay) || 0,
+        paidAt: row.paid_at,
+        paidMethod: row.paid_method,
+        lines: [...(row.lines || [])]
+          .sort((a, b) => a.sort_order - b.sort_order)
+          .map(
+            (line): DriverStatementLine => ({
+              id: line.id,
+              tripId: line.trip_id,
+              category: line.category,
+              description: line.description,
+              amount: Number(line.amount) || 0,
+            })
+          ),
+      }));
+      const statementsById = new Map(statements.map((statement) => [statement.id, statement]));
 
       const tripSettlements: TripSettlement[] = (trips || []).map((trip) => {
         const route = [
@@ -171,23 +255,36 @@ export function useDriverEarnings(dateRange?: { start: Date; end: Date }) {
           netPay,
           paidAt: trip.settlement_paid_at,
           paidMethod: trip.settlement_paid_method,
+          statementId: statementsById.has(trip.driver_statement_id) ? trip.driver_statement_id : null,
+          statementNumber: statementsById.get(trip.driver_statement_id)?.statementNumber || null,
         };
       });
 
+      // Trips settled on a statement are counted through the statement's net pay,
+      // which already has advances, deductions and escrow taken out
+      const unsettledTrips = tripSettlements.filter((s) => !s.statementId);
+
       const summaryData: EarningsSummary = {
-        totalEarned: tripSettlements.reduce((sum, s) => sum + s.netPay, 0),
-        pendingPay: tripSettlements.filter((s) => s.settlementStatus !== 'paid').reduce((sum, s) => sum + s.netPay, 0),
-        paidOut: tripSettlements.filter((s) => s.settlementStatus === 'paid').reduce((sum, s) => sum + s.netPay, 0),
+        totalEarned:
+          unsettledTrips.reduce((sum, s) => sum + s.netPay, 0) +
+          statements.reduce((sum, s) => sum + s.netPay, 0),
+        pendingPay:
+          unsettledTrips.filter((s) => s.settlementStatus !== 'paid').reduce((sum, s) => sum + s.netPay, 0) +
+          statements.filter((s) => s.status !== 'paid').reduce((sum, s) => sum + s.netPay, 0),
+        paidOut:
+          unsettledTrips.filter((s) => s.settlementStatus === 'paid').reduce((sum, s) => sum + s.netPay, 0) +
+          statements.filter((s) => s.status === 'paid').reduce((sum, s) => sum + s.netPay, 0),
         tripsCompleted: tripSettlements.length,
         totalMiles: tripSettlements.reduce((sum, s) => sum + (s.totalMiles || 0), 0),
         totalCuft: tripSettlements.reduce((sum, s) => sum + (s.totalCuft || 0), 0),
       };
 
-      return { settlements: tripSettlements, summary: summaryData };
+      return { settlements: tripSettlements, statements, summary: summaryData };
     },
   });
 
   const settlements = earningsQuery.data?.settlements || [];
+  const statements = earningsQuery.data?.statements || [];
   const summary = earningsQuery.data?.summary || {
     totalEarned: 0,
     pendingPay: 0,
@@ -202,11 +299,12 @@ export function useDriverEarnings(dateRange?: { start: Date; end: Date }) {
   return useMemo(
     () => ({
       settlements,
+      statements,
       summary,
       loading,
       error,
       refetch: earningsQuery.refetch,
     }),
-    [settlements, summary, loading, error, earningsQuery.refetch],
+    [settlements, statements, summary, loading, error, earningsQuery.refetch],
   );
 }
@@ -11,6 +11,8 @@ type ActionResult = { success: boolean; error?: string };
 export interface CreateExpenseInput {
   category: ExpenseCategory;
   amount: number;
+  gallons?: number;
+  fuelState?: string;
   description?: string;
   paidBy?: ExpensePaidBy;
   receiptPhotoUrl?: string;
@@ -42,6 +44,8 @@ export function useExpenseActions(tripId: string, onSuccess?: () => void) {
           owner_id: driver.owner_id,
           category: input.category,
           amount: input.amount,
+          gallons: input.gallons ?? null,
+          fuel_state: input.fuelState || null,
           description: input.description || null,
           paid_by: input.paidBy || null,
           receipt_photo_url: input.receiptPhotoUrl || null,
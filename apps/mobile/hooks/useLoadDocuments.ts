@@ -11,6 +11,7 @@ export type DocumentType =
   | 'inventory'
   | 'loading_report'
   | 'delivery_report'
+  | 'delivery_receipt'
   | 'damage'
   | 'other';
 
@@ -20,6 +21,8 @@ export interface LoadDocument {
   type: DocumentType;
   url: string;
   caption?: string;
+  /** Signed BOLs and delivery receipts are generated as PDFs */
+  isPdf?: boolean;
   createdAt: string;
 }
 
@@ -89,6 +92,7 @@ export function useLoadDocuments(loadId: string | null): UseLoadDocumentsResult
         type: mapPhotoType(photo.photo_type),
         url: photo.file_url,
         caption: photo.caption,
+        isPdf: photo.mime_type === 'application/pdf',
         createdAt: photo.created_at,
       }));
 
@@ -285,6 +289,8 @@ function mapPhotoType(photoType: string): DocumentType {
       return 'contract';
     case 'bol':
       return 'bol';
+    case 'delivery_receipt':
+      return 'delivery_receipt';
     case 'inventory':
       return 'inventory';
     default:
@@ -305,6 +311,8 @@ function mapDocTypeToPhotoType(type: DocumentType): string {
       return 'loading';
     case 'delivery_report':
       return 'delivery';
+    case 'delivery_receipt':
+      return 'delivery_receipt';
     case 'damage':
       return 'damage';
     default:
@@ -0,0 +1,272 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useDriver } from '../providers/DriverProvider';
+import type {
+  InventoryConditionCode,
+  InventoryDeliveryException,
+  InventoryItem,
+} from '../types';
+
+type ActionResult = { success: boolean; error?: string };
+
+export interface InventoryItemInput {
+  tag_number: string;
+  room: string | null;
+  description: string;
+  condition_codes: InventoryConditionCode[];
+  condition_notes: string | null;
+  carton_count: number;
+  is_high_value: boolean;
+  declared_value: number | null;
+  damage_item_id: string | null;
+}
+
+export interface InventorySummary {
+  itemCount: number;
+  cartonCount: number;
+  highValueCount: number;
+  delivered: number;
+  exceptions: number;
+  pending: number;
+}
+
+// Standard descriptive inventory symbols for pre-existing condition
+export const CONDITION_CODE_LABELS: Record<InventoryConditionCode, string> = {
+  BE: 'Bent',
+  BR: 'Broken',
+  BU: 'Burned',
+  CH: 'Chipped',
+  CU: 'Contents unknown',
+  D: 'Dented',
+  F: 'Faded',
+  G: 'Gouged',
+  L: 'Loose',
+  MAR: 'Marred',
+  MI: 'Mildew',
+  MO: 'Moth-eaten',
+  P: 'Peeled',
+  R: 'Rubbed',
+  RU: 'Rusted',
+  SC: 'Scratched',
+  SH: 'Short',
+  SO: 'Soiled',
+  T: 'Torn',
+  W: 'Badly worn',
+  Z: 'Cracked',
+};
+
+export const DELIVERY_EXCEPTION_LABELS: Record<InventoryDeliveryException, string> = {
+  missing: 'Missing',
+  damaged: 'Damaged',
+  refused: 'Refused',
+  other: 'Other',
+};
+
+const INVENTORY_SELECT = `
+  id,
+  load_id,
+  tag_number,
+  room,
+  description,
+  condition_codes,
+  condition_notes,
+  carton_count,
+  is_high_value,
+  declared_value,
+  damage_item_id,
+  delivery_status,
+  delivery_exception,
+  delivery_notes,
+  delivered_at,
+  created_at
+`;
+
+export function useLoadInventory(loadId: string | null) {
+  const { driverId, ownerId, isReady, error: driverError } = useDriver();
+  const queryClient = useQueryClient();
+  const queryKey = ['loadInventory', loadId, driverId];
+
+  const inventoryQuery = useQuery<InventoryItem[]>({
+    queryKey,
+    enabled: isReady && !!driverId && !!loadId,
+    queryFn: async () => {
+      if (driverError) throw new Error(driverError);
+
+      const { data, error } = await supabase
+        .from('load_inventory_items')
+        .select(INVENTORY_SELECT)
+        .eq('load_id', loadId!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return ((data || []) as InventoryItem[]).sort((a, b) =>
+        a.tag_number.localeCompare(b.tag_number, undefined, { numeric: true }),
+      );
+    },
+  });
+
+  const items = inventoryQuery.data || [];
+
+  const summary = useMemo<InventorySummary>(
+    () => ({
+      itemCount: items.length,
+      cartonCount: items.reduce((sum, item) => sum + (item.carton_count || 0), 0),
+      highValueCount: items.filter((item) => item.is_high_value).length,
+      delivered: items.filter((item) => item.delivery_status === 'delivered').length,
+      exceptions: items.filter((item) => item.delivery_status === 'exception').length,
+      pending: items.filter((item) => item.delivery_status === 'pending').length,
+    }),
+    [items],
+  );
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  /**
+   * Next tag number after the highest numeric tag on the load
+   */
+  const nextTagNumber = useMemo(() => {
+    const highest = items.reduce((max, item) => {
+      const value = parseInt(item.tag_number, 10);
+      return Number.isFinite(value) && value > max ? value : max;
+    }, 0);
+    return String(highest + 1);
+  }, [items]);
+
+  const addItem = async (input: InventoryItemInput): Promise<ActionResult> => {
+    try {
+      if (!ownerId || !loadId) throw new Error('Driver profile not found');
+      if (!input.tag_number.trim()) throw new Error('Tag number is required');
+      if (!input.description.trim()) throw new Error('Item description is required');
+
+      const { error } = await supabase.from('load_inventory_items').insert({
+        ...input,
+        tag_number: input.tag_number.trim(),
+        description: input.description.trim(),
+        owner_id: ownerId,
+        load_id: loadId,
+        created_by_driver_id: driverId,
+      });
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`Tag ${input.tag_number} is already on this inventory`);
+        throw error;
+      }
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to add inventory item' };
+    }
+  };
+
+  const updateItem = async (itemId: string, updates: Partial<InventoryItemInput>): Promise<ActionResult> => {
+    try {
+      const { error } = await supabase.from('load_inventory_items').update(updates).eq('id', itemId);
+      if (error) throw error;
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to update inventory item' };
+    }
+  };
+
+  const removeItem = async (itemId: string): Promise<ActionResult> => {
+    try {
+      const { error } = await supabase.from('load_inventory_items').delete().eq('id', itemId);
+      if (error) throw error;
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to remove inventory item' };
+    }
+  };
+
+  /**
+   * Check an item off at delivery, or record an exception against it
+   */
+  const markDelivered = async (
+    itemId: string,
+    exception?: { type: InventoryDeliveryException; notes: string | null } | null,
+  ): Promise<ActionResult> => {
+    try {
+      const { error } = await supabase
+        .from('load_inventory_items')
+        .update({
+          delivery_status: exception ? 'exception' : 'delivered',
+          delivery_exception: exception?.type ?? null,
+          delivery_notes: exception?.notes ?? null,
+          delivered_at: new Date().toISOString(),
+        })
+        .eq('id', itemId);
+
+      if (error) throw error;
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to check off item' };
+    }
+  };
+
+  const resetDelivery = async (itemId: string): Promise<ActionResult> => {
+    try {
+      const { error } = await supabase
+        .from('load_inventory_items')
+        .update({
+          delivery_status: 'pending',
+          delivery_exception: null,
+          delivery_notes: null,
+          delivered_at: null,
+        })
+        .eq('id', itemId);
+
+      if (error) throw error;
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to reset item' };
+    }
+  };
+
+  /**
+   * Check off every item still pending - for loads delivered without exceptions
+   */
+  const markAllDelivered = async (): Promise<ActionResult> => {
+    try {
+      if (!loadId) throw new Error('Load not found');
+
+      const { error } = await supabase
+        .from('load_inventory_items')
+        .update({ delivery_status: 'delivered', delivered_at: new Date().toISOString() })
+        .eq('load_id', loadId)
+        .eq('delivery_status', 'pending');
+
+      if (error) throw error;
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to check off items' };
+    }
+  };
+
+  return {
+    items,
+    summary,
+    nextTagNumber,
+    loading: inventoryQuery.isLoading,
+    error: inventoryQuery.error ? (inventoryQuery.error as Error).message : null,
+    refetch: inventoryQuery.refetch,
+    addItem,
+    updateItem,
+    removeItem,
+    markDelivered,
+    resetDelivery,
+    markAllDelivered,
+  };
+}
@@ -5,6 +5,7 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useOwner } from '../providers/OwnerProvider';
+import { notifySavedSearchesOfPostedLoad } from '../lib/savedSearches';
 
 interface PostToMarketplaceParams {
   loadId: string;
@@ -71,6 +72,10 @@ export function useMarketplaceActions() {
         console.error('[Marketplace] Update error:', error.message, error.code, error.details);
         throw new Error(`Failed to update load: ${error.message}`);
       }
+
+      // Alert carriers whose saved searches match this load
+      notifySavedSearchesOfPostedLoad(loadId);
+
       return data;
     },
     onSuccess: () => {
@@ -6,6 +6,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useOwner } from '../providers/OwnerProvider';
+import type { LoadRequestOffer } from '../lib/loadRequestNegotiation';
 
 export interface MyRequest {
   id: string;
@@ -19,6 +20,13 @@ export interface MyRequest {
   proposed_load_date_end: string | null;
   proposed_delivery_date_start: string | null;
   proposed_delivery_date_end: string | null;
+  // Negotiation: which side answers next, the agreed terms and the offer thread
+  awaiting_response_from: 'carrier' | 'poster';
+  agreed_rate: number | null;
+  agreed_rate_type: string | null;
+  agreed_load_date: string | null;
+  agreed_max_cuft: number | null;
+  offers: LoadRequestOffer[];
   load: {
     id: string;
     load_number: string;
@@ -35,6 +43,7 @@ export interface MyRequest {
     posting_type: 'pickup' | 'load' | null;
     load_subtype: 'live' | 'rfd' | null;
     posted_by_company_id: string | null;
+    is_open_to_counter: boolean;
   };
   company: {
     id: string;
@@ -67,6 +76,11 @@ export function useMyRequests() {
           proposed_load_date_end,
           proposed_delivery_date_start,
           proposed_delivery_date_end,
+          awaiting_response_from,
+          agreed_rate,
+          agreed_rate_type,
+          agreed_load_date,
+          agreed_max_cuft,
           load_id
         `)
         .eq('carrier_id', companyId)
@@ -101,7 +115,8 @@ export function useMyRequests() {
           company_rate_type,
           posting_type,
           load_subtype,
-          posted_by_company_id
+          posted_by_company_id,
+          is_open_to_counter
         `)
         .in('id', loadIds);
 
@@ -122,6 +137,7 @@ export function useMyRequests() {
         posting_type: string | null;
         load_subtype: string | null;
         posted_by_company_id: string | null;
+        is_open_to_counter: boolean | null;
       };
 
       const loadMap = new Map<string, LoadData>();
@@ -149,6 +165,24 @@ export function useMyRequests() {
         }
       }
 
+      // Fetch negotiation threads, oldest offer first
+      const { data: offerRows } = await supabase
+        .from('load_request_offers')
+        .select('id, request_id, offered_by, rate, rate_type, load_date, max_cuft, message, expires_at, status, responded_at, created_at')
+        .in('request_id', requests.map((r) => r.id))
+        .order('created_at', { ascending: true });
+
+      const offersMap = new Map<string, LoadRequestOffer[]>();
+      for (const row of offerRows || []) {
+        const thread = offersMap.get(row.request_id) || [];
+        thread.push({
+          ...row,
+          rate: Number(row.rate),
+          max_cuft: row.max_cuft !== null ? Number(row.max_cuft) : null,
+        } as LoadRequestOffer);
+        offersMap.set(row.request_id, thread);
+      }
+
       // Map to interface
       return requests
         .map((request) => {
@@ -167,6 +201,12 @@ export function useMyRequests() {
             proposed_load_date_end: request.proposed_load_date_end,
             proposed_delivery_date_start: request.proposed_delivery_date_start,
             proposed_delivery_date_end: request.proposed_delivery_date_end,
+            awaiting_response_from: request.awaiting_response_from || 'poster',
+            agreed_rate: request.agreed_rate !== null ? Number(request.agreed_rate) : null,
+            agreed_rate_type: request.agreed_rate_type,
+            agreed_load_date: request.agreed_load_date,
+            agreed_max_cuft: request.agreed_max_cuft !== null ? Number(request.agreed_max_cuft) : null,
+            offers: offersMap.get(request.id) || [],
             load: {
               id: load.id,
               load_number: load.load_number,
@@ -183,6 +223,7 @@ export function useMyRequests() {
               posting_type: load.posting_type,
               load_subtype: load.load_subtype,
               posted_by_company_id: load.posted_by_company_id,
+              is_open_to_counter: !!load.is_open_to_counter,
             },
             company: load.posted_by_company_id
               ? companyMap.get(load.posted_by_company_id) || null
@@ -244,3 +285,84 @@ export function useWithdrawMyRequest() {
     isWithdrawing: mutation.isPending,
   };
 }
+
+export interface CounterMyRequestParams {
+  requestId: string;
+  rate: number;
+  // The load's company_rate_type; per cuft when the load has none
+  rateType: string | null;
+  loadDate: string | null;
+  maxCuft: number | null;
+  message: string | null;
+  expiresInHours: number;
+}
+
+/**
+ * Hooks for answering the poster's counter offer: counter it back or agree to it.
+ * Agreeing stores the terms on the request; the poster then accepts the request.
+ */
+export function useNegotiateMyRequest() {
+  const queryClient = useQueryClient();
+
+  // Both run as database functions: the carrier can't write the request's
+  // agreed terms or whose turn it is directly
+  const counterMutation = useMutation({
+    mutationFn: async ({
+      requestId,
+      rate,
+      rateType,
+      loadDate,
+      maxCuft,
+      message,
+      expiresInHours,
+    }: CounterMyRequestParams) => {
+      if (!(rate > 0)) throw new Error('Enter a rate above zero');
+
+      const { error } = await supabase.rpc('counter_load_request_as_carrier', {
+        p_request_id: requestId,
+        p_rate: rate,
+        p_rate_type: rateType,
+        p_load_date: loadDate,
+        p_max_cuft: maxCuft,
+        p_message: message,
+        p_expires_in_hours: expiresInHours || null,
+      });
+
+      if (error) {
+        console.error('[MyRequests] Error sending counter offer:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-requests'] });
+    },
+  });
+
+  const agreeMutation = useMutation({
+    mutationFn: async ({ requestId, offer }: { requestId: string; offer: LoadRequestOffer }) => {
+      if (offer.offered_by !== 'poster' || offer.status !== 'open') {
+        throw new Error('There is no counter offer to accept');
+      }
+
+      const { data: acceptedOfferId, error } = await supabase.rpc('agree_to_load_request_offer', {
+        p_request_id: requestId,
+      });
+
+      if (error) {
+        console.error('[MyRequests] Error agreeing to counter offer:', error);
+        throw error;
+      }
+      if (!acceptedOfferId) throw new Error('This counter offer has expired');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-requests'] });
+    },
+  });
+
+  return {
+    counterOffer: counterMutation.mutateAsync,
+    isCountering: counterMutation.isPending,
+    agreeToOffer: agreeMutation.mutateAsync,
+    isAgreeing: agreeMutation.isPending,
+  };
+}
@@ -26,6 +26,7 @@ export type NotificationType =
   | 'load_status_changed'
   | 'payment_received'
   | 'settlement_approved'
+  | 'saved_search_match'
   | 'message'
   | 'general'
   // Reminder types (local notifications)
@@ -33,13 +34,16 @@ export type NotificationType =
   | 'trip_start_morning'
   | 'pickup_reminder'
   | 'delivery_reminder'
-  | 'rfd_window_reminder';
+  | 'rfd_window_reminder'
+  // Geofence arrival prompt (local notification)
+  | 'geofence_arrival';
 
 export interface NotificationData {
   type: NotificationType;
   tripId?: string;
   loadId?: string;
   message?: string;
+  stopType?: 'pickup' | 'delivery' | 'storage';
   // Message notification fields (sent from backend with snake_case)
   conversation_id?: string;
   load_id?: string;
@@ -132,6 +136,15 @@ export function usePushNotifications(): UsePushNotificationsResult {
         });
       }
 
+      // Lets the driver confirm a geofence arrival straight from the notification
+      await Notifications.setNotificationCategoryAsync('geofence_arrival', [
+        {
+          identifier: 'confirm_arrival',
+          buttonTitle: 'Mark arrived',
+          options: { opensAppToForeground: true },
+        },
+      ]);
+
       return token;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to register for push notifications');
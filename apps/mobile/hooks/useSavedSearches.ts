@@ -0,0 +1,178 @@
+/**
+ * Hook for the current user's saved load-board searches
+ * New marketplace loads matching a search trigger push alerts and, if enabled,
+ * a daily email digest (sent by the web app)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../providers/AuthProvider';
+import type {
+  SavedLoadSearch,
+  SavedSearchLoadKind,
+  SavedSearchTruckRequirement,
+} from '../lib/savedSearches';
+
+export interface SavedSearchCenter {
+  label: string;
+  lat: number;
+  lng: number;
+}
+
+export interface CreateSavedSearchParams {
+  name: string;
+  // A radius around a center replaces the state list
+  origin: SavedSearchCenter | null;
+  originRadiusMiles: number | null;
+  originStates: string[];
+  destination: SavedSearchCenter | null;
+  destinationRadiusMiles: number | null;
+  destinationStates: string[];
+  minCuft: number | null;
+  maxCuft: number | null;
+  minRatePerCuft: number | null;
+  loadKind: SavedSearchLoadKind;
+  availableFrom: string | null;
+  availableTo: string | null;
+  truckRequirement: SavedSearchTruckRequirement;
+  instantAlerts: boolean;
+  emailDigest: boolean;
+}
+
+const toNumber = (value: number | string | null) => (value === null ? null : Number(value));
+
+export function useSavedSearches() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['saved-searches', userId],
+    queryFn: async (): Promise<SavedLoadSearch[]> => {
+      if (!userId) return [];
+
+      const { data: rows, error: fetchError } = await supabase
+        .from('saved_load_searches')
+        .select(`
+          id,
+          name,
+          origin_label,
+          origin_radius_miles,
+          origin_states,
+          destination_label,
+          destination_radius_miles,
+          destination_states,
+          min_cuft,
+          max_cuft,
+          min_rate_per_cuft,
+          load_kind,
+          available_from,
+          available_to,
+          truck_requirement,
+          instant_alerts,
+          email_digest,
+          created_at
+        `)
+        .eq('owner_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      return (rows || []).map((row) => ({
+        ...row,
+        origin_states: row.origin_states || [],
+        destination_states: row.destination_states || [],
+        min_cuft: toNumber(row.min_cuft),
+        max_cuft: toNumber(row.max_cuft),
+        min_rate_per_cuft: toNumber(row.min_rate_per_cuft),
+      }));
+    },
+    enabled: !!userId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (params: CreateSavedSearchParams) => {
+      if (!userId) throw new Error('Not authenticated');
+
+      const { error: insertError } = await supabase.from('saved_load_searches').insert({
+        owner_id: userId,
+        name: params.name.trim(),
+        origin_label: params.origin?.label ?? null,
+        origin_lat: params.origin?.lat ?? null,
+        origin_lng: params.origin?.lng ?? null,
+        origin_radius_miles: params.origin ? params.originRadiusMiles : null,
+        origin_states: params.origin ? [] : params.originStates,
+        destination_label: params.destination?.label ?? null,
+        destination_lat: params.destination?.lat ?? null,
+        destination_lng: params.destination?.lng ?? null,
+        destination_radius_miles: params.destination ? params.destinationRadiusMiles : null,
+        destination_states: params.destination ? [] : params.destinationStates,
+        min_cuft: params.minCuft,
+        max_cuft: params.maxCuft,
+        min_rate_per_cuft: params.minRatePerCuft,
+        load_kind: params.loadKind,
+        available_from: params.availableFrom,
+        available_to: params.availableTo,
+        truck_requirement: params.truckRequirement,
+        instant_alerts: params.instantAlerts,
+        email_digest: params.emailDigest,
+      });
+
+      if (insertError) throw new Error(`Failed to save search: ${insertError.message}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+    },
+  });
+
+  const updateAlertsMutation = useMutation({
+    mutationFn: async ({
+      searchId,
+      instantAlerts,
+      emailDigest,
+    }: {
+      searchId: string;
+      instantAlerts?: boolean;
+      emailDigest?: boolean;
+    }) => {
+      const updates: Record<string, boolean> = {};
+      if (instantAlerts !== undefined) updates.instant_alerts = instantAlerts;
+      if (emailDigest !== undefined) updates.email_digest = emailDigest;
+
+      const { error: updateError } = await supabase
+        .from('saved_load_searches')
+        .update(updates)
+        .eq('id', searchId);
+
+      if (updateError) throw new Error(`Failed to update search: ${updateError.message}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (searchId: string) => {
+      const { error: deleteError } = await supabase
+        .from('saved_load_searches')
+        .delete()
+        .eq('id', searchId);
+
+      if (deleteError) throw new Error(`Failed to delete search: ${deleteError.message}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+    },
+  });
+
+  return {
+    searches: data || [],
+    isLoading,
+    error: error?.message || null,
+    refetch,
+    createSearch: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    updateAlerts: updateAlertsMutation.mutateAsync,
+    deleteSearch: deleteMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * useSignedLoadDocument - Generates signed BOLs and delivery receipts
+ *
+ * Sends the captured signature, signer name and device location to the web API,
+ * which renders the PDF from the load record and files it with the load documents.
+ */
+
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { getCurrentLocation } from '../services/locationTracking';
+import type { CapturedSignature, SignedDocumentType } from '../types';
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://moveboss.com';
+
+interface CreateSignedDocumentInput {
+  documentType: SignedDocumentType;
+  signerName: string;
+  signature: CapturedSignature;
+  signedAt: string;
+}
+
+export function useSignedLoadDocument(loadId: string | null) {
+  const queryClient = useQueryClient();
+  const [submitting, setSubmitting] = useState(false);
+
+  const createSignedDocument = useCallback(
+    async (input: CreateSignedDocumentInput): Promise<{ success: boolean; url?: string; error?: string }> => {
+      if (!loadId) {
+        return { success: false, error: 'No load selected' };
+      }
+
+      setSubmitting(true);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.access_token) {
+          return { success: false, error: 'Not authenticated' };
+        }
+
+        const location = await getCurrentLocation();
+
+        const response = await fetch(`${API_BASE_URL}/api/loads/${loadId}/signed-documents`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            documentType: input.documentType,
+            signerName: input.signerName,
+            signedAt: input.signedAt,
+            strokes: input.signature.strokes,
+            width: input.signature.width,
+            height: input.signature.height,
+            latitude: location?.coords.latitude ?? null,
+            longitude: location?.coords.longitude ?? null,
+          }),
+        });
+
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          return { success: false, error: result.error || 'Failed to save signed document' };
+        }
+
+        await queryClient.invalidateQueries({ queryKey: ['loadDocuments', loadId] });
+        return { success: true, url: result.url };
+      } catch (err) {
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to save signed document',
+        };
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [loadId, queryClient]
+  );
+
+  return { submitting, createSignedDocument };
+}
@@ -0,0 +1,128 @@
+/**
+ * Trailer Capacity Timeline
+ *
+ * Cubic feet on board after each stop of a trip, against the trailer's
+ * capacity. Mirrors the web trip page's trailer capacity card.
+ */
+
+// Loads in these states are off the trailer and out of the route
+const COMPLETED_LOAD_STATUSES = ['delivered', 'storage_completed'];
+// Loads in these states are already on the trailer
+const PICKED_UP_LOAD_STATUSES = ['loaded', 'in_transit'];
+
+export interface CapacityTripLoad {
+  load_id: string;
+  load_number: string;
+  load_status: string | null;
+  pickup_label: string;
+  delivery_label: string;
+  estimated_cuft: number;
+  // Measured at loading; null until the driver records it
+  actual_cuft: number | null;
+  // Positions saved by the web route optimizer; null means pickups first
+  pickup_stop_index: number | null;
+  delivery_stop_index: number | null;
+}
+
+export interface CapacityStop {
+  load_id: string;
+  type: 'pickup' | 'delivery';
+  load_number: string;
+  label: string;
+  change_cuft: number;
+  estimated_onboard_cuft: number;
+  // Actual cubic feet where recorded, estimates otherwise
+  onboard_cuft: number;
+  // Null when the trip has no trailer or truck capacity on file
+  utilization_percent: number | null;
+  overloaded: boolean;
+}
+
+export interface CapacityTimeline {
+  capacity_cuft: number;
+  // On the trailer before the first stop
+  starting_cuft: number;
+  stops: CapacityStop[];
+  peak_cuft: number;
+  peak_utilization_percent: number | null;
+  // 1-based stop number of the first overload, null when everything fits
+  first_overload_stop: number | null;
+}
+
+/**
+ * Running trailer fill for the trip's undelivered loads in their saved stop
+ * order. Loads already on the trailer count from the start.
+ */
+export function buildCapacityTimeline(capacityCuft: number, tripLoads: CapacityTripLoad[]): CapacityTimeline {
+  const loads = tripLoads.filter((load) => !COMPLETED_LOAD_STATUSES.includes(load.load_status || ''));
+  const isPickedUp = (load: CapacityTripLoad) => PICKED_UP_LOAD_STATUSES.includes(load.load_status || '');
+  const loadedCuft = (load: CapacityTripLoad) => load.actual_cuft ?? load.estimated_cuft;
+
+  let onboard = loads.filter(isPickedUp).reduce((sum, load) => sum + loadedCuft(load), 0);
+  let estimatedOnboard = loads.filter(isPickedUp).reduce((sum, load) => sum + load.estimated_cuft, 0);
+  const startingCuft = onboard;
+  let peak = onboard;
+  let firstOverloadStop: number | null = null;
+
+  const stops: CapacityStop[] = [];
+  for (const { load, type } of orderStops(loads, isPickedUp)) {
+    const sign = type === 'pickup' ? 1 : -1;
+    onboard += sign * loadedCuft(load);
+    estimatedOnboard += sign * load.estimated_cuft;
+    peak = Math.max(peak, onboard);
+
+    const overloaded = capacityCuft > 0 && onboard > capacityCuft;
+    stops.push({
+      load_id: load.load_id,
+      type,
+      load_number: load.load_number,
+      label: type === 'pickup' ? load.pickup_label : load.delivery_label,
+      change_cuft: sign * loadedCuft(load),
+      estimated_onboard_cuft: estimatedOnboard,
+      onboard_cuft: onboard,
+      utilization_percent: utilization(onboard, capacityCuft),
+      overloaded,
+    });
+    if (overloaded && firstOverloadStop === null) firstOverloadStop = stops.length;
+  }
+
+  return {
+    capacity_cuft: capacityCuft,
+    starting_cuft: startingCuft,
+    stops,
+    peak_cuft: peak,
+    peak_utilization_percent: utilization(peak, capacityCuft),
+    first_overload_stop: firstOverloadStop,
+  };
+}
+
+/**
+ * Optimized trips keep their saved stop positions; otherwise every pickup
+ * comes first, then deliveries, both in load sequence order.
+ */
+function orderStops(
+  loads: CapacityTripLoad[],
+  isPickedUp: (load: CapacityTripLoad) => boolean
+): { load: CapacityTripLoad; type: 'pickup' | 'delivery' }[] {
+  const positioned = loads.every(
+    (load) => (isPickedUp(load) || load.pickup_stop_index !== null) && load.delivery_stop_index !== null
+  );
+
+  if (positioned) {
+    return loads
+      .flatMap((load) => [
+        ...(isPickedUp(load) ? [] : [{ load, type: 'pickup' as const, index: load.pickup_stop_index! }]),
+        { load, type: 'delivery' as const, index: load.delivery_stop_index! },
+      ])
+      .sort((a, b) => a.index - b.index);
+  }
+
+  return [
+    ...loads.filter((load) => !isPickedUp(load)).map((load) => ({ load, type: 'pickup' as const })),
+    ...loads.map((load) => ({ load, type: 'delivery' as const })),
+  ];
+}
+
+function utilization(cuft: number, capacityCuft: number): number | null {
+  return capacityCuft > 0 ? Math.round((cuft / capacityCuft) * 100) : null;
+}
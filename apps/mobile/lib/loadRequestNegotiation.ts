@@ -0,0 +1,91 @@
+/**
+ * Load Request Negotiation
+ *
+ * Offer thread types and helpers, mirroring the web app. Each request keeps a
+ * history of offers; only the latest is open, and it waits on the other side
+ * to accept or counter it. Offers can carry a pickup date, a cubic feet cap
+ * and an expiry.
+ */
+
+export type OfferParty = 'carrier' | 'poster';
+export type OfferStatus = 'open' | 'accepted' | 'countered' | 'declined' | 'expired' | 'withdrawn';
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  open: 'Awaiting reply',
+  accepted: 'Agreed',
+  countered: 'Countered',
+  declined: 'Declined',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+};
+
+// Expiry choices offered when countering, in hours (0 = no expiry)
+export const OFFER_EXPIRY_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 0, label: 'No expiry' },
+  { hours: 4, label: '4 hours' },
+  { hours: 24, label: '24 hours' },
+  { hours: 48, label: '2 days' },
+  { hours: 72, label: '3 days' },
+];
+
+export interface LoadRequestOffer {
+  id: string;
+  request_id: string;
+  offered_by: OfferParty;
+  rate: number;
+  rate_type: string;
+  load_date: string | null;
+  max_cuft: number | null;
+  message: string | null;
+  expires_at: string | null;
+  status: OfferStatus;
+  responded_at: string | null;
+  created_at: string;
+}
+
+export function isOfferExpired(offer: Pick<LoadRequestOffer, 'status' | 'expires_at'>, now = new Date()): boolean {
+  return offer.status === 'open' && !!offer.expires_at && new Date(offer.expires_at) <= now;
+}
+
+/**
+ * Status as the other side sees it: open offers past their expiry are expired
+ */
+export function effectiveOfferStatus(offer: LoadRequestOffer, now = new Date()): OfferStatus {
+  return isOfferExpired(offer, now) ? 'expired' : offer.status;
+}
+
+const RATE_UNIT_SUFFIX: Record<string, string> = {
+  per_cuft: '/CF',
+  per_lb: '/LB',
+  per_cwt: '/CWT',
+};
+
+/**
+ * Unit suffix for a rate type, e.g. "/CF"; empty for flat rates
+ */
+export function offerRateUnit(rateType: string | null | undefined): string {
+  return RATE_UNIT_SUFFIX[rateType || 'per_cuft'] ?? '';
+}
+
+/**
+ * "$3.25/CF" for per-cuft offers, "$2400.00" for flat ones
+ */
+export function formatOfferRate(rate: number, rateType: string | null | undefined): string {
+  return `$${rate.toFixed(2)}${offerRateUnit(rateType)}`;
+}
+
+/**
+ * Rate plus any attached terms, e.g. "$3.25/CF · load Jan 5 · max 1,200 CF"
+ */
+export function describeOfferTerms(
+  offer: Pick<LoadRequestOffer, 'rate' | 'rate_type' | 'load_date' | 'max_cuft'>
+): string {
+  const parts = [formatOfferRate(offer.rate, offer.rate_type)];
+  if (offer.load_date) {
+    parts.push(
+      `load ${new Date(`${offer.load_date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+    );
+  }
+  if (offer.max_cuft !== null) parts.push(`max ${offer.max_cuft.toLocaleString()} CF`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,133 @@
+/**
+ * Saved Load-Board Searches
+ *
+ * Types and labels for saved searches, mirroring the web load board. Matching
+ * and alerts run on the web API, which this module calls after posting a load.
+ */
+
+import { supabase } from './supabase';
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://moveboss.com';
+
+export type SavedSearchLoadKind = 'any' | 'pickup' | 'rfd' | 'live';
+export type SavedSearchTruckRequirement = 'any' | 'semi_only' | 'box_truck_only';
+
+export const SAVED_SEARCH_LOAD_KIND_LABELS: Record<SavedSearchLoadKind, string> = {
+  any: 'Pickups and loads',
+  pickup: 'Pickups',
+  rfd: 'RFD loads',
+  live: 'Live loads',
+};
+
+export const SAVED_SEARCH_TRUCK_LABELS: Record<SavedSearchTruckRequirement, string> = {
+  any: 'Any truck',
+  semi_only: 'Semi',
+  box_truck_only: 'Box truck',
+};
+
+export interface SavedLoadSearch {
+  id: string;
+  name: string;
+  origin_label: string | null;
+  origin_radius_miles: number | null;
+  origin_states: string[];
+  destination_label: string | null;
+  destination_radius_miles: number | null;
+  destination_states: string[];
+  min_cuft: number | null;
+  max_cuft: number | null;
+  min_rate_per_cuft: number | null;
+  load_kind: SavedSearchLoadKind;
+  available_from: string | null;
+  available_to: string | null;
+  truck_requirement: SavedSearchTruckRequirement;
+  instant_alerts: boolean;
+  email_digest: boolean;
+  created_at: string;
+}
+
+/**
+ * One-line summary of a search's criteria
+ */
+export function describeSavedSearch(search: SavedLoadSearch): string {
+  const parts = [
+    `${describePlace(search.origin_label, search.origin_radius_miles, search.origin_states)} → ${describePlace(
+      search.destination_label,
+      search.destination_radius_miles,
+      search.destination_states
+    )}`,
+    SAVED_SEARCH_LOAD_KIND_LABELS[search.load_kind],
+  ];
+
+  if (search.min_cuft !== null || search.max_cuft !== null) {
+    parts.push(
+      search.max_cuft === null
+        ? `${search.min_cuft}+ cuft`
+        : `${search.min_cuft ?? 0}–${search.max_cuft} cuft`
+    );
+  }
+  if (search.min_rate_per_cuft !== null) parts.push(`$${search.min_rate_per_cuft.toFixed(2)}+/cuft`);
+  if (search.available_from || search.available_to) {
+    parts.push(`${search.available_from || 'now'} to ${search.available_to || 'any date'}`);
+  }
+  if (search.truck_requirement !== 'any') parts.push(SAVED_SEARCH_TRUCK_LABELS[search.truck_requirement]);
+
+  return parts.join(' · ');
+}
+
+function describePlace(label: string | null, radius: number | null, states: string[]): string {
+  if (radius !== null && label) return `${radius} mi of ${label}`;
+  if (states.length > 0) return states.join(', ');
+  return 'Anywhere';
+}
+
+/**
+ * Ask the web API to alert users whose saved searches match a newly posted
+ * load. Fire-and-forget: posting never fails because of alerts.
+ */
+export async function notifySavedSearchesOfPostedLoad(loadId: string): Promise<void> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      return;
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/saved-searches/match`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ load_id: loadId }),
+    });
+
+    if (!response.ok) {
+      console.warn('[SavedSearches] Match failed:', loadId, response.status);
+    }
+  } catch (error) {
+    console.warn('[SavedSearches] Match error:', loadId, error);
+  }
+}
+
+/**
+ * Center of a radius search from a ZIP, via the web app's ZIP dataset
+ */
+export async function lookupSearchCenter(
+  zip: string
+): Promise<{ label: string; lat: number; lng: number } | null> {
+  if (!zip || zip.length < 5) return null;
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/zip-lookup?postal_code=${encodeURIComponent(zip)}&country=US`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (typeof data.lat !== 'number' || typeof data.lng !== 'number') return null;
+    return {
+      label: data.city && data.state ? `${data.city}, ${data.state}` : zip,
+      lat: data.lat,
+      lng: data.lng,
+    };
+  } catch {
+    return null;
+  }
+}
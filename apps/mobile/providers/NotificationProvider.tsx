@@ -2,6 +2,7 @@ import { createContext, useContext, useEffect, ReactNode } from 'react';
 import { useRouter, useSegments } from 'expo-router';
 import * as Notifications from 'expo-notifications';
 import { usePushNotifications, NotificationData } from '../hooks/usePushNotifications';
+import { confirmGeofenceArrival } from '../services/locationTracking';
 
 interface NotificationContextType {
   expoPushToken: string | null;
@@ -30,6 +31,14 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
       const rawData = response.notification.request.content.data;
       const data = rawData as unknown as NotificationData;
 
+      // Saved search alerts go to owners/dispatchers
+      if (segments[0] === '(owner)') {
+        if (data.type === 'saved_search_match' && data.loadId) {
+          router.push(`/(owner)/load-board/${data.loadId}`);
+        }
+        return;
+      }
+
       // Only navigate if user is in the app (authenticated)
       const inAppGroup = segments[0] === '(app)';
       if (!inAppGroup) return;
@@ -85,6 +94,16 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
           }
           break;
 
+        case 'geofence_arrival':
+          // Tapping the prompt or its "Mark arrived" action confirms the arrival
+          if (data.loadId && data.stopType) {
+            confirmGeofenceArrival(data.loadId, data.stopType);
+          }
+          if (data.tripId && data.loadId) {
+            router.push(`/(app)/trips/${data.tripId}/loads/${data.loadId}`);
+          }
+          break;
+
         default:
           // Just go to home for general notifications
           break;
@@ -5,14 +5,22 @@
 
 import * as Location from 'expo-location';
 import * as TaskManager from 'expo-task-manager';
+import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
 import { createLogger } from '../lib/logger';
 
 const locationLogger = createLogger('LocationTracking');
 
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://moveboss.com';
+
 const LOCATION_TASK_NAME = 'MOVEBOSS_BACKGROUND_LOCATION';
 const LOCATION_CACHE_KEY = 'MOVEBOSS_PENDING_LOCATIONS';
+const GEOFENCE_TASK_NAME = 'MOVEBOSS_LOAD_GEOFENCES';
+const GEOFENCE_CACHE_KEY = 'MOVEBOSS_LOAD_GEOFENCES';
+
+// Load stops change rarely; re-fetch them at most this often per trip
+const GEOFENCE_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
 
 // Storage keys for tracking state
 const STORAGE_KEYS = {
@@ -31,6 +39,9 @@ interface CachedLocation {
   speed_kph: number | null;
   heading_deg: number | null;
   is_available_for_loads: boolean;
+  trip_id?: string | null;
+  city?: string | null;
+  state?: string | null;
 }
 
 // Extended interface for internal tracking (includes trip_id for trip updates)
@@ -38,6 +49,38 @@ interface LocationUpdateContext {
   tripId: string | null;
 }
 
+export type GeofenceStopType = 'pickup' | 'delivery' | 'storage';
+
+// Geofence around a load stop, from /api/driver/geofences
+interface LoadGeofence {
+  identifier: string;
+  load_id: string;
+  load_number: string | null;
+  stop_type: GeofenceStopType;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+}
+
+interface CachedGeofences {
+  tripId: string;
+  refreshedAt: number;
+  geofences: LoadGeofence[];
+}
+
+interface GeofenceEventResult {
+  success: boolean;
+  prompt?: boolean;
+  recorded?: boolean;
+  load_number?: string | null;
+}
+
+const STOP_LABELS: Record<GeofenceStopType, string> = {
+  pickup: 'pickup',
+  delivery: 'delivery',
+  storage: 'storage',
+};
+
 /**
  * Define the background task for location updates
  * This runs even when the app is in the background
@@ -57,6 +100,170 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
   }
 });
 
+/**
+ * Geofence task: the OS reports entering or leaving a load stop, even when
+ * the app is in the background
+ */
+TaskManager.defineTask(GEOFENCE_TASK_NAME, async ({ data, error }) => {
+  if (error) {
+    locationLogger.error('Geofence error', error);
+    return;
+  }
+
+  const { eventType, region } = data as {
+    eventType: Location.GeofencingEventType;
+    region: Location.LocationRegion;
+  };
+  const [loadId, stopType] = (region.identifier || '').split(':') as [string, GeofenceStopType];
+  if (!loadId || !stopType) return;
+
+  const entered = eventType === Location.GeofencingEventType.Enter;
+  const result = await reportGeofenceEvent({
+    load_id: loadId,
+    stop_type: stopType,
+    event: entered ? 'enter' : 'exit',
+    at: new Date().toISOString(),
+    latitude: region.latitude,
+    longitude: region.longitude,
+  });
+
+  if (entered && result?.prompt) {
+    const tripId = await AsyncStorage.getItem(STORAGE_KEYS.TRIP_ID);
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `Arrived at ${STOP_LABELS[stopType]}?`,
+        body: `You're at the ${STOP_LABELS[stopType]} for ${result.load_number || 'your load'}. Tap to record your arrival.`,
+        data: { type: 'geofence_arrival', loadId, tripId, stopType },
+        sound: true,
+        categoryIdentifier: 'geofence_arrival',
+      },
+      trigger: null,
+    });
+  }
+});
+
+/**
+ * Send a geofence event to the web API, which records the visit and, per the
+ * owner's setting, the arrival on the load
+ */
+async function reportGeofenceEvent(payload: {
+  load_id: string;
+  stop_type: GeofenceStopType;
+  event: 'enter' | 'exit' | 'confirm';
+  at: string;
+  latitude?: number;
+  longitude?: number;
+}): Promise<GeofenceEventResult | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return null;
+
+    const response = await fetch(`${API_BASE_URL}/api/driver/geofences`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      locationLogger.warn('Geofence event rejected', { status: response.status, event: payload.event });
+      return null;
+    }
+
+    return (await response.json()) as GeofenceEventResult;
+  } catch (e) {
+    locationLogger.error('Error reporting geofence event', e);
+    return null;
+  }
+}
+
+/**
+ * Confirm a prompted arrival (from the geofence notification)
+ */
+export async function confirmGeofenceArrival(loadId: string, stopType: GeofenceStopType): Promise<boolean> {
+  const result = await reportGeofenceEvent({
+    load_id: loadId,
+    stop_type: stopType,
+    event: 'confirm',
+    at: new Date().toISOString(),
+  });
+  return !!result?.success;
+}
+
+/**
+ * Register geofences around the stops of the driver's active loads. Cached
+ * per trip and re-fetched every GEOFENCE_REFRESH_INTERVAL_MS unless forced.
+ */
+export async function refreshGeofences(tripId: string | null, force: boolean = false): Promise<void> {
+  try {
+    if (!tripId) {
+      await stopGeofencing();
+      return;
+    }
+
+    const cachedRaw = await AsyncStorage.getItem(GEOFENCE_CACHE_KEY);
+    const cached: CachedGeofences | null = cachedRaw ? JSON.parse(cachedRaw) : null;
+    if (
+      !force &&
+      cached?.tripId === tripId &&
+      Date.now() - cached.refreshedAt < GEOFENCE_REFRESH_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+
+    const response = await fetch(`${API_BASE_URL}/api/driver/geofences`, {
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    if (!response.ok) {
+      locationLogger.warn('Failed to fetch geofences', { status: response.status });
+      return;
+    }
+
+    const { geofences } = (await response.json()) as { geofences: LoadGeofence[] };
+    await AsyncStorage.setItem(
+      GEOFENCE_CACHE_KEY,
+      JSON.stringify({ tripId, refreshedAt: Date.now(), geofences } satisfies CachedGeofences)
+    );
+
+    if (geofences.length === 0) {
+      await stopGeofencing();
+      return;
+    }
+
+    // Replaces any regions registered before
+    await Location.startGeofencingAsync(
+      GEOFENCE_TASK_NAME,
+      geofences.map((fence) => ({
+        identifier: fence.identifier,
+        latitude: fence.latitude,
+        longitude: fence.longitude,
+        radius: fence.radius_meters,
+        notifyOnEnter: true,
+        notifyOnExit: true,
+      }))
+    );
+  } catch (e) {
+    locationLogger.error('Error refreshing geofences', e);
+  }
+}
+
+async function stopGeofencing(): Promise<void> {
+  try {
+    const isRunning = await Location.hasStartedGeofencingAsync(GEOFENCE_TASK_NAME);
+    if (isRunning) {
+      await Location.stopGeofencingAsync(GEOFENCE_TASK_NAME);
+    }
+    await AsyncStorage.removeItem(GEOFENCE_CACHE_KEY);
+  } catch {
+    // Silently fail
+  }
+}
+
 /**
  * Process a location update - either send to server or cache if offline
  */
@@ -74,6 +281,10 @@ async function processLocationUpdate(location: Location.LocationObject) {
     // Convert speed from m/s to km/h (multiply by 3.6)
     const speedKph = location.coords.speed ? location.coords.speed * 3.6 : null;
 
+    // On a trip, tag the ping with the trip and state so IFTA miles can be
+    // attributed to jurisdictions
+    const address = tripId ? await reverseGeocode(location) : null;
+
     // Build location data matching the driver_locations table schema
     const locationData: CachedLocation = {
       driver_id: driverId,
@@ -83,6 +294,9 @@ async function processLocationUpdate(location: Location.LocationObject) {
       speed_kph: speedKph,
       heading_deg: location.coords.heading,
       is_available_for_loads: true, // Default to available
+      trip_id: tripId,
+      city: address?.city || null,
+      state: address?.region || null,
     };
 
     // Try to send to server
@@ -99,7 +313,7 @@ async function processLocationUpdate(location: Location.LocationObject) {
     } else {
       // Also update the trip's current location if we have a trip
       if (tripId) {
-        await updateTripLocation(tripId, location);
+        await updateTripLocation(tripId, location, address);
       }
     }
   } catch (e) {
@@ -110,14 +324,12 @@ async function processLocationUpdate(location: Location.LocationObject) {
 /**
  * Update the trip record with current location
  */
-async function updateTripLocation(tripId: string, location: Location.LocationObject) {
+async function updateTripLocation(
+  tripId: string,
+  location: Location.LocationObject,
+  address: Location.LocationGeocodedAddress | null
+) {
   try {
-    // Reverse geocode to get city/state
-    const [address] = await Location.reverseGeocodeAsync({
-      latitude: location.coords.latitude,
-      longitude: location.coords.longitude,
-    });
-
     await supabase
       .from('trips')
       .update({
@@ -133,6 +345,23 @@ async function updateTripLocation(tripId: string, location: Location.LocationObj
   }
 }
 
+/**
+ * Reverse geocode a location to get city/state, or null when unavailable
+ */
+async function reverseGeocode(
+  location: Location.LocationObject
+): Promise<Location.LocationGeocodedAddress | null> {
+  try {
+    const [address] = await Location.reverseGeocodeAsync({
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+    });
+    return address || null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Cache location for offline sync
  */
@@ -234,6 +463,7 @@ export async function stopLocationTracking(): Promise<void> {
   } catch {
     // Silently fail
   }
+  await stopGeofencing();
 }
 
 /**
@@ -32,6 +32,59 @@ export interface DamageItem {
   documented_at: string;
 }
 
+// Household goods descriptive inventory
+export type InventoryConditionCode =
+  | 'BE' | 'BR' | 'BU' | 'CH' | 'CU' | 'D' | 'F' | 'G' | 'L' | 'MAR'
+  | 'MI' | 'MO' | 'P' | 'R' | 'RU' | 'SC' | 'SH' | 'SO' | 'T' | 'W' | 'Z';
+
+export type InventoryDeliveryStatus = 'pending' | 'delivered' | 'exception';
+
+export type InventoryDeliveryException = 'missing' | 'damaged' | 'refused' | 'other';
+
+export interface InventoryItem {
+  id: string;
+  load_id: string;
+  tag_number: string;
+  room: string | null;
+  description: string;
+  condition_codes: InventoryConditionCode[];
+  condition_notes: string | null;
+  carton_count: number;
+  is_high_value: boolean;
+  declared_value: number | null;
+  /** Id of the linked entry in loads.pre_existing_damages */
+  damage_item_id: string | null;
+  delivery_status: InventoryDeliveryStatus;
+  delivery_exception: InventoryDeliveryException | null;
+  delivery_notes: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// Electronic signatures on load paperwork
+export type SignedDocumentType = 'bol' | 'delivery_receipt';
+
+export interface CapturedSignature {
+  /** Pen strokes as [x, y] points in the pad's coordinate space */
+  strokes: [number, number][][];
+  width: number;
+  height: number;
+}
+
+// Structured OCR results from /api/ocr/* (keys are load field names)
+export interface ExtractedDocumentField {
+  value: string | number;
+  /** 0-1, how sure the reader is that the value was read correctly */
+  confidence: number;
+}
+
+export interface DocumentExtraction {
+  document_type: 'contract' | 'rate_confirmation' | 'loading_report';
+  fields: Record<string, ExtractedDocumentField | undefined>;
+  /** Field names the server flagged for a human look */
+  low_confidence: string[];
+}
+
 export interface Trip {
   id: string;
   owner_id: string;
@@ -212,6 +265,8 @@ export interface TripExpense {
   category: ExpenseCategory;
   description: string | null;
   amount: number;
+  gallons: number | null;
+  fuel_state: string | null;
   incurred_at: string | null;
   expense_type: string | null;
   paid_by: ExpensePaidBy;
@@ -297,6 +352,48 @@ export interface TripSettlement {
   // Payment info
   paidAt: string | null;
   paidMethod: string | null;
+  // Pay-period statement the trip was settled on (finalized or paid only)
+  statementId: string | null;
+  statementNumber: string | null;
+}
+
+// Driver pay-period statement
+export type DriverStatementStatus = 'finalized' | 'paid';
+
+export type DriverStatementLineCategory =
+  | 'trip_pay'
+  | 'reimbursement'
+  | 'collection'
+  | 'advance'
+  | 'deduction'
+  | 'escrow_holdback'
+  | 'escrow_release';
+
+export interface DriverStatementLine {
+  id: string;
+  tripId: string | null;
+  category: DriverStatementLineCategory;
+  description: string;
+  amount: number; // Signed: positive adds to pay, negative is withheld
+}
+
+export interface DriverPayStatement {
+  id: string;
+  statementNumber: string;
+  status: DriverStatementStatus;
+  periodStart: string;
+  periodEnd: string;
+  grossPay: number;
+  reimbursements: number;
+  collections: number;
+  advances: number;
+  deductions: number;
+  escrowHoldback: number;
+  escrowRelease: number;
+  netPay: number;
+  paidAt: string | null;
+  paidMethod: string | null;
+  lines: DriverStatementLine[];
 }
 
 // Earnings summary
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+/**
+ * Builds src/lib/geo/us-zip-data.ts from the GeoNames US postal code dump.
+ *
+ * Download https://download.geonames.org/export/zip/US.zip, unzip it, then run:
+ *
+ *   npm run geo:zips -- path/to/US.txt
+ *
+ * The GeoNames postal code data is licensed CC BY 4.0.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const source = process.argv[2];
+if (!source) {
+  console.error('Usage: npm run geo:zips -- path/to/US.txt');
+  process.exit(1);
+}
+
+const output = resolve(dirname(fileURLToPath(import.meta.url)), '../src/lib/geo/us-zip-data.ts');
+
+// GeoNames columns: country, postal code, place name, state name, state code,
+// county name, county code, community name, community code, lat, lng, accuracy
+const rows = new Map();
+for (const line of readFileSync(source, 'utf8').split('\n')) {
+  const columns = line.split('\t');
+  if (columns.length < 11) continue;
+
+  const zip = columns[1].trim();
+  const city = columns[2].trim();
+  const state = columns[4].trim().toUpperCase();
+  const lat = Number(columns[9]);
+  const lng = Number(columns[10]);
+
+  if (!/^\d{5}$/.test(zip) || !city || !/^[A-Z]{2}$/.test(state)) continue;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+  // First place listed for a ZIP is its primary city
+  if (rows.has(zip)) continue;
+
+  rows.set(zip, [zip, city.replace(/\|/g, ' '), state, lat.toFixed(4), lng.toFixed(4)].join('|'));
+}
+
+const sorted = Array.from(rows.keys()).sort().map((zip) => rows.get(zip));
+
+writeFileSync(
+  output,
+  `/**
+ * US ZIP code centroids, one "zip|city|state|lat|lng" row per line.
+ *
+ * Generated by scripts/build-zip-dataset.mjs from GeoNames postal code data
+ * (https://www.geonames.org, CC BY 4.0). Do not edit by hand.
+ */
+export const US_ZIP_DATA = \`${sorted.join('\n')}\`;
+`
+);
+
+console.log(`Wrote ${sorted.length} ZIP codes to ${output}`);
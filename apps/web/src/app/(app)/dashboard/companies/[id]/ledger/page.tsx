@@ -7,7 +7,9 @@ import {
   getLoadsFromCompany,
   getLoadsToCompany,
   getCompanyReceivables,
+  getCompanyPayments,
 } from '@/data/company-ledger';
+import { PAYMENT_METHOD_LABELS } from '@/data/payments';
 import {
   Card,
   CardContent,
@@ -36,6 +38,7 @@ import {
   Package,
   DollarSign,
   FileText,
+  Banknote,
 } from 'lucide-react';
 
 interface CompanyLedgerPageProps {
@@ -107,8 +110,8 @@ function getReceivableStatusBadge(status: string) {
       return <Badge className="bg-emerald-500/10 text-emerald-600 border-0">Paid</Badge>;
     case 'partial':
       return <Badge className="bg-blue-500/10 text-blue-600 border-0">Partial</Badge>;
-    case 'cancelled':
-      return <Badge className="bg-red-500/10 text-red-600 border-0">Cancelled</Badge>;
+    case 'void':
+      return <Badge className="bg-red-500/10 text-red-600 border-0">Void</Badge>;
     default:
       return <Badge variant="outline">{status}</Badge>;
   }
@@ -148,11 +151,12 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
   }
 
   // Fetch all ledger data in parallel
-  const [summary, loadsFrom, loadsTo, receivables] = await Promise.all([
+  const [summary, loadsFrom, loadsTo, receivables, payments] = await Promise.all([
     getCompanyLedgerSummary(id, user.id),
     getLoadsFromCompany(id, user.id, { limit: 50 }),
     getLoadsToCompany(id, user.id, { limit: 50 }),
     getCompanyReceivables(id, user.id, { limit: 50 }),
+    getCompanyPayments(id, user.id, { limit: 50 }),
   ]);
 
   const netBalanceClass =
@@ -178,6 +182,9 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
           </p>
         </div>
         <div className="flex gap-2">
+          <Button asChild>
+            <Link href={`/dashboard/finance/payments/new?company=${id}`}>Record Payment</Link>
+          </Button>
           <Button variant="outline" asChild>
             <Link href={`/dashboard/companies/${id}`}>Company Details</Link>
           </Button>
@@ -205,6 +212,11 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
                 {formatCurrency(summary.loadsFromThem.totalOwed)} owed to you
               </p>
             )}
+            {summary.loadsFromThem.unappliedCredit > 0 && (
+              <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                {formatCurrency(summary.loadsFromThem.unappliedCredit)} unapplied credit
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -283,6 +295,10 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
             <DollarSign className="h-4 w-4" />
             Receivables ({receivables.length})
           </TabsTrigger>
+          <TabsTrigger value="payments" className="flex items-center gap-2">
+            <Banknote className="h-4 w-4" />
+            Payments ({payments.length})
+          </TabsTrigger>
         </TabsList>
 
         {/* Loads FROM this company (they gave us) */}
@@ -436,8 +452,10 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Trip #</TableHead>
+                      <TableHead>Reference</TableHead>
                       <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
                       <TableHead>Due Date</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Created</TableHead>
@@ -447,7 +465,14 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
                     {receivables.map((receivable) => (
                       <TableRow key={receivable.id}>
                         <TableCell>
-                          {receivable.trip_id ? (
+                          {receivable.invoice_id ? (
+                            <Link
+                              href={`/dashboard/finance/invoices/${receivable.invoice_id}`}
+                              className="font-mono text-sm hover:underline"
+                            >
+                              {receivable.invoice_number || receivable.invoice_id.slice(0, 8)}
+                            </Link>
+                          ) : receivable.trip_id ? (
                             <Link
                               href={`/dashboard/trips/${receivable.trip_id}`}
                               className="font-mono text-sm hover:underline"
@@ -461,6 +486,12 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
                         <TableCell className="text-right font-medium">
                           {formatCurrency(receivable.amount)}
                         </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {receivable.amount_paid > 0 ? formatCurrency(receivable.amount_paid) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {receivable.balance > 0 ? formatCurrency(receivable.balance) : '-'}
+                        </TableCell>
                         <TableCell className="text-sm">
                           {formatDate(receivable.due_date)}
                         </TableCell>
@@ -478,6 +509,79 @@ export default async function CompanyLedgerPage({ params }: CompanyLedgerPagePro
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Payments received */}
+        <TabsContent value="payments" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Banknote className="h-5 w-5 text-emerald-600" />
+                Payments from {company.name}
+              </CardTitle>
+              <CardDescription>
+                Payments received and how they were applied
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {payments.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  No payments recorded from this company yet.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Applied To</TableHead>
+                      <TableHead className="text-right">Unapplied</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payments.map((payment) => (
+                      <TableRow key={payment.id} className={payment.status === 'void' ? 'opacity-50' : ''}>
+                        <TableCell className="text-sm">
+                          <Link
+                            href={`/dashboard/finance/payments/${payment.id}`}
+                            className="hover:underline"
+                          >
+                            {formatDate(payment.payment_date)}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {payment.payment_method ? PAYMENT_METHOD_LABELS[payment.payment_method] : '-'}
+                          {payment.status === 'void' && (
+                            <Badge variant="outline" className="ml-2">Void</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {payment.reference_number || '-'}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(payment.amount)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {payment.applied_to.length > 0 ? payment.applied_to.join(', ') : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {payment.unapplied_amount > 0 ? (
+                            <span className="text-blue-600 dark:text-blue-400 font-medium">
+                              {formatCurrency(payment.unapplied_amount)}
+                            </span>
+                          ) : (
+                            '-'
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
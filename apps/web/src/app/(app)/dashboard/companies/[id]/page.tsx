@@ -12,7 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { CompanyForm } from '@/components/companies/CompanyForm';
 import { cleanFormValues, extractFormValues } from '@/lib/form-data';
-import { Receipt } from 'lucide-react';
+import { KeyRound, Receipt } from 'lucide-react';
 
 function formatCompanyType(type: Company['company_type']): string {
   switch (type) {
@@ -183,6 +183,12 @@ export default async function CompanyDetailPage({ params }: CompanyDetailPagePro
               View Ledger
             </Link>
           </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/companies/${id}/portal`} className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Portal Access
+            </Link>
+          </Button>
           <Button variant="outline" asChild>
             <Link href="/dashboard/companies">Back to Companies</Link>
           </Button>
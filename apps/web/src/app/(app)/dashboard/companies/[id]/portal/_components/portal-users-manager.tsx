@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Loader2, Mail, UserPlus, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PORTAL_ROLE_DESCRIPTIONS,
+  PORTAL_ROLE_LABELS,
+  type CompanyPortalUser,
+  type PortalRole,
+} from '@/data/company-portal-auth-shared';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface PortalUsersManagerProps {
+  users: CompanyPortalUser[];
+  inviteAction: (values: { email: string; full_name: string; role: PortalRole }) => Promise<ActionResult>;
+  updateRoleAction: (portalUserId: string, role: PortalRole) => Promise<ActionResult>;
+  resendInviteAction: (portalUserId: string) => Promise<ActionResult>;
+  deactivateAction: (portalUserId: string) => Promise<ActionResult>;
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return 'Never';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function RoleSelect({ value, onChange, disabled }: { value: PortalRole; onChange: (role: PortalRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as PortalRole)} disabled={disabled}>
+      <SelectTrigger className="w-[130px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(PORTAL_ROLE_LABELS).map(([role, label]) => (
+          <SelectItem key={role} value={role}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function PortalUsersManager({
+  users,
+  inviteAction,
+  updateRoleAction,
+  resendInviteAction,
+  deactivateAction,
+}: PortalUsersManagerProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<{ email: string; full_name: string; role: PortalRole }>({
+    email: '',
+    full_name: '',
+    role: 'viewer',
+  });
+
+  const run = (action: () => Promise<ActionResult>, successTitle: string) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        toast({ title: successTitle });
+      } else {
+        toast({ title: 'Error', description: result.error || 'Something went wrong', variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleInvite = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await inviteAction(form);
+      if (result.success) {
+        toast({ title: 'Invitation sent', description: `${form.email} will get an email to set a password.` });
+        setForm({ email: '', full_name: '', role: 'viewer' });
+        setOpen(false);
+      } else {
+        setError(result.error || 'Failed to invite user');
+      }
+    });
+  };
+
+  const activeUsers = users.filter((u) => u.is_active);
+  const removedUsers = users.filter((u) => !u.is_active);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setOpen(true)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      {activeUsers.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">
+          No one has portal access yet. Invite the people who post and manage loads for this company.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Last Sign-In</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {activeUsers.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <p className="font-medium">{user.full_name || user.email}</p>
+                  {user.full_name && <p className="text-xs text-muted-foreground">{user.email}</p>}
+                </TableCell>
+                <TableCell>
+                  <RoleSelect
+                    value={user.role}
+                    disabled={isPending}
+                    onChange={(role) =>
+                      run(() => updateRoleAction(user.id, role), `${user.email} is now ${PORTAL_ROLE_LABELS[role].toLowerCase()}`)
+                    }
+                  />
+                </TableCell>
+                <TableCell>
+                  {user.accepted_at ? (
+                    <Badge className="bg-emerald-500/10 text-emerald-600 border-0">Active</Badge>
+                  ) : (
+                    <Badge className="bg-yellow-500/10 text-yellow-600 border-0">Invited</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{formatDateTime(user.last_login_at)}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  {!user.accepted_at && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isPending}
+                      onClick={() => run(() => resendInviteAction(user.id), 'Invitation resent')}
+                    >
+                      <Mail className="h-3 w-3 mr-1" />
+                      Resend
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    disabled={isPending}
+                    onClick={() => {
+                      if (confirm(`Remove portal access for ${user.email}? They'll be signed out everywhere.`)) {
+                        run(() => deactivateAction(user.id), 'Access removed');
+                      }
+                    }}
+                  >
+                    <UserX className="h-3 w-3 mr-1" />
+                    Remove
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {removedUsers.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Removed: {removedUsers.map((u) => u.email).join(', ')}
+        </p>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Portal User</DialogTitle>
+            <DialogDescription>
+              They&apos;ll get an email to choose a password. Invitations expire after 7 days.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="portal_email">Email</Label>
+              <Input
+                id="portal_email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portal_full_name">Name (optional)</Label>
+              <Input
+                id="portal_full_name"
+                value={form.full_name}
+                onChange={(e) => setForm({ ...form, full_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <RoleSelect value={form.role} onChange={(role) => setForm({ ...form, role })} />
+              <p className="text-xs text-muted-foreground">{PORTAL_ROLE_DESCRIPTIONS[form.role]}</p>
+            </div>
+            {error && (
+              <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={isPending || !form.email}>
+              {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Send Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
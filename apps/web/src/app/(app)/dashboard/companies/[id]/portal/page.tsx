@@ -0,0 +1,205 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { revalidatePath } from 'next/cache';
+import { getCurrentUser } from '@/lib/supabase-server';
+import { getCompanyById } from '@/data/companies';
+import {
+  deactivatePortalUser,
+  getPortalLoginHistory,
+  invitePortalUser,
+  listCompanyPortalUsers,
+  resendPortalInvite,
+  updatePortalUserRole,
+} from '@/data/company-portal-auth';
+import {
+  PORTAL_LOGIN_EVENT_LABELS,
+  PORTAL_ROLE_DESCRIPTIONS,
+  PORTAL_ROLE_LABELS,
+  type PortalRole,
+} from '@/data/company-portal-auth-shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExternalLink, History, Users } from 'lucide-react';
+import { PortalUsersManager } from './_components/portal-users-manager';
+
+interface CompanyPortalPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function getEventBadge(event: keyof typeof PORTAL_LOGIN_EVENT_LABELS) {
+  const label = PORTAL_LOGIN_EVENT_LABELS[event];
+  switch (event) {
+    case 'login':
+    case 'invite_accepted':
+      return <Badge className="bg-emerald-500/10 text-emerald-600 border-0">{label}</Badge>;
+    case 'login_failed':
+      return <Badge className="bg-red-500/10 text-red-600 border-0">{label}</Badge>;
+    case 'sessions_revoked':
+      return <Badge className="bg-yellow-500/10 text-yellow-600 border-0">{label}</Badge>;
+    default:
+      return <Badge variant="secondary">{label}</Badge>;
+  }
+}
+
+export default async function CompanyPortalPage({ params }: CompanyPortalPageProps) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { id } = await params;
+  const company = await getCompanyById(id, user.id);
+
+  if (!company) {
+    redirect('/dashboard/companies');
+  }
+
+  const [portalUsers, loginHistory] = await Promise.all([
+    listCompanyPortalUsers(id),
+    getPortalLoginHistory(id, 50),
+  ]);
+
+  const portalUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://moveboss.com'}/company-login`;
+
+  async function inviteAction(values: { email: string; full_name: string; role: PortalRole }) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await invitePortalUser(user.id, id, {
+      email: values.email,
+      full_name: values.full_name || undefined,
+      role: values.role,
+    });
+    revalidatePath(`/dashboard/companies/${id}/portal`);
+    return result;
+  }
+
+  async function updateRoleAction(portalUserId: string, role: PortalRole) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await updatePortalUserRole(user.id, portalUserId, role);
+    if (result.success) {
+      revalidatePath(`/dashboard/companies/${id}/portal`);
+    }
+    return result;
+  }
+
+  async function resendInviteAction(portalUserId: string) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await resendPortalInvite(user.id, portalUserId);
+    revalidatePath(`/dashboard/companies/${id}/portal`);
+    return result;
+  }
+
+  async function deactivateAction(portalUserId: string) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await deactivatePortalUser(user.id, portalUserId);
+    if (result.success) {
+      revalidatePath(`/dashboard/companies/${id}/portal`);
+    }
+    return result;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-foreground">Portal Access</h1>
+          <p className="text-muted-foreground">
+            {company.name} can post loads and work with carriers at{' '}
+            <a href={portalUrl} target="_blank" rel="noopener noreferrer" className="underline inline-flex items-center gap-1">
+              {portalUrl}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href={`/dashboard/companies/${id}`}>Back to Company</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Portal Users
+          </CardTitle>
+          <CardDescription>
+            {(Object.keys(PORTAL_ROLE_LABELS) as PortalRole[])
+              .map((role) => `${PORTAL_ROLE_LABELS[role]}: ${PORTAL_ROLE_DESCRIPTIONS[role].toLowerCase()}`)
+              .join('. ')}
+            .
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PortalUsersManager
+            users={portalUsers}
+            inviteAction={inviteAction}
+            updateRoleAction={updateRoleAction}
+            resendInviteAction={resendInviteAction}
+            deactivateAction={deactivateAction}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Sign-In History
+          </CardTitle>
+          <CardDescription>The last 50 sign-ins, failures and sign-outs for this portal</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loginHistory.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">No sign-in activity yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loginHistory.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {new Date(event.created_at).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </TableCell>
+                    <TableCell className="text-sm">{event.email}</TableCell>
+                    <TableCell>{getEventBadge(event.event)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[event.method?.replace('_', ' '), event.detail].filter(Boolean).join(' · ') || '-'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{event.ip_address || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CLAIM_STATUS_TRANSITIONS, type ClaimStatus } from '@/data/claims-shared';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface ClaimStatusActionsProps {
+  status: ClaimStatus;
+  statusAction: (status: ClaimStatus, note: string | null) => Promise<ActionResult>;
+}
+
+const actionCopy: Partial<Record<ClaimStatus, { button: string; title: string; description: string }>> = {
+  acknowledged: {
+    button: 'Acknowledge',
+    title: 'Acknowledge claim?',
+    description: 'Records the written acknowledgment to the claimant. The partner company sees this on the load conversation.',
+  },
+  under_review: {
+    button: 'Start Review',
+    title: 'Move claim to review?',
+    description: 'Use this while inspecting, collecting estimates, or after the claimant turns down an offer.',
+  },
+  denied: {
+    button: 'Deny',
+    title: 'Deny claim?',
+    description: 'Declines the claim and counts as its disposition. Add the reason so it is on the timeline.',
+  },
+  closed: {
+    button: 'Close',
+    title: 'Close claim?',
+    description: 'Closes the file. Closed claims can no longer change.',
+  },
+};
+
+export function ClaimStatusActions({ status, statusAction }: ClaimStatusActionsProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [pending, setPending] = useState<ClaimStatus | null>(null);
+  const [note, setNote] = useState('');
+
+  const nextStatuses = CLAIM_STATUS_TRANSITIONS[status].filter((next) => actionCopy[next]);
+  const copy = pending ? actionCopy[pending] : null;
+
+  const run = () => {
+    const next = pending;
+    if (!next) return;
+
+    startTransition(async () => {
+      const result = await statusAction(next, note.trim() || null);
+      setPending(null);
+      setNote('');
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error || 'Action failed.',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  if (nextStatuses.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {nextStatuses.map((next) => (
+          <Button
+            key={next}
+            variant={next === 'denied' || next === 'closed' ? 'outline' : 'default'}
+            size="sm"
+            onClick={() => setPending(next)}
+            disabled={isPending}
+          >
+            {actionCopy[next]?.button}
+          </Button>
+        ))}
+      </div>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        {copy && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{copy.title}</AlertDialogTitle>
+              <AlertDialogDescription>{copy.description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="claim-status-note">Note</Label>
+              <Textarea
+                id="claim-status-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                placeholder={pending === 'denied' ? 'Reason for denial' : 'Optional'}
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={run} disabled={isPending}>
+                {copy.button}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </>
+  );
+}
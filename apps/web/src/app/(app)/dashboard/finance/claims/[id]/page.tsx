@@ -0,0 +1,468 @@
+import { notFound, redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, ShieldAlert } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import {
+  getCargoClaimById,
+  updateCargoClaimStatus,
+  makeCargoClaimOffer,
+  settleCargoClaim,
+  addCargoClaimNote,
+  getClaimDeadlines,
+  isClaimOpen,
+  CLAIM_LIABILITY_LABELS,
+  CLAIM_STATUS_LABELS,
+  CLAIM_TYPE_LABELS,
+  CLAIMANT_TYPE_LABELS,
+  type ClaimLiability,
+  type ClaimStatus,
+} from '@/data/claims';
+import { CLAIM_EVENT_LABELS, type ClaimDeadlineState } from '@/data/claims-shared';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClaimStatusActions } from './_components/claim-status-actions';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function claimUrl(id: string, error?: string | null): string {
+  return error
+    ? `/dashboard/finance/claims/${id}?error=${encodeURIComponent(error)}`
+    : `/dashboard/finance/claims/${id}`;
+}
+
+function revalidateClaim(id: string, loadId: string) {
+  revalidatePath(`/dashboard/finance/claims/${id}`);
+  revalidatePath('/dashboard/finance/claims');
+  revalidatePath(`/dashboard/loads/${loadId}`);
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const statusVariants: Record<ClaimStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  filed: 'outline',
+  acknowledged: 'outline',
+  under_review: 'outline',
+  offered: 'secondary',
+  settled: 'default',
+  denied: 'destructive',
+  closed: 'secondary',
+};
+
+const deadlineStyles: Record<ClaimDeadlineState, { label: string; className: string }> = {
+  ok: { label: 'On track', className: 'text-muted-foreground' },
+  due_soon: { label: 'Due soon', className: 'text-amber-600' },
+  overdue: { label: 'Overdue', className: 'text-destructive font-medium' },
+  met: { label: 'Met', className: 'text-emerald-600' },
+};
+
+export default async function CargoClaimDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { id } = await params;
+  const { error } = await searchParams;
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to view cargo claims." />;
+  }
+
+  const claim = await getCargoClaimById(id, user.id);
+  if (!claim) notFound();
+
+  const loadId = claim.load_id;
+  const today = new Date().toISOString().split('T')[0];
+  const deadlines = getClaimDeadlines(claim, today);
+  const isOpen = isClaimOpen(claim.status);
+
+  async function statusAction(status: ClaimStatus, note: string | null) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await updateCargoClaimStatus(id, user.id, status, note);
+    revalidateClaim(id, loadId);
+    return result;
+  }
+
+  async function offerAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await makeCargoClaimOffer(
+      id,
+      user.id,
+      Number(formData.get('offered_amount')) || 0,
+      (formData.get('note') as string) || null
+    );
+    revalidateClaim(id, loadId);
+    redirect(claimUrl(id, result.success ? null : result.error));
+  }
+
+  async function settleAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const chargeback = formData.get('chargeback_amount') as string;
+    const result = await settleCargoClaim(id, user.id, {
+      settledAmount: Number(formData.get('settled_amount')) || 0,
+      liability: ((formData.get('liability') as string) || 'carrier') as ClaimLiability,
+      chargebackAmount: chargeback ? Number(chargeback) : undefined,
+      deductFromSettlement: formData.get('deduct_from_settlement') === 'on',
+      chargebackDate: (formData.get('chargeback_date') as string) || undefined,
+      insuranceClaimNumber: (formData.get('insurance_claim_number') as string) || null,
+      note: (formData.get('note') as string) || null,
+    });
+    revalidateClaim(id, loadId);
+    revalidatePath('/dashboard/finance/driver-statements');
+    redirect(claimUrl(id, result.success ? null : result.error));
+  }
+
+  async function noteAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await addCargoClaimNote(id, user.id, (formData.get('note') as string) || '');
+    revalidateClaim(id, loadId);
+    redirect(claimUrl(id, result.success ? null : result.error));
+  }
+
+  return (
+    <div className="container max-w-5xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/claims">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Cargo Claims
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ShieldAlert className="h-6 w-6" />
+            {claim.claim_number}
+            <Badge variant={statusVariants[claim.status]}>{CLAIM_STATUS_LABELS[claim.status]}</Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {CLAIM_TYPE_LABELS[claim.claim_type]} claim by {claim.claimant_name} (
+            {CLAIMANT_TYPE_LABELS[claim.claimant_type].toLowerCase()}) &middot;{' '}
+            <Link href={`/dashboard/loads/${claim.load_id}`} className="text-primary hover:underline">
+              {claim.load_number || 'View Load'}
+            </Link>
+            {claim.driver_name && <> &middot; Driver {claim.driver_name}</>}
+          </p>
+        </div>
+        <ClaimStatusActions status={claim.status} statusAction={statusAction} />
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Claimed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(claim.claimed_amount)}</p>
+            <p className="text-xs text-muted-foreground">Received {formatDate(claim.filed_on)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Offered</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {claim.offered_amount !== null ? formatCurrency(claim.offered_amount) : '—'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Settled</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-amber-600">
+              {claim.settled_amount !== null ? formatCurrency(claim.settled_amount) : '—'}
+            </p>
+            {claim.liability && (
+              <p className="text-xs text-muted-foreground">
+                {CLAIM_LIABILITY_LABELS[claim.liability]}
+                {claim.insurance_claim_number ? ` #${claim.insurance_claim_number}` : ''}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Driver Chargeback</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">
+              {claim.chargeback_amount > 0 ? formatCurrency(claim.chargeback_amount) : '—'}
+            </p>
+            {claim.driver_deduction_id && (
+              <p className="text-xs text-muted-foreground">Taken on the driver&apos;s statement</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Deadlines</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2 text-sm">
+          <div>
+            <p className="font-medium">Acknowledge by {formatDate(claim.acknowledge_by)}</p>
+            <p className={deadlineStyles[deadlines.acknowledge].className}>
+              {deadlineStyles[deadlines.acknowledge].label}
+              {claim.acknowledged_at && ` - acknowledged ${formatDate(claim.acknowledged_at)}`}
+            </p>
+          </div>
+          <div>
+            <p className="font-medium">Resolve by {formatDate(claim.resolve_by)}</p>
+            <p className={deadlineStyles[deadlines.resolve].className}>
+              {deadlineStyles[deadlines.resolve].label}
+              {claim.resolved_at && ` - ${CLAIM_STATUS_LABELS[claim.status].toLowerCase()} ${formatDate(claim.resolved_at)}`}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {claim.description && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Description</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm whitespace-pre-wrap">{claim.description}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Claimed Items</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {claim.items.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">No inventory items or photos referenced.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Photo</TableHead>
+                  <TableHead className="text-right">Claimed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claim.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell>
+                      {item.photo_url ? (
+                        <a href={item.photo_url} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                          View photo
+                        </a>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.claimed_amount !== null ? formatCurrency(item.claimed_amount) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {isOpen && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <form action={offerAction}>
+            <Card className="h-full">
+              <CardHeader>
+                <CardTitle className="text-lg">Make Offer</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="offered_amount">Offer Amount</Label>
+                  <Input
+                    id="offered_amount"
+                    name="offered_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    defaultValue={claim.offered_amount ?? undefined}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="offer_note">Note</Label>
+                  <Textarea id="offer_note" name="note" rows={2} />
+                </div>
+                <Button type="submit" variant="outline">
+                  Record Offer
+                </Button>
+              </CardContent>
+            </Card>
+          </form>
+
+          <form action={settleAction}>
+            <Card className="h-full">
+              <CardHeader>
+                <CardTitle className="text-lg">Settle Claim</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <Label htmlFor="settled_amount">Settled Amount</Label>
+                    <Input
+                      id="settled_amount"
+                      name="settled_amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      defaultValue={claim.offered_amount ?? claim.claimed_amount}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="liability">Cost Borne By</Label>
+                    <select id="liability" name="liability" defaultValue="carrier" className={selectClassName}>
+                      {(Object.keys(CLAIM_LIABILITY_LABELS) as ClaimLiability[]).map((liability) => (
+                        <option key={liability} value={liability}>
+                          {CLAIM_LIABILITY_LABELS[liability]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="chargeback_amount">Chargeback Amount</Label>
+                    <Input
+                      id="chargeback_amount"
+                      name="chargeback_amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Full settlement"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="insurance_claim_number">Insurance Claim #</Label>
+                    <Input id="insurance_claim_number" name="insurance_claim_number" />
+                  </div>
+                </div>
+                {claim.driver_id ? (
+                  <div className="grid gap-4 md:grid-cols-2 md:items-end">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" name="deduct_from_settlement" defaultChecked className="h-4 w-4" />
+                      Deduct chargeback on driver statement
+                    </label>
+                    <div>
+                      <Label htmlFor="chargeback_date">Statement Date</Label>
+                      <Input id="chargeback_date" name="chargeback_date" type="date" defaultValue={today} />
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No driver on this load - a chargeback is recorded but not deducted.
+                  </p>
+                )}
+                <div>
+                  <Label htmlFor="settle_note">Note</Label>
+                  <Textarea id="settle_note" name="note" rows={2} />
+                </div>
+                <Button type="submit">Settle</Button>
+              </CardContent>
+            </Card>
+          </form>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Timeline</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ol className="space-y-3 border-l pl-4">
+            {claim.events.map((event) => (
+              <li key={event.id} className="text-sm">
+                <p className="font-medium">
+                  {CLAIM_EVENT_LABELS[event.event_type]}
+                  {event.amount !== null && ` - ${formatCurrency(event.amount)}`}
+                </p>
+                {event.note && <p className="text-muted-foreground whitespace-pre-wrap">{event.note}</p>}
+                <p className="text-xs text-muted-foreground">{formatDateTime(event.created_at)}</p>
+              </li>
+            ))}
+          </ol>
+          {claim.status !== 'closed' && (
+            <form action={noteAction} className="flex gap-2 items-end">
+              <div className="flex-1">
+                <Label htmlFor="timeline_note">Add Note</Label>
+                <Input id="timeline_note" name="note" placeholder="Call with claimant, inspection scheduled, ..." required />
+              </div>
+              <Button type="submit" variant="outline">
+                Add
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, ShieldAlert } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import {
+  createCargoClaim,
+  getClaimableLoad,
+  listClaimableLoads,
+  CLAIM_TYPE_LABELS,
+  CLAIMANT_TYPE_LABELS,
+  type ClaimableLoad,
+  type ClaimantType,
+  type ClaimType,
+} from '@/data/claims';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+function formatRoute(load: ClaimableLoad): string {
+  const origin = [load.pickup_city, load.pickup_state].filter(Boolean).join(', ');
+  const destination = [load.delivery_city, load.delivery_state].filter(Boolean).join(', ');
+  return origin || destination ? `${origin || '?'} → ${destination || '?'}` : '';
+}
+
+function pageUrl(params: Record<string, string | null | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+  return `/dashboard/finance/claims/new?${search.toString()}`;
+}
+
+export default async function NewCargoClaimPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ load_id?: string; error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to file cargo claims." />;
+  }
+
+  const { load_id: loadId, error } = await searchParams;
+  const today = new Date().toISOString().split('T')[0];
+
+  const [loads, load] = await Promise.all([
+    loadId ? Promise.resolve([] as ClaimableLoad[]) : listClaimableLoads(user.id),
+    loadId ? getClaimableLoad(loadId, user.id) : Promise.resolve(null),
+  ]);
+
+  async function createAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const loadId = formData.get('load_id') as string;
+
+    const inventoryItems = formData.getAll('inventory_item_id').map((value) => {
+      const itemId = value as string;
+      const amount = formData.get(`item_amount_${itemId}`) as string;
+      return {
+        inventoryItemId: itemId,
+        description: (formData.get(`item_description_${itemId}`) as string) || 'Inventory item',
+        claimedAmount: amount ? Number(amount) : null,
+      };
+    });
+
+    const result = await createCargoClaim(user.id, {
+      loadId,
+      claimType: ((formData.get('claim_type') as string) || 'damage') as ClaimType,
+      claimantType: ((formData.get('claimant_type') as string) || 'customer') as ClaimantType,
+      claimantName: (formData.get('claimant_name') as string) || '',
+      claimedAmount: Number(formData.get('claimed_amount')) || 0,
+      filedOn: (formData.get('filed_on') as string) || undefined,
+      description: (formData.get('description') as string) || null,
+      inventoryItems,
+      photoIds: formData.getAll('photo_id').map((value) => value as string),
+    });
+
+    if (!result.success || !result.id) {
+      redirect(pageUrl({ load_id: loadId, error: result.error || 'Failed to create claim' }));
+    }
+
+    revalidatePath('/dashboard/finance/claims');
+    revalidatePath(`/dashboard/loads/${loadId}`);
+    redirect(`/dashboard/finance/claims/${result.id}`);
+  }
+
+  const defaultClaimantType: ClaimantType = load?.customer_name ? 'customer' : load?.company_name ? 'partner' : 'customer';
+  const defaultClaimantName = load?.customer_name || load?.company_name || '';
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/claims">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Cargo Claims
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <ShieldAlert className="h-6 w-6" />
+          New Cargo Claim
+        </h1>
+        <p className="text-muted-foreground">
+          Record a damage or loss claim received from the customer or a partner company
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      {!load ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">1. Load</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadId ? (
+              <p className="text-sm text-muted-foreground">Load not found.</p>
+            ) : loads.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No loads yet.</p>
+            ) : (
+              <form method="GET" className="flex gap-2 items-end">
+                <div className="flex-1">
+                  <Label htmlFor="load_id">Load</Label>
+                  <select id="load_id" name="load_id" required className={selectClassName}>
+                    {loads.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.load_number || l.id.slice(0, 8)}
+                        {l.customer_name || l.company_name ? ` - ${l.customer_name || l.company_name}` : ''}
+                        {formatRoute(l) ? ` (${formatRoute(l)})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button type="submit" variant="outline">
+                  Continue
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <form action={createAction} className="space-y-6">
+          <input type="hidden" name="load_id" value={load.id} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Load {load.load_number || load.id.slice(0, 8)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground space-y-1">
+              {formatRoute(load) && <p>{formatRoute(load)}</p>}
+              <p>
+                Driver: {load.driver_name || (load.driver_id ? 'Assigned' : 'None assigned')}
+                {!load.driver_id && ' - driver chargebacks will not be available'}
+              </p>
+              <Link href={pageUrl({})} className="text-primary hover:underline">
+                Choose a different load
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Claim</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="claim_type">Type</Label>
+                <select id="claim_type" name="claim_type" defaultValue="damage" className={selectClassName}>
+                  {(Object.keys(CLAIM_TYPE_LABELS) as ClaimType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {CLAIM_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="filed_on">Received On</Label>
+                <Input id="filed_on" name="filed_on" type="date" defaultValue={today} max={today} required />
+              </div>
+              <div>
+                <Label htmlFor="claimant_type">Claimant</Label>
+                <select
+                  id="claimant_type"
+                  name="claimant_type"
+                  defaultValue={defaultClaimantType}
+                  className={selectClassName}
+                >
+                  {(Object.keys(CLAIMANT_TYPE_LABELS) as ClaimantType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {CLAIMANT_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="claimant_name">Claimant Name</Label>
+                <Input id="claimant_name" name="claimant_name" defaultValue={defaultClaimantName} required />
+              </div>
+              <div>
+                <Label htmlFor="claimed_amount">Claimed Amount</Label>
+                <Input id="claimed_amount" name="claimed_amount" type="number" step="0.01" min="0" required />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  name="description"
+                  rows={3}
+                  placeholder="What the claimant reported"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Inventory Items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {load.inventory.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No inventory was recorded for this load.</p>
+              ) : (
+                <div className="space-y-2">
+                  {load.inventory.map((item) => (
+                    <div key={item.id} className="grid gap-2 md:grid-cols-[auto_1fr_10rem] items-center">
+                      <input
+                        type="checkbox"
+                        id={`item_${item.id}`}
+                        name="inventory_item_id"
+                        value={item.id}
+                        defaultChecked={item.delivery_status === 'exception'}
+                        className="h-4 w-4"
+                      />
+                      <label htmlFor={`item_${item.id}`} className="text-sm">
+                        <span className="font-mono mr-2">#{item.tag_number}</span>
+                        {item.description}
+                        {item.delivery_status === 'exception' && (
+                          <span className="text-destructive"> - delivery exception</span>
+                        )}
+                        {item.condition_codes.length > 0 && (
+                          <span className="text-muted-foreground"> ({item.condition_codes.join(', ')} at origin)</span>
+                        )}
+                      </label>
+                      <input
+                        type="hidden"
+                        name={`item_description_${item.id}`}
+                        value={`#${item.tag_number} ${item.description}`}
+                      />
+                      <Input
+                        name={`item_amount_${item.id}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Amount"
+                        aria-label={`Claimed amount for tag ${item.tag_number}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Damage Photos</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {load.damage_photos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No damage photos were uploaded for this load.</p>
+              ) : (
+                <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                  {load.damage_photos.map((photo) => (
+                    <label key={photo.id} className="block border rounded-lg p-2 space-y-2 cursor-pointer">
+                      <img
+                        src={photo.file_url}
+                        alt={photo.caption || 'Damage photo'}
+                        className="w-full h-24 object-cover rounded"
+                      />
+                      <span className="flex items-center gap-2 text-xs">
+                        <input type="checkbox" name="photo_id" value={photo.id} defaultChecked className="h-4 w-4" />
+                        {photo.caption || 'Damage photo'}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit">File Claim</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { AlertTriangle, Plus, ShieldAlert } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import {
+  listCargoClaims,
+  getClaimDeadlines,
+  isClaimOpen,
+  CLAIM_STATUS_LABELS,
+  CLAIM_TYPE_LABELS,
+  type CargoClaim,
+  type ClaimStatus,
+} from '@/data/claims';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const statusVariants: Record<ClaimStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  filed: 'outline',
+  acknowledged: 'outline',
+  under_review: 'outline',
+  offered: 'secondary',
+  settled: 'default',
+  denied: 'destructive',
+  closed: 'secondary',
+};
+
+const filters: { value: string; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'all', label: 'All' },
+  { value: 'settled', label: 'Settled' },
+  { value: 'denied', label: 'Denied' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export default async function CargoClaimsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to view cargo claims." />;
+  }
+
+  const { status: statusParam } = await searchParams;
+  const filter = filters.some((f) => f.value === statusParam) ? statusParam! : 'open';
+
+  let claims: CargoClaim[] = [];
+  let error: string | null = null;
+
+  try {
+    claims = await listCargoClaims({ ownerId: user.id });
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load cargo claims';
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const yearStart = `${today.slice(0, 4)}-01-01`;
+  const openClaims = claims.filter((c) => isClaimOpen(c.status));
+  const pastDeadline = openClaims.filter((c) => {
+    const deadlines = getClaimDeadlines(c, today);
+    return deadlines.acknowledge === 'overdue' || deadlines.resolve === 'overdue';
+  });
+  const settledThisYear = claims.filter(
+    (c) => c.settled_amount !== null && (c.resolved_at || c.filed_on) >= yearStart
+  );
+
+  const visible = claims.filter((c) =>
+    filter === 'all' ? true : filter === 'open' ? isClaimOpen(c.status) : c.status === filter
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ShieldAlert className="h-6 w-6" />
+            Cargo Claims
+          </h1>
+          <p className="text-muted-foreground">
+            Damage and loss claims against loads, with acknowledge and resolve deadlines
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/finance/claims/new">
+            <Plus className="h-4 w-4 mr-2" />
+            New Claim
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Open Claims</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{openClaims.length}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(openClaims.reduce((sum, c) => sum + c.claimed_amount, 0))} claimed
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Past Deadline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-2xl font-bold ${pastDeadline.length > 0 ? 'text-destructive' : ''}`}>
+              {pastDeadline.length}
+            </p>
+            <p className="text-xs text-muted-foreground">Not acknowledged in 30 or resolved in 120 days</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Settled This Year</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-amber-600">
+              {formatCurrency(settledThisYear.reduce((sum, c) => sum + (c.settled_amount || 0), 0))}
+            </p>
+            <p className="text-xs text-muted-foreground">{settledThisYear.length} claims</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Driver Chargebacks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">
+              {formatCurrency(settledThisYear.reduce((sum, c) => sum + c.chargeback_amount, 0))}
+            </p>
+            <p className="text-xs text-muted-foreground">Recovered from drivers this year</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Claims</CardTitle>
+          <div className="flex gap-1">
+            {filters.map((f) => (
+              <Button key={f.value} variant={filter === f.value ? 'secondary' : 'ghost'} size="sm" asChild>
+                <Link href={`/dashboard/finance/claims?status=${f.value}`}>{f.label}</Link>
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {visible.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <ShieldAlert className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No claims</p>
+              <p className="text-sm">Claims filed against your loads will show here</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Claim</TableHead>
+                    <TableHead>Load</TableHead>
+                    <TableHead>Claimant</TableHead>
+                    <TableHead>Filed</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Next Deadline</TableHead>
+                    <TableHead className="text-right">Claimed</TableHead>
+                    <TableHead className="text-right">Settled</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((claim) => {
+                    const deadlines = getClaimDeadlines(claim, today);
+                    const nextDeadline = !isClaimOpen(claim.status)
+                      ? null
+                      : deadlines.acknowledge !== 'met'
+                        ? { label: 'Acknowledge', date: claim.acknowledge_by, state: deadlines.acknowledge }
+                        : { label: 'Resolve', date: claim.resolve_by, state: deadlines.resolve };
+                    return (
+                      <TableRow key={claim.id}>
+                        <TableCell>
+                          <Link
+                            href={`/dashboard/finance/claims/${claim.id}`}
+                            className="text-primary hover:underline font-mono text-sm"
+                          >
+                            {claim.claim_number}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">{CLAIM_TYPE_LABELS[claim.claim_type]}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Link href={`/dashboard/loads/${claim.load_id}`} className="hover:underline">
+                            {claim.load_number || 'View Load'}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{claim.claimant_name}</TableCell>
+                        <TableCell className="text-muted-foreground">{formatDate(claim.filed_on)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[claim.status]}>{CLAIM_STATUS_LABELS[claim.status]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {nextDeadline ? (
+                            <span
+                              className={`flex items-center gap-1 text-sm ${
+                                nextDeadline.state === 'overdue'
+                                  ? 'text-destructive font-medium'
+                                  : nextDeadline.state === 'due_soon'
+                                    ? 'text-amber-600'
+                                    : 'text-muted-foreground'
+                              }`}
+                            >
+                              {nextDeadline.state === 'overdue' && <AlertTriangle className="h-3 w-3" />}
+                              {nextDeadline.label} by {formatDate(nextDeadline.date)}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(claim.claimed_amount)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {claim.settled_amount !== null ? (
+                            formatCurrency(claim.settled_amount)
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
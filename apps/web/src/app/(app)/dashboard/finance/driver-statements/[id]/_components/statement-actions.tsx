@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { CheckCircle2, Download, XCircle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { exportDriverStatementToPDF } from '@/hooks/use-export';
+import type { DriverStatementPDFOptions } from '@/lib/export/pdf';
+import type { DriverStatementStatus } from '@/data/driver-statements';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface StatementActionsProps {
+  status: DriverStatementStatus;
+  pdf: DriverStatementPDFOptions;
+  finalizeAction: () => Promise<ActionResult>;
+  voidAction: () => Promise<ActionResult>;
+}
+
+type PendingAction = 'finalize' | 'void' | null;
+
+export function StatementActions({ status, pdf, finalizeAction, voidAction }: StatementActionsProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [pending, setPending] = useState<PendingAction>(null);
+
+  const confirmCopy: Record<Exclude<PendingAction, null>, { title: string; description: string; label: string }> = {
+    finalize: {
+      title: 'Finalize statement?',
+      description:
+        'The statement is locked, escrow is posted and its trips are approved for payment. The driver can see it in the app.',
+      label: 'Finalize',
+    },
+    void: {
+      title: status === 'draft' ? 'Discard draft?' : 'Void statement?',
+      description:
+        'Its trips and advances are released so they can go on a new statement, and any escrow it posted is reversed.',
+      label: status === 'draft' ? 'Discard Draft' : 'Void Statement',
+    },
+  };
+
+  const run = () => {
+    const action = pending;
+    if (!action) return;
+
+    startTransition(async () => {
+      const result = await (action === 'finalize' ? finalizeAction() : voidAction());
+      setPending(null);
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error || 'Action failed.',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => exportDriverStatementToPDF(pdf)}>
+          <Download className="h-4 w-4 mr-2" />
+          PDF
+        </Button>
+        {status === 'draft' && (
+          <Button size="sm" onClick={() => setPending('finalize')} disabled={isPending}>
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+            Finalize
+          </Button>
+        )}
+        {(status === 'draft' || status === 'finalized') && (
+          <Button variant="outline" size="sm" onClick={() => setPending('void')} disabled={isPending}>
+            <XCircle className="h-4 w-4 mr-2" />
+            {status === 'draft' ? 'Discard' : 'Void'}
+          </Button>
+        )}
+      </div>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        {pending && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{confirmCopy[pending].title}</AlertDialogTitle>
+              <AlertDialogDescription>{confirmCopy[pending].description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={run} disabled={isPending}>
+                {confirmCopy[pending].label}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,316 @@
+import { notFound, redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, FileSpreadsheet } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import {
+  getDriverStatementById,
+  getDriverEscrowBalance,
+  finalizeDriverStatement,
+  markDriverStatementPaid,
+  voidDriverStatement,
+  STATEMENT_LINE_CATEGORY_LABELS,
+  type DriverStatementStatus,
+} from '@/data/driver-statements';
+import { getWorkspaceCompanyForUser } from '@/data/companies';
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from '@/data/payments';
+import type { DriverStatementPDFOptions } from '@/lib/export/pdf';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatementActions } from './_components/statement-actions';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function revalidateStatement(id: string) {
+  revalidatePath(`/dashboard/finance/driver-statements/${id}`);
+  revalidatePath('/dashboard/finance/driver-statements');
+  revalidatePath('/dashboard/finance/settlements');
+}
+
+const statusLabels: Record<DriverStatementStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  finalized: { label: 'Finalized', variant: 'secondary' },
+  paid: { label: 'Paid', variant: 'default' },
+  void: { label: 'Void', variant: 'destructive' },
+};
+
+export default async function DriverStatementDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const statement = await getDriverStatementById(id, user.id);
+  if (!statement) notFound();
+
+  const [workspaceCompany, escrowBalance] = await Promise.all([
+    getWorkspaceCompanyForUser(user.id),
+    getDriverEscrowBalance(statement.driver_id, user.id),
+  ]);
+
+  const isDraft = statement.status === 'draft';
+
+  async function finalizeAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await finalizeDriverStatement(id, user.id);
+    revalidateStatement(id);
+    return result;
+  }
+
+  async function voidAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await voidDriverStatement(id, user.id);
+    revalidateStatement(id);
+    if (result.success && isDraft) {
+      redirect('/dashboard/finance/driver-statements');
+    }
+    return result;
+  }
+
+  async function markPaidAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    await markDriverStatementPaid(id, user.id, {
+      method: (formData.get('method') as string) || 'ach',
+      reference: (formData.get('reference') as string) || null,
+    });
+    revalidateStatement(id);
+  }
+
+  const pdf: DriverStatementPDFOptions = {
+    statement: {
+      statement_number: statement.statement_number,
+      status: statement.status,
+      period_start: statement.period_start,
+      period_end: statement.period_end,
+      gross_pay: statement.gross_pay,
+      reimbursements: statement.reimbursements,
+      collections: statement.collections,
+      advances: statement.advances,
+      deductions: statement.deductions,
+      escrow_holdback: statement.escrow_holdback,
+      escrow_release: statement.escrow_release,
+      net_pay: statement.net_pay,
+      escrow_balance: statement.status === 'draft' ? null : escrowBalance,
+      notes: statement.notes,
+    },
+    companyName: workspaceCompany?.name || 'Your Company',
+    driverName: statement.driver_name || 'Unknown Driver',
+    lines: statement.lines.map((line) => ({
+      trip_number: line.trip_number,
+      description: line.description,
+      amount: line.amount,
+    })),
+  };
+
+  const status = statusLabels[statement.status];
+  const withheld = statement.collections + statement.advances + statement.deductions + statement.escrow_holdback;
+
+  return (
+    <div className="container max-w-5xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/driver-statements">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Driver Statements
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <FileSpreadsheet className="h-6 w-6" />
+            {statement.statement_number}
+            <Badge variant={status.variant}>{status.label}</Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {statement.driver_name || 'Unknown Driver'} &middot; {formatDate(statement.period_start)} –{' '}
+            {formatDate(statement.period_end)}
+          </p>
+        </div>
+        <StatementActions
+          status={statement.status}
+          pdf={pdf}
+          finalizeAction={finalizeAction}
+          voidAction={voidAction}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Trip Pay</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(statement.gross_pay)}</p>
+            {statement.reimbursements > 0 && (
+              <p className="text-xs text-muted-foreground">
+                + {formatCurrency(statement.reimbursements)} reimbursed
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Withheld</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-destructive">{formatCurrency(withheld)}</p>
+            <p className="text-xs text-muted-foreground">Collections, advances, deductions, escrow</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Escrow Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-blue-600">{formatCurrency(escrowBalance)}</p>
+            {statement.status === 'draft' && statement.escrow_holdback > 0 && (
+              <p className="text-xs text-muted-foreground">
+                + {formatCurrency(statement.escrow_holdback)} when finalized
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Net Pay</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">{formatCurrency(statement.net_pay)}</p>
+            {statement.paid_at && (
+              <p className="text-xs text-muted-foreground">
+                Paid {formatDate(statement.paid_at)}
+                {statement.paid_method
+                  ? ` via ${PAYMENT_METHOD_LABELS[statement.paid_method as PaymentMethod] || statement.paid_method}`
+                  : ''}
+                {statement.paid_reference ? ` #${statement.paid_reference}` : ''}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Statement Lines</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Trip</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statement.lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    {line.trip_id ? (
+                      <Link href={`/dashboard/trips/${line.trip_id}`} className="text-primary hover:underline">
+                        {line.trip_number || 'View Trip'}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {STATEMENT_LINE_CATEGORY_LABELS[line.category] || line.category}
+                  </TableCell>
+                  <TableCell>{line.description}</TableCell>
+                  <TableCell
+                    className={`text-right font-medium ${line.amount < 0 ? 'text-destructive' : ''}`}
+                  >
+                    {line.amount < 0 ? `-${formatCurrency(Math.abs(line.amount))}` : formatCurrency(line.amount)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3} className="font-semibold">
+                  Net Pay
+                </TableCell>
+                <TableCell className="text-right font-bold">{formatCurrency(statement.net_pay)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {statement.status === 'finalized' && (
+        <form action={markPaidAction}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Record Payment to Driver</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-3 md:items-end">
+              <div>
+                <Label htmlFor="method">Method</Label>
+                <select
+                  id="method"
+                  name="method"
+                  defaultValue="ach"
+                  className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                    <option key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="reference">Reference #</Label>
+                <Input id="reference" name="reference" placeholder="Check number, ACH trace" />
+              </div>
+              <Button type="submit">Mark Paid</Button>
+            </CardContent>
+          </Card>
+        </form>
+      )}
+
+      {statement.notes && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm whitespace-pre-wrap">{statement.notes}</CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,468 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, FileSpreadsheet, User, X } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import { getDriversForUser } from '@/data/drivers';
+import {
+  getDriverPayProfile,
+  previewDriverStatement,
+  createDriverStatement,
+  createDriverDeduction,
+  endDriverDeduction,
+  createDriverAdvance,
+  deleteDriverAdvance,
+  updateDriverEscrowSettings,
+  DEDUCTION_TYPE_LABELS,
+  DEDUCTION_FREQUENCY_LABELS,
+  ADVANCE_METHOD_LABELS,
+  STATEMENT_LINE_CATEGORY_LABELS,
+  type AdvanceMethod,
+  type DeductionFrequency,
+  type DeductionType,
+  type DriverStatementDraft,
+} from '@/data/driver-statements';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+function pageUrl(params: Record<string, string | null | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+  return `/dashboard/finance/driver-statements/new?${search.toString()}`;
+}
+
+export default async function NewDriverStatementPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ driver?: string; start?: string; end?: string; release?: string; error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to create driver statements." />;
+  }
+
+  const { driver: driverId, release, error } = await searchParams;
+  const today = new Date().toISOString().split('T')[0];
+  const weekAgoDate = new Date();
+  weekAgoDate.setDate(weekAgoDate.getDate() - 6);
+  const weekAgo = weekAgoDate.toISOString().split('T')[0];
+  const { start = weekAgo, end = today } = await searchParams;
+
+  const drivers = (await getDriversForUser(user.id)).filter((d) => d.status !== 'archived');
+  const profile = driverId ? await getDriverPayProfile(driverId, user.id) : null;
+
+  let draft: DriverStatementDraft | null = null;
+  let previewError: string | null = null;
+  if (profile && start && end) {
+    try {
+      draft = await previewDriverStatement(profile.driver_id, user.id, {
+        periodStart: start,
+        periodEnd: end,
+        escrowRelease: Number(release) || 0,
+      });
+    } catch (err) {
+      previewError = err instanceof Error ? err.message : 'Failed to preview statement';
+    }
+  }
+
+  async function addDeductionAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const driverId = formData.get('driver_id') as string;
+    const result = await createDriverDeduction(user.id, {
+      driverId,
+      deductionType: ((formData.get('deduction_type') as string) || 'other') as DeductionType,
+      description: (formData.get('description') as string) || null,
+      amount: Number(formData.get('amount')) || 0,
+      frequency: ((formData.get('frequency') as string) || 'per_statement') as DeductionFrequency,
+      startDate: (formData.get('start_date') as string) || undefined,
+      endDate: (formData.get('end_date') as string) || null,
+    });
+    redirect(pageUrl({ driver: driverId, start, end, release, error: result.success ? null : result.error }));
+  }
+
+  async function endDeductionAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const driverId = formData.get('driver_id') as string;
+    const result = await endDriverDeduction(formData.get('id') as string, user.id);
+    redirect(pageUrl({ driver: driverId, start, end, release, error: result.success ? null : result.error }));
+  }
+
+  async function addAdvanceAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const driverId = formData.get('driver_id') as string;
+    const result = await createDriverAdvance(user.id, {
+      driverId,
+      amount: Number(formData.get('amount')) || 0,
+      advanceDate: (formData.get('advance_date') as string) || undefined,
+      method: ((formData.get('method') as string) || 'cash') as AdvanceMethod,
+      description: (formData.get('description') as string) || null,
+    });
+    redirect(pageUrl({ driver: driverId, start, end, release, error: result.success ? null : result.error }));
+  }
+
+  async function deleteAdvanceAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const driverId = formData.get('driver_id') as string;
+    const result = await deleteDriverAdvance(formData.get('id') as string, user.id);
+    redirect(pageUrl({ driver: driverId, start, end, release, error: result.success ? null : result.error }));
+  }
+
+  async function escrowSettingsAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const driverId = formData.get('driver_id') as string;
+    const cap = formData.get('escrow_cap') as string;
+    const result = await updateDriverEscrowSettings(driverId, user.id, {
+      holdbackAmount: Number(formData.get('escrow_holdback_amount')) || 0,
+      cap: cap ? Number(cap) : null,
+    });
+    redirect(pageUrl({ driver: driverId, start, end, release, error: result.success ? null : result.error }));
+  }
+
+  async function createAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const driverId = formData.get('driver_id') as string;
+    const result = await createDriverStatement(user.id, {
+      driverId,
+      periodStart: formData.get('period_start') as string,
+      periodEnd: formData.get('period_end') as string,
+      escrowRelease: Number(formData.get('escrow_release')) || 0,
+      notes: (formData.get('notes') as string) || null,
+    });
+
+    if (!result.success || !result.id) {
+      redirect(pageUrl({ driver: driverId, start, end, release, error: result.error || 'Failed to create statement' }));
+    }
+
+    revalidatePath('/dashboard/finance/driver-statements');
+    redirect(`/dashboard/finance/driver-statements/${result.id}`);
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/driver-statements">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Driver Statements
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <FileSpreadsheet className="h-6 w-6" />
+          New Driver Statement
+        </h1>
+        <p className="text-muted-foreground">
+          Settle a driver&apos;s completed trips for a pay period
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">1. Driver</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {drivers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No drivers yet.</p>
+          ) : (
+            <div className="grid gap-3 md:grid-cols-3">
+              {drivers.map((driver) => (
+                <Link
+                  key={driver.id}
+                  href={pageUrl({ driver: driver.id, start, end })}
+                  className={`flex items-center gap-2 p-3 border rounded-lg hover:bg-muted/50 ${
+                    driver.id === profile?.driver_id ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <User className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">
+                    {driver.first_name} {driver.last_name}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {profile && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">2. Pay profile for {profile.driver_name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <Label>Recurring deductions</Label>
+                {profile.deductions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground border rounded-lg p-3 mt-2">No recurring deductions.</p>
+                ) : (
+                  <div className="divide-y border rounded-lg mt-2">
+                    {profile.deductions.map((deduction) => (
+                      <div key={deduction.id} className="flex items-center gap-3 p-3">
+                        <div className="flex-1">
+                          <p className="font-medium">
+                            {deduction.description || DEDUCTION_TYPE_LABELS[deduction.deduction_type]}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {deduction.is_one_time ? (
+                              <>One-time &middot; {formatDate(deduction.start_date)}</>
+                            ) : (
+                              <>
+                                {DEDUCTION_FREQUENCY_LABELS[deduction.frequency]} &middot; from{' '}
+                                {formatDate(deduction.start_date)}
+                                {deduction.end_date ? ` to ${formatDate(deduction.end_date)}` : ''}
+                              </>
+                            )}
+                          </p>
+                        </div>
+                        <span className="text-sm font-medium">{formatCurrency(deduction.amount)}</span>
+                        <form action={endDeductionAction}>
+                          <input type="hidden" name="driver_id" value={profile.driver_id} />
+                          <input type="hidden" name="id" value={deduction.id} />
+                          <Button type="submit" variant="ghost" size="sm" aria-label="End deduction">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <form action={addDeductionAction} className="grid gap-2 md:grid-cols-6 mt-3 items-end">
+                  <input type="hidden" name="driver_id" value={profile.driver_id} />
+                  <select name="deduction_type" defaultValue="truck_lease" className={selectClassName} aria-label="Type">
+                    {(Object.keys(DEDUCTION_TYPE_LABELS) as DeductionType[])
+                      .filter((type) => type !== 'claim_chargeback')
+                      .map((type) => (
+                        <option key={type} value={type}>
+                          {DEDUCTION_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                  </select>
+                  <Input name="description" placeholder="Description" aria-label="Description" />
+                  <Input name="amount" type="number" step="0.01" min="0.01" required placeholder="Amount" aria-label="Amount" />
+                  <select name="frequency" defaultValue="weekly" className={selectClassName} aria-label="Frequency">
+                    {(Object.keys(DEDUCTION_FREQUENCY_LABELS) as DeductionFrequency[]).map((frequency) => (
+                      <option key={frequency} value={frequency}>
+                        {DEDUCTION_FREQUENCY_LABELS[frequency]}
+                      </option>
+                    ))}
+                  </select>
+                  <Input name="start_date" type="date" defaultValue={today} aria-label="Start date" />
+                  <Button type="submit" variant="outline">Add Deduction</Button>
+                </form>
+              </div>
+
+              <div>
+                <Label>Open cash advances</Label>
+                {profile.open_advances.length === 0 ? (
+                  <p className="text-sm text-muted-foreground border rounded-lg p-3 mt-2">No open advances.</p>
+                ) : (
+                  <div className="divide-y border rounded-lg mt-2">
+                    {profile.open_advances.map((advance) => (
+                      <div key={advance.id} className="flex items-center gap-3 p-3">
+                        <div className="flex-1">
+                          <p className="font-medium">{advance.description || 'Cash advance'}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(advance.advance_date)} &middot; {ADVANCE_METHOD_LABELS[advance.method]}
+                          </p>
+                        </div>
+                        <span className="text-sm font-medium">{formatCurrency(advance.amount)}</span>
+                        <form action={deleteAdvanceAction}>
+                          <input type="hidden" name="driver_id" value={profile.driver_id} />
+                          <input type="hidden" name="id" value={advance.id} />
+                          <Button type="submit" variant="ghost" size="sm" aria-label="Delete advance">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <form action={addAdvanceAction} className="grid gap-2 md:grid-cols-5 mt-3 items-end">
+                  <input type="hidden" name="driver_id" value={profile.driver_id} />
+                  <Input name="amount" type="number" step="0.01" min="0.01" required placeholder="Amount" aria-label="Amount" />
+                  <Input name="advance_date" type="date" defaultValue={today} aria-label="Advance date" />
+                  <select name="method" defaultValue="comchek" className={selectClassName} aria-label="Method">
+                    {(Object.keys(ADVANCE_METHOD_LABELS) as AdvanceMethod[]).map((method) => (
+                      <option key={method} value={method}>
+                        {ADVANCE_METHOD_LABELS[method]}
+                      </option>
+                    ))}
+                  </select>
+                  <Input name="description" placeholder="Description" aria-label="Description" />
+                  <Button type="submit" variant="outline">Record Advance</Button>
+                </form>
+              </div>
+
+              <form action={escrowSettingsAction} className="grid gap-3 md:grid-cols-4 items-end">
+                <input type="hidden" name="driver_id" value={profile.driver_id} />
+                <div>
+                  <Label htmlFor="escrow_holdback_amount">Escrow per statement</Label>
+                  <Input
+                    id="escrow_holdback_amount"
+                    name="escrow_holdback_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    defaultValue={profile.escrow_holdback_amount.toFixed(2)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="escrow_cap">Escrow cap</Label>
+                  <Input
+                    id="escrow_cap"
+                    name="escrow_cap"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="No cap"
+                    defaultValue={profile.escrow_cap !== null ? profile.escrow_cap.toFixed(2) : undefined}
+                  />
+                </div>
+                <div>
+                  <p className="text-sm font-medium">Balance held</p>
+                  <p className="text-lg font-bold text-blue-600">{formatCurrency(profile.escrow_balance)}</p>
+                </div>
+                <Button type="submit" variant="outline">Save Escrow</Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">3. Pay period</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form method="get" className="grid gap-3 md:grid-cols-4 items-end">
+                <input type="hidden" name="driver" value={profile.driver_id} />
+                <div>
+                  <Label htmlFor="start">From</Label>
+                  <Input id="start" name="start" type="date" defaultValue={start} required />
+                </div>
+                <div>
+                  <Label htmlFor="end">To</Label>
+                  <Input id="end" name="end" type="date" defaultValue={end} required />
+                </div>
+                <div>
+                  <Label htmlFor="release">Release from escrow</Label>
+                  <Input
+                    id="release"
+                    name="release"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={profile.escrow_balance}
+                    placeholder="0.00"
+                    defaultValue={release}
+                    disabled={profile.escrow_balance <= 0}
+                  />
+                </div>
+                <Button type="submit" variant="outline">Preview</Button>
+              </form>
+
+              {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+
+              {draft && (
+                <>
+                  {draft.lines.length === 0 ? (
+                    <p className="text-sm text-muted-foreground border rounded-lg p-3">
+                      Nothing to settle - no unsettled completed trips, advances or deductions in this period.
+                    </p>
+                  ) : (
+                    <div className="divide-y border rounded-lg">
+                      {draft.lines.map((line, index) => (
+                        <div key={index} className="flex items-center gap-3 p-3 text-sm">
+                          <span className="w-32 text-muted-foreground">
+                            {STATEMENT_LINE_CATEGORY_LABELS[line.category]}
+                          </span>
+                          <span className="flex-1">{line.description}</span>
+                          <span className={`font-medium ${line.amount < 0 ? 'text-destructive' : ''}`}>
+                            {line.amount < 0
+                              ? `-${formatCurrency(Math.abs(line.amount))}`
+                              : formatCurrency(line.amount)}
+                          </span>
+                        </div>
+                      ))}
+                      <div className="flex items-center justify-between p-3 font-semibold">
+                        <span>
+                          Net pay &middot; {draft.trip_ids.length} trip{draft.trip_ids.length !== 1 ? 's' : ''}
+                        </span>
+                        <span>{formatCurrency(draft.totals.net_pay)}</span>
+                      </div>
+                    </div>
+                  )}
+
+                  {draft.lines.length > 0 && (
+                    <form action={createAction} className="space-y-4">
+                      <input type="hidden" name="driver_id" value={profile.driver_id} />
+                      <input type="hidden" name="period_start" value={draft.period_start} />
+                      <input type="hidden" name="period_end" value={draft.period_end} />
+                      <input type="hidden" name="escrow_release" value={draft.totals.escrow_release} />
+                      <div>
+                        <Label htmlFor="notes">Notes</Label>
+                        <Textarea id="notes" name="notes" rows={2} placeholder="Shown on the statement" />
+                      </div>
+                      <div className="flex justify-end">
+                        <Button type="submit">Create Draft Statement</Button>
+                      </div>
+                    </form>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
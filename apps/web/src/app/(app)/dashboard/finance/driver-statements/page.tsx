@@ -0,0 +1,200 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { FileSpreadsheet, Plus } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import { listDriverStatements, type DriverStatement, type DriverStatementStatus } from '@/data/driver-statements';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const statusLabels: Record<DriverStatementStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  finalized: { label: 'Finalized', variant: 'secondary' },
+  paid: { label: 'Paid', variant: 'default' },
+  void: { label: 'Void', variant: 'destructive' },
+};
+
+export default async function DriverStatementsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to view driver statements." />;
+  }
+
+  let statements: DriverStatement[] = [];
+  let error: string | null = null;
+
+  try {
+    statements = await listDriverStatements({ ownerId: user.id });
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load driver statements';
+  }
+
+  const owed = statements.filter((s) => s.status === 'finalized').reduce((sum, s) => sum + s.net_pay, 0);
+  const drafts = statements.filter((s) => s.status === 'draft');
+  const monthStart = new Date().toISOString().slice(0, 7);
+  const paidThisMonth = statements
+    .filter((s) => s.status === 'paid' && s.paid_at?.startsWith(monthStart))
+    .reduce((sum, s) => sum + s.net_pay, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <FileSpreadsheet className="h-6 w-6" />
+            Driver Statements
+          </h1>
+          <p className="text-muted-foreground">
+            Pay-period statements netting trip pay against deductions, advances and escrow
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/finance/driver-statements/new">
+            <Plus className="h-4 w-4 mr-2" />
+            New Statement
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Finalized, Awaiting Payment
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-amber-600">{formatCurrency(owed)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Paid This Month
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">{formatCurrency(paidThisMonth)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Drafts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{drafts.length}</p>
+            <p className="text-xs text-muted-foreground">Not yet visible to drivers</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">All Statements</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {statements.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <FileSpreadsheet className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No driver statements yet</p>
+              <p className="text-sm">Create a statement to settle a driver&apos;s completed trips for a pay period</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Statement</TableHead>
+                    <TableHead>Driver</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Trip Pay</TableHead>
+                    <TableHead className="text-right">Withheld</TableHead>
+                    <TableHead className="text-right">Net Pay</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statements.map((statement) => {
+                    const status = statusLabels[statement.status];
+                    const withheld =
+                      statement.collections + statement.advances + statement.deductions + statement.escrow_holdback;
+                    return (
+                      <TableRow key={statement.id} className={statement.status === 'void' ? 'opacity-50' : ''}>
+                        <TableCell>
+                          <Link
+                            href={`/dashboard/finance/driver-statements/${statement.id}`}
+                            className="text-primary hover:underline font-mono text-sm"
+                          >
+                            {statement.statement_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{statement.driver_name || 'Unknown'}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {formatDate(statement.period_start)} – {formatDate(statement.period_end)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(statement.gross_pay)}</TableCell>
+                        <TableCell className="text-right">
+                          {withheld > 0 ? (
+                            <span className="text-destructive">-{formatCurrency(withheld)}</span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(statement.net_pay)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
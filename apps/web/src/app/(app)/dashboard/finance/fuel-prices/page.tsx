@@ -0,0 +1,407 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import { Fuel, Trash2, Upload } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import {
+  listFuelPrices,
+  getFuelSurchargeSchedule,
+  saveFuelSurchargeSchedule,
+  saveFuelPrice,
+  importFuelPricesCsv,
+  deleteFuelPrice,
+  calculateFuelSurcharge,
+  fuelCostPerMile,
+  FUEL_SURCHARGE_METHOD_LABELS,
+  type FuelPrice,
+  type FuelSurchargeMethod,
+} from '@/data/fuel-prices';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+function formatPrice(amount: number): string {
+  return `$${amount.toFixed(3)}`;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function fuelPricesUrl(params: { error?: string | null; imported?: number }): string {
+  if (params.error) return `/dashboard/finance/fuel-prices?error=${encodeURIComponent(params.error)}`;
+  if (params.imported) return `/dashboard/finance/fuel-prices?imported=${params.imported}`;
+  return '/dashboard/finance/fuel-prices';
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+export default async function FuelPricesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string; imported?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to manage fuel prices." />;
+  }
+
+  const { error: actionError, imported } = await searchParams;
+
+  let prices: FuelPrice[] = [];
+  let error: string | null = actionError || null;
+
+  const schedule = await getFuelSurchargeSchedule(user.id);
+  try {
+    prices = await listFuelPrices(user.id);
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load fuel prices';
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const current = prices.find((p) => p.effective_date <= today) || null;
+  const currentSurcharge = current ? calculateFuelSurcharge(schedule, current.price_per_gallon, { miles: 0, linehaul: 0 }) : null;
+
+  async function scheduleAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await saveFuelSurchargeSchedule(user.id, {
+      method: ((formData.get('method') as string) || 'none') as FuelSurchargeMethod,
+      base_price: Number(formData.get('base_price')) || 0,
+      increment: Number(formData.get('increment')) || 0,
+      cents_per_mile_per_increment: Number(formData.get('cents_per_mile_per_increment')) || 0,
+      percent_per_increment: Number(formData.get('percent_per_increment')) || 0,
+      default_mpg: Number(formData.get('default_mpg')) || 0,
+    });
+    revalidatePath('/dashboard/finance/fuel-prices');
+    redirect(fuelPricesUrl({ error: result.success ? null : result.error }));
+  }
+
+  async function addPriceAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await saveFuelPrice(user.id, {
+      effectiveDate: (formData.get('effective_date') as string) || '',
+      pricePerGallon: Number(formData.get('price_per_gallon')) || 0,
+      notes: (formData.get('notes') as string) || null,
+    });
+    revalidatePath('/dashboard/finance/fuel-prices');
+    redirect(fuelPricesUrl({ error: result.success ? null : result.error }));
+  }
+
+  async function importAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      redirect(fuelPricesUrl({ error: 'Choose a CSV file to import' }));
+    }
+    const result = await importFuelPricesCsv(user.id, await file.text());
+    revalidatePath('/dashboard/finance/fuel-prices');
+    redirect(fuelPricesUrl({ error: result.success ? null : result.error, imported: result.imported }));
+  }
+
+  async function deletePriceAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await deleteFuelPrice((formData.get('price_id') as string) || '', user.id);
+    revalidatePath('/dashboard/finance/fuel-prices');
+    redirect(fuelPricesUrl({ error: result.success ? null : result.error }));
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Fuel className="h-6 w-6" />
+          Fuel Prices
+        </h1>
+        <p className="text-muted-foreground">
+          Weekly diesel prices drive the fuel surcharge on load revenue and fuel cost estimates for load matching
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+      {!error && imported && (
+        <Card className="border-emerald-500/50 bg-emerald-500/10">
+          <CardContent className="pt-6 text-sm text-emerald-700">
+            Imported {imported} weekly prices.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Current Diesel Price</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{current ? formatPrice(current.price_per_gallon) : '—'}</p>
+            <p className="text-xs text-muted-foreground">
+              {current ? `Effective ${formatDate(current.effective_date)}` : 'No price entered yet'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Current Surcharge</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {schedule.method === 'none' || !currentSurcharge
+                ? '—'
+                : schedule.method === 'cents_per_mile'
+                  ? `${currentSurcharge.rate.toFixed(2)}¢/mi`
+                  : `${currentSurcharge.rate.toFixed(2)}%`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {schedule.method === 'none'
+                ? 'Surcharge schedule is off'
+                : `${currentSurcharge?.increments ?? 0} increments above ${formatPrice(schedule.base_price)}`}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Fuel Cost per Mile</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {current ? `$${fuelCostPerMile(current.price_per_gallon, schedule.default_mpg).toFixed(2)}` : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">At {schedule.default_mpg} MPG (trucks can set their own)</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Surcharge Schedule</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form action={scheduleAction} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="method">Method</Label>
+                <select id="method" name="method" className={selectClassName} defaultValue={schedule.method}>
+                  {(Object.keys(FUEL_SURCHARGE_METHOD_LABELS) as FuelSurchargeMethod[]).map((method) => (
+                    <option key={method} value={method}>
+                      {FUEL_SURCHARGE_METHOD_LABELS[method]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="base_price">Base Price ($/gal)</Label>
+                <Input
+                  id="base_price"
+                  name="base_price"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  defaultValue={schedule.base_price}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="increment">Price Increment ($)</Label>
+                <Input
+                  id="increment"
+                  name="increment"
+                  type="number"
+                  step="0.001"
+                  min="0.001"
+                  defaultValue={schedule.increment}
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="cents_per_mile_per_increment">Cents per Mile per Increment</Label>
+                <Input
+                  id="cents_per_mile_per_increment"
+                  name="cents_per_mile_per_increment"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  defaultValue={schedule.cents_per_mile_per_increment}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="percent_per_increment">% of Linehaul per Increment</Label>
+                <Input
+                  id="percent_per_increment"
+                  name="percent_per_increment"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={schedule.percent_per_increment}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="default_mpg">Default MPG</Label>
+                <Input
+                  id="default_mpg"
+                  name="default_mpg"
+                  type="number"
+                  step="0.1"
+                  min="0.1"
+                  defaultValue={schedule.default_mpg}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Loads priced from a rate table with its own fuel surcharge percentage use that instead of this schedule.
+            </p>
+            <Button type="submit">Save Schedule</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Add Weekly Price</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form action={addPriceAction} className="space-y-4">
+              <div className="grid gap-4 grid-cols-2">
+                <div className="space-y-1.5">
+                  <Label htmlFor="effective_date">Effective Date</Label>
+                  <Input id="effective_date" name="effective_date" type="date" defaultValue={today} required />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="price_per_gallon">Price ($/gal)</Label>
+                  <Input id="price_per_gallon" name="price_per_gallon" type="number" step="0.001" min="0" required />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="notes">Notes</Label>
+                <Input id="notes" name="notes" placeholder="e.g. EIA US on-highway diesel" />
+              </div>
+              <Button type="submit">Save Price</Button>
+            </form>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Import CSV</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form action={importAction} className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="file">Price File</Label>
+                <Input id="file" name="file" type="file" accept=".csv,text/csv" required />
+                <p className="text-xs text-muted-foreground">
+                  Two columns: date and price per gallon, one week per row. Dates already on file are replaced.
+                </p>
+              </div>
+              <Button type="submit" variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Price History</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {prices.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Fuel className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No fuel prices</p>
+              <p className="text-sm">Add this week&apos;s diesel price or import a price history</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Effective</TableHead>
+                    <TableHead className="text-right">Price / Gal</TableHead>
+                    <TableHead className="text-right">Surcharge</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {prices.map((price) => {
+                    const surcharge = calculateFuelSurcharge(schedule, price.price_per_gallon, {
+                      miles: 0,
+                      linehaul: 0,
+                    });
+                    return (
+                      <TableRow key={price.id}>
+                        <TableCell>
+                          {formatDate(price.effective_date)}
+                          {price.id === current?.id && (
+                            <Badge variant="secondary" className="ml-2">
+                              Current
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatPrice(price.price_per_gallon)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {schedule.method === 'none'
+                            ? '—'
+                            : schedule.method === 'cents_per_mile'
+                              ? `${surcharge.rate.toFixed(2)}¢/mi`
+                              : `${surcharge.rate.toFixed(2)}%`}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{price.source === 'csv' ? 'CSV' : 'Manual'}</TableCell>
+                        <TableCell className="text-muted-foreground">{price.notes || ''}</TableCell>
+                        <TableCell>
+                          <form action={deletePriceAction}>
+                            <input type="hidden" name="price_id" value={price.id} />
+                            <Button type="submit" variant="ghost" size="icon" aria-label="Delete price">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </form>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { Download } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { exportIftaToCSV, exportIftaToPDF, type IftaExportData } from '@/hooks/use-export';
+import type { IftaSummaryPDFOptions } from '@/lib/export/pdf';
+
+interface IftaExportButtonsProps {
+  lines: IftaExportData[];
+  pdf: IftaSummaryPDFOptions;
+  filename: string;
+}
+
+export function IftaExportButtons({ lines, pdf, filename }: IftaExportButtonsProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" size="sm" onClick={() => exportIftaToCSV(lines, filename)} disabled={lines.length === 0}>
+        <Download className="h-4 w-4 mr-2" />
+        CSV
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => exportIftaToPDF(pdf, filename)} disabled={lines.length === 0}>
+        <Download className="h-4 w-4 mr-2" />
+        PDF
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import { AlertTriangle, Copy, Landmark, Trash2 } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import { getWorkspaceCompanyForUser } from '@/data/companies';
+import { getTrucksForUser, type Truck } from '@/data/fleet';
+import {
+  getIftaReport,
+  listIftaTaxRates,
+  saveIftaTaxRate,
+  copyPreviousQuarterIftaRates,
+  deleteIftaTaxRate,
+  formatQuarter,
+  jurisdictionName,
+  quarterOf,
+  IFTA_JURISDICTIONS,
+  type IftaReport,
+  type IftaTaxRate,
+} from '@/data/ifta';
+import { IftaExportButtons } from './_components/ifta-export-buttons';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+function formatTaxDue(amount: number): string {
+  return amount < 0 ? `(${formatCurrency(-amount)})` : formatCurrency(amount);
+}
+
+function formatNumber(value: number, digits = 0): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+function iftaUrl(params: { quarter: string; truck?: string | null; error?: string | null }): string {
+  const search = new URLSearchParams({ quarter: params.quarter });
+  if (params.truck) search.set('truck', params.truck);
+  if (params.error) search.set('error', params.error);
+  return `/dashboard/finance/ifta?${search.toString()}`;
+}
+
+function parseQuarter(value: string | undefined): { year: number; quarter: number } {
+  const match = value?.match(/^(\d{4})-([1-4])$/);
+  if (match) return { year: Number(match[1]), quarter: Number(match[2]) };
+  return quarterOf(new Date());
+}
+
+// The current quarter and the seven before it
+function recentQuarters(): { value: string; label: string }[] {
+  let { year, quarter } = quarterOf(new Date());
+  const quarters: { value: string; label: string }[] = [];
+  for (let i = 0; i < 8; i++) {
+    quarters.push({ value: `${year}-${quarter}`, label: formatQuarter(year, quarter) });
+    if (quarter === 1) {
+      year -= 1;
+      quarter = 4;
+    } else {
+      quarter -= 1;
+    }
+  }
+  return quarters;
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+export default async function IftaPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ quarter?: string; truck?: string; error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to view IFTA reports." />;
+  }
+
+  const { quarter: quarterParam, truck: truckParam, error: actionError } = await searchParams;
+  const { year, quarter } = parseQuarter(quarterParam);
+  const quarterValue = `${year}-${quarter}`;
+  const truckId = truckParam || null;
+
+  let report: IftaReport | null = null;
+  let rates: IftaTaxRate[] = [];
+  let trucks: Truck[] = [];
+  let error: string | null = actionError || null;
+
+  const company = await getWorkspaceCompanyForUser(user.id);
+  try {
+    [report, rates, trucks] = await Promise.all([
+      getIftaReport(user.id, { year, quarter, truckId }),
+      listIftaTaxRates(user.id, year, quarter),
+      getTrucksForUser(user.id),
+    ]);
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to build IFTA report';
+  }
+
+  const selectedTruck = trucks.find((truck) => truck.id === truckId) || null;
+  const quarterLabel = formatQuarter(year, quarter);
+  const scope = selectedTruck ? `Truck ${selectedTruck.unit_number || selectedTruck.id.slice(0, 8)}` : 'All trucks';
+  const estimatedMiles = report ? report.summary.lines.reduce((sum, line) => sum + line.estimated_miles, 0) : 0;
+
+  const notes: string[] = [];
+  if (report && estimatedMiles > 0) {
+    notes.push(
+      `${formatNumber(estimatedMiles)} miles were attributed from location pings with no recorded state, using the nearest state.`
+    );
+  }
+  if (report && report.incomplete_fuel.count > 0) {
+    notes.push(
+      `${report.incomplete_fuel.count} fuel expenses (${formatCurrency(report.incomplete_fuel.amount)}) are missing gallons or a purchase state and are not included.`
+    );
+  }
+  if (report && report.missing_rates.length > 0) {
+    notes.push(`No tax rate entered for: ${report.missing_rates.join(', ')}.`);
+  }
+
+  async function saveRateAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await saveIftaTaxRate(user.id, {
+      year,
+      quarter,
+      jurisdiction: (formData.get('jurisdiction') as string) || '',
+      ratePerGallon: Number(formData.get('rate_per_gallon')),
+      surchargePerGallon: Number(formData.get('surcharge_per_gallon')) || 0,
+    });
+    revalidatePath('/dashboard/finance/ifta');
+    redirect(iftaUrl({ quarter: quarterValue, truck: truckId, error: result.success ? null : result.error }));
+  }
+
+  async function copyRatesAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await copyPreviousQuarterIftaRates(user.id, year, quarter);
+    revalidatePath('/dashboard/finance/ifta');
+    redirect(iftaUrl({ quarter: quarterValue, truck: truckId, error: result.success ? null : result.error }));
+  }
+
+  async function deleteRateAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await deleteIftaTaxRate((formData.get('rate_id') as string) || '', user.id);
+    revalidatePath('/dashboard/finance/ifta');
+    redirect(iftaUrl({ quarter: quarterValue, truck: truckId, error: result.success ? null : result.error }));
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Landmark className="h-6 w-6" />
+            IFTA Fuel Tax
+          </h1>
+          <p className="text-muted-foreground">
+            Quarterly miles by jurisdiction from location history and tax-paid gallons from fuel receipts
+          </p>
+        </div>
+        {report && (
+          <IftaExportButtons
+            filename={`ifta-${year}-q${quarter}${selectedTruck ? `-${selectedTruck.unit_number || selectedTruck.id.slice(0, 8)}` : ''}`}
+            lines={report.summary.lines.map((line) => ({
+              jurisdiction: line.jurisdiction,
+              miles: line.miles,
+              taxable_gallons: line.taxable_gallons,
+              tax_paid_gallons: line.tax_paid_gallons,
+              net_taxable_gallons: line.net_taxable_gallons,
+              rate_per_gallon: line.rate_per_gallon,
+              surcharge_per_gallon: line.surcharge_per_gallon,
+              tax_due: line.tax_due,
+            }))}
+            pdf={{
+              companyName: company?.name || 'MoveBoss Pro',
+              quarterLabel,
+              period: `${report.start} - ${report.end}`,
+              scope,
+              summary: report.summary,
+              trucks: report.trucks,
+              notes,
+            }}
+          />
+        )}
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <form className="grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end">
+            <div className="space-y-1.5">
+              <Label htmlFor="quarter">Quarter</Label>
+              <select id="quarter" name="quarter" className={selectClassName} defaultValue={quarterValue}>
+                {recentQuarters().map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="truck">Truck</Label>
+              <select id="truck" name="truck" className={selectClassName} defaultValue={truckId || ''}>
+                <option value="">All trucks</option>
+                {trucks.map((truck) => (
+                  <option key={truck.id} value={truck.id}>
+                    {truck.unit_number || truck.id.slice(0, 8)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" variant="outline">
+              Show Report
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Total Miles</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">{formatNumber(report.summary.total_miles)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {report.summary.lines.filter((line) => line.miles > 0).length} jurisdictions
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Tax-Paid Gallons</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">{formatNumber(report.summary.total_gallons, 2)}</p>
+                <p className="text-xs text-muted-foreground">From fuel expenses with gallons and state</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Average MPG</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">{report.summary.mpg ? report.summary.mpg.toFixed(2) : '—'}</p>
+                <p className="text-xs text-muted-foreground">{scope}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {report.summary.total_tax_due < 0 ? 'Net Credit' : 'Net Tax Due'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p
+                  className={`text-2xl font-bold ${report.summary.total_tax_due < 0 ? 'text-emerald-600' : ''}`}
+                >
+                  {formatCurrency(Math.abs(report.summary.total_tax_due))}
+                </p>
+                <p className="text-xs text-muted-foreground">{quarterLabel}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {notes.length > 0 && (
+            <Card className="border-amber-500/50 bg-amber-500/10">
+              <CardContent className="pt-6 space-y-1 text-sm text-amber-700">
+                {notes.map((note) => (
+                  <p key={note} className="flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {note}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Jurisdiction Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {report.summary.lines.length === 0 ? (
+                <div className="p-8 text-center text-muted-foreground">
+                  <Landmark className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                  <p className="font-medium">No miles or fuel for {quarterLabel}</p>
+                  <p className="text-sm">Trips with a truck and location history in the quarter appear here</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Jurisdiction</TableHead>
+                        <TableHead className="text-right">Miles</TableHead>
+                        <TableHead className="text-right">Taxable Gal</TableHead>
+                        <TableHead className="text-right">Tax-Paid Gal</TableHead>
+                        <TableHead className="text-right">Net Taxable Gal</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead className="text-right">Tax Due / (Credit)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.summary.lines.map((line) => (
+                        <TableRow key={line.jurisdiction}>
+                          <TableCell>
+                            <span className="font-medium">{line.jurisdiction}</span>
+                            <span className="ml-2 text-muted-foreground">{jurisdictionName(line.jurisdiction)}</span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatNumber(line.miles)}
+                            {line.estimated_miles > 0 && (
+                              <span className="block text-xs text-muted-foreground">
+                                {formatNumber(line.estimated_miles)} estimated
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatNumber(line.taxable_gallons, 2)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(line.tax_paid_gallons, 2)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(line.net_taxable_gallons, 2)}</TableCell>
+                          <TableCell className="text-right">
+                            {line.rate_missing ? (
+                              <Badge variant="outline" className="text-amber-600 border-amber-500/50">
+                                Not set
+                              </Badge>
+                            ) : (
+                              <>
+                                ${line.rate_per_gallon.toFixed(4)}
+                                {line.surcharge_per_gallon > 0 && (
+                                  <span className="block text-xs text-muted-foreground">
+                                    + ${line.surcharge_per_gallon.toFixed(4)} surcharge
+                                  </span>
+                                )}
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-medium ${line.tax_due < 0 ? 'text-emerald-600' : ''}`}
+                          >
+                            {formatTaxDue(line.tax_due)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell className="font-medium">Total</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatNumber(report.summary.total_miles)}
+                        </TableCell>
+                        <TableCell />
+                        <TableCell className="text-right font-medium">
+                          {formatNumber(report.summary.total_gallons, 2)}
+                        </TableCell>
+                        <TableCell />
+                        <TableCell />
+                        <TableCell className="text-right font-medium">
+                          {formatTaxDue(report.summary.total_tax_due)}
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {report.trucks.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">By Truck</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Truck</TableHead>
+                        <TableHead className="text-right">Trips</TableHead>
+                        <TableHead className="text-right">Miles</TableHead>
+                        <TableHead className="text-right">Gallons</TableHead>
+                        <TableHead className="text-right">MPG</TableHead>
+                        <TableHead>Jurisdictions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.trucks.map((truck) => (
+                        <TableRow key={truck.truck_id}>
+                          <TableCell className="font-medium">{truck.unit_number}</TableCell>
+                          <TableCell className="text-right">{truck.trip_count}</TableCell>
+                          <TableCell className="text-right">{formatNumber(truck.miles)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(truck.gallons, 2)}</TableCell>
+                          <TableCell className="text-right">{truck.mpg ? truck.mpg.toFixed(2) : '—'}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {truck.jurisdictions
+                              .filter((line) => line.miles > 0)
+                              .map((line) => `${line.jurisdiction} ${formatNumber(line.miles)}`)
+                              .join(' · ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Tax Rates for {quarterLabel}</CardTitle>
+          <form action={copyRatesAction}>
+            <Button type="submit" variant="outline" size="sm">
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Previous Quarter
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form action={saveRateAction} className="grid gap-4 md:grid-cols-[1fr_1fr_1fr_auto] items-end">
+            <div className="space-y-1.5">
+              <Label htmlFor="jurisdiction">Jurisdiction</Label>
+              <select id="jurisdiction" name="jurisdiction" className={selectClassName} required defaultValue="">
+                <option value="" disabled>
+                  Select...
+                </option>
+                {Object.entries(IFTA_JURISDICTIONS).map(([code, name]) => (
+                  <option key={code} value={code}>
+                    {code} - {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="rate_per_gallon">Rate ($/gal)</Label>
+              <Input id="rate_per_gallon" name="rate_per_gallon" type="number" step="0.0001" min="0" required />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="surcharge_per_gallon">Surcharge ($/gal)</Label>
+              <Input id="surcharge_per_gallon" name="surcharge_per_gallon" type="number" step="0.0001" min="0" />
+            </div>
+            <Button type="submit">Save Rate</Button>
+          </form>
+          <p className="text-xs text-muted-foreground">
+            Use the diesel rates from the IFTA quarterly rate matrix. Saving a jurisdiction again replaces its rate.
+          </p>
+
+          {rates.length > 0 && (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Jurisdiction</TableHead>
+                    <TableHead className="text-right">Rate / Gal</TableHead>
+                    <TableHead className="text-right">Surcharge / Gal</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell>
+                        <span className="font-medium">{rate.jurisdiction}</span>
+                        <span className="ml-2 text-muted-foreground">{jurisdictionName(rate.jurisdiction)}</span>
+                      </TableCell>
+                      <TableCell className="text-right">${rate.rate_per_gallon.toFixed(4)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {rate.surcharge_per_gallon > 0 ? `$${rate.surcharge_per_gallon.toFixed(4)}` : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <form action={deleteRateAction}>
+                          <input type="hidden" name="rate_id" value={rate.id} />
+                          <Button type="submit" variant="ghost" size="icon" aria-label="Delete rate">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Banknote, Download, Send, Trash2, XCircle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { exportInvoiceToPDF } from '@/hooks/use-export';
+import type { InvoicePDFOptions } from '@/lib/export/pdf';
+import type { InvoiceStatus } from '@/data/invoices';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface InvoiceActionsProps {
+  status: InvoiceStatus;
+  hasPayments: boolean;
+  pdf: InvoicePDFOptions;
+  recordPaymentHref: string | null;
+  sendAction: () => Promise<ActionResult>;
+  voidAction: () => Promise<ActionResult>;
+  deleteAction: () => Promise<ActionResult>;
+}
+
+type PendingAction = 'send' | 'void' | 'delete' | null;
+
+const confirmCopy: Record<Exclude<PendingAction, null>, { title: string; description: string; label: string }> = {
+  send: {
+    title: 'Send invoice?',
+    description: 'The invoice will be locked and a receivable raised for the full amount.',
+    label: 'Send Invoice',
+  },
+  void: {
+    title: 'Void invoice?',
+    description: 'The receivable is cancelled and the loads become available to invoice again.',
+    label: 'Void Invoice',
+  },
+  delete: {
+    title: 'Delete draft?',
+    description: 'The draft is removed and its loads become available to invoice again.',
+    label: 'Delete Draft',
+  },
+};
+
+export function InvoiceActions({
+  status,
+  hasPayments,
+  pdf,
+  recordPaymentHref,
+  sendAction,
+  voidAction,
+  deleteAction,
+}: InvoiceActionsProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [pending, setPending] = useState<PendingAction>(null);
+
+  const run = () => {
+    const action = pending;
+    if (!action) return;
+
+    const handlers: Record<Exclude<PendingAction, null>, () => Promise<ActionResult>> = {
+      send: sendAction,
+      void: voidAction,
+      delete: deleteAction,
+    };
+
+    startTransition(async () => {
+      const result = await handlers[action]();
+      setPending(null);
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error || 'Action failed.',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => exportInvoiceToPDF(pdf)}>
+          <Download className="h-4 w-4 mr-2" />
+          PDF
+        </Button>
+        {status === 'draft' && (
+          <>
+            <Button size="sm" onClick={() => setPending('send')} disabled={isPending}>
+              <Send className="h-4 w-4 mr-2" />
+              Send
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPending('delete')} disabled={isPending}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </>
+        )}
+        {recordPaymentHref && (
+          <Button size="sm" asChild>
+            <Link href={recordPaymentHref}>
+              <Banknote className="h-4 w-4 mr-2" />
+              Record Payment
+            </Link>
+          </Button>
+        )}
+        {status !== 'draft' && status !== 'void' && !hasPayments && (
+          <Button variant="outline" size="sm" onClick={() => setPending('void')} disabled={isPending}>
+            <XCircle className="h-4 w-4 mr-2" />
+            Void
+          </Button>
+        )}
+      </div>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        {pending && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{confirmCopy[pending].title}</AlertDialogTitle>
+              <AlertDialogDescription>{confirmCopy[pending].description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={run} disabled={isPending}>
+                {confirmCopy[pending].label}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,281 @@
+import { notFound, redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, FileText } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import {
+  getInvoiceById,
+  sendInvoice,
+  voidInvoice,
+  deleteDraftInvoice,
+  type InvoiceStatus,
+} from '@/data/invoices';
+import { getCompanyById, getWorkspaceCompanyForUser } from '@/data/companies';
+import { getOpenReceivables } from '@/data/payments';
+import type { InvoicePDFOptions } from '@/lib/export/pdf';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { InvoiceActions } from './_components/invoice-actions';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function joinAddress(parts: (string | null | undefined)[]): string | null {
+  const filtered = parts.filter(Boolean);
+  return filtered.length > 0 ? filtered.join(', ') : null;
+}
+
+const statusLabels: Record<InvoiceStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  sent: { label: 'Sent', variant: 'secondary' },
+  partially_paid: { label: 'Partially Paid', variant: 'outline' },
+  paid: { label: 'Paid', variant: 'default' },
+  void: { label: 'Void', variant: 'destructive' },
+};
+
+export default async function InvoiceDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const invoice = await getInvoiceById(id, user.id);
+  if (!invoice) notFound();
+
+  const [workspaceCompany, billToCompany, openReceivables] = await Promise.all([
+    getWorkspaceCompanyForUser(user.id),
+    getCompanyById(invoice.company_id, user.id),
+    getOpenReceivables(user.id, invoice.company_id),
+  ]);
+  const openReceivable = openReceivables.find((r) => r.invoice_id === invoice.id) || null;
+
+  async function sendAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await sendInvoice(id, user.id);
+    revalidatePath(`/dashboard/finance/invoices/${id}`);
+    revalidatePath('/dashboard/finance/receivables');
+    return result;
+  }
+
+  async function voidAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await voidInvoice(id, user.id);
+    revalidatePath(`/dashboard/finance/invoices/${id}`);
+    revalidatePath('/dashboard/finance/receivables');
+    return result;
+  }
+
+  async function deleteAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await deleteDraftInvoice(id, user.id);
+    if (result.success) {
+      revalidatePath('/dashboard/finance/receivables');
+      redirect('/dashboard/finance/receivables');
+    }
+    return result;
+  }
+
+  const pdf: InvoicePDFOptions = {
+    invoice: {
+      invoice_number: invoice.invoice_number,
+      status: invoice.status,
+      issue_date: invoice.issue_date,
+      due_date: invoice.due_date,
+      payment_terms: invoice.payment_terms,
+      total_amount: invoice.total_amount,
+      amount_paid: invoice.amount_paid,
+      balance_due: invoice.balance_due,
+      notes: invoice.notes,
+    },
+    from: {
+      name: workspaceCompany?.name || 'Your Company',
+      address: workspaceCompany
+        ? joinAddress([
+            workspaceCompany.street || workspaceCompany.address_line1,
+            workspaceCompany.city,
+            workspaceCompany.state,
+            workspaceCompany.postal_code,
+          ])
+        : null,
+      phone: workspaceCompany?.phone || workspaceCompany?.primary_contact_phone || null,
+      email: workspaceCompany?.email || workspaceCompany?.primary_contact_email || null,
+      mc_number: workspaceCompany?.mc_number || null,
+    },
+    billTo: {
+      name: billToCompany?.name || invoice.company?.name || 'Unknown Company',
+      address: billToCompany
+        ? joinAddress([
+            billToCompany.billing_street || billToCompany.street,
+            billToCompany.billing_city || billToCompany.city,
+            billToCompany.billing_state || billToCompany.state,
+            billToCompany.billing_postal_code || billToCompany.postal_code,
+          ])
+        : null,
+    },
+    lineItems: invoice.line_items.map((li) => ({
+      load_number: li.load_number || null,
+      description: li.description,
+      quantity: li.quantity,
+      unit_price: li.unit_price,
+      amount: li.amount,
+    })),
+  };
+
+  const status = statusLabels[invoice.status] || statusLabels.sent;
+
+  return (
+    <div className="container max-w-5xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/receivables">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Receivables
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <FileText className="h-6 w-6" />
+            {invoice.invoice_number}
+            <Badge variant={status.variant}>{status.label}</Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {invoice.company?.name || 'Unknown Company'} &middot; {invoice.payment_terms.replace(/_/g, ' ')}
+          </p>
+        </div>
+        <InvoiceActions
+          status={invoice.status}
+          hasPayments={invoice.amount_paid > 0}
+          pdf={pdf}
+          recordPaymentHref={
+            openReceivable
+              ? `/dashboard/finance/payments/new?company=${invoice.company_id}&receivable=${openReceivable.id}`
+              : null
+          }
+          sendAction={sendAction}
+          voidAction={voidAction}
+          deleteAction={deleteAction}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(invoice.total_amount)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Paid</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">{formatCurrency(invoice.amount_paid)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Balance Due</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-amber-600">{formatCurrency(invoice.balance_due)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Due Date</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatDate(invoice.due_date)}</p>
+            <p className="text-xs text-muted-foreground">Issued {formatDate(invoice.issue_date)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Line Items</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Load</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoice.line_items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    {item.load_id ? (
+                      <Link href={`/dashboard/loads/${item.load_id}`} className="text-primary hover:underline">
+                        {item.load_number || 'View Load'}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(item.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {(invoice.notes || invoice.void_reason) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {invoice.notes && <p className="whitespace-pre-wrap">{invoice.notes}</p>}
+            {invoice.void_reason && (
+              <p className="text-destructive">Void reason: {invoice.void_reason}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, Building2, FileText } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import {
+  createInvoiceFromLoads,
+  getCompaniesWithInvoiceableLoads,
+  getInvoiceableLoads,
+  getPartnerPaymentTerms,
+  calculateInvoiceDueDate,
+} from '@/data/invoices';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+export default async function NewInvoicePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ company?: string; error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to create invoices." />;
+  }
+
+  const { company: companyId, error } = await searchParams;
+  const companies = await getCompaniesWithInvoiceableLoads(user.id);
+  const selectedCompany = companies.find((c) => c.company_id === companyId) || null;
+
+  const loads = selectedCompany ? await getInvoiceableLoads(selectedCompany.company_id, user.id) : [];
+  const today = new Date().toISOString().split('T')[0];
+  const paymentTerms = selectedCompany ? await getPartnerPaymentTerms(selectedCompany.company_id, user.id) : null;
+
+  async function createAction(formData: FormData) {
+    'use server';
+
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+
+    const companyId = formData.get('company_id') as string;
+    const loadIds = formData.getAll('load_ids').map(String);
+
+    const result = await createInvoiceFromLoads(user.id, {
+      companyId,
+      loadIds,
+      issueDate: (formData.get('issue_date') as string) || undefined,
+      notes: (formData.get('notes') as string) || null,
+    });
+
+    if (!result.success || !result.id) {
+      redirect(
+        `/dashboard/finance/invoices/new?company=${companyId}&error=${encodeURIComponent(result.error || 'Failed to create invoice')}`
+      );
+    }
+
+    revalidatePath('/dashboard/finance/receivables');
+    redirect(`/dashboard/finance/invoices/${result.id}`);
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/receivables">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Receivables
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <FileText className="h-6 w-6" />
+          New Invoice
+        </h1>
+        <p className="text-muted-foreground">
+          Bill one or more delivered loads to a partner company
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">1. Choose a company</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {companies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No delivered loads are waiting to be invoiced.
+            </p>
+          ) : (
+            <div className="grid gap-3 md:grid-cols-2">
+              {companies.map((company) => (
+                <Link
+                  key={company.company_id}
+                  href={`/dashboard/finance/invoices/new?company=${company.company_id}`}
+                  className={`flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 ${
+                    company.company_id === selectedCompany?.company_id ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Building2 className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">{company.company_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {company.load_count} delivered load{company.load_count !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-sm font-medium">{formatCurrency(company.total)}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedCompany && (
+        <form action={createAction}>
+          <input type="hidden" name="company_id" value={selectedCompany.company_id} />
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">2. Select loads for {selectedCompany.company_name}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Payment terms: {(paymentTerms || 'net_30').replace(/_/g, ' ')} &middot; due{' '}
+                {calculateInvoiceDueDate(today, paymentTerms)} if issued today
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="divide-y border rounded-lg">
+                {loads.map((load) => (
+                  <label
+                    key={load.id}
+                    htmlFor={`load-${load.id}`}
+                    className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50"
+                  >
+                    <input
+                      type="checkbox"
+                      id={`load-${load.id}`}
+                      name="load_ids"
+                      value={load.id}
+                      defaultChecked
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <div className="flex-1">
+                      <p className="font-medium">{load.load_number || load.internal_reference || 'Load'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[load.pickup_city, load.pickup_state].filter(Boolean).join(', ') || '—'} →{' '}
+                        {[load.delivery_city, load.delivery_state].filter(Boolean).join(', ') || '—'}
+                        {load.actual_cuft_loaded ? ` · ${load.actual_cuft_loaded} cuft` : ''}
+                      </p>
+                    </div>
+                    <span className="text-sm font-medium">{formatCurrency(load.company_owes)}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="issue_date">Issue Date</Label>
+                  <Input id="issue_date" name="issue_date" type="date" defaultValue={today} />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  name="notes"
+                  rows={3}
+                  placeholder="Remittance instructions or notes printed on the invoice"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit">Create Draft Invoice</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+      )}
+    </div>
+  );
+}
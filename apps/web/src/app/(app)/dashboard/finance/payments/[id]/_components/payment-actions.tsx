@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { ArrowRightLeft, XCircle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface PaymentActionsProps {
+  status: 'active' | 'void';
+  canApplyCredit: boolean;
+  applyCreditAction: () => Promise<ActionResult>;
+  voidAction: () => Promise<ActionResult>;
+}
+
+type PendingAction = 'apply' | 'void' | null;
+
+const confirmCopy: Record<Exclude<PendingAction, null>, { title: string; description: string; label: string }> = {
+  apply: {
+    title: 'Apply credit?',
+    description: 'The unapplied amount will be applied to this company\'s open receivables, oldest first.',
+    label: 'Apply Credit',
+  },
+  void: {
+    title: 'Void payment?',
+    description: 'All applications are removed and the receivables it paid are reopened.',
+    label: 'Void Payment',
+  },
+};
+
+export function PaymentActions({ status, canApplyCredit, applyCreditAction, voidAction }: PaymentActionsProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [pending, setPending] = useState<PendingAction>(null);
+
+  const run = () => {
+    const action = pending;
+    if (!action) return;
+
+    startTransition(async () => {
+      const result = await (action === 'apply' ? applyCreditAction() : voidAction());
+      setPending(null);
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error || 'Action failed.',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  if (status === 'void') return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {canApplyCredit && (
+          <Button size="sm" onClick={() => setPending('apply')} disabled={isPending}>
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Apply Credit
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setPending('void')} disabled={isPending}>
+          <XCircle className="h-4 w-4 mr-2" />
+          Void
+        </Button>
+      </div>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        {pending && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{confirmCopy[pending].title}</AlertDialogTitle>
+              <AlertDialogDescription>{confirmCopy[pending].description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={run} disabled={isPending}>
+                {confirmCopy[pending].label}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+import { notFound, redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, Banknote } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import {
+  getPaymentById,
+  getOpenReceivables,
+  applyPaymentCredit,
+  voidPayment,
+  PAYMENT_METHOD_LABELS,
+} from '@/data/payments';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PaymentActions } from './_components/payment-actions';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default async function PaymentDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const payment = await getPaymentById(id, user.id);
+  if (!payment) notFound();
+
+  const openReceivables =
+    payment.status === 'active' && payment.unapplied_amount > 0
+      ? await getOpenReceivables(user.id, payment.company_id)
+      : [];
+
+  const companyId = payment.company_id;
+
+  async function applyCreditAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await applyPaymentCredit(id, user.id);
+    revalidatePath(`/dashboard/finance/payments/${id}`);
+    revalidatePath('/dashboard/finance/payments');
+    revalidatePath('/dashboard/finance/receivables');
+    revalidatePath(`/dashboard/companies/${companyId}/ledger`);
+    return result;
+  }
+
+  async function voidAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await voidPayment(id, user.id);
+    revalidatePath(`/dashboard/finance/payments/${id}`);
+    revalidatePath('/dashboard/finance/payments');
+    revalidatePath('/dashboard/finance/receivables');
+    revalidatePath(`/dashboard/companies/${companyId}/ledger`);
+    return result;
+  }
+
+  return (
+    <div className="container max-w-5xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/payments">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Payments
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Banknote className="h-6 w-6" />
+            {formatCurrency(payment.amount)}
+            {payment.status === 'void' && <Badge variant="destructive">Void</Badge>}
+          </h1>
+          <p className="text-muted-foreground">
+            <Link href={`/dashboard/companies/${payment.company_id}/ledger`} className="hover:underline">
+              {payment.company_name || 'Unknown Company'}
+            </Link>{' '}
+            &middot; {PAYMENT_METHOD_LABELS[payment.payment_method]}
+            {payment.reference_number ? ` #${payment.reference_number}` : ''} &middot;{' '}
+            {formatDate(payment.payment_date)}
+          </p>
+        </div>
+        <PaymentActions
+          status={payment.status}
+          canApplyCredit={payment.unapplied_amount > 0 && openReceivables.length > 0}
+          applyCreditAction={applyCreditAction}
+          voidAction={voidAction}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Amount</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(payment.amount)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Applied</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">{formatCurrency(payment.amount_applied)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Unapplied Credit</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-blue-600">{formatCurrency(payment.unapplied_amount)}</p>
+            {openReceivables.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {openReceivables.length} open receivable{openReceivables.length !== 1 ? 's' : ''} for this company
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Applied To</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {payment.applications.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">
+              {payment.status === 'void'
+                ? 'This payment was voided and its applications removed.'
+                : 'Not applied to any receivable yet.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receivable</TableHead>
+                  <TableHead className="text-right">Amount Applied</TableHead>
+                  <TableHead className="text-right">Applied On</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payment.applications.map((application) => (
+                  <TableRow key={application.id}>
+                    <TableCell>
+                      {application.invoice_id ? (
+                        <Link
+                          href={`/dashboard/finance/invoices/${application.invoice_id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {application.invoice_number || 'Invoice'}
+                        </Link>
+                      ) : (
+                        application.trip_number || application.reference || 'Receivable'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(application.amount)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatDate(application.created_at)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {payment.notes && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm whitespace-pre-wrap">{payment.notes}</CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, Banknote, Building2 } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import { getCompanyById } from '@/data/companies';
+import {
+  getOpenReceivables,
+  recordPayment,
+  PAYMENT_METHOD_LABELS,
+  type PaymentMethod,
+  type PaymentApplicationInput,
+} from '@/data/payments';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string | null): string {
+  if (!dateString) return 'No due date';
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default async function NewPaymentPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ company?: string; receivable?: string; error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to record payments." />;
+  }
+
+  const { company: companyId, receivable: receivableId, error } = await searchParams;
+  const allOpen = await getOpenReceivables(user.id);
+
+  // Companies with something outstanding, largest balance first
+  const byCompany = new Map<string, { company_id: string; company_name: string; balance: number; count: number }>();
+  allOpen.forEach((r) => {
+    const existing = byCompany.get(r.company_id) || {
+      company_id: r.company_id,
+      company_name: r.company_name || 'Unknown Company',
+      balance: 0,
+      count: 0,
+    };
+    existing.balance += r.balance;
+    existing.count += 1;
+    byCompany.set(r.company_id, existing);
+  });
+  const companies = Array.from(byCompany.values()).sort((a, b) => b.balance - a.balance);
+
+  // A company without open receivables can still pay in advance (recorded as credit)
+  let selectedCompany = companies.find((c) => c.company_id === companyId) || null;
+  if (!selectedCompany && companyId) {
+    const company = await getCompanyById(companyId, user.id);
+    if (company) {
+      selectedCompany = { company_id: company.id, company_name: company.name, balance: 0, count: 0 };
+    }
+  }
+
+  const receivables = selectedCompany ? allOpen.filter((r) => r.company_id === selectedCompany.company_id) : [];
+  const preselected = receivables.find((r) => r.id === receivableId) || null;
+  const today = new Date().toISOString().split('T')[0];
+
+  async function recordAction(formData: FormData) {
+    'use server';
+
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+
+    const companyId = formData.get('company_id') as string;
+    const applications: PaymentApplicationInput[] = [];
+    formData.forEach((value, key) => {
+      if (!key.startsWith('apply_')) return;
+      const amount = Number(value);
+      if (amount > 0) {
+        applications.push({ receivableId: key.replace('apply_', ''), amount });
+      }
+    });
+
+    const result = await recordPayment(user.id, {
+      companyId,
+      amount: Number(formData.get('amount')) || 0,
+      paymentDate: (formData.get('payment_date') as string) || undefined,
+      paymentMethod: ((formData.get('payment_method') as string) || 'check') as PaymentMethod,
+      referenceNumber: (formData.get('reference_number') as string) || null,
+      notes: (formData.get('notes') as string) || null,
+      applications,
+    });
+
+    if (!result.success || !result.id) {
+      redirect(
+        `/dashboard/finance/payments/new?company=${companyId}&error=${encodeURIComponent(result.error || 'Failed to record payment')}`
+      );
+    }
+
+    revalidatePath('/dashboard/finance/payments');
+    revalidatePath('/dashboard/finance/receivables');
+    revalidatePath(`/dashboard/companies/${companyId}/ledger`);
+    redirect(`/dashboard/finance/payments/${result.id}`);
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/payments">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Payments
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Banknote className="h-6 w-6" />
+          Record Payment
+        </h1>
+        <p className="text-muted-foreground">
+          Record money received from a partner and apply it to open receivables
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">1. Who paid?</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {companies.length === 0 && !selectedCompany ? (
+            <p className="text-sm text-muted-foreground">
+              No companies have open receivables.
+            </p>
+          ) : (
+            <div className="grid gap-3 md:grid-cols-2">
+              {(selectedCompany && !byCompany.has(selectedCompany.company_id)
+                ? [selectedCompany, ...companies]
+                : companies
+              ).map((company) => (
+                <Link
+                  key={company.company_id}
+                  href={`/dashboard/finance/payments/new?company=${company.company_id}`}
+                  className={`flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 ${
+                    company.company_id === selectedCompany?.company_id ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Building2 className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">{company.company_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {company.count} open receivable{company.count !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-sm font-medium">{formatCurrency(company.balance)}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedCompany && (
+        <form action={recordAction}>
+          <input type="hidden" name="company_id" value={selectedCompany.company_id} />
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">2. Payment from {selectedCompany.company_name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="amount">Amount</Label>
+                  <Input
+                    id="amount"
+                    name="amount"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    required
+                    defaultValue={preselected ? preselected.balance.toFixed(2) : undefined}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="payment_date">Payment Date</Label>
+                  <Input id="payment_date" name="payment_date" type="date" defaultValue={today} />
+                </div>
+                <div>
+                  <Label htmlFor="payment_method">Method</Label>
+                  <select
+                    id="payment_method"
+                    name="payment_method"
+                    defaultValue="check"
+                    className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  >
+                    {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                      <option key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="reference_number">Reference #</Label>
+                  <Input
+                    id="reference_number"
+                    name="reference_number"
+                    placeholder="Check number, ACH trace, Zelle confirmation"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Apply to receivables</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Leave every amount blank to apply the payment oldest first. Anything not applied is kept as a credit.
+                </p>
+                {receivables.length === 0 ? (
+                  <p className="text-sm text-muted-foreground border rounded-lg p-3">
+                    No open receivables - the full payment will be kept as a credit.
+                  </p>
+                ) : (
+                  <div className="divide-y border rounded-lg">
+                    {receivables.map((r) => (
+                      <div key={r.id} className="flex items-center gap-3 p-3">
+                        <div className="flex-1">
+                          <p className="font-medium">
+                            {r.invoice_number || r.trip_number || r.reference || 'Receivable'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Due {formatDate(r.due_date)} &middot; {formatCurrency(r.balance)} of{' '}
+                            {formatCurrency(r.amount)} open
+                          </p>
+                        </div>
+                        <Input
+                          name={`apply_${r.id}`}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={r.balance}
+                          placeholder="0.00"
+                          defaultValue={preselected?.id === r.id ? r.balance.toFixed(2) : undefined}
+                          className="w-32 text-right"
+                          aria-label={`Amount to apply to ${r.invoice_number || r.reference || 'receivable'}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea id="notes" name="notes" rows={2} placeholder="Short-pay reason or other notes" />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit">Record Payment</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+      )}
+    </div>
+  );
+}
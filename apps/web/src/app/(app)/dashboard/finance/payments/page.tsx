@@ -0,0 +1,190 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Banknote, Plus } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import { listPayments, PAYMENT_METHOD_LABELS, type Payment } from '@/data/payments';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default async function PaymentsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  let payments: Payment[] = [];
+  let error: string | null = null;
+
+  try {
+    payments = await listPayments({ ownerId: user.id, includeVoid: true });
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load payments';
+  }
+
+  const active = payments.filter((p) => p.status === 'active');
+  const monthStart = new Date().toISOString().slice(0, 7);
+  const receivedThisMonth = active
+    .filter((p) => p.payment_date.startsWith(monthStart))
+    .reduce((sum, p) => sum + p.amount, 0);
+  const totalApplied = active.reduce((sum, p) => sum + p.amount_applied, 0);
+  const totalCredit = active.reduce((sum, p) => sum + p.unapplied_amount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Banknote className="h-6 w-6" />
+            Payments
+          </h1>
+          <p className="text-muted-foreground">
+            Money received from partner companies and how it was applied
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/finance/payments/new">
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Received This Month
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">
+              {formatCurrency(receivedThisMonth)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Applied to Receivables
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(totalApplied)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Unapplied Credits
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-blue-600">{formatCurrency(totalCredit)}</p>
+            <p className="text-xs text-muted-foreground">
+              Overpayments waiting to be applied
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">All Payments</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {payments.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Banknote className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No payments recorded</p>
+              <p className="text-sm">Record a payment when a partner pays an invoice</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Unapplied</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.map((payment) => (
+                    <TableRow key={payment.id} className={payment.status === 'void' ? 'opacity-50' : ''}>
+                      <TableCell>
+                        <Link
+                          href={`/dashboard/finance/payments/${payment.id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {formatDate(payment.payment_date)}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{payment.company_name || 'Unknown'}</TableCell>
+                      <TableCell>
+                        {PAYMENT_METHOD_LABELS[payment.payment_method] || payment.payment_method}
+                        {payment.status === 'void' && (
+                          <Badge variant="destructive" className="ml-2">Void</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{payment.reference_number || '—'}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(payment.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {payment.unapplied_amount > 0 ? (
+                          <span className="text-blue-600 font-medium">
+                            {formatCurrency(payment.unapplied_amount)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface RateTableActionsProps {
+  name: string;
+  deleteAction: () => Promise<ActionResult>;
+}
+
+export function RateTableActions({ name, deleteAction }: RateTableActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteAction();
+      setOpen(false);
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to delete rate table.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({ title: 'Rate table deleted' });
+      router.push('/dashboard/finance/rate-tables');
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} disabled={isPending}>
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete
+      </Button>
+
+      <AlertDialog open={open} onOpenChange={setOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its rules are deleted too. Loads already priced from this table keep their rate and the rule text
+              they were quoted with.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isPending}>
+              {isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
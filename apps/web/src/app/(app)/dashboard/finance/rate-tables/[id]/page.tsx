@@ -0,0 +1,392 @@
+import { notFound, redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, Calculator, Trash2 } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import { getCompaniesForUser } from '@/data/companies';
+import {
+  getRateTableById,
+  updateRateTable,
+  deleteRateTable,
+  addRateTableRule,
+  deleteRateTableRule,
+  describeRateRule,
+  RATE_PRICING_BASIS_LABELS,
+  type RatePricingBasis,
+} from '@/data/rate-tables';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RateTableActions } from './_components/rate-table-actions';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function rateTableUrl(id: string, error?: string | null): string {
+  return error
+    ? `/dashboard/finance/rate-tables/${id}?error=${encodeURIComponent(error)}`
+    : `/dashboard/finance/rate-tables/${id}`;
+}
+
+function optionalNumber(value: FormDataEntryValue | null): number | null {
+  return typeof value === 'string' && value !== '' ? Number(value) : null;
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+export default async function RateTableDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { id } = await params;
+  const { error } = await searchParams;
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to manage rate tables." />;
+  }
+
+  const [table, companies] = await Promise.all([getRateTableById(id, user.id), getCompaniesForUser(user.id)]);
+  if (!table) notFound();
+
+  const basis = table.pricing_basis;
+
+  async function updateAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await updateRateTable(id, user.id, {
+      name: (formData.get('name') as string) || '',
+      companyId: (formData.get('company_id') as string) || null,
+      pricingBasis: ((formData.get('pricing_basis') as string) || 'cuft_band') as RatePricingBasis,
+      minimumCharge: Number(formData.get('minimum_charge')) || 0,
+      fuelSurchargePercent: Number(formData.get('fuel_surcharge_percent')) || 0,
+      stairsPerFlight: Number(formData.get('stairs_per_flight')) || 0,
+      longCarryPer50ft: Number(formData.get('long_carry_per_50ft')) || 0,
+      shuttleCharge: Number(formData.get('shuttle_charge')) || 0,
+      notes: (formData.get('notes') as string) || null,
+      isActive: formData.get('is_active') === 'on',
+    });
+    revalidatePath(`/dashboard/finance/rate-tables/${id}`);
+    revalidatePath('/dashboard/finance/rate-tables');
+    redirect(rateTableUrl(id, result.success ? null : result.error));
+  }
+
+  async function addRuleAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await addRateTableRule(id, user.id, {
+      minCuft: optionalNumber(formData.get('min_cuft')),
+      maxCuft: optionalNumber(formData.get('max_cuft')),
+      minMiles: optionalNumber(formData.get('min_miles')),
+      maxMiles: optionalNumber(formData.get('max_miles')),
+      originState: (formData.get('origin_state') as string) || null,
+      destinationState: (formData.get('destination_state') as string) || null,
+      ratePerCuft: optionalNumber(formData.get('rate_per_cuft')) ?? -1,
+      minimumCharge: optionalNumber(formData.get('minimum_charge')),
+    });
+    revalidatePath(`/dashboard/finance/rate-tables/${id}`);
+    redirect(rateTableUrl(id, result.success ? null : result.error));
+  }
+
+  async function deleteRuleAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await deleteRateTableRule((formData.get('rule_id') as string) || '', user.id);
+    revalidatePath(`/dashboard/finance/rate-tables/${id}`);
+    redirect(rateTableUrl(id, result.success ? null : result.error));
+  }
+
+  async function deleteAction() {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await deleteRateTable(id, user.id);
+    revalidatePath('/dashboard/finance/rate-tables');
+    return result;
+  }
+
+  return (
+    <div className="container max-w-5xl py-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/finance/rate-tables">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Rate Tables
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Calculator className="h-6 w-6" />
+            {table.name}
+            <Badge variant={table.is_active ? 'default' : 'secondary'}>
+              {table.is_active ? 'Active' : 'Inactive'}
+            </Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {table.company_id ? `Rate table for ${table.company_name}` : 'Default tariff'} &middot; Priced by{' '}
+            {RATE_PRICING_BASIS_LABELS[basis].toLowerCase()}
+          </p>
+        </div>
+        <RateTableActions name={table.name} deleteAction={deleteAction} />
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {table.rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Loads can&apos;t be priced from this table until a rule covers them.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{basis === 'lane' ? 'Lane' : 'Band'}</TableHead>
+                    <TableHead className="text-right">Rate / CuFt</TableHead>
+                    <TableHead className="text-right">Minimum</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{describeRateRule(basis, rule)}</TableCell>
+                      <TableCell className="text-right">${rule.rate_per_cuft.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {rule.minimum_charge !== null ? (
+                          formatCurrency(rule.minimum_charge)
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {formatCurrency(table.minimum_charge)} (table)
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <form action={deleteRuleAction}>
+                          <input type="hidden" name="rule_id" value={rule.id} />
+                          <Button type="submit" variant="ghost" size="icon" aria-label="Delete rule">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <form action={addRuleAction} className="grid gap-4 md:grid-cols-5 items-end">
+            {basis === 'cuft_band' && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="min_cuft">From CuFt</Label>
+                  <Input id="min_cuft" name="min_cuft" type="number" min="0" defaultValue="0" required />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="max_cuft">To CuFt</Label>
+                  <Input id="max_cuft" name="max_cuft" type="number" min="0" placeholder="No limit" />
+                </div>
+              </>
+            )}
+            {basis === 'mileage_band' && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="min_miles">From Miles</Label>
+                  <Input id="min_miles" name="min_miles" type="number" min="0" defaultValue="0" required />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="max_miles">To Miles</Label>
+                  <Input id="max_miles" name="max_miles" type="number" min="0" placeholder="No limit" />
+                </div>
+              </>
+            )}
+            {basis === 'lane' && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="origin_state">Origin State</Label>
+                  <Input id="origin_state" name="origin_state" maxLength={2} placeholder="Any" />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="destination_state">Destination State</Label>
+                  <Input id="destination_state" name="destination_state" maxLength={2} placeholder="Any" />
+                </div>
+              </>
+            )}
+            <div className="space-y-1.5">
+              <Label htmlFor="rate_per_cuft">Rate / CuFt</Label>
+              <Input id="rate_per_cuft" name="rate_per_cuft" type="number" step="0.01" min="0" required />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="rule_minimum_charge">Minimum</Label>
+              <Input
+                id="rule_minimum_charge"
+                name="minimum_charge"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Table minimum"
+              />
+            </div>
+            <Button type="submit">Add Rule</Button>
+          </form>
+          <p className="text-xs text-muted-foreground">
+            {basis === 'lane'
+              ? 'Leave a state blank to match any state. An exact lane wins over a partial one.'
+              : 'Bands include the lower bound and stop just below the upper bound.'}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Settings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form action={updateAction} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" required defaultValue={table.name} />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="company_id">Applies To</Label>
+                <select id="company_id" name="company_id" className={selectClassName} defaultValue={table.company_id || ''}>
+                  <option value="">Default tariff (all other partners)</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pricing_basis">Priced By</Label>
+                <select id="pricing_basis" name="pricing_basis" className={selectClassName} defaultValue={basis}>
+                  {(Object.keys(RATE_PRICING_BASIS_LABELS) as RatePricingBasis[]).map((option) => (
+                    <option key={option} value={option}>
+                      {RATE_PRICING_BASIS_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-5">
+              <div className="space-y-1.5">
+                <Label htmlFor="minimum_charge">Minimum Charge</Label>
+                <Input
+                  id="minimum_charge"
+                  name="minimum_charge"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={table.minimum_charge}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="fuel_surcharge_percent">Fuel Surcharge %</Label>
+                <Input
+                  id="fuel_surcharge_percent"
+                  name="fuel_surcharge_percent"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={table.fuel_surcharge_percent}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="stairs_per_flight">Stairs / Flight</Label>
+                <Input
+                  id="stairs_per_flight"
+                  name="stairs_per_flight"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={table.stairs_per_flight}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="long_carry_per_50ft">Long Carry / 50 ft</Label>
+                <Input
+                  id="long_carry_per_50ft"
+                  name="long_carry_per_50ft"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={table.long_carry_per_50ft}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="shuttle_charge">Shuttle</Label>
+                <Input
+                  id="shuttle_charge"
+                  name="shuttle_charge"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={table.shuttle_charge}
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea id="notes" name="notes" rows={2} defaultValue={table.notes || ''} />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" name="is_active" defaultChecked={table.is_active} />
+              Active &mdash; used to price new loads
+            </label>
+            {table.rules.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Changing how the table is priced leaves existing rules in place; remove rules that no longer apply.
+              </p>
+            )}
+            <Button type="submit">Save Settings</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
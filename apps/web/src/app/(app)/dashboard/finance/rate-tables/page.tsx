@@ -0,0 +1,241 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { Calculator } from 'lucide-react';
+
+import { getCurrentUser, getCurrentUserPermissions } from '@/lib/supabase-server';
+import { AccessDenied } from '@/components/access-denied';
+import { getCompaniesForUser } from '@/data/companies';
+import {
+  listRateTables,
+  createRateTable,
+  RATE_PRICING_BASIS_LABELS,
+  type RatePricingBasis,
+  type RateTable,
+} from '@/data/rate-tables';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+export default async function RateTablesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const permissions = await getCurrentUserPermissions();
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to manage rate tables." />;
+  }
+
+  const { error: actionError } = await searchParams;
+
+  let tables: RateTable[] = [];
+  let error: string | null = actionError || null;
+
+  const companies = await getCompaniesForUser(user.id);
+  try {
+    tables = await listRateTables(user.id);
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load rate tables';
+  }
+
+  async function createAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await createRateTable(user.id, {
+      name: (formData.get('name') as string) || '',
+      companyId: (formData.get('company_id') as string) || null,
+      pricingBasis: ((formData.get('pricing_basis') as string) || 'cuft_band') as RatePricingBasis,
+      minimumCharge: Number(formData.get('minimum_charge')) || 0,
+      fuelSurchargePercent: Number(formData.get('fuel_surcharge_percent')) || 0,
+      stairsPerFlight: Number(formData.get('stairs_per_flight')) || 0,
+      longCarryPer50ft: Number(formData.get('long_carry_per_50ft')) || 0,
+      shuttleCharge: Number(formData.get('shuttle_charge')) || 0,
+    });
+    revalidatePath('/dashboard/finance/rate-tables');
+    if (!result.success || !result.id) {
+      redirect(`/dashboard/finance/rate-tables?error=${encodeURIComponent(result.error || 'Failed to create rate table')}`);
+    }
+    redirect(`/dashboard/finance/rate-tables/${result.id}`);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Calculator className="h-6 w-6" />
+          Rate Tables
+        </h1>
+        <p className="text-muted-foreground">
+          Tariffs that price new loads by cubic feet, mileage or state lane. Partners without their own table use
+          the default tariff.
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Tables</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {tables.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Calculator className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No rate tables</p>
+              <p className="text-sm">Create a default tariff below to start auto-pricing loads</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Priced By</TableHead>
+                    <TableHead className="text-right">Minimum</TableHead>
+                    <TableHead className="text-right">Fuel Surcharge</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tables.map((table) => (
+                    <TableRow key={table.id}>
+                      <TableCell>
+                        <Link
+                          href={`/dashboard/finance/rate-tables/${table.id}`}
+                          className="text-primary hover:underline font-medium"
+                        >
+                          {table.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {table.company_id ? table.company_name : <span className="text-muted-foreground">Default tariff</span>}
+                      </TableCell>
+                      <TableCell>{RATE_PRICING_BASIS_LABELS[table.pricing_basis]}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(table.minimum_charge)}</TableCell>
+                      <TableCell className="text-right">{table.fuel_surcharge_percent}%</TableCell>
+                      <TableCell>
+                        <Badge variant={table.is_active ? 'default' : 'secondary'}>
+                          {table.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New Rate Table</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form action={createAction} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" name="name" required placeholder="2026 Linehaul Tariff" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="company_id">Applies To</Label>
+                <select id="company_id" name="company_id" className={selectClassName} defaultValue="">
+                  <option value="">Default tariff (all other partners)</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pricing_basis">Priced By</Label>
+                <select id="pricing_basis" name="pricing_basis" className={selectClassName} defaultValue="cuft_band">
+                  {(Object.keys(RATE_PRICING_BASIS_LABELS) as RatePricingBasis[]).map((basis) => (
+                    <option key={basis} value={basis}>
+                      {RATE_PRICING_BASIS_LABELS[basis]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-5">
+              <div className="space-y-1.5">
+                <Label htmlFor="minimum_charge">Minimum Charge</Label>
+                <Input id="minimum_charge" name="minimum_charge" type="number" step="0.01" min="0" defaultValue="0" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="fuel_surcharge_percent">Fuel Surcharge %</Label>
+                <Input
+                  id="fuel_surcharge_percent"
+                  name="fuel_surcharge_percent"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue="0"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="stairs_per_flight">Stairs / Flight</Label>
+                <Input id="stairs_per_flight" name="stairs_per_flight" type="number" step="0.01" min="0" defaultValue="0" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="long_carry_per_50ft">Long Carry / 50 ft</Label>
+                <Input
+                  id="long_carry_per_50ft"
+                  name="long_carry_per_50ft"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue="0"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="shuttle_charge">Shuttle</Label>
+                <Input id="shuttle_charge" name="shuttle_charge" type="number" step="0.01" min="0" defaultValue="0" />
+              </div>
+            </div>
+            <Button type="submit">Create Rate Table</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
-import { Wallet, Building2, CheckCircle, Clock, AlertCircle, XCircle } from 'lucide-react';
+import { Wallet, Building2, CheckCircle, Clock, AlertCircle, XCircle, FileText, Plus, Banknote } from 'lucide-react';
 
 import { getCurrentUser } from '@/lib/supabase-server';
-import { listReceivables, type ReceivableListItem } from '@/data/settlements';
+import { listInvoices, type InvoiceListItem, type InvoiceStatus } from '@/data/invoices';
+import { getReceivablesAging, type AgingReport } from '@/data/payments';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import {
   Table,
   TableBody,
@@ -14,7 +16,6 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { ReceivableActions } from './receivable-actions';
 
 function formatCurrency(amount: number): string {
   return new Intl.NumberFormat('en-US', {
@@ -26,18 +27,28 @@ function formatCurrency(amount: number): string {
 }
 
 function formatDate(dateString: string): string {
-  return new Date(dateString).toLocaleDateString('en-US', {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
   });
 }
 
-const statusConfig: Record<string, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive'; icon: any }> = {
-  open: { label: 'Open', variant: 'secondary', icon: Clock },
-  partial: { label: 'Partial', variant: 'outline', icon: AlertCircle },
+const agingColumns: { key: keyof AgingReport['totals']; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days_1_30', label: '1-30' },
+  { key: 'days_31_60', label: '31-60' },
+  { key: 'days_61_90', label: '61-90' },
+  { key: 'days_90_plus', label: '90+' },
+  { key: 'total', label: 'Total' },
+];
+
+const statusConfig: Record<InvoiceStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive'; icon: typeof Clock }> = {
+  draft: { label: 'Draft', variant: 'outline', icon: FileText },
+  sent: { label: 'Sent', variant: 'secondary', icon: Clock },
+  partially_paid: { label: 'Partially Paid', variant: 'outline', icon: AlertCircle },
   paid: { label: 'Paid', variant: 'default', icon: CheckCircle },
-  cancelled: { label: 'Cancelled', variant: 'destructive', icon: XCircle },
+  void: { label: 'Void', variant: 'destructive', icon: XCircle },
 };
 
 export default async function ReceivablesPage() {
@@ -46,28 +57,38 @@ export default async function ReceivablesPage() {
     redirect('/login');
   }
 
-  let receivables: ReceivableListItem[] = [];
+  let invoices: InvoiceListItem[] = [];
+  let aging: AgingReport | null = null;
   let error: string | null = null;
 
   try {
-    receivables = await listReceivables({ ownerId: user.id });
+    [invoices, aging] = await Promise.all([
+      listInvoices({ ownerId: user.id }),
+      getReceivablesAging(user.id),
+    ]);
   } catch (err) {
     error = err instanceof Error ? err.message : 'Failed to load receivables';
   }
 
+  const today = new Date().toISOString().split('T')[0];
+
   // Summary stats
-  const openReceivables = receivables.filter((r) => r.status === 'open');
-  const paidReceivables = receivables.filter((r) => r.status === 'paid');
-  const totalOpen = openReceivables.reduce((sum, r) => sum + r.amount, 0);
-  const totalPaid = paidReceivables.reduce((sum, r) => sum + r.amount, 0);
+  const openInvoices = invoices.filter((i) => i.status === 'sent' || i.status === 'partially_paid');
+  const overdueInvoices = openInvoices.filter((i) => i.due_date < today);
+  const draftInvoices = invoices.filter((i) => i.status === 'draft');
+  const totalOpen = openInvoices.reduce((sum, i) => sum + i.balance_due, 0);
+  const totalOverdue = overdueInvoices.reduce((sum, i) => sum + i.balance_due, 0);
+  const totalCollected = invoices
+    .filter((i) => i.status !== 'void')
+    .reduce((sum, i) => sum + i.amount_paid, 0);
 
   // Group by company
   const byCompany = new Map<string, { name: string; total: number; count: number }>();
-  openReceivables.forEach((r) => {
-    const key = r.company_id || 'unknown';
-    const name = r.company_name || 'Unknown Company';
+  openInvoices.forEach((i) => {
+    const key = i.company_id;
+    const name = i.company_name || 'Unknown Company';
     const existing = byCompany.get(key) || { name, total: 0, count: 0 };
-    existing.total += r.amount;
+    existing.total += i.balance_due;
     existing.count += 1;
     byCompany.set(key, existing);
   });
@@ -77,14 +98,30 @@ export default async function ReceivablesPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold flex items-center gap-2">
-          <Wallet className="h-6 w-6" />
-          Receivables
-        </h1>
-        <p className="text-muted-foreground">
-          Track money owed by companies
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Wallet className="h-6 w-6" />
+            Receivables
+          </h1>
+          <p className="text-muted-foreground">
+            Invoices issued to partner companies and what is still owed
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/finance/payments/new">
+              <Banknote className="h-4 w-4 mr-2" />
+              Record Payment
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/finance/invoices/new">
+              <Plus className="h-4 w-4 mr-2" />
+              New Invoice
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {error && (
@@ -96,7 +133,7 @@ export default async function ReceivablesPage() {
       )}
 
       {/* Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -108,7 +145,22 @@ export default async function ReceivablesPage() {
               {formatCurrency(totalOpen)}
             </p>
             <p className="text-xs text-muted-foreground">
-              {openReceivables.length} invoices pending
+              {openInvoices.length} invoices outstanding
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Overdue
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-red-600">
+              {formatCurrency(totalOverdue)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {overdueInvoices.length} past due date
             </p>
           </CardContent>
         </Card>
@@ -120,43 +172,111 @@ export default async function ReceivablesPage() {
           </CardHeader>
           <CardContent>
             <p className="text-2xl font-bold text-emerald-600">
-              {formatCurrency(totalPaid)}
+              {formatCurrency(totalCollected)}
             </p>
             <p className="text-xs text-muted-foreground">
-              {paidReceivables.length} invoices paid
+              Applied to invoices
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
-              Companies Owing
+              Drafts
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{byCompany.size}</p>
+            <p className="text-2xl font-bold">{draftInvoices.length}</p>
             <p className="text-xs text-muted-foreground">
-              With open balances
+              Not yet sent
             </p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Aging */}
+      {aging && aging.companies.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Aging</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Open balances by days past due
+              {aging.unapplied_credit > 0 && ` · ${formatCurrency(aging.unapplied_credit)} in unapplied credits`}
+            </p>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Company</TableHead>
+                    {agingColumns.map((col) => (
+                      <TableHead key={col.key} className="text-right">{col.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {aging.companies.map((row) => (
+                    <TableRow key={row.company_id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/dashboard/companies/${row.company_id}/ledger`} className="hover:underline">
+                          {row.company_name}
+                        </Link>
+                      </TableCell>
+                      {agingColumns.map((col) => (
+                        <TableCell
+                          key={col.key}
+                          className={`text-right ${
+                            col.key === 'total'
+                              ? 'font-medium'
+                              : col.key !== 'current' && row.buckets[col.key] > 0
+                                ? 'text-red-600'
+                                : 'text-muted-foreground'
+                          }`}
+                        >
+                          {row.buckets[col.key] > 0 ? formatCurrency(row.buckets[col.key]) : '—'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right text-blue-600">
+                        {row.unapplied_credit > 0 ? formatCurrency(row.unapplied_credit) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/50 font-medium">
+                    <TableCell>Total</TableCell>
+                    {agingColumns.map((col) => (
+                      <TableCell key={col.key} className="text-right">
+                        {formatCurrency(aging!.totals[col.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right text-blue-600">
+                      {formatCurrency(aging.unapplied_credit)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Company Breakdown */}
       {companyList.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg">By Company</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Open receivables grouped by company
+              Outstanding invoice balances grouped by company
             </p>
           </CardHeader>
           <CardContent>
             <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
               {companyList.map((company) => (
-                <div
+                <Link
                   key={company.id}
-                  className="flex items-center justify-between p-3 border rounded-lg"
+                  href={`/dashboard/companies/${company.id}/ledger`}
+                  className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
                 >
                   <div className="flex items-center gap-2">
                     <Building2 className="h-4 w-4 text-muted-foreground" />
@@ -170,82 +290,76 @@ export default async function ReceivablesPage() {
                   <Badge variant="secondary" className="text-amber-600">
                     {formatCurrency(company.total)}
                   </Badge>
-                </div>
+                </Link>
               ))}
             </div>
           </CardContent>
         </Card>
       )}
 
-      {/* Receivables Table */}
+      {/* Invoices Table */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">All Receivables</CardTitle>
+          <CardTitle className="text-lg">All Invoices</CardTitle>
         </CardHeader>
         <CardContent className="p-0">
-          {receivables.length === 0 ? (
+          {invoices.length === 0 ? (
             <div className="p-8 text-center text-muted-foreground">
               <Wallet className="h-12 w-12 mx-auto mb-3 opacity-50" />
-              <p className="font-medium">No receivables yet</p>
-              <p className="text-sm">Receivables will appear here after trips are settled</p>
+              <p className="font-medium">No invoices yet</p>
+              <p className="text-sm">Create an invoice from delivered loads to start tracking receivables</p>
             </div>
           ) : (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead>Invoice</TableHead>
                     <TableHead>Company</TableHead>
-                    <TableHead>Trip</TableHead>
                     <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Loads</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Issued</TableHead>
                     <TableHead className="text-right">Due Date</TableHead>
-                    <TableHead className="text-right">Created</TableHead>
-                    <TableHead className="w-[50px]"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {receivables.map((receivable) => {
-                    const config = statusConfig[receivable.status] || statusConfig.open;
+                  {invoices.map((invoice) => {
+                    const config = statusConfig[invoice.status] || statusConfig.sent;
                     const StatusIcon = config.icon;
+                    const isOverdue =
+                      (invoice.status === 'sent' || invoice.status === 'partially_paid') &&
+                      invoice.due_date < today;
                     return (
-                      <TableRow key={receivable.id}>
+                      <TableRow key={invoice.id}>
                         <TableCell className="font-medium">
-                          {receivable.company_name || 'Unknown'}
-                        </TableCell>
-                        <TableCell>
-                          {receivable.trip_id ? (
-                            <Link
-                              href={`/dashboard/trips/${receivable.trip_id}`}
-                              className="text-primary hover:underline"
-                            >
-                              {receivable.trip_number || 'View Trip'}
-                            </Link>
-                          ) : (
-                            <span className="text-muted-foreground">—</span>
-                          )}
+                          <Link
+                            href={`/dashboard/finance/invoices/${invoice.id}`}
+                            className="text-primary hover:underline"
+                          >
+                            {invoice.invoice_number}
+                          </Link>
                         </TableCell>
+                        <TableCell>{invoice.company_name || 'Unknown'}</TableCell>
                         <TableCell>
                           <Badge variant={config.variant} className="gap-1">
                             <StatusIcon className="h-3 w-3" />
                             {config.label}
                           </Badge>
                         </TableCell>
-                        <TableCell className="text-right font-medium">
-                          {formatCurrency(receivable.amount)}
+                        <TableCell className="text-right">{invoice.load_count}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(invoice.total_amount)}
                         </TableCell>
-                        <TableCell className="text-right text-muted-foreground">
-                          {receivable.due_date ? formatDate(receivable.due_date) : '—'}
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(invoice.balance_due)}
                         </TableCell>
                         <TableCell className="text-right text-muted-foreground">
-                          {formatDate(receivable.created_at)}
+                          {formatDate(invoice.issue_date)}
                         </TableCell>
-                        <TableCell>
-                          <ReceivableActions
-                            receivableId={receivable.id}
-                            status={receivable.status}
-                            amount={receivable.amount}
-                            companyName={receivable.company_name}
-                          />
+                        <TableCell className={`text-right ${isOverdue ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+                          {formatDate(invoice.due_date)}
                         </TableCell>
                       </TableRow>
                     );
@@ -1,118 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { CheckCircle, Loader2, MoreHorizontal } from 'lucide-react';
-
-import { Button } from '@/components/ui/button';
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from '@/components/ui/dropdown-menu';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog';
-
-interface ReceivableActionsProps {
-  receivableId: string;
-  status: string;
-  amount: number;
-  companyName: string | null;
-}
-
-export function ReceivableActions({
-  receivableId,
-  status,
-  amount,
-  companyName,
-}: ReceivableActionsProps) {
-  const router = useRouter();
-  const [isLoading, setIsLoading] = useState(false);
-  const [showConfirm, setShowConfirm] = useState(false);
-
-  const handleMarkPaid = async () => {
-    setIsLoading(true);
-    try {
-      const response = await fetch('/api/finance/receivables/mark-paid', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ receivableId }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to mark as paid');
-      }
-
-      router.refresh();
-    } catch (error) {
-      console.error('Error marking receivable as paid:', error);
-      alert(error instanceof Error ? error.message : 'Failed to mark as paid');
-    } finally {
-      setIsLoading(false);
-      setShowConfirm(false);
-    }
-  };
-
-  // Only show actions for open receivables
-  if (status !== 'open') {
-    return null;
-  }
-
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
-
-  return (
-    <>
-      <DropdownMenu>
-        <DropdownMenuTrigger asChild>
-          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isLoading}>
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <MoreHorizontal className="h-4 w-4" />
-            )}
-          </Button>
-        </DropdownMenuTrigger>
-        <DropdownMenuContent align="end">
-          <DropdownMenuItem onClick={() => setShowConfirm(true)}>
-            <CheckCircle className="mr-2 h-4 w-4" />
-            Mark as Paid
-          </DropdownMenuItem>
-        </DropdownMenuContent>
-      </DropdownMenu>
-
-      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Mark as Paid?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This will mark the {formattedAmount} receivable from{' '}
-              <strong>{companyName || 'Unknown Company'}</strong> as paid.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleMarkPaid} disabled={isLoading}>
-              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Mark as Paid
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </>
-  );
-}
@@ -66,6 +66,7 @@ export default async function TruckDetailPage({ params }: TruckDetailPageProps)
       'status',
       'vehicle_type',
       'cubic_capacity',
+      'mpg',
       'is_rental_unit',
       'rental_company',
       'rental_company_other',
@@ -156,6 +157,7 @@ export default async function TruckDetailPage({ params }: TruckDetailPageProps)
     status: truck.status,
     vehicle_type: truck.vehicle_type ?? undefined,
     cubic_capacity: truck.cubic_capacity ?? undefined,
+    mpg: truck.mpg ?? undefined,
     is_rental_unit: truck.is_rental_unit ?? false,
     rental_company: truck.rental_company ?? undefined,
     rental_company_other: truck.rental_company_other ?? undefined,
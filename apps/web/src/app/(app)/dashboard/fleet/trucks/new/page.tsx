@@ -38,6 +38,7 @@ export default async function NewTruckPage() {
       'status',
       'vehicle_type',
       'cubic_capacity',
+      'mpg',
       'is_rental_unit',
       'rental_company',
       'rental_company_other',
@@ -23,6 +23,7 @@ import {
   CheckCircle,
   BadgeCheck,
   RefreshCw,
+  Bookmark,
 } from 'lucide-react';
 
 // US States for filtering
@@ -363,6 +364,12 @@ export default async function LoadBoardPage({ searchParams }: PageProps) {
               <RefreshCw className="h-4 w-4" />
             </Link>
           </Button>
+          <Button asChild variant="outline">
+            <Link href="/dashboard/load-board/saved-searches">
+              <Bookmark className="h-4 w-4 mr-2" />
+              Saved Searches
+            </Link>
+          </Button>
           <Button asChild variant="outline">
             <Link href="/dashboard/my-requests">
               View My Requests
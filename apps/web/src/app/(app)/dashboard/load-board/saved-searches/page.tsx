@@ -0,0 +1,419 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, Bell, BellOff, Bookmark, Mail, Trash2 } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import {
+  listSavedSearches,
+  listRecentSearchMatches,
+  createSavedSearch,
+  updateSavedSearchAlerts,
+  deleteSavedSearch,
+} from '@/data/saved-searches';
+import {
+  describeSavedSearch,
+  SAVED_SEARCH_LOAD_KIND_LABELS,
+  SAVED_SEARCH_TRUCK_LABELS,
+  type SavedLoadSearch,
+  type SavedSearchLoadKind,
+  type SavedSearchMatch,
+  type SavedSearchTruckRequirement,
+} from '@/data/saved-searches-shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const US_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
+  'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
+  'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
+  'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
+  'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+];
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const multiSelectClassName =
+  'flex h-28 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+function optionalNumber(value: FormDataEntryValue | null): number | null {
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function optionalText(value: FormDataEntryValue | null): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function formatMatchedAt(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function PlaceFields({ prefix, label }: { prefix: 'origin' | 'destination'; label: string }) {
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${prefix}_postal_code`}>Within Radius Of ZIP</Label>
+          <Input id={`${prefix}_postal_code`} name={`${prefix}_postal_code`} placeholder="75201" maxLength={10} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${prefix}_city`}>Or City, State</Label>
+          <div className="flex gap-2">
+            <Input id={`${prefix}_city`} name={`${prefix}_city`} placeholder="Dallas" />
+            <Input name={`${prefix}_state`} placeholder="TX" maxLength={2} className="w-16" />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${prefix}_radius_miles`}>Radius (miles)</Label>
+          <Input id={`${prefix}_radius_miles`} name={`${prefix}_radius_miles`} type="number" min="1" placeholder="100" />
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${prefix}_states`}>Or States</Label>
+        <select id={`${prefix}_states`} name={`${prefix}_states`} multiple className={multiSelectClassName}>
+          {US_STATES.map((state) => (
+            <option key={state} value={state}>
+              {state}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground">
+          Hold Ctrl/Cmd to pick several. A radius takes priority; leave everything blank to match anywhere.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default async function SavedSearchesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { error: actionError } = await searchParams;
+
+  let searches: SavedLoadSearch[] = [];
+  let matches: SavedSearchMatch[] = [];
+  let error: string | null = actionError || null;
+
+  try {
+    [searches, matches] = await Promise.all([listSavedSearches(user.id), listRecentSearchMatches(user.id, 25)]);
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load saved searches';
+  }
+
+  const searchNames = new Map(searches.map((search) => [search.id, search.name]));
+
+  async function createAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await createSavedSearch(user.id, {
+      name: (formData.get('name') as string) || '',
+      originPostalCode: optionalText(formData.get('origin_postal_code')),
+      originCity: optionalText(formData.get('origin_city')),
+      originState: optionalText(formData.get('origin_state')),
+      originRadiusMiles: optionalNumber(formData.get('origin_radius_miles')),
+      originStates: formData.getAll('origin_states') as string[],
+      destinationPostalCode: optionalText(formData.get('destination_postal_code')),
+      destinationCity: optionalText(formData.get('destination_city')),
+      destinationState: optionalText(formData.get('destination_state')),
+      destinationRadiusMiles: optionalNumber(formData.get('destination_radius_miles')),
+      destinationStates: formData.getAll('destination_states') as string[],
+      minCuft: optionalNumber(formData.get('min_cuft')),
+      maxCuft: optionalNumber(formData.get('max_cuft')),
+      minRatePerCuft: optionalNumber(formData.get('min_rate_per_cuft')),
+      loadKind: ((formData.get('load_kind') as string) || 'any') as SavedSearchLoadKind,
+      availableFrom: optionalText(formData.get('available_from')),
+      availableTo: optionalText(formData.get('available_to')),
+      truckRequirement: ((formData.get('truck_requirement') as string) || 'any') as SavedSearchTruckRequirement,
+      instantAlerts: formData.get('instant_alerts') === 'on',
+      emailDigest: formData.get('email_digest') === 'on',
+    });
+    revalidatePath('/dashboard/load-board/saved-searches');
+    if (!result.success) {
+      redirect(
+        `/dashboard/load-board/saved-searches?error=${encodeURIComponent(result.error || 'Failed to save search')}`
+      );
+    }
+  }
+
+  async function updateAlertsAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const field = formData.get('field') as string;
+    const value = formData.get('value') === 'true';
+    const result = await updateSavedSearchAlerts(
+      user.id,
+      formData.get('search_id') as string,
+      field === 'email_digest' ? { emailDigest: value } : { instantAlerts: value }
+    );
+    revalidatePath('/dashboard/load-board/saved-searches');
+    if (!result.success) {
+      redirect(
+        `/dashboard/load-board/saved-searches?error=${encodeURIComponent(result.error || 'Failed to update search')}`
+      );
+    }
+  }
+
+  async function deleteAction(formData: FormData) {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) redirect('/login');
+    const result = await deleteSavedSearch(user.id, formData.get('search_id') as string);
+    revalidatePath('/dashboard/load-board/saved-searches');
+    if (!result.success) {
+      redirect(
+        `/dashboard/load-board/saved-searches?error=${encodeURIComponent(result.error || 'Failed to delete search')}`
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/load-board">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Bookmark className="h-6 w-6" />
+            Saved Searches
+          </h1>
+          <p className="text-muted-foreground">
+            Get alerted the moment a load matching your lanes is posted, or collect matches in a daily email.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Searches</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {searches.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Bookmark className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No saved searches</p>
+              <p className="text-sm">Save a search below to get alerted about new loads on your lanes</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Criteria</TableHead>
+                    <TableHead>Alerts</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {searches.map((search) => (
+                    <TableRow key={search.id}>
+                      <TableCell className="font-medium">{search.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{describeSavedSearch(search)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={search.instant_alerts ? 'default' : 'secondary'}>
+                            {search.instant_alerts ? 'Instant' : 'Paused'}
+                          </Badge>
+                          {search.email_digest && <Badge variant="outline">Daily email</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <form action={updateAlertsAction}>
+                            <input type="hidden" name="search_id" value={search.id} />
+                            <input type="hidden" name="field" value="instant_alerts" />
+                            <input type="hidden" name="value" value={String(!search.instant_alerts)} />
+                            <Button
+                              type="submit"
+                              variant="ghost"
+                              size="icon"
+                              title={search.instant_alerts ? 'Pause instant alerts' : 'Resume instant alerts'}
+                            >
+                              {search.instant_alerts ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                            </Button>
+                          </form>
+                          <form action={updateAlertsAction}>
+                            <input type="hidden" name="search_id" value={search.id} />
+                            <input type="hidden" name="field" value="email_digest" />
+                            <input type="hidden" name="value" value={String(!search.email_digest)} />
+                            <Button
+                              type="submit"
+                              variant="ghost"
+                              size="icon"
+                              title={search.email_digest ? 'Stop daily email' : 'Send daily email'}
+                            >
+                              <Mail className={`h-4 w-4 ${search.email_digest ? '' : 'opacity-40'}`} />
+                            </Button>
+                          </form>
+                          <form action={deleteAction}>
+                            <input type="hidden" name="search_id" value={search.id} />
+                            <Button type="submit" variant="ghost" size="icon" title="Delete search">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </form>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {matches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent Matches</CardTitle>
+            <CardDescription>Loads posted since you saved these searches</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Load</TableHead>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Search</TableHead>
+                    <TableHead>Matched</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {matches.map((match) => (
+                    <TableRow key={match.id}>
+                      <TableCell>
+                        <Link
+                          href={`/dashboard/load-board/${match.load_id}`}
+                          className="text-primary hover:underline font-medium"
+                        >
+                          {match.load_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{match.route}</TableCell>
+                      <TableCell className="text-muted-foreground">{searchNames.get(match.search_id)}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatMatchedAt(match.matched_at)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New Saved Search</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form action={createAction} className="space-y-4">
+            <div className="space-y-1.5 md:w-1/3">
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" name="name" required placeholder="Texas to Florida" />
+            </div>
+            <div className="grid gap-4 lg:grid-cols-2">
+              <PlaceFields prefix="origin" label="Origin" />
+              <PlaceFields prefix="destination" label="Destination" />
+            </div>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="min_cuft">Min Cubic Feet</Label>
+                <Input id="min_cuft" name="min_cuft" type="number" min="0" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="max_cuft">Max Cubic Feet</Label>
+                <Input id="max_cuft" name="max_cuft" type="number" min="0" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="min_rate_per_cuft">Min Rate / Cuft</Label>
+                <Input id="min_rate_per_cuft" name="min_rate_per_cuft" type="number" step="0.01" min="0" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="load_kind">Load Type</Label>
+                <select id="load_kind" name="load_kind" className={selectClassName} defaultValue="any">
+                  {(Object.keys(SAVED_SEARCH_LOAD_KIND_LABELS) as SavedSearchLoadKind[]).map((kind) => (
+                    <option key={kind} value={kind}>
+                      {SAVED_SEARCH_LOAD_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="available_from">Available From</Label>
+                <Input id="available_from" name="available_from" type="date" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="available_to">Available To</Label>
+                <Input id="available_to" name="available_to" type="date" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="truck_requirement">My Truck</Label>
+                <select id="truck_requirement" name="truck_requirement" className={selectClassName} defaultValue="any">
+                  {(Object.keys(SAVED_SEARCH_TRUCK_LABELS) as SavedSearchTruckRequirement[]).map((truck) => (
+                    <option key={truck} value={truck}>
+                      {SAVED_SEARCH_TRUCK_LABELS[truck]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="instant_alerts" defaultChecked className="h-4 w-4" />
+                Instant alerts (in-app and push)
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="email_digest" className="h-4 w-4" />
+                Daily email digest
+              </label>
+            </div>
+            <Button type="submit">Save Search</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
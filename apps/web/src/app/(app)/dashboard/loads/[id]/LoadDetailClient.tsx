@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Pencil, MessageSquare } from 'lucide-react';
+import { Pencil, MessageSquare, Route } from 'lucide-react';
 import { useSingleEntityUnreadCount } from '@/hooks/useEntityUnreadCounts';
 import { Button } from '@/components/ui/button';
 import {
@@ -25,6 +26,16 @@ import type { Truck, Trailer } from '@/data/fleet';
 import type { AuditLogEntry } from '@/lib/audit';
 import type { BalanceDispute } from '@/data/balance-disputes';
 import { BalanceDisputeCard } from '@/components/loads/BalanceDisputeCard';
+import { LoadHelpersCard } from '@/components/loads/LoadHelpersCard';
+import type { Helper, HelperEventType, LoadHelper } from '@/data/helper-shared';
+import { LoadInventoryCard } from '@/components/loads/LoadInventoryCard';
+import type { LoadInventory } from '@/data/load-inventory-shared';
+import { LoadClaimsCard } from '@/components/loads/LoadClaimsCard';
+import type { CargoClaim } from '@/data/claims-shared';
+import { LoadStopTimesCard } from '@/components/loads/LoadStopTimesCard';
+import type { LoadStopTime } from '@/data/load-stop-visits-shared';
+import { CustomerTrackingCard } from '@/components/loads/CustomerTrackingCard';
+import type { LoadCustomerTracking, TrackingChannel } from '@/data/customer-tracking-shared';
 
 interface Trip {
   id: string;
@@ -47,6 +58,13 @@ interface LoadDetailClientProps {
   isOwnCompanyLoad: boolean;
   initialFormData: Record<string, unknown>;
   pendingDispute: BalanceDispute | null;
+  helpers: Helper[];
+  loadHelpers: LoadHelper[];
+  inventory: LoadInventory;
+  claims: CargoClaim[];
+  stopTimes: { free_minutes: number; stops: LoadStopTime[] };
+  customerTracking: LoadCustomerTracking;
+  today: string;
   // Server actions
   onUpdate: (
     prevState: { errors?: Record<string, string> } | null,
@@ -54,6 +72,19 @@ interface LoadDetailClientProps {
   ) => Promise<{ errors?: Record<string, string> } | null>;
   onPostToMarketplace: (data: MarketplacePostingData) => Promise<{ success: boolean; error?: string }>;
   onAssignToTrip: (tripId: string) => Promise<{ success: boolean; error?: string }>;
+  onAddHelper: (input: {
+    helperId: string;
+    eventType: HelperEventType;
+    workDate: string;
+    hours: number | null;
+  }) => Promise<{ success: boolean; error?: string }>;
+  onRemoveHelper: (id: string) => Promise<{ success: boolean; error?: string }>;
+  onCreateTrackingLink: (notifyCustomer: boolean) => Promise<{ success: boolean; error?: string }>;
+  onUpdateTrackingLink: (
+    linkId: string,
+    updates: { notify_customer?: boolean; is_active?: boolean }
+  ) => Promise<{ success: boolean; error?: string }>;
+  onSendTrackingLink: (linkId: string, channel: TrackingChannel) => Promise<{ success: boolean; error?: string }>;
 }
 
 export function LoadDetailClient({
@@ -69,9 +100,21 @@ export function LoadDetailClient({
   isOwnCompanyLoad,
   initialFormData,
   pendingDispute,
+  helpers,
+  loadHelpers,
+  inventory,
+  claims,
+  stopTimes,
+  customerTracking,
+  today,
   onUpdate,
   onPostToMarketplace,
   onAssignToTrip,
+  onAddHelper,
+  onRemoveHelper,
+  onCreateTrackingLink,
+  onUpdateTrackingLink,
+  onSendTrackingLink,
 }: LoadDetailClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -151,6 +194,14 @@ export function LoadDetailClient({
               </Button>
             )}
 
+            {/* GPS Replay */}
+            <Button variant="outline" size="sm" asChild className="gap-2">
+              <Link href={`/dashboard/loads/${load.id}/replay`}>
+                <Route className="h-4 w-4" />
+                GPS Replay
+              </Link>
+            </Button>
+
             {/* External Company Badge */}
             {!isOwnCompanyLoad && (
               <span className="inline-flex px-2.5 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400 border border-orange-200 dark:border-orange-800">
@@ -193,6 +244,38 @@ export function LoadDetailClient({
               </div>
             )}
 
+            {/* Household Goods Inventory */}
+            <LoadInventoryCard
+              inventory={inventory}
+              loadNumber={load.load_number || load.id.slice(0, 8)}
+              companyName={load.company?.name || ''}
+              customerName={load.customer_name}
+              origin={[load.pickup_city, load.pickup_state].filter(Boolean).join(', ')}
+              destination={[load.delivery_city, load.delivery_state].filter(Boolean).join(', ')}
+            />
+
+            {/* Customer Tracking Link */}
+            <CustomerTrackingCard
+              tracking={customerTracking}
+              onCreateLink={onCreateTrackingLink}
+              onUpdateLink={onUpdateTrackingLink}
+              onSendLink={onSendTrackingLink}
+            />
+
+            {/* Stop Times & Detention */}
+            <LoadStopTimesCard stops={stopTimes.stops} freeMinutes={stopTimes.free_minutes} />
+
+            {/* Cargo Claims */}
+            <LoadClaimsCard loadId={load.id} claims={claims} today={today} />
+
+            {/* Helper Labor */}
+            <LoadHelpersCard
+              helpers={helpers}
+              entries={loadHelpers}
+              onAdd={onAddHelper}
+              onRemove={onRemoveHelper}
+            />
+
             {/* Driver-Uploaded Photos */}
             <LoadPhotos load={load} />
           </>
@@ -7,6 +7,19 @@ import { getDriversForUser } from '@/data/drivers';
 import { getTrucksForUser, getTrailersForUser } from '@/data/fleet';
 import { getTripsForLoadAssignment, addLoadToTrip } from '@/data/trips';
 import { getPendingDisputeForLoad } from '@/data/balance-disputes';
+import { getHelpersForUser, getLoadHelpers, addHelperToLoad, removeHelperFromLoad } from '@/data/helpers';
+import type { HelperEventType } from '@/data/helper-shared';
+import { getLoadInventory } from '@/data/load-inventory';
+import { getClaimsForLoad } from '@/data/claims';
+import { getLoadStopTimes } from '@/data/load-stop-visits';
+import {
+  createTrackingLink,
+  getLoadCustomerTracking,
+  sendTrackingLink,
+  updateTrackingLink,
+} from '@/data/customer-tracking';
+import type { TrackingChannel } from '@/data/customer-tracking-shared';
+import { matchPostedLoad } from '@/data/saved-searches';
 import { normalizeOwnLoad } from '@/lib/load-detail-model';
 import { type MarketplacePostingData } from './load-actions';
 import { LoadDetailClient } from './LoadDetailClient';
@@ -44,7 +57,22 @@ export default async function LoadDetailPage({ params }: LoadDetailPageProps) {
   }
 
   // Fetch related entities for dropdowns
-  const [companies, drivers, trucks, trailers, trips, workspaceCompany, auditLogs, pendingDispute] = await Promise.all([
+  const [
+    companies,
+    drivers,
+    trucks,
+    trailers,
+    trips,
+    workspaceCompany,
+    auditLogs,
+    pendingDispute,
+    helpers,
+    loadHelpers,
+    inventory,
+    claims,
+    stopTimes,
+    customerTracking,
+  ] = await Promise.all([
     getCompaniesForUser(user.id),
     getDriversForUser(user.id),
     getTrucksForUser(user.id),
@@ -53,6 +81,12 @@ export default async function LoadDetailPage({ params }: LoadDetailPageProps) {
     getWorkspaceCompanyForUser(user.id),
     getAuditLogsForEntity('load', id, { limit: 50 }),
     getPendingDisputeForLoad(id),
+    getHelpersForUser(user.id),
+    getLoadHelpers(id, user.id),
+    getLoadInventory(id, user.id),
+    getClaimsForLoad(id, user.id),
+    getLoadStopTimes(id, user.id),
+    getLoadCustomerTracking(id, user.id),
   ]);
 
   // Only brokers/moving companies can post to marketplace
@@ -220,6 +254,11 @@ export default async function LoadDetailPage({ params }: LoadDetailPageProps) {
         }),
       });
 
+      // Alert users whose saved searches match; posting succeeds either way
+      await matchPostedLoad(id).catch((error) => {
+        console.error('Failed to match saved searches:', error);
+      });
+
       return { success: true };
     } catch (error) {
       return {
@@ -253,6 +292,59 @@ export default async function LoadDetailPage({ params }: LoadDetailPageProps) {
     }
   }
 
+  async function addHelperAction(input: {
+    helperId: string;
+    eventType: HelperEventType;
+    workDate: string;
+    hours: number | null;
+  }): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return { success: false, error: 'Not authenticated' };
+
+    const result = await addHelperToLoad(currentUser.id, { loadId: id, ...input });
+    return { success: result.success, error: result.error };
+  }
+
+  async function removeHelperAction(entryId: string): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return { success: false, error: 'Not authenticated' };
+
+    return removeHelperFromLoad(entryId, currentUser.id);
+  }
+
+  async function createTrackingLinkAction(notifyCustomer: boolean): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return { success: false, error: 'Not authenticated' };
+
+    const result = await createTrackingLink(id, currentUser.id, { notifyCustomer });
+    return { success: result.success, error: result.error };
+  }
+
+  async function updateTrackingLinkAction(
+    linkId: string,
+    updates: { notify_customer?: boolean; is_active?: boolean }
+  ): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return { success: false, error: 'Not authenticated' };
+
+    return updateTrackingLink(linkId, currentUser.id, updates);
+  }
+
+  async function sendTrackingLinkAction(
+    linkId: string,
+    channel: TrackingChannel
+  ): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return { success: false, error: 'Not authenticated' };
+
+    return sendTrackingLink(linkId, currentUser.id, channel);
+  }
+
   const initialFormData = {
     load_number: load.load_number ?? undefined,
     service_type: load.service_type,
@@ -343,9 +435,21 @@ export default async function LoadDetailPage({ params }: LoadDetailPageProps) {
       isOwnCompanyLoad={isOwnCompanyLoad}
       initialFormData={initialFormData}
       pendingDispute={pendingDispute}
+      helpers={helpers}
+      loadHelpers={loadHelpers}
+      inventory={inventory}
+      claims={claims}
+      stopTimes={stopTimes}
+      customerTracking={customerTracking}
+      today={new Date().toISOString().split('T')[0]}
       onUpdate={updateLoadAction}
       onPostToMarketplace={postToMarketplaceAction}
       onAssignToTrip={assignToTripAction}
+      onAddHelper={addHelperAction}
+      onRemoveHelper={removeHelperAction}
+      onCreateTrackingLink={createTrackingLinkAction}
+      onUpdateTrackingLink={updateTrackingLinkAction}
+      onSendTrackingLink={sendTrackingLinkAction}
     />
   );
 }
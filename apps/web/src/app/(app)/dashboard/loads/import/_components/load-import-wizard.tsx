@@ -0,0 +1,680 @@
+'use client';
+
+import { useMemo, useRef, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Loader2, Save, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Stepper } from '@/components/ui/stepper';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { parseSpreadsheetFile, SPREADSHEET_ACCEPT, type ParsedSpreadsheet } from '@/lib/import/spreadsheet';
+import {
+  LOAD_IMPORT_FIELDS,
+  LOAD_IMPORT_FIELD_KEYS,
+  MAX_IMPORT_ROWS,
+  suggestColumnMapping,
+  type LoadImportColumnMapping,
+  type LoadImportCommitResult,
+  type LoadImportDefaults,
+  type LoadImportField,
+  type LoadImportFieldDefinition,
+  type LoadImportPreview,
+  type LoadImportTemplate,
+} from '@/data/load-imports-shared';
+
+type ActionResult = { success: boolean; error?: string };
+type TruckRequirement = 'any' | 'semi_only' | 'box_truck_only';
+
+interface ImportRequest {
+  rows: Record<string, string>[];
+  column_mapping: LoadImportColumnMapping;
+  defaults: LoadImportDefaults;
+  company_id: string | null;
+}
+
+interface LoadImportWizardProps {
+  companies: { id: string; name: string }[];
+  trips: { id: string; label: string }[];
+  templates: LoadImportTemplate[];
+  previewAction: (input: ImportRequest) => Promise<ActionResult & { preview?: LoadImportPreview }>;
+  commitAction: (
+    input: ImportRequest & {
+      trip_id: string | null;
+      post_to_marketplace: boolean;
+      truck_requirement: TruckRequirement;
+      template_id: string | null;
+    }
+  ) => Promise<LoadImportCommitResult>;
+  saveTemplateAction: (
+    input: { name: string; company_id: string | null; column_mapping: LoadImportColumnMapping; defaults: LoadImportDefaults },
+    templateId?: string | null
+  ) => Promise<ActionResult & { id?: string }>;
+  deleteTemplateAction: (templateId: string) => Promise<ActionResult>;
+}
+
+const STEPS = [
+  { id: 'upload', title: 'Upload', description: 'CSV or XLSX' },
+  { id: 'map', title: 'Map Columns', description: 'Match fields' },
+  { id: 'review', title: 'Dry Run', description: 'Check every row' },
+  { id: 'done', title: 'Import', description: 'Create loads' },
+];
+
+const FIELD_GROUPS: LoadImportFieldDefinition['group'][] = ['Load', 'Customer', 'Origin', 'Destination', 'Pricing', 'Schedule'];
+
+// Radix Select items can't use an empty string value
+const NONE = '__none__';
+
+const TRUCK_REQUIREMENT_LABELS: Record<TruckRequirement, string> = {
+  any: 'Any truck',
+  semi_only: 'Semi only',
+  box_truck_only: 'Box truck only',
+};
+
+function fieldLabel(field: string): string {
+  if (field === '_row') return 'Row';
+  if (field === 'company_id') return 'Partner Company';
+  return LOAD_IMPORT_FIELDS[field as LoadImportField]?.label ?? field.replace(/_/g, ' ');
+}
+
+function ErrorNote({ error }: { error: string | null }) {
+  if (!error) return null;
+  return (
+    <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-600 dark:text-red-400">
+      {error}
+    </div>
+  );
+}
+
+export function LoadImportWizard({
+  companies,
+  trips,
+  templates,
+  previewAction,
+  commitAction,
+  saveTemplateAction,
+  deleteTemplateAction,
+}: LoadImportWizardProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isPending, startTransition] = useTransition();
+  const [step, setStep] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ParsedSpreadsheet | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<LoadImportColumnMapping>({});
+  const [defaults, setDefaults] = useState<LoadImportDefaults>({});
+
+  const [preview, setPreview] = useState<LoadImportPreview | null>(null);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [tripId, setTripId] = useState<string | null>(null);
+  const [postToMarketplace, setPostToMarketplace] = useState(false);
+  const [truckRequirement, setTruckRequirement] = useState<TruckRequirement>('any');
+  const [result, setResult] = useState<LoadImportCommitResult | null>(null);
+
+  const mappedCount = LOAD_IMPORT_FIELD_KEYS.filter((field) => mapping[field]).length;
+  const sampleRow = sheet?.rows[0];
+  const visibleRows = useMemo(
+    () => (preview ? preview.rows.filter((row) => !errorsOnly || !row.valid) : []),
+    [preview, errorsOnly]
+  );
+
+  const request = (): ImportRequest => ({
+    rows: sheet?.rows ?? [],
+    column_mapping: mapping,
+    defaults,
+    company_id: companyId,
+  });
+
+  const applyTemplate = (id: string | null, headers: string[] | undefined = sheet?.headers) => {
+    const template = templates.find((t) => t.id === id);
+    setTemplateId(template?.id ?? null);
+    setTemplateName(template?.name ?? '');
+    if (!template) {
+      setDefaults({});
+      if (headers) setMapping(suggestColumnMapping(headers));
+      return;
+    }
+
+    setCompanyId(template.company_id);
+    setDefaults(template.defaults);
+    if (!headers) return;
+
+    // Keep only columns this file actually has; fill the gaps by header name
+    const available = new Set(headers);
+    const next: LoadImportColumnMapping = {};
+    const missing: string[] = [];
+    LOAD_IMPORT_FIELD_KEYS.forEach((field) => {
+      const header = template.column_mapping[field];
+      if (!header) return;
+      if (available.has(header)) next[field] = header;
+      else missing.push(header);
+    });
+    setMapping({ ...suggestColumnMapping(headers), ...next });
+
+    if (missing.length > 0) {
+      toast({
+        title: 'Some template columns are missing',
+        description: `Not in this file: ${missing.join(', ')}. Check the mapping before continuing.`,
+      });
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setReading(true);
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      if (parsed.rows.length === 0) {
+        setError('No data rows found. The first non-empty row should be the column headers.');
+        return;
+      }
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        setError(`This file has ${parsed.rows.length} rows. Import up to ${MAX_IMPORT_ROWS} loads at a time.`);
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(parsed);
+      setPreview(null);
+      applyTemplate(templateId, parsed.headers);
+      setStep(1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that file');
+    } finally {
+      setReading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleSaveTemplate = (asNew: boolean) => {
+    setError(null);
+    startTransition(async () => {
+      const saveResult = await saveTemplateAction(
+        { name: templateName, company_id: companyId, column_mapping: mapping, defaults },
+        asNew ? null : templateId
+      );
+      if (!saveResult.success) {
+        setError(saveResult.error || 'Failed to save template');
+        return;
+      }
+      setTemplateId(saveResult.id ?? templateId);
+      toast({ title: 'Template saved', description: `"${templateName}" will be offered for the next file.` });
+    });
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!templateId) return;
+    startTransition(async () => {
+      const deleteResult = await deleteTemplateAction(templateId);
+      if (!deleteResult.success) {
+        setError(deleteResult.error || 'Failed to delete template');
+        return;
+      }
+      setTemplateId(null);
+      setTemplateName('');
+      toast({ title: 'Template deleted' });
+    });
+  };
+
+  const handlePreview = () => {
+    setError(null);
+    startTransition(async () => {
+      const previewResult = await previewAction(request());
+      if (!previewResult.success || !previewResult.preview) {
+        setError(previewResult.error || 'Failed to check rows');
+        return;
+      }
+      setPreview(previewResult.preview);
+      setErrorsOnly(previewResult.preview.error_count > 0);
+      setStep(2);
+    });
+  };
+
+  const handleCommit = () => {
+    setError(null);
+    startTransition(async () => {
+      const commitResult = await commitAction({
+        ...request(),
+        trip_id: tripId,
+        post_to_marketplace: postToMarketplace,
+        truck_requirement: truckRequirement,
+        template_id: templateId,
+      });
+      if (!commitResult.success) {
+        setError(commitResult.error || 'Import failed');
+        return;
+      }
+      setResult(commitResult);
+      setStep(3);
+      toast({
+        title: 'Import complete',
+        description: `${commitResult.created} load${commitResult.created === 1 ? '' : 's'} created.`,
+      });
+    });
+  };
+
+  const reset = () => {
+    setSheet(null);
+    setFileName(null);
+    setPreview(null);
+    setResult(null);
+    setTripId(null);
+    setPostToMarketplace(false);
+    setError(null);
+    setStep(0);
+  };
+
+  const renderDefaultInput = (field: LoadImportField) => {
+    const definition = LOAD_IMPORT_FIELDS[field];
+    const value = defaults[field] ?? '';
+    const setValue = (next: string) => setDefaults((current) => ({ ...current, [field]: next || undefined }));
+
+    if (definition.kind === 'choice' || definition.kind === 'boolean') {
+      const options = definition.kind === 'boolean' ? { yes: 'Yes', no: 'No' } : definition.choices ?? {};
+      return (
+        <Select value={value || NONE} onValueChange={(next) => setValue(next === NONE ? '' : next)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No default</SelectItem>
+            {Object.entries(options).map(([optionValue, label]) => (
+              <SelectItem key={optionValue} value={optionValue}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        className="h-8"
+        type={definition.kind === 'date' ? 'date' : 'text'}
+        inputMode={definition.kind === 'number' ? 'decimal' : undefined}
+        placeholder="No default"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Stepper steps={STEPS} currentStep={step} onStepClick={(index) => index < 3 && !result && setStep(index)} />
+      <ErrorNote error={error} />
+
+      {step === 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload a spreadsheet</CardTitle>
+            <CardDescription>
+              CSV or Excel (.xlsx) export with one load per row and column headers in the first row. Up to{' '}
+              {MAX_IMPORT_ROWS} rows per file.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Mapping template</Label>
+                <Select value={templateId ?? NONE} onValueChange={(value) => applyTemplate(value === NONE ? null : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Match columns automatically</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                        {template.company ? ` (${template.company.name})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Partner company</Label>
+                <Select value={companyId ?? NONE} onValueChange={(value) => setCompanyId(value === NONE ? null : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None - my own customers</SelectItem>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Rows are imported as partner loads for this company.</p>
+              </div>
+            </div>
+
+            <button
+              type="button"
+              disabled={reading}
+              onClick={() => inputRef.current?.click()}
+              className="flex w-full flex-col items-center gap-2 rounded-lg border border-dashed border-border bg-muted/30 p-8 text-sm text-muted-foreground hover:bg-muted/50"
+            >
+              {reading ? <Loader2 className="h-6 w-6 animate-spin" /> : <Upload className="h-6 w-6" />}
+              {reading ? 'Reading file...' : 'Choose a CSV or XLSX file'}
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept={SPREADSHEET_ACCEPT}
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 1 && sheet && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                {fileName}
+              </CardTitle>
+              <CardDescription>
+                {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'}, {sheet.headers.length} columns. {mappedCount}{' '}
+                field{mappedCount === 1 ? '' : 's'} mapped. Defaults fill in values the sheet doesn&apos;t have.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {FIELD_GROUPS.map((group) => (
+                <div key={group} className="space-y-2">
+                  <h3 className="text-sm font-semibold text-foreground">{group}</h3>
+                  <div className="space-y-2">
+                    {LOAD_IMPORT_FIELD_KEYS.filter((field) => LOAD_IMPORT_FIELDS[field].group === group).map((field) => {
+                      const header = mapping[field];
+                      return (
+                        <div key={field} className="grid items-center gap-2 md:grid-cols-[180px_1fr_1fr_1fr]">
+                          <Label className="text-sm">{LOAD_IMPORT_FIELDS[field].label}</Label>
+                          <Select
+                            value={header ?? NONE}
+                            onValueChange={(value) =>
+                              setMapping((current) => ({ ...current, [field]: value === NONE ? undefined : value }))
+                            }
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>Not mapped</SelectItem>
+                              {sheet.headers.map((column) => (
+                                <SelectItem key={column} value={column}>
+                                  {column}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <span className="truncate text-xs text-muted-foreground">
+                            {header && sampleRow ? sampleRow[header] || '(empty)' : ''}
+                          </span>
+                          {renderDefaultInput(field)}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Save mapping</CardTitle>
+              <CardDescription>
+                Save this mapping and defaults as a template so the next export from this partner maps itself.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-2 md:flex-row">
+              <Input
+                placeholder="Template name"
+                value={templateName}
+                onChange={(event) => setTemplateName(event.target.value)}
+                className="md:max-w-xs"
+              />
+              {templateId && (
+                <Button type="button" variant="outline" disabled={isPending || !templateName.trim()} onClick={() => handleSaveTemplate(false)}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Update Template
+                </Button>
+              )}
+              <Button type="button" variant="outline" disabled={isPending || !templateName.trim()} onClick={() => handleSaveTemplate(true)}>
+                <Save className="h-4 w-4 mr-2" />
+                Save as New
+              </Button>
+              {templateId && (
+                <Button type="button" variant="ghost" disabled={isPending} onClick={handleDeleteTemplate}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Template
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-between">
+            <Button type="button" variant="outline" onClick={() => setStep(0)}>
+              Back
+            </Button>
+            <Button type="button" disabled={isPending || mappedCount === 0} onClick={handlePreview}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Run Dry Run
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === 2 && preview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Dry run results</CardTitle>
+              <CardDescription>
+                Nothing has been saved yet. {preview.valid_count} of {preview.rows.length} row
+                {preview.rows.length === 1 ? '' : 's'} will import
+                {preview.error_count > 0 && `; ${preview.error_count} with errors will be skipped`}. Fix the sheet or the
+                mapping and re-run to include them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="errors_only"
+                  checked={errorsOnly}
+                  onCheckedChange={(checked) => setErrorsOnly(checked === true)}
+                />
+                <Label htmlFor="errors_only" className="text-sm">
+                  Only show rows with errors
+                </Label>
+              </div>
+
+              <div className="max-h-[480px] overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead className="w-24">Status</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Route</TableHead>
+                      <TableHead className="text-right">CuFt</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.row} className={cn(!row.valid && 'bg-red-500/5')}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>
+                          {row.valid ? (
+                            <Badge variant="secondary" className="border-0 bg-green-500/10 text-green-700 dark:text-green-400">
+                              Ready
+                            </Badge>
+                          ) : (
+                            <Badge variant="destructive">Error</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.summary.reference || '—'}</TableCell>
+                        <TableCell>{row.summary.customer || '—'}</TableCell>
+                        <TableCell className="text-sm">
+                          {row.summary.origin || '—'} → {row.summary.destination || '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{row.summary.cubic_feet ?? '—'}</TableCell>
+                        <TableCell>
+                          <ul className="space-y-0.5 text-xs text-red-600 dark:text-red-400">
+                            {row.errors.map((rowError, index) => (
+                              <li key={index}>
+                                <span className="font-medium">{fieldLabel(rowError.field)}:</span> {rowError.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {visibleRows.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="py-6 text-center text-sm text-muted-foreground">
+                          Every row passed validation.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>After import</CardTitle>
+              <CardDescription>Optionally put the new loads straight onto a trip or the load board.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Add to trip</Label>
+                <Select value={tripId ?? NONE} onValueChange={(value) => setTripId(value === NONE ? null : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Don&apos;t add to a trip</SelectItem>
+                    {trips.map((trip) => (
+                      <SelectItem key={trip.id} value={trip.id}>
+                        {trip.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 pt-7">
+                  <Checkbox
+                    id="post_to_marketplace"
+                    checked={postToMarketplace}
+                    onCheckedChange={(checked) => setPostToMarketplace(checked === true)}
+                  />
+                  <Label htmlFor="post_to_marketplace" className="text-sm">
+                    Post to marketplace
+                  </Label>
+                </div>
+                {postToMarketplace && (
+                  <Select value={truckRequirement} onValueChange={(value) => setTruckRequirement(value as TruckRequirement)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TRUCK_REQUIREMENT_LABELS) as TruckRequirement[]).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {TRUCK_REQUIREMENT_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-between">
+            <Button type="button" variant="outline" onClick={() => setStep(1)}>
+              Back to Mapping
+            </Button>
+            <Button type="button" disabled={isPending || preview.valid_count === 0} onClick={handleCommit}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isPending
+                ? 'Importing...'
+                : `Import ${preview.valid_count} Load${preview.valid_count === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === 3 && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              {result.created} load{result.created === 1 ? '' : 's'} imported
+            </CardTitle>
+            <CardDescription>
+              {[
+                tripId && `${result.added_to_trip} added to the trip`,
+                postToMarketplace && `${result.posted_to_marketplace} posted to the marketplace`,
+              ]
+                .filter(Boolean)
+                .join(', ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.failed.length > 0 && (
+              <div className="space-y-1 rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-sm">
+                <p className="flex items-center gap-2 font-medium text-amber-700 dark:text-amber-400">
+                  <AlertTriangle className="h-4 w-4" />
+                  {result.failed.length} row{result.failed.length === 1 ? '' : 's'} need attention
+                </p>
+                <ul className="space-y-0.5 text-xs text-muted-foreground">
+                  {result.failed.map((failure, index) => (
+                    <li key={index}>
+                      Row {failure.row}: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button asChild>
+                <Link href="/dashboard/loads">View Loads</Link>
+              </Button>
+              <Button type="button" variant="outline" onClick={reset}>
+                Import Another File
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import { getCompaniesForUser } from '@/data/companies';
+import { getTripsForLoadAssignment } from '@/data/trips';
+import {
+  commitLoadImport,
+  deleteLoadImportTemplate,
+  listLoadImportTemplates,
+  previewLoadImport,
+  saveLoadImportTemplate,
+  type LoadImportCommitInput,
+  type LoadImportInput,
+  type LoadImportTemplateInput,
+} from '@/data/load-imports';
+import type { LoadImportCommitResult, LoadImportPreview } from '@/data/load-imports-shared';
+import { CreationPageShell } from '@/components/layout/CreationPageShell';
+import { Button } from '@/components/ui/button';
+import { LoadImportWizard } from './_components/load-import-wizard';
+
+// Large imports geocode and save each load in turn
+export const maxDuration = 300;
+
+export default async function ImportLoadsPage() {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const [companies, trips, templates] = await Promise.all([
+    getCompaniesForUser(user.id),
+    getTripsForLoadAssignment(user.id),
+    listLoadImportTemplates(user.id),
+  ]);
+
+  async function previewAction(
+    input: LoadImportInput
+  ): Promise<{ success: boolean; preview?: LoadImportPreview; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    return previewLoadImport(user.id, input);
+  }
+
+  async function commitAction(input: LoadImportCommitInput): Promise<LoadImportCommitResult> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Not authenticated',
+        created: 0,
+        load_ids: [],
+        failed: [],
+        added_to_trip: 0,
+        posted_to_marketplace: 0,
+      };
+    }
+
+    const result = await commitLoadImport(user.id, input);
+    if (result.created > 0) {
+      revalidatePath('/dashboard/loads');
+      if (input.trip_id) revalidatePath(`/dashboard/trips/${input.trip_id}`);
+    }
+    return result;
+  }
+
+  async function saveTemplateAction(
+    input: LoadImportTemplateInput,
+    templateId?: string | null
+  ): Promise<{ success: boolean; id?: string; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await saveLoadImportTemplate(user.id, input, templateId);
+    if (result.success) {
+      revalidatePath('/dashboard/loads/import');
+    }
+    return result;
+  }
+
+  async function deleteTemplateAction(templateId: string): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await deleteLoadImportTemplate(user.id, templateId);
+    if (result.success) {
+      revalidatePath('/dashboard/loads/import');
+    }
+    return result;
+  }
+
+  return (
+    <CreationPageShell
+      title="Import Loads"
+      subtitle="Bring in loads from another TMS export. Map the columns once per partner, check every row in a dry run, then create them in bulk."
+      pill="Bulk import"
+      actions={
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/loads">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Loads
+          </Link>
+        </Button>
+      }
+    >
+      <LoadImportWizard
+        companies={companies.map((company) => ({ id: company.id, name: company.name }))}
+        trips={trips.map((trip) => ({
+          id: trip.id,
+          label: [
+            `Trip ${trip.trip_number}`,
+            [trip.origin_city, trip.destination_city].filter(Boolean).join(' → '),
+          ]
+            .filter(Boolean)
+            .join(' · '),
+        }))}
+        templates={templates}
+        previewAction={previewAction}
+        commitAction={commitAction}
+        saveTemplateAction={saveTemplateAction}
+        deleteTemplateAction={deleteTemplateAction}
+      />
+    </CreationPageShell>
+  );
+}
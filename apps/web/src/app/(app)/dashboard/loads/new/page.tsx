@@ -6,6 +6,7 @@ import { getDriversForUser } from '@/data/drivers';
 import { getTrucksForUser, getTrailersForUser } from '@/data/fleet';
 import { getTripsForLoadAssignment, addLoadToTrip } from '@/data/trips';
 import { getStorageLocations, createStorageLocation, type StorageLocation } from '@/data/storage-locations';
+import { quoteLoad, type LoadQuoteInput, type RateQuoteResult } from '@/data/rate-tables';
 import { LoadCreateForm } from '@/components/loads/LoadCreateForm';
 import { CreationPageShell } from '@/components/layout/CreationPageShell';
 import { cleanFormValues, extractFormValues } from '@/lib/form-data';
@@ -71,15 +72,38 @@ export default async function NewLoadPage() {
       'materials_rate',
       'accessorials_rate',
       'balance_due',
+      'contract_accessorials_stairs',
+      'contract_accessorials_long_carry',
+      'contract_accessorials_shuttle',
+      'contract_accessorials_bulky',
+      'contract_accessorials_packing',
+      'contract_accessorials_other',
+      'contract_accessorials_total',
+      'actual_cuft_loaded',
+      'weight_lbs_estimate',
+      'pieces_count',
+      'delivery_date',
+      'contract_notes',
+      'rate_table_id',
+      'rate_table_rule_id',
+      'pricing_rule',
+      'linehaul_minimum',
+      'fuel_surcharge_percent',
       'customer_name',
       'customer_phone',
       'delivery_address_full',
       'notes',
       'storage_location_id',
       'storage_unit',
+      'rfd_date',
+      'rfd_date_tbd',
+      'rfd_days_to_deliver',
+      'rfd_use_business_days',
     ];
 
-    const rawData = extractFormValues(formData, fields);
+    const rawData = extractFormValues(formData, fields, {
+      booleanFields: ['rfd_date_tbd', 'rfd_use_business_days'],
+    });
     const cleanedData = cleanFormValues(rawData);
 
     // Get optional trip assignment fields
@@ -139,6 +163,14 @@ export default async function NewLoadPage() {
     return createStorageLocation(user.id, data);
   }
 
+  async function quoteLoadAction(input: LoadQuoteInput): Promise<RateQuoteResult> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    return quoteLoad(user.id, input);
+  }
+
   return (
     <CreationPageShell
       title="Add Load"
@@ -153,6 +185,7 @@ export default async function NewLoadPage() {
         trips={trips}
         storageLocations={storageLocations}
         onCreateStorageLocation={createStorageLocationAction}
+        onQuote={quoteLoadAction}
         onSubmit={createLoadAction}
       />
     </CreationPageShell>
@@ -159,9 +159,14 @@ export default async function LoadsPage({ searchParams }: LoadsPageProps) {
           <h1 className="text-3xl font-semibold tracking-tight text-foreground">Loads</h1>
           <p className="text-sm text-muted-foreground mt-1">Manage your loads and assignments</p>
         </div>
-        <Button asChild className="w-full md:w-auto">
-          <Link href="/dashboard/loads/new">Add Load</Link>
-        </Button>
+        <div className="flex flex-col gap-2 md:flex-row">
+          <Button asChild variant="outline" className="w-full md:w-auto">
+            <Link href="/dashboard/loads/import">Import Loads</Link>
+          </Button>
+          <Button asChild className="w-full md:w-auto">
+            <Link href="/dashboard/loads/new">Add Load</Link>
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -12,6 +12,8 @@ import {
   ArrowLeft,
   Undo2,
   Star,
+  Repeat,
+  Handshake,
 } from 'lucide-react';
 import { getCurrentUser } from '@/lib/supabase-server';
 import {
@@ -31,6 +33,9 @@ const notificationIcons: Record<string, { icon: React.ElementType; color: string
   load_confirmed: { icon: CheckCircle, color: 'text-green-600' },
   driver_assigned: { icon: Truck, color: 'text-purple-500' },
   request_withdrawn: { icon: ArrowLeft, color: 'text-amber-500' },
+  load_request_countered: { icon: Repeat, color: 'text-purple-500' },
+  load_request_agreed: { icon: Handshake, color: 'text-emerald-500' },
+  request_countered: { icon: Repeat, color: 'text-purple-500' },
   load_given_back: { icon: Undo2, color: 'text-orange-500' },
   carrier_canceled: { icon: X, color: 'text-red-600' },
   partner_load_posted: { icon: Star, color: 'text-yellow-500' },
@@ -162,9 +167,16 @@ export default async function NotificationsPage() {
                     const isUnread = !notification.is_read;
                     // Determine the correct link based on notification type
                     let linkHref = '#';
-                    if (notification.type === 'load_request_received') {
+                    if (
+                      notification.type === 'load_request_received' ||
+                      notification.type === 'load_request_countered' ||
+                      notification.type === 'load_request_agreed'
+                    ) {
                       // Company receiving a request should go to carrier requests page
                       linkHref = '/dashboard/carrier-requests';
+                    } else if (notification.type === 'request_countered') {
+                      // Carrier answering the poster's counter offer
+                      linkHref = '/dashboard/my-requests';
                     } else if (notification.type === 'partner_load_posted' && notification.load_id) {
                       linkHref = '/dashboard/load-board';
                     } else if (
@@ -1,30 +1,212 @@
 import { redirect } from "next/navigation"
+import { revalidatePath } from "next/cache"
+import Link from "next/link"
+import { FileSpreadsheet } from "lucide-react"
 
 import { getCurrentUser } from "@/lib/supabase-server"
+import {
+  getHelpersForUser,
+  createHelper,
+  updateHelper,
+  formatHelperName,
+  HELPER_RATE_TYPE_LABELS,
+  type HelperRateType,
+  type HelperStatus,
+} from "@/data/helpers"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 
-export default async function HelpersPage() {
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export default async function HelpersPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>
+}) {
   const user = await getCurrentUser()
   if (!user) {
     redirect("/login")
   }
 
+  const { error } = await searchParams
+  const helpers = await getHelpersForUser(user.id, { includeInactive: true })
+
+  async function addHelperAction(formData: FormData) {
+    "use server"
+    const user = await getCurrentUser()
+    if (!user) redirect("/login")
+    const result = await createHelper(user.id, {
+      firstName: (formData.get("first_name") as string) || "",
+      lastName: (formData.get("last_name") as string) || null,
+      phone: (formData.get("phone") as string) || null,
+      homeCity: (formData.get("home_city") as string) || null,
+      homeState: (formData.get("home_state") as string) || null,
+      rateType: ((formData.get("rate_type") as string) || "hourly") as HelperRateType,
+      rate: Number(formData.get("rate")) || 0,
+    })
+    if (!result.success) {
+      redirect(`/dashboard/people/helpers?error=${encodeURIComponent(result.error || "Failed to add helper")}`)
+    }
+    revalidatePath("/dashboard/people/helpers")
+  }
+
+  async function setStatusAction(formData: FormData) {
+    "use server"
+    const user = await getCurrentUser()
+    if (!user) redirect("/login")
+    const result = await updateHelper(formData.get("id") as string, user.id, {
+      status: formData.get("status") as HelperStatus,
+    })
+    if (!result.success) {
+      redirect(`/dashboard/people/helpers?error=${encodeURIComponent(result.error || "Failed to update helper")}`)
+    }
+    revalidatePath("/dashboard/people/helpers")
+  }
+
+  async function updateRateAction(formData: FormData) {
+    "use server"
+    const user = await getCurrentUser()
+    if (!user) redirect("/login")
+    const result = await updateHelper(formData.get("id") as string, user.id, {
+      rateType: formData.get("rate_type") as HelperRateType,
+      rate: Number(formData.get("rate")) || 0,
+    })
+    if (!result.success) {
+      redirect(`/dashboard/people/helpers?error=${encodeURIComponent(result.error || "Failed to update helper")}`)
+    }
+    revalidatePath("/dashboard/people/helpers")
+  }
+
   return (
     <div className="space-y-4">
-      <div className="space-y-1">
-        <h1 className="text-2xl font-semibold tracking-tight text-foreground">Crew & Helpers</h1>
-        <p className="text-sm text-muted-foreground">
-          Track non-driver crew members and helpers. This workspace is coming soon.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold tracking-tight text-foreground">Crew & Helpers</h1>
+          <p className="text-sm text-muted-foreground">
+            Day labor hired for loading and delivery. Add helpers to a load from the load detail page.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/people/helpers/pay-report">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Pay Report
+          </Link>
+        </Button>
       </div>
 
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base font-semibold">Add helper</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form action={addHelperAction} className="grid gap-2 md:grid-cols-8 items-end">
+            <Input name="first_name" placeholder="First name" required aria-label="First name" />
+            <Input name="last_name" placeholder="Last name" aria-label="Last name" />
+            <Input name="phone" placeholder="Phone" aria-label="Phone" />
+            <Input name="home_city" placeholder="City" aria-label="City" />
+            <Input name="home_state" placeholder="State" maxLength={2} aria-label="State" />
+            <select name="rate_type" defaultValue="hourly" className={selectClassName} aria-label="Rate type">
+              {(Object.keys(HELPER_RATE_TYPE_LABELS) as HelperRateType[]).map((type) => (
+                <option key={type} value={type}>
+                  {HELPER_RATE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <Input name="rate" type="number" step="0.01" min="0" required placeholder="Rate" aria-label="Rate" />
+            <Button type="submit">Add Helper</Button>
+          </form>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
-          <CardTitle className="text-base font-semibold">Coming soon</CardTitle>
+          <CardTitle className="text-base font-semibold">Roster ({helpers.length})</CardTitle>
         </CardHeader>
-        <CardContent className="text-sm text-muted-foreground space-y-2">
-          <p>We&apos;re building a dedicated experience for crew and helpers with roles, schedules, and payroll views.</p>
-          <p>For now, continue managing drivers from the People section.</p>
+        <CardContent>
+          {helpers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No helpers yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Based in</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {helpers.map((helper) => (
+                  <TableRow key={helper.id} className={helper.status === "inactive" ? "opacity-60" : undefined}>
+                    <TableCell className="font-medium">{formatHelperName(helper)}</TableCell>
+                    <TableCell>{helper.phone || "—"}</TableCell>
+                    <TableCell>
+                      {[helper.home_city, helper.home_state].filter(Boolean).join(", ") || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <form action={updateRateAction} className="flex items-center gap-2">
+                        <input type="hidden" name="id" value={helper.id} />
+                        <select
+                          name="rate_type"
+                          defaultValue={helper.rate_type}
+                          className={`${selectClassName} w-32`}
+                          aria-label="Rate type"
+                        >
+                          {(Object.keys(HELPER_RATE_TYPE_LABELS) as HelperRateType[]).map((type) => (
+                            <option key={type} value={type}>
+                              {HELPER_RATE_TYPE_LABELS[type]}
+                            </option>
+                          ))}
+                        </select>
+                        <Input
+                          name="rate"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          defaultValue={helper.rate.toFixed(2)}
+                          className="w-24"
+                          aria-label="Rate"
+                        />
+                        <Button type="submit" variant="ghost" size="sm">
+                          Save
+                        </Button>
+                      </form>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={helper.status === "active" ? "default" : "secondary"}>
+                        {helper.status === "active" ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <form action={setStatusAction}>
+                        <input type="hidden" name="id" value={helper.id} />
+                        <input
+                          type="hidden"
+                          name="status"
+                          value={helper.status === "active" ? "inactive" : "active"}
+                        />
+                        <Button type="submit" variant="outline" size="sm">
+                          {helper.status === "active" ? "Deactivate" : "Reactivate"}
+                        </Button>
+                      </form>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
     </div>
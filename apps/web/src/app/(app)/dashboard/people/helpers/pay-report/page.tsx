@@ -0,0 +1,219 @@
+import { redirect } from "next/navigation"
+import { revalidatePath } from "next/cache"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { getCurrentUser, getCurrentUserPermissions } from "@/lib/supabase-server"
+import { AccessDenied } from "@/components/access-denied"
+import { getHelperPayReport, markHelperLaborPaid, HELPER_EVENT_LABELS } from "@/data/helpers"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split("T")[0]}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  })
+}
+
+export default async function HelperPayReportPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ start?: string; end?: string; error?: string }>
+}) {
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect("/login")
+  }
+
+  const permissions = await getCurrentUserPermissions()
+  if (!permissions?.can_view_financials) {
+    return <AccessDenied message="You don't have permission to view helper pay." />
+  }
+
+  const today = new Date().toISOString().split("T")[0]
+  const weekAgoDate = new Date()
+  weekAgoDate.setDate(weekAgoDate.getDate() - 6)
+  const weekAgo = weekAgoDate.toISOString().split("T")[0]
+  const { start = weekAgo, end = today, error } = await searchParams
+
+  const rows = await getHelperPayReport({ ownerId: user.id, periodStart: start, periodEnd: end })
+  const totals = rows.reduce(
+    (acc, row) => ({
+      jobs: acc.jobs + row.jobs,
+      amount: acc.amount + row.amount,
+      unpaid: acc.unpaid + row.unpaid_amount,
+    }),
+    { jobs: 0, amount: 0, unpaid: 0 }
+  )
+
+  async function markPaidAction(formData: FormData) {
+    "use server"
+    const user = await getCurrentUser()
+    if (!user) redirect("/login")
+    const periodStart = formData.get("period_start") as string
+    const periodEnd = formData.get("period_end") as string
+    const result = await markHelperLaborPaid(user.id, {
+      helperId: formData.get("helper_id") as string,
+      periodStart,
+      periodEnd,
+    })
+    if (!result.success) {
+      redirect(
+        `/dashboard/people/helpers/pay-report?start=${periodStart}&end=${periodEnd}&error=${encodeURIComponent(
+          result.error || "Failed to mark paid"
+        )}`
+      )
+    }
+    revalidatePath("/dashboard/people/helpers/pay-report")
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/people/helpers">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Helpers
+          </Link>
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight text-foreground">Helper Pay Report</h1>
+        <p className="text-sm text-muted-foreground">Labor owed to helpers for jobs worked in the pay period.</p>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <form method="get" className="grid gap-3 md:grid-cols-4 items-end">
+            <div>
+              <Label htmlFor="start">From</Label>
+              <Input id="start" name="start" type="date" defaultValue={start} required />
+            </div>
+            <div>
+              <Label htmlFor="end">To</Label>
+              <Input id="end" name="end" type="date" defaultValue={end} required />
+            </div>
+            <Button type="submit" variant="outline">
+              Run Report
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Jobs</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-bold">{totals.jobs}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Labor</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-bold">{formatCurrency(totals.amount)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Unpaid</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-bold text-orange-600">{formatCurrency(totals.unpaid)}</CardContent>
+        </Card>
+      </div>
+
+      {rows.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">No helper labor in this period.</CardContent>
+        </Card>
+      ) : (
+        rows.map((row) => (
+          <Card key={row.helper_id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle className="text-base font-semibold">{row.helper_name}</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  {row.jobs} job{row.jobs === 1 ? "" : "s"}
+                  {row.hours > 0 ? ` · ${row.hours} hrs` : ""}
+                  {row.phone ? ` · ${row.phone}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="text-right">
+                  <p className="font-bold">{formatCurrency(row.amount)}</p>
+                  {row.unpaid_amount > 0 && (
+                    <p className="text-xs text-orange-600">{formatCurrency(row.unpaid_amount)} unpaid</p>
+                  )}
+                </div>
+                {row.unpaid_amount > 0 && (
+                  <form action={markPaidAction}>
+                    <input type="hidden" name="helper_id" value={row.helper_id} />
+                    <input type="hidden" name="period_start" value={start} />
+                    <input type="hidden" name="period_end" value={end} />
+                    <Button type="submit" size="sm">
+                      Mark Paid
+                    </Button>
+                  </form>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Load</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {row.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{formatDate(entry.work_date)}</TableCell>
+                      <TableCell>
+                        <Link href={`/dashboard/loads/${entry.load_id}`} className="hover:underline">
+                          {entry.load_number || "Load"}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{HELPER_EVENT_LABELS[entry.event_type]}</TableCell>
+                      <TableCell className="text-right">{entry.hours ?? "—"}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.amount)}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.paid_at ? "default" : "secondary"}>
+                          {entry.paid_at ? "Paid" : "Unpaid"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
@@ -445,10 +445,30 @@ export default function PostLoadPage() {
           : null;
       }
 
-      const { error: insertError } = await supabase.from('loads').insert(payload);
+      const { data: insertedLoad, error: insertError } = await supabase
+        .from('loads')
+        .insert(payload)
+        .select('id')
+        .single();
 
       if (insertError) throw insertError;
 
+      // Alert users whose saved searches match (the loads trigger does this too;
+      // matching is idempotent)
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (session && insertedLoad) {
+        fetch('/api/saved-searches/match', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ load_id: insertedLoad.id }),
+        }).catch(() => {});
+      }
+
       // Redirect to posted jobs
       router.push('/dashboard/posted-jobs');
     } catch (err) {
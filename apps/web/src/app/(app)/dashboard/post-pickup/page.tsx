@@ -204,10 +204,26 @@ export default function PostPickupPage() {
         linehaul_amount: parseFloat(formData.balance_due) || 0,
         company_rate: parseFloat(formData.balance_due) || 0,
         notes: formData.notes,
-      });
+      }).select('id').single();
 
       if (insertError) throw insertError;
 
+      // Alert users whose saved searches match (the loads trigger does this too;
+      // matching is idempotent)
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (session && insertedLoad) {
+        fetch('/api/saved-searches/match', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ load_id: insertedLoad.id }),
+        }).catch(() => {});
+      }
+
       // Redirect to posted jobs
       router.push('/dashboard/posted-jobs');
     } catch (err) {
@@ -9,6 +9,15 @@ import { Separator } from '@/components/ui/separator';
 import { MarketplaceActions } from '@/components/marketplace/marketplace-actions';
 import { ReliabilityBadge } from '@/components/reliability-badge';
 import { LoadRequestActions } from '@/components/load-request-actions';
+import { LoadRequestNegotiationThread } from '@/components/load-request-negotiation-thread';
+import {
+  CarrierScorecardBadge,
+  CarrierScorecardDetails,
+  ScorecardRequestFilter,
+} from '@/components/carrier-scorecard';
+import { getCarrierScorecards } from '@/data/carrier-scorecards';
+import { meetsMinimumScore } from '@/data/carrier-scorecards-shared';
+import { getRequestOfferThreads } from '@/data/load-request-negotiation';
 import { checkCarrierCompliance } from '@/data/compliance-alerts';
 import { getLoadRequests, acceptLoadRequest, declineLoadRequest } from '@/data/marketplace';
 import { getLoadStatusHistory } from '@/data/load-status';
@@ -40,6 +49,7 @@ import {
 
 interface PageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ min_score?: string; sort?: string }>;
 }
 
 interface PostedJob {
@@ -121,6 +131,8 @@ interface LoadRequest {
   proposed_delivery_date_end: string | null;
   created_at: string;
   responded_at: string | null;
+  awaiting_response_from: 'carrier' | 'poster';
+  agreed_rate: number | null;
 }
 
 function getStatusBadge(status: string) {
@@ -269,8 +281,10 @@ function getDestination(job: PostedJob) {
   return { city, state, zip };
 }
 
-export default async function PostedJobDetailPage({ params }: PageProps) {
+export default async function PostedJobDetailPage({ params, searchParams }: PageProps) {
   const { id } = await params;
+  const { min_score, sort } = await searchParams;
+  const minScore = Number(min_score) || null;
   const user = await getCurrentUser();
   if (!user) redirect('/login');
 
@@ -327,6 +341,7 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
   const requests = (await getLoadRequests(id)) as unknown as LoadRequest[];
   const pendingRequests = requests.filter((r) => r.status === 'pending');
   const respondedRequests = requests.filter((r) => r.status !== 'pending');
+  const offerThreads = await getRequestOfferThreads(pendingRequests.map((r) => r.id));
 
   // Fetch compliance issues for each pending request's carrier
   const pendingRequestsWithCompliance = await Promise.all(
@@ -342,6 +357,19 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
     })
   );
 
+  // Scorecard filter and sort from the query string
+  const scorecards = await getCarrierScorecards(
+    pendingRequests.map((r) => r.carrier?.id).filter((carrierId): carrierId is string => !!carrierId)
+  );
+  const visibleRequests = pendingRequestsWithCompliance
+    .filter((request) => meetsMinimumScore(scorecards[request.carrier?.id ?? ''], minScore))
+    .sort((a, b) =>
+      sort === 'score'
+        ? (scorecards[b.carrier?.id ?? '']?.score ?? -1) - (scorecards[a.carrier?.id ?? '']?.score ?? -1)
+        : 0
+    );
+  const hiddenRequestCount = pendingRequestsWithCompliance.length - visibleRequests.length;
+
   // Server actions for accept/decline
   async function acceptAction(formData: FormData) {
     'use server';
@@ -751,7 +779,19 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
         {/* Pending Requests */}
         {pendingRequestsWithCompliance.length > 0 && (
           <div className="space-y-4">
-            {pendingRequestsWithCompliance.map((request) => (
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <ScorecardRequestFilter minScore={minScore} sort={sort} />
+              {hiddenRequestCount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {hiddenRequestCount} hidden below the minimum scorecard.{' '}
+                  <Link href={`/dashboard/posted-jobs/${id}`} className="underline">
+                    Show all
+                  </Link>
+                </p>
+              )}
+            </div>
+
+            {visibleRequests.map((request) => (
               <Card key={request.id} className="border-yellow-500/20">
                 <CardContent className="p-4 space-y-4">
                   {/* Carrier Header */}
@@ -777,6 +817,7 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
                             loadsGivenBack={request.carrier?.loads_given_back ?? null}
                             loadsAcceptedTotal={request.carrier?.loads_accepted_total ?? null}
                           />
+                          <CarrierScorecardBadge scorecard={scorecards[request.carrier?.id ?? '']} />
                         </div>
                         <p className="text-sm text-muted-foreground">
                           {request.carrier?.city}, {request.carrier?.state}
@@ -875,6 +916,18 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
                     )}
                   </div>
 
+                  {/* Scorecard */}
+                  {scorecards[request.carrier?.id ?? ''] && (
+                    <details className="rounded-lg border p-3">
+                      <summary className="cursor-pointer text-sm font-medium">
+                        Scorecard (last 12 months)
+                      </summary>
+                      <div className="mt-3">
+                        <CarrierScorecardDetails scorecard={scorecards[request.carrier?.id ?? '']} />
+                      </div>
+                    </details>
+                  )}
+
                   {/* Message */}
                   {request.message && (
                     <div className="p-3 bg-muted/50 rounded-lg">
@@ -882,6 +935,15 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
                     </div>
                   )}
 
+                  {/* Negotiation Thread */}
+                  {(offerThreads[request.id]?.length ?? 0) > 1 && (
+                    <LoadRequestNegotiationThread
+                      offers={offerThreads[request.id]}
+                      viewer="poster"
+                      carrierName={request.carrier?.name}
+                    />
+                  )}
+
                   {/* New Carrier Warning */}
                   {!request.is_partner && (
                     <div className="flex items-start gap-2 p-3 bg-yellow-500/10 rounded-lg">
@@ -901,10 +963,19 @@ export default async function PostedJobDetailPage({ params }: PageProps) {
                   {/* Actions */}
                   <LoadRequestActions
                     requestId={request.id}
-                    acceptedCompanyRate={request.accepted_company_rate}
-                    offeredRate={request.offered_rate}
+                    acceptedCompanyRate={request.accepted_company_rate && !offerThreads[request.id]}
+                    offeredRate={
+                      request.agreed_rate ??
+                      offerThreads[request.id]?.find((o) => o.status === 'open' && o.offered_by === 'carrier')?.rate ??
+                      request.offered_rate
+                    }
                     complianceIssues={request.complianceIssues}
                     blockOnExpired={false}
+                    acceptDisabledReason={
+                      request.awaiting_response_from === 'carrier'
+                        ? 'Waiting for the carrier to answer your counter offer'
+                        : null
+                    }
                     acceptAction={acceptAction}
                     declineAction={declineAction}
                   />
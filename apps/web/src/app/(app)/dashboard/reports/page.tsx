@@ -13,6 +13,7 @@ import {
   Store,
   DollarSign,
   ArrowRight,
+  Warehouse,
 } from "lucide-react";
 
 const detailedReports = [
@@ -56,6 +57,14 @@ const detailedReports = [
     href: '/dashboard/reports/marketplace',
     color: 'text-cyan-500',
   },
+  {
+    id: 'storage',
+    title: 'Storage Revenue',
+    description: 'Storage billed vs. storage rent',
+    icon: Warehouse,
+    href: '/dashboard/reports/storage',
+    color: 'text-amber-500',
+  },
 ];
 
 export default async function ReportsPage() {
@@ -77,7 +86,7 @@ export default async function ReportsPage() {
       </div>
 
       {/* Detailed Report Links */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {detailedReports.map((report) => {
           const Icon = report.icon;
           return (
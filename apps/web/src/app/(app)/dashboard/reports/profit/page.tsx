@@ -9,7 +9,7 @@ export default async function ProfitReportPage() {
   const supabase = await createClient();
   const { data, error } = await supabase
     .from('trips')
-    .select('id, trip_number, start_date, end_date, revenue_total, driver_pay_total, fuel_total, tolls_total, other_expenses_total, profit_total, truck:trucks(id, unit_number), driver:drivers(id, first_name, last_name)')
+    .select('id, trip_number, start_date, end_date, revenue_total, driver_pay_total, fuel_total, tolls_total, other_expenses_total, helper_labor_total, profit_total, truck:trucks(id, unit_number), driver:drivers(id, first_name, last_name)')
     .eq('owner_id', user.id)
     .order('start_date', { ascending: false })
     .limit(50);
@@ -50,7 +50,11 @@ export default async function ProfitReportPage() {
             )}
             {rows.map((row) => {
               const expenses =
-                (row.driver_pay_total || 0) + (row.fuel_total || 0) + (row.tolls_total || 0) + (row.other_expenses_total || 0);
+                (row.driver_pay_total || 0) +
+                (row.fuel_total || 0) +
+                (row.tolls_total || 0) +
+                (row.other_expenses_total || 0) +
+                (row.helper_labor_total || 0);
               return (
                 <tr key={row.id} className="border-b border-border/40">
                 <td className="px-4 py-3 font-medium">{row.trip_number}</td>
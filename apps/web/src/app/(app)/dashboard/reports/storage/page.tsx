@@ -0,0 +1,207 @@
+import { getCurrentUser } from '@/lib/supabase-server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getStorageRevenueReport } from '@/data/storage-billing';
+import type { StorageRevenueReport } from '@/data/storage-billing-shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Warehouse } from 'lucide-react';
+
+interface PageProps {
+  searchParams: Promise<{ months?: string }>;
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '-' : ''}$${Math.abs(Math.round(amount)).toLocaleString()}`;
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+export default async function StorageReportPage({ searchParams }: PageProps) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  const params = await searchParams;
+  const months = [3, 6, 12, 24].includes(Number(params.months)) ? Number(params.months) : 12;
+
+  let report: StorageRevenueReport | null = null;
+  let error: string | null = null;
+  try {
+    report = await getStorageRevenueReport(user.id, months);
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load storage report';
+  }
+
+  const maxValue = report ? Math.max(1, ...report.months.map((m) => Math.max(m.revenue, m.rent_cost))) : 1;
+
+  return (
+    <div className="container py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2">
+            <Link href="/dashboard/reports">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Reports
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Warehouse className="h-6 w-6 text-amber-500" />
+            Storage Revenue
+          </h1>
+          <p className="text-muted-foreground">
+            Storage billed to customers and partners against rent paid for storage locations
+          </p>
+        </div>
+
+        <form className="flex items-center gap-2">
+          <select
+            name="months"
+            defaultValue={String(months)}
+            className="border rounded px-2 py-1 text-sm bg-background"
+          >
+            <option value="3">Last 3 months</option>
+            <option value="6">Last 6 months</option>
+            <option value="12">Last 12 months</option>
+            <option value="24">Last 24 months</option>
+          </select>
+          <Button type="submit" size="sm">
+            Apply
+          </Button>
+        </form>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">Error: {error}</CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Storage Billed</p>
+                <p className="text-2xl md:text-3xl font-bold text-green-500">{formatMoney(report.totals.revenue)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Storage Rent</p>
+                <p className="text-2xl md:text-3xl font-bold text-red-500">{formatMoney(report.totals.rent_cost)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Net</p>
+                <p className={`text-2xl md:text-3xl font-bold ${report.totals.net < 0 ? 'text-red-500' : ''}`}>
+                  {formatMoney(report.totals.net)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Unpaid</p>
+                <p className="text-2xl md:text-3xl font-bold">{formatMoney(report.totals.outstanding)}</p>
+                {report.totals.past_due > 0 && (
+                  <p className="text-xs text-red-500">{formatMoney(report.totals.past_due)} past due</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Monthly */}
+          <Card>
+            <CardHeader>
+              <CardTitle>By Month</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {report.months.map((row) => (
+                  <div key={row.month} className="flex items-center gap-4">
+                    <div className="w-20 md:w-24 text-sm text-muted-foreground shrink-0">{formatMonth(row.month)}</div>
+                    <div className="flex-1 space-y-1">
+                      <div className="bg-muted rounded-full h-3 overflow-hidden">
+                        <div className="bg-green-500 h-full" style={{ width: `${(row.revenue / maxValue) * 100}%` }} />
+                      </div>
+                      <div className="bg-muted rounded-full h-3 overflow-hidden">
+                        <div className="bg-red-400 h-full" style={{ width: `${(row.rent_cost / maxValue) * 100}%` }} />
+                      </div>
+                    </div>
+                    <div className="w-40 text-sm text-right shrink-0">
+                      <span className="text-green-600">{formatMoney(row.revenue)}</span>
+                      {' / '}
+                      <span className="text-red-500">{formatMoney(row.rent_cost)}</span>
+                      <p className={`text-xs ${row.net < 0 ? 'text-red-500' : 'text-muted-foreground'}`}>
+                        Net {formatMoney(row.net)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-4 text-xs text-muted-foreground mt-4">
+                <span className="flex items-center gap-1">
+                  <span className="h-2 w-4 rounded bg-green-500" /> Billed
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-2 w-4 rounded bg-red-400" /> Rent
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* By Location */}
+          <Card>
+            <CardHeader>
+              <CardTitle>By Location</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.by_location.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No storage billed or rent recorded</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="py-2 font-medium">Location</th>
+                        <th className="py-2 font-medium text-right">Billed</th>
+                        <th className="py-2 font-medium text-right">Rent</th>
+                        <th className="py-2 font-medium text-right">Net</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.by_location.map((row) => (
+                        <tr key={row.location_id ?? 'none'} className="border-b last:border-0">
+                          <td className="py-2">
+                            {row.location_id ? (
+                              <Link href={`/dashboard/storage/${row.location_id}`} className="hover:underline">
+                                {row.name}
+                              </Link>
+                            ) : (
+                              <span className="text-muted-foreground">{row.name}</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right">{formatMoney(row.revenue)}</td>
+                          <td className="py-2 text-right">{formatMoney(row.rent_cost)}</td>
+                          <td
+                            className={`py-2 text-right font-medium ${row.revenue - row.rent_cost < 0 ? 'text-red-500' : ''}`}
+                          >
+                            {formatMoney(row.revenue - row.rent_cost)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Save, MapPin, DollarSign, Bell, Truck } from 'lucide-react';
+import { Loader2, Save, MapPin, DollarSign, Bell, Truck, Timer } from 'lucide-react';
 
 const US_STATES = [
   'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
@@ -37,6 +37,9 @@ interface MatchingSettings {
   auto_post_min_capacity_cuft: number;
   default_location_sharing: boolean;
   default_capacity_visibility: string;
+  geofence_arrival_mode: string;
+  geofence_radius_meters: number;
+  detention_free_minutes: number;
 }
 
 export default function LoadMatchingSettingsPage() {
@@ -425,6 +428,78 @@ export default function LoadMatchingSettingsPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Arrivals & Detention */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Arrivals &amp; Detention
+          </CardTitle>
+          <CardDescription>
+            The driver app detects arriving at and leaving each load&apos;s pickup, delivery and storage location.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="geofenceArrivalMode">Geofence Arrivals</Label>
+            <Select
+              value={settings.geofence_arrival_mode}
+              onValueChange={(value) =>
+                setSettings({ ...settings, geofence_arrival_mode: value })
+              }
+            >
+              <SelectTrigger id="geofenceArrivalMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="prompt">Ask the driver to confirm</SelectItem>
+                <SelectItem value="auto">Record automatically</SelectItem>
+                <SelectItem value="off">Off</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              How pickup and delivery arrival times are filled in when a driver enters the geofence
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="geofenceRadius">Geofence Radius (meters)</Label>
+              <Input
+                id="geofenceRadius"
+                type="number"
+                min="100"
+                max="2000"
+                step="50"
+                value={settings.geofence_radius_meters}
+                onChange={(e) =>
+                  setSettings({ ...settings, geofence_radius_meters: parseInt(e.target.value) || 0 })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Between 100 and 2000 meters around each stop
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="detentionFreeMinutes">Free Time per Stop (minutes)</Label>
+              <Input
+                id="detentionFreeMinutes"
+                type="number"
+                min="0"
+                step="15"
+                value={settings.detention_free_minutes}
+                onChange={(e) =>
+                  setSettings({ ...settings, detention_free_minutes: parseInt(e.target.value) || 0 })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Time on site beyond this counts as detention
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,485 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { LayoutGrid, Loader2, LogOut, PackagePlus, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  groupUnitsByRow,
+  STANDARD_VAULT_CUFT,
+  STORAGE_UNIT_TYPE_LABELS,
+  type StorageAssignmentFormValues,
+  type StorageOccupancy,
+  type StorageUnitFormValues,
+  type StorageUnitType,
+  type StorageUnitWithContents,
+} from '@/data/storage-units-shared';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface StorableLoad {
+  id: string;
+  load_number: string | null;
+  customer_name: string | null;
+  cubic_feet: number | null;
+}
+
+interface WarehouseMapProps {
+  units: StorageUnitWithContents[];
+  occupancy: StorageOccupancy;
+  storableLoads: StorableLoad[];
+  createUnitAction: (values: StorageUnitFormValues) => Promise<ActionResult>;
+  deleteUnitAction: (unitId: string) => Promise<ActionResult>;
+  assignLoadAction: (values: StorageAssignmentFormValues) => Promise<ActionResult>;
+  moveOutAction: (assignmentId: string, moveOutDate: string) => Promise<ActionResult>;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyUnit: StorageUnitFormValues = {
+  unit_number: '',
+  unit_type: 'vault',
+  length_ft: '7',
+  width_ft: '5',
+  height_ft: '7',
+  capacity_cuft: '',
+  map_row: '',
+  map_position: '',
+  notes: '',
+};
+
+function unitTileClass(unit: StorageUnitWithContents, selected: boolean) {
+  const base = 'rounded-lg border p-2 text-left transition-colors min-w-[88px]';
+  const ring = selected ? ' ring-2 ring-primary' : '';
+  if (unit.assignments.length === 0) {
+    return `${base} border-dashed border-green-500/50 bg-green-500/5 hover:bg-green-500/10${ring}`;
+  }
+  if (unit.occupancy_percent >= 100) {
+    return `${base} border-red-500/50 bg-red-500/10 hover:bg-red-500/20${ring}`;
+  }
+  return `${base} border-yellow-500/50 bg-yellow-500/10 hover:bg-yellow-500/20${ring}`;
+}
+
+export function WarehouseMap({
+  units,
+  occupancy,
+  storableLoads,
+  createUnitAction,
+  deleteUnitAction,
+  assignLoadAction,
+  moveOutAction,
+}: WarehouseMapProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [unitOpen, setUnitOpen] = useState(false);
+  const [unitForm, setUnitForm] = useState<StorageUnitFormValues>(emptyUnit);
+  const [assignOpen, setAssignOpen] = useState(false);
+  const [assignForm, setAssignForm] = useState<StorageAssignmentFormValues | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = units.find((unit) => unit.id === selectedId) || null;
+  const rows = groupUnitsByRow(units);
+
+  const run = (action: () => Promise<ActionResult>, success: string, onDone?: () => void) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        toast({ title: success });
+        onDone?.();
+      } else if (onDone) {
+        setError(result.error || 'Something went wrong');
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const openAssign = (unit: StorageUnitWithContents) => {
+    setError(null);
+    setAssignForm({ storage_unit_id: unit.id, load_id: '', move_in_date: today(), cubic_feet: '', notes: '' });
+    setAssignOpen(true);
+  };
+
+  const setUnitField = (field: keyof StorageUnitFormValues, value: string) =>
+    setUnitForm((current) => ({ ...current, [field]: value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <LayoutGrid className="h-5 w-5" />
+          Warehouse Map
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setError(null);
+            setUnitForm(emptyUnit);
+            setUnitOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Unit
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {units.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            Add the vaults, rooms or bays at this location to track what&apos;s in each one
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {occupancy.units_occupied} of {occupancy.units_total} units occupied
+                </span>
+                <span className="text-muted-foreground">
+                  {Math.round(occupancy.used_cuft).toLocaleString()} / {Math.round(occupancy.capacity_cuft).toLocaleString()} CUFT ({occupancy.occupancy_percent}%)
+                </span>
+              </div>
+              <Progress value={occupancy.occupancy_percent} />
+            </div>
+
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="h-3 w-3 rounded border border-dashed border-green-500/50 bg-green-500/5" /> Free
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-3 w-3 rounded border border-yellow-500/50 bg-yellow-500/10" /> Partly full
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-3 w-3 rounded border border-red-500/50 bg-red-500/10" /> Full
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {rows.map(({ row, units: rowUnits }) => (
+                <div key={row} className="flex gap-3">
+                  <div className="w-20 shrink-0 pt-2 text-xs font-medium text-muted-foreground">{row}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {rowUnits.map((unit) => (
+                      <button
+                        key={unit.id}
+                        type="button"
+                        className={unitTileClass(unit, unit.id === selectedId)}
+                        onClick={() => setSelectedId(unit.id === selectedId ? null : unit.id)}
+                      >
+                        <p className="font-mono text-sm font-medium">{unit.unit_number}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {unit.assignments.length === 0
+                            ? `${Math.round(unit.capacity_cuft)} CUFT`
+                            : unit.assignments.map((a) => a.load?.load_number || 'Load').join(', ')}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {selected && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium">
+                  Unit {selected.unit_number}{' '}
+                  <Badge variant="outline" className="ml-1">
+                    {STORAGE_UNIT_TYPE_LABELS[selected.unit_type]}
+                  </Badge>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {selected.length_ft && selected.width_ft && selected.height_ft
+                    ? `${selected.length_ft}' × ${selected.width_ft}' × ${selected.height_ft}' • `
+                    : ''}
+                  {Math.round(selected.used_cuft)} of {Math.round(selected.capacity_cuft)} CUFT used
+                </p>
+                {selected.notes && <p className="text-sm mt-1">{selected.notes}</p>}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => openAssign(selected)} disabled={isPending}>
+                  <PackagePlus className="h-4 w-4 mr-2" />
+                  Move In
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isPending || selected.assignments.length > 0}
+                  onClick={() =>
+                    run(() => deleteUnitAction(selected.id), `Unit ${selected.unit_number} removed`)
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {selected.assignments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This unit is empty.</p>
+            ) : (
+              <div className="space-y-2">
+                {selected.assignments.map((assignment) => (
+                  <div
+                    key={assignment.id}
+                    className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                  >
+                    <div>
+                      {assignment.load ? (
+                        <Link href={`/dashboard/loads/${assignment.load.id}`} className="font-medium hover:underline">
+                          {assignment.load.load_number || 'Load'}
+                        </Link>
+                      ) : (
+                        <p className="font-medium">Load</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {assignment.load?.customer_name || 'No customer'} • In since{' '}
+                        {new Date(`${assignment.move_in_date}T00:00:00`).toLocaleDateString()}
+                        {assignment.cubic_feet != null && ` • ${Math.round(assignment.cubic_feet)} CUFT`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={() => run(() => moveOutAction(assignment.id, today()), 'Moved out')}
+                    >
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Move Out
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add Unit Dialog */}
+      <Dialog open={unitOpen} onOpenChange={setUnitOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Storage Unit</DialogTitle>
+            <DialogDescription>
+              Enter the unit&apos;s dimensions, or its capacity if it isn&apos;t a simple box. A standard vault is{' '}
+              {STANDARD_VAULT_CUFT} CUFT.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="unit_number">Unit Number</Label>
+              <Input
+                id="unit_number"
+                value={unitForm.unit_number}
+                onChange={(e) => setUnitField('unit_number', e.target.value)}
+                placeholder="V-101"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={unitForm.unit_type}
+                onValueChange={(value) => setUnitField('unit_type', value as StorageUnitType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STORAGE_UNIT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 grid grid-cols-3 gap-2">
+              {(['length_ft', 'width_ft', 'height_ft'] as const).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={field}>{field === 'length_ft' ? 'Length' : field === 'width_ft' ? 'Width' : 'Height'} (ft)</Label>
+                  <Input
+                    id={field}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={unitForm[field]}
+                    onChange={(e) => setUnitField(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="capacity_cuft">Capacity (CUFT)</Label>
+              <Input
+                id="capacity_cuft"
+                type="number"
+                min="0"
+                value={unitForm.capacity_cuft}
+                onChange={(e) => setUnitField('capacity_cuft', e.target.value)}
+                placeholder="From dimensions"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="map_row">Row</Label>
+                <Input
+                  id="map_row"
+                  value={unitForm.map_row}
+                  onChange={(e) => setUnitField('map_row', e.target.value)}
+                  placeholder="A"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="map_position">Position</Label>
+                <Input
+                  id="map_position"
+                  type="number"
+                  min="0"
+                  value={unitForm.map_position}
+                  onChange={(e) => setUnitField('map_position', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="unit_notes">Notes (optional)</Label>
+              <Input
+                id="unit_notes"
+                value={unitForm.notes}
+                onChange={(e) => setUnitField('notes', e.target.value)}
+              />
+            </div>
+
+            {error && (
+              <div className="col-span-2 rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUnitOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                run(() => createUnitAction(unitForm), `Unit ${unitForm.unit_number} added`, () => setUnitOpen(false))
+              }
+              disabled={isPending || !unitForm.unit_number.trim()}
+            >
+              {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Add Unit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Move In Dialog */}
+      <Dialog open={assignOpen} onOpenChange={setAssignOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Load Into {selected ? `Unit ${selected.unit_number}` : 'Unit'}</DialogTitle>
+            <DialogDescription>
+              Loads dropped in storage by drivers are moved in automatically when the unit number matches.
+            </DialogDescription>
+          </DialogHeader>
+
+          {assignForm && (
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label>Load</Label>
+                <Select
+                  value={assignForm.load_id}
+                  onValueChange={(value) => setAssignForm({ ...assignForm, load_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a load" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {storableLoads.map((load) => (
+                      <SelectItem key={load.id} value={load.id}>
+                        {load.load_number || 'Load'}
+                        {load.customer_name ? ` • ${load.customer_name}` : ''}
+                        {load.cubic_feet ? ` • ${Math.round(load.cubic_feet)} CUFT` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="move_in_date">Move-In Date</Label>
+                  <Input
+                    id="move_in_date"
+                    type="date"
+                    value={assignForm.move_in_date}
+                    onChange={(e) => setAssignForm({ ...assignForm, move_in_date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="assignment_cuft">CUFT (optional)</Label>
+                  <Input
+                    id="assignment_cuft"
+                    type="number"
+                    min="0"
+                    value={assignForm.cubic_feet}
+                    onChange={(e) => setAssignForm({ ...assignForm, cubic_feet: e.target.value })}
+                    placeholder="From load"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment_notes">Notes (optional)</Label>
+                <Input
+                  id="assignment_notes"
+                  value={assignForm.notes}
+                  onChange={(e) => setAssignForm({ ...assignForm, notes: e.target.value })}
+                />
+              </div>
+
+              {error && (
+                <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-600 dark:text-red-400">
+                  {error}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                assignForm && run(() => assignLoadAction(assignForm), 'Load moved in', () => setAssignOpen(false))
+              }
+              disabled={isPending || !assignForm?.load_id}
+            >
+              {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Move In
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -29,10 +29,26 @@ import {
   markStoragePaymentPaid,
   vacateStorageLocation,
 } from '@/data/storage-locations';
+import {
+  getStorageUnitsWithContents,
+  getStorableLoads,
+  createStorageUnit,
+  deleteStorageUnit,
+  assignLoadToStorageUnit,
+  moveOutStorageAssignment,
+  storageUnitInputSchema,
+  storageAssignmentInputSchema,
+} from '@/data/storage-units';
+import {
+  summarizeOccupancy,
+  type StorageAssignmentFormValues,
+  type StorageUnitFormValues,
+} from '@/data/storage-units-shared';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PaymentActions } from './_components/payment-actions';
+import { WarehouseMap } from './_components/warehouse-map';
 
 const locationTypeLabels: Record<string, string> = {
   warehouse: 'Warehouse',
@@ -95,6 +111,11 @@ export default async function StorageLocationDetailPage({
     .in('load_status', ['pending', 'accepted', 'loading', 'loaded'])
     .order('created_at', { ascending: false });
 
+  const [units, storableLoads] = await Promise.all([
+    getStorageUnitsWithContents(id, user.id),
+    getStorableLoads(id, user.id),
+  ]);
+
   async function deleteAction() {
     'use server';
     const user = await getCurrentUser();
@@ -138,6 +159,72 @@ export default async function StorageLocationDetailPage({
     return result;
   }
 
+  async function createUnitAction(values: StorageUnitFormValues): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const parsed = storageUnitInputSchema.safeParse(values);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues[0]?.message || 'Invalid unit' };
+    }
+
+    const { id } = await params;
+    const result = await createStorageUnit(user.id, id, parsed.data);
+    if (result.success) {
+      revalidatePath(`/dashboard/storage/${id}`);
+      revalidatePath('/dashboard/storage');
+    }
+    return result;
+  }
+
+  async function deleteUnitAction(unitId: string): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const { id } = await params;
+    const result = await deleteStorageUnit(unitId, user.id);
+    if (result.success) {
+      revalidatePath(`/dashboard/storage/${id}`);
+      revalidatePath('/dashboard/storage');
+    }
+    return result;
+  }
+
+  async function assignLoadAction(values: StorageAssignmentFormValues): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const parsed = storageAssignmentInputSchema.safeParse(values);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues[0]?.message || 'Invalid assignment' };
+    }
+
+    const { id } = await params;
+    const result = await assignLoadToStorageUnit(user.id, parsed.data);
+    if (result.success) {
+      revalidatePath(`/dashboard/storage/${id}`);
+      revalidatePath('/dashboard/storage');
+    }
+    return result;
+  }
+
+  async function moveOutAction(assignmentId: string, moveOutDate: string): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const { id } = await params;
+    const result = await moveOutStorageAssignment(assignmentId, user.id, moveOutDate);
+    if (result.success) {
+      revalidatePath(`/dashboard/storage/${id}`);
+      revalidatePath('/dashboard/storage');
+    }
+    return result;
+  }
+
   // Calculate days until payment due
   const daysUntilDue = location.next_payment_due
     ? Math.ceil(
@@ -517,6 +604,17 @@ export default async function StorageLocationDetailPage({
         )}
       </div>
 
+      {/* Warehouse Map */}
+      <WarehouseMap
+        units={units}
+        occupancy={summarizeOccupancy(units)}
+        storableLoads={storableLoads}
+        createUnitAction={createUnitAction}
+        deleteUnitAction={deleteUnitAction}
+        assignLoadAction={assignLoadAction}
+        moveOutAction={moveOutAction}
+      />
+
       {/* Loads at this Location */}
       <Card>
         <CardHeader>
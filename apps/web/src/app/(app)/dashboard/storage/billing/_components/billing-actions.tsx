@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Loader2, Plus, Receipt, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  STORAGE_BILLING_CYCLE_LABELS,
+  STORAGE_TYPE_LABELS,
+  type StorageBillingCycle,
+  type StorageBillingFormValues,
+  type StorageType,
+} from '@/data/storage-billing-shared';
+
+type ActionResult = { success: boolean; error?: string };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function ErrorNote({ error }: { error: string | null }) {
+  if (!error) return null;
+  return (
+    <div className="rounded-md bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-600 dark:text-red-400">
+      {error}
+    </div>
+  );
+}
+
+interface NewStoragePlanButtonProps {
+  loads: {
+    id: string;
+    load_number: string | null;
+    customer_name: string | null;
+    company_id: string | null;
+    storage_in_date: string | null;
+  }[];
+  companies: { id: string; name: string }[];
+  createPlanAction: (values: StorageBillingFormValues) => Promise<ActionResult>;
+}
+
+export function NewStoragePlanButton({ loads, companies, createPlanAction }: NewStoragePlanButtonProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<StorageBillingFormValues>({
+    load_id: '',
+    bill_to_company_id: '',
+    storage_type: 'sit',
+    billing_cycle: 'monthly',
+    rate: '',
+    payment_terms_days: '15',
+    start_date: today(),
+    notes: '',
+  });
+
+  const selectLoad = (loadId: string) => {
+    const load = loads.find((l) => l.id === loadId);
+    setForm((current) => ({
+      ...current,
+      load_id: loadId,
+      bill_to_company_id: load?.company_id || current.bill_to_company_id,
+      start_date: load?.storage_in_date || current.start_date,
+    }));
+  };
+
+  const handleCreate = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await createPlanAction(form);
+      if (result.success) {
+        toast({ title: 'Storage billing started' });
+        setOpen(false);
+      } else {
+        setError(result.error || 'Failed to create billing plan');
+      }
+    });
+  };
+
+  return (
+    <>
+      <Button onClick={() => setOpen(true)}>
+        <Plus className="h-4 w-4 mr-2" />
+        Bill Storage
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bill Storage for a Load</DialogTitle>
+            <DialogDescription>
+              Charges are raised as receivables at the end of each period. Partial first and last periods are
+              prorated by day.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Load</Label>
+              <Select value={form.load_id} onValueChange={selectLoad}>
+                <SelectTrigger>
+                  <SelectValue placeholder={loads.length ? 'Select a load in storage' : 'No loads in storage'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {loads.map((load) => (
+                    <SelectItem key={load.id} value={load.id}>
+                      {load.load_number || 'Load'}
+                      {load.customer_name ? ` • ${load.customer_name}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Bill To</Label>
+              <Select
+                value={form.bill_to_company_id}
+                onValueChange={(value) => setForm({ ...form, bill_to_company_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Company that owns the goods" />
+                </SelectTrigger>
+                <SelectContent>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Storage Type</Label>
+                <Select
+                  value={form.storage_type}
+                  onValueChange={(value) => setForm({ ...form, storage_type: value as StorageType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STORAGE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Billing Cycle</Label>
+                <Select
+                  value={form.billing_cycle}
+                  onValueChange={(value) => setForm({ ...form, billing_cycle: value as StorageBillingCycle })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STORAGE_BILLING_CYCLE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate">Rate per {form.billing_cycle === 'weekly' ? 'Week' : 'Month'}</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  <Input
+                    id="rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.rate}
+                    onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                    className="pl-7"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_terms_days">Due (days after billing)</Label>
+                <Input
+                  id="payment_terms_days"
+                  type="number"
+                  min="0"
+                  value={form.payment_terms_days}
+                  onChange={(e) => setForm({ ...form, payment_terms_days: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="start_date">Storage Start</Label>
+                <Input
+                  id="start_date"
+                  type="date"
+                  value={form.start_date}
+                  onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan_notes">Notes (optional)</Label>
+              <Input id="plan_notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+            <ErrorNote error={error} />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={isPending || !form.load_id || !form.bill_to_company_id || form.rate === ''}
+            >
+              {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Start Billing
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface EndStoragePlanButtonProps {
+  planId: string;
+  loadNumber: string | null;
+  billedThrough: string | null;
+  endPlanAction: (planId: string, endDate: string) => Promise<ActionResult>;
+}
+
+export function EndStoragePlanButton({ planId, loadNumber, billedThrough, endPlanAction }: EndStoragePlanButtonProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+  const [endDate, setEndDate] = useState(today());
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEnd = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await endPlanAction(planId, endDate);
+      if (result.success) {
+        toast({ title: 'Storage end date set', description: 'The final period will be prorated to that day.' });
+        setOpen(false);
+      } else {
+        setError(result.error || 'Failed to end billing');
+      }
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Square className="h-3 w-3 mr-2" />
+        End
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>End Storage for {loadNumber || 'Load'}</DialogTitle>
+            <DialogDescription>
+              Enter the last day the goods were in storage.
+              {billedThrough ? ` Billed through ${new Date(`${billedThrough}T00:00:00`).toLocaleDateString()}.` : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="end_date">Last Day in Storage</Label>
+              <Input id="end_date" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <ErrorNote error={error} />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleEnd} disabled={isPending || !endDate}>
+              {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              End Storage
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface RunStorageBillingButtonProps {
+  runBillingAction: () => Promise<{ success: boolean; charges: number; amount: number; error?: string }>;
+}
+
+export function RunStorageBillingButton({ runBillingAction }: RunStorageBillingButtonProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRun = () => {
+    startTransition(async () => {
+      const result = await runBillingAction();
+      if (result.success) {
+        toast({
+          title: result.charges > 0 ? `${result.charges} storage charge${result.charges === 1 ? '' : 's'} billed` : 'Nothing to bill',
+          description: result.charges > 0 ? `$${result.amount.toFixed(2)} added to receivables.` : 'All ended periods are already billed.',
+        });
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to run billing', variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Button variant="outline" onClick={handleRun} disabled={isPending}>
+      {isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Receipt className="h-4 w-4 mr-2" />}
+      Run Billing Now
+    </Button>
+  );
+}
@@ -0,0 +1,356 @@
+import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import Link from 'next/link';
+import { ArrowLeft, BarChart3, Receipt } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import { getCompaniesForUser } from '@/data/companies';
+import {
+  createStorageBillingPlan,
+  endStorageBillingPlan,
+  generateStorageCharges,
+  getBillableStorageLoads,
+  listStorageBillingPlans,
+  listStorageCharges,
+  storageBillingPlanSchema,
+} from '@/data/storage-billing';
+import {
+  addDays,
+  STORAGE_BILLING_CYCLE_LABELS,
+  STORAGE_TYPE_LABELS,
+  type StorageBillingFormValues,
+  type StorageBillingPlan,
+  type StorageCharge,
+} from '@/data/storage-billing-shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { EndStoragePlanButton, NewStoragePlanButton, RunStorageBillingButton } from './_components/billing-actions';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const planStatusVariant: Record<StorageBillingPlan['status'], 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  ended: 'secondary',
+  cancelled: 'outline',
+};
+
+export default async function StorageBillingPage() {
+  const user = await getCurrentUser();
+  if (!user) redirect('/login');
+
+  let plans: StorageBillingPlan[] = [];
+  let charges: StorageCharge[] = [];
+  let loads: Awaited<ReturnType<typeof getBillableStorageLoads>> = [];
+  let companies: { id: string; name: string }[] = [];
+  let error: string | null = null;
+
+  try {
+    const [planRows, chargeRows, loadRows, companyRows] = await Promise.all([
+      listStorageBillingPlans(user.id),
+      listStorageCharges(user.id),
+      getBillableStorageLoads(user.id),
+      getCompaniesForUser(user.id),
+    ]);
+    plans = planRows;
+    charges = chargeRows;
+    loads = loadRows;
+    companies = companyRows.map((company) => ({ id: company.id, name: company.name }));
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Failed to load storage billing';
+  }
+
+  async function createPlanAction(values: StorageBillingFormValues): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const parsed = storageBillingPlanSchema.safeParse(values);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues[0]?.message || 'Invalid billing plan' };
+    }
+
+    const result = await createStorageBillingPlan(user.id, parsed.data);
+    if (result.success) {
+      revalidatePath('/dashboard/storage/billing');
+    }
+    return result;
+  }
+
+  async function endPlanAction(planId: string, endDate: string): Promise<{ success: boolean; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const result = await endStorageBillingPlan(planId, user.id, endDate);
+    if (result.success) {
+      revalidatePath('/dashboard/storage/billing');
+    }
+    return result;
+  }
+
+  async function runBillingAction(): Promise<{ success: boolean; charges: number; amount: number; error?: string }> {
+    'use server';
+    const user = await getCurrentUser();
+    if (!user) return { success: false, charges: 0, amount: 0, error: 'Not authenticated' };
+
+    const result = await generateStorageCharges({ userId: user.id });
+    if (result.success) {
+      revalidatePath('/dashboard/storage/billing');
+      revalidatePath('/dashboard/finance/receivables');
+    }
+    return result;
+  }
+
+  const activePlans = plans.filter((plan) => plan.status === 'active');
+  const outstanding = plans.reduce((sum, plan) => sum + plan.outstanding, 0);
+  const todayString = new Date().toISOString().slice(0, 10);
+  const pastDue = charges
+    .filter((charge) => charge.balance > 0 && charge.due_date < todayString)
+    .reduce((sum, charge) => sum + charge.balance, 0);
+  const monthlyRecurring = activePlans.reduce(
+    (sum, plan) => sum + (plan.billing_cycle === 'weekly' ? (plan.rate * 52) / 12 : plan.rate),
+    0
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link href="/dashboard/storage">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Storage
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Receipt className="h-6 w-6" />
+            Storage Billing
+          </h1>
+          <p className="text-muted-foreground">
+            Recurring charges for goods in storage, billed to the company that owns them
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/reports/storage">
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Revenue Report
+            </Link>
+          </Button>
+          <RunStorageBillingButton runBillingAction={runBillingAction} />
+          <NewStoragePlanButton loads={loads} companies={companies} createPlanAction={createPlanAction} />
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            Error: {error}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Monthly Recurring</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-emerald-600">{formatCurrency(monthlyRecurring)}</p>
+            <p className="text-xs text-muted-foreground">
+              {activePlans.length} load{activePlans.length === 1 ? '' : 's'} billing
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Outstanding</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(outstanding)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Past Due</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-2xl font-bold ${pastDue > 0 ? 'text-red-600' : ''}`}>{formatCurrency(pastDue)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Billing Plans</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {plans.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Receipt className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="font-medium">No storage being billed</p>
+              <p className="text-sm">Start billing when a load goes into SIT or permanent storage</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Load</TableHead>
+                    <TableHead>Bill To</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Billed</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/loads/${plan.load_id}`} className="text-primary hover:underline">
+                          {plan.load?.load_number || 'Load'}
+                        </Link>
+                        {plan.load?.customer_name && (
+                          <p className="text-xs text-muted-foreground">{plan.load.customer_name}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {plan.company?.name || 'Unknown'}
+                        {plan.location && <p className="text-xs text-muted-foreground">{plan.location.name}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{STORAGE_TYPE_LABELS[plan.storage_type]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(plan.rate)}
+                        <p className="text-xs text-muted-foreground">
+                          {STORAGE_BILLING_CYCLE_LABELS[plan.billing_cycle]}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(plan.start_date)} – {plan.end_date ? formatDate(plan.end_date) : 'ongoing'}
+                        <div>
+                          <Badge variant={planStatusVariant[plan.status]} className="mt-1">
+                            {plan.status}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(plan.billed_total)}</TableCell>
+                      <TableCell className="text-right">
+                        {plan.outstanding > 0 ? (
+                          <span className="font-medium">{formatCurrency(plan.outstanding)}</span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {plan.status === 'active' && !plan.end_date && (
+                          <EndStoragePlanButton
+                            planId={plan.id}
+                            loadNumber={plan.load?.load_number ?? null}
+                            billedThrough={
+                              plan.next_period_start > plan.start_date ? addDays(plan.next_period_start, -1) : null
+                            }
+                            endPlanAction={endPlanAction}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent Charges</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {charges.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <p className="text-sm">Charges appear here as each billing period ends</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Load</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {charges.map((charge) => {
+                    const isPastDue = charge.balance > 0 && charge.due_date < todayString;
+                    return (
+                      <TableRow key={charge.id}>
+                        <TableCell className="text-sm">
+                          {formatDate(charge.period_start)} – {formatDate(charge.period_end)}
+                          {charge.is_prorated && (
+                            <p className="text-xs text-muted-foreground">
+                              Prorated {charge.days_billed}/{charge.period_days} days
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>{charge.load_number || '—'}</TableCell>
+                        <TableCell>{charge.company_name || 'Unknown'}</TableCell>
+                        <TableCell className={isPastDue ? 'text-red-600 font-medium' : ''}>
+                          {formatDate(charge.due_date)}
+                          {isPastDue && <Badge variant="destructive" className="ml-2">Past due</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(charge.amount)}</TableCell>
+                        <TableCell className="text-right">
+                          {charge.balance > 0 ? (
+                            formatCurrency(charge.balance)
+                          ) : charge.receivable_status === 'paid' ? (
+                            <Badge variant="default">Paid</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
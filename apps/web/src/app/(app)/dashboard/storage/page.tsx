@@ -1,12 +1,13 @@
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
-import { Plus, Warehouse, MapPin, Phone, Package, Building2, Truck, AlertTriangle, Ban, Clock, Key, DollarSign, Calendar } from 'lucide-react';
+import { Plus, Warehouse, MapPin, Phone, Package, Building2, Truck, AlertTriangle, Ban, Clock, Key, DollarSign, Calendar, Receipt } from 'lucide-react';
 
 import { getCurrentUser } from '@/lib/supabase-server';
 import { getStorageLocationsWithLoadCount, StorageLocation } from '@/data/storage-locations';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const locationTypeLabels: Record<string, string> = {
@@ -170,6 +171,19 @@ function LocationCard({ location }: { location: StorageLocation & { days_until_d
                 {(location.loads_count || 0) !== 1 ? 's' : ''} in storage
               </span>
             </div>
+
+            {/* Unit occupancy */}
+            {location.occupancy && location.occupancy.units_total > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {location.occupancy.units_occupied} of {location.occupancy.units_total} units occupied
+                  </span>
+                  <span>{location.occupancy.occupancy_percent}%</span>
+                </div>
+                <Progress value={location.occupancy.occupancy_percent} className="h-1.5" />
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -251,6 +265,12 @@ export default async function StorageLocationsPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/dashboard/storage/billing">
+              <Receipt className="h-4 w-4 mr-2" />
+              Storage Billing
+            </Link>
+          </Button>
           <Button asChild variant="outline">
             <Link href="/dashboard/storage/new?type=warehouse">
               <Building2 className="h-4 w-4 mr-2" />
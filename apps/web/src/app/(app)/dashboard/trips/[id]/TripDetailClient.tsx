@@ -4,7 +4,7 @@ import { useState, useCallback, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { format, parseISO } from 'date-fns';
-import { DollarSign, AlertTriangle, Map, GripVertical, Receipt, X, MessageSquare, Pencil } from 'lucide-react';
+import { DollarSign, AlertTriangle, Map, GripVertical, Receipt, X, MessageSquare, Pencil, Route } from 'lucide-react';
 import { useSingleEntityUnreadCount } from '@/hooks/useEntityUnreadCounts';
 import {
   DndContext,
@@ -50,9 +50,13 @@ import {
 import { PhotoField } from '@/components/ui/photo-field';
 import { DatePicker } from '@/components/ui/date-picker';
 import { FormAddressFields } from '@/components/ui/address-fields';
-import type { TripStatus, TripWithDetails, TripLoad, TripExpense } from '@/data/trips';
+import type { TripStatus, TripWithDetails, TripLoad, TripExpense, TripLoadOrderItem } from '@/data/trips';
 import type { Load } from '@/data/loads';
 import { TripMapTab } from '@/components/trips/TripMapTab';
+import { RouteOptimizerCard } from '@/components/trips/RouteOptimizerCard';
+import { CapacityTimelineCard } from '@/components/trips/CapacityTimelineCard';
+import type { TripRouteComparison } from '@/data/trip-routing';
+import { storedCoordinates } from '@/lib/geocoding';
 import { useToast } from '@/hooks/use-toast';
 import { LoadSuggestionsPanel } from '@/components/trip/LoadSuggestionsPanel';
 import { ChatPanel } from '@/components/messaging/unified';
@@ -110,7 +114,8 @@ interface TripDetailClientProps {
     deleteTrip: () => Promise<void>;
     recalculateSettlement: (formData: FormData) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
     updateDriverSharing: (formData: FormData) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
-    reorderLoads: (items: { load_id: string; sequence_index: number }[]) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
+    reorderLoads: (items: TripLoadOrderItem[]) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
+    optimizeRoute: () => Promise<{ errors?: Record<string, string>; comparison?: TripRouteComparison | null }>;
     confirmDeliveryOrder: () => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
     reassignDriver: (formData: FormData) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
     reassignEquipment: (formData: FormData) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
@@ -390,7 +395,9 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
   // Capacity: prioritize trailer capacity, then truck capacity (for box trucks)
   const effectiveCapacity = tripTrailer?.capacity_cuft || tripTruck?.cubic_capacity || 0;
 
-  const totalExpenses = trip.driver_pay_total + trip.fuel_total + trip.tolls_total + trip.other_expenses_total;
+  const helperLaborTotal = trip.helper_labor_total || 0;
+  const totalExpenses =
+    trip.driver_pay_total + trip.fuel_total + trip.tolls_total + trip.other_expenses_total + helperLaborTotal;
   const profit = trip.revenue_total - totalExpenses;
 
   const driverPayBreakdown = trip.driver_pay_breakdown
@@ -427,6 +434,12 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
               </span>
             )}
           </Button>
+          <Button variant="outline" size="sm" asChild className="gap-2">
+            <Link href={`/dashboard/trips/${trip.id}/replay`}>
+              <Route className="h-4 w-4" />
+              GPS Replay
+            </Link>
+          </Button>
           <Button variant="outline" asChild>
             <Link href="/dashboard/trips">Back to Trips</Link>
           </Button>
@@ -990,6 +1003,22 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
           <div className="grid gap-6 lg:grid-cols-3">
             {/* Left Column - Attached Loads */}
             <div className="lg:col-span-2 space-y-4">
+              {orderedLoads.length > 1 && (
+                <RouteOptimizerCard
+                  optimizeRoute={actions.optimizeRoute}
+                  reorderLoads={actions.reorderLoads}
+                  onApplied={() => {
+                    setHasOrderChanges(true);
+                    toast({
+                      title: 'Route applied',
+                      description: 'Loads have been reordered to the proposed route.',
+                    });
+                  }}
+                />
+              )}
+              {trip.loads.length > 0 && (
+                <CapacityTimelineCard tripId={trip.id} capacityCuft={Number(effectiveCapacity)} tripLoads={trip.loads} />
+              )}
               {orderedLoads.length === 0 ? (
                 <Card>
                   <CardContent className="p-6 text-center text-muted-foreground">
@@ -1324,6 +1353,8 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
             destinationCity={trip.destination_city}
             destinationState={trip.destination_state}
             destinationZip={trip.destination_postal_code}
+            originCoords={storedCoordinates(trip.origin_lat, trip.origin_lng)}
+            destinationCoords={storedCoordinates(trip.destination_lat, trip.destination_lng)}
             truckCapacity={effectiveCapacity}
             tripLoads={trip.loads.map((tl) => {
               const load = tl.load as any;
@@ -1332,6 +1363,8 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
                 load_id: tl.load_id,
                 sequence_index: tl.sequence_index,
                 role: tl.role,
+                pickup_stop_index: tl.pickup_stop_index,
+                delivery_stop_index: tl.delivery_stop_index,
                 load: load ? {
                   id: load.id,
                   load_number: load.load_number,
@@ -1342,6 +1375,8 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
                   destination_city: load.destination_city || load.delivery_city,
                   destination_state: load.destination_state || load.delivery_state,
                   destination_zip: load.destination_zip || load.delivery_postal_code,
+                  origin_coords: storedCoordinates(load.pickup_lat, load.pickup_lng),
+                  destination_coords: storedCoordinates(load.delivery_lat, load.delivery_lng),
                   cubic_feet: load.cubic_feet,
                   estimated_cuft: load.estimated_cuft,
                   total_rate: load.total_rate,
@@ -1360,7 +1395,7 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
         {/* Expenses Tab */}
         <TabsContent value="expenses" className="mt-0">
           {/* Expense Summary */}
-          <div className="grid grid-cols-4 gap-3 mb-6">
+          <div className="grid grid-cols-5 gap-3 mb-6">
             <Card>
               <CardContent className="p-3 text-center">
                 <p className="text-xs uppercase text-muted-foreground">Driver Pay</p>
@@ -1385,6 +1420,12 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
                 <p className="text-lg font-semibold">{formatCurrency(trip.other_expenses_total)}</p>
               </CardContent>
             </Card>
+            <Card>
+              <CardContent className="p-3 text-center">
+                <p className="text-xs uppercase text-muted-foreground">Helpers</p>
+                <p className="text-lg font-semibold">{formatCurrency(helperLaborTotal)}</p>
+              </CardContent>
+            </Card>
           </div>
 
           <div className="grid gap-6 lg:grid-cols-3">
@@ -1425,6 +1466,8 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
                             <p className="text-sm font-medium">{formatCurrency(expense.amount)}</p>
                             <p className="text-xs text-muted-foreground capitalize truncate">
                               {expense.category} • {expense.incurred_at}
+                              {expense.gallons && ` • ${expense.gallons} gal`}
+                              {expense.fuel_state && ` • ${expense.fuel_state}`}
                               {expense.description && ` • ${expense.description}`}
                             </p>
                           </div>
@@ -1480,6 +1523,16 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
                   <Label className="text-sm">Amount</Label>
                   <Input name="amount" type="number" step="0.01" className="h-9" required />
                 </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1.5">
+                    <Label className="text-sm">Gallons (fuel)</Label>
+                    <Input name="gallons" type="number" step="0.001" min="0" className="h-9" />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-sm">Purchase State (fuel)</Label>
+                    <Input name="fuel_state" maxLength={2} placeholder="TX" className="h-9 uppercase" />
+                  </div>
+                </div>
                 <div className="space-y-1.5">
                   <Label className="text-sm">Date</Label>
                   <DatePicker name="incurred_at" placeholder="Select date" className="h-9" />
@@ -1547,6 +1600,12 @@ export function TripDetailClient({ trip, availableLoads, availableDrivers, avail
                     <span className="text-muted-foreground">Expenses</span>
                     <span>{formatCurrency(trip.fuel_total + trip.tolls_total + trip.other_expenses_total)}</span>
                   </div>
+                  {helperLaborTotal > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Helper Labor</span>
+                      <span>{formatCurrency(helperLaborTotal)}</span>
+                    </div>
+                  )}
                   <div className="border-t border-border pt-2 flex justify-between font-medium">
                     <span>Profit</span>
                     <span className={profit >= 0 ? 'text-emerald-600' : 'text-red-500'}>{formatCurrency(profit)}</span>
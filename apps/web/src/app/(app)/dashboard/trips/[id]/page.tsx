@@ -18,7 +18,9 @@ import {
   updateTripDriverSharing,
   getLoadTripAssignments,
   type LoadTripAssignment,
+  type TripLoadOrderItem,
 } from '@/data/trips';
+import { getTripRouteComparison, type TripRouteComparison } from '@/data/trip-routing';
 import { getLoadsForUser } from '@/data/loads';
 import { getDriversForUser } from '@/data/drivers';
 import { getTrucksForUser, getTrailersForUser } from '@/data/fleet';
@@ -222,6 +224,8 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
       trip_id: id,
       category: formData.get('category'),
       amount: formData.get('amount'),
+      gallons: formData.get('gallons'),
+      fuel_state: formData.get('fuel_state'),
       description: formData.get('description'),
       incurred_at: formData.get('incurred_at'),
       expense_type: formData.get('expense_type'),
@@ -339,7 +343,7 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
   }
 
   async function reorderLoadsAction(
-    items: { load_id: string; sequence_index: number }[]
+    items: TripLoadOrderItem[]
   ): Promise<{ errors?: Record<string, string>; success?: boolean } | null> {
     'use server';
     const currentUser = await getCurrentUser();
@@ -355,6 +359,21 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
     }
   }
 
+  async function optimizeRouteAction(): Promise<{
+    errors?: Record<string, string>;
+    comparison?: TripRouteComparison | null;
+  }> {
+    'use server';
+    const currentUser = await getCurrentUser();
+    if (!currentUser) return { errors: { _form: 'Not authenticated' } };
+
+    try {
+      return { comparison: await getTripRouteComparison(id, currentUser.id) };
+    } catch (error) {
+      return { errors: { _form: error instanceof Error ? error.message : 'Failed to optimize route' } };
+    }
+  }
+
   async function confirmDeliveryOrderAction(): Promise<{ errors?: Record<string, string>; success?: boolean } | null> {
     'use server';
     const currentUser = await getCurrentUser();
@@ -483,6 +502,7 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
         recalculateSettlement: recalculateSettlementAction,
         updateDriverSharing: updateDriverSharingAction,
         reorderLoads: reorderLoadsAction,
+        optimizeRoute: optimizeRouteAction,
         confirmDeliveryOrder: confirmDeliveryOrderAction,
         reassignDriver: reassignDriverAction,
         reassignEquipment: reassignEquipmentAction,
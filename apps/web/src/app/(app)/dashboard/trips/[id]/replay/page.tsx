@@ -0,0 +1,79 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ArrowLeft, Truck, User } from 'lucide-react';
+
+import { getCurrentUser } from '@/lib/supabase-server';
+import { getTripReplay } from '@/data/gps-replay';
+import { DEFAULT_DWELL_MINUTES, DWELL_OPTIONS } from '@/data/gps-replay-shared';
+import { getWorkspaceCompanyForUser } from '@/data/companies';
+import { GpsReplayViewer } from '@/components/fleet/GpsReplayViewer';
+
+interface TripReplayPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ dwell?: string }>;
+}
+
+export default async function TripReplayPage({ params, searchParams }: TripReplayPageProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { id } = await params;
+  const { dwell } = await searchParams;
+  const dwellMinutes = DWELL_OPTIONS.includes(Number(dwell)) ? Number(dwell) : DEFAULT_DWELL_MINUTES;
+
+  const [timeline, company] = await Promise.all([
+    getTripReplay(id, user.id),
+    getWorkspaceCompanyForUser(user.id),
+  ]);
+
+  if (!timeline) {
+    return (
+      <div className="p-4">
+        <h1 className="text-3xl font-bold text-foreground mb-4">Trip Not Found</h1>
+        <p className="text-muted-foreground mb-6">
+          This trip either does not exist or you no longer have access to it.
+        </p>
+        <Link
+          href="/dashboard/trips"
+          className="inline-block px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          Back to Trips
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl py-6 space-y-6">
+      {/* Back link */}
+      <Link
+        href={`/dashboard/trips/${id}`}
+        className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Trip
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Trip {timeline.reference} Replay</h1>
+        <p className="text-muted-foreground flex items-center gap-4">
+          <span className="flex items-center gap-2">
+            <User className="h-4 w-4" />
+            {timeline.driver_name || 'No driver assigned'}
+          </span>
+          {timeline.truck_unit && (
+            <span className="flex items-center gap-2">
+              <Truck className="h-4 w-4" />
+              {timeline.truck_unit}
+            </span>
+          )}
+        </p>
+      </div>
+
+      <GpsReplayViewer timeline={timeline} dwellMinutes={dwellMinutes} companyName={company?.name || 'MoveBoss Pro'} />
+    </div>
+  );
+}
@@ -260,7 +260,8 @@ export default async function TripsPage({ searchParams }: TripsPageProps) {
                       (trip.driver_pay_total || 0) +
                       (trip.fuel_total || 0) +
                       (trip.tolls_total || 0) +
-                      (trip.other_expenses_total || 0);
+                      (trip.other_expenses_total || 0) +
+                      (trip.helper_labor_total || 0);
                     return (
                       <TableRow key={trip.id}>
                         <TableCell className="font-medium">
@@ -1,4 +1,3 @@
-import { cookies } from 'next/headers';
 import { redirect, notFound } from 'next/navigation';
 import { revalidatePath } from 'next/cache';
 import Link from 'next/link';
@@ -8,6 +7,8 @@ import {
   approveComplianceDocument,
   rejectComplianceDocument,
 } from '@/data/compliance';
+import { portalRoleAllows } from '@/data/company-portal-auth-shared';
+import { authorizePortalAction, getCompanyPortalSession } from '@/lib/company-portal-session';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -26,20 +27,9 @@ interface PageProps {
   params: Promise<{ id: string }>;
 }
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
-
 export default async function ComplianceReviewPage({ params }: PageProps) {
   const { id } = await params;
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
@@ -73,10 +63,9 @@ export default async function ComplianceReviewPage({ params }: PageProps) {
 
   async function approveAction(formData: FormData) {
     'use server';
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('company_session');
-    if (!sessionCookie) return;
-    const sessionData = JSON.parse(sessionCookie.value);
+    const auth = await authorizePortalAction('review_compliance');
+    if (!auth.session) return;
+    const sessionData = auth.session;
 
     const requestId = formData.get('request_id') as string;
     await approveComplianceDocument(requestId, sessionData.owner_id);
@@ -85,10 +74,9 @@ export default async function ComplianceReviewPage({ params }: PageProps) {
 
   async function rejectAction(formData: FormData) {
     'use server';
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('company_session');
-    if (!sessionCookie) return;
-    const sessionData = JSON.parse(sessionCookie.value);
+    const auth = await authorizePortalAction('review_compliance');
+    if (!auth.session) return;
+    const sessionData = auth.session;
 
     const requestId = formData.get('request_id') as string;
     const reason = formData.get('reason') as string;
@@ -105,6 +93,7 @@ export default async function ComplianceReviewPage({ params }: PageProps) {
 
   const allApproved = requests.every((r) => r.status === 'approved');
   const pendingReview = requests.filter((r) => r.status === 'uploaded').length;
+  const canReview = portalRoleAllows(session.role, 'review_compliance');
 
   return (
     <div className="min-h-screen bg-background">
@@ -215,24 +204,28 @@ export default async function ComplianceReviewPage({ params }: PageProps) {
                         </Button>
                       </div>
 
-                      <div className="flex gap-2">
-                        <form action={approveAction} className="flex-1">
-                          <input type="hidden" name="request_id" value={request.id} />
-                          <Button type="submit" className="w-full" variant="default">
-                            <CheckCircle className="h-4 w-4 mr-2" />
-                            Approve
-                          </Button>
-                        </form>
-                        <form action={rejectAction} className="flex-1">
-                          <input type="hidden" name="request_id" value={request.id} />
-                          <div className="flex gap-2">
-                            <Input name="reason" placeholder="Rejection reason" className="flex-1" />
-                            <Button type="submit" variant="outline" className="text-red-600">
-                              <XCircle className="h-4 w-4" />
+                      {canReview ? (
+                        <div className="flex gap-2">
+                          <form action={approveAction} className="flex-1">
+                            <input type="hidden" name="request_id" value={request.id} />
+                            <Button type="submit" className="w-full" variant="default">
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Approve
                             </Button>
-                          </div>
-                        </form>
-                      </div>
+                          </form>
+                          <form action={rejectAction} className="flex-1">
+                            <input type="hidden" name="request_id" value={request.id} />
+                            <div className="flex gap-2">
+                              <Input name="reason" placeholder="Rejection reason" className="flex-1" />
+                              <Button type="submit" variant="outline" className="text-red-600">
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </form>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Waiting for a portal approver to review.</p>
+                      )}
                     </div>
                   )}
 
@@ -1,7 +1,8 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { getCompanyCarrierPartners } from '@/data/company-portal';
+import { getCarrierScorecards } from '@/data/carrier-scorecards';
+import { getCompanyPortalSession } from '@/lib/company-portal-session';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,26 +16,19 @@ import {
   CheckCircle,
   Clock,
 } from 'lucide-react';
-
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
+import { CarrierScorecardBadge, CarrierScorecardDetails } from '@/components/carrier-scorecard';
 
 export default async function CompanyCarriersPage() {
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
   }
 
   const carrierPartners = await getCompanyCarrierPartners(session.company_id);
+  const scorecards = await getCarrierScorecards(
+    carrierPartners.map((p) => p.partner?.id).filter((id): id is string => !!id)
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -70,41 +64,42 @@ export default async function CompanyCarriersPage() {
                     if (!partner) return null;
 
                     return (
-                      <div
-                        key={p.id}
-                        className="flex items-center justify-between p-4 bg-muted/50 rounded-lg"
-                      >
-                        <div className="space-y-1">
-                          <div className="flex items-center gap-2">
-                            <Building2 className="h-4 w-4 text-muted-foreground" />
-                            <span className="font-medium">{partner.name}</span>
+                      <div key={p.id} className="p-4 bg-muted/50 rounded-lg space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Building2 className="h-4 w-4 text-muted-foreground" />
+                              <span className="font-medium">{partner.name}</span>
+                              <CarrierScorecardBadge scorecard={scorecards[partner.id]} />
+                            </div>
+                            {partner.mc_number && (
+                              <p className="text-sm text-muted-foreground">
+                                MC# {partner.mc_number}
+                              </p>
+                            )}
+                            {(partner.city || partner.state) && (
+                              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                                <MapPin className="h-3 w-3" />
+                                {[partner.city, partner.state].filter(Boolean).join(', ')}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            {p.total_loads > 0 && (
+                              <Badge variant="outline" className="flex items-center gap-1">
+                                <Package className="h-3 w-3" />
+                                {p.total_loads} loads
+                              </Badge>
+                            )}
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={`/company/carriers/${p.id}/compliance`}>
+                                <FileText className="h-4 w-4 mr-1" />
+                                Documents
+                              </Link>
+                            </Button>
                           </div>
-                          {partner.mc_number && (
-                            <p className="text-sm text-muted-foreground">
-                              MC# {partner.mc_number}
-                            </p>
-                          )}
-                          {(partner.city || partner.state) && (
-                            <p className="text-sm text-muted-foreground flex items-center gap-1">
-                              <MapPin className="h-3 w-3" />
-                              {[partner.city, partner.state].filter(Boolean).join(', ')}
-                            </p>
-                          )}
-                        </div>
-                        <div className="flex items-center gap-3">
-                          {p.total_loads > 0 && (
-                            <Badge variant="outline" className="flex items-center gap-1">
-                              <Package className="h-3 w-3" />
-                              {p.total_loads} loads
-                            </Badge>
-                          )}
-                          <Button variant="outline" size="sm" asChild>
-                            <Link href={`/company/carriers/${p.id}/compliance`}>
-                              <FileText className="h-4 w-4 mr-1" />
-                              Documents
-                            </Link>
-                          </Button>
                         </div>
+                        <CarrierScorecardDetails scorecard={scorecards[partner.id]} />
                       </div>
                     );
                   })}
@@ -1,4 +1,3 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -7,6 +6,14 @@ import {
   getCompanyPaymentSummary,
   getCompanyPendingRequestsCount,
 } from '@/data/company-portal';
+import { endPortalSession } from '@/data/company-portal-auth';
+import { PORTAL_ROLE_LABELS, portalRoleAllows } from '@/data/company-portal-auth-shared';
+import {
+  clearCompanyPortalSessionCookie,
+  getCompanyPortalSession,
+  getCompanyPortalSessionToken,
+  getPortalRequestMeta,
+} from '@/lib/company-portal-session';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -24,19 +31,8 @@ import {
 } from 'lucide-react';
 import { CompanyNotificationBell } from '@/components/company-notification-bell';
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
-
 export default async function CompanyDashboardPage() {
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
@@ -49,10 +45,15 @@ export default async function CompanyDashboardPage() {
     getCompanyPendingRequestsCount(session.company_id),
   ]);
 
+  const canPostLoads = portalRoleAllows(session.role, 'post_loads');
+
   async function logoutAction() {
     'use server';
-    const cookieStore = await cookies();
-    cookieStore.delete('company_session');
+    const token = await getCompanyPortalSessionToken();
+    if (token) {
+      await endPortalSession(token, await getPortalRequestMeta());
+    }
+    await clearCompanyPortalSessionCookie();
     redirect('/company-login');
   }
 
@@ -74,17 +75,21 @@ export default async function CompanyDashboardPage() {
             <Building2 className="h-6 w-6 text-primary" />
             <div>
               <p className="font-semibold">{session.company_name}</p>
-              <p className="text-xs text-muted-foreground">Dispatch Dashboard</p>
+              <p className="text-xs text-muted-foreground">
+                {session.full_name || session.email} · {PORTAL_ROLE_LABELS[session.role]}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
             <CompanyNotificationBell />
-            <Button asChild>
-              <Link href="/company/loads/new">
-                <Plus className="h-4 w-4 mr-2" />
-                Post Load
-              </Link>
-            </Button>
+            {canPostLoads && (
+              <Button asChild>
+                <Link href="/company/loads/new">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Post Load
+                </Link>
+              </Button>
+            )}
             <form action={logoutAction}>
               <Button variant="ghost" size="icon" type="submit">
                 <LogOut className="h-5 w-5" />
@@ -298,14 +303,16 @@ export default async function CompanyDashboardPage() {
 
         {/* Quick Actions */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <Link href="/company/loads/new">
-            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
-              <CardContent className="p-4 text-center">
-                <Plus className="h-8 w-8 mx-auto mb-2 text-primary" />
-                <p className="font-medium">Post Load</p>
-              </CardContent>
-            </Card>
-          </Link>
+          {canPostLoads && (
+            <Link href="/company/loads/new">
+              <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+                <CardContent className="p-4 text-center">
+                  <Plus className="h-8 w-8 mx-auto mb-2 text-primary" />
+                  <p className="font-medium">Post Load</p>
+                </CardContent>
+              </Card>
+            </Link>
+          )}
 
           <Link href="/company/loads">
             <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
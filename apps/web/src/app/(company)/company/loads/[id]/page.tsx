@@ -1,4 +1,3 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { revalidatePath } from 'next/cache';
 import Link from 'next/link';
@@ -12,6 +11,8 @@ import {
 import { cancelCarrierAssignment } from '@/data/cancellations';
 import { getRatingForLoad, submitRating } from '@/data/ratings';
 import { getLoadPhotos } from '@/data/load-photos';
+import { portalRoleAllows } from '@/data/company-portal-auth-shared';
+import { authorizePortalAction, getCompanyPortalSession } from '@/lib/company-portal-session';
 import { RatingForm } from '@/components/rating-form';
 import { RatingStars } from '@/components/rating-stars';
 import { PhotoGallery } from '@/components/photo-gallery';
@@ -56,17 +57,6 @@ const cancelReasonOptions = [
   { value: 'other', label: 'Other' },
 ];
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
-
 const statusConfig: Record<string, { label: string; color: string; icon: React.ReactNode }> = {
   pending: {
     label: 'Pending',
@@ -132,7 +122,7 @@ export default async function CompanyLoadDetailPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
@@ -158,16 +148,22 @@ export default async function CompanyLoadDetailPage({
     (p) => p.photo_type === 'loading' || p.photo_type === 'loaded'
   );
   const deliveryPhotos = photos.filter((p) => p.photo_type === 'delivery');
-  const canAssignCarrier = load.load_status === 'pending';
-  const canUnassign = load.load_status === 'pending' && load.assigned_carrier_id;
+  const canManageCarriers = portalRoleAllows(session.role, 'assign_carriers');
+  const canRepost = portalRoleAllows(session.role, 'release_to_marketplace');
+  const canRateCarrier = portalRoleAllows(session.role, 'rate_carriers');
+  const canAssignCarrier = canManageCarriers && load.load_status === 'pending';
+  const canUnassign = canManageCarriers && load.load_status === 'pending' && load.assigned_carrier_id;
   // Can cancel carrier if load is confirmed but not yet in transit or delivered
-  const canCancelCarrier = load.assigned_carrier_id &&
+  const canCancelCarrier = canManageCarriers && load.assigned_carrier_id &&
     load.carrier_confirmed_at &&
     ['accepted', 'loading'].includes(load.load_status as string);
 
   async function assignCarrierAction(formData: FormData) {
     'use server';
 
+    const auth = await authorizePortalAction('assign_carriers');
+    if (!auth.session) throw new Error(auth.error);
+
     const loadId = formData.get('load_id') as string;
     const carrierId = formData.get('carrier_id') as string;
     const carrierRate = parseFloat(formData.get('carrier_rate') as string) || undefined;
@@ -185,6 +181,9 @@ export default async function CompanyLoadDetailPage({
   async function unassignCarrierAction(formData: FormData) {
     'use server';
 
+    const auth = await authorizePortalAction('assign_carriers');
+    if (!auth.session) throw new Error(auth.error);
+
     const loadId = formData.get('load_id') as string;
     await unassignCarrierFromLoad(loadId);
     revalidatePath(`/company/loads/${loadId}`);
@@ -194,14 +193,20 @@ export default async function CompanyLoadDetailPage({
   async function cancelCarrierAction(formData: FormData) {
     'use server';
 
-    const currentSession = await getCompanySession();
-    if (!currentSession) throw new Error('Not authenticated');
+    const auth = await authorizePortalAction('assign_carriers');
+    if (!auth.session) throw new Error(auth.error);
+    const currentSession = auth.session;
 
     const loadId = formData.get('load_id') as string;
     const reasonCode = formData.get('reason_code') as string;
     const repostValue = formData.get('repost_to_marketplace') as string;
     const repostToMarketplace = repostValue === 'true';
 
+    // Reposting puts the load back on the marketplace, which is its own permission
+    if (repostToMarketplace && !portalRoleAllows(currentSession.role, 'release_to_marketplace')) {
+      throw new Error("Your portal role doesn't allow releasing loads to the marketplace");
+    }
+
     if (!loadId || !reasonCode) {
       throw new Error('Missing required fields');
     }
@@ -226,6 +231,9 @@ export default async function CompanyLoadDetailPage({
   async function submitRatingAction(formData: FormData) {
     'use server';
 
+    const auth = await authorizePortalAction('rate_carriers');
+    if (!auth.session) throw new Error(auth.error);
+
     const loadId = formData.get('load_id') as string;
     const raterCompanyId = formData.get('rater_company_id') as string;
     const ratedCompanyId = formData.get('rated_company_id') as string;
@@ -237,6 +245,10 @@ export default async function CompanyLoadDetailPage({
       throw new Error('Missing required fields');
     }
 
+    if (raterCompanyId !== auth.session.company_id) {
+      throw new Error('You can only rate as your own company');
+    }
+
     const result = await submitRating(
       loadId,
       raterCompanyId,
@@ -505,16 +517,18 @@ export default async function CompanyLoadDetailPage({
                           </option>
                         ))}
                       </select>
-                      <label className="flex items-center gap-2 text-sm">
-                        <input
-                          type="checkbox"
-                          name="repost_to_marketplace"
-                          value="true"
-                          defaultChecked
-                          className="rounded border-input"
-                        />
-                        <span>Repost to marketplace after canceling</span>
-                      </label>
+                      {canRepost && (
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            name="repost_to_marketplace"
+                            value="true"
+                            defaultChecked
+                            className="rounded border-input"
+                          />
+                          <span>Repost to marketplace after canceling</span>
+                        </label>
+                      )}
                       <Button
                         type="submit"
                         variant="destructive"
@@ -591,7 +605,9 @@ export default async function CompanyLoadDetailPage({
               </form>
             ) : (
               <p className="text-sm text-muted-foreground">
-                Carrier assignment cannot be changed at this stage.
+                {canManageCarriers
+                  ? 'Carrier assignment cannot be changed at this stage.'
+                  : 'Only portal approvers can assign carriers.'}
               </p>
             )}
           </CardContent>
@@ -730,7 +746,7 @@ export default async function CompanyLoadDetailPage({
                 </p>
               </CardContent>
             </Card>
-          ) : (
+          ) : canRateCarrier ? (
             <RatingForm
               loadId={id}
               raterCompanyId={session.company_id}
@@ -739,7 +755,7 @@ export default async function CompanyLoadDetailPage({
               raterType="shipper"
               onSubmit={submitRatingAction}
             />
-          )
+          ) : null
         )}
 
         {/* Equipment Requirement - Show only when not 'any' */}
@@ -1,4 +1,3 @@
-import { cookies } from 'next/headers';
 import { redirect, notFound } from 'next/navigation';
 import { revalidatePath } from 'next/cache';
 import {
@@ -6,12 +5,28 @@ import {
   getLoadRequestsForCompany,
 } from '@/data/company-portal';
 import { acceptLoadRequest, declineLoadRequest } from '@/data/marketplace';
+import { counterLoadRequest, getRequestOfferThreads } from '@/data/load-request-negotiation';
+import { OFFER_EXPIRY_OPTIONS, formatOfferRate, isOfferExpired, offerRateUnit } from '@/data/load-request-negotiation-shared';
 import { checkCarrierCompliance } from '@/data/compliance-alerts';
+import {
+  deleteLoadAwardRule,
+  getAutoAwardLog,
+  getCompanyAwardRule,
+  getLoadAwardRule,
+  saveAwardRule,
+} from '@/data/carrier-award-rules';
+import { describeAwardRule, parseAwardRuleForm } from '@/data/carrier-award-rules-shared';
+import { getCarrierScorecards } from '@/data/carrier-scorecards';
+import { meetsMinimumScore } from '@/data/carrier-scorecards-shared';
+import { portalRoleAllows } from '@/data/company-portal-auth-shared';
+import { authorizePortalAction, getCompanyPortalSession } from '@/lib/company-portal-session';
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   ArrowLeft,
   ArrowRight,
@@ -23,34 +38,40 @@ import {
   Package,
   Calendar,
   Shield,
+  Repeat,
+  Bot,
 } from 'lucide-react';
 import { ReliabilityBadge } from '@/components/reliability-badge';
 import { LoadRequestActions } from '@/components/load-request-actions';
+import { LoadRequestNegotiationThread } from '@/components/load-request-negotiation-thread';
+import { AwardRuleFields } from '@/components/award-rule-fields';
+import {
+  CarrierScorecardBadge,
+  CarrierScorecardDetails,
+  ScorecardRequestFilter,
+} from '@/components/carrier-scorecard';
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
 
 interface PageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ error?: string; min_score?: string; sort?: string }>;
 }
 
-export default async function LoadRequestsPage({ params }: PageProps) {
+export default async function LoadRequestsPage({ params, searchParams }: PageProps) {
   const { id } = await params;
-  const session = await getCompanySession();
+  const { error: actionError, min_score, sort } = await searchParams;
+  const minScore = Number(min_score) || null;
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
   }
 
   const load = await getCompanyLoadWithDetails(session.company_id, id);
+  const canRespond = portalRoleAllows(session.role, 'accept_requests');
+  const canManageAwardRules = portalRoleAllows(session.role, 'manage_award_rules');
 
   if (!load) {
     notFound();
@@ -59,6 +80,16 @@ export default async function LoadRequestsPage({ params }: PageProps) {
   const requests = await getLoadRequestsForCompany(id);
   const pendingRequests = requests.filter((r) => r.status === 'pending');
   const respondedRequests = requests.filter((r) => r.status !== 'pending');
+  const offerThreads = await getRequestOfferThreads(requests.map((r) => r.id));
+  const [loadAwardRule, companyAwardRule, autoAwardLog] = await Promise.all([
+    getLoadAwardRule(id),
+    getCompanyAwardRule(session.company_id),
+    getAutoAwardLog(id),
+  ]);
+  const effectiveAwardRule = loadAwardRule ?? companyAwardRule;
+  const scorecards = await getCarrierScorecards(
+    requests.map((r) => r.carrier?.id).filter((carrierId): carrierId is string => !!carrierId)
+  );
 
   // Fetch compliance issues for each pending request's carrier
   const pendingRequestsWithCompliance = await Promise.all(
@@ -74,17 +105,32 @@ export default async function LoadRequestsPage({ params }: PageProps) {
     })
   );
 
+  // Scorecard filter and sort from the query string
+  const visibleRequests = pendingRequestsWithCompliance
+    .filter((request) => meetsMinimumScore(scorecards[request.carrier?.id ?? ''], minScore))
+    .sort((a, b) =>
+      sort === 'score'
+        ? (scorecards[b.carrier?.id ?? '']?.score ?? -1) - (scorecards[a.carrier?.id ?? '']?.score ?? -1)
+        : 0
+    );
+  const hiddenRequestCount = pendingRequestsWithCompliance.length - visibleRequests.length;
+
   async function acceptAction(formData: FormData) {
     'use server';
 
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('company_session');
-    if (!sessionCookie) redirect('/company-login');
-
-    const sessionData = JSON.parse(sessionCookie.value);
+    const auth = await authorizePortalAction('accept_requests');
+    if (!auth.session) redirect(`/company/loads/${id}/requests?error=${encodeURIComponent(auth.error)}`);
+    const sessionData = auth.session;
     const requestId = formData.get('request_id') as string;
 
-    await acceptLoadRequest(requestId, sessionData.owner_id);
+    const result = await acceptLoadRequest(requestId, sessionData.owner_id);
+
+    if (!result.success) {
+      revalidatePath(`/company/loads/${id}/requests`);
+      redirect(
+        `/company/loads/${id}/requests?error=${encodeURIComponent(result.error || 'Failed to accept request')}`
+      );
+    }
 
     revalidatePath(`/company/loads/${id}/requests`);
     revalidatePath('/company/requests');
@@ -95,11 +141,9 @@ export default async function LoadRequestsPage({ params }: PageProps) {
   async function declineAction(formData: FormData) {
     'use server';
 
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('company_session');
-    if (!sessionCookie) redirect('/company-login');
-
-    const sessionData = JSON.parse(sessionCookie.value);
+    const auth = await authorizePortalAction('accept_requests');
+    if (!auth.session) redirect(`/company/loads/${id}/requests?error=${encodeURIComponent(auth.error)}`);
+    const sessionData = auth.session;
     const requestId = formData.get('request_id') as string;
     const reason = formData.get('reason') as string;
 
@@ -109,6 +153,69 @@ export default async function LoadRequestsPage({ params }: PageProps) {
     revalidatePath('/company/requests');
   }
 
+  async function counterAction(formData: FormData) {
+    'use server';
+
+    const auth = await authorizePortalAction('accept_requests');
+    if (!auth.session) redirect(`/company/loads/${id}/requests?error=${encodeURIComponent(auth.error)}`);
+    const sessionData = auth.session;
+    const requestId = formData.get('request_id') as string;
+    const maxCuft = formData.get('max_cuft') as string;
+
+    const result = await counterLoadRequest(requestId, 'poster', sessionData.owner_id, {
+      rate: Number(formData.get('rate')),
+      loadDate: (formData.get('load_date') as string) || null,
+      maxCuft: maxCuft ? Number(maxCuft) : null,
+      expiresInHours: Number(formData.get('expires_in_hours')) || null,
+      message: formData.get('message') as string,
+    });
+
+    revalidatePath(`/company/loads/${id}/requests`);
+    revalidatePath('/company/requests');
+    if (!result.success) {
+      redirect(
+        `/company/loads/${id}/requests?error=${encodeURIComponent(result.error || 'Failed to send counter offer')}`
+      );
+    }
+  }
+
+  async function saveAwardRuleAction(formData: FormData) {
+    'use server';
+
+    const auth = await authorizePortalAction('manage_award_rules');
+    if (!auth.session) redirect(`/company/loads/${id}/requests?error=${encodeURIComponent(auth.error)}`);
+    const sessionData = auth.session;
+    const result = await saveAwardRule(
+      sessionData.owner_id,
+      sessionData.company_id,
+      id,
+      parseAwardRuleForm(formData)
+    );
+
+    revalidatePath(`/company/loads/${id}/requests`);
+    if (!result.success) {
+      redirect(
+        `/company/loads/${id}/requests?error=${encodeURIComponent(result.error || 'Failed to save award rule')}`
+      );
+    }
+  }
+
+  async function resetAwardRuleAction() {
+    'use server';
+
+    const auth = await authorizePortalAction('manage_award_rules');
+    if (!auth.session) redirect(`/company/loads/${id}/requests?error=${encodeURIComponent(auth.error)}`);
+    const sessionData = auth.session;
+    const result = await deleteLoadAwardRule(sessionData.company_id, id);
+
+    revalidatePath(`/company/loads/${id}/requests`);
+    if (!result.success) {
+      redirect(
+        `/company/loads/${id}/requests?error=${encodeURIComponent(result.error || 'Failed to reset award rule')}`
+      );
+    }
+  }
+
   // Extract load properties with proper types
   const loadNumber = load.load_number as string;
   const originCity = load.origin_city as string;
@@ -118,6 +225,7 @@ export default async function LoadRequestsPage({ params }: PageProps) {
   const destState = load.destination_state as string;
   const destZip = load.destination_zip as string;
   const companyRate = load.company_rate as number | null;
+  const counterRateUnit = offerRateUnit(load.company_rate_type as string | null);
   const estimatedCuft = load.estimated_cuft as number | null;
   const isOpenToCounter = load.is_open_to_counter as boolean;
   const assignedCarrierId = load.assigned_carrier_id as string | null;
@@ -145,6 +253,14 @@ export default async function LoadRequestsPage({ params }: PageProps) {
       </header>
 
       <main className="container py-6 space-y-6 max-w-3xl">
+        {actionError && (
+          <Card className="border-destructive">
+            <CardContent className="p-4">
+              <p className="text-sm text-destructive">{actionError}</p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Load Summary */}
         <Card>
           <CardContent className="p-4">
@@ -173,6 +289,68 @@ export default async function LoadRequestsPage({ params }: PageProps) {
           </CardContent>
         </Card>
 
+        {/* Auto-award */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Bot className="h-4 w-4" />
+              Auto-award
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm">
+              <p className="font-medium">{describeAwardRule(effectiveAwardRule)}</p>
+              <p className="text-muted-foreground">
+                {loadAwardRule
+                  ? 'Custom rule for this load'
+                  : companyAwardRule
+                    ? 'Using your company default'
+                    : 'No rule set. Set a company default on the Requests page or customize this load below.'}
+              </p>
+            </div>
+
+            {!assignedCarrierId && canManageAwardRules && (
+              <details className="rounded-lg border p-3">
+                <summary className="cursor-pointer text-sm font-medium">Customize for this load</summary>
+                <form action={saveAwardRuleAction} className="mt-3 space-y-3">
+                  <AwardRuleFields rule={effectiveAwardRule} />
+                  <div className="flex gap-2">
+                    <Button type="submit" size="sm">
+                      Save Rule
+                    </Button>
+                    {loadAwardRule && (
+                      <Button type="submit" size="sm" variant="outline" formAction={resetAwardRuleAction}>
+                        Use Company Default
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </details>
+            )}
+
+            {autoAwardLog.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Automatic decisions
+                </p>
+                <ul className="space-y-2">
+                  {autoAwardLog.map((entry) => (
+                    <li key={entry.id} className="rounded-lg border p-3 text-sm">
+                      <p className="font-medium">
+                        {entry.action === 'carrier_auto_awarded'
+                          ? `Awarded to ${entry.carrier_name || 'carrier'}`
+                          : 'Reposted to marketplace'}
+                      </p>
+                      {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                      <p className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Already Assigned */}
         {assignedCarrierId && (
           <Card className="border-green-500/30 bg-green-500/5">
@@ -195,11 +373,40 @@ export default async function LoadRequestsPage({ params }: PageProps) {
         {/* Pending Requests */}
         {pendingRequestsWithCompliance.length > 0 && (
           <div className="space-y-4">
-            <h2 className="text-lg font-semibold">
-              Pending Requests ({pendingRequestsWithCompliance.length})
-            </h2>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h2 className="text-lg font-semibold">
+                Pending Requests ({pendingRequestsWithCompliance.length})
+              </h2>
+              <ScorecardRequestFilter minScore={minScore} sort={sort} />
+            </div>
 
-            {pendingRequestsWithCompliance.map((request) => (
+            {hiddenRequestCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {hiddenRequestCount} request{hiddenRequestCount !== 1 ? 's' : ''} hidden below the minimum
+                scorecard.{' '}
+                <Link href={`/company/loads/${id}/requests`} className="underline">
+                  Show all
+                </Link>
+              </p>
+            )}
+
+            {visibleRequests.map((request) => {
+              const offers = offerThreads[request.id] || [];
+              const openOffer = offers.find((offer) => offer.status === 'open');
+              const awaitingCarrier = request.awaiting_response_from === 'carrier';
+              const carrierOfferExpired =
+                !!openOffer && openOffer.offered_by === 'carrier' && isOfferExpired(openOffer);
+              // Rate the poster would accept at: agreed terms, else the carrier's latest offer
+              const currentRate =
+                request.agreed_rate ??
+                (openOffer?.offered_by === 'carrier' ? openOffer.rate : null) ??
+                request.counter_offer_rate ??
+                request.offered_rate;
+              const negotiated = offers.length > 1 || request.agreed_rate !== null;
+              const canCounter =
+                canRespond && isOpenToCounter && !assignedCarrierId && !awaitingCarrier && request.agreed_rate === null;
+
+              return (
               <Card key={request.id} className="border-yellow-500/20">
                 <CardContent className="p-4 space-y-4">
                   {/* Carrier Info */}
@@ -225,6 +432,7 @@ export default async function LoadRequestsPage({ params }: PageProps) {
                             loadsGivenBack={request.carrier?.loads_given_back ?? null}
                             loadsAcceptedTotal={request.carrier?.loads_accepted_total ?? null}
                           />
+                          <CarrierScorecardBadge scorecard={scorecards[request.carrier?.id ?? '']} />
                         </div>
                         <p className="text-sm text-muted-foreground">
                           {request.carrier?.city}, {request.carrier?.state}
@@ -236,7 +444,25 @@ export default async function LoadRequestsPage({ params }: PageProps) {
 
                     {/* Rate Offered */}
                     <div className="text-right">
-                      {request.request_type === 'counter_offer' ? (
+                      {request.agreed_rate !== null ? (
+                        <div>
+                          <p className="text-sm text-muted-foreground">
+                            Agreed
+                          </p>
+                          <p className="text-xl font-bold text-green-500">
+                            {formatOfferRate(request.agreed_rate, request.agreed_rate_type)}
+                          </p>
+                        </div>
+                      ) : negotiated && openOffer ? (
+                        <div>
+                          <p className="text-sm text-muted-foreground">
+                            {awaitingCarrier ? 'Your counter' : 'Carrier countered'}
+                          </p>
+                          <p className="text-xl font-bold text-purple-500">
+                            {formatOfferRate(openOffer.rate, openOffer.rate_type)}
+                          </p>
+                        </div>
+                      ) : request.request_type === 'counter_offer' ? (
                         <div>
                           <p className="text-sm text-muted-foreground">
                             Counter offer
@@ -346,6 +572,18 @@ export default async function LoadRequestsPage({ params }: PageProps) {
                     )}
                   </div>
 
+                  {/* Scorecard */}
+                  {scorecards[request.carrier?.id ?? ''] && (
+                    <details className="rounded-lg border p-3">
+                      <summary className="cursor-pointer text-sm font-medium">
+                        Scorecard (last 12 months)
+                      </summary>
+                      <div className="mt-3">
+                        <CarrierScorecardDetails scorecard={scorecards[request.carrier?.id ?? '']} />
+                      </div>
+                    </details>
+                  )}
+
                   {/* Message */}
                   {request.message && (
                     <div className="p-3 bg-muted/50 rounded-lg">
@@ -353,6 +591,89 @@ export default async function LoadRequestsPage({ params }: PageProps) {
                     </div>
                   )}
 
+                  {/* Negotiation Thread */}
+                  {negotiated && (
+                    <LoadRequestNegotiationThread
+                      offers={offers}
+                      viewer="poster"
+                      carrierName={request.carrier?.name}
+                    />
+                  )}
+
+                  {/* Counter Offer */}
+                  {canCounter && (
+                    <details className="rounded-lg border p-3">
+                      <summary className="cursor-pointer text-sm font-medium flex items-center gap-2">
+                        <Repeat className="h-4 w-4" />
+                        Counter offer
+                      </summary>
+                      <form action={counterAction} className="mt-3 space-y-3">
+                        <input type="hidden" name="request_id" value={request.id} />
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label htmlFor={`rate_${request.id}`}>
+                              Rate ({counterRateUnit ? `$${counterRateUnit}` : '$ flat'})
+                            </Label>
+                            <Input
+                              id={`rate_${request.id}`}
+                              name="rate"
+                              type="number"
+                              step="0.01"
+                              min="0.01"
+                              required
+                              defaultValue={currentRate ?? companyRate ?? undefined}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor={`load_date_${request.id}`}>Load Date</Label>
+                            <Input
+                              id={`load_date_${request.id}`}
+                              name="load_date"
+                              type="date"
+                              defaultValue={openOffer?.load_date ?? undefined}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor={`max_cuft_${request.id}`}>Cuft Cap</Label>
+                            <Input
+                              id={`max_cuft_${request.id}`}
+                              name="max_cuft"
+                              type="number"
+                              min="1"
+                              placeholder={estimatedCuft ? String(estimatedCuft) : 'No cap'}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor={`expires_in_hours_${request.id}`}>Offer Expires</Label>
+                            <select
+                              id={`expires_in_hours_${request.id}`}
+                              name="expires_in_hours"
+                              className={selectClassName}
+                              defaultValue="24"
+                            >
+                              {OFFER_EXPIRY_OPTIONS.map((option) => (
+                                <option key={option.hours} value={option.hours}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`message_${request.id}`}>Message</Label>
+                          <Input
+                            id={`message_${request.id}`}
+                            name="message"
+                            placeholder="Optional note to the carrier"
+                          />
+                        </div>
+                        <Button type="submit" variant="secondary" className="w-full">
+                          Send Counter Offer
+                        </Button>
+                      </form>
+                    </details>
+                  )}
+
                   {/* New Carrier Warning */}
                   {!request.is_partner && (
                     <div className="flex items-start gap-2 p-3 bg-yellow-500/10 rounded-lg">
@@ -370,22 +691,36 @@ export default async function LoadRequestsPage({ params }: PageProps) {
                   )}
 
                   {/* Actions with Compliance Check */}
-                  <LoadRequestActions
-                    requestId={request.id}
-                    acceptedCompanyRate={request.accepted_company_rate}
-                    offeredRate={request.offered_rate}
-                    complianceIssues={request.complianceIssues}
-                    blockOnExpired={false}
-                    acceptAction={acceptAction}
-                    declineAction={declineAction}
-                  />
+                  {canRespond ? (
+                    <LoadRequestActions
+                      requestId={request.id}
+                      acceptedCompanyRate={request.accepted_company_rate && !negotiated}
+                      offeredRate={currentRate}
+                      complianceIssues={request.complianceIssues}
+                      blockOnExpired={false}
+                      acceptDisabledReason={
+                        awaitingCarrier
+                          ? 'Waiting for the carrier to answer your counter offer'
+                          : carrierOfferExpired
+                            ? "The carrier's offer has expired. Counter with a new rate or decline."
+                            : null
+                      }
+                      acceptAction={acceptAction}
+                      declineAction={declineAction}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center">
+                      Only portal approvers can accept or decline requests.
+                    </p>
+                  )}
 
                   <p className="text-xs text-muted-foreground text-center">
                     Requested {new Date(request.created_at).toLocaleString()}
                   </p>
                 </CardContent>
               </Card>
-            ))}
+              );
+            })}
           </div>
         )}
 
@@ -423,9 +758,11 @@ export default async function LoadRequestsPage({ params }: PageProps) {
                         <div>
                           <p className="font-medium">{request.carrier?.name}</p>
                           <p className="text-sm text-muted-foreground">
-                            {request.accepted_company_rate
-                              ? `Accepted $${companyRate}/cf`
-                              : `Offered $${request.offered_rate}/cf`}
+                            {request.status === 'accepted' && request.final_rate !== null
+                              ? `Agreed $${request.final_rate}/cf`
+                              : request.accepted_company_rate
+                                ? `Accepted $${companyRate}/cf`
+                                : `Offered $${request.counter_offer_rate ?? request.offered_rate}/cf`}
                           </p>
                         </div>
                       </div>
@@ -449,6 +786,15 @@ export default async function LoadRequestsPage({ params }: PageProps) {
                         )}
                       </Badge>
                     </div>
+                    {(offerThreads[request.id]?.length ?? 0) > 1 && (
+                      <div className="mt-3">
+                        <LoadRequestNegotiationThread
+                          offers={offerThreads[request.id]}
+                          viewer="poster"
+                          carrierName={request.carrier?.name}
+                        />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -1,10 +1,11 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { revalidatePath } from 'next/cache';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase-server';
 import { getCompanyStorageLocations } from '@/data/company-portal';
 import { notifyPartnersOfNewLoad } from '@/data/notifications';
+import { portalRoleAllows } from '@/data/company-portal-auth-shared';
+import { authorizePortalAction, getCompanyPortalSession } from '@/lib/company-portal-session';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,34 +22,27 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ArrowLeft, MapPin, Package, Calendar, DollarSign, Truck, Eye } from 'lucide-react';
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
-
 export default async function PostLoadPage() {
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
   }
 
+  // Viewers can't post; the dashboard hides the entry points too
+  if (!portalRoleAllows(session.role, 'post_loads')) {
+    redirect('/company/dashboard');
+  }
+
   const storageLocations = await getCompanyStorageLocations(session.company_id);
 
   async function postLoadAction(formData: FormData) {
     'use server';
 
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('company_session');
-    if (!sessionCookie) redirect('/company-login');
+    const auth = await authorizePortalAction('post_loads');
+    if (!auth.session) redirect('/company/dashboard');
 
-    const session = JSON.parse(sessionCookie.value);
+    const session = auth.session;
     const supabase = await createClient();
 
     // Generate load number
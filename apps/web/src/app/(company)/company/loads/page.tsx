@@ -1,7 +1,8 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { getCompanyLoads } from '@/data/company-portal';
+import { portalRoleAllows } from '@/data/company-portal-auth-shared';
+import { getCompanyPortalSession } from '@/lib/company-portal-session';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,17 +18,6 @@ import {
   Phone,
 } from 'lucide-react';
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
-
 const statusConfig: Record<string, { label: string; color: string; icon: React.ReactNode }> = {
   pending: {
     label: 'Pending',
@@ -66,7 +56,7 @@ export default async function CompanyLoadsPage({
 }: {
   searchParams: Promise<{ status?: string }>;
 }) {
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
   const params = await searchParams;
 
   if (!session) {
@@ -75,6 +65,7 @@ export default async function CompanyLoadsPage({
 
   const statusFilter = params.status || 'all';
   const loads = await getCompanyLoads(session.company_id, statusFilter);
+  const canPostLoads = portalRoleAllows(session.role, 'post_loads');
 
   const filterOptions = [
     { value: 'all', label: 'All Loads' },
@@ -96,12 +87,14 @@ export default async function CompanyLoadsPage({
             </Button>
             <h1 className="font-semibold">All Loads</h1>
           </div>
-          <Button asChild size="sm">
-            <Link href="/company/loads/new">
-              <Plus className="h-4 w-4 mr-1" />
-              Post Load
-            </Link>
-          </Button>
+          {canPostLoads && (
+            <Button asChild size="sm">
+              <Link href="/company/loads/new">
+                <Plus className="h-4 w-4 mr-1" />
+                Post Load
+              </Link>
+            </Button>
+          )}
         </div>
       </header>
 
@@ -223,12 +216,14 @@ export default async function CompanyLoadsPage({
                   ? "You haven't posted any loads yet."
                   : `No loads with status "${statusFilter}".`}
               </p>
-              <Button asChild>
-                <Link href="/company/loads/new">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Post Your First Load
-                </Link>
-              </Button>
+              {canPostLoads && (
+                <Button asChild>
+                  <Link href="/company/loads/new">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Post Your First Load
+                  </Link>
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -1,4 +1,3 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { revalidatePath } from 'next/cache';
 import {
@@ -6,6 +5,7 @@ import {
   markAllCompanyNotificationsRead,
   markNotificationRead,
 } from '@/data/notifications';
+import { getCompanyPortalSession } from '@/lib/company-portal-session';
 import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -24,19 +24,10 @@ import {
   Undo2,
   Navigation,
   Star,
+  Repeat,
+  Handshake,
 } from 'lucide-react';
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
-
 const typeConfig: Record<
   string,
   { icon: React.ElementType; color: string; href: (n: { load_id?: string | null }) => string }
@@ -46,6 +37,16 @@ const typeConfig: Record<
     color: 'text-blue-500',
     href: (n) => (n.load_id ? `/company/loads/${n.load_id}/requests` : '/company/requests'),
   },
+  load_request_countered: {
+    icon: Repeat,
+    color: 'text-purple-500',
+    href: (n) => (n.load_id ? `/company/loads/${n.load_id}/requests` : '/company/requests'),
+  },
+  load_request_agreed: {
+    icon: Handshake,
+    color: 'text-green-500',
+    href: (n) => (n.load_id ? `/company/loads/${n.load_id}/requests` : '/company/requests'),
+  },
   load_confirmed: {
     icon: CheckCircle,
     color: 'text-green-500',
@@ -114,7 +115,7 @@ function formatTimeAgo(dateString: string): string {
 }
 
 export default async function CompanyNotificationsPage() {
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
@@ -125,16 +126,16 @@ export default async function CompanyNotificationsPage() {
 
   async function markAllReadAction() {
     'use server';
-    const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('company_session');
-    if (!sessionCookie) return;
-    const sessionData = JSON.parse(sessionCookie.value);
+    const sessionData = await getCompanyPortalSession();
+    if (!sessionData) return;
     await markAllCompanyNotificationsRead(sessionData.company_id);
     revalidatePath('/company/notifications');
   }
 
   async function markReadAction(formData: FormData) {
     'use server';
+    const sessionData = await getCompanyPortalSession();
+    if (!sessionData) return;
     const notificationId = formData.get('notification_id') as string;
     if (notificationId) {
       await markNotificationRead(notificationId);
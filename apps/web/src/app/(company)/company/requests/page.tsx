@@ -1,8 +1,12 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
 import { getCompanyLoadsWithRequests } from '@/data/company-portal';
+import { getCompanyAwardRule, saveAwardRule } from '@/data/carrier-award-rules';
+import { describeAwardRule, parseAwardRuleForm } from '@/data/carrier-award-rules-shared';
+import { portalRoleAllows } from '@/data/company-portal-auth-shared';
+import { authorizePortalAction, getCompanyPortalSession } from '@/lib/company-portal-session';
 import Link from 'next/link';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -12,27 +16,28 @@ import {
   Users,
   Clock,
   CheckCircle,
+  Handshake,
+  Repeat,
+  Bot,
 } from 'lucide-react';
+import { AwardRuleFields } from '@/components/award-rule-fields';
 
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
+interface PageProps {
+  searchParams: Promise<{ error?: string }>;
 }
 
-export default async function CompanyRequestsPage() {
-  const session = await getCompanySession();
+export default async function CompanyRequestsPage({ searchParams }: PageProps) {
+  const { error: actionError } = await searchParams;
+  const session = await getCompanyPortalSession();
 
   if (!session) {
     redirect('/company-login');
   }
 
-  const loads = await getCompanyLoadsWithRequests(session.company_id);
+  const [loads, awardRule] = await Promise.all([
+    getCompanyLoadsWithRequests(session.company_id),
+    getCompanyAwardRule(session.company_id),
+  ]);
 
   // Filter to loads with pending requests or on marketplace
   const loadsWithRequests = loads.filter((l) => l.pending_request_count > 0);
@@ -40,6 +45,26 @@ export default async function CompanyRequestsPage() {
     (l) => l.is_marketplace_visible && !l.assigned_carrier_id
   );
   const assignedLoads = loads.filter((l) => l.assigned_carrier_id);
+  const canManageAwardRules = portalRoleAllows(session.role, 'manage_award_rules');
+
+  async function saveAwardRuleAction(formData: FormData) {
+    'use server';
+
+    const auth = await authorizePortalAction('manage_award_rules');
+    if (!auth.session) redirect(`/company/requests?error=${encodeURIComponent(auth.error)}`);
+    const sessionData = auth.session;
+    const result = await saveAwardRule(
+      sessionData.owner_id,
+      sessionData.company_id,
+      null,
+      parseAwardRuleForm(formData)
+    );
+
+    revalidatePath('/company/requests');
+    if (!result.success) {
+      redirect(`/company/requests?error=${encodeURIComponent(result.error || 'Failed to save award rule')}`);
+    }
+  }
 
   return (
     <div className="min-h-screen bg-background">
@@ -56,6 +81,41 @@ export default async function CompanyRequestsPage() {
       </header>
 
       <main className="container py-6 space-y-6">
+        {actionError && (
+          <Card className="border-destructive">
+            <CardContent className="p-4">
+              <p className="text-sm text-destructive">{actionError}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Company default auto-award rule */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Bot className="h-4 w-4" />
+              Auto-award
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm">
+              <span className="font-medium">{describeAwardRule(awardRule)}</span>
+              <span className="text-muted-foreground"> · default for loads without their own rule</span>
+            </p>
+            {canManageAwardRules && (
+              <details className="rounded-lg border p-3">
+                <summary className="cursor-pointer text-sm font-medium">Edit company default</summary>
+                <form action={saveAwardRuleAction} className="mt-3 space-y-3">
+                  <AwardRuleFields rule={awardRule} />
+                  <Button type="submit" size="sm">
+                    Save Default
+                  </Button>
+                </form>
+              </details>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Loads with Pending Requests */}
         {loadsWithRequests.length > 0 && (
           <div className="space-y-4">
@@ -93,6 +153,18 @@ export default async function CompanyRequestsPage() {
                           </p>
                         </div>
                         <div className="flex items-center gap-2">
+                          {load.agreed_request_count > 0 && (
+                            <Badge className="bg-green-500/20 text-green-400">
+                              <Handshake className="h-3 w-3 mr-1" />
+                              {load.agreed_request_count} agreed
+                            </Badge>
+                          )}
+                          {load.awaiting_carrier_count > 0 && (
+                            <Badge variant="outline">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              {load.awaiting_carrier_count} countered
+                            </Badge>
+                          )}
                           <Badge className="bg-yellow-500/20 text-yellow-400">
                             <Users className="h-3 w-3 mr-1" />
                             {load.pending_request_count} request
@@ -200,9 +272,11 @@ export default async function CompanyRequestsPage() {
               <p className="text-muted-foreground mb-4">
                 Post a load to the marketplace to receive requests from carriers
               </p>
-              <Button asChild>
-                <Link href="/company/loads/new">Post a Load</Link>
-              </Button>
+              {portalRoleAllows(session.role, 'post_loads') && (
+                <Button asChild>
+                  <Link href="/company/loads/new">Post a Load</Link>
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
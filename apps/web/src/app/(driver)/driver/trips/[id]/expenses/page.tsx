@@ -53,6 +53,11 @@ export default async function DriverTripExpensesPage({ params }: DriverTripExpen
       const paidBy = formData.get("paid_by") as string | null;
       const notes = (formData.get("notes") as string) || undefined;
       const incurredAt = (formData.get("incurred_at") as string) || undefined;
+      const gallons = Number(formData.get("gallons")) || undefined;
+      const fuelState = ((formData.get("fuel_state") as string) || "").trim().toUpperCase() || undefined;
+      if (fuelState && !/^[A-Z]{2}$/.test(fuelState)) {
+        return { error: "Use the two-letter state code for the fuel purchase" };
+      }
 
       const category =
         expenseType === "fuel"
@@ -70,6 +75,8 @@ export default async function DriverTripExpensesPage({ params }: DriverTripExpen
           category,
           description: expenseType,
           amount,
+          gallons: category === "fuel" ? gallons : undefined,
+          fuel_state: category === "fuel" ? fuelState : undefined,
           incurred_at: incurredAt,
           expense_type: expenseType,
           paid_by: (paidBy as any) || undefined,
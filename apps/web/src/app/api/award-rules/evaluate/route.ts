@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { evaluateLoadAward } from '@/data/carrier-award-rules';
+
+/**
+ * POST /api/award-rules/evaluate
+ * Internal endpoint that applies a load's award rule. Called from the
+ * load_requests trigger when a carrier requests a load; only the service
+ * role key or internal secret is accepted.
+ */
+export async function POST(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const internalSecret = process.env.INTERNAL_API_SECRET;
+
+  const token = authHeader?.replace('Bearer ', '');
+  const secretHeader = request.headers.get('x-internal-secret');
+  const isAuthorized =
+    (!!serviceKey && token === serviceKey) || (!!internalSecret && secretHeader === internalSecret);
+
+  if (!isAuthorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { load_id } = body;
+
+    if (!load_id) {
+      return NextResponse.json({ error: 'Missing load_id' }, { status: 400 });
+    }
+
+    const result = await evaluateLoadAward(load_id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, decision: result.decision });
+  } catch (error) {
+    console.error('Error evaluating award rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
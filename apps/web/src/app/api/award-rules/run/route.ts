@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { runAwardRules } from '@/data/carrier-award-rules';
+
+/**
+ * POST /api/award-rules/run
+ * Internal endpoint that evaluates award rules on every open load, closing
+ * decision windows and reposting loads nobody requested. Run hourly by the
+ * scheduler; only the service role key or internal secret is accepted.
+ */
+export async function POST(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const internalSecret = process.env.INTERNAL_API_SECRET;
+
+  const token = authHeader?.replace('Bearer ', '');
+  const secretHeader = request.headers.get('x-internal-secret');
+  const isAuthorized =
+    (!!serviceKey && token === serviceKey) || (!!internalSecret && secretHeader === internalSecret);
+
+  if (!isAuthorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runAwardRules();
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      evaluated: result.evaluated,
+      awarded: result.awarded,
+      reposted: result.reposted,
+    });
+  } catch (error) {
+    console.error('Error running award rules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
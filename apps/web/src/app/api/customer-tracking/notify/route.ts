@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { sendArrivingSoonNotifications } from '@/data/customer-tracking';
+
+/**
+ * POST /api/customer-tracking/notify
+ * Internal endpoint that texts/emails customers whose truck is about an hour
+ * out. Run every few minutes by the scheduler; only the service role key or
+ * internal secret is accepted.
+ */
+export async function POST(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const internalSecret = process.env.INTERNAL_API_SECRET;
+
+  const token = authHeader?.replace('Bearer ', '');
+  const secretHeader = request.headers.get('x-internal-secret');
+  const isAuthorized =
+    (!!serviceKey && token === serviceKey) || (!!internalSecret && secretHeader === internalSecret);
+
+  if (!isAuthorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sendArrivingSoonNotifications();
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, notified: result.notified });
+  } catch (error) {
+    console.error('Error sending arriving-soon notifications:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
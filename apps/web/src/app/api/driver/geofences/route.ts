@@ -0,0 +1,83 @@
+/**
+ * Driver Geofences API
+ *
+ * Called by the mobile app. GET returns the load stop geofences to monitor;
+ * POST reports entering or leaving one, or confirms a prompted arrival.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  geofenceEventSchema,
+  getDriverGeofences,
+  recordGeofenceEvent,
+  type GeofenceDriver,
+} from '@/data/load-stop-visits';
+
+async function getRequestDriver(request: Request): Promise<GeofenceDriver | null> {
+  // Mobile app sends the session as a Bearer token
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: { Authorization: `Bearer ${token}` },
+      },
+    }
+  );
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: driver } = await supabase
+    .from('drivers')
+    .select('id, owner_id')
+    .eq('auth_user_id', user.id)
+    .maybeSingle();
+
+  return driver;
+}
+
+export async function GET(request: Request) {
+  const driver = await getRequestDriver(request);
+  if (!driver) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await getDriverGeofences(driver);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Driver geofences error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch geofences' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const driver = await getRequestDriver(request);
+  if (!driver) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = geofenceEventSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const result = await recordGeofenceEvent(driver, parsed.data);
+  if (!result.success) {
+    return NextResponse.json(result, { status: result.error === 'Load not found' ? 404 : 400 });
+  }
+  return NextResponse.json(result);
+}
@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/supabase-server';
 import { markReceivablePaid } from '@/data/settlements';
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from '@/data/payments';
+
+function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PAYMENT_METHOD_LABELS, value);
+}
 
 export async function POST(request: Request) {
   try {
@@ -10,7 +15,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { receivableId } = body;
+    const { receivableId, paymentMethod, referenceNumber, paymentDate } = body;
 
     if (!receivableId) {
       return NextResponse.json(
@@ -19,7 +24,18 @@ export async function POST(request: Request) {
       );
     }
 
-    const result = await markReceivablePaid(receivableId, user.id);
+    if (paymentMethod !== undefined && paymentMethod !== null && !isPaymentMethod(paymentMethod)) {
+      return NextResponse.json(
+        { error: `Payment method must be one of: ${Object.keys(PAYMENT_METHOD_LABELS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await markReceivablePaid(receivableId, user.id, {
+      paymentMethod: isPaymentMethod(paymentMethod) ? paymentMethod : undefined,
+      referenceNumber,
+      paymentDate,
+    });
 
     if (!result.success) {
       return NextResponse.json(
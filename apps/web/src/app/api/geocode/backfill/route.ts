@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/supabase-server';
+import { backfillCoordinates } from '@/data/coordinates';
+
+/**
+ * POST /api/geocode/backfill
+ *
+ * Stores coordinates on the user's loads, trips and storage locations saved
+ * before geocoding on write. Processes a batch of each per call; call again
+ * until the counts reach zero.
+ */
+export async function POST() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await backfillCoordinates(user.id);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error || 'Failed to backfill coordinates' }, { status: 500 });
+  }
+
+  return NextResponse.json(result);
+}
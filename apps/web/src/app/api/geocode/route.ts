@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/supabase-server';
+import { geocodeAddresses, type AddressToGeocode } from '@/lib/geocoding';
+
+const MAX_ADDRESSES = 200;
+
+/**
+ * POST /api/geocode
+ *
+ * Batch geocodes addresses against the bundled ZIP centroid dataset, for
+ * client components that can't load the dataset themselves.
+ *
+ * Body: { addresses: { city?, state?, postalCode? }[] }
+ * Returns: { results: ({ lat, lng, city?, state? } | null)[] } in input order
+ */
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const addresses: unknown = body.addresses;
+
+    if (!Array.isArray(addresses) || addresses.length > MAX_ADDRESSES) {
+      return NextResponse.json(
+        { error: `addresses must be an array of at most ${MAX_ADDRESSES} entries` },
+        { status: 400 }
+      );
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' ? value : null);
+    const results = await geocodeAddresses(
+      addresses.map((address): AddressToGeocode => ({
+        city: text(address?.city),
+        state: text(address?.state),
+        postalCode: text(address?.postalCode),
+      }))
+    );
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error in geocode endpoint:', error);
+    return NextResponse.json({ error: 'Failed to geocode addresses' }, { status: 500 });
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Signed Load Documents API
+ *
+ * Called by drivers from the mobile app after the customer signs the bill of
+ * lading at pickup or the delivery receipt at delivery. Renders the signed PDF
+ * from the load record, stores it in load-photos and files it with the load
+ * documents.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient as createServerClient } from '@/lib/supabase-server';
+import { createClient } from '@supabase/supabase-js';
+import { generateSignedLoadDocumentPDF } from '@/lib/export/pdf';
+
+type SignedDocumentType = 'bol' | 'delivery_receipt';
+
+interface SignedDocumentRequest {
+  documentType: SignedDocumentType;
+  signerName: string;
+  signedAt?: string;
+  strokes: [number, number][][];
+  width: number;
+  height: number;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+const BUCKET = 'load-photos';
+const MAX_SIGNATURE_POINTS = 5000;
+
+const DOCUMENT_TITLES: Record<SignedDocumentType, string> = {
+  bol: 'Bill of Lading',
+  delivery_receipt: 'Delivery Receipt',
+};
+
+const ACKNOWLEDGEMENTS: Record<SignedDocumentType, string> = {
+  bol:
+    'The shipper tenders the goods described above for transportation and agrees to the ' +
+    'charges and accessorial services listed. Condition of the goods at origin is as recorded ' +
+    'on the inventory.',
+  delivery_receipt:
+    'The consignee acknowledges receipt of the shipment described above. Exceptions were noted ' +
+    'on the inventory at delivery; any loss or damage not noted must be reported to the carrier ' +
+    'in writing.',
+};
+
+function isValidStrokes(strokes: unknown): strokes is [number, number][][] {
+  if (!Array.isArray(strokes) || strokes.length === 0) return false;
+  let points = 0;
+  for (const stroke of strokes) {
+    if (!Array.isArray(stroke)) return false;
+    for (const point of stroke) {
+      if (
+        !Array.isArray(point) ||
+        point.length !== 2 ||
+        typeof point[0] !== 'number' ||
+        typeof point[1] !== 'number'
+      ) {
+        return false;
+      }
+      points++;
+    }
+  }
+  return points > 0 && points <= MAX_SIGNATURE_POINTS;
+}
+
+function formatLocation(city: string | null, state: string | null): string {
+  return [city, state].filter(Boolean).join(', ') || 'Unknown';
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: loadId } = await context.params;
+
+    // Handle both cookie auth (web) and Bearer token auth (mobile)
+    const authHeader = request.headers.get('Authorization');
+    const token = authHeader?.replace('Bearer ', '');
+
+    let supabase;
+    if (token) {
+      // Mobile app - use Bearer token
+      supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          global: {
+            headers: { Authorization: `Bearer ${token}` },
+          },
+        }
+      );
+    } else {
+      // Web - use server client with cookies
+      supabase = await createServerClient();
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the driver record for this user
+    const { data: driver, error: driverError } = await supabase
+      .from('drivers')
+      .select('id')
+      .eq('auth_user_id', user.id)
+      .single();
+
+    if (driverError || !driver) {
+      return NextResponse.json(
+        { error: 'Driver not found. Only drivers can capture signatures.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json() as SignedDocumentRequest;
+    const { documentType, signerName, strokes, width, height } = body;
+    const latitude = typeof body.latitude === 'number' ? body.latitude : null;
+    const longitude = typeof body.longitude === 'number' ? body.longitude : null;
+
+    if (documentType !== 'bol' && documentType !== 'delivery_receipt') {
+      return NextResponse.json({ error: 'Invalid document type' }, { status: 400 });
+    }
+    if (!signerName?.trim()) {
+      return NextResponse.json({ error: 'Signer name is required' }, { status: 400 });
+    }
+    if (!isValidStrokes(strokes) || !(width > 0) || !(height > 0)) {
+      return NextResponse.json({ error: 'A signature is required' }, { status: 400 });
+    }
+
+    const signedAtDate = body.signedAt ? new Date(body.signedAt) : new Date();
+    const signedAt = Number.isNaN(signedAtDate.getTime())
+      ? new Date().toISOString()
+      : signedAtDate.toISOString();
+
+    // Verify the driver has access to this load (via trip assignment)
+    const { data: tripLoad, error: accessError } = await supabase
+      .from('trip_loads')
+      .select(`
+        trip_id,
+        trips!inner (id, driver_id)
+      `)
+      .eq('load_id', loadId)
+      .eq('trips.driver_id', driver.id)
+      .limit(1)
+      .maybeSingle();
+
+    if (accessError || !tripLoad) {
+      return NextResponse.json(
+        { error: 'You do not have access to this load' },
+        { status: 403 }
+      );
+    }
+
+    const { data: load, error: loadError } = await supabase
+      .from('loads')
+      .select(`
+        id,
+        owner_id,
+        load_number,
+        job_number,
+        customer_name,
+        pickup_city,
+        pickup_state,
+        delivery_city,
+        delivery_state,
+        dropoff_city,
+        dropoff_state,
+        actual_cuft_loaded,
+        rate_per_cuft,
+        contract_linehaul_total,
+        contract_balance_due,
+        contract_accessorials_shuttle,
+        contract_accessorials_long_carry,
+        contract_accessorials_stairs,
+        contract_accessorials_bulky,
+        contract_accessorials_packing,
+        contract_accessorials_other,
+        contract_accessorials_notes,
+        amount_collected_at_pickup,
+        amount_collected_on_delivery,
+        remaining_balance_for_delivery,
+        payment_method,
+        company:companies!loads_company_id_fkey(name)
+      `)
+      .eq('id', loadId)
+      .single();
+
+    if (loadError || !load) {
+      return NextResponse.json({ error: 'Load not found' }, { status: 404 });
+    }
+
+    const { data: carrier } = await supabase
+      .from('companies')
+      .select('name')
+      .eq('owner_id', load.owner_id)
+      .eq('is_workspace_company', true)
+      .maybeSingle();
+
+    const loadCompany = Array.isArray(load.company) ? load.company[0] : load.company;
+    const companyName = carrier?.name || loadCompany?.name || 'MoveBoss Pro';
+    const loadNumber = load.job_number || load.load_number || load.id.slice(0, 8);
+
+    const accessorials = [
+      { label: 'Shuttle', amount: Number(load.contract_accessorials_shuttle) || 0 },
+      { label: 'Long Carry', amount: Number(load.contract_accessorials_long_carry) || 0 },
+      { label: 'Stairs', amount: Number(load.contract_accessorials_stairs) || 0 },
+      { label: 'Bulky Items', amount: Number(load.contract_accessorials_bulky) || 0 },
+      { label: 'Packing', amount: Number(load.contract_accessorials_packing) || 0 },
+      {
+        label: load.contract_accessorials_notes ? `Other (${load.contract_accessorials_notes})` : 'Other',
+        amount: Number(load.contract_accessorials_other) || 0,
+      },
+    ].filter((line) => line.amount !== 0);
+    const accessorialsTotal = accessorials.reduce((sum, line) => sum + line.amount, 0);
+
+    const balanceCollected =
+      documentType === 'bol'
+        ? Number(load.amount_collected_at_pickup) || 0
+        : Number(load.amount_collected_on_delivery) || 0;
+
+    const details = [
+      { label: 'Cubic Feet Loaded', value: load.actual_cuft_loaded ? String(load.actual_cuft_loaded) : '-' },
+      { label: 'Rate per Cubic Foot', value: load.rate_per_cuft ? formatMoney(Number(load.rate_per_cuft)) : '-' },
+      {
+        label: 'Linehaul',
+        value: load.contract_linehaul_total ? formatMoney(Number(load.contract_linehaul_total)) : '-',
+      },
+      {
+        label: 'Balance Due',
+        value: load.contract_balance_due ? formatMoney(Number(load.contract_balance_due)) : '-',
+      },
+    ];
+    if (load.payment_method && balanceCollected > 0) {
+      details.push({ label: 'Payment Method', value: load.payment_method.replace(/_/g, ' ') });
+    }
+
+    const doc = generateSignedLoadDocumentPDF({
+      title: DOCUMENT_TITLES[documentType],
+      loadNumber,
+      companyName,
+      customerName: load.customer_name,
+      origin: formatLocation(load.pickup_city, load.pickup_state),
+      destination: formatLocation(
+        load.dropoff_city || load.delivery_city,
+        load.dropoff_state || load.delivery_state
+      ),
+      details,
+      accessorials,
+      balanceCollected,
+      balanceRemaining:
+        documentType === 'bol' && load.remaining_balance_for_delivery !== null
+          ? Number(load.remaining_balance_for_delivery)
+          : null,
+      acknowledgement: ACKNOWLEDGEMENTS[documentType],
+      signerName: signerName.trim(),
+      signedAt,
+      latitude,
+      longitude,
+      signature: { strokes, width, height },
+    });
+
+    const fileName = `${documentType}-${loadNumber.replace(/[^A-Za-z0-9-]/g, '')}-${Date.now()}.pdf`;
+    const path = `${loadId}/documents/${fileName}`;
+    const pdf = Buffer.from(doc.output('arraybuffer'));
+
+    const { error: uploadError } = await supabase.storage.from(BUCKET).upload(path, pdf, {
+      contentType: 'application/pdf',
+      upsert: false,
+    });
+
+    if (uploadError) {
+      console.error('Error uploading signed document:', uploadError);
+      return NextResponse.json({ error: 'Failed to store signed document' }, { status: 500 });
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from(BUCKET).getPublicUrl(path);
+
+    // File the PDF with the rest of the load documents
+    const { data: photo, error: photoError } = await supabase
+      .from('load_photos')
+      .insert({
+        load_id: loadId,
+        uploaded_by_id: user.id,
+        photo_type: documentType,
+        file_url: publicUrl,
+        file_name: fileName,
+        file_size: pdf.length,
+        mime_type: 'application/pdf',
+        caption: `Signed ${DOCUMENT_TITLES[documentType]} - ${signerName.trim()}`,
+        latitude,
+        longitude,
+        taken_at: signedAt,
+      })
+      .select('id')
+      .single();
+
+    if (photoError) {
+      console.error('Error filing signed document:', photoError);
+      return NextResponse.json({ error: 'Failed to save signed document' }, { status: 500 });
+    }
+
+    const { data: signed, error: insertError } = await supabase
+      .from('load_signed_documents')
+      .insert({
+        owner_id: load.owner_id,
+        load_id: loadId,
+        document_type: documentType,
+        signer_name: signerName.trim(),
+        signed_at: signedAt,
+        latitude,
+        longitude,
+        signature_strokes: strokes,
+        signature_width: width,
+        signature_height: height,
+        accessorials_total: accessorialsTotal,
+        balance_collected: balanceCollected,
+        pdf_url: publicUrl,
+        load_photo_id: photo.id,
+        created_by_driver_id: driver.id,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('Error recording signed document:', insertError);
+      return NextResponse.json({ error: 'Failed to save signed document' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      id: signed.id,
+      url: publicUrl,
+    });
+  } catch (error) {
+    console.error('Signed document error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save signed document' },
+      { status: 500 }
+    );
+  }
+}
@@ -14,6 +14,9 @@ const DEFAULT_SETTINGS = {
   auto_post_min_capacity_cuft: 500,
   default_location_sharing: false,
   default_capacity_visibility: 'private',
+  geofence_arrival_mode: 'prompt',
+  geofence_radius_meters: 250,
+  detention_free_minutes: 120,
 };
 
 /**
@@ -99,6 +102,9 @@ export async function PATCH(request: Request) {
       'auto_post_min_capacity_cuft',
       'default_location_sharing',
       'default_capacity_visibility',
+      'geofence_arrival_mode',
+      'geofence_radius_meters',
+      'detention_free_minutes',
     ];
 
     const sanitizedUpdates: Record<string, unknown> = {};
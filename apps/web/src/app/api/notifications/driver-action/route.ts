@@ -13,6 +13,7 @@ import {
   notifyOwnerLoadPhoto,
   notifyOwnerExpenseAdded,
 } from '@/lib/push-notifications';
+import { notifyCustomerOutForDelivery } from '@/data/customer-tracking';
 
 type DriverActionRequest =
   | {
@@ -145,6 +146,7 @@ export async function POST(request: Request) {
 
       case 'delivery_started': {
         await notifyOwnerDeliveryStarted(body.loadId);
+        await notifyCustomerOutForDelivery(body.loadId);
         return NextResponse.json({ success: true });
       }
 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractLoadDocument, isExtractionDocumentType } from '@/lib/document-extraction';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Full structured extraction for the load form review screens.
+ * Body: multipart form with `file` and `document_type`
+ * (contract | rate_confirmation | loading_report).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const documentType = formData.get('document_type') ?? 'contract';
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'Image or PDF file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isExtractionDocumentType(documentType)) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown document type' },
+        { status: 400 }
+      );
+    }
+
+    const result = await extractLoadDocument(file, documentType);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, ...result.extraction });
+  } catch (error) {
+    console.error('[ocr/load-document] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process document',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { extractLoadDocument } from '@/lib/document-extraction';
 
 export const runtime = 'nodejs';
-export const maxDuration = 30;
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,65 +16,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert file to base64
-    const arrayBuffer = await file.arrayBuffer();
-    const base64 = Buffer.from(arrayBuffer).toString('base64');
-    const mediaType = file.type as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
-
-    // Call Claude Vision API
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mediaType,
-                data: base64,
-              },
-            },
-            {
-              type: 'text',
-              text: `Extract from this moving company loading report:
-1. The balance due on delivery (the dollar amount the customer pays at delivery)
-2. The job/reference number (company's internal reference)
-
-Important: The balance due is what the customer owes at delivery, not the total estimate.
-
-Return ONLY a JSON object in this exact format, no other text:
-{"balance_due": <number or null>, "job_number": "<string or null>"}
-
-If you cannot find a value, use null. For balance_due, return just the number without $ sign.`,
-            },
-          ],
-        },
-      ],
-    });
-
-    // Parse the response
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-
-    // Extract JSON from the response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return NextResponse.json({
-        success: false,
-        error: 'Could not parse document. Please enter details manually.',
-      });
+    const result = await extractLoadDocument(file, 'loading_report');
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
     }
 
-    const extracted = JSON.parse(jsonMatch[0]);
+    const { fields } = result.extraction;
 
+    // `data` keeps the original keys for app builds that predate the review screen
     return NextResponse.json({
       success: true,
       data: {
-        balance_due: extracted.balance_due,
-        job_number: extracted.job_number,
+        balance_due: fields.balance_due?.value ?? null,
+        job_number: fields.internal_reference?.value ?? null,
+        rate_per_cuft: fields.rate_per_cuft?.value ?? null,
       },
+      ...result.extraction,
     });
   } catch (error) {
     console.error('[ocr/loading-report] Error:', error);
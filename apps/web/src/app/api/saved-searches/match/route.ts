@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { matchPostedLoad } from '@/data/saved-searches';
+
+/**
+ * POST /api/saved-searches/match
+ * Internal endpoint to match a newly posted load against saved searches and
+ * send instant alerts. Called from the loads trigger and from the mobile app
+ * after it posts a load. Matching is idempotent, so repeat calls are harmless.
+ */
+export async function POST(request: Request) {
+  // Verify service role key, internal secret, or valid session token
+  const authHeader = request.headers.get('authorization');
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const internalSecret = process.env.INTERNAL_API_SECRET;
+
+  if (!authHeader) {
+    return NextResponse.json({ error: 'Missing authorization' }, { status: 401 });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const secretHeader = request.headers.get('x-internal-secret');
+  const isAuthorized = token === serviceKey || (!!internalSecret && secretHeader === internalSecret);
+
+  let isValidSession = false;
+  if (!isAuthorized) {
+    try {
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+      if (supabaseUrl) {
+        const supabase = createClient(supabaseUrl, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '');
+        const { data: { user } } = await supabase.auth.getUser(token);
+        isValidSession = !!user;
+      }
+    } catch {
+      // Invalid token
+    }
+  }
+
+  if (!isAuthorized && !isValidSession) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { load_id } = body;
+
+    if (!load_id) {
+      return NextResponse.json({ error: 'Missing load_id' }, { status: 400 });
+    }
+
+    const result = await matchPostedLoad(load_id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, matched: result.matched });
+  } catch (error) {
+    console.error('Error matching saved searches:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getCurrentUser, createClient } from '@/lib/supabase-server';
 import {
   geocodeAddress,
+  storedCoordinates,
   calculateDistance,
   calculateAddedMiles,
   type GeoCoordinates,
@@ -79,6 +80,7 @@ export async function GET(
         owner_id,
         origin_city, origin_state, origin_postal_code,
         destination_city, destination_state, destination_postal_code,
+        origin_lat, origin_lng, destination_lat, destination_lng,
         truck:trucks(id, cubic_capacity),
         trailer:trailers(id, capacity_cuft)
       `)
@@ -108,7 +110,8 @@ export async function GET(
           id,
           cubic_feet,
           pickup_city, pickup_state, pickup_postal_code,
-          delivery_city, delivery_state, delivery_postal_code
+          delivery_city, delivery_state, delivery_postal_code,
+          pickup_lat, pickup_lng, delivery_lat, delivery_lng
         )
       `)
       .eq('trip_id', tripId)
@@ -132,10 +135,22 @@ export async function GET(
     const effectiveDestState = trip.destination_state || lastLoadData?.delivery_state;
     const effectiveDestZip = trip.destination_postal_code || lastLoadData?.delivery_postal_code;
 
+    // Prefer coordinates stored on write, from the same source as the address
+    const storedOrigin = trip.origin_city
+      ? storedCoordinates(trip.origin_lat, trip.origin_lng)
+      : storedCoordinates(firstLoadData?.pickup_lat, firstLoadData?.pickup_lng);
+    const storedDest = trip.destination_city
+      ? storedCoordinates(trip.destination_lat, trip.destination_lng)
+      : storedCoordinates(lastLoadData?.delivery_lat, lastLoadData?.delivery_lng);
+
     // Geocode trip origin and destination (using derived values if needed)
     const [originResult, destResult] = await Promise.all([
-      geocodeAddress(effectiveOriginCity, effectiveOriginState, effectiveOriginZip),
-      geocodeAddress(effectiveDestCity, effectiveDestState, effectiveDestZip),
+      storedOrigin
+        ? { success: true, coordinates: storedOrigin }
+        : geocodeAddress(effectiveOriginCity, effectiveOriginState, effectiveOriginZip),
+      storedDest
+        ? { success: true, coordinates: storedDest }
+        : geocodeAddress(effectiveDestCity, effectiveDestState, effectiveDestZip),
     ]);
 
     if (!originResult.success || !destResult.success) {
@@ -176,6 +191,10 @@ export async function GET(
         delivery_city,
         delivery_state,
         delivery_postal_code,
+        pickup_lat,
+        pickup_lng,
+        delivery_lat,
+        delivery_lng,
         cubic_feet,
         rate_per_cuft,
         balance_due
@@ -208,19 +227,15 @@ export async function GET(
         continue;
       }
 
-      // Geocode load origin (pickup location)
-      const loadOriginResult = await geocodeAddress(
-        load.pickup_city,
-        load.pickup_state,
-        load.pickup_postal_code
-      );
+      // Load origin (pickup location), geocoding loads saved before coordinates were stored
+      const loadOrigin =
+        storedCoordinates(load.pickup_lat, load.pickup_lng) ??
+        (await geocodeAddress(load.pickup_city, load.pickup_state, load.pickup_postal_code)).coordinates;
 
-      if (!loadOriginResult.success || !loadOriginResult.coordinates) {
+      if (!loadOrigin) {
         continue;
       }
 
-      const loadOrigin = loadOriginResult.coordinates;
-
       // Calculate distance from route and added miles
       const addedMiles = calculateAddedMiles(tripOrigin, tripDest, loadOrigin);
       const distanceFromRoute = Math.min(
@@ -233,12 +248,10 @@ export async function GET(
         continue;
       }
 
-      // Geocode load destination (delivery location) for map display
-      const loadDestResult = await geocodeAddress(
-        load.delivery_city,
-        load.delivery_state,
-        load.delivery_postal_code
-      );
+      // Load destination (delivery location) for map display
+      const loadDest =
+        storedCoordinates(load.delivery_lat, load.delivery_lng) ??
+        (await geocodeAddress(load.delivery_city, load.delivery_state, load.delivery_postal_code)).coordinates;
 
       const company = Array.isArray(load.company) ? load.company[0] : load.company;
 
@@ -264,10 +277,10 @@ export async function GET(
           lat: loadOrigin.lat,
           lng: loadOrigin.lng,
         },
-        destinationCoords: loadDestResult.success && loadDestResult.coordinates
+        destinationCoords: loadDest
           ? {
-              lat: loadDestResult.coordinates.lat,
-              lng: loadDestResult.coordinates.lng,
+              lat: loadDest.lat,
+              lng: loadDest.lng,
             }
           : undefined,
       });
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { geocodeZipCode } from '@/lib/geocoding';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -9,40 +10,27 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'postal_code is required' }, { status: 400 });
   }
 
-  // Only support US for now (Zippopotam.us API)
+  // Only support US for now (bundled ZIP centroid dataset)
   if (country !== 'US') {
     return NextResponse.json({ city: null, state: null });
   }
 
   try {
-    // Use Zippopotam.us API (free, no API key required)
-    const response = await fetch(`https://api.zippopotam.us/us/${postalCode}`, {
-      headers: {
-        Accept: 'application/json',
-      },
-    });
+    const result = await geocodeZipCode(postalCode);
 
-    if (!response.ok) {
-      // API returns 404 for invalid ZIP codes
+    if (!result.success || !result.coordinates) {
       return NextResponse.json({ city: null, state: null });
     }
 
-    const data = await response.json();
-
-    // Extract city and state from the first place (most common)
-    const place = data.places?.[0];
-    if (place) {
-      return NextResponse.json({
-        city: place['place name'] || null,
-        state: place['state abbreviation'] || data['state abbreviation'] || null,
-      });
-    }
-
-    return NextResponse.json({ city: null, state: null });
+    return NextResponse.json({
+      city: result.coordinates.city || null,
+      state: result.coordinates.state || null,
+      lat: result.coordinates.lat,
+      lng: result.coordinates.lng,
+    });
   } catch (error) {
     // Fail gracefully - don't block the form
     console.error('ZIP lookup error:', error);
     return NextResponse.json({ city: null, state: null });
   }
 }
-
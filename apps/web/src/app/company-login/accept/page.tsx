@@ -0,0 +1,136 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { acceptPortalInvite, getPortalInvite } from '@/data/company-portal-auth';
+import {
+  PORTAL_ROLE_DESCRIPTIONS,
+  PORTAL_ROLE_LABELS,
+  PORTAL_SIGN_IN_ERROR_MESSAGES,
+  type PortalSignInError,
+} from '@/data/company-portal-auth-shared';
+import { getPortalRequestMeta, setCompanyPortalSessionCookie } from '@/lib/company-portal-session';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Building2, AlertCircle } from 'lucide-react';
+
+export default async function CompanyPortalAcceptPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; error?: string }>;
+}) {
+  const params = await searchParams;
+  const token = params.token || '';
+  const invite = await getPortalInvite(token);
+  const error =
+    params.error && params.error in PORTAL_SIGN_IN_ERROR_MESSAGES
+      ? PORTAL_SIGN_IN_ERROR_MESSAGES[params.error as PortalSignInError]
+      : null;
+
+  async function acceptAction(formData: FormData) {
+    'use server';
+
+    const inviteToken = formData.get('token') as string;
+    const password = formData.get('password') as string;
+
+    if (password !== formData.get('confirm_password')) {
+      redirect(`/company-login/accept?token=${encodeURIComponent(inviteToken)}&error=weak_password`);
+    }
+
+    const result = await acceptPortalInvite(
+      inviteToken,
+      { full_name: (formData.get('full_name') as string) || '', password },
+      await getPortalRequestMeta()
+    );
+
+    if (result.success) {
+      await setCompanyPortalSessionCookie(result.token, result.expiresAt);
+      redirect('/company/dashboard');
+    }
+
+    if (result.error === 'weak_password') {
+      redirect(`/company-login/accept?token=${encodeURIComponent(inviteToken)}&error=weak_password`);
+    }
+    redirect(`/company-login?error=${result.error}`);
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center">
+              <Building2 className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle>{invite ? `Join the ${invite.company_name} Portal` : 'Invitation Not Found'}</CardTitle>
+          <CardDescription>
+            {invite
+              ? 'Choose a password to finish setting up your account'
+              : 'This invitation is invalid, has already been used or has expired. Ask your carrier to resend it.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invite ? (
+            <>
+              {error && (
+                <div className="flex items-center gap-2 p-3 mb-4 bg-red-500/10 text-red-600 dark:text-red-400 rounded-lg text-sm">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  {params.error === 'weak_password'
+                    ? 'Passwords must match and be at least 10 characters'
+                    : error}
+                </div>
+              )}
+
+              <div className="mb-4 rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{invite.email}</span>
+                  <Badge variant="secondary">{PORTAL_ROLE_LABELS[invite.role]}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{PORTAL_ROLE_DESCRIPTIONS[invite.role]}</p>
+              </div>
+
+              <form action={acceptAction} className="space-y-4">
+                <input type="hidden" name="token" value={token} />
+                <div className="space-y-2">
+                  <Label htmlFor="full_name">Your Name</Label>
+                  <Input id="full_name" name="full_name" defaultValue={invite.full_name || ''} autoComplete="name" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={10}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm_password">Confirm Password</Label>
+                  <Input
+                    id="confirm_password"
+                    name="confirm_password"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={10}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full">
+                  Create Account
+                </Button>
+              </form>
+            </>
+          ) : (
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/company-login">Go to Sign In</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,54 +1,56 @@
-import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
-import { verifyCompanyPortalLogin } from '@/data/company-portal';
+import { sendPortalMagicLink, signInWithPassword } from '@/data/company-portal-auth';
+import { PORTAL_SIGN_IN_ERROR_MESSAGES, type PortalSignInError } from '@/data/company-portal-auth-shared';
+import {
+  getCompanyPortalSession,
+  getPortalRequestMeta,
+  setCompanyPortalSessionCookie,
+} from '@/lib/company-portal-session';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Building2, AlertCircle } from 'lucide-react';
+import { Separator } from '@/components/ui/separator';
+import { Building2, AlertCircle, MailCheck } from 'lucide-react';
 
 export default async function CompanyLoginPage({
   searchParams,
 }: {
-  searchParams: Promise<{ error?: string }>;
+  searchParams: Promise<{ error?: string; sent?: string }>;
 }) {
   const params = await searchParams;
-  const error = params.error;
+  const error =
+    params.error && params.error in PORTAL_SIGN_IN_ERROR_MESSAGES
+      ? PORTAL_SIGN_IN_ERROR_MESSAGES[params.error as PortalSignInError]
+      : null;
+
+  if (await getCompanyPortalSession()) {
+    redirect('/company/dashboard');
+  }
 
   async function loginAction(formData: FormData) {
     'use server';
 
     const email = formData.get('email') as string;
-    const accessCode = formData.get('access_code') as string;
-
-    const result = await verifyCompanyPortalLogin(email, accessCode);
-
-    if (result.success && result.company) {
-      // Set session cookie
-      const cookieStore = await cookies();
-      cookieStore.set(
-        'company_session',
-        JSON.stringify({
-          company_id: result.company.company_id,
-          company_name: result.company.name,
-          owner_id: result.company.owner_id,
-          email: result.company.email,
-          is_broker: result.company.is_broker,
-          is_agent: result.company.is_agent,
-          is_carrier: result.company.is_carrier,
-        }),
-        {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 60 * 60 * 24 * 7, // 7 days
-        }
-      );
+    const password = formData.get('password') as string;
+
+    const result = await signInWithPassword(email, password, await getPortalRequestMeta());
 
+    if (result.success) {
+      await setCompanyPortalSessionCookie(result.token, result.expiresAt);
       redirect('/company/dashboard');
     }
 
-    redirect('/company-login?error=invalid');
+    redirect(`/company-login?error=${result.error}`);
+  }
+
+  async function magicLinkAction(formData: FormData) {
+    'use server';
+
+    const email = formData.get('email') as string;
+    await sendPortalMagicLink(email, await getPortalRequestMeta());
+
+    redirect('/company-login?sent=1');
   }
 
   return (
@@ -68,8 +70,15 @@ export default async function CompanyLoginPage({
         <CardContent>
           {error && (
             <div className="flex items-center gap-2 p-3 mb-4 bg-red-500/10 text-red-600 dark:text-red-400 rounded-lg text-sm">
-              <AlertCircle className="h-4 w-4" />
-              Invalid email or access code
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {params.sent && (
+            <div className="flex items-center gap-2 p-3 mb-4 bg-green-500/10 text-green-700 dark:text-green-400 rounded-lg text-sm">
+              <MailCheck className="h-4 w-4 flex-shrink-0" />
+              If that email has portal access, a sign-in link is on its way. It expires in 15 minutes.
             </div>
           )}
 
@@ -80,22 +89,24 @@ export default async function CompanyLoginPage({
                 id="email"
                 name="email"
                 type="email"
+                autoComplete="email"
                 placeholder="dispatch@yourcompany.com"
                 required
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="access_code">Access Code</Label>
+              <Label htmlFor="password">Password</Label>
               <Input
-                id="access_code"
-                name="access_code"
+                id="password"
+                name="password"
                 type="password"
-                placeholder="Your access code"
+                autoComplete="current-password"
+                placeholder="Your password"
                 required
               />
               <p className="text-xs text-muted-foreground">
-                Contact your account manager if you need your access code
+                Used an access code before? Enter it here the first time you sign in.
               </p>
             </div>
 
@@ -103,6 +114,28 @@ export default async function CompanyLoginPage({
               Sign In
             </Button>
           </form>
+
+          <Separator className="my-6" />
+
+          <form action={magicLinkAction} className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="magic_email">Forgot your password?</Label>
+              <Input
+                id="magic_email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                placeholder="dispatch@yourcompany.com"
+                required
+              />
+            </div>
+            <Button type="submit" variant="outline" className="w-full">
+              Email Me a Sign-In Link
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">
+              Portal accounts are created by your carrier. Ask them for an invite if you don&apos;t have one.
+            </p>
+          </form>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,62 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { signInWithMagicLink } from '@/data/company-portal-auth';
+import { getPortalRequestMeta, setCompanyPortalSessionCookie } from '@/lib/company-portal-session';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Building2 } from 'lucide-react';
+
+// The link is consumed by a button press rather than on page load, so mail
+// scanners that prefetch links don't burn it
+export default async function CompanyLoginVerifyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  async function verifyAction(formData: FormData) {
+    'use server';
+
+    const result = await signInWithMagicLink(formData.get('token') as string, await getPortalRequestMeta());
+
+    if (result.success) {
+      await setCompanyPortalSessionCookie(result.token, result.expiresAt);
+      redirect('/company/dashboard');
+    }
+
+    redirect(`/company-login?error=${result.error}`);
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center">
+              <Building2 className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle>Company Portal</CardTitle>
+          <CardDescription>
+            {token ? 'Continue to sign in with your email link' : 'This sign-in link is incomplete'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <form action={verifyAction}>
+              <input type="hidden" name="token" value={token} />
+              <Button type="submit" className="w-full">
+                Sign In
+              </Button>
+            </form>
+          ) : (
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/company-login">Back to Sign In</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
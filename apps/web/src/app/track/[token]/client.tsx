@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Calendar, Check, Clock, DollarSign, MapPin, Phone, Truck, User } from 'lucide-react';
+import { Logo } from '@/components/ui/logo';
+import { cn } from '@/lib/utils';
+import {
+  CUSTOMER_STATUS_LABELS,
+  CUSTOMER_STATUS_STEPS,
+  type CustomerTrackingView,
+} from '@/data/customer-tracking-shared';
+
+// Pings arrive every few minutes; refresh the page on the same cadence
+const REFRESH_INTERVAL_MS = 2 * 60 * 1000;
+
+interface CustomerTrackingClientProps {
+  view: CustomerTrackingView;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatEta(value: string): string {
+  const eta = new Date(value);
+  const minutes = Math.round((eta.getTime() - Date.now()) / 60000);
+  const time = eta.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  if (minutes <= 15) return `Arriving shortly (around ${time})`;
+  if (minutes < 90) return `About ${Math.round(minutes / 15) * 15} minutes (around ${time})`;
+  const sameDay = eta.toDateString() === new Date().toDateString();
+  return sameDay ? `Around ${time} today` : `Around ${formatDateTime(value)}`;
+}
+
+export function CustomerTrackingClient({ view }: CustomerTrackingClientProps) {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (view.status === 'delivered') return;
+    const interval = setInterval(() => router.refresh(), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [router, view.status]);
+
+  const currentStep = CUSTOMER_STATUS_STEPS.indexOf(view.status);
+  const destination = [view.delivery_city, view.delivery_state].filter(Boolean).join(', ');
+  const truckCity = view.truck_location
+    ? [view.truck_location.city, view.truck_location.state].filter(Boolean).join(', ')
+    : '';
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <header className="border-b border-slate-800">
+        <div className="max-w-xl mx-auto px-4 sm:px-6 py-5">
+          <h1 className="text-lg font-bold text-white">{view.company.name}</h1>
+          <p className="text-sm text-slate-400">Shipment #{view.load_number}</p>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 sm:px-6 py-6 space-y-4">
+        {/* Status */}
+        <section className="bg-slate-900 border border-slate-800 rounded-xl p-5">
+          <p className="text-xs uppercase tracking-wide text-slate-400">Status</p>
+          <p className="text-2xl font-semibold text-white mt-1">{view.status_label}</p>
+          {view.status_updated_at && (
+            <p className="text-sm text-slate-400 mt-1">Since {formatDateTime(view.status_updated_at)}</p>
+          )}
+
+          {currentStep >= 0 && (
+            <ol className="mt-5 flex items-center gap-1">
+              {CUSTOMER_STATUS_STEPS.map((step, index) => (
+                <li key={step} className="flex-1">
+                  <div
+                    className={cn(
+                      'h-1.5 rounded-full',
+                      index <= currentStep ? 'bg-sky-500' : 'bg-slate-700'
+                    )}
+                  />
+                  <p
+                    className={cn(
+                      'mt-2 text-[11px] leading-tight',
+                      index === currentStep ? 'text-white font-medium' : 'text-slate-500'
+                    )}
+                  >
+                    {CUSTOMER_STATUS_LABELS[step]}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {/* ETA and truck location */}
+        {(view.eta || view.truck_location) && view.status !== 'delivered' && (
+          <section className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-3">
+            {view.eta && (
+              <div className="flex items-start gap-3">
+                <Clock className="h-5 w-5 text-sky-400 mt-0.5" />
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-slate-400">Estimated arrival</p>
+                  <p className="text-white font-medium">{formatEta(view.eta)}</p>
+                </div>
+              </div>
+            )}
+            {view.truck_location && truckCity && (
+              <div className="flex items-start gap-3">
+                <Truck className="h-5 w-5 text-sky-400 mt-0.5" />
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-slate-400">Truck is near</p>
+                  <p className="text-white font-medium">{truckCity}</p>
+                  <p className="text-xs text-slate-500">
+                    Updated {formatDateTime(view.truck_location.updated_at)}
+                  </p>
+                </div>
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Details */}
+        <section className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
+          {view.delivery_window && (
+            <div className="flex items-start gap-3">
+              <Calendar className="h-5 w-5 text-slate-400 mt-0.5" />
+              <div>
+                <p className="text-xs uppercase tracking-wide text-slate-400">Delivery window</p>
+                <p className="text-white">{view.delivery_window}</p>
+              </div>
+            </div>
+          )}
+          {destination && (
+            <div className="flex items-start gap-3">
+              <MapPin className="h-5 w-5 text-slate-400 mt-0.5" />
+              <div>
+                <p className="text-xs uppercase tracking-wide text-slate-400">Delivering to</p>
+                <p className="text-white">{destination}</p>
+              </div>
+            </div>
+          )}
+          {view.driver_first_name && (
+            <div className="flex items-start gap-3">
+              <User className="h-5 w-5 text-slate-400 mt-0.5" />
+              <div>
+                <p className="text-xs uppercase tracking-wide text-slate-400">Your driver</p>
+                <p className="text-white">{view.driver_first_name}</p>
+              </div>
+            </div>
+          )}
+          {view.balance_due != null && (
+            <div className="flex items-start gap-3">
+              <DollarSign className="h-5 w-5 text-amber-400 mt-0.5" />
+              <div>
+                <p className="text-xs uppercase tracking-wide text-slate-400">Balance due at delivery</p>
+                <p className="text-white font-semibold">{formatCurrency(view.balance_due)}</p>
+              </div>
+            </div>
+          )}
+          {view.status === 'delivered' && (
+            <div className="flex items-center gap-3 text-emerald-400">
+              <Check className="h-5 w-5" />
+              <p>Your shipment has been delivered.</p>
+            </div>
+          )}
+        </section>
+
+        {view.company.phone && (
+          <a
+            href={`tel:${view.company.phone}`}
+            className="flex items-center justify-center gap-2 w-full rounded-xl border border-slate-700 py-3 text-slate-200 hover:bg-slate-900"
+          >
+            <Phone className="h-4 w-4" />
+            Call {view.company.name}
+          </a>
+        )}
+
+        <div className="flex items-center justify-center gap-2 pt-4 text-xs text-slate-500">
+          <Logo size={16} className="text-sky-400" />
+          Tracking by MoveBoss
+        </div>
+      </main>
+    </div>
+  );
+}
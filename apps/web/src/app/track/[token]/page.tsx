@@ -0,0 +1,31 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getCustomerTrackingView } from '@/data/customer-tracking';
+import { CustomerTrackingClient } from './client';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+// Always read the latest status and ping
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Track Your Shipment | MoveBoss Pro',
+  robots: { index: false, follow: false },
+};
+
+export default async function CustomerTrackingPage({ params }: PageProps) {
+  const { token } = await params;
+
+  if (!token || token.length < 16) {
+    notFound();
+  }
+
+  const view = await getCustomerTrackingView(token);
+  if (!view) {
+    notFound();
+  }
+
+  return <CustomerTrackingClient view={view} />;
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { History, ArrowRight, Package, Truck, Store, UserPlus, UserMinus, Clock, Plus, Trash2, DollarSign, Receipt, RefreshCw, CheckCircle, XCircle, Send, RotateCcw, FileText, List, Eye, Camera, AlertTriangle, Upload } from 'lucide-react';
+import { History, ArrowRight, Package, Truck, Store, UserPlus, UserMinus, Clock, Plus, Trash2, DollarSign, Receipt, RefreshCw, CheckCircle, XCircle, Send, RotateCcw, FileText, List, Eye, Camera, AlertTriangle, Upload, MapPin } from 'lucide-react';
 import type { AuditLogEntry } from '@/lib/audit';
 import { getActivityQuickActions } from './getActivityQuickActions';
 import { formatName } from '@/lib/utils';
@@ -140,6 +140,12 @@ function getActionText(log: AuditLogEntry): string {
       }
       return 'updated load status';
     }
+    case 'geofence_arrival_recorded': {
+      const stop = metadata.stop_type === 'pickup' ? 'pickup' : 'delivery';
+      return metadata.mode === 'auto'
+        ? `arrived at ${stop} (recorded by geofence)`
+        : `arrived at ${stop} (confirmed from geofence)`;
+    }
 
     // Load-Trip relationship actions
     case 'added_to_trip': {
@@ -172,6 +178,18 @@ function getActionText(log: AuditLogEntry): string {
       return 'rejected carrier request';
     case 'carrier_request_withdrawn':
       return 'withdrew request';
+    case 'carrier_request_countered': {
+      const rate = metadata.rate;
+      return typeof rate === 'number' ? `countered at $${rate.toFixed(2)}/cf` : 'countered request';
+    }
+    case 'carrier_request_agreed':
+      return 'agreed to counter offer';
+    case 'carrier_auto_awarded': {
+      const carrierName = metadata.carrier_name || 'a carrier';
+      return metadata.reason ? `auto-awarded load to ${carrierName}: ${metadata.reason}` : `auto-awarded load to ${carrierName}`;
+    }
+    case 'auto_award_reposted':
+      return metadata.reason ? `reposted load automatically: ${metadata.reason}` : 'reposted load automatically';
 
     // Partnership actions
     case 'partnership_created':
@@ -304,9 +322,13 @@ function getActionIcon(action: string): React.ReactNode {
     case 'removed_from_marketplace':
     case 'carrier_request_submitted':
     case 'carrier_request_withdrawn':
+    case 'carrier_request_countered':
+    case 'auto_award_reposted':
       return <Store className="h-3 w-3" />;
     case 'carrier_assigned':
     case 'carrier_request_accepted':
+    case 'carrier_request_agreed':
+    case 'carrier_auto_awarded':
       return <CheckCircle className="h-3 w-3" />;
     case 'carrier_removed':
     case 'carrier_request_rejected':
@@ -322,6 +344,8 @@ function getActionIcon(action: string): React.ReactNode {
       return <List className="h-3 w-3" />;
     case 'delivery_order_confirmed':
       return <Send className="h-3 w-3" />;
+    case 'geofence_arrival_recorded':
+      return <MapPin className="h-3 w-3" />;
 
     // Load-Trip relationship (on load entity)
     case 'added_to_trip':
@@ -0,0 +1,121 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AWARD_RANK_LABELS,
+  AWARD_STRATEGY_LABELS,
+  type AwardRankBy,
+  type AwardStrategy,
+  type CarrierAwardRule,
+} from '@/data/carrier-award-rules-shared';
+import { SCORECARD_MIN_OPTIONS } from '@/data/carrier-scorecards-shared';
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+interface AwardRuleFieldsProps {
+  // Current values; null shows the defaults for a new rule
+  rule: CarrierAwardRule | null;
+}
+
+/**
+ * Inputs for an award rule, read back with parseAwardRuleForm
+ */
+export function AwardRuleFields({ rule }: AwardRuleFieldsProps) {
+  const filters = [
+    { name: 'partners_only', label: 'Partners only', checked: rule?.partners_only },
+    { name: 'require_fmcsa_verified', label: 'FMCSA verified carriers only', checked: rule?.require_fmcsa_verified },
+    {
+      name: 'require_compliance_complete',
+      label: 'Compliance documents complete',
+      checked: rule?.require_compliance_complete,
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1 sm:col-span-3">
+          <Label htmlFor="strategy">Strategy</Label>
+          <select id="strategy" name="strategy" defaultValue={rule?.strategy ?? 'manual'} className={selectClassName}>
+            {(Object.keys(AWARD_STRATEGY_LABELS) as AwardStrategy[]).map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {AWARD_STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="decision_window_hours">Decision window (hours)</Label>
+          <Input
+            id="decision_window_hours"
+            name="decision_window_hours"
+            type="number"
+            min="1"
+            placeholder="e.g. 24"
+            defaultValue={rule?.decision_window_hours ?? ''}
+          />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="rank_by">Pick the best request by</Label>
+          <select id="rank_by" name="rank_by" defaultValue={rule?.rank_by ?? 'rating'} className={selectClassName}>
+            {(Object.keys(AWARD_RANK_LABELS) as AwardRankBy[]).map((rankBy) => (
+              <option key={rankBy} value={rankBy}>
+                {AWARD_RANK_LABELS[rankBy]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {filters.map((filter) => (
+          <label key={filter.name} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              name={filter.name}
+              value="true"
+              defaultChecked={!!filter.checked}
+              className="rounded border-input"
+            />
+            <span>{filter.label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="min_scorecard">Minimum carrier scorecard</Label>
+        <select
+          id="min_scorecard"
+          name="min_scorecard"
+          defaultValue={rule?.min_scorecard ?? ''}
+          className={selectClassName}
+        >
+          <option value="">No minimum</option>
+          {SCORECARD_MIN_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="repost_after_hours">Repost if no requests after (hours)</Label>
+          <Input
+            id="repost_after_hours"
+            name="repost_after_hours"
+            type="number"
+            min="1"
+            placeholder="Never"
+            defaultValue={rule?.repost_after_hours ?? ''}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="max_reposts">Max reposts</Label>
+          <Input id="max_reposts" name="max_reposts" type="number" min="0" defaultValue={rule?.max_reposts ?? 1} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Gauge } from 'lucide-react';
+import {
+  MIN_SCORECARD_LOADS,
+  SCORECARD_GRADE_CLASSES,
+  SCORECARD_MIN_OPTIONS,
+  formatRate,
+  formatResponseTime,
+  type CarrierScorecard,
+} from '@/data/carrier-scorecards-shared';
+
+const selectClassName =
+  'flex h-9 w-auto rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+interface CarrierScorecardProps {
+  scorecard: CarrierScorecard | undefined;
+}
+
+/**
+ * Grade and score, or "No scorecard" when the carrier has too little history
+ */
+export function CarrierScorecardBadge({ scorecard }: CarrierScorecardProps) {
+  if (!scorecard?.grade) {
+    return (
+      <Badge variant="outline" title={`Scorecards start after ${MIN_SCORECARD_LOADS} loads`}>
+        <Gauge className="h-3 w-3 mr-1" />
+        No scorecard
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge className={SCORECARD_GRADE_CLASSES[scorecard.grade]} title="Scorecard, last 12 months">
+      <Gauge className="h-3 w-3 mr-1" />
+      {scorecard.grade} · {scorecard.score}
+    </Badge>
+  );
+}
+
+/**
+ * Metric grid behind the score
+ */
+export function CarrierScorecardDetails({ scorecard }: CarrierScorecardProps) {
+  if (!scorecard) return null;
+
+  const metrics = [
+    {
+      label: 'On-time pickup',
+      value: formatRate(scorecard.on_time_pickup_rate),
+      detail: `${scorecard.pickups_on_time}/${scorecard.pickups_measured} loads`,
+    },
+    {
+      label: 'On-time delivery',
+      value: formatRate(scorecard.on_time_delivery_rate),
+      detail: `${scorecard.deliveries_on_time}/${scorecard.deliveries_measured} loads`,
+    },
+    {
+      label: 'Given back',
+      value: formatRate(scorecard.give_back_rate),
+      detail: `${scorecard.loads_given_back} of ${scorecard.loads_accepted}`,
+    },
+    {
+      label: 'Canceled for fault',
+      value: formatRate(scorecard.cancellation_rate),
+      detail: `${scorecard.loads_canceled} of ${scorecard.loads_accepted}`,
+    },
+    {
+      label: 'Balance disputes',
+      value: formatRate(scorecard.dispute_rate),
+      detail: `${scorecard.balance_disputes} on ${scorecard.loads_hauled} loads`,
+    },
+    {
+      label: 'Damage',
+      value: formatRate(scorecard.damage_rate),
+      detail: `${scorecard.damaged_loads} loads · ${scorecard.cargo_claims} claims`,
+    },
+    {
+      label: 'Avg response',
+      value: formatResponseTime(scorecard.avg_response_minutes),
+      detail: `${scorecard.responses_measured} replies`,
+    },
+    {
+      label: 'Rating',
+      value: scorecard.rating_average !== null ? `${scorecard.rating_average.toFixed(1)} ★` : '—',
+      detail: `${scorecard.rating_count} ratings`,
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+      {metrics.map((metric) => (
+        <div key={metric.label} className="rounded-lg bg-muted/40 p-2">
+          <p className="text-xs text-muted-foreground">{metric.label}</p>
+          <p className="text-sm font-semibold">{metric.value}</p>
+          <p className="text-xs text-muted-foreground">{metric.detail}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ScorecardRequestFilterProps {
+  minScore: number | null;
+  sort: string | undefined;
+}
+
+/**
+ * GET form that filters and sorts load requests by the carrier's scorecard
+ * through the min_score and sort query parameters
+ */
+export function ScorecardRequestFilter({ minScore, sort }: ScorecardRequestFilterProps) {
+  return (
+    <form className="flex items-center gap-2">
+      <select
+        name="min_score"
+        defaultValue={minScore ?? ''}
+        className={selectClassName}
+        aria-label="Minimum scorecard"
+      >
+        <option value="">Any scorecard</option>
+        {SCORECARD_MIN_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        name="sort"
+        defaultValue={sort === 'score' ? 'score' : ''}
+        className={selectClassName}
+        aria-label="Sort requests"
+      >
+        <option value="">Oldest first</option>
+        <option value="score">Best scorecard first</option>
+      </select>
+      <Button type="submit" size="sm" variant="outline">
+        Apply
+      </Button>
+    </form>
+  );
+}
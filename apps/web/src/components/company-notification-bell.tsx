@@ -1,22 +1,11 @@
 import Link from 'next/link';
-import { cookies } from 'next/headers';
 import { Bell } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getUnreadCompanyNotificationCount } from '@/data/notifications';
-
-async function getCompanySession() {
-  const cookieStore = await cookies();
-  const session = cookieStore.get('company_session');
-  if (!session) return null;
-  try {
-    return JSON.parse(session.value);
-  } catch {
-    return null;
-  }
-}
+import { getCompanyPortalSession } from '@/lib/company-portal-session';
 
 export async function CompanyNotificationBell() {
-  const session = await getCompanySession();
+  const session = await getCompanyPortalSession();
 
   if (!session) return null;
 
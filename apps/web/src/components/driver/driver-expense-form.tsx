@@ -1,6 +1,6 @@
 "use client";
 
-import { useActionState } from "react";
+import { useActionState, useState } from "react";
 
 import { PhotoField } from "@/components/ui/photo-field";
 import type { DriverFormState } from "./driver-trip-forms";
@@ -39,6 +39,7 @@ interface DriverExpenseFormProps {
 
 export function DriverExpenseForm({ tripId, action }: DriverExpenseFormProps) {
   const [state, formAction, pending] = useActionState(action, null);
+  const [expenseType, setExpenseType] = useState("fuel");
 
   return (
     <form action={formAction} className="space-y-3 rounded-lg border border-border bg-card p-4 shadow-sm">
@@ -74,7 +75,8 @@ export function DriverExpenseForm({ tripId, action }: DriverExpenseFormProps) {
           <select
             name="expense_type"
             className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
-            defaultValue="fuel"
+            value={expenseType}
+            onChange={(event) => setExpenseType(event.target.value)}
           >
             {expenseTypes.map((type) => (
               <option key={type} value={type}>
@@ -85,6 +87,31 @@ export function DriverExpenseForm({ tripId, action }: DriverExpenseFormProps) {
         </div>
       </div>
 
+      {expenseType === "fuel" ? (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Gallons</label>
+            <input
+              type="number"
+              name="gallons"
+              min={0}
+              step="0.001"
+              className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Purchase state</label>
+            <input
+              type="text"
+              name="fuel_state"
+              maxLength={2}
+              placeholder="TX"
+              className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm uppercase"
+            />
+          </div>
+        </div>
+      ) : null}
+
       <div className="grid gap-3 sm:grid-cols-2">
         <div className="space-y-2">
           <label className="text-sm font-medium text-foreground">Paid by</label>
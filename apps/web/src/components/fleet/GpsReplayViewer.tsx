@@ -0,0 +1,459 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { usePathname, useRouter } from 'next/navigation';
+import { Camera, Clock, FileDown, Loader2, MapPin, Pause, Play, Route } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { exportProofOfServiceToPDF } from '@/hooks/use-export';
+import {
+  DWELL_OPTIONS,
+  REPLAY_EVENT_LABELS,
+  detectStops,
+  pointIndexAt,
+  trailMiles,
+  type ReplayEvent,
+  type ReplayTimeline,
+} from '@/data/gps-replay-shared';
+
+// Dynamic import for Leaflet components (SSR incompatible)
+const MapContainer = dynamic(
+  () => import('react-leaflet').then((mod) => mod.MapContainer),
+  { ssr: false }
+);
+const TileLayer = dynamic(
+  () => import('react-leaflet').then((mod) => mod.TileLayer),
+  { ssr: false }
+);
+const Marker = dynamic(
+  () => import('react-leaflet').then((mod) => mod.Marker),
+  { ssr: false }
+);
+const Popup = dynamic(
+  () => import('react-leaflet').then((mod) => mod.Popup),
+  { ssr: false }
+);
+const Polyline = dynamic(
+  () => import('react-leaflet').then((mod) => mod.Polyline),
+  { ssr: false }
+);
+
+const selectClassName =
+  'flex h-9 w-auto rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+// Playback covers the whole trail in about 30 seconds
+const PLAYBACK_TICKS = 300;
+const PLAYBACK_INTERVAL_MS = 100;
+
+interface GpsReplayViewerProps {
+  timeline: ReplayTimeline;
+  dwellMinutes: number;
+  companyName: string;
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatCoordinates(lat: number | null, lng: number | null) {
+  return lat !== null && lng !== null ? `${lat.toFixed(5)}, ${lng.toFixed(5)}` : 'Unknown';
+}
+
+export function GpsReplayViewer({ timeline, dwellMinutes, companyName }: GpsReplayViewerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { points, events } = timeline;
+
+  const [leafletLoaded, setLeafletLoaded] = useState(false);
+  const [icons, setIcons] = useState<{
+    truck?: L.DivIcon;
+    stop?: L.DivIcon;
+    event?: L.DivIcon;
+    photo?: L.DivIcon;
+  }>({});
+  const [position, setPosition] = useState(points.length > 0 ? points.length - 1 : 0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const stops = useMemo(() => detectStops(points, dwellMinutes), [points, dwellMinutes]);
+  const miles = useMemo(() => trailMiles(points), [points]);
+  const trail = useMemo(() => points.map((point) => [point.lat, point.lng] as [number, number]), [points]);
+
+  const bounds = useMemo(() => {
+    const coordinates: [number, number][] = [...trail];
+    events.forEach((event) => {
+      if (event.lat !== null && event.lng !== null) coordinates.push([event.lat, event.lng]);
+    });
+    return coordinates.length > 0 ? coordinates : null;
+  }, [trail, events]);
+
+  const current = points[position];
+
+  // Load Leaflet and create icons
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    // Import Leaflet CSS via link element
+    const linkId = 'leaflet-css';
+    if (!document.getElementById(linkId)) {
+      const link = document.createElement('link');
+      link.id = linkId;
+      link.rel = 'stylesheet';
+      link.href = 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css';
+      link.integrity = 'sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=';
+      link.crossOrigin = '';
+      document.head.appendChild(link);
+    }
+
+    import('leaflet').then((L) => {
+      const createIcon = (color: string, emoji: string, size: number) => {
+        return L.divIcon({
+          className: 'custom-marker',
+          html: `<div style="
+            background-color: ${color};
+            width: ${size}px;
+            height: ${size}px;
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            border: 2px solid white;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+            font-size: ${Math.round(size / 2)}px;
+          ">${emoji}</div>`,
+          iconSize: [size, size],
+          iconAnchor: [size / 2, size / 2],
+          popupAnchor: [0, -size / 2],
+        });
+      };
+
+      setIcons({
+        truck: createIcon('#3b82f6', '🚚', 32), // Blue - driver at slider time
+        stop: createIcon('#f59e0b', '⏸', 24), // Orange - dwell stop
+        event: createIcon('#8b5cf6', '📦', 26), // Purple - workflow event
+        photo: createIcon('#22c55e', '📷', 26), // Green - geotagged photo
+      });
+
+      setLeafletLoaded(true);
+    });
+  }, []);
+
+  // Advance the slider while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    const step = Math.max(1, Math.ceil(points.length / PLAYBACK_TICKS));
+    const interval = setInterval(() => {
+      setPosition((previous) => {
+        const next = Math.min(points.length - 1, previous + step);
+        if (next === points.length - 1) setIsPlaying(false);
+        return next;
+      });
+    }, PLAYBACK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, points.length]);
+
+  const togglePlay = () => {
+    if (!isPlaying && position >= points.length - 1) setPosition(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const jumpTo = (at: string) => {
+    setIsPlaying(false);
+    setPosition(pointIndexAt(points, at));
+  };
+
+  const changeDwell = (value: string) => {
+    router.replace(`${pathname}?dwell=${value}`);
+  };
+
+  const handleExport = () => {
+    const notes = [
+      'Times are shown in UTC. Event locations marked "GPS" are the driver\'s last recorded position at the time of the event; "Photo" locations come from the photo itself.',
+    ];
+    if (timeline.truncated) {
+      notes.push(`Only the first ${points.length.toLocaleString('en-US')} GPS pings of this period are included.`);
+    }
+
+    exportProofOfServiceToPDF(
+      {
+        title: `${timeline.subject === 'trip' ? 'Trip' : 'Load'} ${timeline.reference}`,
+        companyName,
+        driverName: timeline.driver_name,
+        truckUnit: timeline.truck_unit,
+        windowStart: timeline.window_start,
+        windowEnd: timeline.window_end,
+        miles,
+        pingCount: points.length,
+        dwellMinutes,
+        points,
+        events: events.map((event) => ({
+          at: event.at,
+          label: REPLAY_EVENT_LABELS[event.kind],
+          loadNumber: event.load_number,
+          location:
+            event.located_from === null
+              ? 'Unknown'
+              : `${formatCoordinates(event.lat, event.lng)} (${event.located_from === 'photo' ? 'Photo' : 'GPS'})`,
+          detail: event.detail,
+        })),
+        stops: stops.map((stop) => ({
+          arrivedAt: stop.arrived_at,
+          departedAt: stop.departed_at,
+          minutes: stop.minutes,
+          location: formatCoordinates(stop.lat, stop.lng),
+        })),
+        notes,
+      },
+      `proof-of-service-${timeline.reference}`
+    );
+  };
+
+  const eventIcon = (event: ReplayEvent) => (event.kind === 'photo' ? icons.photo : icons.event);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">GPS pings</p>
+            <p className="text-2xl font-semibold">{points.length.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Distance</p>
+            <p className="text-2xl font-semibold">{miles.toFixed(1)} mi</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Stops ({dwellMinutes}+ min)</p>
+            <p className="text-2xl font-semibold">{stops.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Events &amp; photos</p>
+            <p className="text-2xl font-semibold">{events.length}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {timeline.truncated && (
+        <p className="text-sm text-yellow-600">
+          This period has more GPS pings than can be replayed; showing the first {points.length.toLocaleString()}.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Route className="h-5 w-5 text-blue-500" />
+              Breadcrumb Trail
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <select
+                value={dwellMinutes}
+                onChange={(e) => changeDwell(e.target.value)}
+                className={selectClassName}
+                aria-label="Minimum stop length"
+              >
+                {DWELL_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    Stops over {minutes} min
+                  </option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={handleExport}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Export PDF
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!leafletLoaded ? (
+            <div className="flex items-center justify-center h-[450px]">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !bounds ? (
+            <div className="flex flex-col items-center justify-center h-[300px] text-center">
+              <MapPin className="h-8 w-8 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">
+                No GPS pings were recorded for this driver between {formatTime(timeline.window_start)} and{' '}
+                {formatTime(timeline.window_end)}.
+              </p>
+            </div>
+          ) : (
+            <div className="h-[450px] w-full overflow-hidden rounded-lg">
+              <MapContainer bounds={bounds} className="h-full w-full" scrollWheelZoom={true}>
+                <TileLayer
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                />
+                {trail.length > 1 && <Polyline positions={trail} color="#94a3b8" weight={3} />}
+                {position > 0 && (
+                  <Polyline positions={trail.slice(0, position + 1)} color="#3b82f6" weight={4} />
+                )}
+                {stops.map((stop) => (
+                  <Marker key={stop.arrived_at} position={[stop.lat, stop.lng]} icon={icons.stop}>
+                    <Popup>
+                      <strong>Stopped {stop.minutes} min</strong>
+                      <br />
+                      {formatTime(stop.arrived_at)} – {formatTime(stop.departed_at)}
+                    </Popup>
+                  </Marker>
+                ))}
+                {events.map((event, index) =>
+                  event.lat !== null && event.lng !== null ? (
+                    <Marker
+                      key={`${event.kind}-${event.at}-${index}`}
+                      position={[event.lat, event.lng]}
+                      icon={eventIcon(event)}
+                    >
+                      <Popup>
+                        <strong>{REPLAY_EVENT_LABELS[event.kind]}</strong>
+                        {event.load_number && <> · {event.load_number}</>}
+                        <br />
+                        {formatTime(event.at)}
+                        {event.detail && (
+                          <>
+                            <br />
+                            {event.detail}
+                          </>
+                        )}
+                        {event.photo_url && (
+                          <>
+                            <br />
+                            <a href={event.photo_url} target="_blank" rel="noopener noreferrer">
+                              View photo
+                            </a>
+                          </>
+                        )}
+                      </Popup>
+                    </Marker>
+                  ) : null
+                )}
+                {current && <Marker position={[current.lat, current.lng]} icon={icons.truck} />}
+              </MapContainer>
+            </div>
+          )}
+
+          {points.length > 0 && (
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" onClick={togglePlay} className="h-8 w-8 p-0">
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <input
+                type="range"
+                min={0}
+                max={points.length - 1}
+                value={position}
+                onChange={(e) => {
+                  setIsPlaying(false);
+                  setPosition(Number(e.target.value));
+                }}
+                className="flex-1"
+                aria-label="Replay time"
+              />
+              <div className="text-right text-sm min-w-[9rem]">
+                <p className="font-medium">{current ? formatTime(current.at) : '—'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {current?.speed_kph != null ? `${Math.round(current.speed_kph * 0.621371)} mph` : 'Speed unknown'}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Events &amp; Photos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No workflow events or photos recorded.</p>
+            ) : (
+              <ul className="space-y-2">
+                {events.map((event, index) => (
+                  <li key={`${event.kind}-${event.at}-${index}`}>
+                    <button
+                      type="button"
+                      onClick={() => jumpTo(event.at)}
+                      className="w-full flex items-start justify-between gap-2 rounded-lg p-2 text-left hover:bg-muted/50"
+                    >
+                      <div className="flex items-start gap-2">
+                        {event.kind === 'photo' ? (
+                          <Camera className="h-4 w-4 mt-0.5 text-green-500" />
+                        ) : (
+                          <Clock className="h-4 w-4 mt-0.5 text-purple-500" />
+                        )}
+                        <div>
+                          <p className="text-sm font-medium">
+                            {REPLAY_EVENT_LABELS[event.kind]}
+                            {event.load_number && (
+                              <span className="text-muted-foreground font-normal"> · {event.load_number}</span>
+                            )}
+                          </p>
+                          {event.detail && <p className="text-xs text-muted-foreground">{event.detail}</p>}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-xs">{formatTime(event.at)}</p>
+                        {event.located_from && (
+                          <Badge variant="outline" className="text-[10px]">
+                            {event.located_from === 'photo' ? 'Photo GPS' : 'Driver GPS'}
+                          </Badge>
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Stops over {dwellMinutes} minutes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stops.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No stops detected.</p>
+            ) : (
+              <ul className="space-y-2">
+                {stops.map((stop) => (
+                  <li key={stop.arrived_at}>
+                    <button
+                      type="button"
+                      onClick={() => jumpTo(stop.arrived_at)}
+                      className="w-full flex items-center justify-between gap-2 rounded-lg p-2 text-left hover:bg-muted/50"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">
+                          {formatTime(stop.arrived_at)} – {formatTime(stop.departed_at)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{formatCoordinates(stop.lat, stop.lng)}</p>
+                      </div>
+                      <Badge variant="secondary">{stop.minutes} min</Badge>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -478,6 +478,23 @@ export function TruckForm({
                 </div>
               )}
 
+              <div className="space-y-1.5">
+                <Label htmlFor="mpg" className="text-sm">Fuel Economy (MPG)</Label>
+                <Input
+                  type="number"
+                  id="mpg"
+                  name="mpg"
+                  step="0.1"
+                  min="0"
+                  defaultValue={initialData?.mpg?.toString() || ''}
+                  className="h-9"
+                  placeholder="Used for fuel cost estimates"
+                />
+                {state?.errors?.mpg && (
+                  <p className="text-xs text-destructive">{state.errors.mpg}</p>
+                )}
+              </div>
+
               <div className="space-y-1.5">
                 <Label htmlFor="current_odometer" className="text-sm">Current Odometer (miles)</Label>
                 <Input
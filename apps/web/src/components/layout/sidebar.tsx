@@ -20,9 +20,12 @@ import {
   Wallet,
   Receipt,
   CreditCard,
+  Banknote,
+  FileSpreadsheet,
   BarChart3,
   Settings as SettingsIcon,
   ShieldCheck,
+  ShieldAlert,
   Plug,
   ChevronRight,
   Radio,
@@ -36,6 +39,9 @@ import {
   Package,
   MessageSquare,
   HelpCircle,
+  Calculator,
+  Fuel,
+  Landmark,
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -315,8 +321,14 @@ export default function Sidebar({ canPostLoads = false, canHaulLoads = false, pe
         section: "general",
         children: [
           { label: "Settlements", href: "/dashboard/finance/settlements", icon: Receipt },
+          { label: "Driver Statements", href: "/dashboard/finance/driver-statements", icon: FileSpreadsheet },
           { label: "Receivables", href: "/dashboard/finance/receivables", icon: Wallet },
+          { label: "Payments", href: "/dashboard/finance/payments", icon: Banknote },
           { label: "Expenses", href: "/dashboard/finance/expenses", icon: CreditCard },
+          { label: "Cargo Claims", href: "/dashboard/finance/claims", icon: ShieldAlert },
+          { label: "Rate Tables", href: "/dashboard/finance/rate-tables", icon: Calculator },
+          { label: "Fuel Prices", href: "/dashboard/finance/fuel-prices", icon: Fuel },
+          { label: "IFTA", href: "/dashboard/finance/ifta", icon: Landmark },
           { label: "Reports", href: "/dashboard/finance/reports", icon: BarChart3 },
         ],
       })
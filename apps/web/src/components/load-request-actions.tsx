@@ -19,6 +19,8 @@ interface LoadRequestActionsProps {
   offeredRate: number | null;
   complianceIssues: ComplianceIssue[];
   blockOnExpired?: boolean;
+  // Set while accepting isn't possible yet, e.g. waiting on the carrier's reply to a counter
+  acceptDisabledReason?: string | null;
   acceptAction: (formData: FormData) => Promise<void>;
   declineAction: (formData: FormData) => Promise<void>;
 }
@@ -29,6 +31,7 @@ export function LoadRequestActions({
   offeredRate,
   complianceIssues,
   blockOnExpired = false,
+  acceptDisabledReason = null,
   acceptAction,
   declineAction,
 }: LoadRequestActionsProps) {
@@ -62,7 +65,7 @@ export function LoadRequestActions({
 
   return (
     <>
-      {showWarning && complianceIssues.length > 0 && (
+      {showWarning && complianceIssues.length > 0 && !acceptDisabledReason && (
         <ComplianceWarning
           issues={complianceIssues}
           onProceed={canProceed ? handleProceed : undefined}
@@ -73,13 +76,16 @@ export function LoadRequestActions({
         />
       )}
 
-      {!showWarning && (
+      {(!showWarning || acceptDisabledReason) && (
         <>
           <Separator />
+          {acceptDisabledReason && (
+            <p className="text-sm text-muted-foreground">{acceptDisabledReason}</p>
+          )}
           <div className="flex gap-2">
             <Button
               onClick={handleAccept}
-              disabled={isPending}
+              disabled={isPending || !!acceptDisabledReason}
               className="flex-1"
             >
               {isPending ? (
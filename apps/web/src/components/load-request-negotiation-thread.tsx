@@ -0,0 +1,76 @@
+import { Badge } from '@/components/ui/badge';
+import { Clock, MessageSquare } from 'lucide-react';
+import {
+  OFFER_STATUS_LABELS,
+  describeOfferTerms,
+  effectiveOfferStatus,
+  type LoadRequestOffer,
+  type OfferParty,
+  type OfferStatus,
+} from '@/data/load-request-negotiation-shared';
+
+const STATUS_CLASSES: Record<OfferStatus, string> = {
+  open: 'bg-yellow-500/20 text-yellow-500',
+  accepted: 'bg-green-500/20 text-green-500',
+  countered: 'bg-muted text-muted-foreground',
+  declined: 'bg-red-500/20 text-red-400',
+  expired: 'bg-red-500/20 text-red-400',
+  withdrawn: 'bg-muted text-muted-foreground',
+};
+
+interface LoadRequestNegotiationThreadProps {
+  offers: LoadRequestOffer[];
+  // Which side is looking at the thread, to label offers as "You"
+  viewer: OfferParty;
+  carrierName?: string | null;
+}
+
+export function LoadRequestNegotiationThread({ offers, viewer, carrierName }: LoadRequestNegotiationThreadProps) {
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Negotiation</p>
+      <ol className="space-y-2">
+        {offers.map((offer) => {
+          const status = effectiveOfferStatus(offer);
+          const fromViewer = offer.offered_by === viewer;
+          const author = fromViewer
+            ? 'You'
+            : offer.offered_by === 'carrier'
+              ? carrierName || 'Carrier'
+              : 'Poster';
+
+          return (
+            <li
+              key={offer.id}
+              className={`rounded-lg border p-3 text-sm ${fromViewer ? 'bg-muted/30' : 'bg-background'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p>
+                  <span className="font-medium">{author}</span>{' '}
+                  <span className="text-muted-foreground">offered</span>{' '}
+                  <span className="font-semibold">{describeOfferTerms(offer)}</span>
+                </p>
+                <Badge className={STATUS_CLASSES[status]}>{OFFER_STATUS_LABELS[status]}</Badge>
+              </div>
+              {offer.message && (
+                <p className="mt-1 flex items-start gap-1 text-muted-foreground italic">
+                  <MessageSquare className="h-3 w-3 mt-1 shrink-0" />
+                  {offer.message}
+                </p>
+              )}
+              <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="h-3 w-3" />
+                {new Date(offer.created_at).toLocaleString()}
+                {offer.expires_at && status === 'open' && (
+                  <> · expires {new Date(offer.expires_at).toLocaleString()}</>
+                )}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Copy, Loader2, Mail, MessageSquare, Navigation, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import type { LoadCustomerTracking, TrackingChannel } from '@/data/customer-tracking-shared';
+
+interface CustomerTrackingCardProps {
+  tracking: LoadCustomerTracking;
+  onCreateLink: (notifyCustomer: boolean) => Promise<{ success: boolean; error?: string }>;
+  onUpdateLink: (
+    linkId: string,
+    updates: { notify_customer?: boolean; is_active?: boolean }
+  ) => Promise<{ success: boolean; error?: string }>;
+  onSendLink: (linkId: string, channel: TrackingChannel) => Promise<{ success: boolean; error?: string }>;
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function CustomerTrackingCard({ tracking, onCreateLink, onUpdateLink, onSendLink }: CustomerTrackingCardProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const { link, url } = tracking;
+
+  const run = async (
+    key: string,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    messages: { success?: string; failure: string }
+  ) => {
+    setPending(key);
+    const result = await action();
+    setPending(null);
+
+    if (!result.success) {
+      toast({ title: messages.failure, description: result.error, variant: 'destructive' });
+      return;
+    }
+    if (messages.success) {
+      toast({ title: messages.success });
+    }
+    router.refresh();
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Tracking link copied' });
+    } catch {
+      toast({ title: 'Could not copy link', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Navigation className="h-4 w-4" />
+          Customer Tracking
+        </CardTitle>
+        <CardDescription>
+          {link
+            ? `Viewed ${link.view_count} ${link.view_count === 1 ? 'time' : 'times'}${
+                link.last_sent_at ? ` · sent ${formatTime(link.last_sent_at)}` : ''
+              }`
+            : 'A private page for the customer with status, ETA and balance due'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!link || !url ? (
+          <Button
+            size="sm"
+            onClick={() => run('create', () => onCreateLink(false), { failure: 'Could not create tracking link' })}
+            disabled={pending !== null}
+          >
+            {pending === 'create' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Tracking Link
+          </Button>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded-md border bg-muted/50 px-3 py-2 text-xs">{url}</code>
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy tracking link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!tracking.has_customer_phone || pending !== null}
+                title={tracking.has_customer_phone ? undefined : 'Add a customer phone number to the load'}
+                onClick={() =>
+                  run('sms', () => onSendLink(link.id, 'sms'), {
+                    success: 'Tracking link texted to the customer',
+                    failure: 'Could not send text',
+                  })
+                }
+              >
+                {pending === 'sms' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                )}
+                Send by SMS
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!tracking.has_customer_email || pending !== null}
+                title={tracking.has_customer_email ? undefined : 'Add a customer email to the load'}
+                onClick={() =>
+                  run('email', () => onSendLink(link.id, 'email'), {
+                    success: 'Tracking link emailed to the customer',
+                    failure: 'Could not send email',
+                  })
+                }
+              >
+                {pending === 'email' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Mail className="h-4 w-4 mr-2" />
+                )}
+                Send by Email
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div>
+                <Label htmlFor="tracking-notify" className="text-sm">
+                  Automatic updates
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Text/email the customer when the load is out for delivery and when the driver is about an hour away
+                </p>
+              </div>
+              <Switch
+                id="tracking-notify"
+                checked={link.notify_customer}
+                disabled={pending !== null}
+                onCheckedChange={(checked) =>
+                  run('notify', () => onUpdateLink(link.id, { notify_customer: checked }), {
+                    failure: 'Could not update notifications',
+                  })
+                }
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={pending !== null}
+                onClick={() =>
+                  run('regenerate', () => onCreateLink(link.notify_customer), {
+                    success: 'New tracking link created; the old one no longer works',
+                    failure: 'Could not create tracking link',
+                  })
+                }
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                New Link
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                disabled={pending !== null}
+                onClick={() =>
+                  run('deactivate', () => onUpdateLink(link.id, { is_active: false }), {
+                    success: 'Tracking link turned off',
+                    failure: 'Could not turn off tracking link',
+                  })
+                }
+              >
+                Turn Off
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
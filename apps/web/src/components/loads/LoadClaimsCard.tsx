@@ -0,0 +1,81 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle, Plus, ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  CLAIM_STATUS_LABELS,
+  CLAIM_TYPE_LABELS,
+  getClaimDeadlines,
+  isClaimOpen,
+  type CargoClaim,
+} from '@/data/claims-shared';
+
+interface LoadClaimsCardProps {
+  loadId: string;
+  claims: CargoClaim[];
+  today: string;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+export function LoadClaimsCard({ loadId, claims, today }: LoadClaimsCardProps) {
+  const openCount = claims.filter((claim) => isClaimOpen(claim.status)).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ShieldAlert className="h-4 w-4" />
+            Cargo Claims
+          </CardTitle>
+          <CardDescription>
+            {claims.length === 0 ? 'No claims filed against this load' : `${claims.length} claims · ${openCount} open`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/dashboard/finance/claims/new?load_id=${loadId}`}>
+            <Plus className="h-4 w-4 mr-2" />
+            Open Claim
+          </Link>
+        </Button>
+      </CardHeader>
+      {claims.length > 0 && (
+        <CardContent className="space-y-2">
+          {claims.map((claim) => {
+            const deadlines = getClaimDeadlines(claim, today);
+            const overdue = deadlines.acknowledge === 'overdue' || deadlines.resolve === 'overdue';
+            return (
+              <Link
+                key={claim.id}
+                href={`/dashboard/finance/claims/${claim.id}`}
+                className="flex items-center justify-between gap-3 rounded-md border p-3 hover:bg-muted/50"
+              >
+                <div>
+                  <p className="font-mono text-sm">{claim.claim_number}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {CLAIM_TYPE_LABELS[claim.claim_type]} &middot; {claim.claimant_name}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {overdue && <AlertTriangle className="h-4 w-4 text-destructive" aria-label="Past deadline" />}
+                  <span className="text-sm font-medium">
+                    {formatCurrency(claim.settled_amount ?? claim.claimed_amount)}
+                  </span>
+                  <Badge variant={isClaimOpen(claim.status) ? 'outline' : 'secondary'}>
+                    {CLAIM_STATUS_LABELS[claim.status]}
+                  </Badge>
+                </div>
+              </Link>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -3,13 +3,15 @@
 import { useActionState, useEffect, useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Plus, Warehouse, X, Building2, User, Calendar } from 'lucide-react'
+import { Plus, Warehouse, X, Building2, User, Calendar, Calculator } from 'lucide-react'
 
 import type { Company } from '@/data/companies'
 import type { Driver } from '@/data/drivers'
 import type { Truck, Trailer } from '@/data/fleet'
 import type { Trip } from '@/data/trips'
 import type { StorageLocation, LocationType } from '@/data/storage-locations'
+import type { LoadQuoteInput } from '@/data/rate-tables'
+import type { RateQuote, RateQuoteResult } from '@/data/rate-tables-shared'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -33,6 +35,32 @@ import { cn } from '@/lib/utils'
 import { useToast } from '@/hooks/use-toast'
 import { useSetupProgress } from '@/hooks/use-setup-progress'
 import { RFDDatePicker } from '@/components/ui/rfd-date-picker'
+import { LoadDocumentScanner, type ScannedLoadValues } from '@/components/loads/LoadDocumentScanner'
+import { EXTRACTABLE_LOAD_FIELDS } from '@/lib/document-extraction/fields'
+
+// Scanned values with no input of their own on this form, submitted as hidden fields
+const SCANNED_DETAIL_FIELDS = [
+  'pickup_date',
+  'delivery_date',
+  'weight_lbs_estimate',
+  'pieces_count',
+  'actual_cuft_loaded',
+  'contract_accessorials_shuttle',
+  'contract_accessorials_stairs',
+  'contract_accessorials_long_carry',
+  'contract_accessorials_bulky',
+  'contract_accessorials_packing',
+  'contract_accessorials_other',
+  'contract_accessorials_total',
+  'contract_notes',
+] as const
+// The tariff prices these itself when it's applied
+const TARIFF_PRICED_FIELDS: readonly string[] = [
+  'contract_accessorials_shuttle',
+  'contract_accessorials_stairs',
+  'contract_accessorials_long_carry',
+  'contract_accessorials_total',
+]
 
 const serviceTypeOptions = [
   { value: 'hhg_local', label: 'HHG Local' },
@@ -119,6 +147,7 @@ interface LoadCreateFormProps {
   trips?: Trip[]
   storageLocations?: StorageLocation[]
   onCreateStorageLocation?: (data: Partial<StorageLocation>) => Promise<{ success: boolean; id?: string; error?: string }>
+  onQuote?: (input: LoadQuoteInput) => Promise<RateQuoteResult>
   onSubmit: (
     prevState: { errors?: Record<string, string>; success?: boolean; loadId?: string; tripId?: string } | null,
     formData: FormData
@@ -133,6 +162,7 @@ export function LoadCreateForm({
   trips = [],
   storageLocations = [],
   onCreateStorageLocation,
+  onQuote,
   onSubmit
 }: LoadCreateFormProps) {
   const router = useRouter()
@@ -148,7 +178,13 @@ export function LoadCreateForm({
   const [pricing, setPricing] = useState({ cubicFeet: '', rate: '', balanceDue: '' })
   const [customer, setCustomer] = useState({ name: '', phone: '', deliveryZip: '', deliveryCity: '', deliveryState: '', deliveryAddress1: '', deliveryAddress2: '' })
   const [selectedTripId, setSelectedTripId] = useState('')
+  const [quote, setQuote] = useState<RateQuote | null>(null)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [tariffAccessorials, setTariffAccessorials] = useState({ stairsFlights: '', longCarryFeet: '', shuttle: false })
   const [loadOrder, setLoadOrder] = useState('1')
+  const [internalReference, setInternalReference] = useState('')
+  const [scannedDetails, setScannedDetails] = useState<ScannedLoadValues>({})
+  const [scannedRfdDate, setScannedRfdDate] = useState<string | undefined>(undefined)
 
   // RFD (Ready For Delivery) state
   const [rfdValues, setRfdValues] = useState<{
@@ -223,13 +259,90 @@ export function LoadCreateForm({
     })
   }, [selectedCompany, loadType])
 
+  // Where the quote measures from: the pickup for live loads, the partner's loading address otherwise
+  const quoteOrigin = loadSource === 'partner'
+    ? loadType === 'live_load'
+      ? { postalCode: pickup.postalCode, city: pickup.city, state: pickup.state }
+      : { postalCode: loadingContact.postalCode, city: loadingContact.city, state: loadingContact.state }
+    : { postalCode: '', city: '', state: '' }
+  const quoteDestination = loadSource === 'partner'
+    ? { postalCode: dropoff.postalCode, city: dropoff.city, state: dropoff.state }
+    : { postalCode: customer.deliveryZip, city: customer.deliveryCity, state: customer.deliveryState }
+
+  // Price from the partner's rate table (or the default tariff) whenever the inputs settle
+  useEffect(() => {
+    const cubicFeet = Number(pricing.cubicFeet)
+    if (!onQuote || !(cubicFeet > 0)) {
+      setQuote(null)
+      setQuoteError(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const result = await onQuote({
+        companyId: loadSource === 'partner' ? companyId || null : null,
+        cubicFeet,
+        originPostalCode: quoteOrigin.postalCode || null,
+        originCity: quoteOrigin.city || null,
+        originState: quoteOrigin.state || null,
+        destinationPostalCode: quoteDestination.postalCode || null,
+        destinationCity: quoteDestination.city || null,
+        destinationState: quoteDestination.state || null,
+      })
+      if (cancelled) return
+      if (result.success) {
+        setQuote(result.quote)
+        setQuoteError(null)
+        setPricing((prev) => ({ ...prev, rate: String(result.quote.rate_per_cuft) }))
+      } else {
+        setQuote(null)
+        // Partners without any tariff are priced by hand as before
+        setQuoteError(result.rate_table_id ? result.error : null)
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [
+    onQuote,
+    loadSource,
+    companyId,
+    pricing.cubicFeet,
+    quoteOrigin.postalCode,
+    quoteOrigin.city,
+    quoteOrigin.state,
+    quoteDestination.postalCode,
+    quoteDestination.city,
+    quoteDestination.state,
+  ])
+
+  // A rate typed over the tariff rate is a manual price, so the tariff trace is dropped
+  const tariffApplied = quote !== null && Number(pricing.rate) === quote.rate_per_cuft
+
+  const tariffAccessorialAmounts = (() => {
+    if (!tariffApplied) return { stairs: 0, longCarry: 0, shuttle: 0 }
+    const flights = Number(tariffAccessorials.stairsFlights) || 0
+    const feet = Number(tariffAccessorials.longCarryFeet) || 0
+    return {
+      stairs: Number((flights * quote.accessorial_prices.stairs_per_flight).toFixed(2)),
+      longCarry: Number((Math.ceil(feet / 50) * quote.accessorial_prices.long_carry_per_50ft).toFixed(2)),
+      shuttle: tariffAccessorials.shuttle ? quote.accessorial_prices.shuttle : 0,
+    }
+  })()
+  const tariffAccessorialsTotal =
+    tariffAccessorialAmounts.stairs + tariffAccessorialAmounts.longCarry + tariffAccessorialAmounts.shuttle
+
   const linehaulAmount = (() => {
     const cubic = Number(pricing.cubicFeet)
     const rate = Number(pricing.rate)
     if (!Number.isFinite(cubic) || !Number.isFinite(rate)) {
       return 0
     }
-    return Number((cubic * rate).toFixed(2))
+    const calculated = Number((cubic * rate).toFixed(2))
+    return tariffApplied ? Math.max(calculated, quote.minimum_charge) : calculated
   })()
 
   const handlePickupZip = async () => {
@@ -256,6 +369,57 @@ export function LoadCreateForm({
     setCustomer((prev) => ({ ...prev, deliveryCity: city || prev.deliveryCity, deliveryState: state || prev.deliveryState }))
   }
 
+  // Reviewed values from a scanned contract, rate confirmation or loading report
+  const handleScanApply = (values: ScannedLoadValues) => {
+    if (values.internal_reference) setInternalReference(values.internal_reference)
+    if (values.rfd_date) setScannedRfdDate(values.rfd_date)
+
+    setPricing((prev) => ({
+      cubicFeet: values.cubic_feet ?? values.actual_cuft_loaded ?? prev.cubicFeet,
+      rate: values.rate_per_cuft ?? prev.rate,
+      balanceDue: values.balance_due ?? prev.balanceDue,
+    }))
+
+    setPickup((prev) => ({
+      ...prev,
+      address1: values.pickup_address_line1 ?? prev.address1,
+      city: values.pickup_city ?? prev.city,
+      state: values.pickup_state ?? prev.state,
+      postalCode: values.pickup_postal_code ?? prev.postalCode,
+    }))
+
+    // Customer jobs deliver to the customer's address; partner loads to the destination
+    if (loadSource === 'own_customer') {
+      setCustomer((prev) => ({
+        name: values.customer_name ?? prev.name,
+        phone: values.customer_phone ?? prev.phone,
+        deliveryAddress1: values.delivery_address_line1 ?? prev.deliveryAddress1,
+        deliveryAddress2: values.delivery_address_line2 ?? prev.deliveryAddress2,
+        deliveryCity: values.delivery_city ?? prev.deliveryCity,
+        deliveryState: values.delivery_state ?? prev.deliveryState,
+        deliveryZip: values.delivery_postal_code ?? prev.deliveryZip,
+      }))
+    } else {
+      setDropoff((prev) => ({
+        address1: values.delivery_address_line1 ?? prev.address1,
+        address2: values.delivery_address_line2 ?? prev.address2,
+        city: values.delivery_city ?? prev.city,
+        state: values.delivery_state ?? prev.state,
+        postalCode: values.delivery_postal_code ?? prev.postalCode,
+      }))
+    }
+
+    setScannedDetails((prev) => {
+      const next = { ...prev }
+      SCANNED_DETAIL_FIELDS.forEach((key) => {
+        if (values[key]) next[key] = values[key]
+      })
+      return next
+    })
+  }
+
+  const scannedDetailKeys = SCANNED_DETAIL_FIELDS.filter((key) => scannedDetails[key])
+
   const handleCreateStorageLocation = async () => {
     if (!onCreateStorageLocation) return
     if (!newLocation.name || !newLocation.city || !newLocation.state || !newLocation.zip) {
@@ -453,6 +617,8 @@ export function LoadCreateForm({
         </button>
       </div>
 
+      <LoadDocumentScanner onApply={handleScanApply} />
+
       {/* Load Type Toggle - only for partner loads */}
       {loadSource === 'partner' && (
         <Card>
@@ -498,7 +664,13 @@ export function LoadCreateForm({
             </div>
             <div className="space-y-1.5">
               <Label htmlFor="internal_reference">Internal Reference</Label>
-              <Input id="internal_reference" name="internal_reference" placeholder="Your CRM # (optional)" />
+              <Input
+                id="internal_reference"
+                name="internal_reference"
+                value={internalReference}
+                onChange={(e) => setInternalReference(e.target.value)}
+                placeholder="Your CRM # (optional)"
+              />
             </div>
           </div>
 
@@ -962,11 +1134,134 @@ export function LoadCreateForm({
             </div>
           )}
 
+          {/* Tariff - rule that priced the load and its standard accessorials */}
+          {quote && (
+            <div className="space-y-3 rounded-lg border border-border px-4 py-3 text-sm">
+              <div className="flex items-start gap-2">
+                <Calculator className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">
+                    {quote.is_default_table ? 'Default tariff' : 'Partner rate table'}
+                    {!tariffApplied && <span className="font-normal text-muted-foreground"> (overridden by manual rate)</span>}
+                  </p>
+                  <p className="text-muted-foreground">{quote.rule_description}</p>
+                  {quote.miles !== null && (
+                    <p className="text-xs text-muted-foreground">About {quote.miles.toLocaleString()} miles</p>
+                  )}
+                </div>
+              </div>
+              {tariffApplied && (
+                <div className="grid gap-3 md:grid-cols-3">
+                  {quote.accessorial_prices.stairs_per_flight > 0 && (
+                    <div className="space-y-1.5">
+                      <Label>Stairs (flights)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={tariffAccessorials.stairsFlights}
+                        onChange={(event) => setTariffAccessorials((prev) => ({ ...prev, stairsFlights: event.target.value }))}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        ${quote.accessorial_prices.stairs_per_flight.toFixed(2)} per flight
+                      </p>
+                    </div>
+                  )}
+                  {quote.accessorial_prices.long_carry_per_50ft > 0 && (
+                    <div className="space-y-1.5">
+                      <Label>Long Carry (feet)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={tariffAccessorials.longCarryFeet}
+                        onChange={(event) => setTariffAccessorials((prev) => ({ ...prev, longCarryFeet: event.target.value }))}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        ${quote.accessorial_prices.long_carry_per_50ft.toFixed(2)} per 50 ft
+                      </p>
+                    </div>
+                  )}
+                  {quote.accessorial_prices.shuttle > 0 && (
+                    <label className="flex items-center gap-2 pt-6">
+                      <input
+                        type="checkbox"
+                        checked={tariffAccessorials.shuttle}
+                        onChange={(event) => setTariffAccessorials((prev) => ({ ...prev, shuttle: event.target.checked }))}
+                      />
+                      Shuttle (${quote.accessorial_prices.shuttle.toFixed(2)})
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {quoteError && (
+            <p className="text-xs text-muted-foreground">Tariff: {quoteError}</p>
+          )}
+          {tariffApplied && (
+            <>
+              <input type="hidden" name="rate_table_id" value={quote.rate_table_id} />
+              <input type="hidden" name="rate_table_rule_id" value={quote.rule_id} />
+              <input type="hidden" name="pricing_rule" value={quote.rule_description} />
+              <input type="hidden" name="linehaul_minimum" value={quote.minimum_charge || ''} />
+              <input type="hidden" name="fuel_surcharge_percent" value={quote.fuel_surcharge_percent || ''} />
+              <input type="hidden" name="contract_accessorials_stairs" value={tariffAccessorialAmounts.stairs || ''} />
+              <input type="hidden" name="contract_accessorials_long_carry" value={tariffAccessorialAmounts.longCarry || ''} />
+              <input type="hidden" name="contract_accessorials_shuttle" value={tariffAccessorialAmounts.shuttle || ''} />
+              <input type="hidden" name="accessorials_rate" value={tariffAccessorialsTotal || ''} />
+            </>
+          )}
+
           {/* Linehaul Amount - only show if rate and cuft are entered */}
           {pricing.cubicFeet && pricing.rate && (
             <div className="rounded-lg border border-border bg-muted/40 px-4 py-3 text-sm">
               <p className="text-muted-foreground">Linehaul Amount</p>
               <p className="text-2xl font-semibold">${linehaulAmount.toFixed(2)}</p>
+              {tariffApplied && quote.minimum_applied && (
+                <p className="text-xs text-muted-foreground">Tariff minimum of ${quote.minimum_charge.toFixed(2)} applied</p>
+              )}
+              {tariffApplied && quote.fuel_surcharge > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Plus {quote.fuel_surcharge_percent}% fuel surcharge (${quote.fuel_surcharge.toFixed(2)})
+                </p>
+              )}
+              {tariffAccessorialsTotal > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Plus ${tariffAccessorialsTotal.toFixed(2)} tariff accessorials
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Scanned details - no inputs of their own, so they're listed and submitted hidden */}
+          {scannedDetailKeys.length > 0 && (
+            <div className="space-y-2 rounded-lg border border-border px-4 py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">From scanned document</p>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setScannedDetails({})}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+              </div>
+              <dl className="grid gap-x-4 gap-y-1 md:grid-cols-2">
+                {scannedDetailKeys.map((key) => (
+                  <div key={key} className="flex justify-between gap-2">
+                    <dt className="text-muted-foreground">{EXTRACTABLE_LOAD_FIELDS[key].label}</dt>
+                    <dd className="text-right">
+                      {EXTRACTABLE_LOAD_FIELDS[key].kind === 'money' ? `$${Number(scannedDetails[key]).toFixed(2)}` : scannedDetails[key]}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+              {tariffApplied && scannedDetailKeys.some((key) => TARIFF_PRICED_FIELDS.includes(key)) && (
+                <p className="text-xs text-muted-foreground">
+                  The tariff prices shuttle, stairs and long carry, so those scanned amounts aren&apos;t saved.
+                </p>
+              )}
+              {scannedDetailKeys
+                .filter((key) => !(tariffApplied && TARIFF_PRICED_FIELDS.includes(key)))
+                .map((key) => (
+                  <input key={key} type="hidden" name={key} value={scannedDetails[key]} />
+                ))}
             </div>
           )}
 
@@ -988,6 +1283,7 @@ export function LoadCreateForm({
         <CardContent>
           <RFDDatePicker
             name="rfd"
+            defaultRfdDate={scannedRfdDate}
             onChange={setRfdValues}
             required
             error={state?.errors?.rfd_date}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { AlertTriangle, FileSearch, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  EXTRACTABLE_LOAD_FIELDS,
+  EXTRACTABLE_LOAD_FIELD_KEYS,
+  EXTRACTION_DOCUMENT_LABELS,
+  isLowConfidence,
+  type ExtractableLoadField,
+  type ExtractionDocumentType,
+  type LoadDocumentExtraction,
+} from '@/lib/document-extraction/fields';
+
+export type ScannedLoadValues = Partial<Record<ExtractableLoadField, string>>;
+
+interface LoadDocumentScannerProps {
+  /** Called with the reviewed values the user chose to keep */
+  onApply: (values: ScannedLoadValues) => void;
+}
+
+export function LoadDocumentScanner({ onApply }: LoadDocumentScannerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [documentType, setDocumentType] = useState<ExtractionDocumentType>('contract');
+  const [scanning, setScanning] = useState(false);
+  const [extraction, setExtraction] = useState<LoadDocumentExtraction | null>(null);
+  const [draft, setDraft] = useState<ScannedLoadValues>({});
+  const [included, setIncluded] = useState<Partial<Record<ExtractableLoadField, boolean>>>({});
+
+  const foundKeys = extraction
+    ? EXTRACTABLE_LOAD_FIELD_KEYS.filter((key) => extraction.fields[key] !== undefined)
+    : [];
+  const selectedCount = foundKeys.filter((key) => included[key]).length;
+
+  const handleFile = async (file: File) => {
+    setScanning(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('document_type', documentType);
+
+      const response = await fetch('/api/ocr/load-document', { method: 'POST', body: formData });
+      const result = (await response.json()) as
+        | ({ success: true } & LoadDocumentExtraction)
+        | { success: false; error?: string };
+
+      if (!result.success) {
+        toast({ title: 'Scan failed', description: result.error || 'Enter the details manually.', variant: 'destructive' });
+        return;
+      }
+
+      const keys = EXTRACTABLE_LOAD_FIELD_KEYS.filter((key) => result.fields[key] !== undefined);
+      if (keys.length === 0) {
+        toast({ title: 'Nothing found', description: 'No load details could be read from that document.' });
+        return;
+      }
+
+      setExtraction(result);
+      setDraft(Object.fromEntries(keys.map((key) => [key, String(result.fields[key]?.value ?? '')])));
+      setIncluded(Object.fromEntries(keys.map((key) => [key, true])));
+    } catch {
+      toast({ title: 'Scan failed', description: 'Enter the details manually.', variant: 'destructive' });
+    } finally {
+      setScanning(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleApply = () => {
+    const values: ScannedLoadValues = {};
+    foundKeys.forEach((key) => {
+      const value = draft[key]?.trim();
+      if (included[key] && value) values[key] = value;
+    });
+    onApply(values);
+    toast({ title: 'Scanned details applied', description: 'Double-check the form before saving.' });
+    setExtraction(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-dashed border-border bg-muted/30 p-4 md:flex-row md:items-center">
+      <div className="flex-1">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <FileSearch className="h-4 w-4" />
+          Fill from a document
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Scan a contract, rate confirmation or loading report and review what was read before it&apos;s applied.
+        </p>
+      </div>
+      <Select value={documentType} onValueChange={(value) => setDocumentType(value as ExtractionDocumentType)}>
+        <SelectTrigger className="h-9 md:w-[240px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(EXTRACTION_DOCUMENT_LABELS) as ExtractionDocumentType[]).map((type) => (
+            <SelectItem key={type} value={type}>
+              {EXTRACTION_DOCUMENT_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" disabled={scanning} onClick={() => inputRef.current?.click()}>
+        {scanning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+        {scanning ? 'Reading...' : 'Upload & Scan'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*,application/pdf"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+
+      <Dialog open={extraction !== null} onOpenChange={(open) => !open && setExtraction(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Review Scanned Details</DialogTitle>
+            <DialogDescription>
+              {extraction && (
+                <>
+                  {foundKeys.length} field{foundKeys.length === 1 ? '' : 's'} read from the{' '}
+                  {EXTRACTION_DOCUMENT_LABELS[extraction.document_type].toLowerCase()}.
+                  {extraction.low_confidence.length > 0 &&
+                    ` ${extraction.low_confidence.length} highlighted field${extraction.low_confidence.length === 1 ? ' was' : 's were'} hard to read - check them against the document.`}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-2 overflow-y-auto pr-1">
+            {extraction &&
+              foundKeys.map((key) => {
+                const field = extraction.fields[key];
+                const low = isLowConfidence(field);
+                return (
+                  <div
+                    key={key}
+                    className={cn(
+                      'flex items-center gap-3 rounded-md border px-3 py-2',
+                      low ? 'border-amber-500/50 bg-amber-500/10' : 'border-border'
+                    )}
+                  >
+                    <Checkbox
+                      id={`scan_${key}`}
+                      checked={!!included[key]}
+                      onCheckedChange={(checked) => setIncluded((prev) => ({ ...prev, [key]: checked === true }))}
+                    />
+                    <Label htmlFor={`scan_${key}`} className="w-40 shrink-0 text-sm">
+                      {EXTRACTABLE_LOAD_FIELDS[key].label}
+                    </Label>
+                    <Input
+                      className="h-8 flex-1"
+                      value={draft[key] ?? ''}
+                      onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+                    />
+                    <Badge
+                      variant="secondary"
+                      className={cn('w-16 justify-center border-0', low && 'bg-amber-500/20 text-amber-700 dark:text-amber-400')}
+                    >
+                      {low && <AlertTriangle className="mr-1 h-3 w-3" />}
+                      {Math.round((field?.confidence ?? 0) * 100)}%
+                    </Badge>
+                  </div>
+                );
+              })}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setExtraction(null)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleApply} disabled={selectedCount === 0}>
+              Apply {selectedCount} Field{selectedCount === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import {
+  HELPER_EVENT_LABELS,
+  formatHelperName,
+  type Helper,
+  type HelperEventType,
+  type LoadHelper,
+} from '@/data/helper-shared';
+
+interface LoadHelpersCardProps {
+  helpers: Helper[];
+  entries: LoadHelper[];
+  onAdd: (input: {
+    helperId: string;
+    eventType: HelperEventType;
+    workDate: string;
+    hours: number | null;
+  }) => Promise<{ success: boolean; error?: string }>;
+  onRemove: (id: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+export function LoadHelpersCard({ helpers, entries, onAdd, onRemove }: LoadHelpersCardProps) {
+  const router = useRouter();
+  const [helperId, setHelperId] = useState(helpers[0]?.id ?? '');
+  const [eventType, setEventType] = useState<HelperEventType>('loading');
+  const [workDate, setWorkDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [hours, setHours] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedHelper = helpers.find((h) => h.id === helperId);
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const handleAdd = async () => {
+    if (!helperId) return;
+    setIsSaving(true);
+    const result = await onAdd({
+      helperId,
+      eventType,
+      workDate,
+      hours: hours ? Number(hours) : null,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({ title: 'Could not add helper', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setHours('');
+    router.refresh();
+  };
+
+  const handleRemove = async (id: string) => {
+    const result = await onRemove(id);
+    if (!result.success) {
+      toast({ title: 'Could not remove helper', description: result.error, variant: 'destructive' });
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Users className="h-4 w-4" />
+          Helpers
+        </CardTitle>
+        <CardDescription>
+          Crew labor at loading and delivery. Total {formatCurrency(total)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length > 0 && (
+          <div className="divide-y border rounded-lg">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-3 p-3">
+                <div className="flex-1">
+                  <p className="font-medium">{entry.helper_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {HELPER_EVENT_LABELS[entry.event_type]} &middot; {entry.work_date}
+                    {entry.rate_type === 'hourly'
+                      ? ` · ${entry.hours ?? 0} hrs @ ${formatCurrency(entry.rate)}`
+                      : ' · flat'}
+                    {entry.paid_at ? ' · paid' : ''}
+                  </p>
+                </div>
+                <span className="text-sm font-medium">{formatCurrency(entry.amount)}</span>
+                {!entry.paid_at && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Remove helper"
+                    onClick={() => handleRemove(entry.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {helpers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No active helpers.{' '}
+            <a href="/dashboard/people/helpers" className="underline hover:no-underline">
+              Add helpers to your roster
+            </a>
+          </p>
+        ) : (
+          <div className="grid gap-2 md:grid-cols-5 items-end">
+            <div className="md:col-span-2">
+              <Label htmlFor="load-helper-id">Helper</Label>
+              <select
+                id="load-helper-id"
+                value={helperId}
+                onChange={(e) => setHelperId(e.target.value)}
+                className={selectClassName}
+              >
+                {helpers.map((helper) => (
+                  <option key={helper.id} value={helper.id}>
+                    {formatHelperName(helper)} ({formatCurrency(helper.rate)}
+                    {helper.rate_type === 'hourly' ? '/hr' : ' flat'})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="load-helper-event">Event</Label>
+              <select
+                id="load-helper-event"
+                value={eventType}
+                onChange={(e) => setEventType(e.target.value as HelperEventType)}
+                className={selectClassName}
+              >
+                {(Object.keys(HELPER_EVENT_LABELS) as HelperEventType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {HELPER_EVENT_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="load-helper-date">Date</Label>
+              <Input id="load-helper-date" type="date" value={workDate} onChange={(e) => setWorkDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="load-helper-hours">Hours</Label>
+              <Input
+                id="load-helper-hours"
+                type="number"
+                step="0.25"
+                min="0"
+                value={hours}
+                disabled={selectedHelper?.rate_type === 'flat'}
+                onChange={(e) => setHours(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isSaving || !helperId} className="md:col-start-5">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add Helper'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { FileDown, ListChecks } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { exportLoadInventoryToPDF } from '@/hooks/use-export';
+import {
+  CONDITION_CODE_LABELS,
+  DELIVERY_EXCEPTION_LABELS,
+  type LoadInventory,
+} from '@/data/load-inventory-shared';
+
+interface LoadInventoryCardProps {
+  inventory: LoadInventory;
+  loadNumber: string;
+  companyName: string;
+  customerName?: string | null;
+  origin: string;
+  destination: string;
+}
+
+export function LoadInventoryCard({
+  inventory,
+  loadNumber,
+  companyName,
+  customerName,
+  origin,
+  destination,
+}: LoadInventoryCardProps) {
+  const { items, summary } = inventory;
+
+  if (items.length === 0) return null;
+
+  const handleExport = () => {
+    exportLoadInventoryToPDF({
+      loadNumber,
+      companyName,
+      customerName,
+      origin,
+      destination,
+      conditionLegend: CONDITION_CODE_LABELS,
+      items: items.map((item) => ({
+        tag_number: item.tag_number,
+        room: item.room,
+        description: item.description,
+        condition_codes: item.condition_codes,
+        condition_notes: item.condition_notes,
+        carton_count: item.carton_count,
+        is_high_value: item.is_high_value,
+        declared_value: item.declared_value,
+        damage_sticker: item.damage?.sticker_number ?? null,
+        delivery_status: item.delivery_status,
+        delivery_exception: item.delivery_exception,
+        delivery_notes: item.delivery_notes,
+      })),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ListChecks className="h-4 w-4" />
+            Inventory
+          </CardTitle>
+          <CardDescription>
+            {summary.item_count} tags &middot; {summary.carton_count} cartons
+            {summary.high_value_count > 0 && <> &middot; {summary.high_value_count} high value</>}
+            {summary.delivered_count + summary.exception_count > 0 && (
+              <>
+                {' '}
+                &middot; {summary.delivered_count}/{summary.item_count} delivered
+              </>
+            )}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <FileDown className="h-4 w-4 mr-2" />
+          PDF
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Tag</TableHead>
+              <TableHead>Room</TableHead>
+              <TableHead>Article</TableHead>
+              <TableHead className="text-right">Ctn</TableHead>
+              <TableHead>Condition</TableHead>
+              <TableHead>Delivery</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-mono">{item.tag_number}</TableCell>
+                <TableCell className="text-muted-foreground">{item.room || '—'}</TableCell>
+                <TableCell>
+                  {item.description}
+                  {item.is_high_value && (
+                    <Badge variant="outline" className="ml-2 border-amber-500 text-amber-600">
+                      High value
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{item.carton_count || ''}</TableCell>
+                <TableCell className="text-sm">
+                  <span title={item.condition_codes.map((code) => CONDITION_CODE_LABELS[code]).join(', ')}>
+                    {item.condition_codes.join(', ')}
+                  </span>
+                  {item.condition_notes && (
+                    <span className="text-muted-foreground">
+                      {item.condition_codes.length > 0 ? ' - ' : ''}
+                      {item.condition_notes}
+                    </span>
+                  )}
+                  {item.damage && (
+                    <p className="text-xs text-orange-600">
+                      Damage sticker #{item.damage.sticker_number}: {item.damage.damage_description}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {item.delivery_status === 'delivered' && <Badge variant="secondary">Delivered</Badge>}
+                  {item.delivery_status === 'exception' && (
+                    <div>
+                      <Badge variant="destructive">
+                        {item.delivery_exception ? DELIVERY_EXCEPTION_LABELS[item.delivery_exception] : 'Exception'}
+                      </Badge>
+                      {item.delivery_notes && (
+                        <p className="text-xs text-muted-foreground mt-1">{item.delivery_notes}</p>
+                      )}
+                    </div>
+                  )}
+                  {item.delivery_status === 'pending' && <span className="text-muted-foreground">—</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
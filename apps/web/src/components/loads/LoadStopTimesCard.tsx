@@ -0,0 +1,79 @@
+'use client';
+
+import { MapPin, Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  LOAD_STOP_LABELS,
+  formatStopDuration,
+  type LoadStopTime,
+} from '@/data/load-stop-visits-shared';
+
+interface LoadStopTimesCardProps {
+  stops: LoadStopTime[];
+  freeMinutes: number;
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function LoadStopTimesCard({ stops, freeMinutes }: LoadStopTimesCardProps) {
+  const totalDetention = stops.reduce((sum, stop) => sum + stop.detention_minutes, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Timer className="h-4 w-4" />
+          Stop Times &amp; Detention
+        </CardTitle>
+        <CardDescription>
+          {stops.length === 0
+            ? 'No arrivals recorded yet'
+            : totalDetention > 0
+              ? `${formatStopDuration(totalDetention)} detention beyond ${formatStopDuration(freeMinutes)} free time per stop`
+              : `No detention · ${formatStopDuration(freeMinutes)} free time per stop`}
+        </CardDescription>
+      </CardHeader>
+      {stops.length > 0 && (
+        <CardContent className="space-y-2">
+          {stops.map((stop) => (
+            <div
+              key={`${stop.stop_type}-${stop.arrived_at}`}
+              className="flex items-center justify-between gap-3 rounded-md border p-3"
+            >
+              <div>
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {LOAD_STOP_LABELS[stop.stop_type]}
+                  {stop.source === 'geofence' && (
+                    <Badge variant="outline" className="text-[10px]">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      Geofence
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTime(stop.arrived_at)} – {stop.departed_at ? formatTime(stop.departed_at) : 'on site'}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm">{formatStopDuration(stop.minutes_on_site)}</p>
+                {stop.detention_minutes > 0 && (
+                  <Badge className="bg-orange-500/20 text-orange-500">
+                    {formatStopDuration(stop.detention_minutes)} detention
+                  </Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,366 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, FlaskConical, Loader2, Package } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  buildCapacityTimeline,
+  insertWhatIfStops,
+  type CapacityLoad,
+  type CapacityStop,
+} from '@/lib/capacity-timeline';
+import { COMPLETED_LOAD_STATUSES, PICKED_UP_LOAD_STATUSES, savedRouteStops } from '@/lib/route-optimizer';
+import type { TripLoad } from '@/data/trips';
+
+interface CapacityTimelineCardProps {
+  tripId: string;
+  capacityCuft: number;
+  tripLoads: TripLoad[];
+}
+
+interface MarketplaceCandidate {
+  id: string;
+  loadNumber: string;
+  companyName: string;
+  originCity: string;
+  originState: string;
+  destinationCity: string;
+  destinationState: string;
+  cubicFeet: number | null;
+}
+
+function formatNumber(value: number) {
+  return Math.round(value).toLocaleString('en-US');
+}
+
+function formatPlace(city: string | null | undefined, state: string | null | undefined) {
+  return [city, state].filter(Boolean).join(', ') || 'Unknown location';
+}
+
+function utilizationColor(percent: number | null) {
+  if (percent === null) return 'text-muted-foreground';
+  if (percent > 100) return 'text-red-400';
+  if (percent >= 90) return 'text-amber-400';
+  return 'text-green-400';
+}
+
+// Company loads keep their pickup in the loading snapshot; partner loads
+// record the delivery as the dropoff
+function toCapacityLoad(tripLoad: TripLoad): CapacityLoad | null {
+  const load = tripLoad.load;
+  if (!load) return null;
+
+  const actual = load.actual_cuft_loaded != null ? Number(load.actual_cuft_loaded) : null;
+  return {
+    id: load.id,
+    load_number: load.load_number || 'Load',
+    pickup_label: load.pickup_city
+      ? formatPlace(load.pickup_city, load.pickup_state)
+      : formatPlace(load.loading_city, load.loading_state),
+    delivery_label: load.delivery_city
+      ? formatPlace(load.delivery_city, load.delivery_state)
+      : formatPlace(load.dropoff_city, load.dropoff_state),
+    estimated_cuft: Number(load.cubic_feet ?? load.cubic_feet_estimate ?? 0),
+    actual_cuft: actual,
+    picked_up: PICKED_UP_LOAD_STATUSES.includes(load.load_status || ''),
+  };
+}
+
+function TimelineStopRow({ stop, index }: { stop: CapacityStop; index: number }) {
+  return (
+    <li
+      className={`space-y-1.5 rounded-md border px-3 py-2 text-sm ${
+        stop.overloaded ? 'border-red-500/50 bg-red-500/5' : stop.what_if ? 'border-primary/50 bg-primary/5' : 'border-border/50'
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        <span className="w-5 shrink-0 text-muted-foreground">{index + 1}.</span>
+        <Badge variant="outline" className={stop.type === 'pickup' ? 'text-amber-400' : 'text-green-400'}>
+          {stop.type === 'pickup' ? 'Pickup' : 'Deliver'}
+        </Badge>
+        <div className="min-w-0 flex-1">
+          <p className="truncate">
+            {stop.load_number} · {stop.label}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {stop.change_cuft >= 0 ? '+' : '−'}
+            {formatNumber(Math.abs(stop.change_cuft))} cuft · {formatNumber(stop.onboard_cuft)} on board
+            {stop.estimated_onboard_cuft !== stop.onboard_cuft &&
+              ` (est. ${formatNumber(stop.estimated_onboard_cuft)})`}
+          </p>
+        </div>
+        {stop.what_if && <Badge className="bg-primary/20 text-primary">What-if</Badge>}
+        {stop.overloaded && <Badge className="bg-red-500/20 text-red-400">Overloaded</Badge>}
+        {stop.utilization_percent !== null && (
+          <span className={`w-12 shrink-0 text-right font-medium ${utilizationColor(stop.utilization_percent)}`}>
+            {stop.utilization_percent}%
+          </span>
+        )}
+      </div>
+      {stop.utilization_percent !== null && (
+        <Progress value={Math.min(stop.utilization_percent, 100)} className="h-1.5" />
+      )}
+    </li>
+  );
+}
+
+export function CapacityTimelineCard({ tripId, capacityCuft, tripLoads }: CapacityTimelineCardProps) {
+  const [whatIfOpen, setWhatIfOpen] = useState(false);
+  const [candidates, setCandidates] = useState<MarketplaceCandidate[] | null>(null);
+  const [candidatesError, setCandidatesError] = useState<string | null>(null);
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(false);
+  const [whatIfLoadId, setWhatIfLoadId] = useState('');
+  const [pickupPosition, setPickupPosition] = useState('end');
+  const [deliveryPosition, setDeliveryPosition] = useState('end');
+
+  // Delivered loads are off the trailer; the rest follow the saved stop order
+  const routedLoads = useMemo(
+    () =>
+      tripLoads
+        .filter((tl) => !COMPLETED_LOAD_STATUSES.includes(tl.load?.load_status || ''))
+        .map((tl) => {
+          const load = toCapacityLoad(tl);
+          return load
+            ? { ...load, pickup_stop_index: tl.pickup_stop_index, delivery_stop_index: tl.delivery_stop_index }
+            : null;
+        })
+        .filter((load): load is NonNullable<typeof load> => load !== null),
+    [tripLoads]
+  );
+  const stops = useMemo(() => savedRouteStops(routedLoads), [routedLoads]);
+
+  const whatIfLoad = candidates?.find((candidate) => candidate.id === whatIfLoadId) || null;
+
+  const timeline = useMemo(() => {
+    if (!whatIfLoad) return buildCapacityTimeline(capacityCuft, routedLoads, stops);
+
+    const candidateLoad: CapacityLoad = {
+      id: whatIfLoad.id,
+      load_number: whatIfLoad.loadNumber,
+      pickup_label: formatPlace(whatIfLoad.originCity, whatIfLoad.originState),
+      delivery_label: formatPlace(whatIfLoad.destinationCity, whatIfLoad.destinationState),
+      estimated_cuft: whatIfLoad.cubicFeet || 0,
+      actual_cuft: null,
+      picked_up: false,
+      what_if: true,
+    };
+    const toIndex = (position: string) => (position === 'end' ? stops.length : Number(position));
+    return buildCapacityTimeline(
+      capacityCuft,
+      [...routedLoads, candidateLoad],
+      insertWhatIfStops(stops, candidateLoad.id, toIndex(pickupPosition), toIndex(deliveryPosition))
+    );
+  }, [capacityCuft, routedLoads, stops, whatIfLoad, pickupPosition, deliveryPosition]);
+
+  const openWhatIf = async () => {
+    setWhatIfOpen(true);
+    if (candidates) return;
+
+    setIsLoadingCandidates(true);
+    setCandidatesError(null);
+    try {
+      const response = await fetch(`/api/trips/${tripId}/suggestions?maxDetour=all`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch marketplace loads');
+      }
+      setCandidates(data.suggestions || []);
+    } catch (err) {
+      setCandidatesError(err instanceof Error ? err.message : 'Failed to fetch marketplace loads');
+    } finally {
+      setIsLoadingCandidates(false);
+    }
+  };
+
+  const closeWhatIf = () => {
+    setWhatIfOpen(false);
+    setWhatIfLoadId('');
+    setPickupPosition('end');
+    setDeliveryPosition('end');
+  };
+
+  const pickupIndex = pickupPosition === 'end' ? stops.length : Number(pickupPosition);
+  const positionOptions = (from: number) => [
+    ...stops.slice(from).map((stop, offset) => {
+      const index = from + offset;
+      return {
+        value: String(index),
+        label: `Before stop ${index + 1} (${stop.type === 'pickup' ? 'pickup' : 'delivery'})`,
+      };
+    }),
+    { value: 'end', label: 'After the last stop' },
+  ];
+
+  const firstOverload = timeline.overloads[0];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Package className="h-4 w-4" />
+            Trailer Capacity
+          </CardTitle>
+          <CardDescription>
+            {capacityCuft > 0
+              ? `Cubic feet on board after each stop against ${formatNumber(capacityCuft)} cuft of capacity.`
+              : 'Cubic feet on board after each stop. Assign a trailer or truck with a capacity to see utilization.'}
+          </CardDescription>
+        </div>
+        {whatIfOpen ? (
+          <Button variant="ghost" size="sm" onClick={closeWhatIf}>
+            Close what-if
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={openWhatIf} className="gap-1">
+            <FlaskConical className="h-4 w-4" />
+            What-if
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {whatIfOpen && (
+          <div className="space-y-3 rounded-md border border-border/50 p-3">
+            {isLoadingCandidates ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading marketplace loads...
+              </div>
+            ) : candidatesError ? (
+              <p className="text-sm text-destructive">{candidatesError}</p>
+            ) : candidates && candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No marketplace loads to try on this trip.</p>
+            ) : (
+              <>
+                <div className="space-y-1.5">
+                  <Label className="text-sm">Marketplace load</Label>
+                  <Select value={whatIfLoadId} onValueChange={setWhatIfLoadId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a load to try" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(candidates || []).map((candidate) => (
+                        <SelectItem key={candidate.id} value={candidate.id}>
+                          {candidate.loadNumber} · {formatPlace(candidate.originCity, candidate.originState)} →{' '}
+                          {formatPlace(candidate.destinationCity, candidate.destinationState)}
+                          {candidate.cubicFeet ? ` · ${formatNumber(candidate.cubicFeet)} cuft` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1.5">
+                    <Label className="text-sm">Pick up</Label>
+                    <Select
+                      value={pickupPosition}
+                      onValueChange={(value) => {
+                        setPickupPosition(value);
+                        const index = value === 'end' ? stops.length : Number(value);
+                        const deliveryIndex = deliveryPosition === 'end' ? stops.length : Number(deliveryPosition);
+                        if (deliveryIndex < index) setDeliveryPosition(value);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {positionOptions(0).map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label className="text-sm">Deliver</Label>
+                    <Select value={deliveryPosition} onValueChange={setDeliveryPosition}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {positionOptions(pickupIndex).map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {whatIfLoad && (
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className={timeline.overloads.length > 0 ? 'text-red-400' : 'text-green-400'}>
+                      {timeline.overloads.length > 0
+                        ? `${whatIfLoad.loadNumber} doesn't fit at these positions.`
+                        : `${whatIfLoad.loadNumber} fits at these positions.`}
+                    </span>
+                    <Button size="sm" asChild>
+                      <Link href={`/dashboard/load-board/${whatIfLoad.id}`}>Request load</Link>
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Peak {formatNumber(timeline.peak_cuft)} cuft
+            {timeline.peak_utilization_percent !== null && (
+              <span className={utilizationColor(timeline.peak_utilization_percent)}>
+                {' '}
+                ({timeline.peak_utilization_percent}%)
+              </span>
+            )}
+          </span>
+          {firstOverload && (
+            <span className="flex items-center gap-1 text-red-400">
+              <AlertTriangle className="h-4 w-4" />
+              Over capacity by {formatNumber(firstOverload.over_by_cuft)} cuft at stop {firstOverload.stop_number} (
+              {firstOverload.load_number} · {firstOverload.label})
+              {timeline.overloads.length > 1 && ` and ${timeline.overloads.length - 1} more`}
+            </span>
+          )}
+        </div>
+
+        {timeline.starting_cuft > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Departing with {formatNumber(timeline.starting_cuft)} cuft already on board
+            {timeline.starting_estimated_cuft !== timeline.starting_cuft &&
+              ` (est. ${formatNumber(timeline.starting_estimated_cuft)})`}
+            .
+          </p>
+        )}
+
+        {timeline.stops.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No stops left on this trip.</p>
+        ) : (
+          <ol className="space-y-2">
+            {timeline.stops.map((stop, index) => (
+              <TimelineStopRow key={`${stop.load_id}-${stop.type}`} stop={stop} index={index} />
+            ))}
+          </ol>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          On-board figures use the cubic feet recorded at loading where available and estimates otherwise.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ArrowRight, Loader2, Route } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { routeStopIndexes, type RoutePlan } from '@/lib/route-optimizer';
+import type { TripRouteComparison } from '@/data/trip-routing';
+import type { TripLoadOrderItem } from '@/data/trips';
+
+interface RouteOptimizerCardProps {
+  optimizeRoute: () => Promise<{ errors?: Record<string, string>; comparison?: TripRouteComparison | null }>;
+  reorderLoads: (items: TripLoadOrderItem[]) => Promise<{ errors?: Record<string, string>; success?: boolean } | null>;
+  onApplied: () => void;
+}
+
+function formatArrival(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString('en-US');
+}
+
+function RouteStopList({ title, plan, capacity }: { title: string; plan: RoutePlan; capacity: number }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{title}</p>
+        <p className="text-sm text-muted-foreground">
+          {formatNumber(plan.total_miles)} mi
+          {plan.late_stops > 0 && <span className="text-red-400"> · {plan.late_stops} late</span>}
+        </p>
+      </div>
+      <ol className="space-y-1.5">
+        {plan.stops.map((stop, index) => (
+          <li
+            key={`${stop.load_id}-${stop.type}`}
+            className="flex items-start gap-2 rounded-md border border-border/50 px-2 py-1.5 text-sm"
+          >
+            <span className="w-5 shrink-0 text-muted-foreground">{index + 1}.</span>
+            <Badge variant="outline" className={stop.type === 'pickup' ? 'text-amber-400' : 'text-green-400'}>
+              {stop.type === 'pickup' ? 'Pickup' : 'Deliver'}
+            </Badge>
+            <div className="min-w-0 flex-1">
+              <p className="truncate">
+                {stop.load_number} · {stop.label}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {stop.located ? `${formatNumber(stop.leg_miles)} mi` : 'No location'} · arrive ~{formatArrival(stop.arrival)}
+                {capacity > 0 && ` · ${formatNumber(stop.onboard_cuft)}/${formatNumber(capacity)} cuft`}
+              </p>
+            </div>
+            {stop.late && <Badge className="bg-red-500/20 text-red-400">Late</Badge>}
+            {stop.over_capacity && <Badge className="bg-amber-500/20 text-amber-400">Over capacity</Badge>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export function RouteOptimizerCard({ optimizeRoute, reorderLoads, onApplied }: RouteOptimizerCardProps) {
+  const [comparison, setComparison] = useState<TripRouteComparison | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleOptimize = async () => {
+    setIsOptimizing(true);
+    setError(null);
+    try {
+      const result = await optimizeRoute();
+      if (result.errors) {
+        setError(result.errors._form || 'Failed to optimize route');
+      } else {
+        setComparison(result.comparison ?? null);
+      }
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!comparison) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      // Delivered loads keep their place at the front of the load order
+      const completed = comparison.completed_load_ids.map((loadId, index) => ({
+        load_id: loadId,
+        sequence_index: index,
+      }));
+      const routed = routeStopIndexes(comparison.proposed.stops).map((item) => ({
+        ...item,
+        sequence_index: item.sequence_index + completed.length,
+      }));
+
+      const result = await reorderLoads([...completed, ...routed]);
+      if (result?.errors) {
+        setError(result.errors._form || 'Failed to apply route');
+        return;
+      }
+      setComparison(undefined);
+      onApplied();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Route className="h-4 w-4" />
+            Route Optimization
+          </CardTitle>
+          <CardDescription>
+            Propose the pickup and delivery order with the fewest miles that keeps the trailer within capacity and
+            meets pickup windows and delivery deadlines.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleOptimize} disabled={isOptimizing || isApplying}>
+          {isOptimizing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Optimize'}
+        </Button>
+      </CardHeader>
+
+      {(error || comparison !== undefined) && (
+        <CardContent className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {comparison === null && (
+            <p className="text-sm text-muted-foreground">No undelivered loads on this trip to route.</p>
+          )}
+
+          {comparison && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {comparison.improved ? (
+                  <>
+                    <Badge className="bg-green-500/20 text-green-400">
+                      {comparison.miles_saved >= 0
+                        ? `Saves ${formatNumber(comparison.miles_saved)} mi`
+                        : `Adds ${formatNumber(-comparison.miles_saved)} mi`}
+                    </Badge>
+                    {comparison.late_stops_avoided > 0 && (
+                      <Badge className="bg-green-500/20 text-green-400">
+                        {comparison.late_stops_avoided} fewer late {comparison.late_stops_avoided === 1 ? 'stop' : 'stops'}
+                      </Badge>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">The current order is already the best found.</span>
+                )}
+                {comparison.proposed.late_stops > 0 && (
+                  <span className="flex items-center gap-1 text-amber-400">
+                    <AlertTriangle className="h-4 w-4" />
+                    {comparison.proposed.late_stops} late {comparison.proposed.late_stops === 1 ? 'stop' : 'stops'} in the
+                    proposed order
+                  </span>
+                )}
+                {comparison.current.unlocated_stops > 0 && (
+                  <span className="text-muted-foreground">
+                    Stops without a location ({comparison.current.unlocated_stops}) aren&apos;t counted in miles.
+                  </span>
+                )}
+              </div>
+
+              {comparison.improved && (
+                <div className="grid gap-4 md:grid-cols-[1fr_auto_1fr]">
+                  <RouteStopList title="Current order" plan={comparison.current} capacity={comparison.capacity_cuft} />
+                  <ArrowRight className="hidden h-5 w-5 self-center text-muted-foreground md:block" />
+                  <RouteStopList title="Proposed order" plan={comparison.proposed} capacity={comparison.capacity_cuft} />
+                </div>
+              )}
+
+              {comparison.improved && (
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleApply} disabled={isApplying}>
+                    {isApplying ? 'Applying...' : 'Apply proposed order'}
+                  </Button>
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                Straight-line miles. Arrivals assume 50 mph, 11-hour days and 3 hours per stop.
+              </p>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
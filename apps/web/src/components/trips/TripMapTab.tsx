@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { Loader2, MapPin, AlertCircle, RefreshCw, Info } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,12 +14,15 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { TripPlannerMap, type TripLoad, type MarketplaceLoad } from './TripPlannerMap';
+import type { GeoCoordinates } from '@/lib/geocoding';
 
 interface TripLoadData {
   id: string;
   load_id: string;
   sequence_index: number;
   role: string;
+  pickup_stop_index?: number | null;
+  delivery_stop_index?: number | null;
   load?: {
     id: string;
     load_number: string | null;
@@ -29,6 +32,8 @@ interface TripLoadData {
     destination_city?: string;
     destination_state?: string;
     destination_zip?: string;
+    origin_coords?: GeoCoordinates | null;
+    destination_coords?: GeoCoordinates | null;
     cubic_feet?: number | null;
     estimated_cuft?: number | null;
     total_rate?: number | null;
@@ -45,6 +50,8 @@ interface TripMapTabProps {
   destinationCity?: string | null;
   destinationState?: string | null;
   destinationZip?: string | null;
+  originCoords?: GeoCoordinates | null;
+  destinationCoords?: GeoCoordinates | null;
   truckCapacity?: number | null;
   tripLoads: TripLoadData[];
   onRequestLoad?: (loadId: string) => void;
@@ -102,6 +109,8 @@ export function TripMapTab({
   destinationCity: propDestinationCity,
   destinationState: propDestinationState,
   destinationZip: propDestinationZip,
+  originCoords: propOriginCoords,
+  destinationCoords: propDestinationCoords,
   truckCapacity,
   tripLoads,
   onRequestLoad,
@@ -134,6 +143,20 @@ export function TripMapTab({
   const destinationState = propDestinationState || lastLoad?.destination_state || null;
   const destinationZip = propDestinationZip || lastLoad?.destination_zip || null;
 
+  // Stored coordinates follow the same trip-then-load fallback as the address
+  const originLat = propOriginCity ? propOriginCoords?.lat : firstLoad?.origin_coords?.lat;
+  const originLng = propOriginCity ? propOriginCoords?.lng : firstLoad?.origin_coords?.lng;
+  const destinationLat = propDestinationCity ? propDestinationCoords?.lat : lastLoad?.destination_coords?.lat;
+  const destinationLng = propDestinationCity ? propDestinationCoords?.lng : lastLoad?.destination_coords?.lng;
+  const originCoords = useMemo(
+    () => (originLat != null && originLng != null ? { lat: originLat, lng: originLng } : null),
+    [originLat, originLng]
+  );
+  const destinationCoords = useMemo(
+    () => (destinationLat != null && destinationLng != null ? { lat: destinationLat, lng: destinationLng } : null),
+    [destinationLat, destinationLng]
+  );
+
   // Track if we're using derived values (for showing info message)
   const isUsingDerivedOrigin = !propOriginCity && !!firstLoad?.origin_city;
   const isUsingDerivedDestination = !propDestinationCity && !!lastLoad?.destination_city;
@@ -155,6 +178,10 @@ export function TripMapTab({
         destinationCity: load.destination_city,
         destinationState: load.destination_state,
         destinationZip: load.destination_zip,
+        originCoords: load.origin_coords,
+        destinationCoords: load.destination_coords,
+        pickupStopIndex: tl.pickup_stop_index,
+        deliveryStopIndex: tl.delivery_stop_index,
         cubicFeet: load.cubic_feet ?? load.estimated_cuft ?? undefined,
         totalRate: load.total_rate ?? undefined,
         status: load.load_status ?? undefined,
@@ -174,6 +201,8 @@ export function TripMapTab({
         destinationCity: s.destinationCity,
         destinationState: s.destinationState,
         destinationZip: s.destinationZip,
+        originCoords: s.originCoords,
+        destinationCoords: s.destinationCoords,
         cubicFeet: s.cubicFeet || undefined,
         totalRate: s.rate || undefined,
         isPickup: s.postingType === 'pickup',
@@ -371,6 +400,8 @@ export function TripMapTab({
         destinationCity={destinationCity}
         destinationState={destinationState}
         destinationZip={destinationZip || undefined}
+        originCoords={originCoords}
+        destinationCoords={destinationCoords}
         truckCapacity={truckCapacity || 0}
         assignedLoads={assignedLoads}
         marketplaceLoads={marketplaceLoads}
@@ -26,6 +26,7 @@ interface TripOverviewCardProps {
     fuel_total: number;
     tolls_total: number;
     other_expenses_total: number;
+    helper_labor_total?: number | null;
     profit_total: number;
   };
   driverName?: string;
@@ -78,7 +79,8 @@ export function TripOverviewCard({
     (trip.driver_pay_total || 0) +
     (trip.fuel_total || 0) +
     (trip.tolls_total || 0) +
-    (trip.other_expenses_total || 0);
+    (trip.other_expenses_total || 0) +
+    (trip.helper_labor_total || 0);
 
   return (
     <div className="bg-card rounded-lg shadow-sm border border-border p-6">
@@ -24,11 +24,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
-  geocodeZipCode,
-  geocodeAddress,
   calculateDistance,
   calculateRouteDistance,
   calculateAddedMiles,
+  type AddressToGeocode,
   type GeoCoordinates,
 } from '@/lib/geocoding';
 
@@ -64,6 +63,12 @@ export interface TripLoad {
   destinationCity?: string;
   destinationState?: string;
   destinationZip?: string;
+  // Stored coordinates, when the load has been geocoded
+  originCoords?: GeoCoordinates | null;
+  destinationCoords?: GeoCoordinates | null;
+  // Positions in an optimized trip's stop sequence
+  pickupStopIndex?: number | null;
+  deliveryStopIndex?: number | null;
   cubicFeet?: number;
   totalRate?: number;
   status?: string;
@@ -106,6 +111,8 @@ export interface TripPlannerMapProps {
   destinationCity?: string;
   destinationState?: string;
   destinationZip?: string;
+  originCoords?: GeoCoordinates | null;
+  destinationCoords?: GeoCoordinates | null;
   truckCapacity?: number; // cubic feet
   assignedLoads: TripLoad[];
   marketplaceLoads?: MarketplaceLoad[];
@@ -191,6 +198,8 @@ export function TripPlannerMap({
   destinationCity,
   destinationState,
   destinationZip,
+  originCoords,
+  destinationCoords,
   truckCapacity = 0,
   assignedLoads,
   marketplaceLoads = [],
@@ -326,48 +335,63 @@ export function TripPlannerMap({
     });
   }, []);
 
-  // Geocode locations
+  // Geocode locations. Stored coordinates are used as-is; anything without
+  // them is resolved in one batch by the server-side ZIP lookup.
   useEffect(() => {
     async function geocodeLocations() {
       setIsLoading(true);
 
-      // Geocode trip origin and destination
-      const [originResult, destResult] = await Promise.all([
-        geocodeAddress(originCity, originState, originZip),
-        geocodeAddress(destinationCity, destinationState, destinationZip),
-      ]);
-
-      if (originResult.success && originResult.coordinates) {
-        setTripOrigin(originResult.coordinates);
-      }
-      if (destResult.success && destResult.coordinates) {
-        setTripDestination(destResult.coordinates);
-      }
-
-      // Geocode all loads
       const allLoads = [...assignedLoads, ...marketplaceLoads];
-      const markers: LoadMarker[] = [];
-
-      for (const load of allLoads) {
-        const [originCoords, destCoords] = await Promise.all([
-          geocodeAddress(load.originCity, load.originState, load.originZip),
-          geocodeAddress(load.destinationCity, load.destinationState, load.destinationZip),
-        ]);
-
-        markers.push({
-          load,
-          originCoords: originCoords.success ? originCoords.coordinates : undefined,
-          destinationCoords: destCoords.success ? destCoords.coordinates : undefined,
-          isMarketplace: 'isMarketplace' in load && load.isMarketplace === true,
-        });
+      const addresses: AddressToGeocode[] = [
+        { city: originCity, state: originState, postalCode: originZip },
+        { city: destinationCity, state: destinationState, postalCode: destinationZip },
+        ...allLoads.flatMap((load) => [
+          { city: load.originCity, state: load.originState, postalCode: load.originZip },
+          { city: load.destinationCity, state: load.destinationState, postalCode: load.destinationZip },
+        ]),
+      ];
+      const known: (GeoCoordinates | null | undefined)[] = [
+        originCoords,
+        destinationCoords,
+        ...allLoads.flatMap((load) => [load.originCoords, load.destinationCoords]),
+      ];
+
+      const missing = addresses.filter((_, index) => !known[index]);
+      let geocoded: (GeoCoordinates | null)[] = [];
+      if (missing.length > 0) {
+        try {
+          const response = await fetch('/api/geocode', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ addresses: missing }),
+          });
+          if (response.ok) {
+            geocoded = (await response.json()).results || [];
+          }
+        } catch (err) {
+          console.error('Failed to geocode trip locations:', err);
+        }
       }
 
+      let next = 0;
+      const resolved = known.map((coords) => coords || geocoded[next++] || undefined);
+
+      setTripOrigin(resolved[0] || null);
+      setTripDestination(resolved[1] || null);
+
+      const markers: LoadMarker[] = allLoads.map((load, index) => ({
+        load,
+        originCoords: resolved[2 + index * 2],
+        destinationCoords: resolved[3 + index * 2],
+        isMarketplace: 'isMarketplace' in load && load.isMarketplace === true,
+      }));
+
       setLoadMarkers(markers);
       setIsLoading(false);
     }
 
     geocodeLocations();
-  }, [originCity, originState, originZip, destinationCity, destinationState, destinationZip, assignedLoads, marketplaceLoads]);
+  }, [originCity, originState, originZip, destinationCity, destinationState, destinationZip, originCoords, destinationCoords, assignedLoads, marketplaceLoads]);
 
   // Calculate map bounds
   const bounds = useMemo(() => {
@@ -399,16 +423,11 @@ export function TripPlannerMap({
     ] as [[number, number], [number, number]];
   }, [tripOrigin, tripDestination, loadMarkers]);
 
-  // Route line coordinates - follows proper logistics order:
-  // 1. Trip origin
-  // 2. All unique pickup locations (deduplicated)
-  // 3. All delivery locations in the user's sequence order
-  // 4. Trip destination
-  const routeLine = useMemo(() => {
-    if (!tripOrigin || !tripDestination) return null;
-
-    const points: [number, number][] = [[tripOrigin.lat, tripOrigin.lng]];
-
+  // Pickup and delivery stops between the trip origin and destination.
+  // Optimized routes keep their saved stop positions; otherwise (or once the
+  // loads are dragged out of that order) every unique pickup location comes
+  // first, then deliveries in the user's sequence order.
+  const orderedStops = useMemo(() => {
     // Get assigned markers in the user's ordered sequence
     const assignedMarkersByLoadId = new Map(
       loadMarkers.filter(m => !m.isMarketplace).map(m => [m.load.id, m])
@@ -417,6 +436,35 @@ export function TripPlannerMap({
       .map(load => assignedMarkersByLoadId.get(load.id))
       .filter((m): m is LoadMarker => m !== undefined);
 
+    const stops: { name: string; coords: GeoCoordinates; type: 'pickup' | 'delivery'; position: number }[] = [];
+    const deliveryPositions = orderedMarkers.map(m => m.load.deliveryStopIndex);
+    const usesStopPositions =
+      orderedMarkers.length > 0 &&
+      orderedMarkers.every(m => m.load.deliveryStopIndex != null) &&
+      deliveryPositions.every((position, i) => i === 0 || position! > deliveryPositions[i - 1]!);
+
+    if (usesStopPositions) {
+      for (const marker of orderedMarkers) {
+        if (marker.originCoords && marker.load.pickupStopIndex != null) {
+          stops.push({
+            name: `Pickup: ${marker.load.originCity}, ${marker.load.originState}`,
+            coords: marker.originCoords,
+            type: 'pickup',
+            position: marker.load.pickupStopIndex,
+          });
+        }
+        if (marker.destinationCoords) {
+          stops.push({
+            name: `Delivery: ${marker.load.destinationCity}, ${marker.load.destinationState}`,
+            coords: marker.destinationCoords,
+            type: 'delivery',
+            position: marker.load.deliveryStopIndex!,
+          });
+        }
+      }
+      return stops.sort((a, b) => a.position - b.position);
+    }
+
     // Collect unique pickup locations (deduplicate by coordinates)
     const pickupLocations = new Map<string, { coords: GeoCoordinates; name: string }>();
     for (const marker of orderedMarkers) {
@@ -434,21 +482,34 @@ export function TripPlannerMap({
 
     // Add unique pickup locations
     for (const pickup of pickupLocations.values()) {
-      points.push([pickup.coords.lat, pickup.coords.lng]);
+      stops.push({ name: `Pickup: ${pickup.name}`, coords: pickup.coords, type: 'pickup', position: stops.length });
     }
 
-    // Add delivery locations in the user's sequence order
+    // Add deliveries in user's sequence order
     for (const marker of orderedMarkers) {
       if (marker.destinationCoords) {
-        points.push([marker.destinationCoords.lat, marker.destinationCoords.lng]);
+        stops.push({
+          name: `Delivery: ${marker.load.destinationCity}, ${marker.load.destinationState}`,
+          coords: marker.destinationCoords,
+          type: 'delivery',
+          position: stops.length,
+        });
       }
     }
 
-    // Add trip destination
-    points.push([tripDestination.lat, tripDestination.lng]);
+    return stops;
+  }, [loadMarkers, orderedAssignedLoads]);
 
-    return points;
-  }, [tripOrigin, tripDestination, loadMarkers, orderedAssignedLoads]);
+  // Route line coordinates: trip origin, pickup and delivery stops, trip destination
+  const routeLine = useMemo(() => {
+    if (!tripOrigin || !tripDestination) return null;
+
+    return [
+      [tripOrigin.lat, tripOrigin.lng],
+      ...orderedStops.map((stop) => [stop.coords.lat, stop.coords.lng]),
+      [tripDestination.lat, tripDestination.lng],
+    ] as [number, number][];
+  }, [tripOrigin, tripDestination, orderedStops]);
 
   // Calculate route segments with labels and distances
   const routeSegments = useMemo(() => {
@@ -456,55 +517,13 @@ export function TripPlannerMap({
 
     const segments: { from: string; to: string; distance: number }[] = [];
 
-    // Get assigned markers in the user's ordered sequence
-    const assignedMarkersByLoadId = new Map(
-      loadMarkers.filter(m => !m.isMarketplace).map(m => [m.load.id, m])
-    );
-    const orderedMarkers = orderedAssignedLoads
-      .map(load => assignedMarkersByLoadId.get(load.id))
-      .filter((m): m is LoadMarker => m !== undefined);
-
     // Build list of stops with proper logistics order
     const stops: { name: string; coords: { lat: number; lng: number }; type: 'origin' | 'pickup' | 'delivery' | 'destination' }[] = [
       { name: `${originCity}, ${originState}`, coords: tripOrigin, type: 'origin' },
+      ...orderedStops,
+      { name: `${destinationCity}, ${destinationState}`, coords: tripDestination, type: 'destination' },
     ];
 
-    // Collect unique pickup locations
-    const pickupLocations = new Map<string, { coords: GeoCoordinates; name: string }>();
-    for (const marker of orderedMarkers) {
-      if (marker.originCoords) {
-        const key = `${marker.originCoords.lat.toFixed(3)},${marker.originCoords.lng.toFixed(3)}`;
-        if (!pickupLocations.has(key)) {
-          pickupLocations.set(key, {
-            coords: marker.originCoords,
-            name: `${marker.load.originCity}, ${marker.load.originState}`,
-          });
-        }
-      }
-    }
-
-    // Add unique pickup locations
-    for (const pickup of pickupLocations.values()) {
-      stops.push({
-        name: `Pickup: ${pickup.name}`,
-        coords: pickup.coords,
-        type: 'pickup',
-      });
-    }
-
-    // Add deliveries in user's sequence order
-    for (const marker of orderedMarkers) {
-      if (marker.destinationCoords) {
-        stops.push({
-          name: `Delivery: ${marker.load.destinationCity}, ${marker.load.destinationState}`,
-          coords: marker.destinationCoords,
-          type: 'delivery',
-        });
-      }
-    }
-
-    stops.push({ name: `${destinationCity}, ${destinationState}`, coords: tripDestination, type: 'destination' });
-
     // Calculate distance between each stop
     for (let i = 0; i < stops.length - 1; i++) {
       const distance = calculateDistance(stops[i].coords, stops[i + 1].coords);
@@ -516,7 +535,7 @@ export function TripPlannerMap({
     }
 
     return segments;
-  }, [tripOrigin, tripDestination, loadMarkers, orderedAssignedLoads, originCity, originState, destinationCity, destinationState]);
+  }, [tripOrigin, tripDestination, orderedStops, originCity, originState, destinationCity, destinationState]);
 
   // Calculate route distance - sum of all segments
   const routeDistance = useMemo(() => {
@@ -0,0 +1,104 @@
+/**
+ * Carrier award rule types and labels, safe to import from client components
+ */
+
+export type AwardStrategy = 'manual' | 'first_partner' | 'best_after_window';
+export type AwardRankBy = 'rating' | 'price';
+
+export const AWARD_STRATEGY_LABELS: Record<AwardStrategy, string> = {
+  manual: 'Manual (pick carriers yourself)',
+  first_partner: 'First verified partner at listed rate',
+  best_after_window: 'Best request after a time window',
+};
+
+export const AWARD_RANK_LABELS: Record<AwardRankBy, string> = {
+  rating: 'Highest platform rating',
+  price: 'Lowest rate',
+};
+
+export interface CarrierAwardRule {
+  id: string;
+  company_id: string;
+  load_id: string | null;
+  strategy: AwardStrategy;
+  decision_window_hours: number | null;
+  rank_by: AwardRankBy;
+  partners_only: boolean;
+  require_fmcsa_verified: boolean;
+  require_compliance_complete: boolean;
+  // Minimum carrier scorecard (0-100); carriers without one are skipped
+  min_scorecard: number | null;
+  repost_after_hours: number | null;
+  max_reposts: number;
+  updated_at: string;
+}
+
+export interface AwardRuleInput {
+  strategy: AwardStrategy;
+  decisionWindowHours: number | null;
+  rankBy: AwardRankBy;
+  partnersOnly: boolean;
+  requireFmcsaVerified: boolean;
+  requireComplianceComplete: boolean;
+  minScorecard: number | null;
+  repostAfterHours: number | null;
+  maxReposts: number;
+}
+
+export interface AutoAwardLogEntry {
+  id: string;
+  action: 'carrier_auto_awarded' | 'auto_award_reposted';
+  reason: string | null;
+  carrier_name: string | null;
+  created_at: string;
+}
+
+export interface AwardDecision {
+  outcome: 'awarded' | 'reposted' | 'waiting' | 'skipped';
+  reason: string;
+  requestId?: string;
+}
+
+/**
+ * One-line summary of a rule, e.g. for the requests page
+ */
+export function describeAwardRule(rule: CarrierAwardRule | null): string {
+  if (!rule || rule.strategy === 'manual') {
+    const repost = rule?.repost_after_hours ? `; repost after ${rule.repost_after_hours}h without requests` : '';
+    return `Manual award${repost}`;
+  }
+
+  const parts = [
+    rule.strategy === 'first_partner'
+      ? AWARD_STRATEGY_LABELS.first_partner
+      : `${AWARD_RANK_LABELS[rule.rank_by]} after ${rule.decision_window_hours}h`,
+  ];
+  if (rule.partners_only) parts.push('partners only');
+  if (rule.require_fmcsa_verified) parts.push('FMCSA verified');
+  if (rule.require_compliance_complete) parts.push('compliance complete');
+  if (rule.min_scorecard) parts.push(`scorecard ${rule.min_scorecard}+`);
+  if (rule.repost_after_hours) {
+    parts.push(`repost after ${rule.repost_after_hours}h without requests (max ${rule.max_reposts})`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Read the rule form shared by the company default and per-load settings
+ */
+export function parseAwardRuleForm(formData: FormData): AwardRuleInput {
+  const windowHours = formData.get('decision_window_hours') as string;
+  const repostHours = formData.get('repost_after_hours') as string;
+
+  return {
+    strategy: (formData.get('strategy') as AwardStrategy) || 'manual',
+    decisionWindowHours: windowHours ? Number(windowHours) : null,
+    rankBy: (formData.get('rank_by') as AwardRankBy) || 'rating',
+    partnersOnly: formData.get('partners_only') === 'true',
+    requireFmcsaVerified: formData.get('require_fmcsa_verified') === 'true',
+    requireComplianceComplete: formData.get('require_compliance_complete') === 'true',
+    minScorecard: Number(formData.get('min_scorecard')) || null,
+    repostAfterHours: repostHours ? Number(repostHours) : null,
+    maxReposts: Number(formData.get('max_reposts') || 1),
+  };
+}
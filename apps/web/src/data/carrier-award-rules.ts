@@ -0,0 +1,645 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase-server';
+import { createServiceRoleClient } from '@/lib/supabase-admin';
+import { logAuditEvent } from '@/lib/audit';
+import { acceptLoadRequest } from '@/data/marketplace';
+import { repostLoadToMarketplace } from '@/data/company-portal';
+import { isOfferExpired } from '@/data/load-request-negotiation-shared';
+import { getCarrierScorecards } from '@/data/carrier-scorecards';
+import { meetsMinimumScore } from '@/data/carrier-scorecards-shared';
+import type {
+  AutoAwardLogEntry,
+  AwardDecision,
+  AwardRankBy,
+  AwardRuleInput,
+  CarrierAwardRule,
+} from '@/data/carrier-award-rules-shared';
+
+/**
+ * Automated carrier award rules
+ *
+ * Brokers can let posted loads award themselves. A company sets a default
+ * rule and can override it per load:
+ * - first_partner: accept the first request from an FMCSA-verified partner
+ *   that takes the listed rate, as soon as it arrives
+ * - best_after_window: once the decision window has passed, accept the best
+ *   eligible request ranked by platform rating or price
+ * Loads that nobody requests can be reposted after a number of hours.
+ *
+ * Rules are evaluated when a request is created (database trigger) and by a
+ * scheduled sweep, both through the award-rules API with the service role.
+ * Every automatic decision is written to the load's audit log with the reason.
+ */
+
+const RULE_SELECT =
+  'id, company_id, load_id, strategy, decision_window_hours, rank_by, partners_only, require_fmcsa_verified, require_compliance_complete, min_scorecard, repost_after_hours, max_reposts, updated_at';
+
+interface AwardLoad {
+  id: string;
+  owner_id: string;
+  company_id: string;
+  load_number: string | null;
+  company_rate: number | null;
+  posting_status: string | null;
+  assigned_carrier_id: string | null;
+  posted_to_marketplace_at: string | null;
+  posted_at: string | null;
+  created_at: string;
+  auto_repost_count: number | null;
+}
+
+interface AwardCandidate {
+  requestId: string;
+  carrierId: string;
+  carrierName: string;
+  isPartner: boolean;
+  fmcsaVerified: boolean;
+  rating: number | null;
+  rate: number | null;
+  atListedRate: boolean;
+  complianceComplete: boolean;
+  createdAt: string;
+  // Why the request can't be auto-awarded, if it can't
+  excludedBecause: string | null;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * The company's default rule, used for loads without their own
+ */
+export async function getCompanyAwardRule(companyId: string): Promise<CarrierAwardRule | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('carrier_award_rules')
+    .select(RULE_SELECT)
+    .eq('company_id', companyId)
+    .is('load_id', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch award rule: ${error.message}`);
+  }
+
+  return (data as CarrierAwardRule | null) ?? null;
+}
+
+/**
+ * A load's own rule, overriding the company default
+ */
+export async function getLoadAwardRule(loadId: string): Promise<CarrierAwardRule | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('carrier_award_rules')
+    .select(RULE_SELECT)
+    .eq('load_id', loadId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch award rule: ${error.message}`);
+  }
+
+  return (data as CarrierAwardRule | null) ?? null;
+}
+
+/**
+ * Automatic decisions taken on a load, newest first
+ */
+export async function getAutoAwardLog(loadId: string): Promise<AutoAwardLogEntry[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select('id, action, metadata, created_at')
+    .eq('entity_type', 'load')
+    .eq('entity_id', loadId)
+    .in('action', ['carrier_auto_awarded', 'auto_award_reposted'])
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    throw new Error(`Failed to fetch auto-award log: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const metadata = (row.metadata || {}) as { reason?: string; carrier_name?: string };
+    return {
+      id: row.id,
+      action: row.action as AutoAwardLogEntry['action'],
+      reason: metadata.reason ?? null,
+      carrier_name: metadata.carrier_name ?? null,
+      created_at: row.created_at,
+    };
+  });
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Create or replace the company default rule (loadId null) or a load's rule
+ */
+export async function saveAwardRule(
+  ownerId: string,
+  companyId: string,
+  loadId: string | null,
+  input: AwardRuleInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (input.strategy === 'best_after_window' && !(input.decisionWindowHours && input.decisionWindowHours > 0)) {
+    return { success: false, error: 'Set how many hours to wait before picking the best request' };
+  }
+  if (input.repostAfterHours !== null && !(input.repostAfterHours > 0)) {
+    return { success: false, error: 'Repost delay must be at least one hour' };
+  }
+  if (!(input.maxReposts >= 0)) {
+    return { success: false, error: 'Max reposts cannot be negative' };
+  }
+
+  const supabase = await createClient();
+
+  if (loadId) {
+    const { data: load } = await supabase
+      .from('loads')
+      .select('id')
+      .eq('id', loadId)
+      .eq('company_id', companyId)
+      .maybeSingle();
+
+    if (!load) {
+      return { success: false, error: 'Load not found' };
+    }
+  }
+
+  const payload = {
+    company_id: companyId,
+    owner_id: ownerId,
+    load_id: loadId,
+    strategy: input.strategy,
+    decision_window_hours: input.strategy === 'best_after_window' ? input.decisionWindowHours : null,
+    rank_by: input.rankBy,
+    partners_only: input.partnersOnly,
+    require_fmcsa_verified: input.requireFmcsaVerified,
+    require_compliance_complete: input.requireComplianceComplete,
+    min_scorecard: input.minScorecard,
+    repost_after_hours: input.repostAfterHours,
+    max_reposts: input.maxReposts,
+  };
+
+  let existingQuery = supabase.from('carrier_award_rules').select('id').eq('company_id', companyId);
+  existingQuery = loadId ? existingQuery.eq('load_id', loadId) : existingQuery.is('load_id', null);
+  const { data: existing } = await existingQuery.maybeSingle();
+
+  if (existing) {
+    const { error } = await supabase.from('carrier_award_rules').update(payload).eq('id', existing.id);
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, id: existing.id };
+  }
+
+  const { data, error } = await supabase.from('carrier_award_rules').insert(payload).select('id').single();
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, id: data.id };
+}
+
+/**
+ * Drop a load's own rule so the company default applies again
+ */
+export async function deleteLoadAwardRule(
+  companyId: string,
+  loadId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('carrier_award_rules')
+    .delete()
+    .eq('company_id', companyId)
+    .eq('load_id', loadId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Apply the load's award rule now: award a carrier, repost the load, or wait.
+ * Runs with the service role; callers authenticate the scheduler or trigger.
+ */
+export async function evaluateLoadAward(
+  loadId: string
+): Promise<{ success: boolean; decision?: AwardDecision; error?: string }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: loadRow, error: loadError } = await supabase
+    .from('loads')
+    .select(
+      'id, owner_id, company_id, load_number, company_rate, posting_status, assigned_carrier_id, posted_to_marketplace_at, posted_at, created_at, auto_repost_count'
+    )
+    .eq('id', loadId)
+    .maybeSingle();
+
+  if (loadError) {
+    return { success: false, error: loadError.message };
+  }
+  if (!loadRow) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  const load = loadRow as AwardLoad;
+  if (load.assigned_carrier_id || load.posting_status !== 'posted') {
+    return { success: true, decision: { outcome: 'skipped', reason: 'Load is not open on the marketplace' } };
+  }
+
+  const rule = await resolveAwardRule(supabase, load);
+  if (!rule) {
+    return { success: true, decision: { outcome: 'skipped', reason: 'No award rule' } };
+  }
+
+  const candidates = await getAwardCandidates(supabase, load, rule);
+  const postedAt = new Date(load.posted_to_marketplace_at || load.posted_at || load.created_at);
+  const hoursPosted = (Date.now() - postedAt.getTime()) / (60 * 60 * 1000);
+
+  let decision: AwardDecision = { outcome: 'waiting', reason: 'Waiting for requests' };
+
+  if (rule.strategy === 'first_partner') {
+    const winner = candidates.find((candidate) => !candidate.excludedBecause);
+    if (winner) {
+      decision = {
+        outcome: 'awarded',
+        requestId: winner.requestId,
+        reason: `${winner.carrierName} was the first FMCSA-verified partner to request the load at the listed rate${
+          winner.rate !== null ? ` ($${winner.rate.toFixed(2)}/cf)` : ''
+        }${describeFilters(rule)}`,
+      };
+    }
+  } else if (rule.strategy === 'best_after_window' && rule.decision_window_hours) {
+    if (hoursPosted < rule.decision_window_hours) {
+      decision = {
+        outcome: 'waiting',
+        reason: `Decision window closes ${rule.decision_window_hours}h after posting`,
+      };
+    } else {
+      const eligible = rankCandidates(
+        candidates.filter((candidate) => !candidate.excludedBecause),
+        rule.rank_by
+      );
+      const winner = eligible[0];
+      if (winner) {
+        const basis =
+          rule.rank_by === 'rating'
+            ? `highest platform rating (${winner.rating !== null ? winner.rating.toFixed(1) : 'unrated'})`
+            : `lowest rate (${winner.rate !== null ? `$${winner.rate.toFixed(2)}/cf` : 'listed rate'})`;
+        decision = {
+          outcome: 'awarded',
+          requestId: winner.requestId,
+          reason: `${winner.carrierName} had the ${basis} of ${eligible.length} eligible request${
+            eligible.length === 1 ? '' : 's'
+          } after the ${rule.decision_window_hours}h window${describeFilters(rule)}`,
+        };
+      }
+    }
+  }
+
+  if (decision.outcome === 'awarded' && decision.requestId) {
+    const winner = candidates.find((candidate) => candidate.requestId === decision.requestId)!;
+    const result = await acceptLoadRequest(
+      winner.requestId,
+      load.owner_id,
+      `Automatically awarded: ${decision.reason}`,
+      supabase
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    logAuditEvent(supabase, {
+      entityType: 'load',
+      entityId: load.id,
+      action: 'carrier_auto_awarded',
+      performedByUserId: load.owner_id,
+      performedByCompanyId: load.company_id,
+      source: 'system',
+      visibility: 'internal',
+      newValue: { assigned_carrier_id: winner.carrierId, carrier_rate: winner.rate },
+      metadata: {
+        reason: decision.reason,
+        rule_id: rule.id,
+        rule_scope: rule.load_id ? 'load' : 'company',
+        strategy: rule.strategy,
+        rank_by: rule.rank_by,
+        request_id: winner.requestId,
+        carrier_id: winner.carrierId,
+        carrier_name: winner.carrierName,
+        load_number: load.load_number,
+        candidates: candidates.map((candidate) => ({
+          carrier_name: candidate.carrierName,
+          rate: candidate.rate,
+          rating: candidate.rating,
+          excluded_because: candidate.excludedBecause,
+        })),
+      },
+    });
+
+    return { success: true, decision };
+  }
+
+  // Nobody has requested the load: repost it if the rule allows
+  if (
+    candidates.length === 0 &&
+    rule.repost_after_hours &&
+    hoursPosted >= rule.repost_after_hours &&
+    (load.auto_repost_count ?? 0) < rule.max_reposts
+  ) {
+    const reposted = await repostUnrequestedLoad(supabase, load);
+    if (!reposted.success) {
+      return { success: false, error: reposted.error };
+    }
+
+    decision = {
+      outcome: 'reposted',
+      reason: `No requests ${rule.repost_after_hours}h after posting; repost ${(load.auto_repost_count ?? 0) + 1} of ${
+        rule.max_reposts
+      }`,
+    };
+
+    logAuditEvent(supabase, {
+      entityType: 'load',
+      entityId: load.id,
+      action: 'auto_award_reposted',
+      performedByUserId: load.owner_id,
+      performedByCompanyId: load.company_id,
+      source: 'system',
+      visibility: 'internal',
+      metadata: {
+        reason: decision.reason,
+        rule_id: rule.id,
+        rule_scope: rule.load_id ? 'load' : 'company',
+        load_number: load.load_number,
+      },
+    });
+  }
+
+  return { success: true, decision };
+}
+
+/**
+ * Scheduled sweep: evaluate every open load of companies with award rules
+ */
+export async function runAwardRules(): Promise<{
+  success: boolean;
+  evaluated?: number;
+  awarded?: number;
+  reposted?: number;
+  error?: string;
+}> {
+  const supabase = createServiceRoleClient();
+
+  const { data: rules, error: rulesError } = await supabase.from('carrier_award_rules').select('company_id');
+  if (rulesError) {
+    return { success: false, error: rulesError.message };
+  }
+
+  const companyIds = [...new Set((rules || []).map((rule) => rule.company_id as string))];
+  if (companyIds.length === 0) {
+    return { success: true, evaluated: 0, awarded: 0, reposted: 0 };
+  }
+
+  const { data: loads, error: loadsError } = await supabase
+    .from('loads')
+    .select('id')
+    .in('company_id', companyIds)
+    .eq('posting_status', 'posted')
+    .is('assigned_carrier_id', null);
+
+  if (loadsError) {
+    return { success: false, error: loadsError.message };
+  }
+
+  let awarded = 0;
+  let reposted = 0;
+  for (const load of loads || []) {
+    const result = await evaluateLoadAward(load.id);
+    if (!result.success) {
+      console.error('[AwardRules] Evaluation failed:', load.id, result.error);
+      continue;
+    }
+    if (result.decision?.outcome === 'awarded') awarded++;
+    if (result.decision?.outcome === 'reposted') reposted++;
+  }
+
+  return { success: true, evaluated: loads?.length || 0, awarded, reposted };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function resolveAwardRule(supabase: SupabaseClient, load: AwardLoad): Promise<CarrierAwardRule | null> {
+  const { data } = await supabase
+    .from('carrier_award_rules')
+    .select(RULE_SELECT)
+    .eq('company_id', load.company_id)
+    .or(`load_id.eq.${load.id},load_id.is.null`);
+
+  const rules = (data || []) as CarrierAwardRule[];
+  return rules.find((rule) => rule.load_id === load.id) || rules.find((rule) => rule.load_id === null) || null;
+}
+
+/**
+ * Pending requests with what the rule needs to judge them, oldest first
+ */
+async function getAwardCandidates(
+  supabase: SupabaseClient,
+  load: AwardLoad,
+  rule: CarrierAwardRule
+): Promise<AwardCandidate[]> {
+  const { data: requests } = await supabase
+    .from('load_requests')
+    .select(
+      `
+      id, carrier_id, is_partner, partnership_id, request_type, accepted_company_rate,
+      offered_rate, counter_offer_rate, agreed_rate, awaiting_response_from, created_at,
+      carrier:companies!load_requests_carrier_id_fkey(name, fmcsa_verified, platform_rating)
+    `
+    )
+    .eq('load_id', load.id)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (!requests || requests.length === 0) return [];
+
+  const { data: openOffers } = await supabase
+    .from('load_request_offers')
+    .select('request_id, offered_by, rate, status, expires_at')
+    .in('request_id', requests.map((request) => request.id))
+    .eq('status', 'open');
+
+  const offerByRequest = new Map((openOffers || []).map((offer) => [offer.request_id as string, offer]));
+
+  const partnershipIds = requests
+    .map((request) => request.partnership_id as string | null)
+    .filter((id): id is string => !!id);
+  const incompletePartnerships = rule.require_compliance_complete
+    ? await getIncompletePartnerships(supabase, partnershipIds)
+    : new Set<string>();
+  const scorecards = rule.min_scorecard
+    ? await getCarrierScorecards(requests.map((request) => request.carrier_id as string), supabase)
+    : {};
+
+  return requests.map((request) => {
+    const carrier = (Array.isArray(request.carrier) ? request.carrier[0] : request.carrier) as {
+      name: string;
+      fmcsa_verified: boolean | null;
+      platform_rating: number | string | null;
+    } | null;
+    const openOffer = offerByRequest.get(request.id);
+    const negotiated = request.agreed_rate !== null || !!openOffer;
+    const atListedRate = !negotiated && request.accepted_company_rate;
+
+    // Same precedence as acceptLoadRequest: counter-offer requests carry their
+    // rate in counter_offer_rate, not offered_rate
+    const rate =
+      request.agreed_rate !== null
+        ? Number(request.agreed_rate)
+        : openOffer?.offered_by === 'carrier'
+          ? Number(openOffer.rate)
+          : atListedRate
+            ? load.company_rate
+            : (request.counter_offer_rate ?? request.offered_rate) !== null
+              ? Number(request.counter_offer_rate ?? request.offered_rate)
+              : null;
+
+    const candidate: AwardCandidate = {
+      requestId: request.id,
+      carrierId: request.carrier_id,
+      carrierName: carrier?.name || 'Carrier',
+      isPartner: !!request.is_partner,
+      fmcsaVerified: !!carrier?.fmcsa_verified,
+      rating: carrier?.platform_rating !== null && carrier?.platform_rating !== undefined ? Number(carrier.platform_rating) : null,
+      rate,
+      atListedRate,
+      complianceComplete: !!request.partnership_id && !incompletePartnerships.has(request.partnership_id),
+      createdAt: request.created_at,
+      excludedBecause: null,
+    };
+
+    if (request.awaiting_response_from === 'carrier') {
+      candidate.excludedBecause = 'waiting on the carrier to answer a counter offer';
+    } else if (openOffer?.offered_by === 'carrier' && isOfferExpired(openOffer)) {
+      candidate.excludedBecause = "carrier's offer expired";
+    } else if ((rule.partners_only || rule.strategy === 'first_partner') && !candidate.isPartner) {
+      candidate.excludedBecause = 'not a partner';
+    } else if ((rule.require_fmcsa_verified || rule.strategy === 'first_partner') && !candidate.fmcsaVerified) {
+      candidate.excludedBecause = 'not FMCSA verified';
+    } else if (rule.require_compliance_complete && !candidate.complianceComplete) {
+      candidate.excludedBecause = 'compliance documents incomplete';
+    } else if (!meetsMinimumScore(scorecards[candidate.carrierId], rule.min_scorecard)) {
+      const score = scorecards[candidate.carrierId]?.score;
+      candidate.excludedBecause =
+        score != null ? `scorecard ${score} below ${rule.min_scorecard}` : 'no scorecard history yet';
+    } else if (rule.strategy === 'first_partner' && !candidate.atListedRate) {
+      candidate.excludedBecause = 'did not accept the listed rate';
+    }
+
+    return candidate;
+  });
+}
+
+/**
+ * Partnerships with compliance documents missing, rejected or expired
+ */
+async function getIncompletePartnerships(supabase: SupabaseClient, partnershipIds: string[]): Promise<Set<string>> {
+  if (partnershipIds.length === 0) return new Set();
+
+  const { data } = await supabase
+    .from('compliance_requests')
+    .select('partnership_id, status, document_expiry_date')
+    .in('partnership_id', partnershipIds);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const incomplete = new Set<string>();
+  for (const request of data || []) {
+    const expired = !!request.document_expiry_date && request.document_expiry_date < today;
+    if (request.status !== 'approved' || expired) {
+      incomplete.add(request.partnership_id as string);
+    }
+  }
+  return incomplete;
+}
+
+function rankCandidates(candidates: AwardCandidate[], rankBy: AwardRankBy): AwardCandidate[] {
+  const byRating = (a: AwardCandidate, b: AwardCandidate) => (b.rating ?? -1) - (a.rating ?? -1);
+  const byRate = (a: AwardCandidate, b: AwardCandidate) =>
+    (a.rate ?? Number.POSITIVE_INFINITY) - (b.rate ?? Number.POSITIVE_INFINITY);
+  const byTime = (a: AwardCandidate, b: AwardCandidate) => a.createdAt.localeCompare(b.createdAt);
+
+  return [...candidates].sort((a, b) =>
+    rankBy === 'rating'
+      ? byRating(a, b) || byRate(a, b) || byTime(a, b)
+      : byRate(a, b) || byRating(a, b) || byTime(a, b)
+  );
+}
+
+function describeFilters(rule: CarrierAwardRule): string {
+  const filters = [
+    rule.partners_only && rule.strategy !== 'first_partner' ? 'partners only' : null,
+    rule.require_fmcsa_verified && rule.strategy !== 'first_partner' ? 'FMCSA verified' : null,
+    rule.require_compliance_complete ? 'compliance complete' : null,
+    rule.min_scorecard ? `scorecard ${rule.min_scorecard}+` : null,
+  ].filter(Boolean);
+
+  return filters.length > 0 ? ` (required: ${filters.join(', ')})` : '';
+}
+
+/**
+ * Take the load down and repost it so it returns to the top of the board
+ */
+async function repostUnrequestedLoad(
+  supabase: SupabaseClient,
+  load: AwardLoad
+): Promise<{ success: boolean; error?: string }> {
+  const { error: unpublishError } = await supabase
+    .from('loads')
+    .update({ posting_status: 'draft', marketplace_listed: false })
+    .eq('id', load.id);
+
+  if (unpublishError) {
+    return { success: false, error: unpublishError.message };
+  }
+
+  const result = await repostLoadToMarketplace(load.id, load.owner_id, supabase);
+  if (!result.success) {
+    return result;
+  }
+
+  const { error } = await supabase
+    .from('loads')
+    .update({
+      is_marketplace_visible: true,
+      posted_to_marketplace_at: new Date().toISOString(),
+      auto_repost_count: (load.auto_repost_count ?? 0) + 1,
+    })
+    .eq('id', load.id);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
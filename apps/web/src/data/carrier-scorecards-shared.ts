@@ -0,0 +1,150 @@
+/**
+ * Carrier scorecard types and scoring, safe to import from client components
+ *
+ * get_carrier_scorecards returns raw counts for the last 12 months; this turns
+ * them into rates and a 0-100 score. Each factor is scored 0-1 and weighted;
+ * factors without data (e.g. no timed deliveries yet) are left out and the
+ * remaining weights scaled up.
+ */
+
+export interface CarrierScorecardCounts {
+  carrier_id: string;
+  loads_hauled: number;
+  pickups_measured: number;
+  pickups_on_time: number;
+  deliveries_measured: number;
+  deliveries_on_time: number;
+  loads_given_back: number;
+  loads_canceled: number;
+  balance_disputes: number;
+  cargo_claims: number;
+  damaged_loads: number;
+  responses_measured: number;
+  avg_response_minutes: number | null;
+  rating_average: number | null;
+  rating_count: number;
+}
+
+export interface CarrierScorecard extends CarrierScorecardCounts {
+  // Loads the carrier took on: hauled plus given back or canceled for fault
+  loads_accepted: number;
+  on_time_pickup_rate: number | null;
+  on_time_delivery_rate: number | null;
+  give_back_rate: number | null;
+  cancellation_rate: number | null;
+  dispute_rate: number | null;
+  damage_rate: number | null;
+  // Null until the carrier has MIN_SCORECARD_LOADS of history
+  score: number | null;
+  grade: ScorecardGrade | null;
+}
+
+export type ScorecardGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export const MIN_SCORECARD_LOADS = 3;
+
+export const SCORECARD_GRADE_CLASSES: Record<ScorecardGrade, string> = {
+  A: 'bg-green-500/20 text-green-500',
+  B: 'bg-lime-500/20 text-lime-500',
+  C: 'bg-yellow-500/20 text-yellow-500',
+  D: 'bg-orange-500/20 text-orange-500',
+  F: 'bg-red-500/20 text-red-400',
+};
+
+// Minimum score choices for filters and award rules
+export const SCORECARD_MIN_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 90, label: 'A (90+)' },
+  { value: 80, label: 'B or better (80+)' },
+  { value: 70, label: 'C or better (70+)' },
+  { value: 60, label: 'D or better (60+)' },
+];
+
+const WEIGHTS = {
+  pickup: 15,
+  delivery: 25,
+  reliability: 20,
+  damage: 15,
+  disputes: 10,
+  response: 15,
+};
+
+export function buildScorecard(counts: CarrierScorecardCounts): CarrierScorecard {
+  const loadsAccepted = counts.loads_hauled + counts.loads_given_back + counts.loads_canceled;
+  const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+  const scorecard: CarrierScorecard = {
+    ...counts,
+    loads_accepted: loadsAccepted,
+    on_time_pickup_rate: ratio(counts.pickups_on_time, counts.pickups_measured),
+    on_time_delivery_rate: ratio(counts.deliveries_on_time, counts.deliveries_measured),
+    give_back_rate: ratio(counts.loads_given_back, loadsAccepted),
+    cancellation_rate: ratio(counts.loads_canceled, loadsAccepted),
+    dispute_rate: ratio(counts.balance_disputes, counts.loads_hauled),
+    damage_rate: ratio(counts.damaged_loads, counts.loads_hauled),
+    score: null,
+    grade: null,
+  };
+
+  if (loadsAccepted < MIN_SCORECARD_LOADS) {
+    return scorecard;
+  }
+
+  // A 10% give-back/cancel rate or a 20% damage/dispute rate scores zero
+  const factors: Array<[number, number | null]> = [
+    [WEIGHTS.pickup, scorecard.on_time_pickup_rate],
+    [WEIGHTS.delivery, scorecard.on_time_delivery_rate],
+    [
+      WEIGHTS.reliability,
+      1 - Math.min(1, ((scorecard.give_back_rate ?? 0) + (scorecard.cancellation_rate ?? 0)) * 10),
+    ],
+    [WEIGHTS.damage, scorecard.damage_rate !== null ? 1 - Math.min(1, scorecard.damage_rate * 5) : null],
+    [WEIGHTS.disputes, scorecard.dispute_rate !== null ? 1 - Math.min(1, scorecard.dispute_rate * 5) : null],
+    [WEIGHTS.response, responseFactor(counts.avg_response_minutes)],
+  ];
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [weight, value] of factors) {
+    if (value === null) continue;
+    weighted += weight * value;
+    totalWeight += weight;
+  }
+
+  scorecard.score = Math.round((weighted / totalWeight) * 100);
+  scorecard.grade = scoreToGrade(scorecard.score);
+  return scorecard;
+}
+
+export function scoreToGrade(score: number): ScorecardGrade {
+  if (score >= 90) return 'A';
+  if (score >= 80) return 'B';
+  if (score >= 70) return 'C';
+  if (score >= 60) return 'D';
+  return 'F';
+}
+
+/**
+ * Whether the carrier meets a minimum score; carriers without enough history don't
+ */
+export function meetsMinimumScore(scorecard: CarrierScorecard | undefined, minScore: number | null): boolean {
+  if (!minScore) return true;
+  return scorecard?.score != null && scorecard.score >= minScore;
+}
+
+export function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export function formatResponseTime(minutes: number | null): string {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 6) / 10} h`;
+  return `${Math.round(minutes / (24 * 60))} days`;
+}
+
+// Within 30 minutes is full marks; a day or more is zero
+function responseFactor(minutes: number | null): number | null {
+  if (minutes === null) return null;
+  if (minutes <= 30) return 1;
+  return Math.max(0, 1 - (minutes - 30) / (24 * 60 - 30));
+}
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase-server';
+import {
+  buildScorecard,
+  type CarrierScorecard,
+  type CarrierScorecardCounts,
+} from '@/data/carrier-scorecards-shared';
+
+/**
+ * Carrier scorecards
+ *
+ * Performance history per carrier company over the last 12 months, computed
+ * by get_carrier_scorecards from loads the carrier hauled, cancellations,
+ * balance disputes, cargo claims, damage photos, messages and ratings.
+ */
+
+type ScorecardRow = Record<Exclude<keyof CarrierScorecardCounts, 'carrier_id'>, number | string | null> & {
+  carrier_id: string;
+};
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Scorecards keyed by carrier company id. Award rules run without a session
+ * and pass a service role client.
+ */
+export async function getCarrierScorecards(
+  carrierIds: string[],
+  client?: SupabaseClient
+): Promise<Record<string, CarrierScorecard>> {
+  const ids = [...new Set(carrierIds.filter(Boolean))];
+  if (ids.length === 0) return {};
+  const supabase = client ?? (await createClient());
+
+  const { data, error } = await supabase.rpc('get_carrier_scorecards', { p_carrier_ids: ids });
+
+  if (error) {
+    throw new Error(`Failed to fetch carrier scorecards: ${error.message}`);
+  }
+
+  const scorecards: Record<string, CarrierScorecard> = {};
+  for (const row of (data || []) as ScorecardRow[]) {
+    scorecards[row.carrier_id] = buildScorecard(toCounts(row));
+  }
+  return scorecards;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Postgres NUMERIC columns arrive as strings
+function toCounts(row: ScorecardRow): CarrierScorecardCounts {
+  const count = (value: number | string | null) => Number(value ?? 0);
+  const optional = (value: number | string | null) => (value === null ? null : Number(value));
+
+  return {
+    carrier_id: row.carrier_id,
+    loads_hauled: count(row.loads_hauled),
+    pickups_measured: count(row.pickups_measured),
+    pickups_on_time: count(row.pickups_on_time),
+    deliveries_measured: count(row.deliveries_measured),
+    deliveries_on_time: count(row.deliveries_on_time),
+    loads_given_back: count(row.loads_given_back),
+    loads_canceled: count(row.loads_canceled),
+    balance_disputes: count(row.balance_disputes),
+    cargo_claims: count(row.cargo_claims),
+    damaged_loads: count(row.damaged_loads),
+    responses_measured: count(row.responses_measured),
+    avg_response_minutes: optional(row.avg_response_minutes),
+    rating_average: optional(row.rating_average),
+    rating_count: count(row.rating_count),
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Cargo claim types, labels and deadline rules shared by server data functions and client components
+ */
+
+export type ClaimStatus = 'filed' | 'acknowledged' | 'under_review' | 'offered' | 'settled' | 'denied' | 'closed';
+
+export type ClaimType = 'damage' | 'loss' | 'shortage' | 'other';
+
+export type ClaimantType = 'customer' | 'partner' | 'other';
+
+export type ClaimLiability = 'carrier' | 'driver_chargeback' | 'insurance';
+
+export type ClaimEventType = ClaimStatus | 'note';
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  filed: 'Filed',
+  acknowledged: 'Acknowledged',
+  under_review: 'Under Review',
+  offered: 'Offer Made',
+  settled: 'Settled',
+  denied: 'Denied',
+  closed: 'Closed',
+};
+
+export const CLAIM_TYPE_LABELS: Record<ClaimType, string> = {
+  damage: 'Damage',
+  loss: 'Loss',
+  shortage: 'Shortage',
+  other: 'Other',
+};
+
+export const CLAIMANT_TYPE_LABELS: Record<ClaimantType, string> = {
+  customer: 'Customer',
+  partner: 'Partner company',
+  other: 'Other',
+};
+
+export const CLAIM_LIABILITY_LABELS: Record<ClaimLiability, string> = {
+  carrier: 'Carrier (absorbed)',
+  driver_chargeback: 'Driver chargeback',
+  insurance: 'Insurance',
+};
+
+export const CLAIM_EVENT_LABELS: Record<ClaimEventType, string> = {
+  ...CLAIM_STATUS_LABELS,
+  note: 'Note',
+};
+
+// Written acknowledgment within 30 days of receipt, disposition within 120 days
+export const CLAIM_ACKNOWLEDGE_DAYS = 30;
+export const CLAIM_RESOLVE_DAYS = 120;
+
+export const OPEN_CLAIM_STATUSES: ClaimStatus[] = ['filed', 'acknowledged', 'under_review', 'offered'];
+
+/**
+ * Statuses a claim can move to from its current status with a plain status change.
+ * Settling goes through settleCargoClaim because it records amounts and liability.
+ */
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  filed: ['acknowledged', 'denied'],
+  acknowledged: ['under_review', 'denied'],
+  under_review: ['denied'],
+  offered: ['under_review', 'denied'],
+  settled: ['closed'],
+  denied: ['closed'],
+  closed: [],
+};
+
+export interface CargoClaim {
+  id: string;
+  claim_number: string;
+  load_id: string;
+  load_number: string | null;
+  trip_id: string | null;
+  driver_id: string | null;
+  driver_name: string | null;
+  claim_type: ClaimType;
+  claimant_type: ClaimantType;
+  claimant_name: string;
+  claimant_company_id: string | null;
+  description: string | null;
+  status: ClaimStatus;
+  claimed_amount: number;
+  offered_amount: number | null;
+  settled_amount: number | null;
+  liability: ClaimLiability | null;
+  chargeback_amount: number;
+  driver_deduction_id: string | null;
+  insurance_claim_number: string | null;
+  filed_on: string;
+  acknowledge_by: string;
+  resolve_by: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface CargoClaimItem {
+  id: string;
+  inventory_item_id: string | null;
+  photo_id: string | null;
+  description: string;
+  claimed_amount: number | null;
+  tag_number: string | null;
+  photo_url: string | null;
+}
+
+export interface CargoClaimEvent {
+  id: string;
+  event_type: ClaimEventType;
+  amount: number | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface CargoClaimWithDetails extends CargoClaim {
+  items: CargoClaimItem[];
+  events: CargoClaimEvent[];
+}
+
+export type ClaimDeadlineState = 'ok' | 'due_soon' | 'overdue' | 'met';
+
+export interface ClaimDeadlines {
+  acknowledge: ClaimDeadlineState;
+  resolve: ClaimDeadlineState;
+}
+
+export function isClaimOpen(status: ClaimStatus): boolean {
+  return OPEN_CLAIM_STATUSES.includes(status);
+}
+
+/**
+ * Acknowledge-by and resolve-by dates for a claim filed on the given date
+ */
+export function getClaimDueDates(filedOn: string): { acknowledge_by: string; resolve_by: string } {
+  return {
+    acknowledge_by: addDays(filedOn, CLAIM_ACKNOWLEDGE_DAYS),
+    resolve_by: addDays(filedOn, CLAIM_RESOLVE_DAYS),
+  };
+}
+
+/**
+ * Where a claim stands against its acknowledge and resolve deadlines.
+ * A deadline is due soon inside the last 7 days (acknowledge) or 14 days (resolve).
+ */
+export function getClaimDeadlines(
+  claim: Pick<CargoClaim, 'status' | 'acknowledge_by' | 'resolve_by' | 'acknowledged_at' | 'resolved_at'>,
+  today: string
+): ClaimDeadlines {
+  const stateFor = (dueDate: string, metAt: string | null, warnDays: number): ClaimDeadlineState => {
+    if (metAt) return 'met';
+    if (today > dueDate) return 'overdue';
+    if (addDays(today, warnDays) >= dueDate) return 'due_soon';
+    return 'ok';
+  };
+
+  const resolvedAt = isClaimOpen(claim.status) ? null : claim.resolved_at || claim.acknowledged_at || today;
+
+  return {
+    acknowledge: stateFor(claim.acknowledge_by, claim.acknowledged_at || resolvedAt, 7),
+    resolve: stateFor(claim.resolve_by, resolvedAt, 14),
+  };
+}
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date.split('T')[0]}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().split('T')[0];
+}
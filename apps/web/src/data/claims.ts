@@ -0,0 +1,915 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase-server';
+import { logAuditEvent } from '@/lib/audit';
+import { recordLoadEventMessage } from '@/lib/messaging';
+import { createDriverDeduction } from '@/data/driver-statements';
+import { getLoadInventory } from '@/data/load-inventory';
+import type { LoadInventoryItem } from '@/data/load-inventory-shared';
+import {
+  CLAIM_LIABILITY_LABELS,
+  CLAIM_STATUS_LABELS,
+  CLAIM_STATUS_TRANSITIONS,
+  CLAIM_TYPE_LABELS,
+  CLAIMANT_TYPE_LABELS,
+  getClaimDeadlines,
+  getClaimDueDates,
+  isClaimOpen,
+  type CargoClaim,
+  type CargoClaimEvent,
+  type CargoClaimItem,
+  type CargoClaimWithDetails,
+  type ClaimantType,
+  type ClaimEventType,
+  type ClaimLiability,
+  type ClaimStatus,
+  type ClaimType,
+} from '@/data/claims-shared';
+
+/**
+ * Cargo Claims - damage and loss claims filed against a load
+ *
+ * Claim lifecycle:
+ * 1. filed        - received from the customer or partner; acknowledge_by/resolve_by are set
+ * 2. acknowledged - written acknowledgment sent (due within 30 days of filing)
+ * 3. under_review - inspection, estimates, inventory review
+ * 4. offered      - compromise offer made to the claimant
+ * 5. settled / denied - disposition (due within 120 days of filing)
+ * 6. closed
+ *
+ * A settlement records who bears the cost. A driver chargeback can be taken on the
+ * driver's next statement as a one-time claim_chargeback driver deduction. Claim
+ * events are posted to the load's conversations so the partner company sees them.
+ */
+
+export interface ClaimableLoad {
+  id: string;
+  load_number: string | null;
+  pickup_city: string | null;
+  pickup_state: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  customer_name: string | null;
+  company_id: string | null;
+  company_name: string | null;
+  trip_id: string | null;
+  driver_id: string | null;
+  driver_name: string | null;
+}
+
+export interface ClaimableLoadDetails extends ClaimableLoad {
+  inventory: LoadInventoryItem[];
+  damage_photos: { id: string; file_url: string; caption: string | null; created_at: string }[];
+}
+
+type Related<T> = T | T[] | null;
+
+function one<T>(value: Related<T> | undefined): T | null {
+  return Array.isArray(value) ? value[0] || null : value || null;
+}
+
+interface ClaimRow {
+  id: string;
+  claim_number: string;
+  load_id: string;
+  trip_id: string | null;
+  driver_id: string | null;
+  claim_type: ClaimType;
+  claimant_type: ClaimantType;
+  claimant_name: string;
+  claimant_company_id: string | null;
+  description: string | null;
+  status: ClaimStatus;
+  claimed_amount: number;
+  offered_amount: number | null;
+  settled_amount: number | null;
+  liability: ClaimLiability | null;
+  chargeback_amount: number;
+  driver_deduction_id: string | null;
+  insurance_claim_number: string | null;
+  filed_on: string;
+  acknowledge_by: string;
+  resolve_by: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  load: Related<{ load_number: string | null }>;
+  driver: Related<{ first_name: string; last_name: string | null }>;
+}
+
+interface ClaimItemRow {
+  id: string;
+  inventory_item_id: string | null;
+  photo_id: string | null;
+  description: string;
+  claimed_amount: number | null;
+  inventory_item: Related<{ tag_number: string }>;
+  photo: Related<{ file_url: string }>;
+}
+
+interface ClaimableLoadRow {
+  id: string;
+  load_number: string | null;
+  pickup_city: string | null;
+  pickup_state: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  customer_name: string | null;
+  company_id: string | null;
+  trip_id: string | null;
+  assigned_driver_id: string | null;
+  company: Related<{ name: string }>;
+  assigned_driver: Related<{ first_name: string; last_name: string | null }>;
+}
+
+const CLAIM_SELECT = `
+  id,
+  claim_number,
+  load_id,
+  trip_id,
+  driver_id,
+  claim_type,
+  claimant_type,
+  claimant_name,
+  claimant_company_id,
+  description,
+  status,
+  claimed_amount,
+  offered_amount,
+  settled_amount,
+  liability,
+  chargeback_amount,
+  driver_deduction_id,
+  insurance_claim_number,
+  filed_on,
+  acknowledge_by,
+  resolve_by,
+  acknowledged_at,
+  resolved_at,
+  created_at,
+  load:loads(load_number),
+  driver:drivers(first_name, last_name)
+`;
+
+const CLAIMABLE_LOAD_SELECT = `
+  id,
+  load_number,
+  pickup_city,
+  pickup_state,
+  delivery_city,
+  delivery_state,
+  customer_name,
+  company_id,
+  trip_id,
+  assigned_driver_id,
+  company:companies!loads_company_id_fkey(name),
+  assigned_driver:drivers!loads_assigned_driver_id_fkey(first_name, last_name)
+`;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listCargoClaims(params: {
+  ownerId: string;
+  status?: ClaimStatus;
+  loadId?: string;
+}): Promise<CargoClaim[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('cargo_claims')
+    .select(CLAIM_SELECT)
+    .eq('owner_id', params.ownerId)
+    .order('filed_on', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (params.status) {
+    query = query.eq('status', params.status);
+  }
+  if (params.loadId) {
+    query = query.eq('load_id', params.loadId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch cargo claims: ${error.message}`);
+  }
+
+  return ((data || []) as ClaimRow[]).map(mapClaim);
+}
+
+/**
+ * Claims on a single load, for the load detail page
+ */
+export async function getClaimsForLoad(loadId: string, userId: string): Promise<CargoClaim[]> {
+  try {
+    return await listCargoClaims({ ownerId: userId, loadId });
+  } catch (err) {
+    console.error('Error fetching load claims:', err);
+    return [];
+  }
+}
+
+export async function getCargoClaimById(id: string, userId: string): Promise<CargoClaimWithDetails | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('cargo_claims')
+    .select(CLAIM_SELECT)
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Error fetching cargo claim:', error.message);
+    return null;
+  }
+
+  const [{ data: items }, { data: events }] = await Promise.all([
+    supabase
+      .from('cargo_claim_items')
+      .select(
+        'id, inventory_item_id, photo_id, description, claimed_amount, inventory_item:load_inventory_items(tag_number), photo:load_photos(file_url)'
+      )
+      .eq('claim_id', id)
+      .eq('owner_id', userId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('cargo_claim_events')
+      .select('id, event_type, amount, note, created_at')
+      .eq('claim_id', id)
+      .eq('owner_id', userId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  return {
+    ...mapClaim(data as ClaimRow),
+    items: ((items || []) as ClaimItemRow[]).map(
+      (row): CargoClaimItem => ({
+        id: row.id,
+        inventory_item_id: row.inventory_item_id,
+        photo_id: row.photo_id,
+        description: row.description,
+        claimed_amount: row.claimed_amount !== null ? Number(row.claimed_amount) : null,
+        tag_number: one(row.inventory_item)?.tag_number ?? null,
+        photo_url: one(row.photo)?.file_url ?? null,
+      })
+    ),
+    events: ((events || []) as CargoClaimEvent[]).map((event) => ({
+      ...event,
+      amount: event.amount !== null ? Number(event.amount) : null,
+    })),
+  };
+}
+
+/**
+ * Recent loads a claim can be opened against
+ */
+export async function listClaimableLoads(userId: string): Promise<ClaimableLoad[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('loads')
+    .select(CLAIMABLE_LOAD_SELECT)
+    .eq('owner_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    throw new Error(`Failed to fetch loads: ${error.message}`);
+  }
+
+  return ((data || []) as ClaimableLoadRow[]).map(mapClaimableLoad);
+}
+
+/**
+ * A load with the inventory tags and damage photos a new claim can reference
+ */
+export async function getClaimableLoad(loadId: string, userId: string): Promise<ClaimableLoadDetails | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('loads')
+    .select(CLAIMABLE_LOAD_SELECT)
+    .eq('id', loadId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Error fetching claimable load:', error.message);
+    return null;
+  }
+
+  const [load, inventory, { data: photos }] = await Promise.all([
+    withTripDriver(supabase, mapClaimableLoad(data as ClaimableLoadRow)),
+    getLoadInventory(loadId, userId),
+    supabase
+      .from('load_photos')
+      .select('id, file_url, caption, created_at')
+      .eq('load_id', loadId)
+      .eq('photo_type', 'damage')
+      .order('created_at', { ascending: true }),
+  ]);
+
+  return {
+    ...load,
+    inventory: inventory.items,
+    damage_photos: photos || [],
+  };
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Open a claim against a load. The trip and driver are taken from the load so a
+ * settled chargeback knows whose statement to hit.
+ */
+export async function createCargoClaim(
+  userId: string,
+  input: {
+    loadId: string;
+    claimType: ClaimType;
+    claimantType: ClaimantType;
+    claimantName: string;
+    claimedAmount: number;
+    filedOn?: string;
+    description?: string | null;
+    inventoryItems?: { inventoryItemId: string; description: string; claimedAmount: number | null }[];
+    photoIds?: string[];
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!input.claimantName.trim()) {
+    return { success: false, error: 'Claimant name is required' };
+  }
+  if (!(input.claimedAmount >= 0)) {
+    return { success: false, error: 'Claimed amount must be zero or more' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: loadRow, error: loadError } = await supabase
+    .from('loads')
+    .select(CLAIMABLE_LOAD_SELECT)
+    .eq('id', input.loadId)
+    .eq('owner_id', userId)
+    .single();
+
+  if (loadError || !loadRow) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  const load = await withTripDriver(supabase, mapClaimableLoad(loadRow as ClaimableLoadRow));
+  const filedOn = input.filedOn || new Date().toISOString().split('T')[0];
+  const dueDates = getClaimDueDates(filedOn);
+  const partner = await getLoadPartner(supabase, userId, load.id);
+
+  const { data: claim, error } = await supabase
+    .from('cargo_claims')
+    .insert({
+      owner_id: userId,
+      load_id: load.id,
+      trip_id: load.trip_id,
+      driver_id: load.driver_id,
+      claim_type: input.claimType,
+      claimant_type: input.claimantType,
+      claimant_name: input.claimantName.trim(),
+      claimant_company_id: input.claimantType === 'partner' ? partner.partnerCompanyId || null : null,
+      description: input.description || null,
+      status: 'filed',
+      claimed_amount: round(input.claimedAmount),
+      filed_on: filedOn,
+      acknowledge_by: dueDates.acknowledge_by,
+      resolve_by: dueDates.resolve_by,
+    })
+    .select('id, claim_number')
+    .single();
+
+  if (error || !claim) {
+    return { success: false, error: error?.message || 'Failed to create claim' };
+  }
+
+  const itemRows = [
+    ...(input.inventoryItems || []).map((item) => ({
+      owner_id: userId,
+      claim_id: claim.id,
+      inventory_item_id: item.inventoryItemId,
+      photo_id: null,
+      description: item.description,
+      claimed_amount: item.claimedAmount !== null ? round(item.claimedAmount) : null,
+    })),
+    ...(input.photoIds || []).map((photoId) => ({
+      owner_id: userId,
+      claim_id: claim.id,
+      inventory_item_id: null,
+      photo_id: photoId,
+      description: 'Damage photo',
+      claimed_amount: null,
+    })),
+  ];
+
+  if (itemRows.length > 0) {
+    const { error: itemsError } = await supabase.from('cargo_claim_items').insert(itemRows);
+    if (itemsError) {
+      console.error('Failed to attach claim items:', itemsError.message);
+    }
+  }
+
+  await recordClaimEvent(supabase, userId, claim.id, 'filed', {
+    amount: round(input.claimedAmount),
+    note: input.description || null,
+  });
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: load.id,
+    action: 'claim_filed',
+    performedByUserId: userId,
+    visibility: 'partner',
+    newValue: { claim_id: claim.id, status: 'filed', claimed_amount: round(input.claimedAmount) },
+    metadata: {
+      claim_number: claim.claim_number,
+      claim_type: input.claimType,
+      claimant_name: input.claimantName.trim(),
+      acknowledge_by: dueDates.acknowledge_by,
+      resolve_by: dueDates.resolve_by,
+    },
+  });
+
+  await postClaimMessage(
+    supabase,
+    userId,
+    load.id,
+    partner,
+    `${CLAIM_TYPE_LABELS[input.claimType]} claim ${claim.claim_number} filed by ${input.claimantName.trim()} ` +
+      `(${CLAIMANT_TYPE_LABELS[input.claimantType].toLowerCase()}) for ${formatAmount(input.claimedAmount)}. ` +
+      `Acknowledge by ${dueDates.acknowledge_by}, resolve by ${dueDates.resolve_by}.`,
+    { claim_id: claim.id, claim_number: claim.claim_number, claim_status: 'filed' }
+  );
+
+  return { success: true, id: claim.id };
+}
+
+/**
+ * Move a claim along its timeline (acknowledge, review, deny, close)
+ */
+export async function updateCargoClaimStatus(
+  id: string,
+  userId: string,
+  status: ClaimStatus,
+  note?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const claim = await getClaimForUpdate(supabase, id, userId);
+  if (!claim) {
+    return { success: false, error: 'Claim not found' };
+  }
+  if (!CLAIM_STATUS_TRANSITIONS[claim.status].includes(status)) {
+    return {
+      success: false,
+      error: `A ${CLAIM_STATUS_LABELS[claim.status].toLowerCase()} claim cannot be moved to ${CLAIM_STATUS_LABELS[status].toLowerCase()}`,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const updates: Record<string, unknown> = { status };
+  // Any response to the claimant counts as the written acknowledgment
+  if (!claim.acknowledged_at) {
+    updates.acknowledged_at = now;
+  }
+  if (status === 'denied') {
+    updates.resolved_at = now;
+  }
+
+  const { error } = await supabase.from('cargo_claims').update(updates).eq('id', id).eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await recordClaimEvent(supabase, userId, id, status, { note: note || null });
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: claim.load_id,
+    action: 'claim_status_changed',
+    performedByUserId: userId,
+    visibility: 'partner',
+    previousValue: { status: claim.status },
+    newValue: { status },
+    metadata: { claim_id: id, claim_number: claim.claim_number, note: note || null },
+  });
+
+  if (status !== 'closed') {
+    const partner = await getLoadPartner(supabase, userId, claim.load_id);
+    await postClaimMessage(
+      supabase,
+      userId,
+      claim.load_id,
+      partner,
+      `Claim ${claim.claim_number} ${CLAIM_STATUS_LABELS[status].toLowerCase()}${note ? `: ${note}` : '.'}`,
+      { claim_id: id, claim_number: claim.claim_number, claim_status: status }
+    );
+  }
+
+  return { success: true };
+}
+
+/**
+ * Record a compromise offer to the claimant
+ */
+export async function makeCargoClaimOffer(
+  id: string,
+  userId: string,
+  amount: number,
+  note?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  if (!(amount >= 0)) {
+    return { success: false, error: 'Offer amount must be zero or more' };
+  }
+
+  const supabase = await createClient();
+
+  const claim = await getClaimForUpdate(supabase, id, userId);
+  if (!claim) {
+    return { success: false, error: 'Claim not found' };
+  }
+  if (!isClaimOpen(claim.status)) {
+    return { success: false, error: 'Only open claims can receive an offer' };
+  }
+
+  const { error } = await supabase
+    .from('cargo_claims')
+    .update({
+      status: 'offered',
+      offered_amount: round(amount),
+      acknowledged_at: claim.acknowledged_at || new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await recordClaimEvent(supabase, userId, id, 'offered', { amount: round(amount), note: note || null });
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: claim.load_id,
+    action: 'claim_status_changed',
+    performedByUserId: userId,
+    visibility: 'partner',
+    previousValue: { status: claim.status },
+    newValue: { status: 'offered', offered_amount: round(amount) },
+    metadata: { claim_id: id, claim_number: claim.claim_number },
+  });
+
+  const partner = await getLoadPartner(supabase, userId, claim.load_id);
+  await postClaimMessage(
+    supabase,
+    userId,
+    claim.load_id,
+    partner,
+    `Offer of ${formatAmount(amount)} made on claim ${claim.claim_number} ` +
+      `(${formatAmount(claim.claimed_amount)} claimed)${note ? `: ${note}` : '.'}`,
+    { claim_id: id, claim_number: claim.claim_number, claim_status: 'offered' }
+  );
+
+  return { success: true };
+}
+
+/**
+ * Settle a claim and record who bears the cost. With a driver chargeback the
+ * charged amount can be taken on the driver statement covering chargebackDate.
+ */
+export async function settleCargoClaim(
+  id: string,
+  userId: string,
+  input: {
+    settledAmount: number;
+    liability: ClaimLiability;
+    chargebackAmount?: number;
+    deductFromSettlement?: boolean;
+    chargebackDate?: string;
+    insuranceClaimNumber?: string | null;
+    note?: string | null;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  if (!(input.settledAmount >= 0)) {
+    return { success: false, error: 'Settled amount must be zero or more' };
+  }
+
+  const chargebackAmount = input.liability === 'driver_chargeback' ? round(input.chargebackAmount ?? input.settledAmount) : 0;
+  if (chargebackAmount > input.settledAmount) {
+    return { success: false, error: 'Chargeback cannot exceed the settled amount' };
+  }
+
+  const supabase = await createClient();
+
+  const claim = await getClaimForUpdate(supabase, id, userId);
+  if (!claim) {
+    return { success: false, error: 'Claim not found' };
+  }
+  if (!isClaimOpen(claim.status)) {
+    return { success: false, error: 'Only open claims can be settled' };
+  }
+
+  let driverDeductionId: string | null = null;
+  if (input.deductFromSettlement && chargebackAmount > 0) {
+    if (!claim.driver_id) {
+      return { success: false, error: 'No driver is assigned to this load to charge back' };
+    }
+    const chargebackDate = input.chargebackDate || new Date().toISOString().split('T')[0];
+    const deduction = await createDriverDeduction(userId, {
+      driverId: claim.driver_id,
+      deductionType: 'claim_chargeback',
+      description: `Claim ${claim.claim_number} chargeback${claim.load_number ? ` (${claim.load_number})` : ''}`,
+      amount: chargebackAmount,
+      frequency: 'per_statement',
+      startDate: chargebackDate,
+      endDate: chargebackDate,
+      oneTime: true,
+    });
+    if (!deduction.success) {
+      return { success: false, error: deduction.error || 'Failed to create driver chargeback' };
+    }
+    driverDeductionId = deduction.id || null;
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('cargo_claims')
+    .update({
+      status: 'settled',
+      settled_amount: round(input.settledAmount),
+      liability: input.liability,
+      chargeback_amount: chargebackAmount,
+      driver_deduction_id: driverDeductionId,
+      insurance_claim_number: input.liability === 'insurance' ? input.insuranceClaimNumber || null : null,
+      acknowledged_at: claim.acknowledged_at || now,
+      resolved_at: now,
+    })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    if (driverDeductionId) {
+      await supabase.from('driver_deductions').delete().eq('id', driverDeductionId).eq('owner_id', userId);
+    }
+    return { success: false, error: error.message };
+  }
+
+  const liabilityNote =
+    chargebackAmount > 0
+      ? `${CLAIM_LIABILITY_LABELS[input.liability]} ${formatAmount(chargebackAmount)}${driverDeductionId ? ' (on driver statement)' : ''}`
+      : CLAIM_LIABILITY_LABELS[input.liability];
+  await recordClaimEvent(supabase, userId, id, 'settled', {
+    amount: round(input.settledAmount),
+    note: [liabilityNote, input.note].filter(Boolean).join(' - '),
+  });
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: claim.load_id,
+    action: 'claim_settled',
+    performedByUserId: userId,
+    previousValue: { status: claim.status },
+    newValue: {
+      status: 'settled',
+      settled_amount: round(input.settledAmount),
+      liability: input.liability,
+      chargeback_amount: chargebackAmount,
+    },
+    metadata: { claim_id: id, claim_number: claim.claim_number, driver_deduction_id: driverDeductionId },
+  });
+
+  // Who bears the cost stays internal; the partner only sees the settlement
+  const partner = await getLoadPartner(supabase, userId, claim.load_id);
+  await postClaimMessage(
+    supabase,
+    userId,
+    claim.load_id,
+    partner,
+    `Claim ${claim.claim_number} settled for ${formatAmount(input.settledAmount)} ` +
+      `(${formatAmount(claim.claimed_amount)} claimed).`,
+    { claim_id: id, claim_number: claim.claim_number, claim_status: 'settled' }
+  );
+
+  return { success: true };
+}
+
+export async function addCargoClaimNote(
+  id: string,
+  userId: string,
+  note: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!note.trim()) {
+    return { success: false, error: 'Note is required' };
+  }
+
+  const supabase = await createClient();
+
+  const claim = await getClaimForUpdate(supabase, id, userId);
+  if (!claim) {
+    return { success: false, error: 'Claim not found' };
+  }
+
+  return recordClaimEvent(supabase, userId, id, 'note', { note: note.trim() });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getClaimForUpdate(
+  supabase: SupabaseClient,
+  id: string,
+  userId: string
+): Promise<CargoClaim | null> {
+  const { data, error } = await supabase
+    .from('cargo_claims')
+    .select(CLAIM_SELECT)
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return mapClaim(data as ClaimRow);
+}
+
+async function recordClaimEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  claimId: string,
+  eventType: ClaimEventType,
+  details: { amount?: number | null; note?: string | null }
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.from('cargo_claim_events').insert({
+    owner_id: userId,
+    claim_id: claimId,
+    event_type: eventType,
+    amount: details.amount ?? null,
+    note: details.note || null,
+    created_by: userId,
+  });
+
+  if (error) {
+    console.error('Failed to record claim event:', error.message);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * The carrier's workspace company and the partner company (the broker who posted
+ * the load, or the partner it came from) for the load's conversations
+ */
+async function getLoadPartner(
+  supabase: SupabaseClient,
+  userId: string,
+  loadId: string
+): Promise<{ companyId: string | null; partnerCompanyId?: string }> {
+  const [{ data: workspaceCompany }, { data: load }] = await Promise.all([
+    supabase.from('companies').select('id').eq('owner_id', userId).eq('is_workspace_company', true).maybeSingle(),
+    supabase.from('loads').select('company_id, posted_by_company_id').eq('id', loadId).maybeSingle(),
+  ]);
+
+  const companyId = workspaceCompany?.id || load?.company_id || null;
+  const partnerCompanyId =
+    load?.posted_by_company_id && load.posted_by_company_id !== companyId
+      ? load.posted_by_company_id
+      : load?.company_id && load.company_id !== companyId
+        ? load.company_id
+        : undefined;
+
+  return { companyId, partnerCompanyId };
+}
+
+async function postClaimMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  loadId: string,
+  partner: { companyId: string | null; partnerCompanyId?: string },
+  body: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  if (!partner.companyId) return;
+
+  await recordLoadEventMessage(supabase, {
+    loadId,
+    companyId: partner.companyId,
+    body,
+    performerUserId: userId,
+    target: 'both',
+    partnerCompanyId: partner.partnerCompanyId,
+    metadata: { event: 'cargo_claim', ...metadata },
+  });
+}
+
+/**
+ * The trip's driver hauled the load, even if the load's assigned driver differs
+ */
+async function withTripDriver(supabase: SupabaseClient, load: ClaimableLoad): Promise<ClaimableLoad> {
+  if (!load.trip_id) return load;
+
+  const { data: trip } = await supabase
+    .from('trips')
+    .select('driver_id, driver:drivers!trips_driver_id_fkey(first_name, last_name)')
+    .eq('id', load.trip_id)
+    .maybeSingle();
+
+  if (!trip?.driver_id || trip.driver_id === load.driver_id) return load;
+
+  const driver = one(trip.driver as Related<{ first_name: string; last_name: string | null }>);
+  return { ...load, driver_id: trip.driver_id, driver_name: driver ? formatName(driver) : null };
+}
+
+function mapClaim(row: ClaimRow): CargoClaim {
+  const driver = one(row.driver);
+  return {
+    id: row.id,
+    claim_number: row.claim_number,
+    load_id: row.load_id,
+    load_number: one(row.load)?.load_number ?? null,
+    trip_id: row.trip_id,
+    driver_id: row.driver_id,
+    driver_name: driver ? formatName(driver) : null,
+    claim_type: row.claim_type,
+    claimant_type: row.claimant_type,
+    claimant_name: row.claimant_name,
+    claimant_company_id: row.claimant_company_id,
+    description: row.description,
+    status: row.status,
+    claimed_amount: Number(row.claimed_amount) || 0,
+    offered_amount: row.offered_amount !== null ? Number(row.offered_amount) : null,
+    settled_amount: row.settled_amount !== null ? Number(row.settled_amount) : null,
+    liability: row.liability,
+    chargeback_amount: Number(row.chargeback_amount) || 0,
+    driver_deduction_id: row.driver_deduction_id,
+    insurance_claim_number: row.insurance_claim_number,
+    filed_on: row.filed_on,
+    acknowledge_by: row.acknowledge_by,
+    resolve_by: row.resolve_by,
+    acknowledged_at: row.acknowledged_at,
+    resolved_at: row.resolved_at,
+    created_at: row.created_at,
+  };
+}
+
+function mapClaimableLoad(row: ClaimableLoadRow): ClaimableLoad {
+  const assignedDriver = one(row.assigned_driver);
+  return {
+    id: row.id,
+    load_number: row.load_number,
+    pickup_city: row.pickup_city,
+    pickup_state: row.pickup_state,
+    delivery_city: row.delivery_city,
+    delivery_state: row.delivery_state,
+    customer_name: row.customer_name,
+    company_id: row.company_id,
+    company_name: one(row.company)?.name ?? null,
+    trip_id: row.trip_id,
+    driver_id: row.assigned_driver_id,
+    driver_name: assignedDriver ? formatName(assignedDriver) : null,
+  };
+}
+
+function formatName(person: { first_name: string; last_name: string | null }): string {
+  return `${person.first_name} ${person.last_name || ''}`.trim();
+}
+
+function formatAmount(amount: number): string {
+  return `$${round(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Round to 2 decimal places for currency
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export {
+  CLAIM_LIABILITY_LABELS,
+  CLAIM_STATUS_LABELS,
+  CLAIM_STATUS_TRANSITIONS,
+  CLAIM_TYPE_LABELS,
+  CLAIMANT_TYPE_LABELS,
+  getClaimDeadlines,
+  isClaimOpen,
+};
+export type {
+  CargoClaim,
+  CargoClaimEvent,
+  CargoClaimItem,
+  CargoClaimWithDetails,
+  ClaimantType,
+  ClaimLiability,
+  ClaimStatus,
+  ClaimType,
+};
@@ -1,18 +1,20 @@
 import { createClient } from '@/lib/supabase-server';
+import { listPayments, type PaymentMethod } from '@/data/payments';
 
 // Types for company ledger
 export interface CompanyLedgerSummary {
   loadsFromThem: {
     count: number;
     totalRevenue: number;
-    totalOwed: number; // What they owe us (open receivables)
+    totalOwed: number; // What they owe us (open receivable balances)
+    unappliedCredit: number; // Payments received but not yet applied to a receivable
   };
   loadsToThem: {
     count: number;
     totalPaid: number;
     totalOwing: number; // What we owe them (open payables)
   };
-  netBalance: number; // Positive = they owe us, negative = we owe them
+  netBalance: number; // Positive = they owe us, negative = we owe them (credits count against what they owe)
   lastPaymentDate: string | null;
   lastPaymentAmount: number | null;
 }
@@ -41,14 +43,15 @@ export interface CompanyLedgerLoad {
 export interface CompanyPayment {
   id: string;
   amount: number;
+  amount_applied: number;
+  unapplied_amount: number;
   payment_date: string | null;
-  payment_method: string | null;
+  payment_method: PaymentMethod | null;
   reference_number: string | null;
   notes: string | null;
   status: string;
   created_at: string;
-  load_id: string | null;
-  load_number: string | null;
+  applied_to: string[]; // Invoice/trip references the payment was applied to
 }
 
 /**
@@ -85,10 +88,10 @@ export async function getCompanyLedgerSummary(
   // Get open receivables from this company (what they owe us)
   const { data: receivables, error: receivablesError } = await supabase
     .from('receivables')
-    .select('amount, status')
+    .select('amount, amount_paid, status')
     .eq('company_id', companyId)
     .eq('owner_id', userId)
-    .eq('status', 'open');
+    .in('status', ['open', 'partial']);
 
   if (receivablesError) {
     throw new Error(`Failed to fetch receivables: ${receivablesError.message}`);
@@ -108,27 +111,10 @@ export async function getCompanyLedgerSummary(
     console.error('Payables query failed:', payablesError.message);
   }
 
-  // Get last payment received from this company
-  // Note: Currently using receivables marked as paid - a proper payments tracking table
-  // could be added later for more detailed payment history
-  const { data: lastPaidReceivable, error: lastPaymentError } = await supabase
-    .from('receivables')
-    .select('amount, created_at')
-    .eq('company_id', companyId)
-    .eq('owner_id', userId)
-    .eq('status', 'paid')
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (lastPaymentError) {
-    console.error('Last payment query failed:', lastPaymentError.message);
-  }
-
-  const lastPayment = lastPaidReceivable ? {
-    amount: lastPaidReceivable.amount,
-    payment_date: lastPaidReceivable.created_at,
-  } : null;
+  // Payments received from this company, newest first
+  const payments = await listPayments({ ownerId: userId, companyId });
+  const lastPayment = payments[0] || null;
+  const unappliedCredit = payments.reduce((sum, p) => sum + p.unapplied_amount, 0);
 
   // Calculate totals
   const loadsFromCount = loadsFrom?.length || 0;
@@ -137,7 +123,7 @@ export async function getCompanyLedgerSummary(
     0
   );
   const totalOwed = (receivables || []).reduce(
-    (sum, r) => sum + (Number(r.amount) || 0),
+    (sum, r) => sum + (Number(r.amount) || 0) - (Number(r.amount_paid) || 0),
     0
   );
 
@@ -151,13 +137,14 @@ export async function getCompanyLedgerSummary(
     0
   );
 
-  const netBalance = totalOwed - totalOwing;
+  const netBalance = totalOwed - unappliedCredit - totalOwing;
 
   return {
     loadsFromThem: {
       count: loadsFromCount,
       totalRevenue: loadsFromTotalRevenue,
       totalOwed,
+      unappliedCredit,
     },
     loadsToThem: {
       count: loadsToCount,
@@ -166,7 +153,7 @@ export async function getCompanyLedgerSummary(
     },
     netBalance,
     lastPaymentDate: lastPayment?.payment_date || null,
-    lastPaymentAmount: lastPayment?.amount ? Number(lastPayment.amount) : null,
+    lastPaymentAmount: lastPayment ? lastPayment.amount : null,
   };
 }
 
@@ -329,10 +316,49 @@ export async function getLoadsToCompany(
   }));
 }
 
+type Related<T> = T | T[] | null;
+
+function firstOf<T>(value: Related<T> | undefined): T | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+// Row shape of the payments query below
+interface PaymentRow {
+  id: string;
+  amount: number | string;
+  payment_date: string | null;
+  payment_method: PaymentMethod | null;
+  reference_number: string | null;
+  notes: string | null;
+  status: string;
+  created_at: string;
+  applications: {
+    amount: number | string;
+    receivable: Related<{
+      reference: string | null;
+      invoice: Related<{ invoice_number: string }>;
+      trip: Related<{ trip_number: string }>;
+    }>;
+  }[] | null;
+}
+
+// Row shape of the receivables query in getCompanyReceivables
+interface ReceivableRow {
+  id: string;
+  amount: number | string;
+  amount_paid: number | string | null;
+  status: string;
+  due_date: string | null;
+  created_at: string;
+  trip_id: string | null;
+  invoice_id: string | null;
+  trip: Related<{ trip_number: string }>;
+  invoice: Related<{ invoice_number: string }>;
+}
+
 /**
  * Get payment history with a company
- * Note: This uses receivables that have been marked as paid, since we don't have
- * a dedicated payments tracking table for inter-company payments yet.
  */
 export async function getCompanyPayments(
   companyId: string,
@@ -343,24 +369,32 @@ export async function getCompanyPayments(
     direction?: 'from' | 'to' | 'all'; // from = they paid us, to = we paid them
   }
 ): Promise<CompanyPayment[]> {
+  // Only incoming payments are tracked in the payments ledger
+  if (options?.direction === 'to') {
+    return [];
+  }
+
   const supabase = await createClient();
 
-  // Get paid receivables from this company as payment history
-  // A proper payments table could be added later for more detailed tracking
   let query = supabase
-    .from('receivables')
+    .from('payments')
     .select(`
       id,
       amount,
-      created_at,
+      payment_date,
+      payment_method,
+      reference_number,
+      notes,
       status,
-      reference,
-      trip_id,
-      trip:trips(trip_number)
+      created_at,
+      applications:payment_applications(
+        amount,
+        receivable:receivables(reference, invoice:invoices(invoice_number), trip:trips(trip_number))
+      )
     `)
     .eq('company_id', companyId)
     .eq('owner_id', userId)
-    .eq('status', 'paid')
+    .order('payment_date', { ascending: false })
     .order('created_at', { ascending: false });
 
   if (options?.limit) {
@@ -378,18 +412,32 @@ export async function getCompanyPayments(
     return [];
   }
 
-  return (data || []).map((receivable: any) => ({
-    id: receivable.id,
-    amount: Number(receivable.amount) || 0,
-    payment_date: receivable.created_at, // Using created_at as proxy for payment date
-    payment_method: null, // Not tracked in receivables
-    reference_number: receivable.reference,
-    notes: null,
-    status: receivable.status,
-    created_at: receivable.created_at,
-    load_id: null,
-    load_number: receivable.trip?.trip_number || null,
-  }));
+  return ((data || []) as unknown as PaymentRow[]).map((payment) => {
+    const amount = Number(payment.amount) || 0;
+    const applications = payment.applications || [];
+    const applied = applications.reduce((sum, a) => sum + (Number(a.amount) || 0), 0);
+    return {
+      id: payment.id,
+      amount,
+      amount_applied: applied,
+      unapplied_amount: payment.status === 'void' ? 0 : Math.round((amount - applied) * 100) / 100,
+      payment_date: payment.payment_date,
+      payment_method: payment.payment_method,
+      reference_number: payment.reference_number,
+      notes: payment.notes,
+      status: payment.status,
+      created_at: payment.created_at,
+      applied_to: applications.map((a) => {
+        const receivable = firstOf(a.receivable);
+        return (
+          firstOf(receivable?.invoice)?.invoice_number ||
+          firstOf(receivable?.trip)?.trip_number ||
+          receivable?.reference ||
+          'Receivable'
+        );
+      }),
+    };
+  });
 }
 
 /**
@@ -415,10 +463,10 @@ export async function getCompanyBalancesBatch(
   // Get open receivables for all companies (what they owe us)
   const { data: receivables, error: receivablesError } = await supabase
     .from('receivables')
-    .select('company_id, amount')
+    .select('company_id, amount, amount_paid')
     .in('company_id', companyIds)
     .eq('owner_id', userId)
-    .eq('status', 'open');
+    .in('status', ['open', 'partial']);
 
   if (receivablesError) {
     console.error('Error fetching batch receivables:', receivablesError.message);
@@ -426,7 +474,7 @@ export async function getCompanyBalancesBatch(
     for (const r of receivables) {
       const current = result.get(r.company_id);
       if (current) {
-        current.totalOwed += Number(r.amount) || 0;
+        current.totalOwed += (Number(r.amount) || 0) - (Number(r.amount_paid) || 0);
         current.netBalance = current.totalOwed - current.totalOwing;
       }
     }
@@ -468,16 +516,20 @@ export async function getCompanyReceivables(
   options?: {
     limit?: number;
     offset?: number;
-    status?: 'open' | 'paid' | 'partial' | 'cancelled' | 'all';
+    status?: 'open' | 'paid' | 'partial' | 'void' | 'all';
   }
 ): Promise<{
   id: string;
   amount: number;
+  amount_paid: number;
+  balance: number;
   status: string;
   due_date: string | null;
   created_at: string;
   trip_id: string | null;
   trip_number: string | null;
+  invoice_id: string | null;
+  invoice_number: string | null;
 }[]> {
   const supabase = await createClient();
 
@@ -486,11 +538,14 @@ export async function getCompanyReceivables(
     .select(`
       id,
       amount,
+      amount_paid,
       status,
       due_date,
       created_at,
       trip_id,
-      trip:trips(trip_number)
+      invoice_id,
+      trip:trips(trip_number),
+      invoice:invoices(invoice_number)
     `)
     .eq('company_id', companyId)
     .eq('owner_id', userId)
@@ -514,13 +569,17 @@ export async function getCompanyReceivables(
     throw new Error(`Failed to fetch company receivables: ${error.message}`);
   }
 
-  return (data || []).map((r: any) => ({
+  return ((data || []) as unknown as ReceivableRow[]).map((r) => ({
     id: r.id,
     amount: Number(r.amount) || 0,
+    amount_paid: Number(r.amount_paid) || 0,
+    balance: r.status === 'void' ? 0 : (Number(r.amount) || 0) - (Number(r.amount_paid) || 0),
     status: r.status,
     due_date: r.due_date,
     created_at: r.created_at,
     trip_id: r.trip_id,
-    trip_number: (Array.isArray(r.trip) ? r.trip[0] : r.trip)?.trip_number || null,
+    trip_number: firstOf(r.trip)?.trip_number || null,
+    invoice_id: r.invoice_id || null,
+    invoice_number: firstOf(r.invoice)?.invoice_number || null,
   }));
 }
@@ -0,0 +1,122 @@
+/**
+ * Company portal account types and role checks, safe to import from client
+ * components
+ */
+
+export type PortalRole = 'viewer' | 'poster' | 'approver';
+
+export const PORTAL_ROLE_LABELS: Record<PortalRole, string> = {
+  viewer: 'Viewer',
+  poster: 'Poster',
+  approver: 'Approver',
+};
+
+export const PORTAL_ROLE_DESCRIPTIONS: Record<PortalRole, string> = {
+  viewer: 'Sees loads, carriers and requests',
+  poster: 'Also posts loads and releases them to the marketplace',
+  approver: 'Also accepts carrier requests and assigns or cancels carriers',
+};
+
+// Roles are cumulative: an approver can do everything a poster can
+const ROLE_RANK: Record<PortalRole, number> = {
+  viewer: 0,
+  poster: 1,
+  approver: 2,
+};
+
+export type PortalPermission =
+  | 'post_loads'
+  | 'release_to_marketplace'
+  | 'rate_carriers'
+  | 'accept_requests'
+  | 'assign_carriers'
+  | 'manage_award_rules'
+  | 'review_compliance';
+
+/**
+ * Portal actions and the lowest role allowed to perform them
+ */
+export const PORTAL_PERMISSIONS: Record<PortalPermission, PortalRole> = {
+  post_loads: 'poster',
+  release_to_marketplace: 'poster',
+  rate_carriers: 'poster',
+  accept_requests: 'approver',
+  assign_carriers: 'approver',
+  manage_award_rules: 'approver',
+  review_compliance: 'approver',
+};
+
+export function portalRoleAllows(role: PortalRole, permission: PortalPermission): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[PORTAL_PERMISSIONS[permission]];
+}
+
+export type PortalLoginEventType =
+  | 'login'
+  | 'login_failed'
+  | 'magic_link_sent'
+  | 'invite_accepted'
+  | 'logout'
+  | 'sessions_revoked';
+
+export type PortalLoginMethod = 'password' | 'magic_link' | 'access_code' | 'invite';
+
+export const PORTAL_LOGIN_EVENT_LABELS: Record<PortalLoginEventType, string> = {
+  login: 'Signed in',
+  login_failed: 'Failed sign-in',
+  magic_link_sent: 'Sign-in link sent',
+  invite_accepted: 'Accepted invite',
+  logout: 'Signed out',
+  sessions_revoked: 'Sessions revoked',
+};
+
+export type PortalSignInError = 'invalid' | 'locked' | 'disabled' | 'link_expired' | 'weak_password' | 'failed';
+
+export const PORTAL_SIGN_IN_ERROR_MESSAGES: Record<PortalSignInError, string> = {
+  invalid: 'Invalid email or password',
+  locked: 'Too many failed attempts. Wait a few minutes or email yourself a sign-in link.',
+  disabled: 'The portal is turned off for this company. Contact your carrier.',
+  link_expired: 'This link is invalid or has expired',
+  weak_password: 'Use a password of at least 10 characters',
+  failed: 'Something went wrong signing you in. Please try again.',
+};
+
+export interface CompanyPortalUser {
+  id: string;
+  company_id: string;
+  email: string;
+  full_name: string | null;
+  role: PortalRole;
+  is_active: boolean;
+  has_password: boolean;
+  invited_at: string | null;
+  accepted_at: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+export interface PortalLoginEvent {
+  id: string;
+  portal_user_id: string | null;
+  email: string;
+  event: PortalLoginEventType;
+  method: PortalLoginMethod | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  detail: string | null;
+  created_at: string;
+}
+
+export interface CompanyPortalSession {
+  session_id: string;
+  portal_user_id: string;
+  company_id: string;
+  company_name: string;
+  owner_id: string;
+  email: string;
+  full_name: string | null;
+  role: PortalRole;
+  is_broker: boolean;
+  is_agent: boolean;
+  is_carrier: boolean;
+  expires_at: string;
+}
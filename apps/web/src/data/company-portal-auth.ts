@@ -0,0 +1,851 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createServiceRoleClient } from '@/lib/supabase-admin';
+import { sendCompanyPortalEmail } from '@/lib/email/notifications';
+import {
+  PORTAL_ROLE_LABELS,
+  type CompanyPortalSession,
+  type CompanyPortalUser,
+  type PortalLoginEvent,
+  type PortalLoginEventType,
+  type PortalLoginMethod,
+  type PortalRole,
+  type PortalSignInError,
+} from '@/data/company-portal-auth-shared';
+
+/**
+ * Company portal accounts
+ *
+ * Each portal user is invited by the owner of the company record and signs in
+ * with a password or a single-use email link. Sign-in creates a server-side
+ * session; the cookie carries a random token and only its SHA-256 is stored,
+ * so the session can expire, be revoked, and always reflects the user's
+ * current role. Sign-in, tokens and sessions run with the service role since
+ * portal users have no Supabase account.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+const SESSION_DAYS = 7;
+const MAGIC_LINK_MINUTES = 15;
+const INVITE_DAYS = 7;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const MAX_MAGIC_LINKS_PER_WINDOW = 3;
+// Avoid a write on every page view just to bump last_seen_at
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+const PORTAL_USER_COLUMNS =
+  'id, company_id, owner_id, email, full_name, role, password_hash, is_active, invited_at, accepted_at, last_login_at, created_at';
+
+export interface PortalRequestMeta {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export type PortalSignInResult =
+  | { success: true; token: string; expiresAt: string }
+  | { success: false; error: PortalSignInError };
+
+interface PortalUserRow {
+  id: string;
+  company_id: string;
+  owner_id: string;
+  email: string;
+  full_name: string | null;
+  role: PortalRole;
+  password_hash: string | null;
+  is_active: boolean;
+  invited_at: string | null;
+  accepted_at: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+interface PortalCompanyRow {
+  id: string;
+  name: string | null;
+  owner_id: string | null;
+  is_broker: boolean | null;
+  is_agent: boolean | null;
+  is_carrier: boolean | null;
+  portal_enabled: boolean | null;
+  portal_access_code?: string | null;
+}
+
+type Related<T> = T | T[] | null;
+
+function firstOf<T>(value: Related<T> | undefined): T | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+function toPortalUser(row: PortalUserRow): CompanyPortalUser {
+  return {
+    id: row.id,
+    company_id: row.company_id,
+    email: row.email,
+    full_name: row.full_name,
+    role: row.role,
+    is_active: row.is_active,
+    has_password: !!row.password_hash,
+    invited_at: row.invited_at,
+    accepted_at: row.accepted_at,
+    last_login_at: row.last_login_at,
+    created_at: row.created_at,
+  };
+}
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://moveboss.com';
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// ===========================================
+// CREDENTIALS
+// ===========================================
+
+const PASSWORD_KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, PASSWORD_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPortalPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifyPortalPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Compare digests so the legacy code check doesn't leak timing
+function accessCodeMatches(submitted: string, stored: string): boolean {
+  return timingSafeEqual(
+    createHash('sha256').update(submitted).digest(),
+    createHash('sha256').update(stored).digest()
+  );
+}
+
+export const portalPasswordSchema = z
+  .string()
+  .min(10, 'Use at least 10 characters')
+  .max(200, 'Password is too long');
+
+export const portalInviteSchema = z.object({
+  email: z.string().trim().email('Enter a valid email'),
+  full_name: z.string().trim().max(120).optional(),
+  role: z.enum(['viewer', 'poster', 'approver']),
+});
+
+export type PortalInviteInput = z.infer<typeof portalInviteSchema>;
+
+// ===========================================
+// AUDIT + SESSIONS (service role)
+// ===========================================
+
+async function recordLoginEvent(
+  supabase: ServiceClient,
+  event: {
+    company_id: string | null;
+    portal_user_id: string | null;
+    email: string;
+    event: PortalLoginEventType;
+    method?: PortalLoginMethod;
+    detail?: string;
+  },
+  meta?: PortalRequestMeta
+): Promise<void> {
+  const { error } = await supabase.from('company_portal_login_events').insert({
+    ...event,
+    method: event.method ?? null,
+    detail: event.detail ?? null,
+    ip_address: meta?.ip ?? null,
+    user_agent: meta?.userAgent?.slice(0, 500) ?? null,
+  });
+
+  if (error) {
+    console.error('Error recording portal login event:', error.message);
+  }
+}
+
+async function startPortalSession(
+  supabase: ServiceClient,
+  user: PortalUserRow,
+  method: PortalLoginMethod,
+  meta: PortalRequestMeta
+): Promise<PortalSignInResult> {
+  const token = newToken();
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { error } = await supabase.from('company_portal_sessions').insert({
+    portal_user_id: user.id,
+    company_id: user.company_id,
+    token_hash: hashToken(token),
+    expires_at: expiresAt,
+    ip_address: meta.ip,
+    user_agent: meta.userAgent?.slice(0, 500) ?? null,
+  });
+
+  if (error) {
+    console.error('Error creating portal session:', error.message);
+    return { success: false, error: 'failed' };
+  }
+
+  await supabase
+    .from('company_portal_users')
+    .update({ last_login_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', user.id);
+
+  await recordLoginEvent(
+    supabase,
+    { company_id: user.company_id, portal_user_id: user.id, email: user.email, event: 'login', method },
+    meta
+  );
+
+  return { success: true, token, expiresAt };
+}
+
+async function revokeUserSessions(supabase: ServiceClient, portalUserId: string): Promise<void> {
+  const { error } = await supabase
+    .from('company_portal_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('portal_user_id', portalUserId)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error revoking portal sessions:', error.message);
+  }
+}
+
+/**
+ * Resolve the session behind a cookie token. Returns null when the session is
+ * unknown, expired or revoked, or the user or portal has since been disabled.
+ */
+export async function getPortalSessionByToken(token: string): Promise<CompanyPortalSession | null> {
+  if (!token) return null;
+
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('company_portal_sessions')
+    .select(
+      `
+      id, expires_at, last_seen_at, revoked_at,
+      portal_user:company_portal_users(id, company_id, email, full_name, role, is_active),
+      company:companies(id, name, owner_id, is_broker, is_agent, is_carrier, portal_enabled)
+    `
+    )
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  const row = data as unknown as {
+    id: string;
+    expires_at: string;
+    last_seen_at: string;
+    revoked_at: string | null;
+    portal_user: Related<Pick<PortalUserRow, 'id' | 'company_id' | 'email' | 'full_name' | 'role' | 'is_active'>>;
+    company: Related<PortalCompanyRow>;
+  };
+
+  const user = firstOf(row.portal_user);
+  const company = firstOf(row.company);
+
+  if (row.revoked_at || new Date(row.expires_at).getTime() <= Date.now()) return null;
+  if (!user?.is_active || !company?.portal_enabled || !company.owner_id) return null;
+
+  if (Date.now() - new Date(row.last_seen_at).getTime() > LAST_SEEN_INTERVAL_MS) {
+    await supabase
+      .from('company_portal_sessions')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', row.id);
+  }
+
+  return {
+    session_id: row.id,
+    portal_user_id: user.id,
+    company_id: company.id,
+    company_name: company.name || 'Company',
+    owner_id: company.owner_id,
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    is_broker: company.is_broker || false,
+    is_agent: company.is_agent || false,
+    is_carrier: company.is_carrier || false,
+    expires_at: row.expires_at,
+  };
+}
+
+export async function endPortalSession(token: string, meta: PortalRequestMeta): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const { data } = await supabase
+    .from('company_portal_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('token_hash', hashToken(token))
+    .is('revoked_at', null)
+    .select('portal_user_id, company_id, portal_user:company_portal_users(email)')
+    .maybeSingle();
+
+  if (!data) return;
+
+  const row = data as unknown as {
+    portal_user_id: string;
+    company_id: string;
+    portal_user: Related<{ email: string }>;
+  };
+
+  await recordLoginEvent(
+    supabase,
+    {
+      company_id: row.company_id,
+      portal_user_id: row.portal_user_id,
+      email: firstOf(row.portal_user)?.email || '',
+      event: 'logout',
+    },
+    meta
+  );
+}
+
+// ===========================================
+// SIGN IN
+// ===========================================
+
+async function findActivePortalUser(
+  supabase: ServiceClient,
+  email: string
+): Promise<{ user: PortalUserRow; company: PortalCompanyRow } | null> {
+  const { data } = await supabase
+    .from('company_portal_users')
+    .select(
+      `${PORTAL_USER_COLUMNS}, company:companies(id, name, owner_id, is_broker, is_agent, is_carrier, portal_enabled, portal_access_code)`
+    )
+    .eq('email', email)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  const row = data as unknown as PortalUserRow & { company: Related<PortalCompanyRow> };
+  const company = firstOf(row.company);
+  if (!company) return null;
+
+  return { user: row, company };
+}
+
+async function countRecentFailures(supabase: ServiceClient, user: PortalUserRow): Promise<number> {
+  const windowStart = Date.now() - LOCKOUT_MINUTES * 60 * 1000;
+  const lastLogin = user.last_login_at ? new Date(user.last_login_at).getTime() : 0;
+
+  const { count } = await supabase
+    .from('company_portal_login_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('portal_user_id', user.id)
+    .eq('event', 'login_failed')
+    .gte('created_at', new Date(Math.max(windowStart, lastLogin)).toISOString());
+
+  return count ?? 0;
+}
+
+export async function signInWithPassword(
+  email: string,
+  password: string,
+  meta: PortalRequestMeta
+): Promise<PortalSignInResult> {
+  const normalizedEmail = normalizeEmail(email);
+  if (!normalizedEmail || !password) {
+    return { success: false, error: 'invalid' };
+  }
+
+  const supabase = createServiceRoleClient();
+  const match = await findActivePortalUser(supabase, normalizedEmail);
+
+  if (!match) {
+    await recordLoginEvent(
+      supabase,
+      { company_id: null, portal_user_id: null, email: normalizedEmail, event: 'login_failed', method: 'password', detail: 'Unknown email' },
+      meta
+    );
+    return { success: false, error: 'invalid' };
+  }
+
+  const { user, company } = match;
+  const failEvent = (detail: string) =>
+    recordLoginEvent(
+      supabase,
+      { company_id: user.company_id, portal_user_id: user.id, email: user.email, event: 'login_failed', method: 'password', detail },
+      meta
+    );
+
+  if ((await countRecentFailures(supabase, user)) >= MAX_FAILED_ATTEMPTS) {
+    await failEvent('Locked out after repeated failures');
+    return { success: false, error: 'locked' };
+  }
+
+  let method: PortalLoginMethod = 'password';
+
+  if (user.password_hash) {
+    if (!(await verifyPortalPassword(password, user.password_hash))) {
+      await failEvent('Wrong password');
+      return { success: false, error: 'invalid' };
+    }
+  } else if (company.portal_access_code && accessCodeMatches(password, company.portal_access_code)) {
+    // Accounts migrated from the shared access code: keep the code as this
+    // user's password, hashed, and drop the plaintext copy
+    method = 'access_code';
+    await supabase
+      .from('company_portal_users')
+      .update({
+        password_hash: await hashPortalPassword(password),
+        accepted_at: user.accepted_at ?? new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', user.id);
+    await supabase.from('companies').update({ portal_access_code: null }).eq('id', company.id);
+  } else {
+    await failEvent(company.portal_access_code ? 'Wrong access code' : 'No password set');
+    return { success: false, error: 'invalid' };
+  }
+
+  if (!company.portal_enabled) {
+    await failEvent('Portal disabled');
+    return { success: false, error: 'disabled' };
+  }
+
+  return startPortalSession(supabase, user, method, meta);
+}
+
+/**
+ * Email a single-use sign-in link. Always reports success so the form can't
+ * be used to discover which emails have portal access.
+ */
+export async function sendPortalMagicLink(email: string, meta: PortalRequestMeta): Promise<{ success: true }> {
+  const normalizedEmail = normalizeEmail(email);
+  const supabase = createServiceRoleClient();
+  const match = await findActivePortalUser(supabase, normalizedEmail);
+
+  if (!match || !match.company.portal_enabled) {
+    return { success: true };
+  }
+
+  const { user, company } = match;
+
+  const { count } = await supabase
+    .from('company_portal_tokens')
+    .select('id', { count: 'exact', head: true })
+    .eq('portal_user_id', user.id)
+    .eq('purpose', 'magic_link')
+    .gte('created_at', new Date(Date.now() - MAGIC_LINK_MINUTES * 60 * 1000).toISOString());
+
+  if ((count ?? 0) >= MAX_MAGIC_LINKS_PER_WINDOW) {
+    return { success: true };
+  }
+
+  const token = newToken();
+  const { error } = await supabase.from('company_portal_tokens').insert({
+    portal_user_id: user.id,
+    purpose: 'magic_link',
+    token_hash: hashToken(token),
+    expires_at: new Date(Date.now() + MAGIC_LINK_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  if (error) {
+    console.error('Error creating portal sign-in link:', error.message);
+    return { success: true };
+  }
+
+  await sendCompanyPortalEmail({
+    email: user.email,
+    kind: 'magic_link',
+    recipientName: user.full_name,
+    companyName: company.name || 'Company',
+    role: PORTAL_ROLE_LABELS[user.role],
+    url: `${getBaseUrl()}/company-login/verify?token=${token}`,
+    expiresIn: `${MAGIC_LINK_MINUTES} minutes`,
+  });
+
+  await recordLoginEvent(
+    supabase,
+    { company_id: user.company_id, portal_user_id: user.id, email: user.email, event: 'magic_link_sent', method: 'magic_link' },
+    meta
+  );
+
+  return { success: true };
+}
+
+// Marks the token used in the same statement that checks it, so a link can't
+// be redeemed twice
+async function consumeToken(
+  supabase: ServiceClient,
+  token: string,
+  purpose: 'invite' | 'magic_link'
+): Promise<PortalUserRow | null> {
+  const { data } = await supabase
+    .from('company_portal_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', hashToken(token))
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select(`portal_user:company_portal_users(${PORTAL_USER_COLUMNS})`)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  const user = firstOf((data as unknown as { portal_user: Related<PortalUserRow> }).portal_user);
+  return user?.is_active ? user : null;
+}
+
+export async function signInWithMagicLink(token: string, meta: PortalRequestMeta): Promise<PortalSignInResult> {
+  if (!token) return { success: false, error: 'link_expired' };
+
+  const supabase = createServiceRoleClient();
+  const user = await consumeToken(supabase, token, 'magic_link');
+  if (!user) return { success: false, error: 'link_expired' };
+
+  return startPortalSession(supabase, user, 'magic_link', meta);
+}
+
+// ===========================================
+// INVITES
+// ===========================================
+
+export async function getPortalInvite(
+  token: string
+): Promise<{ email: string; full_name: string | null; role: PortalRole; company_name: string } | null> {
+  if (!token) return null;
+
+  const supabase = createServiceRoleClient();
+  const { data } = await supabase
+    .from('company_portal_tokens')
+    .select('expires_at, used_at, portal_user:company_portal_users(email, full_name, role, is_active, company:companies(name))')
+    .eq('token_hash', hashToken(token))
+    .eq('purpose', 'invite')
+    .maybeSingle();
+
+  if (!data) return null;
+
+  const row = data as unknown as {
+    expires_at: string;
+    used_at: string | null;
+    portal_user: Related<{
+      email: string;
+      full_name: string | null;
+      role: PortalRole;
+      is_active: boolean;
+      company: Related<{ name: string | null }>;
+    }>;
+  };
+
+  const user = firstOf(row.portal_user);
+  if (row.used_at || new Date(row.expires_at).getTime() <= Date.now() || !user?.is_active) return null;
+
+  return {
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    company_name: firstOf(user.company)?.name || 'Company',
+  };
+}
+
+export async function acceptPortalInvite(
+  token: string,
+  values: { full_name: string; password: string },
+  meta: PortalRequestMeta
+): Promise<PortalSignInResult> {
+  const password = portalPasswordSchema.safeParse(values.password);
+  if (!password.success) {
+    return { success: false, error: 'weak_password' };
+  }
+
+  const supabase = createServiceRoleClient();
+  const user = await consumeToken(supabase, token, 'invite');
+  if (!user) return { success: false, error: 'link_expired' };
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('company_portal_users')
+    .update({
+      password_hash: await hashPortalPassword(password.data),
+      full_name: values.full_name.trim() || user.full_name,
+      accepted_at: user.accepted_at ?? now,
+      updated_at: now,
+    })
+    .eq('id', user.id);
+
+  if (error) {
+    console.error('Error accepting portal invite:', error.message);
+    return { success: false, error: 'failed' };
+  }
+
+  await recordLoginEvent(
+    supabase,
+    { company_id: user.company_id, portal_user_id: user.id, email: user.email, event: 'invite_accepted', method: 'invite' },
+    meta
+  );
+
+  return startPortalSession(supabase, user, 'invite', meta);
+}
+
+async function sendInvite(
+  supabase: ServiceClient,
+  user: PortalUserRow,
+  companyName: string,
+  ownerId: string
+): Promise<{ success: boolean; error?: string }> {
+  // Any earlier invite link stops working once a new one goes out
+  await supabase
+    .from('company_portal_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('portal_user_id', user.id)
+    .eq('purpose', 'invite')
+    .is('used_at', null);
+
+  const token = newToken();
+  const { error } = await supabase.from('company_portal_tokens').insert({
+    portal_user_id: user.id,
+    purpose: 'invite',
+    token_hash: hashToken(token),
+    expires_at: new Date(Date.now() + INVITE_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  });
+
+  if (error) {
+    console.error('Error creating portal invite:', error.message);
+    return { success: false, error: 'Failed to create invitation' };
+  }
+
+  const { data: workspace } = await supabase
+    .from('companies')
+    .select('name')
+    .eq('owner_id', ownerId)
+    .eq('is_workspace_company', true)
+    .maybeSingle();
+
+  return sendCompanyPortalEmail({
+    email: user.email,
+    kind: 'invite',
+    recipientName: user.full_name,
+    companyName,
+    invitedByName: workspace?.name,
+    role: PORTAL_ROLE_LABELS[user.role],
+    url: `${getBaseUrl()}/company-login/accept?token=${token}`,
+    expiresIn: `${INVITE_DAYS} days`,
+  });
+}
+
+// ===========================================
+// OWNER MANAGEMENT
+// ===========================================
+
+async function getOwnedCompany(ownerId: string, companyId: string): Promise<{ id: string; name: string } | null> {
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from('companies')
+    .select('id, name')
+    .eq('id', companyId)
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  return data ? { id: data.id, name: data.name || 'Company' } : null;
+}
+
+async function getOwnedPortalUser(ownerId: string, portalUserId: string): Promise<PortalUserRow | null> {
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from('company_portal_users')
+    .select(PORTAL_USER_COLUMNS)
+    .eq('id', portalUserId)
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  return (data as PortalUserRow | null) ?? null;
+}
+
+export async function listCompanyPortalUsers(companyId: string): Promise<CompanyPortalUser[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('company_portal_users')
+    .select(PORTAL_USER_COLUMNS)
+    .eq('company_id', companyId)
+    .order('is_active', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching portal users:', error.message);
+    return [];
+  }
+
+  return ((data || []) as PortalUserRow[]).map(toPortalUser);
+}
+
+export async function getPortalLoginHistory(companyId: string, limit = 25): Promise<PortalLoginEvent[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('company_portal_login_events')
+    .select('id, portal_user_id, email, event, method, ip_address, user_agent, detail, created_at')
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching portal login history:', error.message);
+    return [];
+  }
+
+  return (data || []) as PortalLoginEvent[];
+}
+
+export async function invitePortalUser(
+  ownerId: string,
+  companyId: string,
+  input: PortalInviteInput
+): Promise<{ success: boolean; error?: string }> {
+  const parsed = portalInviteSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || 'Invalid invitation' };
+  }
+
+  const company = await getOwnedCompany(ownerId, companyId);
+  if (!company) return { success: false, error: 'Company not found' };
+
+  const email = normalizeEmail(parsed.data.email);
+  const service = createServiceRoleClient();
+
+  // Emails are unique across every company portal, not just this one
+  const existing = await findActivePortalUser(service, email);
+  if (existing) {
+    return {
+      success: false,
+      error:
+        existing.user.company_id === companyId
+          ? 'That email already has access to this portal'
+          : 'That email already has access to another company portal',
+    };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('company_portal_users')
+    .insert({
+      company_id: companyId,
+      owner_id: ownerId,
+      email,
+      full_name: parsed.data.full_name || null,
+      role: parsed.data.role,
+      invited_by: ownerId,
+      invited_at: new Date().toISOString(),
+    })
+    .select(PORTAL_USER_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error('Error inviting portal user:', error?.message);
+    return { success: false, error: error?.message || 'Failed to invite user' };
+  }
+
+  // Inviting someone is how an owner opens the portal for a company
+  await supabase.from('companies').update({ portal_enabled: true }).eq('id', companyId).eq('owner_id', ownerId);
+
+  const sent = await sendInvite(service, data as PortalUserRow, company.name, ownerId);
+  if (!sent.success) {
+    return { success: false, error: `User added, but the invitation email failed: ${sent.error || 'unknown error'}` };
+  }
+
+  return { success: true };
+}
+
+export async function resendPortalInvite(
+  ownerId: string,
+  portalUserId: string
+): Promise<{ success: boolean; error?: string }> {
+  const user = await getOwnedPortalUser(ownerId, portalUserId);
+  if (!user || !user.is_active) return { success: false, error: 'Portal user not found' };
+  if (user.accepted_at) return { success: false, error: 'This user has already accepted' };
+
+  const company = await getOwnedCompany(ownerId, user.company_id);
+  if (!company) return { success: false, error: 'Company not found' };
+
+  const supabase = await createClient();
+  await supabase
+    .from('company_portal_users')
+    .update({ invited_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', user.id);
+
+  return sendInvite(createServiceRoleClient(), user, company.name, ownerId);
+}
+
+// Sessions look the role up on every request, so a change applies immediately
+export async function updatePortalUserRole(
+  ownerId: string,
+  portalUserId: string,
+  role: PortalRole
+): Promise<{ success: boolean; error?: string }> {
+  if (!(role in PORTAL_ROLE_LABELS)) return { success: false, error: 'Invalid role' };
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('company_portal_users')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', portalUserId)
+    .eq('owner_id', ownerId)
+    .select('id')
+    .maybeSingle();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Portal user not found' };
+  }
+
+  return { success: true };
+}
+
+export async function deactivatePortalUser(
+  ownerId: string,
+  portalUserId: string
+): Promise<{ success: boolean; error?: string }> {
+  const user = await getOwnedPortalUser(ownerId, portalUserId);
+  if (!user) return { success: false, error: 'Portal user not found' };
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('company_portal_users')
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq('id', user.id);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const service = createServiceRoleClient();
+  await revokeUserSessions(service, user.id);
+  await recordLoginEvent(service, {
+    company_id: user.company_id,
+    portal_user_id: user.id,
+    email: user.email,
+    event: 'sessions_revoked',
+    detail: 'Access removed by owner',
+  });
+
+  return { success: true };
+}
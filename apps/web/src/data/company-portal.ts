@@ -1,59 +1,6 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase-server';
-
-// ===========================================
-// COMPANY PORTAL LOGIN
-// ===========================================
-
-export interface CompanyPortalLoginResult {
-  success: boolean;
-  company?: {
-    company_id: string;
-    name: string;
-    email: string;
-    owner_id: string;
-    is_broker: boolean;
-    is_agent: boolean;
-    is_carrier: boolean;
-  };
-  error?: string;
-}
-
-export async function verifyCompanyPortalLogin(
-  email: string,
-  accessCode: string
-): Promise<CompanyPortalLoginResult> {
-  const supabase = await createClient();
-
-  // Look for company with matching portal credentials
-  const { data: company, error } = await supabase
-    .from('companies')
-    .select('id, name, owner_id, is_broker, is_agent, is_carrier, portal_email, portal_access_code, portal_enabled')
-    .eq('portal_email', email.toLowerCase())
-    .eq('portal_enabled', true)
-    .single();
-
-  if (error || !company) {
-    return { success: false, error: 'Invalid email or access code' };
-  }
-
-  // Simple access code check (in production, use proper hashing)
-  if (company.portal_access_code !== accessCode) {
-    return { success: false, error: 'Invalid email or access code' };
-  }
-
-  return {
-    success: true,
-    company: {
-      company_id: company.id,
-      name: company.name || 'Company',
-      email: company.portal_email,
-      owner_id: company.owner_id || '',
-      is_broker: company.is_broker || false,
-      is_agent: company.is_agent || false,
-      is_carrier: company.is_carrier || false,
-    },
-  };
-}
+import { portalRoleAllows, type CompanyPortalSession } from '@/data/company-portal-auth-shared';
 
 // ===========================================
 // DASHBOARD STATS
@@ -84,10 +31,9 @@ export async function getCompanyDashboardStats(companyId: string) {
 // LOAD MANAGEMENT
 // ===========================================
 
-// Create a load (company posting a load)
+// Create a load (company posting a load); needs a portal role that can post
 export async function createCompanyLoad(
-  companyId: string,
-  ownerId: string,
+  session: CompanyPortalSession,
   data: {
     internal_reference?: string;
     storage_location_id?: string;
@@ -108,6 +54,10 @@ export async function createCompanyLoad(
     notes?: string;
   }
 ): Promise<{ success: boolean; id?: string; load_number?: string; error?: string }> {
+  if (!portalRoleAllows(session.role, 'post_loads')) {
+    return { success: false, error: "Your portal role doesn't allow posting loads" };
+  }
+
   const supabase = await createClient();
 
   // Generate load number
@@ -118,8 +68,8 @@ export async function createCompanyLoad(
   const { data: result, error } = await supabase
     .from('loads')
     .insert({
-      company_id: companyId,
-      owner_id: ownerId,
+      company_id: session.company_id,
+      owner_id: session.owner_id,
       load_number,
       internal_reference: data.internal_reference,
       storage_location_id: data.storage_location_id || null,
@@ -401,12 +351,14 @@ export async function cancelPostedLoad(
 
 /**
  * Repost a cancelled or draft load to marketplace
+ * Award rules reposting unrequested loads pass a service role client
  */
 export async function repostLoadToMarketplace(
   loadId: string,
-  ownerId: string
+  ownerId: string,
+  client?: SupabaseClient
 ): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient();
+  const supabase = client ?? (await createClient());
 
   // Verify ownership
   const { data: load, error: fetchError } = await supabase
@@ -721,6 +673,10 @@ export async function getCompanyLoadsWithRequests(companyId: string): Promise<
     carrier: { id: string; name: string } | null;
     request_count: number;
     pending_request_count: number;
+    // Pending requests where the poster countered and the carrier hasn't answered
+    awaiting_carrier_count: number;
+    // Pending requests with terms both sides agreed to, ready to accept
+    agreed_request_count: number;
   }>
 > {
   const supabase = await createClient();
@@ -767,15 +723,19 @@ export async function getCompanyLoadsWithRequests(companyId: string): Promise<
 
   const { data: requestCounts } = await supabase
     .from('load_requests')
-    .select('load_id, status')
+    .select('load_id, status, awaiting_response_from, agreed_rate')
     .in('load_id', loadIds);
 
   // Count requests per load
-  const countsMap = new Map<string, { total: number; pending: number }>();
+  const countsMap = new Map<string, { total: number; pending: number; awaitingCarrier: number; agreed: number }>();
   requestCounts?.forEach((r) => {
-    const current = countsMap.get(r.load_id) || { total: 0, pending: 0 };
+    const current = countsMap.get(r.load_id) || { total: 0, pending: 0, awaitingCarrier: 0, agreed: 0 };
     current.total++;
-    if (r.status === 'pending') current.pending++;
+    if (r.status === 'pending') {
+      current.pending++;
+      if (r.awaiting_response_from === 'carrier') current.awaitingCarrier++;
+      if (r.agreed_rate !== null) current.agreed++;
+    }
     countsMap.set(r.load_id, current);
   });
 
@@ -785,6 +745,8 @@ export async function getCompanyLoadsWithRequests(companyId: string): Promise<
     carrier: Array.isArray(load.carrier) ? load.carrier[0] : load.carrier,
     request_count: countsMap.get(load.id)?.total || 0,
     pending_request_count: countsMap.get(load.id)?.pending || 0,
+    awaiting_carrier_count: countsMap.get(load.id)?.awaitingCarrier || 0,
+    agreed_request_count: countsMap.get(load.id)?.agreed || 0,
   })) as Array<{
     id: string;
     load_number: string;
@@ -809,6 +771,10 @@ export async function getCompanyLoadsWithRequests(companyId: string): Promise<
     carrier: { id: string; name: string } | null;
     request_count: number;
     pending_request_count: number;
+    // Pending requests where the poster countered and the carrier hasn't answered
+    awaiting_carrier_count: number;
+    // Pending requests with terms both sides agreed to, ready to accept
+    agreed_request_count: number;
   }>;
 }
 
@@ -839,6 +805,12 @@ export async function getLoadRequestsForCompany(loadId: string): Promise<
     proposed_load_date_end: string | null;
     proposed_delivery_date_start: string | null;
     proposed_delivery_date_end: string | null;
+    // Negotiation
+    awaiting_response_from: 'carrier' | 'poster';
+    agreed_rate: number | null;
+    agreed_rate_type: string | null;
+    agreed_load_date: string | null;
+    agreed_max_cuft: number | null;
     carrier: {
       id: string;
       name: string;
@@ -915,6 +887,11 @@ export async function getLoadRequestsForCompany(loadId: string): Promise<
     proposed_load_date_end: string | null;
     proposed_delivery_date_start: string | null;
     proposed_delivery_date_end: string | null;
+    awaiting_response_from: 'carrier' | 'poster';
+    agreed_rate: number | null;
+    agreed_rate_type: string | null;
+    agreed_load_date: string | null;
+    agreed_max_cuft: number | null;
     carrier: {
       id: string;
       name: string;
@@ -1,4 +1,5 @@
 import { createClient } from '@/lib/supabase-server';
+import { getPastDueStorageCharges } from '@/data/storage-billing';
 
 export type AlertSeverity = 'warning' | 'urgent' | 'critical' | 'expired';
 
@@ -317,6 +318,35 @@ export async function checkStoragePaymentCompliance(storageLocationId: string):
   return issues;
 }
 
+// Check storage billed to customers/partners that hasn't been paid on time
+export async function checkStorageBillingCompliance(
+  userId: string
+): Promise<{ issue: ComplianceIssue; storageLocationId: string | null }[]> {
+  let charges: Awaited<ReturnType<typeof getPastDueStorageCharges>>;
+  try {
+    charges = await getPastDueStorageCharges(userId);
+  } catch (error) {
+    console.error('Error checking storage billing:', error);
+    return [];
+  }
+
+  return charges.map((charge) => {
+    const days = -charge.days_past_due;
+    return {
+      storageLocationId: charge.storage_location_id,
+      issue: {
+        type: 'storage_billing_past_due',
+        item: `Storage ${charge.load_number || 'load'} - ${charge.company_name || 'customer'} ($${charge.balance.toFixed(2)})`,
+        itemId: charge.id,
+        expiryDate: charge.due_date,
+        daysUntil: days,
+        severity: getSeverity(days),
+        message: `Storage charge past due by ${charge.days_past_due} days`,
+      },
+    };
+  });
+}
+
 // Get all compliance alerts for a user
 export async function getComplianceAlertsForUser(userId: string): Promise<ComplianceAlert[]> {
   const supabase = await createClient();
@@ -682,6 +712,12 @@ export async function generateComplianceAlerts(userId: string, companyId?: strin
     issues.forEach(issue => allIssues.push({ issue, storageLocationId: storageLocation.id }));
   }
 
+  // Check storage billed to customers and partners
+  const storageBillingIssues = await checkStorageBillingCompliance(userId);
+  storageBillingIssues.forEach(({ issue, storageLocationId }) =>
+    allIssues.push({ issue, storageLocationId: storageLocationId || undefined })
+  );
+
   // Mark existing alerts as resolved first (we'll recreate active ones)
   await supabase
     .from('compliance_alerts')
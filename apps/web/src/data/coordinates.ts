@@ -0,0 +1,227 @@
+import { createClient } from '@/lib/supabase-server';
+import { geocodeAddresses, type AddressToGeocode, type GeoCoordinates } from '@/lib/geocoding';
+
+/**
+ * Stored coordinates for loads, trips and storage locations, geocoded from
+ * their addresses against the bundled ZIP dataset when they're written
+ */
+
+export interface LoadAddressFields {
+  pickup_city?: string | null;
+  pickup_state?: string | null;
+  pickup_postal_code?: string | null;
+  loading_city?: string | null;
+  loading_state?: string | null;
+  loading_postal_code?: string | null;
+  delivery_city?: string | null;
+  delivery_state?: string | null;
+  delivery_postal_code?: string | null;
+  dropoff_city?: string | null;
+  dropoff_state?: string | null;
+  dropoff_postal_code?: string | null;
+}
+
+export interface LoadCoordinates {
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  delivery_lat: number | null;
+  delivery_lng: number | null;
+}
+
+export interface TripAddressFields {
+  origin_city?: string | null;
+  origin_state?: string | null;
+  origin_postal_code?: string | null;
+  destination_city?: string | null;
+  destination_state?: string | null;
+  destination_postal_code?: string | null;
+}
+
+export interface TripCoordinates {
+  origin_lat: number | null;
+  origin_lng: number | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
+}
+
+export interface StorageAddressFields {
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+export interface StorageCoordinates {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Rows per table per backfill run
+const BACKFILL_BATCH_SIZE = 500;
+
+// ============================================
+// GEOCODING
+// ============================================
+
+export async function geocodeLoadCoordinates(load: LoadAddressFields): Promise<LoadCoordinates> {
+  const [pickup, delivery] = await geocodeAddresses(loadAddresses(load));
+  return toLoadCoordinates(pickup, delivery);
+}
+
+export async function geocodeTripCoordinates(trip: TripAddressFields): Promise<TripCoordinates> {
+  const [origin, destination] = await geocodeAddresses(tripAddresses(trip));
+  return toTripCoordinates(origin, destination);
+}
+
+export async function geocodeStorageCoordinates(location: StorageAddressFields): Promise<StorageCoordinates> {
+  const [coordinates] = await geocodeAddresses([storageAddress(location)]);
+  return toStorageCoordinates(coordinates);
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Geocode an owner's loads, trips and storage locations that don't have
+ * stored coordinates yet, up to a batch of each per call
+ */
+export async function backfillCoordinates(ownerId: string): Promise<{
+  success: boolean;
+  loads?: number;
+  trips?: number;
+  storage_locations?: number;
+  error?: string;
+}> {
+  const supabase = await createClient();
+
+  const [loadsResult, tripsResult, storageResult] = await Promise.all([
+    supabase
+      .from('loads')
+      .select(
+        'id, pickup_city, pickup_state, pickup_postal_code, loading_city, loading_state, loading_postal_code, delivery_city, delivery_state, delivery_postal_code, dropoff_city, dropoff_state, dropoff_postal_code'
+      )
+      .eq('owner_id', ownerId)
+      .is('pickup_lat', null)
+      .limit(BACKFILL_BATCH_SIZE),
+    supabase
+      .from('trips')
+      .select('id, origin_city, origin_state, origin_postal_code, destination_city, destination_state, destination_postal_code')
+      .eq('owner_id', ownerId)
+      .is('origin_lat', null)
+      .limit(BACKFILL_BATCH_SIZE),
+    supabase
+      .from('storage_locations')
+      .select('id, city, state, zip')
+      .eq('owner_id', ownerId)
+      .is('latitude', null)
+      .limit(BACKFILL_BATCH_SIZE),
+  ]);
+
+  const fetchError = loadsResult.error || tripsResult.error || storageResult.error;
+  if (fetchError) {
+    return { success: false, error: fetchError.message };
+  }
+
+  const loads = loadsResult.data || [];
+  const trips = tripsResult.data || [];
+  const storageLocations = storageResult.data || [];
+
+  // One batch call so repeated addresses are only resolved once
+  const coordinates = await geocodeAddresses([
+    ...loads.flatMap(loadAddresses),
+    ...trips.flatMap(tripAddresses),
+    ...storageLocations.map(storageAddress),
+  ]);
+
+  let offset = 0;
+  const updates: PromiseLike<{ error: { message: string } | null }>[] = [];
+
+  for (const load of loads) {
+    const payload = toLoadCoordinates(coordinates[offset], coordinates[offset + 1]);
+    offset += 2;
+    if (payload.pickup_lat === null && payload.delivery_lat === null) continue;
+    updates.push(supabase.from('loads').update(payload).eq('id', load.id).eq('owner_id', ownerId));
+  }
+
+  for (const trip of trips) {
+    const payload = toTripCoordinates(coordinates[offset], coordinates[offset + 1]);
+    offset += 2;
+    if (payload.origin_lat === null && payload.destination_lat === null) continue;
+    updates.push(supabase.from('trips').update(payload).eq('id', trip.id).eq('owner_id', ownerId));
+  }
+
+  for (const location of storageLocations) {
+    const payload = toStorageCoordinates(coordinates[offset]);
+    offset += 1;
+    if (payload.latitude === null) continue;
+    updates.push(supabase.from('storage_locations').update(payload).eq('id', location.id).eq('owner_id', ownerId));
+  }
+
+  const results = await Promise.all(updates);
+  const updateError = results.find((result) => result.error)?.error;
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  return {
+    success: true,
+    loads: loads.length,
+    trips: trips.length,
+    storage_locations: storageLocations.length,
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Company loads keep their pickup in the loading snapshot; partner loads
+// record the delivery as the dropoff
+function loadAddresses(load: LoadAddressFields): AddressToGeocode[] {
+  const hasPickup = load.pickup_city || load.pickup_postal_code;
+  const hasDelivery = load.delivery_city || load.delivery_postal_code;
+  return [
+    hasPickup
+      ? { city: load.pickup_city, state: load.pickup_state, postalCode: load.pickup_postal_code }
+      : { city: load.loading_city, state: load.loading_state, postalCode: load.loading_postal_code },
+    hasDelivery
+      ? { city: load.delivery_city, state: load.delivery_state, postalCode: load.delivery_postal_code }
+      : { city: load.dropoff_city, state: load.dropoff_state, postalCode: load.dropoff_postal_code },
+  ];
+}
+
+function tripAddresses(trip: TripAddressFields): AddressToGeocode[] {
+  return [
+    { city: trip.origin_city, state: trip.origin_state, postalCode: trip.origin_postal_code },
+    { city: trip.destination_city, state: trip.destination_state, postalCode: trip.destination_postal_code },
+  ];
+}
+
+function storageAddress(location: StorageAddressFields): AddressToGeocode {
+  return { city: location.city, state: location.state, postalCode: location.zip };
+}
+
+function toLoadCoordinates(pickup: GeoCoordinates | null, delivery: GeoCoordinates | null): LoadCoordinates {
+  return {
+    pickup_lat: pickup?.lat ?? null,
+    pickup_lng: pickup?.lng ?? null,
+    delivery_lat: delivery?.lat ?? null,
+    delivery_lng: delivery?.lng ?? null,
+  };
+}
+
+function toTripCoordinates(origin: GeoCoordinates | null, destination: GeoCoordinates | null): TripCoordinates {
+  return {
+    origin_lat: origin?.lat ?? null,
+    origin_lng: origin?.lng ?? null,
+    destination_lat: destination?.lat ?? null,
+    destination_lng: destination?.lng ?? null,
+  };
+}
+
+function toStorageCoordinates(coordinates: GeoCoordinates | null): StorageCoordinates {
+  return {
+    latitude: coordinates?.lat ?? null,
+    longitude: coordinates?.lng ?? null,
+  };
+}
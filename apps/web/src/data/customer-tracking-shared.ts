@@ -0,0 +1,143 @@
+/**
+ * Customer tracking types and ETA math, safe to import from client components
+ *
+ * The customer page only ever sees what's in CustomerTrackingView: the truck
+ * position is reduced to a city and state, and is hidden entirely unless the
+ * trip/driver/company shares location.
+ */
+
+export type CustomerNotificationKind = 'link' | 'out_for_delivery' | 'arriving_soon';
+
+export type TrackingChannel = 'sms' | 'email';
+
+export interface CustomerTrackingLink {
+  id: string;
+  load_id: string;
+  token: string;
+  is_active: boolean;
+  notify_customer: boolean;
+  out_for_delivery_notified_at: string | null;
+  arriving_notified_at: string | null;
+  last_sent_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+// What the owner's load page shows about the customer link
+export interface LoadCustomerTracking {
+  link: CustomerTrackingLink | null;
+  url: string | null;
+  has_customer_phone: boolean;
+  has_customer_email: boolean;
+}
+
+export interface CustomerTrackingView {
+  load_number: string;
+  company: {
+    name: string;
+    phone: string | null;
+  };
+  status: CustomerTrackingStatus;
+  status_label: string;
+  status_updated_at: string | null;
+  delivery_window: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  driver_first_name: string | null;
+  // City-level only, and null when location sharing is off
+  truck_location: {
+    city: string | null;
+    state: string | null;
+    updated_at: string;
+  } | null;
+  eta: string | null;
+  balance_due: number | null;
+}
+
+export type CustomerTrackingStatus =
+  | 'scheduled'
+  | 'loading'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'in_storage';
+
+// loads.load_status → what the customer sees
+export const CUSTOMER_STATUS_BY_LOAD_STATUS: Record<string, CustomerTrackingStatus> = {
+  pending: 'scheduled',
+  accepted: 'scheduled',
+  loading: 'loading',
+  loaded: 'in_transit',
+  in_transit: 'out_for_delivery',
+  delivered: 'delivered',
+  storage_completed: 'in_storage',
+};
+
+export const CUSTOMER_STATUS_LABELS: Record<CustomerTrackingStatus, string> = {
+  scheduled: 'Scheduled',
+  loading: 'Being loaded',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  in_storage: 'In storage',
+};
+
+export const CUSTOMER_STATUS_STEPS: CustomerTrackingStatus[] = [
+  'scheduled',
+  'loading',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+];
+
+// ETA assumptions: straight-line miles stretched to road miles at highway pace
+export const ETA_AVERAGE_SPEED_MPH = 50;
+export const ETA_ROAD_DISTANCE_FACTOR = 1.25;
+// Older pings don't say where the truck is now
+export const ETA_MAX_PING_AGE_MINUTES = 120;
+// "Driver arriving in about an hour" goes out once the ETA drops below this
+export const ARRIVING_SOON_MINUTES = 60;
+
+/**
+ * Estimated arrival from the latest ping. Null when the ping is too old to
+ * trust or either end has no coordinates.
+ */
+export function estimateArrival(
+  straightLineMiles: number | null,
+  pingAt: string | null,
+  now: Date = new Date()
+): Date | null {
+  if (straightLineMiles == null || !pingAt) return null;
+
+  const pingAgeMinutes = (now.getTime() - new Date(pingAt).getTime()) / 60000;
+  if (pingAgeMinutes > ETA_MAX_PING_AGE_MINUTES) return null;
+
+  const driveMinutes = ((straightLineMiles * ETA_ROAD_DISTANCE_FACTOR) / ETA_AVERAGE_SPEED_MPH) * 60;
+  // Time since the ping counts as driving already done
+  return new Date(now.getTime() + Math.max(0, driveMinutes - pingAgeMinutes) * 60000);
+}
+
+export function formatDeliveryWindow(load: {
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  delivery_date: string | null;
+  rfd_date: string | null;
+}): string | null {
+  const formatDay = (value: string) =>
+    new Date(value.length === 10 ? `${value}T12:00:00` : value).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  if (load.delivery_window_start && load.delivery_window_end) {
+    const start = formatDay(load.delivery_window_start);
+    const end = formatDay(load.delivery_window_end);
+    return start === end ? start : `${start} – ${end}`;
+  }
+  if (load.delivery_window_start) return `From ${formatDay(load.delivery_window_start)}`;
+  if (load.delivery_date) return formatDay(load.delivery_date);
+  if (load.rfd_date) return `Ready for delivery ${formatDay(load.rfd_date)}`;
+  return null;
+}
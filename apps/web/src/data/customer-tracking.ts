@@ -0,0 +1,530 @@
+import { createClient } from '@/lib/supabase-server';
+import { createServiceRoleClient } from '@/lib/supabase-admin';
+import { calculateDistance } from '@/lib/geocoding';
+import { getEffectiveVisibility } from '@/lib/matching/visibility';
+import { sendCustomerTrackingEmail } from '@/lib/email/notifications';
+import { sendSms } from '@/lib/sms/client';
+import {
+  ARRIVING_SOON_MINUTES,
+  CUSTOMER_STATUS_BY_LOAD_STATUS,
+  CUSTOMER_STATUS_LABELS,
+  estimateArrival,
+  formatDeliveryWindow,
+  type CustomerNotificationKind,
+  type CustomerTrackingLink,
+  type CustomerTrackingView,
+  type LoadCustomerTracking,
+  type TrackingChannel,
+} from '@/data/customer-tracking-shared';
+
+/**
+ * Customer tracking links
+ *
+ * Each load can have one active tokenized link at /track/<token> for the
+ * household customer. The page and the automatic notifications are built
+ * from the same snapshot (buildTrackingSnapshot), read with the service role
+ * since the customer has no account.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+const LINK_COLUMNS =
+  'id, load_id, token, is_active, notify_customer, out_for_delivery_notified_at, arriving_notified_at, last_sent_at, view_count, last_viewed_at, created_at';
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://moveboss.com';
+}
+
+function getTrackingUrl(token: string): string {
+  return `${getBaseUrl()}/track/${token}`;
+}
+
+// 24 base62 characters; the page shows the balance due, so not guessable
+function generateTrackingToken(): string {
+  const chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes).map((b) => chars[b % 62]).join('');
+}
+
+function firstOf<T>(value: T | T[] | null | undefined): T | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+// ============================================================================
+// OWNER: MANAGE LINKS
+// ============================================================================
+
+/**
+ * The load's active link plus which channels it can be sent on
+ */
+export async function getLoadCustomerTracking(
+  loadId: string,
+  userId: string
+): Promise<LoadCustomerTracking> {
+  const supabase = await createClient();
+
+  const [{ data: link, error }, { data: load }] = await Promise.all([
+    supabase
+      .from('load_tracking_links')
+      .select(LINK_COLUMNS)
+      .eq('load_id', loadId)
+      .eq('owner_id', userId)
+      .eq('is_active', true)
+      .maybeSingle(),
+    supabase
+      .from('loads')
+      .select('customer_phone, customer_email')
+      .eq('id', loadId)
+      .eq('owner_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch tracking link: ${error.message}`);
+  }
+
+  return {
+    link: link as CustomerTrackingLink | null,
+    url: link ? getTrackingUrl(link.token) : null,
+    has_customer_phone: !!load?.customer_phone,
+    has_customer_email: !!load?.customer_email,
+  };
+}
+
+/**
+ * Create the load's tracking link, replacing (deactivating) any earlier one
+ */
+export async function createTrackingLink(
+  loadId: string,
+  userId: string,
+  options: { notifyCustomer: boolean }
+): Promise<{ success: boolean; link?: CustomerTrackingLink; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: load } = await supabase
+    .from('loads')
+    .select('id')
+    .eq('id', loadId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (!load) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  const { error: deactivateError } = await supabase
+    .from('load_tracking_links')
+    .update({ is_active: false })
+    .eq('load_id', loadId)
+    .eq('owner_id', userId)
+    .eq('is_active', true);
+
+  if (deactivateError) {
+    return { success: false, error: deactivateError.message };
+  }
+
+  const { data, error } = await supabase
+    .from('load_tracking_links')
+    .insert({
+      owner_id: userId,
+      load_id: loadId,
+      token: generateTrackingToken(),
+      notify_customer: options.notifyCustomer,
+    })
+    .select(LINK_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to create tracking link' };
+  }
+
+  return { success: true, link: data as CustomerTrackingLink };
+}
+
+export async function updateTrackingLink(
+  linkId: string,
+  userId: string,
+  updates: { notify_customer?: boolean; is_active?: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('load_tracking_links')
+    .update(updates)
+    .eq('id', linkId)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
+
+/**
+ * Text or email the tracking link to the customer on the load
+ */
+export async function sendTrackingLink(
+  linkId: string,
+  userId: string,
+  channel: TrackingChannel
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: link } = await supabase
+    .from('load_tracking_links')
+    .select('id, load_id, token')
+    .eq('id', linkId)
+    .eq('owner_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!link) {
+    return { success: false, error: 'Tracking link not found' };
+  }
+
+  const snapshot = await buildTrackingSnapshot(createServiceRoleClient(), link.load_id);
+  if (!snapshot) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  const result = await notifyCustomer(snapshot, link.token, 'link', [channel]);
+  if (!result.success) {
+    return result;
+  }
+
+  await supabase
+    .from('load_tracking_links')
+    .update({ last_sent_at: new Date().toISOString() })
+    .eq('id', link.id);
+
+  return { success: true };
+}
+
+// ============================================================================
+// PUBLIC: TRACKING PAGE
+// ============================================================================
+
+/**
+ * The customer's view for a token, or null when the link doesn't exist or
+ * was deactivated. Counts the view.
+ */
+export async function getCustomerTrackingView(token: string): Promise<CustomerTrackingView | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data: link } = await supabase
+    .from('load_tracking_links')
+    .select('id, load_id, view_count')
+    .eq('token', token)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!link) return null;
+
+  const snapshot = await buildTrackingSnapshot(supabase, link.load_id);
+  if (!snapshot) return null;
+
+  // Fire and forget
+  supabase
+    .from('load_tracking_links')
+    .update({ view_count: (link.view_count || 0) + 1, last_viewed_at: new Date().toISOString() })
+    .eq('id', link.id)
+    .then(() => {});
+
+  return snapshot.view;
+}
+
+// ============================================================================
+// AUTOMATIC CUSTOMER NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Called when the driver starts the delivery. Sends once per link, and only
+ * when the owner opted the customer in.
+ */
+export async function notifyCustomerOutForDelivery(loadId: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { data: link } = await supabase
+    .from('load_tracking_links')
+    .select('id, token')
+    .eq('load_id', loadId)
+    .eq('is_active', true)
+    .eq('notify_customer', true)
+    .is('out_for_delivery_notified_at', null)
+    .maybeSingle();
+
+  if (!link) return;
+
+  const snapshot = await buildTrackingSnapshot(supabase, loadId);
+  if (snapshot?.view.status !== 'out_for_delivery') return;
+
+  const result = await notifyCustomer(snapshot, link.token, 'out_for_delivery');
+  if (result.success) {
+    await supabase
+      .from('load_tracking_links')
+      .update({ out_for_delivery_notified_at: new Date().toISOString() })
+      .eq('id', link.id);
+  }
+}
+
+/**
+ * Scheduler job: message customers whose truck is now within about an hour
+ * of the delivery address. Only loads out for delivery with a fresh ping and
+ * location sharing on qualify.
+ */
+export async function sendArrivingSoonNotifications(): Promise<{
+  success: boolean;
+  notified: number;
+  error?: string;
+}> {
+  const supabase = createServiceRoleClient();
+
+  const { data: links, error } = await supabase
+    .from('load_tracking_links')
+    .select('id, token, load_id, load:load_id(load_status)')
+    .eq('is_active', true)
+    .eq('notify_customer', true)
+    .is('arriving_notified_at', null);
+
+  if (error) {
+    return { success: false, notified: 0, error: error.message };
+  }
+
+  const now = new Date();
+  let notified = 0;
+
+  for (const link of links || []) {
+    const load = firstOf(link.load as { load_status: string | null } | { load_status: string | null }[] | null);
+    if (load?.load_status !== 'in_transit') continue;
+
+    const snapshot = await buildTrackingSnapshot(supabase, link.load_id, now);
+    if (!snapshot?.view.eta) continue;
+
+    const minutesAway = (new Date(snapshot.view.eta).getTime() - now.getTime()) / 60000;
+    if (minutesAway > ARRIVING_SOON_MINUTES) continue;
+
+    const result = await notifyCustomer(snapshot, link.token, 'arriving_soon');
+    if (!result.success) continue;
+
+    await supabase
+      .from('load_tracking_links')
+      .update({ arriving_notified_at: now.toISOString() })
+      .eq('id', link.id);
+    notified++;
+  }
+
+  return { success: true, notified };
+}
+
+// ============================================================================
+// INTERNAL
+// ============================================================================
+
+interface TrackingSnapshot {
+  view: CustomerTrackingView;
+  customer: {
+    name: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  company_email: string | null;
+}
+
+/**
+ * Everything the page and the notifications need about a load, with the
+ * truck position reduced to city level and the ETA from the latest ping
+ */
+async function buildTrackingSnapshot(
+  supabase: ServiceClient,
+  loadId: string,
+  now: Date = new Date()
+): Promise<TrackingSnapshot | null> {
+  const { data: load } = await supabase
+    .from('loads')
+    .select(`
+      id, owner_id, load_number, load_status, trip_id, assigned_driver_id,
+      delivery_city, delivery_state, delivery_lat, delivery_lng,
+      delivery_date, delivery_window_start, delivery_window_end, rfd_date,
+      customer_name, customer_phone, customer_email,
+      balance_due_on_delivery, contract_balance_due, balance_due,
+      accepted_at, loading_started_at, loading_finished_at, delivery_started_at, delivery_finished_at
+    `)
+    .eq('id', loadId)
+    .maybeSingle();
+
+  if (!load) return null;
+
+  const [{ data: company }, { data: trip }, { data: settings }] = await Promise.all([
+    supabase
+      .from('companies')
+      .select('name, dispatch_contact_phone, primary_contact_phone, dispatch_contact_email, primary_contact_email')
+      .eq('owner_id', load.owner_id)
+      .eq('is_workspace_company', true)
+      .maybeSingle(),
+    load.trip_id
+      ? supabase.from('trips').select('driver_id, share_location').eq('id', load.trip_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+    supabase
+      .from('company_matching_settings')
+      .select('default_location_sharing')
+      .eq('owner_id', load.owner_id)
+      .maybeSingle(),
+  ]);
+
+  const driverId = trip?.driver_id || load.assigned_driver_id;
+  const { data: driver } = driverId
+    ? await supabase
+        .from('drivers')
+        .select('id, first_name, location_sharing_enabled')
+        .eq('id', driverId)
+        .maybeSingle()
+    : { data: null };
+
+  const status = CUSTOMER_STATUS_BY_LOAD_STATUS[load.load_status || 'pending'] ?? 'scheduled';
+  const delivering = status === 'in_transit' || status === 'out_for_delivery';
+
+  let truckLocation: CustomerTrackingView['truck_location'] = null;
+  let eta: Date | null = null;
+
+  if (driver && delivering) {
+    const { shareLocation } = getEffectiveVisibility({
+      trip: { share_location: trip?.share_location ?? null, share_capacity: null, trip_capacity_visibility: null },
+      driver: {
+        location_sharing_enabled: driver.location_sharing_enabled,
+        auto_post_capacity: false,
+        capacity_visibility: 'private',
+      },
+      companySettings: {
+        default_location_sharing: settings?.default_location_sharing ?? false,
+        default_capacity_visibility: 'private',
+      },
+    });
+
+    if (shareLocation) {
+      const { data: ping } = await supabase
+        .from('driver_locations')
+        .select('latitude, longitude, city, state, created_at')
+        .eq('driver_id', driver.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (ping) {
+        truckLocation = { city: ping.city, state: ping.state, updated_at: ping.created_at };
+
+        const miles =
+          ping.latitude != null && ping.longitude != null && load.delivery_lat != null && load.delivery_lng != null
+            ? calculateDistance(
+                { lat: Number(ping.latitude), lng: Number(ping.longitude) },
+                { lat: Number(load.delivery_lat), lng: Number(load.delivery_lng) }
+              )
+            : null;
+        eta = estimateArrival(miles, ping.created_at, now);
+      }
+    }
+  }
+
+  const statusUpdatedAt: Record<string, string | null> = {
+    scheduled: load.accepted_at,
+    loading: load.loading_started_at,
+    in_transit: load.loading_finished_at,
+    out_for_delivery: load.delivery_started_at,
+    delivered: load.delivery_finished_at,
+    in_storage: load.delivery_finished_at,
+  };
+
+  const balance = load.balance_due_on_delivery ?? load.contract_balance_due ?? load.balance_due;
+
+  return {
+    view: {
+      load_number: load.load_number,
+      company: {
+        name: company?.name || 'Your moving company',
+        phone: company?.dispatch_contact_phone || company?.primary_contact_phone || null,
+      },
+      status,
+      status_label: CUSTOMER_STATUS_LABELS[status],
+      status_updated_at: statusUpdatedAt[status] ?? null,
+      delivery_window: formatDeliveryWindow(load),
+      delivery_city: load.delivery_city,
+      delivery_state: load.delivery_state,
+      driver_first_name: driver?.first_name ?? null,
+      truck_location: truckLocation,
+      eta: eta?.toISOString() ?? null,
+      balance_due: balance != null && Number(balance) > 0 && status !== 'delivered' ? Number(balance) : null,
+    },
+    customer: {
+      name: load.customer_name,
+      phone: load.customer_phone,
+      email: load.customer_email,
+    },
+    company_email: company?.dispatch_contact_email || company?.primary_contact_email || null,
+  };
+}
+
+/**
+ * Send a customer message over the given channels (default: every channel
+ * the load has contact details for). Succeeds if any channel went out.
+ */
+async function notifyCustomer(
+  snapshot: TrackingSnapshot,
+  token: string,
+  kind: CustomerNotificationKind,
+  channels: TrackingChannel[] = ['sms', 'email']
+): Promise<{ success: boolean; error?: string }> {
+  const { view, customer } = snapshot;
+  const trackingUrl = getTrackingUrl(token);
+  const balanceDue = view.balance_due != null ? formatCurrency(view.balance_due) : undefined;
+  const errors: string[] = [];
+  let sent = 0;
+
+  if (channels.includes('sms')) {
+    if (customer.phone) {
+      const messages: Record<CustomerNotificationKind, string> = {
+        link: `${view.company.name}: track your shipment ${view.load_number} here: ${trackingUrl}`,
+        out_for_delivery: `${view.company.name}: your shipment ${view.load_number} is out for delivery${
+          view.driver_first_name ? ` with ${view.driver_first_name}` : ''
+        }. Track it: ${trackingUrl}`,
+        arriving_soon: `${view.company.name}: ${
+          view.driver_first_name || 'your driver'
+        } is about an hour away${balanceDue ? `. Balance due at delivery: ${balanceDue}` : ''}. ${trackingUrl}`,
+      };
+      const result = await sendSms({ to: customer.phone, body: messages[kind] });
+      if (result.success) sent++;
+      else errors.push(result.error || 'SMS failed');
+    } else if (channels.length === 1) {
+      errors.push('The load has no customer phone number');
+    }
+  }
+
+  if (channels.includes('email')) {
+    if (customer.email) {
+      const result = await sendCustomerTrackingEmail({
+        email: customer.email,
+        replyTo: snapshot.company_email || undefined,
+        customerName: customer.name || 'there',
+        companyName: view.company.name,
+        loadNumber: view.load_number,
+        kind,
+        deliveryWindow: view.delivery_window || undefined,
+        driverFirstName: view.driver_first_name || undefined,
+        balanceDue,
+        trackingUrl,
+      });
+      if (result.success) sent++;
+      else errors.push(result.error || 'Email failed');
+    } else if (channels.length === 1) {
+      errors.push('The load has no customer email');
+    }
+  }
+
+  if (sent === 0) {
+    return { success: false, error: errors[0] || 'The load has no customer phone or email' };
+  }
+  return { success: true };
+}
@@ -0,0 +1,1089 @@
+import { createClient } from '@/lib/supabase-server';
+
+/**
+ * Driver Settlement Statements - pay-period statements for owner-operators and contract drivers
+ *
+ * A statement covers every completed trip for a driver that ended inside the period
+ * and nets trip pay against everything else that moves money between owner and driver:
+ *
+ *   net pay = trip pay
+ *           + reimbursements      (trip expenses paid_by 'driver_personal')
+ *           + escrow release
+ *           - collections         (cash/checks collected on delivery)
+ *           - advances            (cash advances not yet recovered)
+ *           - deductions          (recurring truck lease, insurance, ELD fee, ...)
+ *           - escrow holdback
+ *
+ * Lifecycle: draft -> finalized (escrow posted, trips approved) -> paid. Draft and
+ * finalized statements can be voided, which releases their trips and advances.
+ */
+
+export type DriverStatementStatus = 'draft' | 'finalized' | 'paid' | 'void';
+
+export type DriverStatementLineCategory =
+  | 'trip_pay'
+  | 'reimbursement'
+  | 'collection'
+  | 'advance'
+  | 'deduction'
+  | 'escrow_holdback'
+  | 'escrow_release';
+
+export type DeductionType =
+  | 'truck_lease'
+  | 'insurance'
+  | 'eld_fee'
+  | 'fuel_card'
+  | 'occupational_accident'
+  | 'claim_chargeback'
+  | 'other';
+
+export type DeductionFrequency = 'per_statement' | 'weekly' | 'monthly';
+
+export type AdvanceMethod = 'cash' | 'comchek' | 'efs' | 'fuel_card' | 'other';
+
+export const DEDUCTION_TYPE_LABELS: Record<DeductionType, string> = {
+  truck_lease: 'Truck Lease',
+  insurance: 'Insurance',
+  eld_fee: 'ELD Fee',
+  fuel_card: 'Fuel Card',
+  occupational_accident: 'Occupational Accident',
+  claim_chargeback: 'Claim Chargeback',
+  other: 'Other',
+};
+
+export const DEDUCTION_FREQUENCY_LABELS: Record<DeductionFrequency, string> = {
+  per_statement: 'Every statement',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export const STATEMENT_LINE_CATEGORY_LABELS: Record<DriverStatementLineCategory, string> = {
+  trip_pay: 'Trip Pay',
+  reimbursement: 'Reimbursement',
+  collection: 'Collection',
+  advance: 'Advance',
+  deduction: 'Deduction',
+  escrow_holdback: 'Escrow Holdback',
+  escrow_release: 'Escrow Release',
+};
+
+export const ADVANCE_METHOD_LABELS: Record<AdvanceMethod, string> = {
+  cash: 'Cash',
+  comchek: 'Comchek',
+  efs: 'EFS',
+  fuel_card: 'Fuel Card',
+  other: 'Other',
+};
+
+export interface DriverDeduction {
+  id: string;
+  driver_id: string;
+  deduction_type: DeductionType;
+  description: string | null;
+  amount: number;
+  frequency: DeductionFrequency;
+  start_date: string;
+  end_date: string | null;
+  is_active: boolean;
+  // One-time deductions are charged once, then carry the statement that took them
+  is_one_time: boolean;
+  statement_id: string | null;
+  created_at: string;
+}
+
+export interface DriverAdvance {
+  id: string;
+  driver_id: string;
+  trip_id: string | null;
+  amount: number;
+  advance_date: string;
+  method: AdvanceMethod;
+  description: string | null;
+  statement_id: string | null;
+  created_at: string;
+}
+
+export interface DriverStatementLine {
+  trip_id: string | null;
+  category: DriverStatementLineCategory;
+  description: string;
+  amount: number; // Signed: positive adds to pay, negative is withheld
+}
+
+export interface DriverStatementTotals {
+  gross_pay: number;
+  reimbursements: number;
+  collections: number;
+  advances: number;
+  deductions: number;
+  escrow_holdback: number;
+  escrow_release: number;
+  net_pay: number;
+}
+
+export interface DriverStatementDraft {
+  period_start: string;
+  period_end: string;
+  trip_ids: string[];
+  advance_ids: string[];
+  deduction_ids: string[];
+  lines: DriverStatementLine[];
+  totals: DriverStatementTotals;
+}
+
+export interface DriverStatement extends DriverStatementTotals {
+  id: string;
+  driver_id: string;
+  driver_name: string | null;
+  statement_number: string;
+  period_start: string;
+  period_end: string;
+  status: DriverStatementStatus;
+  notes: string | null;
+  finalized_at: string | null;
+  paid_at: string | null;
+  paid_method: string | null;
+  paid_reference: string | null;
+  created_at: string;
+}
+
+export interface DriverStatementWithLines extends DriverStatement {
+  lines: (DriverStatementLine & { id: string; trip_number: string | null })[];
+}
+
+export interface DriverPayProfile {
+  driver_id: string;
+  driver_name: string;
+  escrow_holdback_amount: number;
+  escrow_cap: number | null;
+  escrow_balance: number;
+  deductions: DriverDeduction[];
+  open_advances: DriverAdvance[];
+}
+
+// Trip figures the engine needs, gathered by loadStatementTrips
+export interface StatementTripInput {
+  trip_id: string;
+  trip_number: string | null;
+  gross_pay: number;
+  pay_description: string;
+  reimbursements: { description: string; amount: number }[];
+  collections: { description: string; amount: number }[];
+}
+
+type Related<T> = T | T[] | null;
+
+function one<T>(value: Related<T> | undefined): T | null {
+  return Array.isArray(value) ? value[0] || null : value || null;
+}
+
+// Trip columns needed to build statement lines
+interface StatementTripRow {
+  id: string;
+  trip_number: string | null;
+  driver_pay_total: number | null;
+  trip_pay_mode: string | null;
+  trip_expenses: { description: string | null; category: string | null; amount: number | null; paid_by: string | null }[] | null;
+  trip_loads: { load: Related<StatementLoadRow> }[] | null;
+}
+
+interface StatementLoadRow {
+  load_number: string | null;
+  amount_collected_on_delivery: number | null;
+  payment_method: string | null;
+}
+
+interface DriverStatementRow extends Omit<DriverStatement, 'driver_name'> {
+  driver: Related<{ first_name: string; last_name: string }>;
+}
+
+interface DriverStatementLineRow {
+  id: string;
+  trip_id: string | null;
+  category: DriverStatementLineCategory;
+  description: string;
+  amount: number;
+  sort_order: number;
+  trip: Related<{ trip_number: string | null }>;
+}
+
+const PAY_MODE_LABELS: Record<string, string> = {
+  per_mile: 'per mile',
+  per_cuft: 'per cuft',
+  per_mile_and_cuft: 'per mile + cuft',
+  percent_of_revenue: '% of revenue',
+  flat_daily_rate: 'daily rate',
+};
+
+/**
+ * How many times a recurring deduction is charged on a statement for the period.
+ * Only the part of the period inside the deduction's start/end dates counts.
+ */
+export function countDeductionOccurrences(
+  deduction: Pick<DriverDeduction, 'frequency' | 'start_date' | 'end_date'>,
+  periodStart: string,
+  periodEnd: string
+): number {
+  const from = deduction.start_date > periodStart ? deduction.start_date : periodStart;
+  const to = deduction.end_date && deduction.end_date < periodEnd ? deduction.end_date : periodEnd;
+  if (from > to) return 0;
+
+  switch (deduction.frequency) {
+    case 'per_statement':
+      return 1;
+    case 'weekly': {
+      // Charged every 7 days from the deduction's start date, on the statement covering that day
+      const first = Math.ceil(daysBetween(deduction.start_date, from) / 7);
+      const last = Math.floor(daysBetween(deduction.start_date, to) / 7);
+      return Math.max(0, last - first + 1);
+    }
+    case 'monthly': {
+      // Charged on the statement that covers the 1st of each month
+      let count = 0;
+      const cursor = new Date(`${from.slice(0, 7)}-01T00:00:00Z`);
+      if (cursor.toISOString().split('T')[0] < from) {
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+      }
+      while (cursor.toISOString().split('T')[0] <= to) {
+        count += 1;
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+      }
+      return count;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Net trip pay, reimbursements, collections, advances, deductions and escrow
+ * into statement lines and totals. Pure - callers gather the inputs.
+ */
+export function buildDriverStatement(input: {
+  periodStart: string;
+  periodEnd: string;
+  trips: StatementTripInput[];
+  advances: Pick<DriverAdvance, 'id' | 'amount' | 'advance_date' | 'method' | 'description'>[];
+  deductions: Pick<
+    DriverDeduction,
+    'id' | 'deduction_type' | 'description' | 'amount' | 'frequency' | 'start_date' | 'end_date' | 'is_one_time' | 'statement_id'
+  >[];
+  escrow: {
+    holdbackAmount: number;
+    cap: number | null;
+    balance: number;
+    release?: number;
+  };
+}): DriverStatementDraft {
+  const lines: DriverStatementLine[] = [];
+
+  for (const trip of input.trips) {
+    const label = trip.trip_number ? `Trip ${trip.trip_number}` : 'Trip';
+    lines.push({
+      trip_id: trip.trip_id,
+      category: 'trip_pay',
+      description: `${label} - ${trip.pay_description}`,
+      amount: round(trip.gross_pay),
+    });
+    for (const item of trip.reimbursements) {
+      lines.push({
+        trip_id: trip.trip_id,
+        category: 'reimbursement',
+        description: `${label} - ${item.description}`,
+        amount: round(item.amount),
+      });
+    }
+    for (const item of trip.collections) {
+      lines.push({
+        trip_id: trip.trip_id,
+        category: 'collection',
+        description: `${label} - ${item.description}`,
+        amount: -round(item.amount),
+      });
+    }
+  }
+
+  for (const advance of input.advances) {
+    lines.push({
+      trip_id: null,
+      category: 'advance',
+      description: `Advance ${advance.advance_date} (${ADVANCE_METHOD_LABELS[advance.method] || advance.method})${
+        advance.description ? ` - ${advance.description}` : ''
+      }`,
+      amount: -round(advance.amount),
+    });
+  }
+
+  const oneTimeDeductionIds: string[] = [];
+  for (const deduction of input.deductions) {
+    // One-time deductions go on the first statement that reaches their date, even a later one
+    const occurrences = deduction.is_one_time
+      ? deduction.statement_id || deduction.start_date > input.periodEnd
+        ? 0
+        : 1
+      : countDeductionOccurrences(deduction, input.periodStart, input.periodEnd);
+    if (occurrences <= 0) continue;
+    if (deduction.is_one_time) oneTimeDeductionIds.push(deduction.id);
+    const name = deduction.description || DEDUCTION_TYPE_LABELS[deduction.deduction_type] || 'Deduction';
+    lines.push({
+      trip_id: null,
+      category: 'deduction',
+      description: occurrences > 1 ? `${name} (${occurrences} × $${deduction.amount.toFixed(2)})` : name,
+      amount: -round(deduction.amount * occurrences),
+    });
+  }
+
+  const sumOf = (category: DriverStatementLineCategory) =>
+    round(lines.filter((l) => l.category === category).reduce((sum, l) => sum + Math.abs(l.amount), 0));
+
+  const escrowRelease = round(Math.min(Math.max(input.escrow.release || 0, 0), input.escrow.balance));
+  if (escrowRelease > 0) {
+    lines.push({ trip_id: null, category: 'escrow_release', description: 'Escrow release', amount: escrowRelease });
+  }
+
+  // Escrow is only held back from positive pay, and never beyond the cap
+  const netBeforeEscrow = round(lines.reduce((sum, l) => sum + l.amount, 0));
+  const roomUnderCap =
+    input.escrow.cap !== null ? Math.max(input.escrow.cap - (input.escrow.balance - escrowRelease), 0) : Infinity;
+  const escrowHoldback = round(Math.max(Math.min(input.escrow.holdbackAmount, roomUnderCap, netBeforeEscrow), 0));
+  if (escrowHoldback > 0) {
+    lines.push({ trip_id: null, category: 'escrow_holdback', description: 'Escrow holdback', amount: -escrowHoldback });
+  }
+
+  const totals: DriverStatementTotals = {
+    gross_pay: sumOf('trip_pay'),
+    reimbursements: sumOf('reimbursement'),
+    collections: sumOf('collection'),
+    advances: sumOf('advance'),
+    deductions: sumOf('deduction'),
+    escrow_holdback: escrowHoldback,
+    escrow_release: escrowRelease,
+    net_pay: round(lines.reduce((sum, l) => sum + l.amount, 0)),
+  };
+
+  return {
+    period_start: input.periodStart,
+    period_end: input.periodEnd,
+    trip_ids: input.trips.map((t) => t.trip_id),
+    advance_ids: input.advances.map((a) => a.id),
+    deduction_ids: oneTimeDeductionIds,
+    lines,
+    totals,
+  };
+}
+
+// ============================================================================
+// PAY PROFILE: deductions, advances, escrow
+// ============================================================================
+
+export async function getDriverPayProfile(driverId: string, userId: string): Promise<DriverPayProfile | null> {
+  const supabase = await createClient();
+
+  const { data: driver, error } = await supabase
+    .from('drivers')
+    .select('id, first_name, last_name, escrow_holdback_amount, escrow_cap')
+    .eq('id', driverId)
+    .eq('owner_id', userId)
+    .single();
+
+  if (error || !driver) {
+    console.error('Error fetching driver pay profile:', error?.message);
+    return null;
+  }
+
+  const [deductions, openAdvances, escrowBalance] = await Promise.all([
+    listDriverDeductions(driverId, userId),
+    listDriverAdvances(driverId, userId, { openOnly: true }),
+    getDriverEscrowBalance(driverId, userId),
+  ]);
+
+  return {
+    driver_id: driver.id,
+    driver_name: `${driver.first_name} ${driver.last_name}`.trim(),
+    escrow_holdback_amount: Number(driver.escrow_holdback_amount) || 0,
+    escrow_cap: driver.escrow_cap !== null && driver.escrow_cap !== undefined ? Number(driver.escrow_cap) : null,
+    escrow_balance: escrowBalance,
+    deductions: deductions.filter((d) => d.is_active && !d.statement_id),
+    open_advances: openAdvances,
+  };
+}
+
+export async function listDriverDeductions(driverId: string, userId: string): Promise<DriverDeduction[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('driver_deductions')
+    .select('id, driver_id, deduction_type, description, amount, frequency, start_date, end_date, is_active, is_one_time, statement_id, created_at')
+    .eq('driver_id', driverId)
+    .eq('owner_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch driver deductions: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({ ...row, amount: Number(row.amount) || 0 }));
+}
+
+export async function createDriverDeduction(
+  userId: string,
+  input: {
+    driverId: string;
+    deductionType: DeductionType;
+    description?: string | null;
+    amount: number;
+    frequency: DeductionFrequency;
+    startDate?: string;
+    endDate?: string | null;
+    oneTime?: boolean;
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!(input.amount > 0)) {
+    return { success: false, error: 'Deduction amount must be greater than zero' };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('driver_deductions')
+    .insert({
+      owner_id: userId,
+      driver_id: input.driverId,
+      deduction_type: input.deductionType,
+      description: input.description || null,
+      amount: round(input.amount),
+      frequency: input.frequency,
+      start_date: input.startDate || new Date().toISOString().split('T')[0],
+      end_date: input.endDate || null,
+      is_active: true,
+      is_one_time: !!input.oneTime,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to create deduction' };
+  }
+
+  return { success: true, id: data.id };
+}
+
+/**
+ * Stop a recurring deduction. Statements already created keep their lines.
+ */
+export async function endDriverDeduction(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('driver_deductions')
+    .update({ is_active: false, end_date: new Date().toISOString().split('T')[0] })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function listDriverAdvances(
+  driverId: string,
+  userId: string,
+  options?: { openOnly?: boolean }
+): Promise<DriverAdvance[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('driver_advances')
+    .select('id, driver_id, trip_id, amount, advance_date, method, description, statement_id, created_at')
+    .eq('driver_id', driverId)
+    .eq('owner_id', userId)
+    .order('advance_date', { ascending: true });
+
+  if (options?.openOnly) query = query.is('statement_id', null);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch driver advances: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({ ...row, amount: Number(row.amount) || 0 }));
+}
+
+export async function createDriverAdvance(
+  userId: string,
+  input: {
+    driverId: string;
+    tripId?: string | null;
+    amount: number;
+    advanceDate?: string;
+    method: AdvanceMethod;
+    description?: string | null;
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!(input.amount > 0)) {
+    return { success: false, error: 'Advance amount must be greater than zero' };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('driver_advances')
+    .insert({
+      owner_id: userId,
+      driver_id: input.driverId,
+      trip_id: input.tripId || null,
+      amount: round(input.amount),
+      advance_date: input.advanceDate || new Date().toISOString().split('T')[0],
+      method: input.method,
+      description: input.description || null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to record advance' };
+  }
+
+  return { success: true, id: data.id };
+}
+
+/**
+ * Delete an advance that has not been recovered on a statement yet
+ */
+export async function deleteDriverAdvance(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('driver_advances')
+    .delete()
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .is('statement_id', null);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function getDriverEscrowBalance(driverId: string, userId: string): Promise<number> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('driver_escrow_transactions')
+    .select('transaction_type, amount')
+    .eq('driver_id', driverId)
+    .eq('owner_id', userId);
+
+  if (error) {
+    console.error('Error fetching escrow balance:', error.message);
+    return 0;
+  }
+
+  return round(
+    (data || []).reduce(
+      (sum, t) => sum + (t.transaction_type === 'holdback' ? 1 : -1) * (Number(t.amount) || 0),
+      0
+    )
+  );
+}
+
+export async function updateDriverEscrowSettings(
+  driverId: string,
+  userId: string,
+  input: { holdbackAmount: number; cap: number | null }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('drivers')
+    .update({
+      escrow_holdback_amount: round(Math.max(input.holdbackAmount, 0)),
+      escrow_cap: input.cap !== null ? round(Math.max(input.cap, 0)) : null,
+    })
+    .eq('id', driverId)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/**
+ * Gather completed, unsettled trips for a driver that ended inside the period
+ */
+async function loadStatementTrips(
+  driverId: string,
+  userId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<StatementTripInput[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('trips')
+    .select(`
+      id,
+      trip_number,
+      end_date,
+      driver_pay_total,
+      trip_pay_mode,
+      trip_expenses (description, category, amount, paid_by),
+      trip_loads (
+        load:loads!trip_loads_load_id_fkey(load_number, amount_collected_on_delivery, payment_method)
+      )
+    `)
+    .eq('owner_id', userId)
+    .eq('driver_id', driverId)
+    .in('status', ['completed', 'settled'])
+    .is('driver_statement_id', null)
+    .gte('end_date', periodStart)
+    .lte('end_date', periodEnd)
+    .order('end_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch trips for statement: ${error.message}`);
+  }
+
+  return ((data || []) as StatementTripRow[]).map((trip) => {
+    const reimbursements = (trip.trip_expenses || [])
+      .filter((e) => e.paid_by === 'driver_personal' && Number(e.amount) > 0)
+      .map((e) => ({
+        description: `Reimbursed ${e.description || e.category || 'expense'}`,
+        amount: Number(e.amount) || 0,
+      }));
+
+    const collections = (trip.trip_loads || [])
+      .map((tl) => one(tl.load))
+      .filter((load): load is StatementLoadRow => Number(load?.amount_collected_on_delivery) > 0)
+      .map((load) => ({
+        description: `Collected on ${load.load_number || 'load'} (${load.payment_method || 'cash'})`,
+        amount: Number(load.amount_collected_on_delivery) || 0,
+      }));
+
+    return {
+      trip_id: trip.id,
+      trip_number: trip.trip_number || null,
+      gross_pay: Number(trip.driver_pay_total) || 0,
+      pay_description: trip.trip_pay_mode ? `Driver pay (${PAY_MODE_LABELS[trip.trip_pay_mode] || trip.trip_pay_mode})` : 'Driver pay',
+      reimbursements,
+      collections,
+    };
+  });
+}
+
+/**
+ * Work out a statement for a driver and period without saving it
+ */
+export async function previewDriverStatement(
+  driverId: string,
+  userId: string,
+  input: { periodStart: string; periodEnd: string; escrowRelease?: number }
+): Promise<DriverStatementDraft | null> {
+  const profile = await getDriverPayProfile(driverId, userId);
+  if (!profile) return null;
+
+  const trips = await loadStatementTrips(driverId, userId, input.periodStart, input.periodEnd);
+
+  return buildDriverStatement({
+    periodStart: input.periodStart,
+    periodEnd: input.periodEnd,
+    trips,
+    advances: profile.open_advances.filter((a) => a.advance_date <= input.periodEnd),
+    deductions: profile.deductions,
+    escrow: {
+      holdbackAmount: profile.escrow_holdback_amount,
+      cap: profile.escrow_cap,
+      balance: profile.escrow_balance,
+      release: input.escrowRelease,
+    },
+  });
+}
+
+/**
+ * Save a draft statement and claim its trips and advances
+ */
+export async function createDriverStatement(
+  userId: string,
+  input: {
+    driverId: string;
+    periodStart: string;
+    periodEnd: string;
+    escrowRelease?: number;
+    notes?: string | null;
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!input.periodStart || !input.periodEnd || input.periodEnd < input.periodStart) {
+    return { success: false, error: 'Choose a valid pay period' };
+  }
+
+  let draft: DriverStatementDraft | null;
+  try {
+    draft = await previewDriverStatement(input.driverId, userId, input);
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to build statement' };
+  }
+
+  if (!draft) {
+    return { success: false, error: 'Driver not found' };
+  }
+  // Deductions recur every period, so on their own they are not something to settle
+  if (!draft.lines.some((line) => line.category !== 'deduction')) {
+    return { success: false, error: 'Nothing to settle for this driver and period' };
+  }
+
+  const supabase = await createClient();
+
+  // Deductions are charged by period, so overlapping statements would charge them twice
+  const { data: overlapping, error: overlapError } = await supabase
+    .from('driver_statements')
+    .select('period_start, period_end')
+    .eq('owner_id', userId)
+    .eq('driver_id', input.driverId)
+    .neq('status', 'void')
+    .lte('period_start', draft.period_end)
+    .gte('period_end', draft.period_start)
+    .limit(1)
+    .maybeSingle();
+
+  if (overlapError) {
+    return { success: false, error: overlapError.message };
+  }
+  if (overlapping) {
+    return {
+      success: false,
+      error: `This driver already has a statement for ${overlapping.period_start} to ${overlapping.period_end}. Void it or choose a period that doesn't overlap.`,
+    };
+  }
+
+  const { data: statement, error } = await supabase
+    .from('driver_statements')
+    .insert({
+      owner_id: userId,
+      driver_id: input.driverId,
+      period_start: draft.period_start,
+      period_end: draft.period_end,
+      status: 'draft',
+      ...draft.totals,
+      notes: input.notes || null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !statement) {
+    return { success: false, error: error?.message || 'Failed to create statement' };
+  }
+
+  const { error: linesError } = await supabase.from('driver_statement_lines').insert(
+    draft.lines.map((line, index) => ({
+      owner_id: userId,
+      statement_id: statement.id,
+      trip_id: line.trip_id,
+      category: line.category,
+      description: line.description,
+      amount: line.amount,
+      sort_order: index,
+    }))
+  );
+
+  if (linesError) {
+    await supabase.from('driver_statements').delete().eq('id', statement.id).eq('owner_id', userId);
+    return { success: false, error: `Failed to save statement lines: ${linesError.message}` };
+  }
+
+  if (draft.trip_ids.length > 0) {
+    await supabase
+      .from('trips')
+      .update({ driver_statement_id: statement.id })
+      .eq('owner_id', userId)
+      .in('id', draft.trip_ids);
+  }
+
+  if (draft.advance_ids.length > 0) {
+    await supabase
+      .from('driver_advances')
+      .update({ statement_id: statement.id })
+      .eq('owner_id', userId)
+      .in('id', draft.advance_ids);
+  }
+
+  if (draft.deduction_ids.length > 0) {
+    await supabase
+      .from('driver_deductions')
+      .update({ statement_id: statement.id })
+      .eq('owner_id', userId)
+      .in('id', draft.deduction_ids);
+  }
+
+  return { success: true, id: statement.id };
+}
+
+/**
+ * Lock a draft statement: posts escrow movements and approves its trips for payment
+ */
+export async function finalizeDriverStatement(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: statement, error: fetchError } = await supabase
+    .from('driver_statements')
+    .select('id, driver_id, status, escrow_holdback, escrow_release')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !statement) {
+    return { success: false, error: 'Statement not found' };
+  }
+  if (statement.status !== 'draft') {
+    return { success: false, error: 'Only draft statements can be finalized' };
+  }
+
+  const escrowRows = [
+    { transaction_type: 'holdback', amount: Number(statement.escrow_holdback) || 0 },
+    { transaction_type: 'release', amount: Number(statement.escrow_release) || 0 },
+  ]
+    .filter((t) => t.amount > 0)
+    .map((t) => ({
+      owner_id: userId,
+      driver_id: statement.driver_id,
+      statement_id: statement.id,
+      ...t,
+    }));
+
+  if (escrowRows.length > 0) {
+    const { error: escrowError } = await supabase.from('driver_escrow_transactions').insert(escrowRows);
+    if (escrowError) {
+      return { success: false, error: `Failed to post escrow: ${escrowError.message}` };
+    }
+  }
+
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('driver_statements')
+    .update({ status: 'finalized', finalized_at: now })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await supabase
+    .from('trips')
+    .update({ settlement_status: 'approved', settlement_approved_at: now })
+    .eq('driver_statement_id', id)
+    .eq('owner_id', userId);
+
+  return { success: true };
+}
+
+export async function markDriverStatementPaid(
+  id: string,
+  userId: string,
+  input: { method: string; reference?: string | null }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: statement, error: fetchError } = await supabase
+    .from('driver_statements')
+    .select('id, status')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !statement) {
+    return { success: false, error: 'Statement not found' };
+  }
+  if (statement.status !== 'finalized') {
+    return { success: false, error: 'Finalize the statement before marking it paid' };
+  }
+
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('driver_statements')
+    .update({ status: 'paid', paid_at: now, paid_method: input.method, paid_reference: input.reference || null })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await supabase
+    .from('trips')
+    .update({
+      settlement_status: 'paid',
+      settlement_paid_at: now,
+      settlement_paid_method: input.method,
+      settlement_paid_reference: input.reference || null,
+    })
+    .eq('driver_statement_id', id)
+    .eq('owner_id', userId);
+
+  return { success: true };
+}
+
+/**
+ * Void a draft or finalized statement. Trips and advances are released so they
+ * can go on a new statement, and any escrow it posted is reversed.
+ */
+export async function voidDriverStatement(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: statement, error: fetchError } = await supabase
+    .from('driver_statements')
+    .select('id, status')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !statement) {
+    return { success: false, error: 'Statement not found' };
+  }
+  if (statement.status === 'paid' || statement.status === 'void') {
+    return { success: false, error: `A ${statement.status} statement cannot be voided` };
+  }
+
+  await supabase
+    .from('trips')
+    .update({ driver_statement_id: null, settlement_status: 'pending', settlement_approved_at: null })
+    .eq('driver_statement_id', id)
+    .eq('owner_id', userId);
+  await supabase.from('driver_advances').update({ statement_id: null }).eq('statement_id', id).eq('owner_id', userId);
+  await supabase.from('driver_deductions').update({ statement_id: null }).eq('statement_id', id).eq('owner_id', userId);
+  await supabase.from('driver_escrow_transactions').delete().eq('statement_id', id).eq('owner_id', userId);
+
+  // Drafts never left the office - remove them outright
+  const { error } =
+    statement.status === 'draft'
+      ? await supabase.from('driver_statements').delete().eq('id', id).eq('owner_id', userId)
+      : await supabase.from('driver_statements').update({ status: 'void' }).eq('id', id).eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function listDriverStatements(params: {
+  ownerId: string;
+  driverId?: string;
+  status?: DriverStatementStatus;
+}): Promise<DriverStatement[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('driver_statements')
+    .select('*, driver:drivers(first_name, last_name)')
+    .eq('owner_id', params.ownerId)
+    .order('period_end', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (params.driverId) query = query.eq('driver_id', params.driverId);
+  if (params.status) query = query.eq('status', params.status);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list driver statements: ${error.message}`);
+  }
+
+  return ((data || []) as DriverStatementRow[]).map(mapStatement);
+}
+
+export async function getDriverStatementById(id: string, userId: string): Promise<DriverStatementWithLines | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('driver_statements')
+    .select(`
+      *,
+      driver:drivers(first_name, last_name),
+      lines:driver_statement_lines(id, trip_id, category, description, amount, sort_order, trip:trips(trip_number))
+    `)
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching driver statement:', error?.message);
+    return null;
+  }
+
+  const lines = ((data.lines || []) as DriverStatementLineRow[])
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((line) => ({
+      id: line.id,
+      trip_id: line.trip_id,
+      trip_number: one(line.trip)?.trip_number || null,
+      category: line.category,
+      description: line.description,
+      amount: Number(line.amount) || 0,
+    }));
+
+  return { ...mapStatement(data as DriverStatementRow), lines };
+}
+
+function mapStatement(row: DriverStatementRow): DriverStatement {
+  const driver = one(row.driver);
+  return {
+    id: row.id,
+    driver_id: row.driver_id,
+    driver_name: driver ? `${driver.first_name} ${driver.last_name}`.trim() : null,
+    statement_number: row.statement_number,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    status: row.status,
+    gross_pay: Number(row.gross_pay) || 0,
+    reimbursements: Number(row.reimbursements) || 0,
+    collections: Number(row.collections) || 0,
+    advances: Number(row.advances) || 0,
+    deductions: Number(row.deductions) || 0,
+    escrow_holdback: Number(row.escrow_holdback) || 0,
+    escrow_release: Number(row.escrow_release) || 0,
+    net_pay: Number(row.net_pay) || 0,
+    notes: row.notes,
+    finalized_at: row.finalized_at,
+    paid_at: row.paid_at,
+    paid_method: row.paid_method,
+    paid_reference: row.paid_reference,
+    created_at: row.created_at,
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
+
+/**
+ * Round to 2 decimal places for currency
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -6,6 +6,7 @@ import { updateTrip } from '@/data/trips';
 import { addLoadToTrip } from '@/data/trips';
 import type { AddTripLoadInput, TripExpense, TripLoad, TripWithDetails } from '@/data/trips';
 import { logActivity } from '@/data/activity-log';
+import { notifyCustomerOutForDelivery } from '@/data/customer-tracking';
 import {
   logStructuredUploadEvent,
   createPhotoUploadMetadata,
@@ -1205,6 +1206,9 @@ export async function driverStartDelivery(
     description: `${destination} • ${company?.name || 'Unknown company'}`,
     metadata: { destinationCity: (load as any).destination_city, destinationState: (load as any).destination_state, companyName: company?.name },
   });
+
+  // Text/email the customer if the owner opted them in (fire and forget)
+  notifyCustomerOutForDelivery(loadId).catch(() => {});
 }
 
 // Driver completes delivery (in_transit -> delivered)
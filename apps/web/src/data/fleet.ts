@@ -56,6 +56,7 @@ export const newTruckInputSchema = z.object({
   status: truckStatusSchema.optional().default('active'),
   vehicle_type: truckVehicleTypeSchema.optional().nullable(),
   cubic_capacity: z.coerce.number().int().min(0).optional().nullable(),
+  mpg: z.coerce.number().positive().max(50).optional().nullable(),
   is_rental_unit: z.boolean().optional().default(false),
   rental_company: z.enum(['ryder', 'penske', 'other']).optional().nullable(),
   rental_company_other: z.string().trim().max(100).optional().nullable(),
@@ -157,6 +158,7 @@ export interface Truck {
   ownership_type: TruckOwnershipType;
   vehicle_type: TruckVehicleType | null;
   cubic_capacity: number | null;
+  mpg: number | null;
   gvw_lbs: number | null;
   current_odometer: number | null;
   registration_expiry: string | null;
@@ -0,0 +1,144 @@
+/**
+ * Diesel price table and fuel surcharge schedule types and pure helpers shared
+ * by server data functions, the matching engine and client components
+ */
+
+export type FuelSurchargeMethod = 'none' | 'cents_per_mile' | 'percent_of_linehaul';
+
+export const FUEL_SURCHARGE_METHOD_LABELS: Record<FuelSurchargeMethod, string> = {
+  none: 'No fuel surcharge',
+  cents_per_mile: 'Cents per mile',
+  percent_of_linehaul: 'Percent of linehaul',
+};
+
+export interface FuelPrice {
+  id: string;
+  effective_date: string;
+  price_per_gallon: number;
+  source: 'manual' | 'csv';
+  notes: string | null;
+  created_at: string;
+}
+
+export interface FuelSurchargeSchedule {
+  method: FuelSurchargeMethod;
+  base_price: number;
+  increment: number;
+  cents_per_mile_per_increment: number;
+  percent_per_increment: number;
+  default_mpg: number;
+}
+
+export const DEFAULT_FUEL_SURCHARGE_SCHEDULE: FuelSurchargeSchedule = {
+  method: 'none',
+  base_price: 3,
+  increment: 0.05,
+  cents_per_mile_per_increment: 1,
+  percent_per_increment: 0.5,
+  default_mpg: 6.5,
+};
+
+export interface FuelSurchargeResult {
+  increments: number;
+  // Cents per mile or percent of linehaul, depending on the method
+  rate: number;
+  amount: number;
+}
+
+/**
+ * Number of whole price increments above the base price
+ */
+export function fuelPriceIncrements(schedule: FuelSurchargeSchedule, dieselPrice: number): number {
+  if (!(dieselPrice > schedule.base_price) || !(schedule.increment > 0)) return 0;
+  // Nudge by a fraction of a cent so prices landing exactly on a step count it
+  return Math.floor((dieselPrice - schedule.base_price) / schedule.increment + 1e-9);
+}
+
+/**
+ * Fuel surcharge for a load at a given diesel price. Per-mile schedules need the
+ * load miles; percent schedules apply to linehaul.
+ */
+export function calculateFuelSurcharge(
+  schedule: FuelSurchargeSchedule,
+  dieselPrice: number,
+  load: { miles: number | null; linehaul: number }
+): FuelSurchargeResult {
+  const increments = fuelPriceIncrements(schedule, dieselPrice);
+  if (schedule.method === 'cents_per_mile') {
+    const rate = round(increments * schedule.cents_per_mile_per_increment);
+    return { increments, rate, amount: round(((load.miles || 0) * rate) / 100) };
+  }
+  if (schedule.method === 'percent_of_linehaul') {
+    const rate = round(increments * schedule.percent_per_increment);
+    return { increments, rate, amount: round((load.linehaul * rate) / 100) };
+  }
+  return { increments: 0, rate: 0, amount: 0 };
+}
+
+/**
+ * Fuel cost per mile from the diesel price and truck fuel economy
+ */
+export function fuelCostPerMile(dieselPrice: number, mpg: number): number {
+  if (!(dieselPrice > 0) || !(mpg > 0)) return 0;
+  return Math.round((dieselPrice / mpg) * 10000) / 10000;
+}
+
+/**
+ * Price in effect on a date: the latest entry on or before it.
+ * Expects prices sorted newest first.
+ */
+export function fuelPriceOn(prices: FuelPrice[], date: string): FuelPrice | null {
+  return prices.find((price) => price.effective_date <= date) || null;
+}
+
+export interface ParsedFuelPriceRow {
+  effective_date: string;
+  price_per_gallon: number;
+}
+
+/**
+ * Parse "date,price" CSV rows (e.g. an EIA weekly diesel export). A header row,
+ * $ signs and M/D/YYYY dates are accepted; unreadable rows are reported by line.
+ */
+export function parseFuelPriceCsv(text: string): { rows: ParsedFuelPriceRow[]; errors: string[] } {
+  const rows: ParsedFuelPriceRow[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const [rawDate, rawPrice] = trimmed.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    const date = normalizeCsvDate(rawDate || '');
+    const price = Number((rawPrice || '').replace('$', ''));
+
+    if (!date || !(price > 0)) {
+      // Tolerate a header row
+      if (index === 0 && !date) return;
+      errors.push(`Line ${index + 1}: expected a date and a price`);
+      return;
+    }
+
+    rows.push({ effective_date: date, price_per_gallon: Math.round(price * 1000) / 1000 });
+  });
+
+  return { rows, errors };
+}
+
+function normalizeCsvDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : us
+      ? [us[3], us[1], us[2]]
+      : [null, null, null];
+  if (!year || !month || !day) return null;
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return Number.isNaN(new Date(`${date}T00:00:00`).getTime()) ? null : date;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,284 @@
+import { createClient } from '@/lib/supabase-server';
+import { estimateRoadMiles } from '@/lib/geocoding';
+import {
+  DEFAULT_FUEL_SURCHARGE_SCHEDULE,
+  FUEL_SURCHARGE_METHOD_LABELS,
+  calculateFuelSurcharge,
+  fuelCostPerMile,
+  parseFuelPriceCsv,
+  type FuelPrice,
+  type FuelSurchargeMethod,
+  type FuelSurchargeSchedule,
+} from '@/data/fuel-prices-shared';
+
+/**
+ * Fuel Prices - company diesel price table and fuel surcharge schedule
+ *
+ * Prices are weekly entries (entered by hand or imported from CSV); the price in
+ * effect on a date is the latest entry on or before it. The schedule turns the
+ * price into a surcharge: for every increment above the base price, either
+ * cents per mile or a percentage of linehaul.
+ */
+
+const FUEL_PRICE_SELECT = 'id, effective_date, price_per_gallon, source, notes, created_at';
+
+interface FuelPriceRow {
+  id: string;
+  effective_date: string;
+  price_per_gallon: number | string;
+  source: 'manual' | 'csv';
+  notes: string | null;
+  created_at: string;
+}
+
+interface FuelSurchargeSettingsRow {
+  method: FuelSurchargeMethod;
+  base_price: number | string;
+  increment: number | string;
+  cents_per_mile_per_increment: number | string;
+  percent_per_increment: number | string;
+  default_mpg: number | string;
+}
+
+export interface LoadFuelSurchargeInput {
+  date: string;
+  linehaul: number;
+  origin: { city?: string | null; state?: string | null; postalCode?: string | null };
+  destination: { city?: string | null; state?: string | null; postalCode?: string | null };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listFuelPrices(ownerId: string, limit = 104): Promise<FuelPrice[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('fuel_prices')
+    .select(FUEL_PRICE_SELECT)
+    .eq('owner_id', ownerId)
+    .order('effective_date', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch fuel prices: ${error.message}`);
+  }
+
+  return ((data || []) as FuelPriceRow[]).map(mapFuelPrice);
+}
+
+/**
+ * Diesel price in effect on a date (defaults to today)
+ */
+export async function getFuelPriceOn(ownerId: string, date?: string): Promise<FuelPrice | null> {
+  const supabase = await createClient();
+  const onDate = date || new Date().toISOString().split('T')[0];
+
+  const { data, error } = await supabase
+    .from('fuel_prices')
+    .select(FUEL_PRICE_SELECT)
+    .eq('owner_id', ownerId)
+    .lte('effective_date', onDate)
+    .order('effective_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching fuel price:', error);
+    return null;
+  }
+
+  return data ? mapFuelPrice(data as FuelPriceRow) : null;
+}
+
+export async function getFuelSurchargeSchedule(ownerId: string): Promise<FuelSurchargeSchedule> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('fuel_surcharge_settings')
+    .select('method, base_price, increment, cents_per_mile_per_increment, percent_per_increment, default_mpg')
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching fuel surcharge settings:', error);
+  }
+
+  return data ? mapSchedule(data as FuelSurchargeSettingsRow) : DEFAULT_FUEL_SURCHARGE_SCHEDULE;
+}
+
+/**
+ * Fuel surcharge for a load from the schedule and the diesel price on the load date.
+ * Returns null when the schedule is off or no price covers the date.
+ */
+export async function getLoadFuelSurcharge(
+  ownerId: string,
+  input: LoadFuelSurchargeInput
+): Promise<{ amount: number; price: number } | null> {
+  const schedule = await getFuelSurchargeSchedule(ownerId);
+  if (schedule.method === 'none') return null;
+
+  const price = await getFuelPriceOn(ownerId, input.date);
+  if (!price) return null;
+
+  const miles =
+    schedule.method === 'cents_per_mile' ? await estimateRoadMiles(input.origin, input.destination) : null;
+  if (schedule.method === 'cents_per_mile' && miles === null) return null;
+
+  const surcharge = calculateFuelSurcharge(schedule, price.price_per_gallon, { miles, linehaul: input.linehaul });
+  return { amount: surcharge.amount, price: price.price_per_gallon };
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export async function saveFuelSurchargeSchedule(
+  ownerId: string,
+  schedule: FuelSurchargeSchedule
+): Promise<{ success: boolean; error?: string }> {
+  if (!FUEL_SURCHARGE_METHOD_LABELS[schedule.method]) {
+    return { success: false, error: 'Choose a surcharge method' };
+  }
+  if (!(schedule.increment > 0)) {
+    return { success: false, error: 'Price increment must be greater than zero' };
+  }
+  if (!(schedule.default_mpg > 0)) {
+    return { success: false, error: 'Default MPG must be greater than zero' };
+  }
+  if (
+    [schedule.base_price, schedule.cents_per_mile_per_increment, schedule.percent_per_increment].some(
+      (value) => !(value >= 0)
+    )
+  ) {
+    return { success: false, error: 'Amounts must be zero or more' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('fuel_surcharge_settings').upsert(
+    {
+      owner_id: ownerId,
+      method: schedule.method,
+      base_price: schedule.base_price,
+      increment: schedule.increment,
+      cents_per_mile_per_increment: schedule.cents_per_mile_per_increment,
+      percent_per_increment: schedule.percent_per_increment,
+      default_mpg: schedule.default_mpg,
+    },
+    { onConflict: 'owner_id' }
+  );
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Add a weekly price, replacing any existing entry for the same date
+ */
+export async function saveFuelPrice(
+  ownerId: string,
+  input: { effectiveDate: string; pricePerGallon: number; notes?: string | null }
+): Promise<{ success: boolean; error?: string }> {
+  if (!input.effectiveDate) {
+    return { success: false, error: 'Effective date is required' };
+  }
+  if (!(input.pricePerGallon > 0)) {
+    return { success: false, error: 'Price per gallon must be greater than zero' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('fuel_prices').upsert(
+    {
+      owner_id: ownerId,
+      effective_date: input.effectiveDate,
+      price_per_gallon: input.pricePerGallon,
+      source: 'manual',
+      notes: input.notes || null,
+    },
+    { onConflict: 'owner_id,effective_date' }
+  );
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function importFuelPricesCsv(
+  ownerId: string,
+  csv: string
+): Promise<{ success: boolean; imported?: number; error?: string }> {
+  const { rows, errors } = parseFuelPriceCsv(csv);
+  if (errors.length > 0) {
+    return { success: false, error: errors.slice(0, 3).join('; ') };
+  }
+  if (rows.length === 0) {
+    return { success: false, error: 'No prices found in the file' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('fuel_prices').upsert(
+    rows.map((row) => ({
+      owner_id: ownerId,
+      effective_date: row.effective_date,
+      price_per_gallon: row.price_per_gallon,
+      source: 'csv',
+    })),
+    { onConflict: 'owner_id,effective_date' }
+  );
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, imported: rows.length };
+}
+
+export async function deleteFuelPrice(id: string, ownerId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('fuel_prices').delete().eq('id', id).eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function mapFuelPrice(row: FuelPriceRow): FuelPrice {
+  return {
+    id: row.id,
+    effective_date: row.effective_date,
+    price_per_gallon: Number(row.price_per_gallon),
+    source: row.source,
+    notes: row.notes,
+    created_at: row.created_at,
+  };
+}
+
+function mapSchedule(row: FuelSurchargeSettingsRow): FuelSurchargeSchedule {
+  return {
+    method: row.method,
+    base_price: Number(row.base_price),
+    increment: Number(row.increment),
+    cents_per_mile_per_increment: Number(row.cents_per_mile_per_increment),
+    percent_per_increment: Number(row.percent_per_increment),
+    default_mpg: Number(row.default_mpg),
+  };
+}
+
+export { FUEL_SURCHARGE_METHOD_LABELS, calculateFuelSurcharge, fuelCostPerMile };
+export type { FuelPrice, FuelSurchargeMethod, FuelSurchargeSchedule };
@@ -0,0 +1,150 @@
+/**
+ * GPS replay types and stop detection, safe to import from client components
+ *
+ * A replay is the driver's breadcrumb trail for a trip or load plus the
+ * workflow events and geotagged photos recorded along the way. Stops are
+ * runs of pings that stay within STOP_RADIUS_METERS of where they started
+ * for at least the dwell threshold.
+ */
+
+export interface BreadcrumbPoint {
+  at: string;
+  lat: number;
+  lng: number;
+  speed_kph: number | null;
+}
+
+export type ReplayEventKind =
+  | 'origin_arrival'
+  | 'loading_started'
+  | 'loading_finished'
+  | 'in_transit'
+  | 'destination_arrival'
+  | 'delivery_started'
+  | 'delivery_finished'
+  | 'photo';
+
+export const REPLAY_EVENT_LABELS: Record<ReplayEventKind, string> = {
+  origin_arrival: 'Arrived at pickup',
+  loading_started: 'Loading started',
+  loading_finished: 'Loading finished',
+  in_transit: 'In transit',
+  destination_arrival: 'Arrived at delivery',
+  delivery_started: 'Unloading started',
+  delivery_finished: 'Delivered',
+  photo: 'Photo',
+};
+
+export interface ReplayEvent {
+  kind: ReplayEventKind;
+  at: string;
+  load_number: string | null;
+  // Where it happened: the photo's own coordinates, otherwise the nearest ping
+  lat: number | null;
+  lng: number | null;
+  located_from: 'photo' | 'breadcrumb' | null;
+  detail: string | null;
+  photo_url?: string;
+}
+
+export interface ReplayStop {
+  arrived_at: string;
+  departed_at: string;
+  minutes: number;
+  lat: number;
+  lng: number;
+}
+
+export interface ReplayTimeline {
+  subject: 'trip' | 'load';
+  reference: string;
+  driver_name: string | null;
+  truck_unit: string | null;
+  window_start: string;
+  window_end: string;
+  points: BreadcrumbPoint[];
+  events: ReplayEvent[];
+  // True when the ping query hit MAX_REPLAY_POINTS
+  truncated: boolean;
+}
+
+export const STOP_RADIUS_METERS = 150;
+export const DEFAULT_DWELL_MINUTES = 10;
+export const DWELL_OPTIONS = [5, 10, 15, 30, 60];
+
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const R = 6371000;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Places the driver stayed for at least minDwellMinutes. Points must be in
+ * time order.
+ */
+export function detectStops(points: BreadcrumbPoint[], minDwellMinutes: number): ReplayStop[] {
+  const stops: ReplayStop[] = [];
+  let start = 0;
+
+  const closeRun = (end: number) => {
+    const first = points[start];
+    const last = points[end];
+    const minutes = (new Date(last.at).getTime() - new Date(first.at).getTime()) / 60000;
+    if (minutes >= minDwellMinutes) {
+      const run = points.slice(start, end + 1);
+      stops.push({
+        arrived_at: first.at,
+        departed_at: last.at,
+        minutes: Math.round(minutes),
+        lat: run.reduce((sum, point) => sum + point.lat, 0) / run.length,
+        lng: run.reduce((sum, point) => sum + point.lng, 0) / run.length,
+      });
+    }
+  };
+
+  for (let i = 1; i < points.length; i++) {
+    if (distanceMeters(points[start], points[i]) > STOP_RADIUS_METERS) {
+      closeRun(i - 1);
+      start = i;
+    }
+  }
+  if (points.length > 0) closeRun(points.length - 1);
+
+  return stops;
+}
+
+/**
+ * Total distance along the trail in miles
+ */
+export function trailMiles(points: BreadcrumbPoint[]): number {
+  let meters = 0;
+  for (let i = 1; i < points.length; i++) {
+    meters += distanceMeters(points[i - 1], points[i]);
+  }
+  return meters / 1609.344;
+}
+
+/**
+ * Index of the last ping at or before the given time, or 0
+ */
+export function pointIndexAt(points: BreadcrumbPoint[], at: string): number {
+  const target = new Date(at).getTime();
+  let low = 0;
+  let high = points.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (new Date(points[mid].at).getTime() <= target) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,324 @@
+import { createClient } from '@/lib/supabase-server';
+import {
+  pointIndexAt,
+  type BreadcrumbPoint,
+  type ReplayEvent,
+  type ReplayEventKind,
+  type ReplayTimeline,
+} from '@/data/gps-replay-shared';
+
+/**
+ * GPS timeline replay
+ *
+ * Rebuilds what happened on a trip or load from the driver's location pings
+ * (driver_locations), the load workflow timestamps and geotagged load photos.
+ * Used to answer disputes like "the driver never showed up".
+ */
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// Pings are fetched in pages; a week at 30s intervals is about 20k pings
+const PAGE_SIZE = 1000;
+export const MAX_REPLAY_POINTS = 25000;
+
+// Margin around the recorded events so approach and departure are visible
+const WINDOW_PADDING_MS = 2 * 60 * 60 * 1000;
+
+const LOAD_EVENT_COLUMNS: Array<[string, ReplayEventKind]> = [
+  ['origin_arrival_at', 'origin_arrival'],
+  ['loading_started_at', 'loading_started'],
+  ['loading_finished_at', 'loading_finished'],
+  ['in_transit_at', 'in_transit'],
+  ['destination_arrival_at', 'destination_arrival'],
+  ['delivery_started_at', 'delivery_started'],
+  ['delivery_finished_at', 'delivery_finished'],
+];
+
+const LOAD_SELECT = `id, load_number, assigned_driver_id, pickup_date, pickup_window_start, delivered_at, ${LOAD_EVENT_COLUMNS.map(
+  ([column]) => column
+).join(', ')}`;
+
+type LoadEventRow = Record<string, string | null> & {
+  id: string;
+  load_number: string | null;
+  assigned_driver_id: string | null;
+};
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Replay for a trip: the trip driver's pings across all of the trip's loads
+ */
+export async function getTripReplay(tripId: string, userId: string): Promise<ReplayTimeline | null> {
+  const supabase = await createClient();
+
+  const { data: trip, error } = await supabase
+    .from('trips')
+    .select(
+      `
+      id, trip_number, driver_id, start_date, end_date,
+      driver:drivers!trips_driver_id_fkey(id, first_name, last_name),
+      truck:trucks!trips_truck_id_fkey(id, unit_number)
+    `
+    )
+    .eq('id', tripId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch trip: ${error.message}`);
+  }
+  if (!trip) return null;
+
+  const { data: tripLoads } = await supabase
+    .from('trip_loads')
+    .select(`load:loads!trip_loads_load_id_fkey(${LOAD_SELECT})`)
+    .eq('trip_id', tripId)
+    .eq('owner_id', userId);
+
+  const loads = ((tripLoads || []) as unknown as Array<{ load: LoadEventRow | LoadEventRow[] | null }>)
+    .map((row) => firstOf(row.load))
+    .filter((load): load is LoadEventRow => !!load);
+
+  const driver = firstOf(trip.driver) as { first_name: string; last_name: string } | null;
+  const truck = firstOf(trip.truck) as { unit_number: string } | null;
+
+  return buildTimeline(supabase, userId, {
+    subject: 'trip',
+    reference: trip.trip_number,
+    driverId: trip.driver_id,
+    driverName: driver ? `${driver.first_name} ${driver.last_name}` : null,
+    truckUnit: truck?.unit_number ?? null,
+    loads,
+    fallbackStart: trip.start_date ? `${trip.start_date}T00:00:00` : null,
+    fallbackEnd: trip.end_date ? `${trip.end_date}T23:59:59` : null,
+  });
+}
+
+/**
+ * Replay for one load: the pings of the driver who hauled it, around its events
+ */
+export async function getLoadReplay(loadId: string, userId: string): Promise<ReplayTimeline | null> {
+  const supabase = await createClient();
+
+  const { data: load, error } = await supabase
+    .from('loads')
+    .select(LOAD_SELECT)
+    .eq('id', loadId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch load: ${error.message}`);
+  }
+  if (!load) return null;
+
+  const loadRow = load as unknown as LoadEventRow;
+
+  // The trip's driver hauled it when the load is on a trip
+  const { data: tripLoad } = await supabase
+    .from('trip_loads')
+    .select(
+      `
+      trip:trips!trip_loads_trip_id_fkey(
+        driver_id,
+        driver:drivers!trips_driver_id_fkey(id, first_name, last_name),
+        truck:trucks!trips_truck_id_fkey(id, unit_number)
+      )
+    `
+    )
+    .eq('load_id', loadId)
+    .eq('owner_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  const trip = firstOf(tripLoad?.trip) as {
+    driver_id: string | null;
+    driver: unknown;
+    truck: unknown;
+  } | null;
+  const driverId = trip?.driver_id ?? loadRow.assigned_driver_id;
+
+  let driverName: string | null = null;
+  const tripDriver = firstOf(trip?.driver) as { first_name: string; last_name: string } | null;
+  if (tripDriver) {
+    driverName = `${tripDriver.first_name} ${tripDriver.last_name}`;
+  } else if (driverId) {
+    const { data: driver } = await supabase
+      .from('drivers')
+      .select('first_name, last_name')
+      .eq('id', driverId)
+      .maybeSingle();
+    driverName = driver ? `${driver.first_name} ${driver.last_name}` : null;
+  }
+
+  const pickupStart = loadRow.pickup_window_start || (loadRow.pickup_date ? `${loadRow.pickup_date}T00:00:00` : null);
+
+  return buildTimeline(supabase, userId, {
+    subject: 'load',
+    reference: loadRow.load_number || loadRow.id.slice(0, 8),
+    driverId,
+    driverName,
+    truckUnit: (firstOf(trip?.truck) as { unit_number: string } | null)?.unit_number ?? null,
+    loads: [loadRow],
+    fallbackStart: pickupStart,
+    fallbackEnd: loadRow.delivered_at,
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function firstOf<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+async function buildTimeline(
+  supabase: SupabaseClient,
+  userId: string,
+  input: {
+    subject: 'trip' | 'load';
+    reference: string;
+    driverId: string | null;
+    driverName: string | null;
+    truckUnit: string | null;
+    loads: LoadEventRow[];
+    fallbackStart: string | null;
+    fallbackEnd: string | null;
+  }
+): Promise<ReplayTimeline> {
+  const events: ReplayEvent[] = [];
+  for (const load of input.loads) {
+    for (const [column, kind] of LOAD_EVENT_COLUMNS) {
+      const at = load[column];
+      if (at) {
+        events.push({
+          kind,
+          at,
+          load_number: load.load_number,
+          lat: null,
+          lng: null,
+          located_from: null,
+          detail: null,
+        });
+      }
+    }
+  }
+
+  if (input.loads.length > 0) {
+    const { data: photos } = await supabase
+      .from('load_photos')
+      .select('load_id, photo_type, file_url, caption, latitude, longitude, taken_at, created_at')
+      .in('load_id', input.loads.map((load) => load.id));
+
+    const loadNumbers = new Map(input.loads.map((load) => [load.id, load.load_number]));
+    for (const photo of photos || []) {
+      const hasCoordinates = photo.latitude !== null && photo.longitude !== null;
+      events.push({
+        kind: 'photo',
+        at: photo.taken_at || photo.created_at,
+        load_number: loadNumbers.get(photo.load_id) ?? null,
+        lat: hasCoordinates ? Number(photo.latitude) : null,
+        lng: hasCoordinates ? Number(photo.longitude) : null,
+        located_from: hasCoordinates ? 'photo' : null,
+        detail: [photo.photo_type, photo.caption].filter(Boolean).join(': '),
+        photo_url: photo.file_url,
+      });
+    }
+  }
+
+  events.sort((a, b) => a.at.localeCompare(b.at));
+
+  // Window: the events padded on both sides, else the scheduled dates
+  const eventTimes = events.map((event) => new Date(event.at).getTime());
+  const now = Date.now();
+  const start =
+    eventTimes.length > 0
+      ? Math.min(...eventTimes) - WINDOW_PADDING_MS
+      : input.fallbackStart
+        ? new Date(input.fallbackStart).getTime()
+        : now - 24 * 60 * 60 * 1000;
+  const end = Math.min(
+    now,
+    eventTimes.length > 0
+      ? Math.max(...eventTimes) + WINDOW_PADDING_MS
+      : input.fallbackEnd
+        ? new Date(input.fallbackEnd).getTime()
+        : now
+  );
+
+  const windowStart = new Date(Math.min(start, end)).toISOString();
+  const windowEnd = new Date(end).toISOString();
+
+  const { points, truncated } = input.driverId
+    ? await fetchBreadcrumbs(supabase, userId, input.driverId, windowStart, windowEnd)
+    : { points: [], truncated: false };
+
+  // Place events without their own coordinates at the driver's position then
+  for (const event of events) {
+    if (event.lat === null && points.length > 0) {
+      const point = points[pointIndexAt(points, event.at)];
+      event.lat = point.lat;
+      event.lng = point.lng;
+      event.located_from = 'breadcrumb';
+    }
+  }
+
+  return {
+    subject: input.subject,
+    reference: input.reference,
+    driver_name: input.driverName,
+    truck_unit: input.truckUnit,
+    window_start: windowStart,
+    window_end: windowEnd,
+    points,
+    events,
+    truncated,
+  };
+}
+
+async function fetchBreadcrumbs(
+  supabase: SupabaseClient,
+  userId: string,
+  driverId: string,
+  from: string,
+  to: string
+): Promise<{ points: BreadcrumbPoint[]; truncated: boolean }> {
+  const points: BreadcrumbPoint[] = [];
+
+  for (let offset = 0; offset < MAX_REPLAY_POINTS; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('driver_locations')
+      .select('created_at, latitude, longitude, speed_kph')
+      .eq('owner_id', userId)
+      .eq('driver_id', driverId)
+      .gte('created_at', from)
+      .lte('created_at', to)
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch driver locations: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      points.push({
+        at: row.created_at,
+        lat: Number(row.latitude),
+        lng: Number(row.longitude),
+        speed_kph: row.speed_kph !== null ? Number(row.speed_kph) : null,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      return { points, truncated: false };
+    }
+  }
+
+  return { points, truncated: true };
+}
@@ -0,0 +1,64 @@
+/**
+ * Helper types and formatting shared by server data functions and client components
+ */
+
+export type HelperRateType = 'hourly' | 'flat';
+
+export type HelperStatus = 'active' | 'inactive';
+
+export type HelperEventType = 'loading' | 'delivery';
+
+export const HELPER_RATE_TYPE_LABELS: Record<HelperRateType, string> = {
+  hourly: 'Hourly',
+  flat: 'Flat per job',
+};
+
+export const HELPER_EVENT_LABELS: Record<HelperEventType, string> = {
+  loading: 'Loading',
+  delivery: 'Delivery',
+};
+
+export interface Helper {
+  id: string;
+  first_name: string;
+  last_name: string | null;
+  phone: string | null;
+  home_city: string | null;
+  home_state: string | null;
+  rate_type: HelperRateType;
+  rate: number;
+  status: HelperStatus;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface LoadHelper {
+  id: string;
+  helper_id: string;
+  helper_name: string;
+  load_id: string;
+  event_type: HelperEventType;
+  work_date: string;
+  hours: number | null;
+  rate_type: HelperRateType;
+  rate: number;
+  amount: number;
+  notes: string | null;
+  paid_at: string | null;
+}
+
+export function formatHelperName(helper: { first_name: string; last_name: string | null }): string {
+  return `${helper.first_name} ${helper.last_name || ''}`.trim();
+}
+
+/**
+ * Labor cost for one helper on one event
+ */
+export function calculateHelperLaborAmount(rateType: HelperRateType, rate: number, hours: number | null): number {
+  const amount = rateType === 'hourly' ? rate * (hours || 0) : rate;
+  return round(amount);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,399 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase-server';
+import { computeTripFinancialsWithDriverPay } from '@/data/trip-financials';
+import {
+  HELPER_EVENT_LABELS,
+  HELPER_RATE_TYPE_LABELS,
+  calculateHelperLaborAmount,
+  formatHelperName,
+  type Helper,
+  type HelperEventType,
+  type HelperRateType,
+  type HelperStatus,
+  type LoadHelper,
+} from '@/data/helper-shared';
+
+/**
+ * Helpers - day labor hired at origin and destination
+ *
+ * Helpers are kept on a roster with an hourly or flat rate. Each time a helper works
+ * a load's loading or delivery event a load_helpers row records the hours and the
+ * rate at the time, so labor cost is fixed even if the helper's rate changes later.
+ * Helper labor rolls up into trips.helper_labor_total and trip profit.
+ */
+
+export interface HelperPayReportRow {
+  helper_id: string;
+  helper_name: string;
+  phone: string | null;
+  jobs: number;
+  hours: number;
+  amount: number;
+  unpaid_amount: number;
+  entries: (LoadHelper & { load_number: string | null; trip_id: string | null })[];
+}
+
+type Related<T> = T | T[] | null;
+
+function one<T>(value: Related<T> | undefined): T | null {
+  return Array.isArray(value) ? value[0] || null : value || null;
+}
+
+interface LoadHelperRow {
+  id: string;
+  helper_id: string;
+  load_id: string;
+  event_type: HelperEventType;
+  work_date: string;
+  hours: number | null;
+  rate_type: HelperRateType;
+  rate: number;
+  amount: number;
+  notes: string | null;
+  paid_at: string | null;
+  helper: Related<{ first_name: string; last_name: string | null; phone?: string | null }>;
+  load?: Related<{ load_number: string | null; trip_id: string | null }>;
+}
+
+const LOAD_HELPER_SELECT = `
+  id,
+  helper_id,
+  load_id,
+  event_type,
+  work_date,
+  hours,
+  rate_type,
+  rate,
+  amount,
+  notes,
+  paid_at,
+  helper:helpers(first_name, last_name, phone)
+`;
+
+// ============================================================================
+// ROSTER
+// ============================================================================
+
+export async function getHelpersForUser(
+  userId: string,
+  options?: { includeInactive?: boolean }
+): Promise<Helper[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('helpers')
+    .select('id, first_name, last_name, phone, home_city, home_state, rate_type, rate, status, notes, created_at')
+    .eq('owner_id', userId)
+    .order('first_name', { ascending: true });
+
+  if (!options?.includeInactive) query = query.eq('status', 'active');
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch helpers: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({ ...row, rate: Number(row.rate) || 0 }));
+}
+
+export async function createHelper(
+  userId: string,
+  input: {
+    firstName: string;
+    lastName?: string | null;
+    phone?: string | null;
+    homeCity?: string | null;
+    homeState?: string | null;
+    rateType: HelperRateType;
+    rate: number;
+    notes?: string | null;
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!input.firstName.trim()) {
+    return { success: false, error: 'Helper name is required' };
+  }
+  if (!(input.rate >= 0)) {
+    return { success: false, error: 'Rate cannot be negative' };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('helpers')
+    .insert({
+      owner_id: userId,
+      first_name: input.firstName.trim(),
+      last_name: input.lastName?.trim() || null,
+      phone: input.phone?.trim() || null,
+      home_city: input.homeCity?.trim() || null,
+      home_state: input.homeState?.trim().toUpperCase() || null,
+      rate_type: input.rateType,
+      rate: round(input.rate),
+      notes: input.notes || null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to add helper' };
+  }
+
+  return { success: true, id: data.id };
+}
+
+export async function updateHelper(
+  id: string,
+  userId: string,
+  input: { rateType?: HelperRateType; rate?: number; phone?: string | null; status?: HelperStatus; notes?: string | null }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const update: Record<string, unknown> = {};
+  if (input.rateType !== undefined) update.rate_type = input.rateType;
+  if (input.rate !== undefined) update.rate = round(Math.max(input.rate, 0));
+  if (input.phone !== undefined) update.phone = input.phone?.trim() || null;
+  if (input.status !== undefined) update.status = input.status;
+  if (input.notes !== undefined) update.notes = input.notes || null;
+
+  const { error } = await supabase.from('helpers').update(update).eq('id', id).eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// LOAD LABOR
+// ============================================================================
+
+export async function getLoadHelpers(loadId: string, userId: string): Promise<LoadHelper[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('load_helpers')
+    .select(LOAD_HELPER_SELECT)
+    .eq('load_id', loadId)
+    .eq('owner_id', userId)
+    .order('work_date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching load helpers:', error.message);
+    return [];
+  }
+
+  return ((data || []) as LoadHelperRow[]).map(mapLoadHelper);
+}
+
+/**
+ * Attach a helper to a load's loading or delivery event. The helper's current
+ * rate is copied onto the row and the load's trip financials are recomputed.
+ */
+export async function addHelperToLoad(
+  userId: string,
+  input: {
+    loadId: string;
+    helperId: string;
+    eventType: HelperEventType;
+    workDate?: string;
+    hours?: number | null;
+    notes?: string | null;
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: helper, error: helperError } = await supabase
+    .from('helpers')
+    .select('id, rate_type, rate')
+    .eq('id', input.helperId)
+    .eq('owner_id', userId)
+    .single();
+
+  if (helperError || !helper) {
+    return { success: false, error: 'Helper not found' };
+  }
+
+  const rate = Number(helper.rate) || 0;
+  const hours = input.hours ?? null;
+  if (helper.rate_type === 'hourly' && !(hours && hours > 0)) {
+    return { success: false, error: 'Enter the hours worked for an hourly helper' };
+  }
+
+  const { data, error } = await supabase
+    .from('load_helpers')
+    .insert({
+      owner_id: userId,
+      helper_id: helper.id,
+      load_id: input.loadId,
+      event_type: input.eventType,
+      work_date: input.workDate || new Date().toISOString().split('T')[0],
+      hours,
+      rate_type: helper.rate_type,
+      rate,
+      amount: calculateHelperLaborAmount(helper.rate_type, rate, hours),
+      notes: input.notes || null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to add helper to load' };
+  }
+
+  await recomputeLoadTripFinancials(supabase, input.loadId, userId);
+
+  return { success: true, id: data.id };
+}
+
+export async function removeHelperFromLoad(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: row, error: fetchError } = await supabase
+    .from('load_helpers')
+    .select('id, load_id, paid_at')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !row) {
+    return { success: false, error: 'Helper entry not found' };
+  }
+  if (row.paid_at) {
+    return { success: false, error: 'This helper has already been paid for the job' };
+  }
+
+  const { error } = await supabase.from('load_helpers').delete().eq('id', id).eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await recomputeLoadTripFinancials(supabase, row.load_id, userId);
+
+  return { success: true };
+}
+
+async function recomputeLoadTripFinancials(supabase: SupabaseClient, loadId: string, userId: string) {
+  const { data: load } = await supabase
+    .from('loads')
+    .select('trip_id')
+    .eq('id', loadId)
+    .eq('owner_id', userId)
+    .single();
+
+  if (!load?.trip_id) return;
+
+  try {
+    await computeTripFinancialsWithDriverPay(supabase, load.trip_id, userId);
+  } catch (err) {
+    console.error('Failed to recompute trip financials after helper change:', err);
+  }
+}
+
+// ============================================================================
+// PAY REPORT
+// ============================================================================
+
+/**
+ * Helper labor per helper for a pay period, by work date
+ */
+export async function getHelperPayReport(params: {
+  ownerId: string;
+  periodStart: string;
+  periodEnd: string;
+}): Promise<HelperPayReportRow[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('load_helpers')
+    .select(`${LOAD_HELPER_SELECT}, load:loads(load_number, trip_id)`)
+    .eq('owner_id', params.ownerId)
+    .gte('work_date', params.periodStart)
+    .lte('work_date', params.periodEnd)
+    .order('work_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to build helper pay report: ${error.message}`);
+  }
+
+  const byHelper = new Map<string, HelperPayReportRow>();
+  for (const row of (data || []) as LoadHelperRow[]) {
+    const entry = mapLoadHelper(row);
+    const load = one(row.load);
+    const existing = byHelper.get(entry.helper_id) || {
+      helper_id: entry.helper_id,
+      helper_name: entry.helper_name,
+      phone: one(row.helper)?.phone || null,
+      jobs: 0,
+      hours: 0,
+      amount: 0,
+      unpaid_amount: 0,
+      entries: [],
+    };
+    existing.jobs += 1;
+    existing.hours = round(existing.hours + (entry.hours || 0));
+    existing.amount = round(existing.amount + entry.amount);
+    if (!entry.paid_at) existing.unpaid_amount = round(existing.unpaid_amount + entry.amount);
+    existing.entries.push({ ...entry, load_number: load?.load_number || null, trip_id: load?.trip_id || null });
+    byHelper.set(entry.helper_id, existing);
+  }
+
+  return Array.from(byHelper.values()).sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Mark a helper's unpaid labor in the period as paid
+ */
+export async function markHelperLaborPaid(
+  userId: string,
+  input: { helperId: string; periodStart: string; periodEnd: string }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('load_helpers')
+    .update({ paid_at: new Date().toISOString() })
+    .eq('owner_id', userId)
+    .eq('helper_id', input.helperId)
+    .gte('work_date', input.periodStart)
+    .lte('work_date', input.periodEnd)
+    .is('paid_at', null);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+function mapLoadHelper(row: LoadHelperRow): LoadHelper {
+  const helper = one(row.helper);
+  return {
+    id: row.id,
+    helper_id: row.helper_id,
+    helper_name: helper ? formatHelperName(helper) : 'Unknown helper',
+    load_id: row.load_id,
+    event_type: row.event_type,
+    work_date: row.work_date,
+    hours: row.hours !== null ? Number(row.hours) : null,
+    rate_type: row.rate_type,
+    rate: Number(row.rate) || 0,
+    amount: Number(row.amount) || 0,
+    notes: row.notes,
+    paid_at: row.paid_at,
+  };
+}
+
+/**
+ * Round to 2 decimal places for currency
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export { HELPER_EVENT_LABELS, HELPER_RATE_TYPE_LABELS, calculateHelperLaborAmount, formatHelperName };
+export type { Helper, HelperEventType, HelperRateType, HelperStatus, LoadHelper };
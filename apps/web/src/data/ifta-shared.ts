@@ -0,0 +1,293 @@
+import { calculateDistance } from '@/lib/geocoding';
+
+/**
+ * IFTA report types and pure helpers shared by server data functions, the
+ * export route and client components
+ */
+
+// IFTA member jurisdictions: the lower 48 states and the Canadian provinces
+export const IFTA_JURISDICTIONS: Record<string, string> = {
+  AL: 'Alabama',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  FL: 'Florida',
+  GA: 'Georgia',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+  AB: 'Alberta',
+  BC: 'British Columbia',
+  MB: 'Manitoba',
+  NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador',
+  NS: 'Nova Scotia',
+  ON: 'Ontario',
+  PE: 'Prince Edward Island',
+  QC: 'Quebec',
+  SK: 'Saskatchewan',
+};
+
+const JURISDICTION_BY_NAME = new Map(
+  Object.entries(IFTA_JURISDICTIONS).map(([code, name]) => [name.toLowerCase(), code])
+);
+
+export interface IftaTaxRate {
+  id: string;
+  year: number;
+  quarter: number;
+  jurisdiction: string;
+  rate_per_gallon: number;
+  surcharge_per_gallon: number;
+}
+
+export interface IftaPing {
+  recorded_at: string;
+  latitude: number;
+  longitude: number;
+  odometer_miles: number | null;
+  jurisdiction: string;
+  // Jurisdiction guessed from the nearest state center rather than recorded
+  estimated: boolean;
+}
+
+export interface JurisdictionMiles {
+  jurisdiction: string;
+  miles: number;
+  estimated_miles: number;
+}
+
+export interface IftaJurisdictionLine {
+  jurisdiction: string;
+  miles: number;
+  estimated_miles: number;
+  taxable_gallons: number;
+  tax_paid_gallons: number;
+  net_taxable_gallons: number;
+  rate_per_gallon: number;
+  surcharge_per_gallon: number;
+  // Positive is owed, negative is a credit
+  tax_due: number;
+  rate_missing: boolean;
+}
+
+export interface IftaSummary {
+  total_miles: number;
+  total_gallons: number;
+  mpg: number;
+  total_tax_due: number;
+  lines: IftaJurisdictionLine[];
+}
+
+// Longer jumps between consecutive pings are GPS glitches or tracking gaps
+const MAX_SEGMENT_MILES = 150;
+
+/**
+ * Two-letter jurisdiction code from a code or full name (reverse geocoders
+ * return either), or null when unrecognized
+ */
+export function normalizeJurisdiction(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^[A-Za-z]{2}$/.test(trimmed)) return trimmed.toUpperCase();
+  return JURISDICTION_BY_NAME.get(trimmed.toLowerCase()) || null;
+}
+
+export function jurisdictionName(code: string): string {
+  return IFTA_JURISDICTIONS[code] || code;
+}
+
+/**
+ * First and last day (inclusive) of a calendar quarter
+ */
+export function quarterRange(year: number, quarter: number): { start: string; end: string } {
+  const startMonth = (quarter - 1) * 3;
+  const lastDay = new Date(Date.UTC(year, startMonth + 3, 0)).getUTCDate();
+  const month = (value: number) => String(value).padStart(2, '0');
+  return {
+    start: `${year}-${month(startMonth + 1)}-01`,
+    end: `${year}-${month(startMonth + 3)}-${month(lastDay)}`,
+  };
+}
+
+export function quarterOf(date: Date): { year: number; quarter: number } {
+  return { year: date.getFullYear(), quarter: Math.floor(date.getMonth() / 3) + 1 };
+}
+
+export function previousQuarter(year: number, quarter: number): { year: number; quarter: number } {
+  return quarter === 1 ? { year: year - 1, quarter: 4 } : { year, quarter: quarter - 1 };
+}
+
+export function formatQuarter(year: number, quarter: number): string {
+  return `Q${quarter} ${year}`;
+}
+
+/**
+ * Distance between two pings: the odometer delta when both recorded a
+ * reading, otherwise the straight-line distance (pings are close together)
+ */
+function segmentMiles(from: IftaPing, to: IftaPing): number {
+  if (from.odometer_miles !== null && to.odometer_miles !== null) {
+    const delta = to.odometer_miles - from.odometer_miles;
+    if (delta >= 0 && delta <= MAX_SEGMENT_MILES) return delta;
+  }
+
+  const miles = calculateDistance(
+    { lat: from.latitude, lng: from.longitude },
+    { lat: to.latitude, lng: to.longitude }
+  );
+  return miles <= MAX_SEGMENT_MILES ? miles : 0;
+}
+
+/**
+ * Miles by jurisdiction from a ping history sorted oldest first. A segment
+ * that crosses a line is split evenly between the two jurisdictions.
+ */
+export function milesByJurisdiction(pings: IftaPing[]): JurisdictionMiles[] {
+  const totals = new Map<string, JurisdictionMiles>();
+  const add = (jurisdiction: string, miles: number, estimated: boolean) => {
+    const entry = totals.get(jurisdiction) || { jurisdiction, miles: 0, estimated_miles: 0 };
+    entry.miles += miles;
+    if (estimated) entry.estimated_miles += miles;
+    totals.set(jurisdiction, entry);
+  };
+
+  for (let i = 1; i < pings.length; i++) {
+    const from = pings[i - 1];
+    const to = pings[i];
+    const miles = segmentMiles(from, to);
+    if (miles <= 0) continue;
+
+    if (from.jurisdiction === to.jurisdiction) {
+      add(from.jurisdiction, miles, from.estimated || to.estimated);
+    } else {
+      add(from.jurisdiction, miles / 2, from.estimated);
+      add(to.jurisdiction, miles / 2, to.estimated);
+    }
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Scale a trip's GPS mileage split to its odometer total, so gaps in the ping
+ * history don't understate miles
+ */
+export function scaleToOdometer(miles: JurisdictionMiles[], odometerMiles: number): JurisdictionMiles[] {
+  const tracked = miles.reduce((sum, entry) => sum + entry.miles, 0);
+  if (!(tracked > 0) || !(odometerMiles > 0)) return miles;
+
+  const factor = odometerMiles / tracked;
+  return miles.map((entry) => ({
+    jurisdiction: entry.jurisdiction,
+    miles: entry.miles * factor,
+    estimated_miles: entry.estimated_miles * factor,
+  }));
+}
+
+export function mergeJurisdictionMiles(groups: JurisdictionMiles[][]): JurisdictionMiles[] {
+  const totals = new Map<string, JurisdictionMiles>();
+  for (const entry of groups.flat()) {
+    const total = totals.get(entry.jurisdiction) || { jurisdiction: entry.jurisdiction, miles: 0, estimated_miles: 0 };
+    total.miles += entry.miles;
+    total.estimated_miles += entry.estimated_miles;
+    totals.set(entry.jurisdiction, total);
+  }
+  return Array.from(totals.values());
+}
+
+/**
+ * Quarterly tax by jurisdiction. Taxable gallons are each jurisdiction's miles
+ * at the average MPG; fuel bought there is credited against them. Surcharges
+ * apply to all taxable gallons with no credit.
+ */
+export function calculateIftaSummary(
+  miles: JurisdictionMiles[],
+  gallonsPurchased: Record<string, number>,
+  rates: IftaTaxRate[]
+): IftaSummary {
+  const totalMiles = Math.round(miles.reduce((sum, entry) => sum + entry.miles, 0));
+  const totalGallons = round(Object.values(gallonsPurchased).reduce((sum, gallons) => sum + gallons, 0));
+  const mpg = totalGallons > 0 ? round(totalMiles / totalGallons) : 0;
+  const rateByJurisdiction = new Map(rates.map((rate) => [rate.jurisdiction, rate]));
+  const milesByCode = new Map(miles.map((entry) => [entry.jurisdiction, entry]));
+
+  const jurisdictions = new Set([...milesByCode.keys(), ...Object.keys(gallonsPurchased)]);
+
+  const lines = Array.from(jurisdictions)
+    .sort()
+    .map((jurisdiction): IftaJurisdictionLine => {
+      const entry = milesByCode.get(jurisdiction);
+      const jurisdictionMiles = Math.round(entry?.miles || 0);
+      const rate = rateByJurisdiction.get(jurisdiction);
+      const taxableGallons = mpg > 0 ? round(jurisdictionMiles / mpg) : 0;
+      const taxPaidGallons = round(gallonsPurchased[jurisdiction] || 0);
+      const netTaxableGallons = round(taxableGallons - taxPaidGallons);
+      const ratePerGallon = rate?.rate_per_gallon || 0;
+      const surchargePerGallon = rate?.surcharge_per_gallon || 0;
+
+      return {
+        jurisdiction,
+        miles: jurisdictionMiles,
+        estimated_miles: Math.round(entry?.estimated_miles || 0),
+        taxable_gallons: taxableGallons,
+        tax_paid_gallons: taxPaidGallons,
+        net_taxable_gallons: netTaxableGallons,
+        rate_per_gallon: ratePerGallon,
+        surcharge_per_gallon: surchargePerGallon,
+        tax_due: round(netTaxableGallons * ratePerGallon + taxableGallons * surchargePerGallon),
+        rate_missing: !rate,
+      };
+    });
+
+  return {
+    total_miles: totalMiles,
+    total_gallons: totalGallons,
+    mpg,
+    total_tax_due: round(lines.reduce((sum, line) => sum + line.tax_due, 0)),
+    lines,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
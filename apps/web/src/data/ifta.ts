@@ -0,0 +1,451 @@
+import { createClient } from '@/lib/supabase-server';
+import { nearestStateCode } from '@/lib/geocoding';
+import {
+  IFTA_JURISDICTIONS,
+  calculateIftaSummary,
+  formatQuarter,
+  jurisdictionName,
+  mergeJurisdictionMiles,
+  milesByJurisdiction,
+  normalizeJurisdiction,
+  previousQuarter,
+  quarterOf,
+  quarterRange,
+  scaleToOdometer,
+  type IftaJurisdictionLine,
+  type IftaPing,
+  type IftaSummary,
+  type IftaTaxRate,
+  type JurisdictionMiles,
+} from '@/data/ifta-shared';
+
+/**
+ * IFTA - quarterly fuel tax report by jurisdiction
+ *
+ * Miles come from the driver_locations ping history of each trip the truck ran
+ * in the quarter, split by the state recorded on each ping (or the nearest
+ * state when none was recorded) and scaled to the trip odometer when the whole
+ * trip falls inside the quarter. Tax-paid gallons come from fuel expenses with
+ * gallons and a purchase state.
+ */
+
+const PING_PAGE_SIZE = 1000;
+// Guards against runaway reads on a trip that was never closed
+const MAX_PINGS_PER_TRIP = 50000;
+
+interface IftaTripRow {
+  id: string;
+  trip_number: string;
+  truck_id: string;
+  driver_id: string | null;
+  start_date: string;
+  end_date: string | null;
+  odometer_start: number | string | null;
+  odometer_end: number | string | null;
+  truck: { id: string; unit_number: string | null } | { id: string; unit_number: string | null }[] | null;
+}
+
+interface PingRow {
+  created_at: string;
+  latitude: number | string | null;
+  longitude: number | string | null;
+  odometer_miles: number | string | null;
+  state: string | null;
+}
+
+interface FuelExpenseRow {
+  trip_id: string;
+  amount: number | string;
+  gallons: number | string | null;
+  fuel_state: string | null;
+}
+
+interface IftaTaxRateRow {
+  id: string;
+  year: number;
+  quarter: number;
+  jurisdiction: string;
+  rate_per_gallon: number | string;
+  surcharge_per_gallon: number | string;
+}
+
+export interface IftaTruckSummary {
+  truck_id: string;
+  unit_number: string;
+  trip_count: number;
+  miles: number;
+  estimated_miles: number;
+  gallons: number;
+  mpg: number;
+  jurisdictions: JurisdictionMiles[];
+}
+
+export interface IftaReport {
+  year: number;
+  quarter: number;
+  start: string;
+  end: string;
+  trucks: IftaTruckSummary[];
+  summary: IftaSummary;
+  // Fuel expenses in the quarter that can't be reported without gallons and a state
+  incomplete_fuel: { count: number; amount: number };
+  missing_rates: string[];
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listIftaTaxRates(ownerId: string, year: number, quarter: number): Promise<IftaTaxRate[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('ifta_tax_rates')
+    .select('id, year, quarter, jurisdiction, rate_per_gallon, surcharge_per_gallon')
+    .eq('owner_id', ownerId)
+    .eq('year', year)
+    .eq('quarter', quarter)
+    .order('jurisdiction');
+
+  if (error) {
+    throw new Error(`Failed to fetch IFTA tax rates: ${error.message}`);
+  }
+
+  return ((data || []) as IftaTaxRateRow[]).map(mapTaxRate);
+}
+
+/**
+ * Quarterly IFTA report for the fleet, or for one truck
+ */
+export async function getIftaReport(
+  ownerId: string,
+  options: { year: number; quarter: number; truckId?: string | null }
+): Promise<IftaReport> {
+  const supabase = await createClient();
+  const { start, end } = quarterRange(options.year, options.quarter);
+
+  let tripQuery = supabase
+    .from('trips')
+    .select(
+      'id, trip_number, truck_id, driver_id, start_date, end_date, odometer_start, odometer_end, truck:trucks(id, unit_number)'
+    )
+    .eq('owner_id', ownerId)
+    .not('truck_id', 'is', null)
+    .not('start_date', 'is', null)
+    .neq('status', 'cancelled')
+    .lte('start_date', end)
+    .or(`end_date.gte.${start},end_date.is.null`)
+    .order('start_date');
+
+  if (options.truckId) {
+    tripQuery = tripQuery.eq('truck_id', options.truckId);
+  }
+
+  const { data: tripData, error: tripError } = await tripQuery;
+
+  if (tripError) {
+    throw new Error(`Failed to fetch trips for IFTA: ${tripError.message}`);
+  }
+
+  const trips = (tripData || []) as IftaTripRow[];
+  const [tripMiles, fuel, rates] = await Promise.all([
+    Promise.all(trips.map((trip) => getTripJurisdictionMiles(ownerId, trip, start, end))),
+    getFuelPurchases(ownerId, trips.map((trip) => trip.id), start, end),
+    listIftaTaxRates(ownerId, options.year, options.quarter),
+  ]);
+
+  const truckMap = new Map<string, { unit_number: string; trips: number; miles: JurisdictionMiles[][]; gallons: number }>();
+  trips.forEach((trip, index) => {
+    const truck = Array.isArray(trip.truck) ? trip.truck[0] : trip.truck;
+    const entry = truckMap.get(trip.truck_id) || {
+      unit_number: truck?.unit_number || trip.truck_id.slice(0, 8),
+      trips: 0,
+      miles: [],
+      gallons: 0,
+    };
+    entry.trips += 1;
+    entry.miles.push(tripMiles[index]);
+    entry.gallons += fuel.gallonsByTrip.get(trip.id) || 0;
+    truckMap.set(trip.truck_id, entry);
+  });
+
+  const trucks = Array.from(truckMap.entries())
+    .map(([truckId, entry]): IftaTruckSummary => {
+      const jurisdictions = mergeJurisdictionMiles(entry.miles)
+        .map((line) => ({
+          jurisdiction: line.jurisdiction,
+          miles: Math.round(line.miles),
+          estimated_miles: Math.round(line.estimated_miles),
+        }))
+        .sort((a, b) => b.miles - a.miles);
+      const miles = jurisdictions.reduce((sum, line) => sum + line.miles, 0);
+      return {
+        truck_id: truckId,
+        unit_number: entry.unit_number,
+        trip_count: entry.trips,
+        miles,
+        estimated_miles: jurisdictions.reduce((sum, line) => sum + line.estimated_miles, 0),
+        gallons: round(entry.gallons),
+        mpg: entry.gallons > 0 ? round(miles / entry.gallons) : 0,
+        jurisdictions,
+      };
+    })
+    .sort((a, b) => a.unit_number.localeCompare(b.unit_number));
+
+  const summary = calculateIftaSummary(mergeJurisdictionMiles(tripMiles), fuel.gallonsByJurisdiction, rates);
+
+  return {
+    year: options.year,
+    quarter: options.quarter,
+    start,
+    end,
+    trucks,
+    summary,
+    incomplete_fuel: fuel.incomplete,
+    missing_rates: summary.lines.filter((line) => line.rate_missing).map((line) => line.jurisdiction),
+  };
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Set a jurisdiction's rate for a quarter, replacing any existing rate
+ */
+export async function saveIftaTaxRate(
+  ownerId: string,
+  input: {
+    year: number;
+    quarter: number;
+    jurisdiction: string;
+    ratePerGallon: number;
+    surchargePerGallon?: number;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  const jurisdiction = normalizeJurisdiction(input.jurisdiction);
+  if (!jurisdiction || !IFTA_JURISDICTIONS[jurisdiction]) {
+    return { success: false, error: 'Choose an IFTA jurisdiction' };
+  }
+  if (!(input.quarter >= 1 && input.quarter <= 4) || !(input.year >= 2000)) {
+    return { success: false, error: 'Choose a quarter' };
+  }
+  if (!(input.ratePerGallon >= 0) || !((input.surchargePerGallon ?? 0) >= 0)) {
+    return { success: false, error: 'Rates must be zero or more' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('ifta_tax_rates').upsert(
+    {
+      owner_id: ownerId,
+      year: input.year,
+      quarter: input.quarter,
+      jurisdiction,
+      rate_per_gallon: input.ratePerGallon,
+      surcharge_per_gallon: input.surchargePerGallon ?? 0,
+    },
+    { onConflict: 'owner_id,year,quarter,jurisdiction' }
+  );
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Start a quarter from the previous quarter's rates. Rates already set for the
+ * quarter are kept.
+ */
+export async function copyPreviousQuarterIftaRates(
+  ownerId: string,
+  year: number,
+  quarter: number
+): Promise<{ success: boolean; copied?: number; error?: string }> {
+  const previous = previousQuarter(year, quarter);
+  const [previousRates, currentRates] = await Promise.all([
+    listIftaTaxRates(ownerId, previous.year, previous.quarter),
+    listIftaTaxRates(ownerId, year, quarter),
+  ]);
+
+  const existing = new Set(currentRates.map((rate) => rate.jurisdiction));
+  const toCopy = previousRates.filter((rate) => !existing.has(rate.jurisdiction));
+  if (previousRates.length === 0) {
+    return { success: false, error: `No rates entered for ${formatQuarter(previous.year, previous.quarter)}` };
+  }
+  if (toCopy.length === 0) {
+    return { success: true, copied: 0 };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('ifta_tax_rates').insert(
+    toCopy.map((rate) => ({
+      owner_id: ownerId,
+      year,
+      quarter,
+      jurisdiction: rate.jurisdiction,
+      rate_per_gallon: rate.rate_per_gallon,
+      surcharge_per_gallon: rate.surcharge_per_gallon,
+    }))
+  );
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, copied: toCopy.length };
+}
+
+export async function deleteIftaTaxRate(id: string, ownerId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('ifta_tax_rates').delete().eq('id', id).eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Jurisdiction miles for the part of a trip inside the quarter
+ */
+async function getTripJurisdictionMiles(
+  ownerId: string,
+  trip: IftaTripRow,
+  quarterStart: string,
+  quarterEnd: string
+): Promise<JurisdictionMiles[]> {
+  const from = trip.start_date > quarterStart ? trip.start_date : quarterStart;
+  const to = trip.end_date && trip.end_date < quarterEnd ? trip.end_date : quarterEnd;
+  const pings = await getTripPings(ownerId, trip, `${from}T00:00:00`, `${to}T23:59:59.999`);
+  const miles = milesByJurisdiction(pings);
+
+  // The odometer covers the whole trip, so only use it when the trip is all in this quarter
+  const odometerMiles = Number(trip.odometer_end) - Number(trip.odometer_start);
+  const withinQuarter = trip.start_date >= quarterStart && !!trip.end_date && trip.end_date <= quarterEnd;
+  return withinQuarter && trip.odometer_start !== null && trip.odometer_end !== null
+    ? scaleToOdometer(miles, odometerMiles)
+    : miles;
+}
+
+/**
+ * Pings recorded during a trip: the driver's pings in the trip window, or the
+ * pings tagged with the trip when no driver is assigned
+ */
+async function getTripPings(ownerId: string, trip: IftaTripRow, from: string, to: string): Promise<IftaPing[]> {
+  const supabase = await createClient();
+  const rows: PingRow[] = [];
+
+  for (let offset = 0; offset < MAX_PINGS_PER_TRIP; offset += PING_PAGE_SIZE) {
+    let query = supabase
+      .from('driver_locations')
+      .select('created_at, latitude, longitude, odometer_miles, state')
+      .eq('owner_id', ownerId)
+      .gte('created_at', from)
+      .lte('created_at', to)
+      .order('created_at')
+      .range(offset, offset + PING_PAGE_SIZE - 1);
+
+    query = trip.driver_id ? query.eq('driver_id', trip.driver_id) : query.eq('trip_id', trip.id);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch location history: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as PingRow[]));
+    if (!data || data.length < PING_PAGE_SIZE) break;
+  }
+
+  return rows
+    .filter((row) => row.latitude !== null && row.longitude !== null)
+    .map((row) => {
+      const latitude = Number(row.latitude);
+      const longitude = Number(row.longitude);
+      const recorded = normalizeJurisdiction(row.state);
+      return {
+        recorded_at: row.created_at,
+        latitude,
+        longitude,
+        odometer_miles: row.odometer_miles !== null ? Number(row.odometer_miles) : null,
+        jurisdiction: recorded || nearestStateCode({ lat: latitude, lng: longitude }),
+        estimated: !recorded,
+      };
+    });
+}
+
+async function getFuelPurchases(
+  ownerId: string,
+  tripIds: string[],
+  start: string,
+  end: string
+): Promise<{
+  gallonsByJurisdiction: Record<string, number>;
+  gallonsByTrip: Map<string, number>;
+  incomplete: { count: number; amount: number };
+}> {
+  const gallonsByJurisdiction: Record<string, number> = {};
+  const gallonsByTrip = new Map<string, number>();
+  const incomplete = { count: 0, amount: 0 };
+  if (tripIds.length === 0) {
+    return { gallonsByJurisdiction, gallonsByTrip, incomplete };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('trip_expenses')
+    .select('trip_id, amount, gallons, fuel_state')
+    .eq('owner_id', ownerId)
+    .eq('category', 'fuel')
+    .in('trip_id', tripIds)
+    .gte('incurred_at', start)
+    .lte('incurred_at', end);
+
+  if (error) {
+    throw new Error(`Failed to fetch fuel purchases: ${error.message}`);
+  }
+
+  for (const row of (data || []) as FuelExpenseRow[]) {
+    const gallons = Number(row.gallons) || 0;
+    const jurisdiction = normalizeJurisdiction(row.fuel_state);
+    if (!(gallons > 0) || !jurisdiction) {
+      incomplete.count += 1;
+      incomplete.amount = round(incomplete.amount + (Number(row.amount) || 0));
+      continue;
+    }
+
+    gallonsByJurisdiction[jurisdiction] = (gallonsByJurisdiction[jurisdiction] || 0) + gallons;
+    gallonsByTrip.set(row.trip_id, (gallonsByTrip.get(row.trip_id) || 0) + gallons);
+  }
+
+  return { gallonsByJurisdiction, gallonsByTrip, incomplete };
+}
+
+function mapTaxRate(row: IftaTaxRateRow): IftaTaxRate {
+  return {
+    id: row.id,
+    year: row.year,
+    quarter: row.quarter,
+    jurisdiction: row.jurisdiction,
+    rate_per_gallon: Number(row.rate_per_gallon),
+    surcharge_per_gallon: Number(row.surcharge_per_gallon),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export { IFTA_JURISDICTIONS, formatQuarter, jurisdictionName, quarterOf };
+export type { IftaJurisdictionLine, IftaSummary, IftaTaxRate, JurisdictionMiles };
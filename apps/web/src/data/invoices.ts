@@ -0,0 +1,892 @@
+import { createClient } from '@/lib/supabase-server';
+import { logAuditEvent } from '@/lib/audit';
+import { calculateLoadFinancials } from './load-financials';
+
+/**
+ * Customer Invoicing - bills delivered loads to a partner company
+ *
+ * Invoice lifecycle:
+ * 1. draft          - created from one or more delivered loads, still editable
+ * 2. sent           - issued to the partner; a receivable is raised for the total
+ * 3. partially_paid - some money applied, balance remaining
+ * 4. paid           - balance is zero
+ * 5. void           - cancelled; loads are released so they can be re-invoiced
+ *
+ * Line items are derived from calculateLoadFinancials so an invoice always
+ * agrees with the load's total_revenue breakdown. Money the driver collected
+ * at delivery or the customer paid us directly is credited back as a negative
+ * line, so the invoice total is the load's company_owes.
+ */
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'void';
+
+export type InvoiceLineItemType =
+  | 'base_revenue'
+  | 'contract_accessorials'
+  | 'extra_accessorials'
+  | 'storage'
+  | 'fuel_surcharge'
+  | 'adjustment';
+
+export type PaymentTerms = 'net_15' | 'net_30' | 'net_45' | 'net_60' | 'due_on_delivery';
+
+export interface Invoice {
+  id: string;
+  owner_id: string;
+  company_id: string;
+  invoice_number: string;
+  status: InvoiceStatus;
+  payment_terms: string;
+  issue_date: string;
+  due_date: string;
+  total_amount: number;
+  amount_paid: number;
+  balance_due: number;
+  notes: string | null;
+  sent_at: string | null;
+  paid_at: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  company?: { id: string; name: string } | null;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  load_id: string | null;
+  item_type: InvoiceLineItemType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  sort_order: number;
+  load_number?: string | null;
+}
+
+export interface InvoiceWithDetails extends Invoice {
+  line_items: InvoiceLineItem[];
+  loads: InvoiceableLoad[];
+}
+
+export interface InvoiceListItem {
+  id: string;
+  invoice_number: string;
+  company_id: string;
+  company_name: string | null;
+  status: InvoiceStatus;
+  issue_date: string;
+  due_date: string;
+  total_amount: number;
+  amount_paid: number;
+  balance_due: number;
+  load_count: number;
+  created_at: string;
+}
+
+export interface InvoiceableLoad {
+  id: string;
+  load_number: string | null;
+  internal_reference: string | null;
+  pickup_city: string | null;
+  pickup_state: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  delivery_finished_at: string | null;
+  actual_cuft_loaded: number | null;
+  company_owes: number;
+}
+
+// Load columns needed to price an invoice
+interface BillableLoadRow {
+  id: string;
+  load_number: string | null;
+  internal_reference: string | null;
+  pickup_city: string | null;
+  pickup_state: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  delivery_finished_at: string | null;
+  actual_cuft_loaded: number | null;
+  rate_per_cuft: number | null;
+  contract_rate_per_cuft: number | null;
+  linehaul_minimum: number | null;
+  fuel_surcharge_amount: number | null;
+  contract_accessorials_stairs: number | null;
+  contract_accessorials_shuttle: number | null;
+  contract_accessorials_long_carry: number | null;
+  contract_accessorials_packing: number | null;
+  contract_accessorials_bulky: number | null;
+  contract_accessorials_other: number | null;
+  extra_stairs: number | null;
+  extra_shuttle: number | null;
+  extra_long_carry: number | null;
+  extra_packing: number | null;
+  extra_bulky: number | null;
+  extra_other: number | null;
+  storage_move_in_fee: number | null;
+  storage_daily_fee: number | null;
+  storage_days_billed: number | null;
+  amount_collected_on_delivery: number | null;
+  amount_paid_directly_to_company: number | null;
+  total_revenue: number | null;
+  company_id?: string | null;
+  load_status?: string | null;
+  invoice_id?: string | null;
+}
+
+type Related<T> = T | T[] | null;
+
+function firstRelated<T>(value: Related<T> | undefined): T | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+// Line item draft before it has been saved against an invoice
+export interface InvoiceLineItemDraft {
+  load_id: string | null;
+  item_type: InvoiceLineItemType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+const PAYMENT_TERM_DAYS: Record<PaymentTerms, number> = {
+  net_15: 15,
+  net_30: 30,
+  net_45: 45,
+  net_60: 60,
+  due_on_delivery: 0,
+};
+
+const LOAD_BILLING_COLUMNS = `
+  id,
+  load_number,
+  internal_reference,
+  pickup_city,
+  pickup_state,
+  delivery_city,
+  delivery_state,
+  delivery_finished_at,
+  actual_cuft_loaded,
+  rate_per_cuft,
+  contract_rate_per_cuft,
+  linehaul_minimum,
+  fuel_surcharge_amount,
+  contract_accessorials_stairs,
+  contract_accessorials_shuttle,
+  contract_accessorials_long_carry,
+  contract_accessorials_packing,
+  contract_accessorials_bulky,
+  contract_accessorials_other,
+  extra_stairs,
+  extra_shuttle,
+  extra_long_carry,
+  extra_packing,
+  extra_bulky,
+  extra_other,
+  storage_move_in_fee,
+  storage_daily_fee,
+  storage_days_billed,
+  amount_collected_on_delivery,
+  amount_paid_directly_to_company,
+  total_revenue
+`;
+
+/**
+ * Compute the due date for an invoice from partnership payment terms.
+ * Unknown terms fall back to net 30.
+ */
+export function calculateInvoiceDueDate(issueDate: string, paymentTerms: string | null | undefined): string {
+  const days = PAYMENT_TERM_DAYS[(paymentTerms || 'net_30') as PaymentTerms] ?? 30;
+  const due = new Date(`${issueDate}T00:00:00Z`);
+  due.setUTCDate(due.getUTCDate() + days);
+  return due.toISOString().split('T')[0];
+}
+
+/**
+ * Derive invoice status from amounts. Draft and void are manual states and
+ * are never changed by payment activity.
+ */
+export function deriveInvoiceStatus(
+  current: InvoiceStatus,
+  totalAmount: number,
+  amountPaid: number
+): InvoiceStatus {
+  if (current === 'draft' || current === 'void') return current;
+  if (amountPaid <= 0) return 'sent';
+  if (round(amountPaid) >= round(totalAmount)) return 'paid';
+  return 'partially_paid';
+}
+
+/**
+ * Build invoice line items for a single load from its financial breakdown
+ */
+export function buildLoadLineItems(load: BillableLoadRow): InvoiceLineItemDraft[] {
+  const financials = calculateLoadFinancials({
+    actual_cuft_loaded: load.actual_cuft_loaded,
+    rate_per_cuft: load.contract_rate_per_cuft || load.rate_per_cuft,
+    linehaul_minimum: load.linehaul_minimum,
+    fuel_surcharge: load.fuel_surcharge_amount,
+    contract_accessorials_stairs: load.contract_accessorials_stairs,
+    contract_accessorials_shuttle: load.contract_accessorials_shuttle,
+    contract_accessorials_long_carry: load.contract_accessorials_long_carry,
+    contract_accessorials_packing: load.contract_accessorials_packing,
+    contract_accessorials_bulky: load.contract_accessorials_bulky,
+    contract_accessorials_other: load.contract_accessorials_other,
+    extra_stairs: load.extra_stairs,
+    extra_shuttle: load.extra_shuttle,
+    extra_long_carry: load.extra_long_carry,
+    extra_packing: load.extra_packing,
+    extra_bulky: load.extra_bulky,
+    extra_other: load.extra_other,
+    storage_move_in_fee: load.storage_move_in_fee,
+    storage_daily_fee: load.storage_daily_fee,
+    storage_days_billed: load.storage_days_billed,
+    amount_collected_on_delivery: load.amount_collected_on_delivery,
+    amount_paid_directly_to_company: load.amount_paid_directly_to_company,
+  });
+  const b = financials.breakdown;
+  const label = load.load_number || load.internal_reference || 'Load';
+  const items: InvoiceLineItemDraft[] = [];
+
+  if (b.base_revenue > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'base_revenue',
+      description: b.minimum_applied
+        ? `${label} - Linehaul minimum charge (${b.actual_cuft} cuft @ $${b.rate_per_cuft.toFixed(2)})`
+        : `${label} - Linehaul ${b.actual_cuft} cuft @ $${b.rate_per_cuft.toFixed(2)}`,
+      quantity: b.minimum_applied ? 1 : b.actual_cuft,
+      unit_price: b.minimum_applied ? b.base_revenue : b.rate_per_cuft,
+      amount: b.base_revenue,
+    });
+  }
+  if (b.contract_total > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'contract_accessorials',
+      description: `${label} - Contract accessorials`,
+      quantity: 1,
+      unit_price: b.contract_total,
+      amount: b.contract_total,
+    });
+  }
+  if (b.extra_total > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'extra_accessorials',
+      description: `${label} - Additional accessorials`,
+      quantity: 1,
+      unit_price: b.extra_total,
+      amount: b.extra_total,
+    });
+  }
+  if (b.fuel_surcharge > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'fuel_surcharge',
+      description: `${label} - Fuel surcharge`,
+      quantity: 1,
+      unit_price: b.fuel_surcharge,
+      amount: b.fuel_surcharge,
+    });
+  }
+  if (b.storage_move_in > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'storage',
+      description: `${label} - Storage move-in fee`,
+      quantity: 1,
+      unit_price: b.storage_move_in,
+      amount: b.storage_move_in,
+    });
+  }
+  if (b.storage_daily_rate > 0 && b.storage_days > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'storage',
+      description: `${label} - Storage ${b.storage_days} days @ $${b.storage_daily_rate.toFixed(2)}`,
+      quantity: b.storage_days,
+      unit_price: b.storage_daily_rate,
+      amount: round(b.storage_daily_rate * b.storage_days),
+    });
+  }
+
+  const collected = round(financials.collected_on_delivery + financials.paid_to_company);
+  if (collected > 0) {
+    items.push({
+      load_id: load.id,
+      item_type: 'adjustment',
+      description: `${label} - Collected at delivery / paid directly`,
+      quantity: 1,
+      unit_price: -collected,
+      amount: -collected,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Get the payment terms for the active partnership with a company.
+ * Falls back to net_30 when no partnership exists.
+ */
+export async function getPartnerPaymentTerms(companyId: string, userId: string): Promise<string> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('company_partnerships')
+    .select('payment_terms')
+    .eq('owner_id', userId)
+    .or(`company_a_id.eq.${companyId},company_b_id.eq.${companyId}`)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching partnership payment terms:', error);
+  }
+
+  return data?.payment_terms || 'net_30';
+}
+
+/**
+ * Delivered loads for a company that are not yet on an invoice
+ */
+export async function getInvoiceableLoads(companyId: string, userId: string): Promise<InvoiceableLoad[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('loads')
+    .select(LOAD_BILLING_COLUMNS)
+    .eq('owner_id', userId)
+    .eq('company_id', companyId)
+    .eq('load_status', 'delivered')
+    .is('invoice_id', null)
+    .order('delivery_finished_at', { ascending: true, nullsFirst: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch invoiceable loads: ${error.message}`);
+  }
+
+  return ((data || []) as BillableLoadRow[]).map(mapInvoiceableLoad);
+}
+
+/**
+ * Companies that have delivered loads waiting to be invoiced
+ */
+export async function getCompaniesWithInvoiceableLoads(
+  userId: string
+): Promise<{ company_id: string; company_name: string; load_count: number; total: number }[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('loads')
+    .select('company_id, company_owes, company:companies!loads_company_id_fkey(id, name)')
+    .eq('owner_id', userId)
+    .eq('load_status', 'delivered')
+    .is('invoice_id', null)
+    .not('company_id', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch invoiceable companies: ${error.message}`);
+  }
+
+  const byCompany = new Map<string, { company_id: string; company_name: string; load_count: number; total: number }>();
+  (data || []).forEach((row) => {
+    const company = firstRelated<{ name: string }>(row.company);
+    const existing = byCompany.get(row.company_id) || {
+      company_id: row.company_id,
+      company_name: company?.name || 'Unknown Company',
+      load_count: 0,
+      total: 0,
+    };
+    existing.load_count += 1;
+    existing.total += Number(row.company_owes) || 0;
+    byCompany.set(row.company_id, existing);
+  });
+
+  return Array.from(byCompany.values()).sort((a, b) => a.company_name.localeCompare(b.company_name));
+}
+
+/**
+ * Create a draft invoice for a partner company from delivered loads
+ */
+export async function createInvoiceFromLoads(
+  userId: string,
+  input: {
+    companyId: string;
+    loadIds: string[];
+    issueDate?: string;
+    notes?: string | null;
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (input.loadIds.length === 0) {
+    return { success: false, error: 'Select at least one load to invoice' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: loads, error: loadsError } = await supabase
+    .from('loads')
+    .select(`${LOAD_BILLING_COLUMNS}, company_id, load_status, invoice_id`)
+    .eq('owner_id', userId)
+    .in('id', input.loadIds);
+
+  if (loadsError) {
+    return { success: false, error: loadsError.message };
+  }
+
+  const rows = (loads || []) as BillableLoadRow[];
+  if (rows.length !== input.loadIds.length) {
+    return { success: false, error: 'One or more loads were not found' };
+  }
+  const invalid = rows.find(
+    (l) => l.company_id !== input.companyId || l.load_status !== 'delivered' || l.invoice_id
+  );
+  if (invalid) {
+    return {
+      success: false,
+      error: `Load ${invalid.load_number || invalid.id} is not a delivered, uninvoiced load for this company`,
+    };
+  }
+
+  const lineItems = rows.flatMap((load) => buildLoadLineItems(load));
+  const totalAmount = round(lineItems.reduce((sum, li) => sum + li.amount, 0));
+  if (totalAmount <= 0) {
+    return { success: false, error: 'Selected loads have nothing left to bill after collections' };
+  }
+
+  const issueDate = input.issueDate || new Date().toISOString().split('T')[0];
+  const paymentTerms = await getPartnerPaymentTerms(input.companyId, userId);
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .insert({
+      owner_id: userId,
+      company_id: input.companyId,
+      status: 'draft',
+      payment_terms: paymentTerms,
+      issue_date: issueDate,
+      due_date: calculateInvoiceDueDate(issueDate, paymentTerms),
+      total_amount: totalAmount,
+      amount_paid: 0,
+      notes: input.notes || null,
+    })
+    .select('id, invoice_number')
+    .single();
+
+  if (invoiceError || !invoice) {
+    return { success: false, error: invoiceError?.message || 'Failed to create invoice' };
+  }
+
+  const { error: itemsError } = await supabase.from('invoice_line_items').insert(
+    lineItems.map((li, index) => ({
+      owner_id: userId,
+      invoice_id: invoice.id,
+      load_id: li.load_id,
+      item_type: li.item_type,
+      description: li.description,
+      quantity: li.quantity,
+      unit_price: li.unit_price,
+      amount: li.amount,
+      sort_order: index,
+    }))
+  );
+
+  if (itemsError) {
+    await supabase.from('invoices').delete().eq('id', invoice.id).eq('owner_id', userId);
+    return { success: false, error: `Failed to save invoice line items: ${itemsError.message}` };
+  }
+
+  const { error: linkError } = await supabase
+    .from('loads')
+    .update({ invoice_id: invoice.id })
+    .eq('owner_id', userId)
+    .in('id', input.loadIds);
+
+  if (linkError) {
+    console.error('Failed to link loads to invoice:', linkError.message);
+  }
+
+  logAuditEvent(supabase, {
+    entityType: 'company',
+    entityId: input.companyId,
+    action: 'invoice_created',
+    performedByUserId: userId,
+    newValue: { invoice_id: invoice.id, total_amount: totalAmount, status: 'draft' },
+    metadata: {
+      invoice_number: invoice.invoice_number,
+      load_ids: input.loadIds,
+      payment_terms: paymentTerms,
+    },
+  });
+
+  return { success: true, id: invoice.id };
+}
+
+export async function listInvoices(params: {
+  ownerId: string;
+  status?: InvoiceStatus;
+  companyId?: string;
+}): Promise<InvoiceListItem[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      company_id,
+      status,
+      issue_date,
+      due_date,
+      total_amount,
+      amount_paid,
+      created_at,
+      company:companies(id, name),
+      line_items:invoice_line_items(load_id)
+    `)
+    .eq('owner_id', params.ownerId)
+    .order('issue_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (params.status) query = query.eq('status', params.status);
+  if (params.companyId) query = query.eq('company_id', params.companyId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list invoices: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const company = firstRelated<{ name: string }>(row.company);
+    const loadIds = new Set(
+      (row.line_items || []).map((li: { load_id: string | null }) => li.load_id).filter(Boolean)
+    );
+    const total = Number(row.total_amount) || 0;
+    const paid = Number(row.amount_paid) || 0;
+    return {
+      id: row.id,
+      invoice_number: row.invoice_number,
+      company_id: row.company_id,
+      company_name: company?.name || null,
+      status: row.status,
+      issue_date: row.issue_date,
+      due_date: row.due_date,
+      total_amount: total,
+      amount_paid: paid,
+      balance_due: row.status === 'void' ? 0 : round(total - paid),
+      load_count: loadIds.size,
+      created_at: row.created_at,
+    };
+  });
+}
+
+export async function getInvoiceById(id: string, userId: string): Promise<InvoiceWithDetails | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`
+      *,
+      company:companies(id, name),
+      line_items:invoice_line_items(
+        id, invoice_id, load_id, item_type, description, quantity, unit_price, amount, sort_order,
+        load:loads(load_number)
+      )
+    `)
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching invoice:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const rawItems = (data.line_items || []) as (Omit<InvoiceLineItem, 'load_number'> & {
+    load: Related<{ load_number: string | null }>;
+  })[];
+  const lineItems: InvoiceLineItem[] = rawItems
+    .map((li) => ({
+      id: li.id,
+      invoice_id: li.invoice_id,
+      load_id: li.load_id,
+      item_type: li.item_type,
+      description: li.description,
+      quantity: Number(li.quantity) || 0,
+      unit_price: Number(li.unit_price) || 0,
+      amount: Number(li.amount) || 0,
+      sort_order: li.sort_order,
+      load_number: firstRelated(li.load)?.load_number || null,
+    }))
+    .sort((a, b) => a.sort_order - b.sort_order);
+
+  const loadIds = Array.from(new Set(lineItems.map((li) => li.load_id).filter(Boolean))) as string[];
+  let loads: InvoiceableLoad[] = [];
+  if (loadIds.length > 0) {
+    const { data: loadRows } = await supabase
+      .from('loads')
+      .select(LOAD_BILLING_COLUMNS)
+      .eq('owner_id', userId)
+      .in('id', loadIds);
+    loads = ((loadRows || []) as BillableLoadRow[]).map(mapInvoiceableLoad);
+  }
+
+  return {
+    ...mapInvoice(data),
+    line_items: lineItems,
+    loads,
+  };
+}
+
+/**
+ * Issue a draft invoice: marks it sent and raises the receivable for the total
+ */
+export async function sendInvoice(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: invoice, error: fetchError } = await supabase
+    .from('invoices')
+    .select('id, company_id, invoice_number, status, total_amount, due_date')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !invoice) {
+    return { success: false, error: 'Invoice not found' };
+  }
+  if (invoice.status !== 'draft') {
+    return { success: false, error: 'Only draft invoices can be sent' };
+  }
+
+  const { error: recvError } = await supabase.from('receivables').insert({
+    owner_id: userId,
+    company_id: invoice.company_id,
+    invoice_id: invoice.id,
+    amount: invoice.total_amount,
+    status: 'open',
+    due_date: invoice.due_date,
+    reference: invoice.invoice_number,
+  });
+
+  if (recvError) {
+    return { success: false, error: `Failed to create receivable: ${recvError.message}` };
+  }
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  logAuditEvent(supabase, {
+    entityType: 'company',
+    entityId: invoice.company_id,
+    action: 'invoice_sent',
+    performedByUserId: userId,
+    previousValue: { status: 'draft' },
+    newValue: { status: 'sent' },
+    metadata: { invoice_id: invoice.id, invoice_number: invoice.invoice_number },
+  });
+
+  return { success: true };
+}
+
+/**
+ * Void an invoice. Loads are released for re-invoicing and the receivable is voided.
+ */
+export async function voidInvoice(
+  id: string,
+  userId: string,
+  reason?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: invoice, error: fetchError } = await supabase
+    .from('invoices')
+    .select('id, company_id, invoice_number, status, amount_paid')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !invoice) {
+    return { success: false, error: 'Invoice not found' };
+  }
+  if (invoice.status === 'void') {
+    return { success: false, error: 'Invoice is already void' };
+  }
+  if (Number(invoice.amount_paid) > 0) {
+    return { success: false, error: 'Invoices with payments applied cannot be voided' };
+  }
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status: 'void', voided_at: new Date().toISOString(), void_reason: reason || null })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await supabase.from('loads').update({ invoice_id: null }).eq('invoice_id', id).eq('owner_id', userId);
+  await supabase.from('receivables').update({ status: 'void' }).eq('invoice_id', id).eq('owner_id', userId);
+
+  logAuditEvent(supabase, {
+    entityType: 'company',
+    entityId: invoice.company_id,
+    action: 'invoice_voided',
+    performedByUserId: userId,
+    previousValue: { status: invoice.status },
+    newValue: { status: 'void' },
+    metadata: { invoice_id: invoice.id, invoice_number: invoice.invoice_number, reason: reason || null },
+  });
+
+  return { success: true };
+}
+
+/**
+ * Delete a draft invoice and release its loads
+ */
+export async function deleteDraftInvoice(
+  id: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: invoice, error: fetchError } = await supabase
+    .from('invoices')
+    .select('id, status')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !invoice) {
+    return { success: false, error: 'Invoice not found' };
+  }
+  if (invoice.status !== 'draft') {
+    return { success: false, error: 'Only draft invoices can be deleted' };
+  }
+
+  await supabase.from('loads').update({ invoice_id: null }).eq('invoice_id', id).eq('owner_id', userId);
+
+  const { data: deleted, error } = await supabase
+    .from('invoices')
+    .delete()
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .eq('status', 'draft')
+    .select('id');
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!deleted || deleted.length === 0) {
+    return { success: false, error: 'Invoice could not be deleted' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Set the amount paid on an invoice and update its status to match
+ */
+export async function syncInvoicePaidAmount(
+  id: string,
+  userId: string,
+  amountPaid: number
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: invoice, error: fetchError } = await supabase
+    .from('invoices')
+    .select('id, status, total_amount, paid_at')
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !invoice) {
+    return { success: false, error: 'Invoice not found' };
+  }
+
+  const paid = round(amountPaid);
+  const status = deriveInvoiceStatus(invoice.status as InvoiceStatus, Number(invoice.total_amount) || 0, paid);
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({
+      amount_paid: paid,
+      status,
+      paid_at: status === 'paid' ? invoice.paid_at || new Date().toISOString() : null,
+    })
+    .eq('id', id)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+function mapInvoice(row: Omit<Invoice, 'balance_due' | 'company'> & { company: Related<{ id: string; name: string }> }): Invoice {
+  const total = Number(row.total_amount) || 0;
+  const paid = Number(row.amount_paid) || 0;
+  return {
+    id: row.id,
+    owner_id: row.owner_id,
+    company_id: row.company_id,
+    invoice_number: row.invoice_number,
+    status: row.status,
+    payment_terms: row.payment_terms,
+    issue_date: row.issue_date,
+    due_date: row.due_date,
+    total_amount: total,
+    amount_paid: paid,
+    balance_due: row.status === 'void' ? 0 : round(total - paid),
+    notes: row.notes,
+    sent_at: row.sent_at,
+    paid_at: row.paid_at,
+    voided_at: row.voided_at,
+    void_reason: row.void_reason,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    company: firstRelated(row.company),
+  };
+}
+
+function mapInvoiceableLoad(row: BillableLoadRow): InvoiceableLoad {
+  return {
+    id: row.id,
+    load_number: row.load_number,
+    internal_reference: row.internal_reference,
+    pickup_city: row.pickup_city,
+    pickup_state: row.pickup_state,
+    delivery_city: row.delivery_city,
+    delivery_state: row.delivery_state,
+    delivery_finished_at: row.delivery_finished_at,
+    actual_cuft_loaded: row.actual_cuft_loaded ? Number(row.actual_cuft_loaded) : null,
+    company_owes: round(buildLoadLineItems(row).reduce((sum, li) => sum + li.amount, 0)),
+  };
+}
+
+/**
+ * Round to 2 decimal places for currency
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
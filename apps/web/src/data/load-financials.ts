@@ -1,15 +1,17 @@
 import { createClient } from '@/lib/supabase-server';
 import type { TrustLevel } from './companies';
+import { getLoadFuelSurcharge } from './fuel-prices';
 
 /**
  * Load Financial Brain - Calculates revenue, accessorials, and company receivables
  *
  * Moving Industry Load Financial Structure:
- * 1. Base Revenue = actual_cuft × rate_per_cuft
+ * 1. Base Revenue = actual_cuft × rate_per_cuft (never below the tariff minimum, if any)
  * 2. Contract Accessorials = pre-agreed fees (stairs, shuttle, long carry, packing, bulky, other)
  * 3. Extra Accessorials = day-of charges added by driver
- * 4. Total Revenue = Base + Contract Accessorials + Extra Accessorials
- * 5. Company Owes = Total Revenue - Amount Collected on Delivery - Amount Paid Directly to Company
+ * 4. Fuel Surcharge = tariff percentage of base, or the diesel-indexed surcharge schedule
+ * 5. Total Revenue = Base + Contract Accessorials + Extra Accessorials + Fuel Surcharge
+ * 6. Company Owes = Total Revenue - Amount Collected on Delivery - Amount Paid Directly to Company
  */
 
 // Input interface - all the values that affect financial calculations
@@ -17,6 +19,8 @@ export interface LoadFinancialsInput {
   // Base revenue calculation
   actual_cuft_loaded?: number | null;
   rate_per_cuft?: number | null; // Use contract_rate_per_cuft or fall back to rate_per_cuft
+  linehaul_minimum?: number | null; // Tariff minimum charge for the linehaul
+  fuel_surcharge?: number | null;
 
   // Contract accessorials (owner enters when creating load)
   contract_accessorials_stairs?: number | null;
@@ -50,6 +54,7 @@ export interface LoadFinancialResult {
   base_revenue: number;
   contract_accessorials_total: number;
   extra_accessorials_total: number;
+  fuel_surcharge: number;
   storage_total: number;
   total_revenue: number;
   collected_on_delivery: number;
@@ -61,6 +66,8 @@ export interface LoadFinancialResult {
     // Base
     actual_cuft: number;
     rate_per_cuft: number;
+    linehaul_minimum: number;
+    minimum_applied: boolean;
     base_revenue: number;
 
     // Contract accessorials
@@ -81,6 +88,9 @@ export interface LoadFinancialResult {
     extra_other: number;
     extra_total: number;
 
+    // Fuel surcharge
+    fuel_surcharge: number;
+
     // Storage
     storage_move_in: number;
     storage_daily_rate: number;
@@ -105,6 +115,8 @@ export function calculateLoadFinancials(input: LoadFinancialsInput): LoadFinanci
   // Default all values to 0
   const actualCuft = Number(input.actual_cuft_loaded) || 0;
   const ratePerCuft = Number(input.rate_per_cuft) || 0;
+  const linehaulMinimum = Number(input.linehaul_minimum) || 0;
+  const fuelSurcharge = round(Number(input.fuel_surcharge) || 0);
 
   // Contract accessorials
   const contractStairs = Number(input.contract_accessorials_stairs) || 0;
@@ -132,7 +144,10 @@ export function calculateLoadFinancials(input: LoadFinancialsInput): LoadFinanci
   const paidToCompany = Number(input.amount_paid_directly_to_company) || 0;
 
   // Calculate totals
-  const baseRevenue = round(actualCuft * ratePerCuft);
+  // The minimum only kicks in once the load has actually been measured
+  const calculatedBase = round(actualCuft * ratePerCuft);
+  const minimumApplied = actualCuft > 0 && linehaulMinimum > calculatedBase;
+  const baseRevenue = minimumApplied ? linehaulMinimum : calculatedBase;
   const contractTotal = round(
     contractStairs + contractShuttle + contractLongCarry + contractPacking + contractBulky + contractOther
   );
@@ -140,7 +155,7 @@ export function calculateLoadFinancials(input: LoadFinancialsInput): LoadFinanci
     extraStairs + extraShuttle + extraLongCarry + extraPacking + extraBulky + extraOther
   );
   const storageTotal = round(storageMoveIn + storageDailyRate * storageDays);
-  const totalRevenue = round(baseRevenue + contractTotal + extraTotal + storageTotal);
+  const totalRevenue = round(baseRevenue + contractTotal + extraTotal + fuelSurcharge + storageTotal);
   const totalCollected = round(collectedOnDelivery + paidToCompany);
   const companyOwes = round(totalRevenue - totalCollected);
 
@@ -148,6 +163,7 @@ export function calculateLoadFinancials(input: LoadFinancialsInput): LoadFinanci
     base_revenue: baseRevenue,
     contract_accessorials_total: contractTotal,
     extra_accessorials_total: extraTotal,
+    fuel_surcharge: fuelSurcharge,
     storage_total: storageTotal,
     total_revenue: totalRevenue,
     collected_on_delivery: collectedOnDelivery,
@@ -157,6 +173,8 @@ export function calculateLoadFinancials(input: LoadFinancialsInput): LoadFinanci
     breakdown: {
       actual_cuft: actualCuft,
       rate_per_cuft: ratePerCuft,
+      linehaul_minimum: linehaulMinimum,
+      minimum_applied: minimumApplied,
       base_revenue: baseRevenue,
 
       contract_stairs: contractStairs,
@@ -175,6 +193,8 @@ export function calculateLoadFinancials(input: LoadFinancialsInput): LoadFinanci
       extra_other: extraOther,
       extra_total: extraTotal,
 
+      fuel_surcharge: fuelSurcharge,
+
       storage_move_in: storageMoveIn,
       storage_daily_rate: storageDailyRate,
       storage_days: storageDays,
@@ -216,9 +236,10 @@ export async function computeAndSaveLoadFinancials(
   const ratePerCuft = load.contract_rate_per_cuft || load.rate_per_cuft;
 
   // Calculate financials
-  const result = calculateLoadFinancials({
+  const input: LoadFinancialsInput = {
     actual_cuft_loaded: load.actual_cuft_loaded,
     rate_per_cuft: ratePerCuft,
+    linehaul_minimum: load.linehaul_minimum,
     contract_accessorials_stairs: load.contract_accessorials_stairs,
     contract_accessorials_shuttle: load.contract_accessorials_shuttle,
     contract_accessorials_long_carry: load.contract_accessorials_long_carry,
@@ -236,7 +257,37 @@ export async function computeAndSaveLoadFinancials(
     storage_move_in_fee: load.storage_move_in_fee,
     storage_daily_fee: load.storage_daily_fee,
     storage_days_billed: load.storage_days_billed,
-  });
+  };
+  const baseResult = calculateLoadFinancials(input);
+
+  // Fuel surcharge: a tariff percentage quoted on the load wins over the indexed schedule
+  let fuelSurcharge: number | null = null;
+  let fuelPriceUsed: number | null = null;
+  const tariffPercent = Number(load.fuel_surcharge_percent) || 0;
+  if (tariffPercent > 0) {
+    fuelSurcharge = round((baseResult.base_revenue * tariffPercent) / 100);
+  } else if (baseResult.base_revenue > 0) {
+    const indexed = await getLoadFuelSurcharge(userId, {
+      date: load.pickup_date || String(load.created_at).split('T')[0],
+      linehaul: baseResult.base_revenue,
+      origin: {
+        city: load.pickup_city || load.loading_city,
+        state: load.pickup_state || load.loading_state,
+        postalCode: load.pickup_postal_code || load.loading_postal_code,
+      },
+      destination: {
+        city: load.delivery_city || load.dropoff_city,
+        state: load.delivery_state || load.dropoff_state,
+        postalCode: load.delivery_postal_code || load.dropoff_postal_code,
+      },
+    });
+    if (indexed) {
+      fuelSurcharge = indexed.amount;
+      fuelPriceUsed = indexed.price;
+    }
+  }
+
+  const result = fuelSurcharge ? calculateLoadFinancials({ ...input, fuel_surcharge: fuelSurcharge }) : baseResult;
 
   // Update the load with calculated values
   const { error: updateError } = await supabase
@@ -245,6 +296,8 @@ export async function computeAndSaveLoadFinancials(
       base_revenue: result.base_revenue,
       contract_accessorials_total: result.contract_accessorials_total,
       extra_accessorials_total: result.extra_accessorials_total,
+      fuel_surcharge_amount: fuelSurcharge,
+      fuel_price_used: fuelPriceUsed,
       total_revenue: result.total_revenue,
       company_owes: result.company_owes,
     })
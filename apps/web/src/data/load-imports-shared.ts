@@ -0,0 +1,242 @@
+/**
+ * Bulk load import types, field catalog and column auto-mapping, safe to
+ * import from client components
+ */
+
+import type { NewLoadInput } from '@/data/loads';
+
+export type LoadImportFieldKind = 'text' | 'number' | 'date' | 'boolean' | 'choice';
+
+export interface LoadImportFieldDefinition {
+  label: string;
+  kind: LoadImportFieldKind;
+  group: 'Load' | 'Customer' | 'Origin' | 'Destination' | 'Pricing' | 'Schedule';
+  /** Column headers other systems commonly use for this field (compared case- and punctuation-insensitively) */
+  aliases: string[];
+  /** Allowed values for choice fields, keyed by stored value */
+  choices?: Record<string, string>;
+}
+
+export const LOAD_IMPORT_FIELD_KEYS = [
+  'load_source',
+  'load_type',
+  'service_type',
+  'internal_reference',
+  'customer_name',
+  'customer_phone',
+  'delivery_address_full',
+  'balance_due',
+  'pickup_address_line1',
+  'pickup_city',
+  'pickup_state',
+  'pickup_postal_code',
+  'pickup_contact_name',
+  'pickup_contact_phone',
+  'loading_contact_name',
+  'loading_contact_phone',
+  'loading_address_line1',
+  'loading_city',
+  'loading_state',
+  'loading_postal_code',
+  'dropoff_address_line1',
+  'dropoff_city',
+  'dropoff_state',
+  'dropoff_postal_code',
+  'cubic_feet',
+  'rate_per_cuft',
+  'weight_lbs_estimate',
+  'pieces_count',
+  'packing_rate',
+  'materials_rate',
+  'contract_accessorials_shuttle',
+  'contract_accessorials_stairs',
+  'contract_accessorials_long_carry',
+  'contract_accessorials_bulky',
+  'contract_accessorials_packing',
+  'contract_accessorials_other',
+  'pickup_date',
+  'delivery_date',
+  'rfd_date',
+  'rfd_date_tbd',
+  'rfd_days_to_deliver',
+  'notes',
+] as const;
+
+export type LoadImportField = (typeof LOAD_IMPORT_FIELD_KEYS)[number] & keyof NewLoadInput;
+
+export const LOAD_IMPORT_FIELDS: Record<LoadImportField, LoadImportFieldDefinition> = {
+  load_source: {
+    label: 'Load Source',
+    kind: 'choice',
+    group: 'Load',
+    aliases: ['source', 'load source'],
+    choices: { partner: 'Partner Load', own_customer: 'My Customer' },
+  },
+  load_type: {
+    label: 'Load Type',
+    kind: 'choice',
+    group: 'Load',
+    aliases: ['load type', 'pickup type'],
+    choices: { company_load: 'Load from Warehouse', live_load: 'Live Load' },
+  },
+  service_type: {
+    label: 'Service Type',
+    kind: 'choice',
+    group: 'Load',
+    aliases: ['service', 'service type', 'move type', 'job type'],
+    choices: {
+      hhg_local: 'HHG Local',
+      hhg_long_distance: 'HHG Long Distance',
+      commercial: 'Commercial',
+      storage_in: 'Storage In',
+      storage_out: 'Storage Out',
+      freight: 'Freight',
+      other: 'Other',
+    },
+  },
+  internal_reference: {
+    label: 'Reference / Job #',
+    kind: 'text',
+    group: 'Load',
+    aliases: ['job', 'job number', 'job no', 'order', 'order number', 'reference', 'ref', 'registration', 'reg number', 'bol', 'bol number'],
+  },
+  customer_name: {
+    label: 'Customer Name',
+    kind: 'text',
+    group: 'Customer',
+    aliases: ['customer', 'shipper', 'shipper name', 'client', 'client name'],
+  },
+  customer_phone: {
+    label: 'Customer Phone',
+    kind: 'text',
+    group: 'Customer',
+    aliases: ['phone', 'customer phone', 'shipper phone', 'contact phone'],
+  },
+  delivery_address_full: {
+    label: 'Delivery Address (full)',
+    kind: 'text',
+    group: 'Customer',
+    aliases: ['delivery address', 'destination address', 'deliver to'],
+  },
+  balance_due: {
+    label: 'Balance Due',
+    kind: 'number',
+    group: 'Customer',
+    aliases: ['balance', 'balance due', 'cod', 'collect on delivery', 'amount due'],
+  },
+  pickup_address_line1: { label: 'Pickup Street', kind: 'text', group: 'Origin', aliases: ['pickup address', 'origin address', 'origin street'] },
+  pickup_city: { label: 'Pickup City', kind: 'text', group: 'Origin', aliases: ['origin city', 'pickup city', 'from city', 'orig city'] },
+  pickup_state: { label: 'Pickup State', kind: 'text', group: 'Origin', aliases: ['origin state', 'pickup state', 'from state', 'orig state', 'orig st'] },
+  pickup_postal_code: { label: 'Pickup ZIP', kind: 'text', group: 'Origin', aliases: ['origin zip', 'pickup zip', 'from zip', 'orig zip'] },
+  pickup_contact_name: { label: 'Pickup Contact', kind: 'text', group: 'Origin', aliases: ['pickup contact', 'origin contact'] },
+  pickup_contact_phone: { label: 'Pickup Contact Phone', kind: 'text', group: 'Origin', aliases: ['pickup phone', 'origin phone'] },
+  loading_contact_name: { label: 'Warehouse Contact', kind: 'text', group: 'Origin', aliases: ['warehouse contact', 'loading contact'] },
+  loading_contact_phone: { label: 'Warehouse Phone', kind: 'text', group: 'Origin', aliases: ['warehouse phone', 'loading phone'] },
+  loading_address_line1: { label: 'Warehouse Street', kind: 'text', group: 'Origin', aliases: ['warehouse address', 'loading address'] },
+  loading_city: { label: 'Warehouse City', kind: 'text', group: 'Origin', aliases: ['warehouse city', 'loading city'] },
+  loading_state: { label: 'Warehouse State', kind: 'text', group: 'Origin', aliases: ['warehouse state', 'loading state'] },
+  loading_postal_code: { label: 'Warehouse ZIP', kind: 'text', group: 'Origin', aliases: ['warehouse zip', 'loading zip'] },
+  dropoff_address_line1: { label: 'Destination Street', kind: 'text', group: 'Destination', aliases: ['destination street', 'dest address', 'delivery street'] },
+  dropoff_city: { label: 'Destination City', kind: 'text', group: 'Destination', aliases: ['destination city', 'dest city', 'delivery city', 'to city'] },
+  dropoff_state: { label: 'Destination State', kind: 'text', group: 'Destination', aliases: ['destination state', 'dest state', 'dest st', 'delivery state', 'to state'] },
+  dropoff_postal_code: { label: 'Destination ZIP', kind: 'text', group: 'Destination', aliases: ['destination zip', 'dest zip', 'delivery zip', 'to zip'] },
+  cubic_feet: { label: 'Cubic Feet', kind: 'number', group: 'Pricing', aliases: ['cuft', 'cu ft', 'cube', 'cubes', 'cubic feet', 'volume'] },
+  rate_per_cuft: { label: 'Rate per CuFt', kind: 'number', group: 'Pricing', aliases: ['rate', 'rate per cuft', 'cuft rate', 'rate cf', 'price per cf'] },
+  weight_lbs_estimate: { label: 'Weight (lbs)', kind: 'number', group: 'Pricing', aliases: ['weight', 'lbs', 'weight lbs', 'est weight'] },
+  pieces_count: { label: 'Pieces', kind: 'number', group: 'Pricing', aliases: ['pieces', 'piece count', 'items'] },
+  packing_rate: { label: 'Packing Rate', kind: 'number', group: 'Pricing', aliases: ['packing rate'] },
+  materials_rate: { label: 'Materials Rate', kind: 'number', group: 'Pricing', aliases: ['materials', 'materials rate'] },
+  contract_accessorials_shuttle: { label: 'Shuttle', kind: 'number', group: 'Pricing', aliases: ['shuttle'] },
+  contract_accessorials_stairs: { label: 'Stairs', kind: 'number', group: 'Pricing', aliases: ['stairs', 'flights'] },
+  contract_accessorials_long_carry: { label: 'Long Carry', kind: 'number', group: 'Pricing', aliases: ['long carry'] },
+  contract_accessorials_bulky: { label: 'Bulky', kind: 'number', group: 'Pricing', aliases: ['bulky', 'bulky items'] },
+  contract_accessorials_packing: { label: 'Packing Accessorials', kind: 'number', group: 'Pricing', aliases: ['packing'] },
+  contract_accessorials_other: { label: 'Other Accessorials', kind: 'number', group: 'Pricing', aliases: ['other charges', 'accessorials', 'other accessorials'] },
+  pickup_date: { label: 'Pickup Date', kind: 'date', group: 'Schedule', aliases: ['pickup date', 'load date', 'pack date'] },
+  delivery_date: { label: 'Delivery Date', kind: 'date', group: 'Schedule', aliases: ['delivery date', 'deliver by', 'rdd'] },
+  rfd_date: { label: 'RFD Date', kind: 'date', group: 'Schedule', aliases: ['rfd', 'rfd date', 'ready for delivery', 'first available date', 'fadd'] },
+  rfd_date_tbd: { label: 'RFD TBD', kind: 'boolean', group: 'Schedule', aliases: ['rfd tbd', 'tbd'] },
+  rfd_days_to_deliver: { label: 'Days to Deliver', kind: 'number', group: 'Schedule', aliases: ['days to deliver', 'transit days', 'delivery window days'] },
+  notes: { label: 'Notes', kind: 'text', group: 'Load', aliases: ['notes', 'comments', 'remarks', 'instructions'] },
+};
+
+/** Load field -> spreadsheet column header */
+export type LoadImportColumnMapping = Partial<Record<LoadImportField, string>>;
+/** Load field -> fixed value used when the row has none */
+export type LoadImportDefaults = Partial<Record<LoadImportField, string>>;
+
+export interface LoadImportTemplate {
+  id: string;
+  name: string;
+  company_id: string | null;
+  company: { id: string; name: string } | null;
+  column_mapping: LoadImportColumnMapping;
+  defaults: LoadImportDefaults;
+  last_used_at: string | null;
+  updated_at: string;
+}
+
+export interface LoadImportRowError {
+  /** Load field, or '_row' for problems not tied to one field */
+  field: string;
+  message: string;
+}
+
+export interface LoadImportRowResult {
+  /** 1-based spreadsheet data row (the header row is not counted) */
+  row: number;
+  valid: boolean;
+  errors: LoadImportRowError[];
+  summary: {
+    reference: string | null;
+    customer: string | null;
+    origin: string | null;
+    destination: string | null;
+    cubic_feet: number | null;
+  };
+}
+
+export interface LoadImportPreview {
+  rows: LoadImportRowResult[];
+  valid_count: number;
+  error_count: number;
+}
+
+export interface LoadImportCommitResult {
+  success: boolean;
+  error?: string;
+  created: number;
+  load_ids: string[];
+  /** Rows that were valid in the dry run but failed to save, and rows skipped as invalid */
+  failed: { row: number; error: string }[];
+  added_to_trip: number;
+  posted_to_marketplace: number;
+}
+
+export const MAX_IMPORT_ROWS = 500;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Best guess at which column feeds each field: an exact field key, label or
+ * alias match on the header. Each column is used once.
+ */
+export function suggestColumnMapping(headers: string[]): LoadImportColumnMapping {
+  const mapping: LoadImportColumnMapping = {};
+  const used = new Set<string>();
+  const byNormalized = new Map(headers.map((header) => [normalizeHeader(header), header]));
+
+  for (const field of LOAD_IMPORT_FIELD_KEYS) {
+    const definition = LOAD_IMPORT_FIELDS[field];
+    const candidates = [field.replace(/_/g, ' '), definition.label, ...definition.aliases].map(normalizeHeader);
+    const header = candidates.map((candidate) => byNormalized.get(candidate)).find((match) => match && !used.has(match));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
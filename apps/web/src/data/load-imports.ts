@@ -0,0 +1,496 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createLoad, newLoadInputSchema, type NewLoadInput } from '@/data/loads';
+import { addLoadToTrip } from '@/data/trips';
+import { matchPostedLoad } from '@/data/saved-searches';
+import { logAuditEvent, createMarketplacePostingMetadata } from '@/lib/audit';
+import type { FormValue } from '@/lib/form-data';
+import {
+  LOAD_IMPORT_FIELDS,
+  LOAD_IMPORT_FIELD_KEYS,
+  MAX_IMPORT_ROWS,
+  type LoadImportColumnMapping,
+  type LoadImportCommitResult,
+  type LoadImportDefaults,
+  type LoadImportField,
+  type LoadImportPreview,
+  type LoadImportRowResult,
+  type LoadImportTemplate,
+} from '@/data/load-imports-shared';
+
+/**
+ * Bulk load import
+ *
+ * Rows come from a partner's spreadsheet export, already parsed client side
+ * into { header: cell } records. Each row is mapped onto newLoadInputSchema
+ * fields through a column mapping (optionally saved as a template per
+ * partner) and validated with the same schema and superRefine rules as the
+ * load form. previewLoadImport is the dry run; commitLoadImport re-validates
+ * and creates every valid row, optionally adding them to a trip and posting
+ * them to the marketplace.
+ */
+
+type Related<T> = T | T[] | null;
+
+function firstOf<T>(value: Related<T> | undefined): T | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+const TEMPLATE_COLUMNS = `
+  id, name, company_id, column_mapping, defaults, last_used_at, updated_at,
+  company:companies(id, name)
+`;
+
+type TemplateRow = Omit<LoadImportTemplate, 'company'> & {
+  company: Related<{ id: string; name: string }>;
+};
+
+const fieldMapSchema = z.partialRecord(z.enum(LOAD_IMPORT_FIELD_KEYS), z.string().trim().max(500).optional());
+
+export const loadImportTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  company_id: z.string().uuid().nullable().optional(),
+  column_mapping: fieldMapSchema,
+  defaults: fieldMapSchema,
+});
+
+export const loadImportInputSchema = z.object({
+  rows: z
+    .array(z.record(z.string(), z.string()))
+    .min(1, 'The file has no rows to import')
+    .max(MAX_IMPORT_ROWS, `Import up to ${MAX_IMPORT_ROWS} loads at a time`),
+  column_mapping: fieldMapSchema,
+  defaults: fieldMapSchema,
+  company_id: z.string().uuid().nullable().optional(),
+});
+
+export const loadImportCommitSchema = loadImportInputSchema.extend({
+  trip_id: z.string().uuid().nullable().optional(),
+  post_to_marketplace: z.boolean().optional().default(false),
+  truck_requirement: z.enum(['any', 'semi_only', 'box_truck_only']).optional().default('any'),
+  template_id: z.string().uuid().nullable().optional(),
+});
+
+export type LoadImportTemplateInput = z.infer<typeof loadImportTemplateSchema>;
+export type LoadImportInput = z.infer<typeof loadImportInputSchema>;
+export type LoadImportCommitInput = z.input<typeof loadImportCommitSchema>;
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export async function listLoadImportTemplates(userId: string): Promise<LoadImportTemplate[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('load_import_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('owner_id', userId)
+    .order('last_used_at', { ascending: false, nullsFirst: false })
+    .order('name');
+
+  if (error) {
+    console.error('[listLoadImportTemplates] Error:', error);
+    return [];
+  }
+
+  return ((data || []) as unknown as TemplateRow[]).map((row) => ({
+    ...row,
+    column_mapping: row.column_mapping || {},
+    defaults: row.defaults || {},
+    company: firstOf(row.company),
+  }));
+}
+
+export async function saveLoadImportTemplate(
+  userId: string,
+  input: LoadImportTemplateInput,
+  templateId?: string | null
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const parsed = loadImportTemplateSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || 'Invalid template' };
+  }
+
+  const supabase = await createClient();
+  const payload = {
+    owner_id: userId,
+    name: parsed.data.name,
+    company_id: parsed.data.company_id || null,
+    column_mapping: parsed.data.column_mapping,
+    defaults: parsed.data.defaults,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = templateId
+    ? supabase.from('load_import_templates').update(payload).eq('id', templateId).eq('owner_id', userId)
+    : supabase.from('load_import_templates').insert(payload);
+
+  const { data, error } = await query.select('id').single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'A template with that name already exists' };
+    }
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, id: data.id };
+}
+
+export async function deleteLoadImportTemplate(
+  userId: string,
+  templateId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('load_import_templates')
+    .delete()
+    .eq('id', templateId)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// ROW MAPPING AND VALIDATION
+// ============================================================================
+
+function normalizeChoice(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Spreadsheets store dates as days since 1899-12-30
+function excelSerialToDate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial) * 86400000);
+  return date.toISOString().split('T')[0];
+}
+
+function parseImportDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+
+  const serial = Number(value);
+  if (Number.isFinite(serial) && serial > 20000 && serial < 80000) return excelSerialToDate(serial);
+
+  // US exports: M/D/YYYY or M/D/YY
+  const us = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+
+  const parsed = new Date(value);
+  // Unparseable values pass through so the schema reports them on the row
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toISOString().split('T')[0];
+}
+
+function toImportValue(field: LoadImportField, raw: string): FormValue {
+  const definition = LOAD_IMPORT_FIELDS[field];
+
+  switch (definition.kind) {
+    case 'number':
+      return raw.replace(/[$,\s]/g, '');
+    case 'date':
+      return parseImportDate(raw);
+    case 'boolean':
+      return /^(y|yes|true|1|x|tbd)$/i.test(raw);
+    case 'choice': {
+      const wanted = normalizeChoice(raw);
+      const match = Object.entries(definition.choices || {}).find(
+        ([value, label]) => normalizeChoice(value) === wanted || normalizeChoice(label) === wanted
+      );
+      return match ? match[0] : raw;
+    }
+    default:
+      return raw;
+  }
+}
+
+function buildRowValues(
+  row: Record<string, string>,
+  mapping: LoadImportColumnMapping,
+  defaults: LoadImportDefaults,
+  companyId: string | null
+): Record<string, FormValue> {
+  const values: Record<string, FormValue> = {};
+
+  LOAD_IMPORT_FIELD_KEYS.forEach((field) => {
+    const header = mapping[field];
+    const raw = (header ? row[header]?.trim() : '') || defaults[field]?.trim();
+    if (raw) values[field] = toImportValue(field, raw);
+  });
+
+  // Same defaults as the load form: a partner's sheet is partner work from their warehouse
+  values.load_source = values.load_source || (companyId ? 'partner' : 'own_customer');
+  values.load_type = values.load_type || 'company_load';
+  values.load_flow_type = values.load_source === 'own_customer' ? 'hhg_originated' : 'carrier_intake';
+  if (values.load_source === 'partner' && companyId) {
+    values.company_id = companyId;
+  }
+
+  // Customer jobs keep the delivery address on one line
+  if (values.load_source === 'own_customer' && !values.delivery_address_full) {
+    const parts = [values.dropoff_address_line1, values.dropoff_city, values.dropoff_state, values.dropoff_postal_code];
+    const address = parts.filter((part) => typeof part === 'string' && part).join(', ');
+    if (address) values.delivery_address_full = address;
+  }
+
+  return values;
+}
+
+function summarizeRow(values: Record<string, FormValue>): LoadImportRowResult['summary'] {
+  const text = (value: FormValue | undefined) => (typeof value === 'string' && value ? value : null);
+  const place = (city: FormValue | undefined, state: FormValue | undefined) =>
+    [text(city), text(state)].filter(Boolean).join(', ') || null;
+  const cubicFeet = Number(values.cubic_feet);
+
+  return {
+    reference: text(values.internal_reference),
+    customer: text(values.customer_name),
+    origin: place(values.pickup_city, values.pickup_state) || place(values.loading_city, values.loading_state),
+    destination: place(values.dropoff_city, values.dropoff_state) || text(values.delivery_address_full),
+    cubic_feet: Number.isFinite(cubicFeet) && cubicFeet > 0 ? cubicFeet : null,
+  };
+}
+
+async function validateImportRows(
+  userId: string,
+  input: LoadImportInput
+): Promise<{ error?: string; rows: Array<{ result: LoadImportRowResult; data: NewLoadInput | null }> }> {
+  const companyId = input.company_id || null;
+
+  if (companyId) {
+    const supabase = await createClient();
+    const { data: company } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('id', companyId)
+      .eq('owner_id', userId)
+      .maybeSingle();
+
+    if (!company) {
+      return { error: 'Partner company not found', rows: [] };
+    }
+  }
+
+  const rows = input.rows.map((row, index) => {
+    const values = buildRowValues(row, input.column_mapping, input.defaults, companyId);
+    const parsed = newLoadInputSchema.safeParse(values);
+
+    const result: LoadImportRowResult = {
+      row: index + 1,
+      valid: parsed.success,
+      errors: parsed.success
+        ? []
+        : parsed.error.issues.map((issue) => ({
+            field: typeof issue.path[0] === 'string' ? issue.path[0] : '_row',
+            message: issue.message,
+          })),
+      summary: summarizeRow(values),
+    };
+
+    return { result, data: parsed.success ? parsed.data : null };
+  });
+
+  return { rows };
+}
+
+/**
+ * Dry run: maps and validates every row without writing anything.
+ */
+export async function previewLoadImport(
+  userId: string,
+  input: LoadImportInput
+): Promise<{ success: boolean; preview?: LoadImportPreview; error?: string }> {
+  const parsed = loadImportInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || 'Invalid import' };
+  }
+
+  const { error, rows } = await validateImportRows(userId, parsed.data);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const results = rows.map((row) => row.result);
+  const validCount = results.filter((row) => row.valid).length;
+
+  return {
+    success: true,
+    preview: { rows: results, valid_count: validCount, error_count: results.length - validCount },
+  };
+}
+
+// ============================================================================
+// COMMIT
+// ============================================================================
+
+/**
+ * Creates a load for every row that passes validation. Invalid rows are
+ * skipped and reported back; a row that fails to save doesn't stop the rest.
+ */
+export async function commitLoadImport(
+  userId: string,
+  input: LoadImportCommitInput
+): Promise<LoadImportCommitResult> {
+  const empty = { created: 0, load_ids: [], failed: [], added_to_trip: 0, posted_to_marketplace: 0 };
+
+  const parsed = loadImportCommitSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || 'Invalid import', ...empty };
+  }
+
+  const supabase = await createClient();
+  const options = parsed.data;
+
+  // Check the trip and marketplace rights before creating anything
+  let tripSequenceStart = 0;
+  if (options.trip_id) {
+    const { data: trip } = await supabase
+      .from('trips')
+      .select('id')
+      .eq('id', options.trip_id)
+      .eq('owner_id', userId)
+      .maybeSingle();
+
+    if (!trip) {
+      return { success: false, error: 'Trip not found', ...empty };
+    }
+
+    const { count } = await supabase
+      .from('trip_loads')
+      .select('id', { count: 'exact', head: true })
+      .eq('trip_id', options.trip_id)
+      .eq('owner_id', userId);
+    tripSequenceStart = count ?? 0;
+  }
+
+  let workspaceCompanyId: string | null = null;
+  if (options.post_to_marketplace) {
+    const { data: workspaceCompany } = await supabase
+      .from('companies')
+      .select('id, is_broker')
+      .eq('owner_id', userId)
+      .eq('is_workspace_company', true)
+      .maybeSingle();
+
+    // Only brokers/moving companies can post to marketplace
+    if (!workspaceCompany?.is_broker) {
+      return { success: false, error: 'Only brokers and moving companies can post to marketplace', ...empty };
+    }
+    workspaceCompanyId = workspaceCompany.id;
+  }
+
+  const { error, rows } = await validateImportRows(userId, options);
+  if (error) {
+    return { success: false, error, ...empty };
+  }
+
+  const result: LoadImportCommitResult = { success: true, ...empty, load_ids: [], failed: [] };
+
+  for (const { result: row, data } of rows) {
+    if (!data) {
+      result.failed.push({ row: row.row, error: `Skipped: ${row.errors[0]?.message || 'invalid row'}` });
+      continue;
+    }
+
+    let load;
+    try {
+      load = await createLoad(data, userId);
+    } catch (createError) {
+      result.failed.push({
+        row: row.row,
+        error: createError instanceof Error ? createError.message : 'Failed to create load',
+      });
+      continue;
+    }
+
+    result.created += 1;
+    result.load_ids.push(load.id);
+
+    if (options.trip_id) {
+      try {
+        await addLoadToTrip(
+          options.trip_id,
+          { load_id: load.id, sequence_index: tripSequenceStart + result.added_to_trip, role: 'primary' },
+          userId
+        );
+        result.added_to_trip += 1;
+      } catch (tripError) {
+        result.failed.push({
+          row: row.row,
+          error: `Load created but not added to the trip: ${tripError instanceof Error ? tripError.message : 'unknown error'}`,
+        });
+      }
+    }
+
+    if (options.post_to_marketplace) {
+      const postedAt = new Date().toISOString();
+      const { error: postError } = await supabase
+        .from('loads')
+        .update({
+          posting_status: 'posted',
+          posted_at: postedAt,
+          posting_type: 'load',
+          posted_by_company_id: workspaceCompanyId,
+          is_marketplace_visible: true,
+          posted_to_marketplace_at: postedAt,
+          load_status: 'pending',
+          cubic_feet_estimate: load.cubic_feet,
+          rate_per_cuft: load.rate_per_cuft,
+          linehaul_amount: load.linehaul_amount,
+          company_rate: load.linehaul_amount,
+          company_rate_type: 'flat',
+          is_open_to_counter: false,
+          truck_requirement: options.truck_requirement,
+        })
+        .eq('id', load.id)
+        .eq('owner_id', userId);
+
+      if (postError) {
+        result.failed.push({ row: row.row, error: `Load created but not posted: ${postError.message}` });
+        continue;
+      }
+
+      result.posted_to_marketplace += 1;
+
+      logAuditEvent(supabase, {
+        entityType: 'load',
+        entityId: load.id,
+        action: 'posted_to_marketplace',
+        performedByUserId: userId,
+        performedByCompanyId: workspaceCompanyId ?? undefined,
+        previousValue: { posting_status: 'draft' },
+        newValue: { posting_status: 'posted' },
+        metadata: createMarketplacePostingMetadata({
+          cubicFeet: load.cubic_feet ?? undefined,
+          ratePerCuft: load.rate_per_cuft ?? undefined,
+          linehaulAmount: load.linehaul_amount ?? undefined,
+          truckRequirement: options.truck_requirement,
+          isOpenToCounter: false,
+        }),
+      });
+
+      // Alert users whose saved searches match; posting succeeds either way
+      await matchPostedLoad(load.id).catch((matchError) => {
+        console.error('Failed to match saved searches:', matchError);
+      });
+    }
+  }
+
+  if (options.template_id && result.created > 0) {
+    await supabase
+      .from('load_import_templates')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', options.template_id)
+      .eq('owner_id', userId);
+  }
+
+  return result;
+}
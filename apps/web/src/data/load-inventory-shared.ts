@@ -0,0 +1,99 @@
+/**
+ * Load inventory types and labels shared by server data functions and client components
+ */
+
+export type InventoryConditionCode =
+  | 'BE'
+  | 'BR'
+  | 'BU'
+  | 'CH'
+  | 'CU'
+  | 'D'
+  | 'F'
+  | 'G'
+  | 'L'
+  | 'MAR'
+  | 'MI'
+  | 'MO'
+  | 'P'
+  | 'R'
+  | 'RU'
+  | 'SC'
+  | 'SH'
+  | 'SO'
+  | 'T'
+  | 'W'
+  | 'Z';
+
+export type InventoryDeliveryStatus = 'pending' | 'delivered' | 'exception';
+
+export type InventoryDeliveryException = 'missing' | 'damaged' | 'refused' | 'other';
+
+// Standard descriptive inventory symbols for pre-existing condition
+export const CONDITION_CODE_LABELS: Record<InventoryConditionCode, string> = {
+  BE: 'Bent',
+  BR: 'Broken',
+  BU: 'Burned',
+  CH: 'Chipped',
+  CU: 'Contents unknown',
+  D: 'Dented',
+  F: 'Faded',
+  G: 'Gouged',
+  L: 'Loose',
+  MAR: 'Marred',
+  MI: 'Mildew',
+  MO: 'Moth-eaten',
+  P: 'Peeled',
+  R: 'Rubbed',
+  RU: 'Rusted',
+  SC: 'Scratched',
+  SH: 'Short',
+  SO: 'Soiled',
+  T: 'Torn',
+  W: 'Badly worn',
+  Z: 'Cracked',
+};
+
+export const DELIVERY_EXCEPTION_LABELS: Record<InventoryDeliveryException, string> = {
+  missing: 'Missing',
+  damaged: 'Damaged',
+  refused: 'Refused',
+  other: 'Other',
+};
+
+export interface LoadInventoryItem {
+  id: string;
+  load_id: string;
+  tag_number: string;
+  room: string | null;
+  description: string;
+  condition_codes: InventoryConditionCode[];
+  condition_notes: string | null;
+  carton_count: number;
+  is_high_value: boolean;
+  declared_value: number | null;
+  damage_item_id: string | null;
+  delivery_status: InventoryDeliveryStatus;
+  delivery_exception: InventoryDeliveryException | null;
+  delivery_notes: string | null;
+  delivered_at: string | null;
+  /** Linked entry from loads.pre_existing_damages */
+  damage: {
+    sticker_number: string;
+    damage_description: string;
+    photo_urls: string[];
+  } | null;
+}
+
+export interface LoadInventory {
+  items: LoadInventoryItem[];
+  summary: {
+    item_count: number;
+    carton_count: number;
+    high_value_count: number;
+    high_value_total: number;
+    delivered_count: number;
+    exception_count: number;
+    pending_count: number;
+  };
+}
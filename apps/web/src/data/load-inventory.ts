@@ -0,0 +1,118 @@
+import { createClient } from '@/lib/supabase-server';
+import type {
+  InventoryConditionCode,
+  InventoryDeliveryException,
+  LoadInventory,
+  LoadInventoryItem,
+} from '@/data/load-inventory-shared';
+
+/**
+ * Load Inventory - household goods descriptive inventory
+ *
+ * Drivers build the inventory on mobile during loading (one row per tag) and
+ * check items off at delivery. Items can point at an entry in
+ * loads.pre_existing_damages so the sticker photos travel with the tag.
+ */
+
+interface InventoryItemRow {
+  id: string;
+  load_id: string;
+  tag_number: string;
+  room: string | null;
+  description: string;
+  condition_codes: InventoryConditionCode[] | null;
+  condition_notes: string | null;
+  carton_count: number;
+  is_high_value: boolean;
+  declared_value: number | null;
+  damage_item_id: string | null;
+  delivery_status: 'pending' | 'delivered' | 'exception';
+  delivery_exception: InventoryDeliveryException | null;
+  delivery_notes: string | null;
+  delivered_at: string | null;
+}
+
+interface DamageItemJson {
+  id: string;
+  sticker_number: string;
+  item_description: string;
+  damage_description: string;
+  sticker_photo_url?: string | null;
+  damage_photo_urls?: string[] | null;
+  photo_url?: string | null;
+}
+
+/**
+ * Inventory for a load with linked pre-existing damage and totals
+ */
+export async function getLoadInventory(loadId: string, userId: string): Promise<LoadInventory> {
+  const supabase = await createClient();
+
+  const [{ data: items, error }, { data: load }] = await Promise.all([
+    supabase
+      .from('load_inventory_items')
+      .select(
+        'id, load_id, tag_number, room, description, condition_codes, condition_notes, carton_count, is_high_value, declared_value, damage_item_id, delivery_status, delivery_exception, delivery_notes, delivered_at'
+      )
+      .eq('load_id', loadId)
+      .eq('owner_id', userId),
+    supabase.from('loads').select('pre_existing_damages').eq('id', loadId).eq('owner_id', userId).maybeSingle(),
+  ]);
+
+  if (error) {
+    console.error('Error fetching load inventory:', error.message);
+    return emptyInventory();
+  }
+
+  const damages = ((load?.pre_existing_damages as DamageItemJson[] | null) || []).reduce(
+    (map, damage) => map.set(damage.id, damage),
+    new Map<string, DamageItemJson>()
+  );
+
+  const mapped: LoadInventoryItem[] = ((items || []) as InventoryItemRow[])
+    .map((row) => {
+      const damage = row.damage_item_id ? damages.get(row.damage_item_id) : undefined;
+      return {
+        ...row,
+        condition_codes: row.condition_codes || [],
+        carton_count: Number(row.carton_count) || 0,
+        declared_value: row.declared_value !== null ? Number(row.declared_value) : null,
+        damage: damage
+          ? {
+              sticker_number: damage.sticker_number,
+              damage_description: damage.damage_description,
+              photo_urls: damage.damage_photo_urls || (damage.photo_url ? [damage.photo_url] : []),
+            }
+          : null,
+      };
+    })
+    .sort((a, b) => a.tag_number.localeCompare(b.tag_number, undefined, { numeric: true }));
+
+  return {
+    items: mapped,
+    summary: {
+      item_count: mapped.length,
+      carton_count: mapped.reduce((sum, item) => sum + item.carton_count, 0),
+      high_value_count: mapped.filter((item) => item.is_high_value).length,
+      high_value_total: mapped.reduce((sum, item) => sum + (item.is_high_value ? item.declared_value || 0 : 0), 0),
+      delivered_count: mapped.filter((item) => item.delivery_status === 'delivered').length,
+      exception_count: mapped.filter((item) => item.delivery_status === 'exception').length,
+      pending_count: mapped.filter((item) => item.delivery_status === 'pending').length,
+    },
+  };
+}
+
+function emptyInventory(): LoadInventory {
+  return {
+    items: [],
+    summary: {
+      item_count: 0,
+      carton_count: 0,
+      high_value_count: 0,
+      high_value_total: 0,
+      delivered_count: 0,
+      exception_count: 0,
+      pending_count: 0,
+    },
+  };
+}
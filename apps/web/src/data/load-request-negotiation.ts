@@ -0,0 +1,390 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase-server';
+import { logAuditEvent } from '@/lib/audit';
+import {
+  isOfferExpired,
+  type LoadRequestOffer,
+  type OfferParty,
+  type OfferStatus,
+} from '@/data/load-request-negotiation-shared';
+
+/**
+ * Counter-offer negotiation on marketplace load requests
+ *
+ * A request's thread is a list of offers. The latest one is open and waits on
+ * the other side, who can accept it or counter with their own (rate plus
+ * optional pickup date and cubic feet cap). Offers can carry an expiry; an
+ * open offer past it can't be accepted. When the carrier agrees to the
+ * poster's counter the terms are stored on the request, and acceptLoadRequest
+ * writes them to the load: rate, load date and a cap on the cubic feet estimate.
+ */
+
+export interface OfferTermsInput {
+  rate: number;
+  // Defaults to the load's company_rate_type
+  rateType?: string | null;
+  loadDate?: string | null;
+  maxCuft?: number | null;
+  message?: string | null;
+  // Hours the offer stays open; null or 0 for no expiry
+  expiresInHours?: number | null;
+}
+
+export interface AgreedTerms {
+  rate: number;
+  rateType: string;
+  loadDate: string | null;
+  maxCuft: number | null;
+}
+
+interface OfferRow {
+  id: string;
+  request_id: string;
+  offered_by: OfferParty;
+  rate: number | string;
+  rate_type: string;
+  load_date: string | null;
+  max_cuft: number | string | null;
+  message: string | null;
+  expires_at: string | null;
+  status: OfferStatus;
+  responded_at: string | null;
+  created_at: string;
+}
+
+const OFFER_SELECT =
+  'id, request_id, offered_by, rate, rate_type, load_date, max_cuft, message, expires_at, status, responded_at, created_at';
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Offer threads for a set of requests, oldest offer first
+ */
+export async function getRequestOfferThreads(requestIds: string[]): Promise<Record<string, LoadRequestOffer[]>> {
+  if (requestIds.length === 0) return {};
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('load_request_offers')
+    .select(OFFER_SELECT)
+    .in('request_id', requestIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch load request offers: ${error.message}`);
+  }
+
+  const threads: Record<string, LoadRequestOffer[]> = {};
+  for (const row of (data || []) as OfferRow[]) {
+    (threads[row.request_id] ||= []).push(toOffer(row));
+  }
+  return threads;
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Answer the open offer with a counter. The side countering must be the one
+ * the request is waiting on.
+ */
+export async function counterLoadRequest(
+  requestId: string,
+  party: OfferParty,
+  userId: string,
+  terms: OfferTermsInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!(terms.rate > 0)) {
+    return { success: false, error: 'Enter a rate above zero' };
+  }
+  if (terms.maxCuft != null && !(terms.maxCuft > 0)) {
+    return { success: false, error: 'Cubic feet cap must be above zero' };
+  }
+
+  const supabase = await createClient();
+  const request = await getNegotiableRequest(supabase, requestId);
+  if ('error' in request) {
+    return { success: false, error: request.error };
+  }
+  if (request.awaiting_response_from !== party) {
+    return { success: false, error: 'Waiting on the other side to respond' };
+  }
+  if (!request.is_open_to_counter) {
+    return { success: false, error: 'This load does not accept counter offers' };
+  }
+
+  const now = new Date();
+  const { error: closeError } = await supabase
+    .from('load_request_offers')
+    .update({ status: 'countered', responded_at: now.toISOString() })
+    .eq('request_id', requestId)
+    .eq('status', 'open');
+
+  if (closeError) {
+    return { success: false, error: closeError.message };
+  }
+
+  const { data: offer, error: insertError } = await supabase
+    .from('load_request_offers')
+    .insert({
+      request_id: requestId,
+      load_id: request.load_id,
+      offered_by: party,
+      offered_by_user_id: userId,
+      rate: terms.rate,
+      rate_type: terms.rateType || request.company_rate_type || 'per_cuft',
+      load_date: terms.loadDate || null,
+      max_cuft: terms.maxCuft ?? null,
+      message: terms.message?.trim() || null,
+      expires_at: terms.expiresInHours
+        ? new Date(now.getTime() + terms.expiresInHours * 60 * 60 * 1000).toISOString()
+        : null,
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    return { success: false, error: insertError.message };
+  }
+
+  const { error: requestError } = await supabase
+    .from('load_requests')
+    .update({
+      awaiting_response_from: party === 'carrier' ? 'poster' : 'carrier',
+      agreed_rate: null,
+      agreed_rate_type: null,
+      agreed_load_date: null,
+      agreed_max_cuft: null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', requestId);
+
+  if (requestError) {
+    return { success: false, error: requestError.message };
+  }
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: request.load_id,
+    action: 'carrier_request_countered',
+    performedByUserId: userId,
+    newValue: { rate: terms.rate, load_date: terms.loadDate || null, max_cuft: terms.maxCuft ?? null },
+    metadata: { request_id: requestId, offer_id: offer.id, offered_by: party, rate: terms.rate },
+  });
+
+  return { success: true, id: offer.id };
+}
+
+/**
+ * Carrier agrees to the poster's open counter. The poster still accepts the
+ * request to assign the load, at the agreed terms.
+ */
+export async function agreeToPosterOffer(
+  requestId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+  const request = await getNegotiableRequest(supabase, requestId);
+  if ('error' in request) {
+    return { success: false, error: request.error };
+  }
+
+  const offer = await getOpenOffer(supabase, requestId);
+  if (!offer || offer.offered_by !== 'poster') {
+    return { success: false, error: 'There is no counter offer to accept' };
+  }
+  if (isOfferExpired(offer)) {
+    await expireOffer(supabase, offer.id);
+    return { success: false, error: 'This counter offer has expired' };
+  }
+
+  // Copying the terms onto the request happens in the database, where the
+  // carrier can't write them directly
+  const { data: acceptedOfferId, error } = await supabase.rpc('agree_to_load_request_offer', {
+    p_request_id: requestId,
+  });
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!acceptedOfferId) {
+    return { success: false, error: 'This counter offer has expired' };
+  }
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: request.load_id,
+    action: 'carrier_request_agreed',
+    performedByUserId: userId,
+    newValue: { rate: offer.rate, load_date: offer.load_date, max_cuft: offer.max_cuft },
+    metadata: { request_id: requestId, offer_id: offer.id },
+  });
+
+  return { success: true };
+}
+
+/**
+ * Terms the poster is accepting: the accepted offer if the carrier already
+ * agreed, otherwise the carrier's open offer (recorded as agreed here).
+ * Returns null for requests that were never negotiated.
+ */
+export async function resolveAgreedTerms(
+  supabase: SupabaseClient,
+  request: { id: string; agreed_rate: number | string | null }
+): Promise<{ terms: AgreedTerms | null } | { error: string }> {
+  if (request.agreed_rate !== null) {
+    // The copy on the request is only for display; the offer row is the record
+    const accepted = await getAcceptedOffer(supabase, request.id);
+    if (!accepted) {
+      return { error: 'The agreed offer could not be found' };
+    }
+    return {
+      terms: {
+        rate: accepted.rate,
+        rateType: accepted.rate_type,
+        loadDate: accepted.load_date,
+        maxCuft: accepted.max_cuft,
+      },
+    };
+  }
+
+  const offer = await getOpenOffer(supabase, request.id);
+  if (!offer) return { terms: null };
+
+  if (offer.offered_by === 'poster') {
+    return { error: 'The carrier has not answered your counter offer yet' };
+  }
+  if (isOfferExpired(offer)) {
+    await expireOffer(supabase, offer.id);
+    return { error: "The carrier's offer has expired" };
+  }
+
+  const agreed = await recordAgreement(supabase, request.id, offer);
+  if (!agreed.success) return { error: agreed.error || 'Failed to record agreed terms' };
+
+  return {
+    terms: { rate: offer.rate, rateType: offer.rate_type, loadDate: offer.load_date, maxCuft: offer.max_cuft },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toOffer(row: OfferRow): LoadRequestOffer {
+  return {
+    ...row,
+    rate: Number(row.rate),
+    max_cuft: row.max_cuft !== null ? Number(row.max_cuft) : null,
+  };
+}
+
+async function getNegotiableRequest(
+  supabase: SupabaseClient,
+  requestId: string
+): Promise<
+  | {
+      load_id: string;
+      awaiting_response_from: OfferParty;
+      is_open_to_counter: boolean;
+      company_rate_type: string | null;
+    }
+  | { error: string }
+> {
+  const { data: request } = await supabase
+    .from('load_requests')
+    .select('load_id, status, awaiting_response_from, load:loads(is_open_to_counter, assigned_carrier_id, company_rate_type)')
+    .eq('id', requestId)
+    .single();
+
+  if (!request) {
+    return { error: 'Request not found' };
+  }
+  if (request.status !== 'pending') {
+    return { error: 'This request is no longer open' };
+  }
+
+  const load = (Array.isArray(request.load) ? request.load[0] : request.load) as {
+    is_open_to_counter: boolean | null;
+    assigned_carrier_id: string | null;
+    company_rate_type: string | null;
+  } | null;
+  if (load?.assigned_carrier_id) {
+    return { error: 'This load has already been assigned' };
+  }
+
+  return {
+    load_id: request.load_id,
+    awaiting_response_from: request.awaiting_response_from as OfferParty,
+    is_open_to_counter: !!load?.is_open_to_counter,
+    company_rate_type: load?.company_rate_type ?? null,
+  };
+}
+
+async function getOpenOffer(supabase: SupabaseClient, requestId: string): Promise<LoadRequestOffer | null> {
+  const { data } = await supabase
+    .from('load_request_offers')
+    .select(OFFER_SELECT)
+    .eq('request_id', requestId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  return data ? toOffer(data as OfferRow) : null;
+}
+
+async function getAcceptedOffer(supabase: SupabaseClient, requestId: string): Promise<LoadRequestOffer | null> {
+  const { data } = await supabase
+    .from('load_request_offers')
+    .select(OFFER_SELECT)
+    .eq('request_id', requestId)
+    .eq('status', 'accepted')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? toOffer(data as OfferRow) : null;
+}
+
+async function expireOffer(supabase: SupabaseClient, offerId: string): Promise<void> {
+  await supabase
+    .from('load_request_offers')
+    .update({ status: 'expired', responded_at: new Date().toISOString() })
+    .eq('id', offerId);
+}
+
+async function recordAgreement(
+  supabase: SupabaseClient,
+  requestId: string,
+  offer: LoadRequestOffer
+): Promise<{ success: boolean; error?: string }> {
+  const now = new Date().toISOString();
+
+  const { error: offerError } = await supabase
+    .from('load_request_offers')
+    .update({ status: 'accepted', responded_at: now })
+    .eq('id', offer.id);
+
+  if (offerError) {
+    return { success: false, error: offerError.message };
+  }
+
+  const { error: requestError } = await supabase
+    .from('load_requests')
+    .update({
+      awaiting_response_from: 'poster',
+      agreed_rate: offer.rate,
+      agreed_rate_type: offer.rate_type,
+      agreed_load_date: offer.load_date,
+      agreed_max_cuft: offer.max_cuft,
+      updated_at: now,
+    })
+    .eq('id', requestId);
+
+  if (requestError) {
+    return { success: false, error: requestError.message };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,62 @@
+/**
+ * Load stop visit types and detention math, safe to import from client components
+ *
+ * A visit is the time a driver spent inside the geofence around a load's
+ * pickup, delivery or storage location. Loads without geofence visits fall
+ * back to the driver's workflow timestamps (arrived → finished).
+ */
+
+export type LoadStopType = 'pickup' | 'delivery' | 'storage';
+
+export type GeofenceArrivalMode = 'off' | 'prompt' | 'auto';
+
+export const LOAD_STOP_LABELS: Record<LoadStopType, string> = {
+  pickup: 'Pickup',
+  delivery: 'Delivery',
+  storage: 'Storage',
+};
+
+export const GEOFENCE_ARRIVAL_MODE_LABELS: Record<GeofenceArrivalMode, string> = {
+  off: 'Off',
+  prompt: 'Ask the driver to confirm',
+  auto: 'Record automatically',
+};
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 250;
+export const DEFAULT_DETENTION_FREE_MINUTES = 120;
+
+export interface LoadStopVisit {
+  id: string;
+  load_id: string;
+  driver_id: string | null;
+  stop_type: LoadStopType;
+  arrived_at: string;
+  departed_at: string | null;
+  arrival_recorded_at: string | null;
+}
+
+export interface LoadStopTime {
+  stop_type: LoadStopType;
+  arrived_at: string;
+  departed_at: string | null;
+  source: 'geofence' | 'workflow';
+  // Minutes on site so far when the driver hasn't left yet
+  minutes_on_site: number;
+  detention_minutes: number;
+}
+
+export function minutesBetween(from: string, to: string | null, now: Date = new Date()): number {
+  const end = to ? new Date(to).getTime() : now.getTime();
+  return Math.max(0, Math.round((end - new Date(from).getTime()) / 60000));
+}
+
+export function detentionMinutes(minutesOnSite: number, freeMinutes: number): number {
+  return Math.max(0, minutesOnSite - freeMinutes);
+}
+
+export function formatStopDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
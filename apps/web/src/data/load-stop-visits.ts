@@ -0,0 +1,451 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createServiceRoleClient } from '@/lib/supabase-admin';
+import { logAuditEvent } from '@/lib/audit';
+import { notifyOwnerDriverArrived } from '@/lib/push-notifications';
+import {
+  DEFAULT_DETENTION_FREE_MINUTES,
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  detentionMinutes,
+  minutesBetween,
+  type GeofenceArrivalMode,
+  type LoadStopTime,
+  type LoadStopType,
+  type LoadStopVisit,
+} from '@/data/load-stop-visits-shared';
+
+/**
+ * Geofenced arrivals and detention
+ *
+ * The driver app registers a geofence around each stop of its active loads
+ * (from getDriverGeofences) and reports entering and leaving them. Visits are
+ * stored in load_stop_visits; depending on the owner's geofence_arrival_mode
+ * the arrival is written to the load right away or after the driver confirms.
+ */
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+// iOS monitors at most 20 regions per app
+const MAX_GEOFENCES = 20;
+
+const ACTIVE_TRIP_STATUSES = ['active', 'en_route'];
+const DONE_LOAD_STATUSES = ['delivered', 'storage_completed'];
+
+export interface GeofenceSettings {
+  geofence_arrival_mode: GeofenceArrivalMode;
+  geofence_radius_meters: number;
+  detention_free_minutes: number;
+}
+
+export interface DriverGeofence {
+  // "<load id>:<stop type>", the region identifier on the device
+  identifier: string;
+  load_id: string;
+  load_number: string | null;
+  stop_type: LoadStopType;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+}
+
+export interface GeofenceDriver {
+  id: string;
+  owner_id: string;
+}
+
+export const geofenceEventSchema = z.object({
+  load_id: z.string().uuid(),
+  stop_type: z.enum(['pickup', 'delivery', 'storage']),
+  event: z.enum(['enter', 'exit', 'confirm']),
+  at: z.string().datetime({ offset: true }),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+});
+
+export type GeofenceEventInput = z.infer<typeof geofenceEventSchema>;
+
+export interface GeofenceEventResult {
+  success: boolean;
+  visit_id?: string;
+  // The driver should be asked to confirm the arrival
+  prompt?: boolean;
+  // The arrival was written to the load
+  recorded?: boolean;
+  load_number?: string | null;
+  error?: string;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getGeofenceSettings(
+  ownerId: string,
+  client?: ServiceClient
+): Promise<GeofenceSettings> {
+  const supabase = client ?? (await createClient());
+
+  const { data } = await supabase
+    .from('company_matching_settings')
+    .select('geofence_arrival_mode, geofence_radius_meters, detention_free_minutes')
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  return {
+    geofence_arrival_mode: (data?.geofence_arrival_mode as GeofenceArrivalMode) ?? 'prompt',
+    geofence_radius_meters: data?.geofence_radius_meters ?? DEFAULT_GEOFENCE_RADIUS_METERS,
+    detention_free_minutes: data?.detention_free_minutes ?? DEFAULT_DETENTION_FREE_MINUTES,
+  };
+}
+
+/**
+ * Geofences the driver app should monitor: stops of loads on the driver's
+ * active trips that haven't been finished yet, plus any stop the driver is
+ * still inside so its departure gets recorded
+ */
+export async function getDriverGeofences(driver: GeofenceDriver): Promise<{
+  mode: GeofenceArrivalMode;
+  geofences: DriverGeofence[];
+}> {
+  const supabase = createServiceRoleClient();
+  const settings = await getGeofenceSettings(driver.owner_id, supabase);
+
+  if (settings.geofence_arrival_mode === 'off') {
+    return { mode: 'off', geofences: [] };
+  }
+
+  const { data: trips, error: tripsError } = await supabase
+    .from('trips')
+    .select('id')
+    .eq('driver_id', driver.id)
+    .eq('owner_id', driver.owner_id)
+    .in('status', ACTIVE_TRIP_STATUSES);
+
+  if (tripsError) {
+    throw new Error(`Failed to fetch driver trips: ${tripsError.message}`);
+  }
+
+  const tripIds = (trips || []).map((trip) => trip.id);
+
+  const [{ data: tripLoads, error: loadsError }, { data: openVisits }] = await Promise.all([
+    tripIds.length > 0
+      ? supabase
+          .from('trip_loads')
+          .select(
+            `
+            sequence_index,
+            load:loads!trip_loads_load_id_fkey(
+              id, load_number, load_status,
+              pickup_lat, pickup_lng, delivery_lat, delivery_lng,
+              storage_location:storage_locations(latitude, longitude)
+            )
+          `
+          )
+          .in('trip_id', tripIds)
+          .order('sequence_index', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('load_stop_visits')
+      .select('load_id, stop_type')
+      .eq('driver_id', driver.id)
+      .is('departed_at', null),
+  ]);
+
+  if (loadsError) {
+    throw new Error(`Failed to fetch trip loads: ${loadsError.message}`);
+  }
+
+  type GeofenceLoad = {
+    id: string;
+    load_number: string | null;
+    load_status: string | null;
+    pickup_lat: number | null;
+    pickup_lng: number | null;
+    delivery_lat: number | null;
+    delivery_lng: number | null;
+    storage_location: { latitude: number | null; longitude: number | null } | { latitude: number | null; longitude: number | null }[] | null;
+  };
+
+  const loads = ((tripLoads || []) as unknown as Array<{ load: GeofenceLoad | GeofenceLoad[] | null }>)
+    .map((row) => (Array.isArray(row.load) ? row.load[0] : row.load))
+    .filter((load): load is GeofenceLoad => !!load);
+
+  const open = new Set((openVisits || []).map((visit) => `${visit.load_id}:${visit.stop_type}`));
+  const geofences: DriverGeofence[] = [];
+
+  const addFence = (load: GeofenceLoad, stopType: LoadStopType, lat: number | null, lng: number | null) => {
+    if (lat === null || lng === null) return;
+    geofences.push({
+      identifier: `${load.id}:${stopType}`,
+      load_id: load.id,
+      load_number: load.load_number,
+      stop_type: stopType,
+      latitude: Number(lat),
+      longitude: Number(lng),
+      radius_meters: settings.geofence_radius_meters,
+    });
+  };
+
+  for (const load of loads) {
+    const done = DONE_LOAD_STATUSES.includes(load.load_status || '');
+    const pickedUp = ['in_transit', ...DONE_LOAD_STATUSES].includes(load.load_status || '');
+    const storage = Array.isArray(load.storage_location) ? load.storage_location[0] : load.storage_location;
+
+    if (!pickedUp || open.has(`${load.id}:pickup`)) {
+      addFence(load, 'pickup', load.pickup_lat, load.pickup_lng);
+    }
+    if (!done || open.has(`${load.id}:delivery`)) {
+      addFence(load, 'delivery', load.delivery_lat, load.delivery_lng);
+    }
+    if (storage && (!done || open.has(`${load.id}:storage`))) {
+      addFence(load, 'storage', storage.latitude, storage.longitude);
+    }
+  }
+
+  // Stops the driver is inside come first so their departures aren't lost
+  geofences.sort((a, b) => Number(open.has(b.identifier)) - Number(open.has(a.identifier)));
+
+  return { mode: settings.geofence_arrival_mode, geofences: geofences.slice(0, MAX_GEOFENCES) };
+}
+
+/**
+ * Stop times for a load with detention beyond the owner's free time. Geofence
+ * visits are used when there are any for a stop, otherwise the workflow
+ * timestamps the driver tapped.
+ */
+export async function getLoadStopTimes(
+  loadId: string,
+  userId: string
+): Promise<{ free_minutes: number; stops: LoadStopTime[] }> {
+  const supabase = await createClient();
+
+  const [{ data: load, error: loadError }, { data: visits, error: visitsError }, settings] = await Promise.all([
+    supabase
+      .from('loads')
+      .select(
+        'origin_arrival_at, loading_finished_at, pickup_completed_at, destination_arrival_at, arrived_at_delivery, delivery_finished_at, delivered_at'
+      )
+      .eq('id', loadId)
+      .eq('owner_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('load_stop_visits')
+      .select('id, load_id, driver_id, stop_type, arrived_at, departed_at, arrival_recorded_at')
+      .eq('load_id', loadId)
+      .eq('owner_id', userId)
+      .order('arrived_at', { ascending: true }),
+    getGeofenceSettings(userId),
+  ]);
+
+  if (loadError) {
+    throw new Error(`Failed to fetch load: ${loadError.message}`);
+  }
+  if (visitsError) {
+    throw new Error(`Failed to fetch stop visits: ${visitsError.message}`);
+  }
+
+  const freeMinutes = settings.detention_free_minutes;
+  const toStopTime = (
+    stopType: LoadStopType,
+    arrivedAt: string,
+    departedAt: string | null,
+    source: LoadStopTime['source']
+  ): LoadStopTime => {
+    const minutes = minutesBetween(arrivedAt, departedAt);
+    return {
+      stop_type: stopType,
+      arrived_at: arrivedAt,
+      departed_at: departedAt,
+      source,
+      minutes_on_site: minutes,
+      detention_minutes: detentionMinutes(minutes, freeMinutes),
+    };
+  };
+
+  const stops: LoadStopTime[] = ((visits || []) as LoadStopVisit[]).map((visit) =>
+    toStopTime(visit.stop_type, visit.arrived_at, visit.departed_at, 'geofence')
+  );
+
+  if (load) {
+    const hasVisit = (stopType: LoadStopType) => stops.some((stop) => stop.stop_type === stopType);
+    if (!hasVisit('pickup') && load.origin_arrival_at) {
+      stops.push(
+        toStopTime('pickup', load.origin_arrival_at, load.loading_finished_at || load.pickup_completed_at, 'workflow')
+      );
+    }
+    const deliveryArrival = load.destination_arrival_at || load.arrived_at_delivery;
+    if (!hasVisit('delivery') && deliveryArrival) {
+      stops.push(
+        toStopTime('delivery', deliveryArrival, load.delivery_finished_at || load.delivered_at, 'workflow')
+      );
+    }
+  }
+
+  stops.sort((a, b) => a.arrived_at.localeCompare(b.arrived_at));
+  return { free_minutes: freeMinutes, stops };
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Record a geofence enter, exit or arrival confirmation from the driver app
+ */
+export async function recordGeofenceEvent(
+  driver: GeofenceDriver,
+  input: GeofenceEventInput
+): Promise<GeofenceEventResult> {
+  const supabase = createServiceRoleClient();
+
+  // The driver must be hauling the load, directly or on its trip
+  const { data: load } = await supabase
+    .from('loads')
+    .select('id, load_number, owner_id, company_id, assigned_driver_id, trip:trip_id(driver_id)')
+    .eq('id', input.load_id)
+    .eq('owner_id', driver.owner_id)
+    .maybeSingle();
+
+  const trip = Array.isArray(load?.trip) ? load?.trip[0] : load?.trip;
+  if (!load || (load.assigned_driver_id !== driver.id && trip?.driver_id !== driver.id)) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  const { data: openVisit } = await supabase
+    .from('load_stop_visits')
+    .select('id, load_id, driver_id, stop_type, arrived_at, departed_at, arrival_recorded_at')
+    .eq('load_id', input.load_id)
+    .eq('stop_type', input.stop_type)
+    .is('departed_at', null)
+    .maybeSingle();
+
+  if (input.event === 'exit') {
+    if (!openVisit) {
+      return { success: true };
+    }
+    const departedAt = input.at < openVisit.arrived_at ? openVisit.arrived_at : input.at;
+    const { error } = await supabase
+      .from('load_stop_visits')
+      .update({ departed_at: departedAt })
+      .eq('id', openVisit.id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, visit_id: openVisit.id, load_number: load.load_number };
+  }
+
+  let visit = openVisit as LoadStopVisit | null;
+
+  if (input.event === 'confirm') {
+    // Confirming after leaving uses the latest visit to the stop
+    if (!visit) {
+      const { data: lastVisit } = await supabase
+        .from('load_stop_visits')
+        .select('id, load_id, driver_id, stop_type, arrived_at, departed_at, arrival_recorded_at')
+        .eq('load_id', input.load_id)
+        .eq('stop_type', input.stop_type)
+        .order('arrived_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      visit = lastVisit as LoadStopVisit | null;
+    }
+    if (!visit) {
+      return { success: false, error: 'No arrival to confirm' };
+    }
+    const recorded = await recordArrival(supabase, load, driver, visit, 'prompt');
+    return { success: true, visit_id: visit.id, recorded, load_number: load.load_number };
+  }
+
+  // Enter: repeated events while inside keep the original arrival
+  if (!visit) {
+    const { data: created, error } = await supabase
+      .from('load_stop_visits')
+      .insert({
+        owner_id: driver.owner_id,
+        load_id: input.load_id,
+        driver_id: driver.id,
+        stop_type: input.stop_type,
+        arrived_at: input.at,
+        arrival_latitude: input.latitude ?? null,
+        arrival_longitude: input.longitude ?? null,
+      })
+      .select('id, load_id, driver_id, stop_type, arrived_at, departed_at, arrival_recorded_at')
+      .single();
+
+    if (error || !created) {
+      return { success: false, error: error?.message || 'Failed to record arrival' };
+    }
+    visit = created as LoadStopVisit;
+  }
+
+  if (input.stop_type === 'storage' || visit.arrival_recorded_at) {
+    return { success: true, visit_id: visit.id, load_number: load.load_number };
+  }
+
+  const settings = await getGeofenceSettings(driver.owner_id, supabase);
+  if (settings.geofence_arrival_mode !== 'auto') {
+    return {
+      success: true,
+      visit_id: visit.id,
+      prompt: settings.geofence_arrival_mode === 'prompt',
+      load_number: load.load_number,
+    };
+  }
+
+  const recorded = await recordArrival(supabase, load, driver, visit, 'auto');
+  return { success: true, visit_id: visit.id, recorded, load_number: load.load_number };
+}
+
+/**
+ * Write the visit's arrival to the load unless the driver already recorded
+ * one, then notify the owner. Returns whether the load was updated.
+ */
+async function recordArrival(
+  supabase: ServiceClient,
+  load: { id: string; owner_id: string; company_id: string | null },
+  driver: GeofenceDriver,
+  visit: LoadStopVisit,
+  mode: 'auto' | 'prompt'
+): Promise<boolean> {
+  if (visit.stop_type === 'storage') return false;
+
+  const column = visit.stop_type === 'pickup' ? 'origin_arrival_at' : 'destination_arrival_at';
+  const update: Record<string, string> = { [column]: visit.arrived_at };
+  // The driver app's delivery flow keys off arrived_at_delivery
+  if (visit.stop_type === 'delivery') {
+    update.arrived_at_delivery = visit.arrived_at;
+  }
+
+  const { data: updated, error } = await supabase
+    .from('loads')
+    .update(update)
+    .eq('id', load.id)
+    .is(column, null)
+    .select('id');
+
+  await supabase
+    .from('load_stop_visits')
+    .update({ arrival_recorded_at: new Date().toISOString() })
+    .eq('id', visit.id);
+
+  if (error || !updated || updated.length === 0) {
+    return false;
+  }
+
+  logAuditEvent(supabase, {
+    entityType: 'load',
+    entityId: load.id,
+    action: 'geofence_arrival_recorded',
+    performedByUserId: load.owner_id,
+    performedByCompanyId: load.company_id,
+    source: 'mobile',
+    visibility: 'partner',
+    newValue: update,
+    metadata: { stop_type: visit.stop_type, mode, driver_id: driver.id },
+  }).catch(() => {});
+
+  notifyOwnerDriverArrived(load.id, visit.stop_type).catch(() => {});
+
+  return true;
+}
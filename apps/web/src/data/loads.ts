@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase-server';
 import { computeAndSaveLoadFinancials } from './load-financials';
+import { geocodeLoadCoordinates } from './coordinates';
 import {
   logAuditEvent,
   logStructuredUploadEvent,
@@ -148,6 +149,12 @@ export const newLoadInputSchema = z
     contract_accessorials_packing: z.coerce.number().nonnegative().optional(),
     contract_accessorials_other: z.coerce.number().nonnegative().optional(),
     balance_due_on_delivery: z.coerce.number().nonnegative().optional(),
+    // Tariff pricing trace
+    rate_table_id: z.string().uuid().optional(),
+    rate_table_rule_id: z.string().uuid().optional(),
+    pricing_rule: optionalTrimmedString(500),
+    linehaul_minimum: z.coerce.number().nonnegative().optional(),
+    fuel_surcharge_percent: z.coerce.number().nonnegative().optional(),
     // Calculated financial fields
     base_revenue: z.coerce.number().nonnegative().optional(),
     total_revenue: z.coerce.number().nonnegative().optional(),
@@ -367,6 +374,12 @@ export interface Load {
   dropoff_address_line1: string | null;
   dropoff_address_line2: string | null;
 
+  // Coordinates geocoded from the pickup and delivery addresses on write
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  delivery_lat: number | null;
+  delivery_lng: number | null;
+
   // Loading snapshot
   loading_contact_name: string | null;
   loading_contact_phone: string | null;
@@ -400,6 +413,12 @@ export interface Load {
   amount_collected_on_delivery?: number | null;
   amount_paid_directly_to_company?: number | null;
   extra_accessorials_total?: number | null;
+  // Tariff pricing trace
+  rate_table_id?: string | null;
+  rate_table_rule_id?: string | null;
+  pricing_rule?: string | null;
+  linehaul_minimum?: number | null;
+  fuel_surcharge_percent?: number | null;
 
   // Status
   status: LoadStatus;
@@ -474,6 +493,8 @@ export interface Load {
   collected_amount?: number | null;
   collection_method?: 'cash' | 'check' | 'money_order' | 'card' | 'none' | null;
   delivery_notes?: string | null;
+  // Customer (own_customer loads)
+  customer_name?: string | null;
   // Customer signature
   customer_signature?: string | null;
   customer_name_printed?: string | null;
@@ -745,7 +766,9 @@ export async function createLoad(input: NewLoadInput, userId: string): Promise<L
   // For own_customer loads, cuft and rate are optional (estimate only)
   const cubicFeet = input.cubic_feet ? Number(input.cubic_feet) : null;
   const ratePerCuft = input.rate_per_cuft ? Number(input.rate_per_cuft) : null;
-  const linehaulAmount = cubicFeet && ratePerCuft ? Number((cubicFeet * ratePerCuft).toFixed(2)) : null;
+  const linehaulMinimum = Number(input.linehaul_minimum ?? 0);
+  const linehaulAmount =
+    cubicFeet && ratePerCuft ? Math.max(Number((cubicFeet * ratePerCuft).toFixed(2)), linehaulMinimum) : null;
   const accessorials = Number(input.accessorials_rate ?? 0);
   const packing = Number(input.packing_rate ?? 0);
   const materials = Number(input.materials_rate ?? 0);
@@ -821,6 +844,21 @@ export async function createLoad(input: NewLoadInput, userId: string): Promise<L
     materials_rate: materials || null,
     accessorials_rate: accessorials || null,
     total_rate: linehaulAmount ? linehaulAmount + packing + materials + accessorials : null,
+    contract_accessorials_stairs: nullable(input.contract_accessorials_stairs),
+    contract_accessorials_long_carry: nullable(input.contract_accessorials_long_carry),
+    contract_accessorials_shuttle: nullable(input.contract_accessorials_shuttle),
+    contract_accessorials_bulky: nullable(input.contract_accessorials_bulky),
+    contract_accessorials_packing: nullable(input.contract_accessorials_packing),
+    contract_accessorials_other: nullable(input.contract_accessorials_other),
+    contract_accessorials_total: nullable(input.contract_accessorials_total),
+    actual_cuft_loaded: nullable(input.actual_cuft_loaded),
+    contract_notes: nullable(input.contract_notes),
+    // Tariff pricing trace
+    rate_table_id: input.rate_table_id || null,
+    rate_table_rule_id: input.rate_table_rule_id || null,
+    pricing_rule: nullable(input.pricing_rule),
+    linehaul_minimum: nullable(input.linehaul_minimum),
+    fuel_surcharge_percent: nullable(input.fuel_surcharge_percent),
     status: input.status ?? 'pending',
     notes: nullable(input.notes),
     marketplace_listed: input.marketplace_listed ?? false,
@@ -832,9 +870,12 @@ export async function createLoad(input: NewLoadInput, userId: string): Promise<L
     rfd_delivery_deadline: rfdDeliveryDeadline,
   };
 
+  // Store coordinates so matching and the trip map don't geocode on read
+  const coordinates = await geocodeLoadCoordinates(payload);
+
   const { data, error } = await supabase
     .from('loads')
-    .insert(payload)
+    .insert({ ...payload, ...coordinates })
     .select(
       `
       *,
@@ -891,6 +932,8 @@ export async function updateLoad(
     .from('loads')
     .select(`
       id, trip_id, load_number, company_id, assigned_carrier_id,
+      pickup_city, pickup_state, pickup_postal_code, loading_city, loading_state, loading_postal_code,
+      delivery_city, delivery_state, delivery_postal_code, dropoff_city, dropoff_state, dropoff_postal_code,
       loading_start_photo, loading_end_photo, loading_report_photo,
       origin_paperwork_photos, contract_documents, contract_photo_url,
       load_report_photo_url, delivery_report_photo_url, delivery_photos,
@@ -1106,6 +1149,19 @@ export async function updateLoad(
     }
   }
 
+  // Re-geocode when either end of the load moves
+  const addressChanged = [
+    'pickup_city',
+    'pickup_state',
+    'pickup_postal_code',
+    'delivery_city',
+    'delivery_state',
+    'delivery_postal_code',
+  ].some((field) => field in payload);
+  if (addressChanged) {
+    Object.assign(payload, await geocodeLoadCoordinates({ ...loadData, ...payload }));
+  }
+
   const { data, error } = await supabase
     .from('loads')
     .update(payload)
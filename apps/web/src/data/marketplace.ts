@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase-server';
 import { createServiceRoleClient } from '@/lib/supabase-admin';
 import {
@@ -9,6 +10,7 @@ import {
 } from './notifications';
 import { createComplianceRequestsForPartnership } from './compliance';
 import { logAuditEvent } from '@/lib/audit';
+import { resolveAgreedTerms } from '@/data/load-request-negotiation';
 
 export interface MarketplaceStorageLocation {
   id: string;
@@ -148,6 +150,13 @@ export interface LoadRequest {
   proposed_load_date_end: string | null;
   proposed_delivery_date_start: string | null;
   proposed_delivery_date_end: string | null;
+
+  // Negotiation (see load-request-negotiation.ts)
+  awaiting_response_from: 'carrier' | 'poster';
+  agreed_rate: number | null;
+  agreed_rate_type: string | null;
+  agreed_load_date: string | null;
+  agreed_max_cuft: number | null;
 }
 
 // Get marketplace loads (all visible loads)
@@ -731,12 +740,14 @@ export async function createLoadRequest(
 }
 
 // Accept a load request (company accepting carrier)
+// Award rules run without a session and pass a service role client
 export async function acceptLoadRequest(
   requestId: string,
   responderId: string,
-  responseMessage?: string
+  responseMessage?: string,
+  client?: SupabaseClient
 ): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient();
+  const supabase = client ?? (await createClient());
 
   console.log('[acceptLoadRequest] Starting for request:', requestId);
 
@@ -771,13 +782,33 @@ export async function acceptLoadRequest(
 
   const loadData = request.load as Record<string, unknown>;
 
-  // Determine final rate
-  const finalRate = request.accepted_company_rate
-    ? (loadData.company_rate as number)
-    : request.offered_rate;
-  const finalRateType = request.accepted_company_rate
-    ? (loadData.company_rate_type as string)
-    : request.offered_rate_type;
+  if (request.status !== 'pending') {
+    return { success: false, error: 'This request is no longer pending' };
+  }
+
+  // Negotiated requests use the latest agreed terms
+  const negotiation = await resolveAgreedTerms(supabase, request);
+  if ('error' in negotiation) {
+    return { success: false, error: negotiation.error };
+  }
+  const agreed = negotiation.terms;
+
+  // Determine final rate. Counter-offer requests from the load board (web and
+  // mobile) only set counter_offer_rate, so offered_rate alone would finalize
+  // them with no rate.
+  const finalRate = agreed
+    ? agreed.rate
+    : request.accepted_company_rate
+      ? (loadData.company_rate as number)
+      : request.counter_offer_rate ?? request.offered_rate;
+  // Counter rates are quoted in the load's rate type; requests have no type of their own for them
+  const finalRateType = agreed
+    ? agreed.rateType
+    : request.accepted_company_rate
+      ? (loadData.company_rate_type as string)
+      : request.counter_offer_rate !== null
+        ? (loadData.company_rate_type as string | null) || 'per_cuft'
+        : request.offered_rate_type;
 
   // Update the request
   const { error: requestError } = await supabase
@@ -789,6 +820,7 @@ export async function acceptLoadRequest(
       response_message: responseMessage,
       final_rate: finalRate,
       final_rate_type: finalRateType,
+      awaiting_response_from: 'poster',
       creates_partnership: !request.is_partner,
       updated_at: new Date().toISOString(),
     })
@@ -801,6 +833,11 @@ export async function acceptLoadRequest(
 
   const companyObj = loadData.company as { id: string; name: string } | null;
 
+  // An agreed cubic feet cap limits the estimate the carrier is paid against
+  const currentCuft = Number(loadData.cubic_feet_estimate) || null;
+  const cappedCuft =
+    agreed?.maxCuft && (currentCuft === null || currentCuft > agreed.maxCuft) ? agreed.maxCuft : null;
+
   // Update the load with carrier assignment and marketplace integration fields
   const { error: loadError } = await supabase
     .from('loads')
@@ -809,6 +846,8 @@ export async function acceptLoadRequest(
       carrier_assigned_at: new Date().toISOString(),
       carrier_rate: finalRate,
       carrier_rate_type: finalRateType,
+      ...(agreed?.loadDate && { expected_load_date: agreed.loadDate }),
+      ...(cappedCuft !== null && { cubic_feet_estimate: cappedCuft }),
       load_status: 'pending', // Carrier needs to confirm
       is_marketplace_visible: false, // Remove from marketplace
       // Marketplace integration fields
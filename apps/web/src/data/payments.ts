@@ -0,0 +1,734 @@
+import { createClient } from '@/lib/supabase-server';
+import { logAuditEvent } from '@/lib/audit';
+import { syncInvoicePaidAmount } from './invoices';
+
+/**
+ * Receivable Payments - money received from partner companies
+ *
+ * A payment is recorded once (check, ACH, Zelle, ...) and split across one or
+ * more receivables through payment_applications. Each receivable keeps a running
+ * amount_paid so short-pays and installments leave an open balance:
+ *   open    - nothing applied
+ *   partial - some money applied, balance remaining
+ *   paid    - balance is zero
+ *
+ * Whatever part of a payment is not applied stays on the payment as a credit
+ * for that company and can be applied to later receivables.
+ */
+
+export type PaymentMethod = 'check' | 'ach' | 'zelle' | 'wire' | 'cash' | 'other';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  check: 'Check',
+  ach: 'ACH',
+  zelle: 'Zelle',
+  wire: 'Wire',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+export interface PaymentApplication {
+  id: string;
+  payment_id: string;
+  receivable_id: string;
+  amount: number;
+  created_at: string;
+  reference: string | null;
+  invoice_id: string | null;
+  invoice_number: string | null;
+  trip_number: string | null;
+}
+
+export interface Payment {
+  id: string;
+  company_id: string;
+  company_name: string | null;
+  amount: number;
+  amount_applied: number;
+  unapplied_amount: number;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  reference_number: string | null;
+  notes: string | null;
+  status: 'active' | 'void';
+  voided_at: string | null;
+  created_at: string;
+}
+
+export interface PaymentWithApplications extends Payment {
+  applications: PaymentApplication[];
+}
+
+export interface OpenReceivable {
+  id: string;
+  company_id: string;
+  company_name: string | null;
+  reference: string | null;
+  invoice_id: string | null;
+  invoice_number: string | null;
+  trip_number: string | null;
+  amount: number;
+  amount_paid: number;
+  balance: number;
+  status: string;
+  due_date: string | null;
+  created_at: string;
+}
+
+export interface PaymentApplicationInput {
+  receivableId: string;
+  amount: number;
+}
+
+export interface AgingBuckets {
+  current: number;
+  days_1_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_90_plus: number;
+  total: number;
+}
+
+export interface AgingReport {
+  as_of: string;
+  totals: AgingBuckets;
+  companies: {
+    company_id: string;
+    company_name: string;
+    buckets: AgingBuckets;
+    unapplied_credit: number;
+  }[];
+  unapplied_credit: number;
+}
+
+type Related<T> = T | T[] | null;
+
+function firstRelated<T>(value: Related<T> | undefined): T | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+interface ReceivableRow {
+  id: string;
+  company_id: string;
+  reference: string | null;
+  invoice_id: string | null;
+  amount: number;
+  amount_paid: number | null;
+  status: string;
+  due_date: string | null;
+  created_at: string;
+  company?: Related<{ name: string }>;
+  invoice?: Related<{ invoice_number: string }>;
+  trip?: Related<{ trip_number: string | null }>;
+}
+
+interface PaymentRow {
+  id: string;
+  company_id: string;
+  amount: number;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  reference_number: string | null;
+  notes: string | null;
+  status: 'active' | 'void';
+  voided_at: string | null;
+  created_at: string;
+  company?: Related<{ name: string }>;
+  applications?: {
+    id: string;
+    payment_id: string;
+    receivable_id: string;
+    amount: number;
+    created_at: string;
+    receivable?: Related<ReceivableRow>;
+  }[];
+}
+
+const RECEIVABLE_COLUMNS = `
+  id,
+  company_id,
+  reference,
+  invoice_id,
+  amount,
+  amount_paid,
+  status,
+  due_date,
+  created_at,
+  company:companies(name),
+  invoice:invoices(invoice_number),
+  trip:trips(trip_number)
+`;
+
+const PAYMENT_COLUMNS = `
+  id,
+  company_id,
+  amount,
+  payment_date,
+  payment_method,
+  reference_number,
+  notes,
+  status,
+  voided_at,
+  created_at,
+  company:companies(name),
+  applications:payment_applications(
+    id,
+    payment_id,
+    receivable_id,
+    amount,
+    created_at,
+    receivable:receivables(${RECEIVABLE_COLUMNS})
+  )
+`;
+
+/**
+ * Split an amount across receivables, oldest due date first.
+ * Receivables are expected in the order returned by getOpenReceivables.
+ */
+export function allocateOldestFirst(
+  receivables: Pick<OpenReceivable, 'id' | 'balance'>[],
+  amount: number
+): PaymentApplicationInput[] {
+  const applications: PaymentApplicationInput[] = [];
+  let remaining = round(amount);
+
+  for (const receivable of receivables) {
+    if (remaining <= 0) break;
+    const applied = round(Math.min(remaining, receivable.balance));
+    if (applied <= 0) continue;
+    applications.push({ receivableId: receivable.id, amount: applied });
+    remaining = round(remaining - applied);
+  }
+
+  return applications;
+}
+
+/**
+ * Bucket an outstanding balance by days past due
+ */
+export function getAgingBucket(
+  dueDate: string | null,
+  asOf: string
+): Exclude<keyof AgingBuckets, 'total'> {
+  if (!dueDate) return 'current';
+  const days = Math.floor(
+    (new Date(`${asOf}T00:00:00Z`).getTime() - new Date(`${dueDate.split('T')[0]}T00:00:00Z`).getTime()) /
+      (24 * 60 * 60 * 1000)
+  );
+  if (days <= 0) return 'current';
+  if (days <= 30) return 'days_1_30';
+  if (days <= 60) return 'days_31_60';
+  if (days <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+/**
+ * Receivables with a remaining balance, oldest due date first
+ */
+export async function getOpenReceivables(userId: string, companyId?: string): Promise<OpenReceivable[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('receivables')
+    .select(RECEIVABLE_COLUMNS)
+    .eq('owner_id', userId)
+    .in('status', ['open', 'partial'])
+    .order('due_date', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+
+  if (companyId) query = query.eq('company_id', companyId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch open receivables: ${error.message}`);
+  }
+
+  return ((data || []) as ReceivableRow[]).map(mapReceivable).filter((r) => r.balance > 0);
+}
+
+/**
+ * Record a payment from a company and apply it to receivables.
+ * When no applications are given the payment is applied oldest first;
+ * anything left over stays on the payment as a credit.
+ */
+export async function recordPayment(
+  userId: string,
+  input: {
+    companyId: string;
+    amount: number;
+    paymentDate?: string;
+    paymentMethod: PaymentMethod;
+    referenceNumber?: string | null;
+    notes?: string | null;
+    applications?: PaymentApplicationInput[];
+  }
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const amount = round(input.amount);
+  if (!(amount > 0)) {
+    return { success: false, error: 'Payment amount must be greater than zero' };
+  }
+
+  let openReceivables: OpenReceivable[];
+  try {
+    openReceivables = await getOpenReceivables(userId, input.companyId);
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to load receivables' };
+  }
+
+  const applications = input.applications?.length
+    ? input.applications.filter((a) => round(a.amount) > 0)
+    : allocateOldestFirst(openReceivables, amount);
+
+  const validationError = validateApplications(applications, openReceivables, amount);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const supabase = await createClient();
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('payments')
+    .insert({
+      owner_id: userId,
+      company_id: input.companyId,
+      amount,
+      payment_date: input.paymentDate || new Date().toISOString().split('T')[0],
+      payment_method: input.paymentMethod,
+      reference_number: input.referenceNumber || null,
+      notes: input.notes || null,
+      status: 'active',
+    })
+    .select('id')
+    .single();
+
+  if (paymentError || !payment) {
+    return { success: false, error: paymentError?.message || 'Failed to record payment' };
+  }
+
+  const applyResult = await insertApplications(payment.id, userId, applications);
+  if (!applyResult.success) {
+    await supabase.from('payments').delete().eq('id', payment.id).eq('owner_id', userId);
+    return applyResult;
+  }
+
+  const applied = round(applications.reduce((sum, a) => sum + a.amount, 0));
+
+  logAuditEvent(supabase, {
+    entityType: 'company',
+    entityId: input.companyId,
+    action: 'payment_recorded',
+    performedByUserId: userId,
+    newValue: { payment_id: payment.id, amount, applied, unapplied: round(amount - applied) },
+    metadata: {
+      payment_method: input.paymentMethod,
+      reference_number: input.referenceNumber || null,
+      receivable_ids: applications.map((a) => a.receivableId),
+    },
+  });
+
+  return { success: true, id: payment.id };
+}
+
+/**
+ * Apply the unapplied credit on an existing payment to open receivables.
+ * Without explicit applications the credit is applied oldest first.
+ */
+export async function applyPaymentCredit(
+  paymentId: string,
+  userId: string,
+  applications?: PaymentApplicationInput[]
+): Promise<{ success: boolean; error?: string }> {
+  const payment = await getPaymentById(paymentId, userId);
+  if (!payment) {
+    return { success: false, error: 'Payment not found' };
+  }
+  if (payment.status === 'void') {
+    return { success: false, error: 'Voided payments cannot be applied' };
+  }
+  if (payment.unapplied_amount <= 0) {
+    return { success: false, error: 'This payment has no unapplied credit' };
+  }
+
+  let openReceivables: OpenReceivable[];
+  try {
+    openReceivables = await getOpenReceivables(userId, payment.company_id);
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to load receivables' };
+  }
+
+  const toApply = applications?.length
+    ? applications.filter((a) => round(a.amount) > 0)
+    : allocateOldestFirst(openReceivables, payment.unapplied_amount);
+
+  if (toApply.length === 0) {
+    return { success: false, error: 'No open receivables to apply this credit to' };
+  }
+
+  const validationError = validateApplications(toApply, openReceivables, payment.unapplied_amount);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  return insertApplications(payment.id, userId, toApply);
+}
+
+/**
+ * Void a payment. Its applications are removed and the receivables reopened.
+ */
+export async function voidPayment(
+  paymentId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: payment, error: fetchError } = await supabase
+    .from('payments')
+    .select('id, company_id, amount, status, reference_number, applications:payment_applications(receivable_id)')
+    .eq('id', paymentId)
+    .eq('owner_id', userId)
+    .single();
+
+  if (fetchError || !payment) {
+    return { success: false, error: 'Payment not found' };
+  }
+  if (payment.status === 'void') {
+    return { success: false, error: 'Payment is already void' };
+  }
+
+  const receivableIds = Array.from(
+    new Set((payment.applications || []).map((a: { receivable_id: string }) => a.receivable_id))
+  );
+
+  const { error: deleteError } = await supabase
+    .from('payment_applications')
+    .delete()
+    .eq('payment_id', paymentId)
+    .eq('owner_id', userId);
+
+  if (deleteError) {
+    return { success: false, error: deleteError.message };
+  }
+
+  const { error } = await supabase
+    .from('payments')
+    .update({ status: 'void', voided_at: new Date().toISOString() })
+    .eq('id', paymentId)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const refreshResult = await refreshReceivableBalances(receivableIds, userId);
+  if (!refreshResult.success) {
+    return refreshResult;
+  }
+
+  logAuditEvent(supabase, {
+    entityType: 'company',
+    entityId: payment.company_id,
+    action: 'payment_voided',
+    performedByUserId: userId,
+    previousValue: { status: 'active', amount: Number(payment.amount) || 0 },
+    newValue: { status: 'void' },
+    metadata: { payment_id: paymentId, reference_number: payment.reference_number, receivable_ids: receivableIds },
+  });
+
+  return { success: true };
+}
+
+export async function listPayments(params: {
+  ownerId: string;
+  companyId?: string;
+  includeVoid?: boolean;
+  limit?: number;
+}): Promise<Payment[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .eq('owner_id', params.ownerId)
+    .order('payment_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (params.companyId) query = query.eq('company_id', params.companyId);
+  if (!params.includeVoid) query = query.eq('status', 'active');
+  if (params.limit) query = query.limit(params.limit);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list payments: ${error.message}`);
+  }
+
+  return ((data || []) as PaymentRow[]).map(mapPayment);
+}
+
+export async function getPaymentById(id: string, userId: string): Promise<PaymentWithApplications | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .eq('id', id)
+    .eq('owner_id', userId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching payment:', error?.message);
+    return null;
+  }
+
+  return mapPayment(data as PaymentRow);
+}
+
+/**
+ * Outstanding receivable balances bucketed by days past due (current/1-30/31-60/61-90/90+)
+ */
+export async function getReceivablesAging(userId: string, asOf?: string): Promise<AgingReport> {
+  const asOfDate = asOf || new Date().toISOString().split('T')[0];
+
+  const [receivables, payments] = await Promise.all([
+    getOpenReceivables(userId),
+    listPayments({ ownerId: userId }),
+  ]);
+
+  const emptyBuckets = (): AgingBuckets => ({
+    current: 0,
+    days_1_30: 0,
+    days_31_60: 0,
+    days_61_90: 0,
+    days_90_plus: 0,
+    total: 0,
+  });
+
+  const totals = emptyBuckets();
+  const byCompany = new Map<string, AgingReport['companies'][number]>();
+
+  const companyEntry = (companyId: string, companyName: string | null) => {
+    const existing = byCompany.get(companyId);
+    if (existing) return existing;
+    const entry = {
+      company_id: companyId,
+      company_name: companyName || 'Unknown Company',
+      buckets: emptyBuckets(),
+      unapplied_credit: 0,
+    };
+    byCompany.set(companyId, entry);
+    return entry;
+  };
+
+  receivables.forEach((r) => {
+    const bucket = getAgingBucket(r.due_date, asOfDate);
+    const entry = companyEntry(r.company_id, r.company_name);
+    entry.buckets[bucket] = round(entry.buckets[bucket] + r.balance);
+    entry.buckets.total = round(entry.buckets.total + r.balance);
+    totals[bucket] = round(totals[bucket] + r.balance);
+    totals.total = round(totals.total + r.balance);
+  });
+
+  let unappliedCredit = 0;
+  payments.forEach((p) => {
+    if (p.unapplied_amount <= 0) return;
+    const entry = companyEntry(p.company_id, p.company_name);
+    entry.unapplied_credit = round(entry.unapplied_credit + p.unapplied_amount);
+    unappliedCredit = round(unappliedCredit + p.unapplied_amount);
+  });
+
+  return {
+    as_of: asOfDate,
+    totals,
+    companies: Array.from(byCompany.values()).sort((a, b) => b.buckets.total - a.buckets.total),
+    unapplied_credit: unappliedCredit,
+  };
+}
+
+function validateApplications(
+  applications: PaymentApplicationInput[],
+  openReceivables: OpenReceivable[],
+  available: number
+): string | null {
+  const balances = new Map(openReceivables.map((r) => [r.id, r.balance]));
+  const totals = new Map<string, number>();
+
+  for (const application of applications) {
+    const balance = balances.get(application.receivableId);
+    if (balance === undefined) {
+      return 'Payments can only be applied to open receivables for this company';
+    }
+    const total = round((totals.get(application.receivableId) || 0) + application.amount);
+    if (total > balance) {
+      return `Applied amount exceeds the remaining balance of ${balance.toFixed(2)}`;
+    }
+    totals.set(application.receivableId, total);
+  }
+
+  const applied = round(applications.reduce((sum, a) => sum + a.amount, 0));
+  if (applied > round(available)) {
+    return 'Applied amounts exceed the payment amount';
+  }
+
+  return null;
+}
+
+async function insertApplications(
+  paymentId: string,
+  userId: string,
+  applications: PaymentApplicationInput[]
+): Promise<{ success: boolean; error?: string }> {
+  if (applications.length === 0) {
+    return { success: true };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('payment_applications').insert(
+    applications.map((a) => ({
+      owner_id: userId,
+      payment_id: paymentId,
+      receivable_id: a.receivableId,
+      amount: round(a.amount),
+    }))
+  );
+
+  if (error) {
+    return { success: false, error: `Failed to apply payment: ${error.message}` };
+  }
+
+  return refreshReceivableBalances(
+    Array.from(new Set(applications.map((a) => a.receivableId))),
+    userId
+  );
+}
+
+/**
+ * Recompute amount_paid and status for receivables from their applications,
+ * then bring any invoices that raised them in step.
+ */
+async function refreshReceivableBalances(
+  receivableIds: string[],
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (receivableIds.length === 0) {
+    return { success: true };
+  }
+
+  const supabase = await createClient();
+
+  const [{ data: receivables, error: recvError }, { data: applications, error: appError }] = await Promise.all([
+    supabase
+      .from('receivables')
+      .select('id, amount, status, paid_at, invoice_id')
+      .eq('owner_id', userId)
+      .in('id', receivableIds),
+    supabase
+      .from('payment_applications')
+      .select('receivable_id, amount')
+      .eq('owner_id', userId)
+      .in('receivable_id', receivableIds),
+  ]);
+
+  if (recvError) return { success: false, error: recvError.message };
+  if (appError) return { success: false, error: appError.message };
+
+  const appliedByReceivable = new Map<string, number>();
+  (applications || []).forEach((a) => {
+    appliedByReceivable.set(
+      a.receivable_id,
+      round((appliedByReceivable.get(a.receivable_id) || 0) + (Number(a.amount) || 0))
+    );
+  });
+
+  for (const receivable of receivables || []) {
+    if (receivable.status === 'void') continue;
+
+    const amount = Number(receivable.amount) || 0;
+    const amountPaid = appliedByReceivable.get(receivable.id) || 0;
+    const status = amountPaid <= 0 ? 'open' : amountPaid >= amount ? 'paid' : 'partial';
+
+    const { error } = await supabase
+      .from('receivables')
+      .update({
+        amount_paid: amountPaid,
+        status,
+        paid_at: status === 'paid' ? receivable.paid_at || new Date().toISOString() : null,
+      })
+      .eq('id', receivable.id)
+      .eq('owner_id', userId);
+
+    if (error) {
+      return { success: false, error: `Failed to update receivable: ${error.message}` };
+    }
+
+    if (receivable.invoice_id) {
+      const syncResult = await syncInvoicePaidAmount(receivable.invoice_id, userId, amountPaid);
+      if (!syncResult.success) return syncResult;
+    }
+  }
+
+  return { success: true };
+}
+
+function mapReceivable(row: ReceivableRow): OpenReceivable {
+  const amount = Number(row.amount) || 0;
+  const amountPaid = Number(row.amount_paid) || 0;
+  return {
+    id: row.id,
+    company_id: row.company_id,
+    company_name: firstRelated(row.company)?.name || null,
+    reference: row.reference,
+    invoice_id: row.invoice_id,
+    invoice_number: firstRelated(row.invoice)?.invoice_number || null,
+    trip_number: firstRelated(row.trip)?.trip_number || null,
+    amount,
+    amount_paid: amountPaid,
+    balance: row.status === 'void' ? 0 : round(amount - amountPaid),
+    status: row.status,
+    due_date: row.due_date,
+    created_at: row.created_at,
+  };
+}
+
+function mapPayment(row: PaymentRow): PaymentWithApplications {
+  const amount = Number(row.amount) || 0;
+  const applications: PaymentApplication[] = (row.applications || []).map((a) => {
+    const receivable = firstRelated(a.receivable);
+    return {
+      id: a.id,
+      payment_id: a.payment_id,
+      receivable_id: a.receivable_id,
+      amount: Number(a.amount) || 0,
+      created_at: a.created_at,
+      reference: receivable?.reference || null,
+      invoice_id: receivable?.invoice_id || null,
+      invoice_number: firstRelated(receivable?.invoice)?.invoice_number || null,
+      trip_number: firstRelated(receivable?.trip)?.trip_number || null,
+    };
+  });
+  const applied = round(applications.reduce((sum, a) => sum + a.amount, 0));
+
+  return {
+    id: row.id,
+    company_id: row.company_id,
+    company_name: firstRelated(row.company)?.name || null,
+    amount,
+    amount_applied: applied,
+    unapplied_amount: row.status === 'void' ? 0 : round(amount - applied),
+    payment_date: row.payment_date,
+    payment_method: row.payment_method,
+    reference_number: row.reference_number,
+    notes: row.notes,
+    status: row.status,
+    voided_at: row.voided_at,
+    created_at: row.created_at,
+    applications,
+  };
+}
+
+/**
+ * Round to 2 decimal places for currency
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,201 @@
+/**
+ * Rate table (tariff) types, labels and the pricing engine shared by server data functions and client components
+ */
+
+export type RatePricingBasis = 'cuft_band' | 'mileage_band' | 'lane';
+
+export const RATE_PRICING_BASIS_LABELS: Record<RatePricingBasis, string> = {
+  cuft_band: 'Cubic feet bands',
+  mileage_band: 'Mileage bands',
+  lane: 'State lanes',
+};
+
+export interface RateTableRule {
+  id: string;
+  rate_table_id: string;
+  min_cuft: number | null;
+  max_cuft: number | null;
+  min_miles: number | null;
+  max_miles: number | null;
+  origin_state: string | null;
+  destination_state: string | null;
+  rate_per_cuft: number;
+  minimum_charge: number | null;
+  sort_order: number;
+}
+
+export interface RateTable {
+  id: string;
+  company_id: string | null;
+  company_name: string | null;
+  name: string;
+  pricing_basis: RatePricingBasis;
+  minimum_charge: number;
+  fuel_surcharge_percent: number;
+  stairs_per_flight: number;
+  long_carry_per_50ft: number;
+  shuttle_charge: number;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RateTableWithRules extends RateTable {
+  rules: RateTableRule[];
+}
+
+export interface RateQuoteInput {
+  cubicFeet: number;
+  miles: number | null;
+  originState: string | null;
+  destinationState: string | null;
+}
+
+export interface RateQuote {
+  rate_table_id: string;
+  rate_table_name: string;
+  is_default_table: boolean;
+  rule_id: string;
+  rule_description: string;
+  rate_per_cuft: number;
+  cubic_feet: number;
+  miles: number | null;
+  calculated_linehaul: number;
+  minimum_charge: number;
+  minimum_applied: boolean;
+  linehaul: number;
+  fuel_surcharge_percent: number;
+  fuel_surcharge: number;
+  total: number;
+  accessorial_prices: {
+    stairs_per_flight: number;
+    long_carry_per_50ft: number;
+    shuttle: number;
+  };
+}
+
+export type RateQuoteResult =
+  | { success: true; quote: RateQuote }
+  | { success: false; error: string; rate_table_id?: string };
+
+function formatBand(min: number | null, max: number | null, unit: string): string {
+  const from = (min ?? 0).toLocaleString('en-US');
+  return max === null ? `${from}+ ${unit}` : `${from}-${max.toLocaleString('en-US')} ${unit}`;
+}
+
+/**
+ * Short label for a rule, e.g. "1,000-2,000 cuft" or "CA -> TX"
+ */
+export function describeRateRule(basis: RatePricingBasis, rule: RateTableRule): string {
+  if (basis === 'cuft_band') return formatBand(rule.min_cuft, rule.max_cuft, 'cuft');
+  if (basis === 'mileage_band') return formatBand(rule.min_miles, rule.max_miles, 'mi');
+  return `${rule.origin_state || 'Any'} -> ${rule.destination_state || 'Any'}`;
+}
+
+function inBand(value: number, min: number | null, max: number | null): boolean {
+  return value >= (min ?? 0) && (max === null || value < max);
+}
+
+function normalizeState(state: string | null): string | null {
+  return state ? state.trim().toUpperCase() : null;
+}
+
+/**
+ * Find the rule that prices a load.
+ * Bands use the first matching band by sort order. Lanes prefer an exact
+ * origin+destination match over a lane with one side left open ("Any").
+ */
+export function findRateRule(
+  basis: RatePricingBasis,
+  rules: RateTableRule[],
+  input: RateQuoteInput
+): RateTableRule | null {
+  const sorted = [...rules].sort((a, b) => a.sort_order - b.sort_order);
+
+  if (basis === 'cuft_band') {
+    return sorted.find((rule) => inBand(input.cubicFeet, rule.min_cuft, rule.max_cuft)) || null;
+  }
+
+  if (basis === 'mileage_band') {
+    if (input.miles === null) return null;
+    const miles = input.miles;
+    return sorted.find((rule) => inBand(miles, rule.min_miles, rule.max_miles)) || null;
+  }
+
+  const origin = normalizeState(input.originState);
+  const destination = normalizeState(input.destinationState);
+  const matches = sorted.filter(
+    (rule) =>
+      (!rule.origin_state || rule.origin_state === origin) &&
+      (!rule.destination_state || rule.destination_state === destination)
+  );
+  const specificity = (rule: RateTableRule) => (rule.origin_state ? 1 : 0) + (rule.destination_state ? 1 : 0);
+  return matches.reduce<RateTableRule | null>(
+    (best, rule) => (!best || specificity(rule) > specificity(best) ? rule : best),
+    null
+  );
+}
+
+/**
+ * Price a load from a rate table. The minimum charge is a floor on linehaul and
+ * the fuel surcharge is a percentage of linehaul after the minimum.
+ */
+export function quoteFromRateTable(table: RateTableWithRules, input: RateQuoteInput): RateQuoteResult {
+  if (!(input.cubicFeet > 0)) {
+    return { success: false, error: 'Enter cubic feet to price this load', rate_table_id: table.id };
+  }
+  if (table.pricing_basis === 'mileage_band' && input.miles === null) {
+    return { success: false, error: 'Origin and destination ZIPs are needed for mileage pricing', rate_table_id: table.id };
+  }
+  if (table.pricing_basis === 'lane' && (!input.originState || !input.destinationState)) {
+    return { success: false, error: 'Origin and destination states are needed for lane pricing', rate_table_id: table.id };
+  }
+
+  const rule = findRateRule(table.pricing_basis, table.rules, input);
+  if (!rule) {
+    return { success: false, error: `No rule in "${table.name}" covers this load`, rate_table_id: table.id };
+  }
+
+  const calculatedLinehaul = round(input.cubicFeet * rule.rate_per_cuft);
+  const minimumCharge = rule.minimum_charge ?? table.minimum_charge;
+  const minimumApplied = minimumCharge > calculatedLinehaul;
+  const linehaul = minimumApplied ? minimumCharge : calculatedLinehaul;
+  const fuelSurcharge = round((linehaul * table.fuel_surcharge_percent) / 100);
+
+  const parts = [
+    `${table.name}: ${describeRateRule(table.pricing_basis, rule)} @ $${rule.rate_per_cuft.toFixed(2)}/cuft`,
+  ];
+  if (minimumApplied) parts.push(`$${minimumCharge.toFixed(2)} minimum applied`);
+  if (table.fuel_surcharge_percent > 0) parts.push(`${table.fuel_surcharge_percent}% fuel surcharge`);
+
+  return {
+    success: true,
+    quote: {
+      rate_table_id: table.id,
+      rate_table_name: table.name,
+      is_default_table: table.company_id === null,
+      rule_id: rule.id,
+      rule_description: parts.join(', '),
+      rate_per_cuft: rule.rate_per_cuft,
+      cubic_feet: input.cubicFeet,
+      miles: input.miles,
+      calculated_linehaul: calculatedLinehaul,
+      minimum_charge: minimumCharge,
+      minimum_applied: minimumApplied,
+      linehaul,
+      fuel_surcharge_percent: table.fuel_surcharge_percent,
+      fuel_surcharge: fuelSurcharge,
+      total: round(linehaul + fuelSurcharge),
+      accessorial_prices: {
+        stairs_per_flight: table.stairs_per_flight,
+        long_carry_per_50ft: table.long_carry_per_50ft,
+        shuttle: table.shuttle_charge,
+      },
+    },
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,504 @@
+import { createClient } from '@/lib/supabase-server';
+import { estimateRoadMiles } from '@/lib/geocoding';
+import {
+  RATE_PRICING_BASIS_LABELS,
+  describeRateRule,
+  quoteFromRateTable,
+  type RatePricingBasis,
+  type RateQuote,
+  type RateQuoteResult,
+  type RateTable,
+  type RateTableRule,
+  type RateTableWithRules,
+} from '@/data/rate-tables-shared';
+
+/**
+ * Rate Tables - tariffs used to quote loads
+ *
+ * A rate table belongs to a partner company, or is the company-wide default tariff
+ * when company_id is NULL. Quoting a load for a partner uses the partner's active
+ * table and falls back to the default tariff. Tables price by one basis:
+ * - cuft_band:    rate per cuft by the load's cubic feet
+ * - mileage_band: rate per cuft by origin -> destination miles
+ * - lane:         rate per cuft by origin/destination state
+ * then apply the minimum charge and the fuel surcharge percentage. Standard
+ * accessorial prices (stairs per flight, long carry per 50 ft, shuttle) are
+ * quoted alongside.
+ */
+
+type Related<T> = T | T[] | null;
+
+function one<T>(value: Related<T> | undefined): T | null {
+  return Array.isArray(value) ? value[0] || null : value || null;
+}
+
+const RATE_TABLE_SELECT = `
+  id,
+  company_id,
+  name,
+  pricing_basis,
+  minimum_charge,
+  fuel_surcharge_percent,
+  stairs_per_flight,
+  long_carry_per_50ft,
+  shuttle_charge,
+  is_active,
+  notes,
+  created_at,
+  updated_at,
+  company:companies(name)
+`;
+
+const RATE_RULE_SELECT = `
+  id,
+  rate_table_id,
+  min_cuft,
+  max_cuft,
+  min_miles,
+  max_miles,
+  origin_state,
+  destination_state,
+  rate_per_cuft,
+  minimum_charge,
+  sort_order
+`;
+
+interface RateTableRow {
+  id: string;
+  company_id: string | null;
+  name: string;
+  pricing_basis: RatePricingBasis;
+  minimum_charge: number | string;
+  fuel_surcharge_percent: number | string;
+  stairs_per_flight: number | string;
+  long_carry_per_50ft: number | string;
+  shuttle_charge: number | string;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  company: Related<{ name: string }>;
+}
+
+interface RateRuleRow {
+  id: string;
+  rate_table_id: string;
+  min_cuft: number | string | null;
+  max_cuft: number | string | null;
+  min_miles: number | string | null;
+  max_miles: number | string | null;
+  origin_state: string | null;
+  destination_state: string | null;
+  rate_per_cuft: number | string;
+  minimum_charge: number | string | null;
+  sort_order: number;
+}
+
+export interface RateTableInput {
+  name: string;
+  companyId: string | null;
+  pricingBasis: RatePricingBasis;
+  minimumCharge: number;
+  fuelSurchargePercent: number;
+  stairsPerFlight: number;
+  longCarryPer50ft: number;
+  shuttleCharge: number;
+  notes?: string | null;
+}
+
+export interface RateRuleInput {
+  minCuft?: number | null;
+  maxCuft?: number | null;
+  minMiles?: number | null;
+  maxMiles?: number | null;
+  originState?: string | null;
+  destinationState?: string | null;
+  ratePerCuft: number;
+  minimumCharge?: number | null;
+}
+
+export interface LoadQuoteInput {
+  companyId: string | null;
+  cubicFeet: number;
+  originPostalCode?: string | null;
+  originCity?: string | null;
+  originState?: string | null;
+  destinationPostalCode?: string | null;
+  destinationCity?: string | null;
+  destinationState?: string | null;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listRateTables(ownerId: string): Promise<RateTable[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('rate_tables')
+    .select(RATE_TABLE_SELECT)
+    .eq('owner_id', ownerId)
+    .order('is_active', { ascending: false })
+    .order('name');
+
+  if (error) {
+    throw new Error(`Failed to fetch rate tables: ${error.message}`);
+  }
+
+  return ((data || []) as RateTableRow[]).map(mapRateTable);
+}
+
+export async function getRateTableById(id: string, ownerId: string): Promise<RateTableWithRules | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('rate_tables')
+    .select(RATE_TABLE_SELECT)
+    .eq('id', id)
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const rules = await getRulesForTables([data.id], ownerId);
+  return { ...mapRateTable(data as RateTableRow), rules: rules[data.id] || [] };
+}
+
+/**
+ * Active table that prices loads for a partner: the partner's own table,
+ * otherwise the default company tariff.
+ */
+export async function getApplicableRateTable(
+  ownerId: string,
+  companyId: string | null
+): Promise<RateTableWithRules | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('rate_tables')
+    .select(RATE_TABLE_SELECT)
+    .eq('owner_id', ownerId)
+    .eq('is_active', true)
+    .or(companyId ? `company_id.eq.${companyId},company_id.is.null` : 'company_id.is.null');
+
+  if (error || !data || data.length === 0) {
+    return null;
+  }
+
+  const rows = data as RateTableRow[];
+  const table = rows.find((row) => companyId && row.company_id === companyId) || rows.find((row) => !row.company_id);
+  if (!table) return null;
+
+  const rules = await getRulesForTables([table.id], ownerId);
+  return { ...mapRateTable(table), rules: rules[table.id] || [] };
+}
+
+/**
+ * Quote a load from the applicable rate table. Miles are estimated from the
+ * origin and destination ZIPs when the table prices by mileage.
+ */
+export async function quoteLoad(ownerId: string, input: LoadQuoteInput): Promise<RateQuoteResult> {
+  const table = await getApplicableRateTable(ownerId, input.companyId);
+  if (!table) {
+    return { success: false, error: 'No rate table applies to this partner' };
+  }
+
+  let miles: number | null = null;
+  if (table.pricing_basis === 'mileage_band') {
+    miles = await estimateRoadMiles(
+      { city: input.originCity, state: input.originState, postalCode: input.originPostalCode },
+      { city: input.destinationCity, state: input.destinationState, postalCode: input.destinationPostalCode }
+    );
+  }
+
+  return quoteFromRateTable(table, {
+    cubicFeet: input.cubicFeet,
+    miles,
+    originState: input.originState || null,
+    destinationState: input.destinationState || null,
+  });
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export async function createRateTable(
+  ownerId: string,
+  input: RateTableInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const validationError = validateTableInput(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('rate_tables')
+    .insert({
+      owner_id: ownerId,
+      ...tableColumns(input),
+      is_active: true,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: activeConflictMessage(error?.code) || error?.message || 'Failed to create rate table' };
+  }
+
+  return { success: true, id: data.id };
+}
+
+export async function updateRateTable(
+  id: string,
+  ownerId: string,
+  input: RateTableInput & { isActive: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateTableInput(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('rate_tables')
+    .update({
+      ...tableColumns(input),
+      is_active: input.isActive,
+    })
+    .eq('id', id)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: activeConflictMessage(error.code) || error.message };
+  }
+
+  return { success: true };
+}
+
+export async function deleteRateTable(id: string, ownerId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('rate_tables').delete().eq('id', id).eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function addRateTableRule(
+  rateTableId: string,
+  ownerId: string,
+  input: RateRuleInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const table = await getRateTableById(rateTableId, ownerId);
+  if (!table) {
+    return { success: false, error: 'Rate table not found' };
+  }
+
+  if (!(input.ratePerCuft >= 0)) {
+    return { success: false, error: 'Rate per cuft is required' };
+  }
+
+  const rule = {
+    min_cuft: null as number | null,
+    max_cuft: null as number | null,
+    min_miles: null as number | null,
+    max_miles: null as number | null,
+    origin_state: null as string | null,
+    destination_state: null as string | null,
+  };
+
+  if (table.pricing_basis === 'cuft_band') {
+    rule.min_cuft = input.minCuft ?? 0;
+    rule.max_cuft = input.maxCuft ?? null;
+    if (rule.max_cuft !== null && rule.max_cuft <= rule.min_cuft) {
+      return { success: false, error: 'Band upper bound must be greater than the lower bound' };
+    }
+  } else if (table.pricing_basis === 'mileage_band') {
+    rule.min_miles = input.minMiles ?? 0;
+    rule.max_miles = input.maxMiles ?? null;
+    if (rule.max_miles !== null && rule.max_miles <= rule.min_miles) {
+      return { success: false, error: 'Band upper bound must be greater than the lower bound' };
+    }
+  } else {
+    rule.origin_state = normalizeState(input.originState);
+    rule.destination_state = normalizeState(input.destinationState);
+    if (
+      (input.originState && !rule.origin_state) ||
+      (input.destinationState && !rule.destination_state)
+    ) {
+      return { success: false, error: 'Use two-letter state codes for lanes' };
+    }
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('rate_table_rules')
+    .insert({
+      owner_id: ownerId,
+      rate_table_id: rateTableId,
+      ...rule,
+      rate_per_cuft: input.ratePerCuft,
+      minimum_charge: input.minimumCharge ?? null,
+      sort_order: nextSortOrder(table.pricing_basis, table.rules, rule),
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to add rule' };
+  }
+
+  return { success: true, id: data.id };
+}
+
+export async function deleteRateTableRule(
+  ruleId: string,
+  ownerId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('rate_table_rules').delete().eq('id', ruleId).eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getRulesForTables(tableIds: string[], ownerId: string): Promise<Record<string, RateTableRule[]>> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('rate_table_rules')
+    .select(RATE_RULE_SELECT)
+    .in('rate_table_id', tableIds)
+    .eq('owner_id', ownerId)
+    .order('sort_order');
+
+  if (error) {
+    throw new Error(`Failed to fetch rate table rules: ${error.message}`);
+  }
+
+  return ((data || []) as RateRuleRow[]).reduce<Record<string, RateTableRule[]>>((acc, row) => {
+    const rule = mapRule(row);
+    (acc[rule.rate_table_id] ||= []).push(rule);
+    return acc;
+  }, {});
+}
+
+/**
+ * Keep bands ordered by their lower bound so the first match is the right band
+ */
+function nextSortOrder(
+  basis: RatePricingBasis,
+  rules: RateTableRule[],
+  rule: { min_cuft: number | null; min_miles: number | null }
+): number {
+  if (basis === 'cuft_band') return Math.round(rule.min_cuft ?? 0);
+  if (basis === 'mileage_band') return Math.round(rule.min_miles ?? 0);
+  return rules.reduce((max, r) => Math.max(max, r.sort_order), 0) + 1;
+}
+
+function validateTableInput(input: RateTableInput): string | null {
+  if (!input.name.trim()) return 'Name is required';
+  if (!RATE_PRICING_BASIS_LABELS[input.pricingBasis]) return 'Choose a pricing basis';
+  const amounts = [
+    input.minimumCharge,
+    input.fuelSurchargePercent,
+    input.stairsPerFlight,
+    input.longCarryPer50ft,
+    input.shuttleCharge,
+  ];
+  if (amounts.some((amount) => !(amount >= 0))) return 'Amounts must be zero or more';
+  return null;
+}
+
+function tableColumns(input: RateTableInput) {
+  return {
+    name: input.name.trim(),
+    company_id: input.companyId || null,
+    pricing_basis: input.pricingBasis,
+    minimum_charge: round(input.minimumCharge),
+    fuel_surcharge_percent: input.fuelSurchargePercent,
+    stairs_per_flight: round(input.stairsPerFlight),
+    long_carry_per_50ft: round(input.longCarryPer50ft),
+    shuttle_charge: round(input.shuttleCharge),
+    notes: input.notes || null,
+  };
+}
+
+function activeConflictMessage(code: string | undefined): string | null {
+  return code === '23505'
+    ? 'Only one active rate table is allowed per partner and one active default tariff. Deactivate the other table first.'
+    : null;
+}
+
+function normalizeState(state: string | null | undefined): string | null {
+  const value = state?.trim().toUpperCase();
+  return value && /^[A-Z]{2}$/.test(value) ? value : null;
+}
+
+function toNumber(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function mapRateTable(row: RateTableRow): RateTable {
+  return {
+    id: row.id,
+    company_id: row.company_id,
+    company_name: one(row.company)?.name || null,
+    name: row.name,
+    pricing_basis: row.pricing_basis,
+    minimum_charge: Number(row.minimum_charge),
+    fuel_surcharge_percent: Number(row.fuel_surcharge_percent),
+    stairs_per_flight: Number(row.stairs_per_flight),
+    long_carry_per_50ft: Number(row.long_carry_per_50ft),
+    shuttle_charge: Number(row.shuttle_charge),
+    is_active: row.is_active,
+    notes: row.notes,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function mapRule(row: RateRuleRow): RateTableRule {
+  return {
+    id: row.id,
+    rate_table_id: row.rate_table_id,
+    min_cuft: toNumber(row.min_cuft),
+    max_cuft: toNumber(row.max_cuft),
+    min_miles: toNumber(row.min_miles),
+    max_miles: toNumber(row.max_miles),
+    origin_state: row.origin_state,
+    destination_state: row.destination_state,
+    rate_per_cuft: Number(row.rate_per_cuft),
+    minimum_charge: toNumber(row.minimum_charge),
+    sort_order: row.sort_order,
+  };
+}
+
+/**
+ * Round to 2 decimal places for currency
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export { RATE_PRICING_BASIS_LABELS, describeRateRule };
+export type { RatePricingBasis, RateQuote, RateQuoteResult, RateTable, RateTableRule, RateTableWithRules };
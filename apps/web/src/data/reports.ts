@@ -289,7 +289,10 @@ export async function getTripProfitabilityReport(
 
   const tripData: TripProfitabilityData[] = trips.map((trip) => {
     const totalCosts =
-      (trip.fuel_total || 0) + (trip.tolls_total || 0) + (trip.other_expenses_total || 0);
+      (trip.fuel_total || 0) +
+      (trip.tolls_total || 0) +
+      (trip.other_expenses_total || 0) +
+      (trip.helper_labor_total || 0);
     const driverPay = trip.driver_pay_total || 0;
     const revenue = trip.revenue_total || 0;
     const netProfit = revenue - totalCosts - driverPay;
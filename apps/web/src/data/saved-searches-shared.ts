@@ -0,0 +1,180 @@
+/**
+ * Saved load-board search types, labels and the load matcher shared by server data functions and client components
+ */
+
+import { calculateDistance, type GeoCoordinates } from '@/lib/geocoding';
+
+export type SavedSearchLoadKind = 'any' | 'pickup' | 'rfd' | 'live';
+export type SavedSearchTruckRequirement = 'any' | 'semi_only' | 'box_truck_only';
+
+export const SAVED_SEARCH_LOAD_KIND_LABELS: Record<SavedSearchLoadKind, string> = {
+  any: 'Pickups and loads',
+  pickup: 'Pickups',
+  rfd: 'RFD loads',
+  live: 'Live loads',
+};
+
+export const SAVED_SEARCH_TRUCK_LABELS: Record<SavedSearchTruckRequirement, string> = {
+  any: 'Any truck',
+  semi_only: 'Semi',
+  box_truck_only: 'Box truck',
+};
+
+export interface SavedLoadSearch {
+  id: string;
+  name: string;
+  origin_label: string | null;
+  origin_lat: number | null;
+  origin_lng: number | null;
+  origin_radius_miles: number | null;
+  origin_states: string[];
+  destination_label: string | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
+  destination_radius_miles: number | null;
+  destination_states: string[];
+  min_cuft: number | null;
+  max_cuft: number | null;
+  min_rate_per_cuft: number | null;
+  load_kind: SavedSearchLoadKind;
+  available_from: string | null;
+  available_to: string | null;
+  truck_requirement: SavedSearchTruckRequirement;
+  instant_alerts: boolean;
+  email_digest: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedSearchMatch {
+  id: string;
+  search_id: string;
+  load_id: string;
+  load_number: string;
+  route: string;
+  matched_at: string;
+}
+
+/**
+ * A marketplace load in the terms saved searches filter on
+ */
+export interface SearchableLoad {
+  posting_type: 'pickup' | 'load' | null;
+  load_subtype: 'live' | 'rfd' | null;
+  origin_state: string | null;
+  origin: GeoCoordinates | null;
+  destination_state: string | null;
+  destination: GeoCoordinates | null;
+  cubic_feet: number | null;
+  rate_per_cuft: number | null;
+  // Pickup window start, RFD date or available date (YYYY-MM-DD); null = ready now
+  available_date: string | null;
+  truck_requirement: SavedSearchTruckRequirement | null;
+}
+
+export function matchesSavedSearch(
+  search: SavedLoadSearch,
+  load: SearchableLoad,
+  today: string = new Date().toISOString().split('T')[0]
+): boolean {
+  if (
+    !matchesPlace(
+      { lat: search.origin_lat, lng: search.origin_lng, radius: search.origin_radius_miles, states: search.origin_states },
+      load.origin,
+      load.origin_state
+    )
+  ) {
+    return false;
+  }
+  if (
+    !matchesPlace(
+      {
+        lat: search.destination_lat,
+        lng: search.destination_lng,
+        radius: search.destination_radius_miles,
+        states: search.destination_states,
+      },
+      load.destination,
+      load.destination_state
+    )
+  ) {
+    return false;
+  }
+
+  if (search.min_cuft !== null && (load.cubic_feet === null || load.cubic_feet < search.min_cuft)) return false;
+  if (search.max_cuft !== null && (load.cubic_feet === null || load.cubic_feet > search.max_cuft)) return false;
+  if (
+    search.min_rate_per_cuft !== null &&
+    (load.rate_per_cuft === null || load.rate_per_cuft < search.min_rate_per_cuft)
+  ) {
+    return false;
+  }
+
+  if (search.load_kind === 'pickup' && load.posting_type !== 'pickup') return false;
+  if (search.load_kind === 'rfd' && (load.posting_type === 'pickup' || load.load_subtype !== 'rfd')) return false;
+  if (search.load_kind === 'live' && (load.posting_type === 'pickup' || load.load_subtype === 'rfd')) return false;
+
+  const availableDate = load.available_date && load.available_date > today ? load.available_date : today;
+  if (search.available_from && availableDate < search.available_from) return false;
+  if (search.available_to && availableDate > search.available_to) return false;
+
+  if (
+    search.truck_requirement !== 'any' &&
+    load.truck_requirement &&
+    load.truck_requirement !== 'any' &&
+    load.truck_requirement !== search.truck_requirement
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * One-line summary of a search's criteria
+ */
+export function describeSavedSearch(search: SavedLoadSearch): string {
+  const parts = [
+    `${describePlace(search.origin_label, search.origin_radius_miles, search.origin_states)} → ${describePlace(
+      search.destination_label,
+      search.destination_radius_miles,
+      search.destination_states
+    )}`,
+    SAVED_SEARCH_LOAD_KIND_LABELS[search.load_kind],
+  ];
+
+  if (search.min_cuft !== null || search.max_cuft !== null) {
+    parts.push(
+      search.max_cuft === null
+        ? `${search.min_cuft}+ cuft`
+        : `${search.min_cuft ?? 0}–${search.max_cuft} cuft`
+    );
+  }
+  if (search.min_rate_per_cuft !== null) parts.push(`$${search.min_rate_per_cuft.toFixed(2)}+/cuft`);
+  if (search.available_from || search.available_to) {
+    parts.push(`${search.available_from || 'now'} to ${search.available_to || 'any date'}`);
+  }
+  if (search.truck_requirement !== 'any') parts.push(SAVED_SEARCH_TRUCK_LABELS[search.truck_requirement]);
+
+  return parts.join(' · ');
+}
+
+function matchesPlace(
+  area: { lat: number | null; lng: number | null; radius: number | null; states: string[] },
+  coordinates: GeoCoordinates | null,
+  state: string | null
+): boolean {
+  if (area.radius !== null && area.lat !== null && area.lng !== null) {
+    return coordinates !== null && calculateDistance({ lat: area.lat, lng: area.lng }, coordinates) <= area.radius;
+  }
+  if (area.states.length > 0) {
+    return !!state && area.states.includes(state.toUpperCase());
+  }
+  return true;
+}
+
+function describePlace(label: string | null, radius: number | null, states: string[]): string {
+  if (radius !== null && label) return `${radius} mi of ${label}`;
+  if (states.length > 0) return states.join(', ');
+  return 'Anywhere';
+}
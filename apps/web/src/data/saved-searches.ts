@@ -0,0 +1,711 @@
+import { createClient } from '@/lib/supabase-server';
+import { createServiceRoleClient } from '@/lib/supabase-admin';
+import { geocodeAddress, geocodeAddresses, storedCoordinates, type GeoCoordinates } from '@/lib/geocoding';
+import { notifyUserSavedSearchMatch } from '@/lib/push-notifications';
+import { sendSavedSearchDigestEmail } from '@/lib/email/notifications';
+import {
+  matchesSavedSearch,
+  type SavedLoadSearch,
+  type SavedSearchLoadKind,
+  type SavedSearchMatch,
+  type SavedSearchTruckRequirement,
+  type SearchableLoad,
+} from '@/data/saved-searches-shared';
+
+/**
+ * Saved load-board searches
+ *
+ * Dispatchers save the lanes they watch instead of refreshing the load board.
+ * When a load is posted to the marketplace it's matched against every saved
+ * search (from the posting action, or from the database trigger for loads
+ * posted elsewhere). Each search/load pair is recorded once, so alerts are
+ * never repeated:
+ * - instant alerts: in-app notification plus push, sent as the match is recorded
+ * - email digest:   one daily email per user listing matches not yet emailed
+ */
+
+type Related<T> = T | T[] | null;
+
+function one<T>(value: Related<T> | undefined): T | null {
+  return Array.isArray(value) ? value[0] || null : value || null;
+}
+
+const SAVED_SEARCH_SELECT = `
+  id,
+  name,
+  origin_label,
+  origin_lat,
+  origin_lng,
+  origin_radius_miles,
+  origin_states,
+  destination_label,
+  destination_lat,
+  destination_lng,
+  destination_radius_miles,
+  destination_states,
+  min_cuft,
+  max_cuft,
+  min_rate_per_cuft,
+  load_kind,
+  available_from,
+  available_to,
+  truck_requirement,
+  instant_alerts,
+  email_digest,
+  created_at,
+  updated_at
+`;
+
+// Marketplace loads store pickup/delivery; partner postings use loading/dropoff
+const MATCHABLE_LOAD_SELECT = `
+  id,
+  owner_id,
+  load_number,
+  posting_type,
+  load_subtype,
+  posting_status,
+  is_marketplace_visible,
+  assigned_carrier_id,
+  pickup_city,
+  pickup_state,
+  pickup_postal_code,
+  pickup_zip,
+  delivery_city,
+  delivery_state,
+  delivery_postal_code,
+  pickup_lat,
+  pickup_lng,
+  delivery_lat,
+  delivery_lng,
+  cubic_feet_estimate,
+  cubic_feet,
+  rate_per_cuft,
+  company_rate,
+  company_rate_type,
+  is_ready_now,
+  available_date,
+  rfd_date,
+  pickup_date_start,
+  truck_requirement
+`;
+
+interface SavedSearchRow {
+  id: string;
+  name: string;
+  origin_label: string | null;
+  origin_lat: number | string | null;
+  origin_lng: number | string | null;
+  origin_radius_miles: number | null;
+  origin_states: string[] | null;
+  destination_label: string | null;
+  destination_lat: number | string | null;
+  destination_lng: number | string | null;
+  destination_radius_miles: number | null;
+  destination_states: string[] | null;
+  min_cuft: number | string | null;
+  max_cuft: number | string | null;
+  min_rate_per_cuft: number | string | null;
+  load_kind: SavedSearchLoadKind;
+  available_from: string | null;
+  available_to: string | null;
+  truck_requirement: SavedSearchTruckRequirement;
+  instant_alerts: boolean;
+  email_digest: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MatchableLoadRow {
+  id: string;
+  owner_id: string;
+  load_number: string | null;
+  posting_type: 'pickup' | 'load' | null;
+  load_subtype: 'live' | 'rfd' | null;
+  posting_status: string | null;
+  is_marketplace_visible: boolean | null;
+  assigned_carrier_id: string | null;
+  pickup_city: string | null;
+  pickup_state: string | null;
+  pickup_postal_code: string | null;
+  pickup_zip: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  delivery_postal_code: string | null;
+  pickup_lat: number | string | null;
+  pickup_lng: number | string | null;
+  delivery_lat: number | string | null;
+  delivery_lng: number | string | null;
+  cubic_feet_estimate: number | string | null;
+  cubic_feet: number | string | null;
+  rate_per_cuft: number | string | null;
+  company_rate: number | string | null;
+  company_rate_type: string | null;
+  is_ready_now: boolean | null;
+  available_date: string | null;
+  rfd_date: string | null;
+  pickup_date_start: string | null;
+  truck_requirement: SavedSearchTruckRequirement | null;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  // Center of a radius search: ZIP, or city and state
+  originPostalCode?: string | null;
+  originCity?: string | null;
+  originState?: string | null;
+  originRadiusMiles?: number | null;
+  originStates?: string[];
+  destinationPostalCode?: string | null;
+  destinationCity?: string | null;
+  destinationState?: string | null;
+  destinationRadiusMiles?: number | null;
+  destinationStates?: string[];
+  minCuft?: number | null;
+  maxCuft?: number | null;
+  minRatePerCuft?: number | null;
+  loadKind: SavedSearchLoadKind;
+  availableFrom?: string | null;
+  availableTo?: string | null;
+  truckRequirement: SavedSearchTruckRequirement;
+  instantAlerts: boolean;
+  emailDigest: boolean;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listSavedSearches(ownerId: string): Promise<SavedLoadSearch[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_load_searches')
+    .select(SAVED_SEARCH_SELECT)
+    .eq('owner_id', ownerId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch saved searches: ${error.message}`);
+  }
+
+  return ((data || []) as SavedSearchRow[]).map(toSavedSearch);
+}
+
+/**
+ * Most recent matches across the owner's saved searches
+ */
+export async function listRecentSearchMatches(ownerId: string, limit = 50): Promise<SavedSearchMatch[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_load_search_matches')
+    .select(
+      `
+      id,
+      search_id,
+      load_id,
+      matched_at,
+      load:loads(load_number, pickup_city, pickup_state, delivery_city, delivery_state)
+    `
+    )
+    .eq('owner_id', ownerId)
+    .order('matched_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch saved search matches: ${error.message}`);
+  }
+
+  type LoadSummary = {
+    load_number: string | null;
+    pickup_city: string | null;
+    pickup_state: string | null;
+    delivery_city: string | null;
+    delivery_state: string | null;
+  };
+
+  return (data || []).map((row) => {
+    const load = one(row.load as Related<LoadSummary>);
+    return {
+      id: row.id,
+      search_id: row.search_id,
+      load_id: row.load_id,
+      load_number: load?.load_number || 'Load',
+      route: load ? formatRoute(load) : '',
+      matched_at: row.matched_at,
+    };
+  });
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+export async function createSavedSearch(
+  ownerId: string,
+  input: SavedSearchInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const validationError = validateSavedSearchInput(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const resolved = await toSavedSearchPayload(input);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('saved_load_searches')
+    .insert({ owner_id: ownerId, ...resolved.payload })
+    .select('id')
+    .single();
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, id: data.id };
+}
+
+export async function updateSavedSearch(
+  ownerId: string,
+  searchId: string,
+  input: SavedSearchInput
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateSavedSearchInput(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const resolved = await toSavedSearchPayload(input);
+  if ('error' in resolved) {
+    return { success: false, error: resolved.error };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('saved_load_searches')
+    .update(resolved.payload)
+    .eq('id', searchId)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function updateSavedSearchAlerts(
+  ownerId: string,
+  searchId: string,
+  alerts: { instantAlerts?: boolean; emailDigest?: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const payload: Record<string, boolean> = {};
+  if (alerts.instantAlerts !== undefined) payload.instant_alerts = alerts.instantAlerts;
+  if (alerts.emailDigest !== undefined) payload.email_digest = alerts.emailDigest;
+
+  const { error } = await supabase
+    .from('saved_load_searches')
+    .update(payload)
+    .eq('id', searchId)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function deleteSavedSearch(
+  ownerId: string,
+  searchId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('saved_load_searches')
+    .delete()
+    .eq('id', searchId)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// MATCHING & ALERTS
+// ============================================================================
+
+/**
+ * Match a newly posted marketplace load against every saved search and send
+ * instant alerts for new matches. Safe to call more than once per load.
+ * Runs with the service role: it reads other users' searches.
+ */
+export async function matchPostedLoad(loadId: string): Promise<{ success: boolean; matched?: number; error?: string }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: loadData, error: loadError } = await supabase
+    .from('loads')
+    .select(MATCHABLE_LOAD_SELECT)
+    .eq('id', loadId)
+    .single();
+
+  if (loadError) {
+    return { success: false, error: loadError.message };
+  }
+
+  const load = loadData as MatchableLoadRow;
+  if (!load.is_marketplace_visible || load.posting_status !== 'posted' || load.assigned_carrier_id) {
+    return { success: true, matched: 0 };
+  }
+
+  const { data: searchRows, error: searchError } = await supabase
+    .from('saved_load_searches')
+    .select(`owner_id, ${SAVED_SEARCH_SELECT}`)
+    .neq('owner_id', load.owner_id);
+
+  if (searchError) {
+    return { success: false, error: searchError.message };
+  }
+
+  const searchable = await toSearchableLoad(load);
+  const matches = ((searchRows || []) as (SavedSearchRow & { owner_id: string })[])
+    .map((row) => ({ ownerId: row.owner_id, search: toSavedSearch(row) }))
+    .filter(({ search }) => matchesSavedSearch(search, searchable));
+
+  if (matches.length === 0) {
+    return { success: true, matched: 0 };
+  }
+
+  // Only rows inserted by this call come back, so repeat calls alert nobody
+  const { data: inserted, error: insertError } = await supabase
+    .from('saved_load_search_matches')
+    .upsert(
+      matches.map(({ ownerId, search }) => ({ owner_id: ownerId, search_id: search.id, load_id: load.id })),
+      { onConflict: 'search_id,load_id', ignoreDuplicates: true }
+    )
+    .select('id, search_id');
+
+  if (insertError) {
+    return { success: false, error: insertError.message };
+  }
+
+  const insertedSearchIds = new Set((inserted || []).map((row) => row.search_id));
+  const alerts = matches.filter(({ search }) => search.instant_alerts && insertedSearchIds.has(search.id));
+
+  // One alert per user even when several of their searches match
+  const alertsByOwner = new Map<string, SavedLoadSearch[]>();
+  for (const { ownerId, search } of alerts) {
+    alertsByOwner.set(ownerId, [...(alertsByOwner.get(ownerId) || []), search]);
+  }
+
+  const loadNumber = load.load_number || 'New load';
+  const route = formatRoute(load);
+  for (const [ownerId, searches] of alertsByOwner) {
+    const title = `New load for "${searches[0].name}"${searches.length > 1 ? ` +${searches.length - 1}` : ''}`;
+    const message = `${loadNumber}: ${route}`;
+
+    await supabase.from('notifications').insert({
+      user_id: ownerId,
+      type: 'saved_search_match',
+      title,
+      message,
+      load_id: load.id,
+      is_read: false,
+    });
+    await notifyUserSavedSearchMatch(ownerId, load.id, title, message);
+  }
+
+  if (alerts.length > 0) {
+    const alertedIds = (inserted || [])
+      .filter((row) => alerts.some(({ search }) => search.id === row.search_id))
+      .map((row) => row.id);
+    await supabase
+      .from('saved_load_search_matches')
+      .update({ alerted_at: new Date().toISOString() })
+      .in('id', alertedIds);
+  }
+
+  return { success: true, matched: insertedSearchIds.size };
+}
+
+/**
+ * Email each user with digest searches the matches they haven't been emailed
+ * yet. Meant to run once a day.
+ */
+export async function sendSavedSearchDigests(): Promise<{ success: boolean; emailed?: number; error?: string }> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('saved_load_search_matches')
+    .select(
+      `
+      id,
+      owner_id,
+      load_id,
+      search:saved_load_searches!inner(id, name, email_digest),
+      load:loads(load_number, pickup_city, pickup_state, delivery_city, delivery_state, cubic_feet_estimate, rate_per_cuft, assigned_carrier_id)
+    `
+    )
+    .is('digested_at', null)
+    .eq('search.email_digest', true)
+    .order('matched_at', { ascending: true });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  type DigestLoad = {
+    load_number: string | null;
+    pickup_city: string | null;
+    pickup_state: string | null;
+    delivery_city: string | null;
+    delivery_state: string | null;
+    cubic_feet_estimate: number | string | null;
+    rate_per_cuft: number | string | null;
+    assigned_carrier_id: string | null;
+  };
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  type DigestEntry = { loadNumber: string; route: string; cuft: number | null; ratePerCuft: number | null; viewUrl: string };
+  type OwnerDigest = { matchIds: string[]; searches: Map<string, { name: string; loads: DigestEntry[] }> };
+  const byOwner = new Map<string, OwnerDigest>();
+
+  for (const row of data || []) {
+    const search = one(row.search as Related<{ id: string; name: string; email_digest: boolean }>);
+    const load = one(row.load as Related<DigestLoad>);
+    if (!search) continue;
+
+    const entry: OwnerDigest = byOwner.get(row.owner_id) || { matchIds: [], searches: new Map() };
+    entry.matchIds.push(row.id);
+    // Loads taken since they matched are marked digested without being listed
+    if (load && !load.assigned_carrier_id) {
+      const group = entry.searches.get(search.id) || { name: search.name, loads: [] };
+      group.loads.push({
+        loadNumber: load.load_number || 'Load',
+        route: formatRoute(load),
+        cuft: load.cubic_feet_estimate !== null ? Number(load.cubic_feet_estimate) : null,
+        ratePerCuft: load.rate_per_cuft !== null ? Number(load.rate_per_cuft) : null,
+        viewUrl: `${baseUrl}/dashboard/load-board/${row.load_id}`,
+      });
+      entry.searches.set(search.id, group);
+    }
+    byOwner.set(row.owner_id, entry);
+  }
+
+  let emailed = 0;
+  for (const [ownerId, entry] of byOwner) {
+    const searches = [...entry.searches.values()];
+    if (searches.length > 0) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('email, full_name')
+        .eq('id', ownerId)
+        .single();
+      if (!profile?.email) continue;
+
+      const result = await sendSavedSearchDigestEmail({
+        email: profile.email,
+        recipientName: profile.full_name || 'User',
+        searches,
+        viewUrl: `${baseUrl}/dashboard/load-board/saved-searches`,
+      });
+      if (!result.success) continue;
+      emailed++;
+    }
+
+    const now = new Date().toISOString();
+    await supabase.from('saved_load_search_matches').update({ digested_at: now }).in('id', entry.matchIds);
+    await supabase
+      .from('saved_load_searches')
+      .update({ last_digest_at: now })
+      .eq('owner_id', ownerId)
+      .eq('email_digest', true);
+  }
+
+  return { success: true, emailed };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function toSavedSearch(row: SavedSearchRow): SavedLoadSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    origin_label: row.origin_label,
+    origin_lat: toNumber(row.origin_lat),
+    origin_lng: toNumber(row.origin_lng),
+    origin_radius_miles: row.origin_radius_miles,
+    origin_states: row.origin_states || [],
+    destination_label: row.destination_label,
+    destination_lat: toNumber(row.destination_lat),
+    destination_lng: toNumber(row.destination_lng),
+    destination_radius_miles: row.destination_radius_miles,
+    destination_states: row.destination_states || [],
+    min_cuft: toNumber(row.min_cuft),
+    max_cuft: toNumber(row.max_cuft),
+    min_rate_per_cuft: toNumber(row.min_rate_per_cuft),
+    load_kind: row.load_kind,
+    available_from: row.available_from,
+    available_to: row.available_to,
+    truck_requirement: row.truck_requirement,
+    instant_alerts: row.instant_alerts,
+    email_digest: row.email_digest,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function validateSavedSearchInput(input: SavedSearchInput): string | null {
+  if (!input.name.trim()) return 'Name is required';
+  if (input.originRadiusMiles && !input.originPostalCode && !(input.originCity && input.originState)) {
+    return 'Enter an origin ZIP or city and state for the radius';
+  }
+  if (
+    input.destinationRadiusMiles &&
+    !input.destinationPostalCode &&
+    !(input.destinationCity && input.destinationState)
+  ) {
+    return 'Enter a destination ZIP or city and state for the radius';
+  }
+  if (input.minCuft != null && input.maxCuft != null && input.minCuft > input.maxCuft) {
+    return 'Minimum cubic feet is above the maximum';
+  }
+  if (input.availableFrom && input.availableTo && input.availableFrom > input.availableTo) {
+    return 'Date range ends before it starts';
+  }
+  return null;
+}
+
+async function toSavedSearchPayload(
+  input: SavedSearchInput
+): Promise<{ payload: Record<string, unknown> } | { error: string }> {
+  const origin = input.originRadiusMiles
+    ? await resolveCenter(input.originPostalCode, input.originCity, input.originState)
+    : null;
+  if (input.originRadiusMiles && !origin) {
+    return { error: 'Could not find the origin location' };
+  }
+
+  const destination = input.destinationRadiusMiles
+    ? await resolveCenter(input.destinationPostalCode, input.destinationCity, input.destinationState)
+    : null;
+  if (input.destinationRadiusMiles && !destination) {
+    return { error: 'Could not find the destination location' };
+  }
+
+  const payload = {
+    name: input.name.trim(),
+    origin_label: origin?.label ?? null,
+    origin_lat: origin?.coordinates.lat ?? null,
+    origin_lng: origin?.coordinates.lng ?? null,
+    origin_radius_miles: origin ? input.originRadiusMiles : null,
+    origin_states: origin ? [] : normalizeStates(input.originStates),
+    destination_label: destination?.label ?? null,
+    destination_lat: destination?.coordinates.lat ?? null,
+    destination_lng: destination?.coordinates.lng ?? null,
+    destination_radius_miles: destination ? input.destinationRadiusMiles : null,
+    destination_states: destination ? [] : normalizeStates(input.destinationStates),
+    min_cuft: input.minCuft ?? null,
+    max_cuft: input.maxCuft ?? null,
+    min_rate_per_cuft: input.minRatePerCuft ?? null,
+    load_kind: input.loadKind,
+    available_from: input.availableFrom || null,
+    available_to: input.availableTo || null,
+    truck_requirement: input.truckRequirement,
+    instant_alerts: input.instantAlerts,
+    email_digest: input.emailDigest,
+  };
+  return { payload };
+}
+
+async function resolveCenter(
+  postalCode: string | null | undefined,
+  city: string | null | undefined,
+  state: string | null | undefined
+): Promise<{ label: string; coordinates: GeoCoordinates } | null> {
+  const result = await geocodeAddress(city, state, postalCode);
+  if (!result.success || !result.coordinates) return null;
+
+  const { coordinates } = result;
+  const label =
+    coordinates.city && coordinates.state
+      ? `${coordinates.city}, ${coordinates.state}`
+      : [city, state].filter(Boolean).join(', ') || postalCode || 'Selected location';
+  return { label, coordinates };
+}
+
+function normalizeStates(states: string[] | undefined): string[] {
+  return [...new Set((states || []).map((state) => state.trim().toUpperCase()).filter(Boolean))];
+}
+
+async function toSearchableLoad(load: MatchableLoadRow): Promise<SearchableLoad> {
+  let origin = storedCoordinates(load.pickup_lat, load.pickup_lng);
+  let destination = storedCoordinates(load.delivery_lat, load.delivery_lng);
+  if (!origin || !destination) {
+    const [pickup, delivery] = await geocodeAddresses([
+      { city: load.pickup_city, state: load.pickup_state, postalCode: load.pickup_postal_code || load.pickup_zip },
+      { city: load.delivery_city, state: load.delivery_state, postalCode: load.delivery_postal_code },
+    ]);
+    origin = origin ?? pickup;
+    destination = destination ?? delivery;
+  }
+
+  const cubicFeet = toNumber(load.cubic_feet_estimate ?? load.cubic_feet);
+  const companyRate = toNumber(load.company_rate);
+  const ratePerCuft =
+    toNumber(load.rate_per_cuft) ??
+    (load.company_rate_type === 'per_cuft'
+      ? companyRate
+      : load.company_rate_type === 'flat' && companyRate && cubicFeet
+        ? companyRate / cubicFeet
+        : null);
+
+  // Pickups post a window; RFD loads a ready date; live loads an available date
+  const availableDate = load.is_ready_now
+    ? null
+    : load.posting_type === 'pickup'
+      ? load.pickup_date_start
+      : load.load_subtype === 'rfd'
+        ? load.rfd_date
+        : load.available_date;
+
+  return {
+    posting_type: load.posting_type,
+    load_subtype: load.load_subtype,
+    origin_state: load.pickup_state,
+    origin,
+    destination_state: load.delivery_state,
+    destination,
+    cubic_feet: cubicFeet,
+    rate_per_cuft: ratePerCuft,
+    available_date: availableDate?.split('T')[0] ?? null,
+    truck_requirement: load.truck_requirement,
+  };
+}
+
+function formatRoute(load: {
+  pickup_city: string | null;
+  pickup_state: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+}): string {
+  const origin = [load.pickup_city, load.pickup_state].filter(Boolean).join(', ') || 'Unknown';
+  const destination = [load.delivery_city, load.delivery_state].filter(Boolean).join(', ') || 'Unknown';
+  return `${origin} → ${destination}`;
+}
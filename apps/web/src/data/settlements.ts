@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase-server';
 import { getTripById } from '@/data/trips';
 import type { TripLoad } from '@/data/trips';
 import { logAuditEvent } from '@/lib/audit';
+import { recordPayment, type PaymentMethod } from '@/data/payments';
 
 export interface TripSettlement {
   id: string;
@@ -38,9 +39,13 @@ export interface ReceivableListItem {
   id: string;
   trip_id: string | null;
   trip_number: string | null;
+  invoice_id: string | null;
+  invoice_number: string | null;
   company_id: string | null;
   company_name: string | null;
   amount: number;
+  amount_paid: number;
+  balance: number;
   status: string;
   due_date: string | null;
   created_at: string;
@@ -109,9 +114,9 @@ export async function createTripSettlement(tripId: string, userId: string): Prom
   }
 
   // Aggregate load data and revenue per company
-  // Uses pre-calculated load.total_revenue and load.company_owes from load-financials module
+  // Uses pre-calculated load.total_revenue from load-financials module.
+  // Receivables are no longer raised here - they come from invoicing delivered loads (see data/invoices.ts).
   const lineItems: AutoLineItem[] = [];
-  const receivableByCompany = new Map<string, number>();
 
   trip.loads.forEach((tl) => {
     const load = (tl.load || {}) as any;
@@ -119,8 +124,6 @@ export async function createTripSettlement(tripId: string, userId: string): Prom
     const companyId = load.company_id || companyRel?.id || null;
 
     // Use pre-calculated values from load-financials module
-    const loadTotalRevenue = Number(load.total_revenue) || 0;
-    const loadCompanyOwes = Number(load.company_owes) || 0;
     const baseRevenue = Number(load.base_revenue) || 0;
     const contractAccessorials = Number(load.contract_accessorials_total) || 0;
     const extraAccessorials = Number(load.extra_accessorials_total) || 0;
@@ -175,11 +178,6 @@ export async function createTripSettlement(tripId: string, userId: string): Prom
         company_id: companyId,
       });
     }
-
-    // Use pre-calculated company_owes for receivables
-    if (companyId && loadCompanyOwes > 0) {
-      receivableByCompany.set(companyId, (receivableByCompany.get(companyId) || 0) + loadCompanyOwes);
-    }
   });
 
   // Revenue totals
@@ -295,12 +293,48 @@ export async function createTripSettlement(tripId: string, userId: string): Prom
     }
   }
 
+  // Helper/crew labor recorded against the trip's loads
+  let helperLaborTotal = 0;
+  const loadIds = trip.loads.map((tl) => tl.load_id).filter(Boolean);
+  if (loadIds.length) {
+    const { data: labor, error: laborError } = await supabase
+      .from('load_helpers')
+      .select('load_id, event_type, amount, helper:helpers(first_name, last_name)')
+      .in('load_id', loadIds)
+      .eq('owner_id', userId);
+
+    if (laborError) {
+      throw new Error(`Failed to load helper labor: ${laborError.message}`);
+    }
+
+    for (const row of labor || []) {
+      const amount = Number(row.amount) || 0;
+      if (!amount) continue;
+      const helper = Array.isArray(row.helper) ? row.helper[0] : row.helper;
+      const name = helper ? `${helper.first_name} ${helper.last_name || ''}`.trim() : 'Helper';
+      const event = row.event_type === 'delivery' ? 'Delivery' : 'Loading';
+      helperLaborTotal += amount;
+      lineItems.push({
+        category: 'expense',
+        description: `Helper labor - ${name} (${event})`,
+        amount,
+        load_id: row.load_id,
+      });
+    }
+  }
+
   // Append driver pay items
   lineItems.push(...driverPayItems);
 
   // Add reimbursement items to expenses so they affect totals
   reimbursementItems.forEach((item) => lineItems.push(item));
-  const totalExpenses = driverPayTotal + fuelTotal + tollsTotal + otherExpensesTotal + reimbursementItems.reduce((s, i) => s + i.amount, 0);
+  const totalExpenses =
+    driverPayTotal +
+    fuelTotal +
+    tollsTotal +
+    otherExpensesTotal +
+    helperLaborTotal +
+    reimbursementItems.reduce((s, i) => s + i.amount, 0);
   const totalProfit = revenueTotal - totalExpenses;
 
   const settlementPayload = {
@@ -345,23 +379,6 @@ export async function createTripSettlement(tripId: string, userId: string): Prom
     }
   }
 
-  // Receivables per company
-  for (const [companyId, amount] of receivableByCompany.entries()) {
-    if (amount > 0) {
-      const { error: recvError } = await supabase.from('receivables').insert({
-        owner_id: userId,
-        company_id: companyId,
-        trip_id: tripId,
-        settlement_id: (settlement as any).id,
-        amount,
-        status: 'open',
-      });
-      if (recvError) {
-        throw new Error(`Failed to create receivable: ${recvError.message}`);
-      }
-    }
-  }
-
   // Payable to driver (gross driver pay)
   if (trip.driver_id && driverPayTotal > 0) {
     const { error: payError } = await supabase.from('payables').insert({
@@ -387,6 +404,7 @@ export async function createTripSettlement(tripId: string, userId: string): Prom
       fuel_total: fuelTotal,
       tolls_total: tollsTotal,
       other_expenses_total: otherExpensesTotal,
+      helper_labor_total: helperLaborTotal,
       profit_total: totalProfit,
       status: 'settled',
       actual_miles: actualMiles,
@@ -503,13 +521,16 @@ export async function listReceivables(params: {
       `
       id,
       trip_id,
+      invoice_id,
       company_id,
       amount,
+      amount_paid,
       status,
       due_date,
       created_at,
       company:companies(id, name),
-      trip:trips(id, trip_number)
+      trip:trips(id, trip_number),
+      invoice:invoices(id, invoice_number)
     `
     )
     .eq('owner_id', params.ownerId)
@@ -529,9 +550,13 @@ export async function listReceivables(params: {
     id: row.id,
     trip_id: row.trip_id,
     trip_number: (Array.isArray(row.trip) ? row.trip[0] : row.trip)?.trip_number || null,
+    invoice_id: row.invoice_id || null,
+    invoice_number: (Array.isArray(row.invoice) ? row.invoice[0] : row.invoice)?.invoice_number || null,
     company_id: row.company_id,
     company_name: (Array.isArray(row.company) ? row.company[0] : row.company)?.name || null,
     amount: Number(row.amount) || 0,
+    amount_paid: Number(row.amount_paid) || 0,
+    balance: row.status === 'void' ? 0 : (Number(row.amount) || 0) - (Number(row.amount_paid) || 0),
     status: row.status,
     due_date: row.due_date || null,
     created_at: row.created_at,
@@ -567,9 +592,9 @@ export async function getFinanceSummary(params: { ownerId: string; periodDays?:
       settlementsQuery,
       supabase
         .from('receivables')
-        .select('amount,status,company:companies(id,name)')
+        .select('amount,amount_paid,status,company:companies(id,name)')
         .eq('owner_id', params.ownerId)
-        .eq('status', 'open'),
+        .in('status', ['open', 'partial']),
     ]);
 
   if (settlementsError) throw new Error(`Failed to load finance summary (settlements): ${settlementsError.message}`);
@@ -606,7 +631,7 @@ export async function getFinanceSummary(params: { ownerId: string; periodDays?:
   let open_receivables_amount = 0;
   const companyTotals: Record<string, { name: string; total: number }> = {};
   (openReceivables || []).forEach((r: any) => {
-    const amt = Number(r.amount) || 0;
+    const amt = (Number(r.amount) || 0) - (Number(r.amount_paid) || 0);
     open_receivables_amount += amt;
     const company = Array.isArray(r.company) ? r.company[0] : r.company;
     const key = company?.id || 'unknown';
@@ -744,23 +769,44 @@ export async function recalculateTripSettlement(tripId: string, userId: string):
 }
 
 /**
- * Mark a receivable as paid
+ * Mark a receivable as paid by recording a payment for its remaining balance
  */
 export async function markReceivablePaid(
   receivableId: string,
-  userId: string
+  userId: string,
+  details?: {
+    paymentMethod?: PaymentMethod;
+    referenceNumber?: string | null;
+    paymentDate?: string;
+  }
 ): Promise<{ success: boolean; error?: string }> {
   const supabase = await createClient();
 
-  const { error } = await supabase
+  const { data: receivable, error } = await supabase
     .from('receivables')
-    .update({ status: 'paid' })
+    .select('id, company_id, amount, amount_paid, status')
     .eq('id', receivableId)
-    .eq('owner_id', userId);
+    .eq('owner_id', userId)
+    .maybeSingle();
 
   if (error) {
     return { success: false, error: error.message };
   }
+  if (!receivable) {
+    return { success: false, error: 'Receivable not found' };
+  }
+  if (receivable.status === 'paid' || receivable.status === 'void') {
+    return { success: false, error: `Receivable is already ${receivable.status}` };
+  }
+
+  const balance = Math.round(((Number(receivable.amount) || 0) - (Number(receivable.amount_paid) || 0)) * 100) / 100;
 
-  return { success: true };
+  return recordPayment(userId, {
+    companyId: receivable.company_id,
+    amount: balance,
+    paymentDate: details?.paymentDate,
+    paymentMethod: details?.paymentMethod || 'other',
+    referenceNumber: details?.referenceNumber || null,
+    applications: [{ receivableId: receivable.id, amount: balance }],
+  });
 }
@@ -0,0 +1,165 @@
+/**
+ * Recurring storage billing types and period math, safe to import from client
+ * components
+ */
+
+export type StorageBillingCycle = 'weekly' | 'monthly';
+export type StorageType = 'sit' | 'permanent';
+export type StorageBillingPlanStatus = 'active' | 'ended' | 'cancelled';
+
+export const STORAGE_BILLING_CYCLE_LABELS: Record<StorageBillingCycle, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export const STORAGE_TYPE_LABELS: Record<StorageType, string> = {
+  sit: 'Storage in Transit',
+  permanent: 'Permanent Storage',
+};
+
+export interface StorageBillingPlan {
+  id: string;
+  load_id: string;
+  bill_to_company_id: string;
+  storage_location_id: string | null;
+  storage_type: StorageType;
+  billing_cycle: StorageBillingCycle;
+  rate: number;
+  payment_terms_days: number;
+  start_date: string;
+  end_date: string | null;
+  next_period_start: string;
+  status: StorageBillingPlanStatus;
+  notes: string | null;
+  load: { id: string; load_number: string | null; customer_name: string | null } | null;
+  company: { id: string; name: string } | null;
+  location: { id: string; name: string } | null;
+  billed_total: number;
+  outstanding: number;
+}
+
+export interface StorageCharge {
+  id: string;
+  plan_id: string;
+  load_id: string;
+  company_id: string;
+  period_start: string;
+  period_end: string;
+  days_billed: number;
+  period_days: number;
+  is_prorated: boolean;
+  amount: number;
+  due_date: string;
+  receivable_id: string | null;
+  receivable_status: string | null;
+  balance: number;
+  load_number: string | null;
+  company_name: string | null;
+}
+
+export interface StorageRevenueMonth {
+  month: string; // YYYY-MM
+  revenue: number;
+  rent_cost: number;
+  net: number;
+}
+
+export interface StorageRevenueReport {
+  months: StorageRevenueMonth[];
+  by_location: { location_id: string | null; name: string; revenue: number; rent_cost: number }[];
+  totals: { revenue: number; rent_cost: number; net: number; outstanding: number; past_due: number };
+}
+
+// Raw form values from the new-plan dialog, validated on the server
+export interface StorageBillingFormValues {
+  load_id: string;
+  bill_to_company_id: string;
+  storage_type: StorageType;
+  billing_cycle: StorageBillingCycle;
+  rate: string;
+  payment_terms_days: string;
+  start_date: string;
+  notes: string;
+}
+
+export interface StoragePeriod {
+  period_start: string;
+  period_end: string;
+  days_billed: number;
+  period_days: number;
+  is_prorated: boolean;
+  amount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(date: string): Date {
+  return new Date(`${date.split('T')[0]}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(toDate(date).getTime() + days * DAY_MS));
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((toDate(end).getTime() - toDate(start).getTime()) / DAY_MS);
+}
+
+/**
+ * The full billing cycle containing a date: the calendar month, or the
+ * Monday-Sunday week
+ */
+export function cycleBounds(date: string, cycle: StorageBillingCycle): { start: string; end: string } {
+  const d = toDate(date);
+  if (cycle === 'monthly') {
+    const start = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0));
+    return { start: toDateString(start), end: toDateString(end) };
+  }
+
+  const sinceMonday = (d.getUTCDay() + 6) % 7;
+  const start = addDays(date, -sinceMonday);
+  return { start, end: addDays(start, 6) };
+}
+
+/**
+ * Periods ready to bill as of a date. A period is billed once it has ended;
+ * partial first and last periods are prorated by day against the full cycle.
+ */
+export function billablePeriods(
+  plan: Pick<StorageBillingPlan, 'billing_cycle' | 'rate' | 'end_date' | 'next_period_start'>,
+  asOf: string
+): StoragePeriod[] {
+  const periods: StoragePeriod[] = [];
+  let cursor = plan.next_period_start;
+
+  // Guard against runaway loops on bad data; ten years of monthly periods
+  while (periods.length < 120) {
+    if (plan.end_date && cursor > plan.end_date) break;
+
+    const bounds = cycleBounds(cursor, plan.billing_cycle);
+    const periodEnd = plan.end_date && plan.end_date < bounds.end ? plan.end_date : bounds.end;
+    if (periodEnd >= asOf) break;
+
+    const daysBilled = daysBetween(cursor, periodEnd) + 1;
+    const periodDays = daysBetween(bounds.start, bounds.end) + 1;
+    const rate = Number(plan.rate) || 0;
+
+    periods.push({
+      period_start: cursor,
+      period_end: periodEnd,
+      days_billed: daysBilled,
+      period_days: periodDays,
+      is_prorated: daysBilled < periodDays,
+      amount: Math.round(((rate * daysBilled) / periodDays) * 100) / 100,
+    });
+
+    cursor = addDays(periodEnd, 1);
+  }
+
+  return periods;
+}
@@ -0,0 +1,562 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createServiceRoleClient } from '@/lib/supabase-admin';
+import {
+  addDays,
+  billablePeriods,
+  type StorageBillingPlan,
+  type StorageCharge,
+  type StorageRevenueMonth,
+  type StorageRevenueReport,
+} from '@/data/storage-billing-shared';
+
+/**
+ * Recurring storage billing
+ *
+ * A billing plan charges the company that owns a stored load every week or
+ * month. generateStorageCharges bills each period once it has ended, raising
+ * a storage charge and a receivable so storage revenue shows up in aging and
+ * can be paid like any invoice. Run by the scheduler through
+ * /api/storage-billing/run, or on demand from the storage billing page.
+ */
+
+const PLAN_COLUMNS = `
+  id, load_id, bill_to_company_id, storage_location_id, storage_type, billing_cycle, rate,
+  payment_terms_days, start_date, end_date, next_period_start, status, notes,
+  load:loads(id, load_number, customer_name),
+  company:companies(id, name),
+  location:storage_locations(id, name)
+`;
+
+const CHARGE_COLUMNS = `
+  id, plan_id, load_id, company_id, period_start, period_end, days_billed, period_days,
+  is_prorated, amount, due_date, receivable_id,
+  receivable:receivables(status, amount, amount_paid),
+  load:loads(load_number),
+  company:companies(name)
+`;
+
+type Related<T> = T | T[] | null;
+
+function firstOf<T>(value: Related<T> | undefined): T | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+type PlanRow = Omit<StorageBillingPlan, 'load' | 'company' | 'location' | 'billed_total' | 'outstanding'> & {
+  load: Related<StorageBillingPlan['load']>;
+  company: Related<StorageBillingPlan['company']>;
+  location: Related<StorageBillingPlan['location']>;
+};
+
+type ChargeRow = Omit<StorageCharge, 'receivable_status' | 'balance' | 'load_number' | 'company_name'> & {
+  receivable: Related<{ status: string; amount: number; amount_paid: number | null }>;
+  load: Related<{ load_number: string | null }>;
+  company: Related<{ name: string }>;
+};
+
+function mapCharge(row: ChargeRow): StorageCharge {
+  const receivable = firstOf(row.receivable);
+  const open = receivable && (receivable.status === 'open' || receivable.status === 'partial');
+  return {
+    id: row.id,
+    plan_id: row.plan_id,
+    load_id: row.load_id,
+    company_id: row.company_id,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    days_billed: row.days_billed,
+    period_days: row.period_days,
+    is_prorated: row.is_prorated,
+    amount: Number(row.amount) || 0,
+    due_date: row.due_date,
+    receivable_id: row.receivable_id,
+    receivable_status: receivable?.status ?? null,
+    balance: open ? round((Number(receivable.amount) || 0) - (Number(receivable.amount_paid) || 0)) : 0,
+    load_number: firstOf(row.load)?.load_number ?? null,
+    company_name: firstOf(row.company)?.name ?? null,
+  };
+}
+
+export const storageBillingPlanSchema = z.object({
+  load_id: z.string().uuid('Select a load'),
+  bill_to_company_id: z.string().uuid('Select who to bill'),
+  storage_type: z.enum(['sit', 'permanent']),
+  billing_cycle: z.enum(['weekly', 'monthly']),
+  rate: z.coerce.number().min(0, 'Rate must be zero or more'),
+  payment_terms_days: z.coerce.number().int().min(0).max(120).default(15),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date is required'),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export type StorageBillingPlanInput = z.infer<typeof storageBillingPlanSchema>;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Billing plans with what has been billed and what is still owed
+ */
+export async function listStorageBillingPlans(userId: string): Promise<StorageBillingPlan[]> {
+  const supabase = await createClient();
+
+  const [{ data: plans, error }, { data: charges, error: chargeError }] = await Promise.all([
+    supabase
+      .from('storage_billing_plans')
+      .select(PLAN_COLUMNS)
+      .eq('owner_id', userId)
+      .order('status')
+      .order('start_date', { ascending: false }),
+    supabase.from('storage_charges').select(CHARGE_COLUMNS).eq('owner_id', userId),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch storage billing plans: ${error.message}`);
+  }
+  if (chargeError) {
+    throw new Error(`Failed to fetch storage charges: ${chargeError.message}`);
+  }
+
+  const totals = new Map<string, { billed: number; outstanding: number }>();
+  for (const charge of ((charges || []) as unknown as ChargeRow[]).map(mapCharge)) {
+    const current = totals.get(charge.plan_id) || { billed: 0, outstanding: 0 };
+    totals.set(charge.plan_id, {
+      billed: round(current.billed + charge.amount),
+      outstanding: round(current.outstanding + charge.balance),
+    });
+  }
+
+  return ((plans || []) as unknown as PlanRow[]).map((plan) => ({
+    ...plan,
+    rate: Number(plan.rate) || 0,
+    load: firstOf(plan.load),
+    company: firstOf(plan.company),
+    location: firstOf(plan.location),
+    billed_total: totals.get(plan.id)?.billed ?? 0,
+    outstanding: totals.get(plan.id)?.outstanding ?? 0,
+  }));
+}
+
+/**
+ * Storage charges, newest period first
+ */
+export async function listStorageCharges(userId: string, limit: number = 100): Promise<StorageCharge[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('storage_charges')
+    .select(CHARGE_COLUMNS)
+    .eq('owner_id', userId)
+    .order('period_end', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch storage charges: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as ChargeRow[]).map(mapCharge);
+}
+
+/**
+ * Unpaid storage charges past their due date, most overdue first
+ */
+export async function getPastDueStorageCharges(
+  userId: string
+): Promise<(StorageCharge & { days_past_due: number; storage_location_id: string | null })[]> {
+  const supabase = await createClient();
+  const asOf = today();
+
+  const { data, error } = await supabase
+    .from('storage_charges')
+    .select(`${CHARGE_COLUMNS}, plan:storage_billing_plans(storage_location_id)`)
+    .eq('owner_id', userId)
+    .lt('due_date', asOf)
+    .order('due_date');
+
+  if (error) {
+    throw new Error(`Failed to fetch past due storage charges: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as (ChargeRow & { plan: Related<{ storage_location_id: string | null }> })[];
+  return rows
+    .map((row) => ({
+      ...mapCharge(row),
+      storage_location_id: firstOf(row.plan)?.storage_location_id ?? null,
+      days_past_due: Math.round(
+        (new Date(`${asOf}T00:00:00Z`).getTime() - new Date(`${row.due_date}T00:00:00Z`).getTime()) /
+          (24 * 60 * 60 * 1000)
+      ),
+    }))
+    .filter((charge) => charge.balance > 0);
+}
+
+/**
+ * Loads in storage without an active billing plan, with the defaults for a
+ * new plan
+ */
+export async function getBillableStorageLoads(userId: string): Promise<
+  {
+    id: string;
+    load_number: string | null;
+    customer_name: string | null;
+    company_id: string | null;
+    storage_location_id: string | null;
+    storage_in_date: string | null;
+  }[]
+> {
+  const supabase = await createClient();
+
+  const [{ data: loads, error }, { data: plans }] = await Promise.all([
+    supabase
+      .from('loads')
+      .select('id, load_number, customer_name, company_id, storage_location_id, current_storage_location_id, storage_in_date')
+      .eq('owner_id', userId)
+      .or('load_status.eq.storage_completed,service_type.in.(storage_in,storage_out),storage_drop.eq.true')
+      .order('created_at', { ascending: false })
+      .limit(200),
+    supabase.from('storage_billing_plans').select('load_id').eq('owner_id', userId).eq('status', 'active'),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch storage loads: ${error.message}`);
+  }
+
+  const billed = new Set((plans || []).map((plan) => plan.load_id));
+  return (loads || [])
+    .filter((load) => !billed.has(load.id))
+    .map((load) => ({
+      id: load.id,
+      load_number: load.load_number,
+      customer_name: load.customer_name,
+      company_id: load.company_id,
+      storage_location_id: load.storage_location_id ?? load.current_storage_location_id,
+      storage_in_date: load.storage_in_date,
+    }));
+}
+
+/**
+ * Monthly storage revenue next to the rent paid for storage locations
+ */
+export async function getStorageRevenueReport(userId: string, months: number = 12): Promise<StorageRevenueReport> {
+  const supabase = await createClient();
+
+  const now = new Date();
+  const monthKeys = Array.from({ length: months }, (_, i) => {
+    const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1 - i), 1));
+    return d.toISOString().slice(0, 7);
+  });
+  const rangeStart = `${monthKeys[0]}-01`;
+
+  const [{ data: charges, error }, { data: locations, error: locationError }] = await Promise.all([
+    supabase
+      .from('storage_charges')
+      .select(`${CHARGE_COLUMNS}, plan:storage_billing_plans(storage_location_id)`)
+      .eq('owner_id', userId)
+      .gte('period_end', rangeStart),
+    supabase
+      .from('storage_locations')
+      .select('id, name, monthly_rent, lease_start_date, created_at, vacated_at')
+      .eq('owner_id', userId)
+      .not('monthly_rent', 'is', null),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch storage charges: ${error.message}`);
+  }
+  if (locationError) {
+    throw new Error(`Failed to fetch storage locations: ${locationError.message}`);
+  }
+
+  const byMonth = new Map<string, StorageRevenueMonth>(
+    monthKeys.map((month) => [month, { month, revenue: 0, rent_cost: 0, net: 0 }])
+  );
+  const byLocation = new Map<string | null, { location_id: string | null; name: string; revenue: number; rent_cost: number }>();
+  const locationNames = new Map((locations || []).map((loc) => [loc.id, loc.name as string]));
+
+  const locationEntry = (locationId: string | null) => {
+    const existing = byLocation.get(locationId);
+    if (existing) return existing;
+    const entry = {
+      location_id: locationId,
+      name: locationId ? locationNames.get(locationId) || 'Storage location' : 'No location',
+      revenue: 0,
+      rent_cost: 0,
+    };
+    byLocation.set(locationId, entry);
+    return entry;
+  };
+
+  let outstanding = 0;
+  let pastDue = 0;
+  const asOf = today();
+
+  const rows = (charges || []) as unknown as (ChargeRow & { plan: Related<{ storage_location_id: string | null }> })[];
+  for (const row of rows) {
+    const charge = mapCharge(row);
+    const month = byMonth.get(charge.period_end.slice(0, 7));
+    if (!month) continue;
+
+    month.revenue = round(month.revenue + charge.amount);
+    const entry = locationEntry(firstOf(row.plan)?.storage_location_id ?? null);
+    entry.revenue = round(entry.revenue + charge.amount);
+
+    outstanding = round(outstanding + charge.balance);
+    if (charge.due_date < asOf) pastDue = round(pastDue + charge.balance);
+  }
+
+  for (const location of locations || []) {
+    const rent = Number(location.monthly_rent) || 0;
+    const from = (location.lease_start_date || location.created_at || '').slice(0, 7);
+    const until = location.vacated_at ? location.vacated_at.slice(0, 7) : null;
+
+    for (const month of byMonth.values()) {
+      if (from && month.month < from) continue;
+      if (until && month.month > until) continue;
+      month.rent_cost = round(month.rent_cost + rent);
+      const entry = locationEntry(location.id);
+      entry.rent_cost = round(entry.rent_cost + rent);
+    }
+  }
+
+  const monthList = Array.from(byMonth.values()).map((month) => ({
+    ...month,
+    net: round(month.revenue - month.rent_cost),
+  }));
+  const revenue = round(monthList.reduce((sum, m) => sum + m.revenue, 0));
+  const rentCost = round(monthList.reduce((sum, m) => sum + m.rent_cost, 0));
+
+  return {
+    months: monthList,
+    by_location: Array.from(byLocation.values()).sort((a, b) => b.revenue - a.revenue || b.rent_cost - a.rent_cost),
+    totals: { revenue, rent_cost: rentCost, net: round(revenue - rentCost), outstanding, past_due: pastDue },
+  };
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export async function createStorageBillingPlan(
+  userId: string,
+  input: StorageBillingPlanInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: load } = await supabase
+    .from('loads')
+    .select('id, storage_location_id, current_storage_location_id')
+    .eq('id', input.load_id)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (!load) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  // Charges are raised against this company by the service role, so it must
+  // be one of the user's own
+  const { data: billTo } = await supabase
+    .from('companies')
+    .select('id')
+    .eq('id', input.bill_to_company_id)
+    .eq('owner_id', userId)
+    .eq('is_workspace_company', false)
+    .maybeSingle();
+
+  if (!billTo) {
+    return { success: false, error: 'Bill-to company not found' };
+  }
+
+  const { data, error } = await supabase
+    .from('storage_billing_plans')
+    .insert({
+      owner_id: userId,
+      load_id: input.load_id,
+      bill_to_company_id: input.bill_to_company_id,
+      storage_location_id: load.storage_location_id ?? load.current_storage_location_id ?? null,
+      storage_type: input.storage_type,
+      billing_cycle: input.billing_cycle,
+      rate: round(input.rate),
+      payment_terms_days: input.payment_terms_days,
+      start_date: input.start_date,
+      next_period_start: input.start_date,
+      notes: input.notes || null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'This load already has an active storage billing plan' };
+    }
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, id: data.id };
+}
+
+/**
+ * Set the last day in storage. The final period is prorated to that day and
+ * the plan ends once it has been billed.
+ */
+export async function endStorageBillingPlan(
+  planId: string,
+  userId: string,
+  endDate: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: plan } = await supabase
+    .from('storage_billing_plans')
+    .select('id, start_date, next_period_start, status')
+    .eq('id', planId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (!plan || plan.status !== 'active') {
+    return { success: false, error: 'Active billing plan not found' };
+  }
+  if (endDate < plan.start_date) {
+    return { success: false, error: 'End date is before the plan started' };
+  }
+  if (endDate < addDays(plan.next_period_start, -1)) {
+    return {
+      success: false,
+      error: `Storage is already billed through ${addDays(plan.next_period_start, -1)}`,
+    };
+  }
+
+  const { error } = await supabase
+    .from('storage_billing_plans')
+    .update({
+      end_date: endDate,
+      status: endDate < plan.next_period_start ? 'ended' : 'active',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', planId)
+    .eq('owner_id', userId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// CHARGE GENERATION
+// ============================================================================
+
+/**
+ * Bill every ended period on active plans, for one owner or (from the
+ * scheduler) everyone. Each period becomes a storage charge and a receivable
+ * due payment_terms_days after the period is billed.
+ */
+export async function generateStorageCharges(options: { userId?: string; asOf?: string } = {}): Promise<{
+  success: boolean;
+  charges: number;
+  amount: number;
+  error?: string;
+}> {
+  const supabase = createServiceRoleClient();
+  const asOf = options.asOf || today();
+
+  let query = supabase
+    .from('storage_billing_plans')
+    .select('id, owner_id, load_id, bill_to_company_id, billing_cycle, rate, payment_terms_days, end_date, next_period_start, load:loads(load_number)')
+    .eq('status', 'active')
+    .lt('next_period_start', asOf);
+
+  if (options.userId) query = query.eq('owner_id', options.userId);
+
+  const { data: plans, error } = await query;
+  if (error) {
+    return { success: false, charges: 0, amount: 0, error: error.message };
+  }
+
+  let created = 0;
+  let amount = 0;
+
+  for (const plan of plans || []) {
+    const loadNumber = firstOf(plan.load as Related<{ load_number: string | null }>)?.load_number || 'load';
+    let nextPeriodStart = plan.next_period_start as string;
+
+    for (const period of billablePeriods(plan, asOf)) {
+      const billedOn = addDays(period.period_end, 1) > asOf ? addDays(period.period_end, 1) : asOf;
+      const dueDate = addDays(billedOn, plan.payment_terms_days);
+
+      const { data: charge, error: chargeError } = await supabase
+        .from('storage_charges')
+        .insert({
+          owner_id: plan.owner_id,
+          plan_id: plan.id,
+          load_id: plan.load_id,
+          company_id: plan.bill_to_company_id,
+          period_start: period.period_start,
+          period_end: period.period_end,
+          days_billed: period.days_billed,
+          period_days: period.period_days,
+          is_prorated: period.is_prorated,
+          amount: period.amount,
+          due_date: dueDate,
+        })
+        .select('id')
+        .single();
+
+      // Already billed by a concurrent run: just move past it
+      if (chargeError && chargeError.code !== '23505') {
+        console.error('Error creating storage charge:', chargeError);
+        break;
+      }
+
+      if (charge && period.amount > 0) {
+        const { data: receivable, error: recvError } = await supabase
+          .from('receivables')
+          .insert({
+            owner_id: plan.owner_id,
+            company_id: plan.bill_to_company_id,
+            amount: period.amount,
+            status: 'open',
+            due_date: dueDate,
+            reference: `Storage ${loadNumber} ${period.period_start} to ${period.period_end}`,
+          })
+          .select('id')
+          .single();
+
+        if (recvError) {
+          console.error('Error creating storage receivable:', recvError);
+          await supabase.from('storage_charges').delete().eq('id', charge.id);
+          break;
+        }
+
+        await supabase.from('storage_charges').update({ receivable_id: receivable.id }).eq('id', charge.id);
+        created++;
+        amount = round(amount + period.amount);
+      }
+
+      nextPeriodStart = addDays(period.period_end, 1);
+    }
+
+    if (nextPeriodStart !== plan.next_period_start) {
+      await supabase
+        .from('storage_billing_plans')
+        .update({
+          next_period_start: nextPeriodStart,
+          status: plan.end_date && nextPeriodStart > plan.end_date ? 'ended' : 'active',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', plan.id);
+    }
+  }
+
+  return { success: true, charges: created, amount };
+}
@@ -1,4 +1,7 @@
 import { createClient } from '@/lib/supabase-server';
+import { geocodeStorageCoordinates } from './coordinates';
+import { getStorageOccupancyByLocation } from './storage-units';
+import type { StorageOccupancy } from './storage-units-shared';
 
 export type LocationType = 'warehouse' | 'public_storage' | 'partner_facility' | 'container_yard' | 'vault_storage' | 'other';
 export type TruckAccessibility = 'full' | 'limited' | 'none';
@@ -35,6 +38,8 @@ export interface StorageLocation {
   created_at: string;
   updated_at: string;
   loads_count?: number;
+  // Computed from unit assignments when the location has units set up
+  occupancy?: StorageOccupancy;
   // Warehouse-specific fields
   operating_hours: string | null;
   has_loading_dock: boolean;
@@ -109,12 +114,15 @@ export async function getStorageLocationsWithLoadCount(ownerId: string): Promise
     return [];
   }
 
-  const { data: loadCounts } = await supabase
-    .from('loads')
-    .select('storage_location_id')
-    .eq('owner_id', ownerId)
-    .not('storage_location_id', 'is', null)
-    .in('load_status', ['pending', 'accepted', 'loading', 'loaded']);
+  const [{ data: loadCounts }, occupancyMap] = await Promise.all([
+    supabase
+      .from('loads')
+      .select('storage_location_id')
+      .eq('owner_id', ownerId)
+      .not('storage_location_id', 'is', null)
+      .in('load_status', ['pending', 'accepted', 'loading', 'loaded']),
+    getStorageOccupancyByLocation(ownerId),
+  ]);
 
   const countMap = new Map<string, number>();
   loadCounts?.forEach((load: { storage_location_id: string }) => {
@@ -125,6 +133,7 @@ export async function getStorageLocationsWithLoadCount(ownerId: string): Promise
   return locations.map((loc) => ({
     ...loc,
     loads_count: countMap.get(loc.id) || 0,
+    occupancy: occupancyMap.get(loc.id),
   }));
 }
 
@@ -133,10 +142,12 @@ export async function createStorageLocation(
   data: Partial<StorageLocation>
 ): Promise<{ success: boolean; id?: string; error?: string }> {
   const supabase = await createClient();
+  const coordinates = await geocodeStorageCoordinates(data);
 
   const { data: result, error } = await supabase
     .from('storage_locations')
     .insert({
+      ...coordinates,
       owner_id: ownerId,
       name: data.name,
       code: data.code,
@@ -197,10 +208,14 @@ export async function updateStorageLocation(
   data: Partial<StorageLocation>
 ): Promise<{ success: boolean; error?: string }> {
   const supabase = await createClient();
+  // Forms send the whole address, so re-geocode whenever it's present
+  const coordinates =
+    data.city !== undefined || data.zip !== undefined ? await geocodeStorageCoordinates(data) : {};
 
   const { error } = await supabase
     .from('storage_locations')
     .update({
+      ...coordinates,
       name: data.name,
       code: data.code,
       location_type: data.location_type,
@@ -0,0 +1,141 @@
+/**
+ * Storage unit inventory types and occupancy math, safe to import from client
+ * components
+ */
+
+export type StorageUnitType = 'vault' | 'room' | 'floor_bay' | 'container' | 'other';
+
+export const STORAGE_UNIT_TYPE_LABELS: Record<StorageUnitType, string> = {
+  vault: 'Vault',
+  room: 'Room',
+  floor_bay: 'Floor Bay',
+  container: 'Container',
+  other: 'Other',
+};
+
+// Standard moving vault: 7' x 5' x 7'
+export const STANDARD_VAULT_CUFT = 245;
+
+export interface StorageUnit {
+  id: string;
+  storage_location_id: string;
+  unit_number: string;
+  unit_type: StorageUnitType;
+  length_ft: number | null;
+  width_ft: number | null;
+  height_ft: number | null;
+  capacity_cuft: number;
+  map_row: string | null;
+  map_position: number | null;
+  notes: string | null;
+  is_active: boolean;
+}
+
+export interface StorageUnitAssignment {
+  id: string;
+  storage_unit_id: string;
+  load_id: string;
+  move_in_date: string;
+  move_out_date: string | null;
+  cubic_feet: number | null;
+  source: 'manual' | 'workflow';
+  notes: string | null;
+  load: {
+    id: string;
+    load_number: string | null;
+    customer_name: string | null;
+    service_type: string | null;
+  } | null;
+}
+
+export interface StorageUnitWithContents extends StorageUnit {
+  // Open assignments only
+  assignments: StorageUnitAssignment[];
+  used_cuft: number;
+  occupancy_percent: number;
+}
+
+export interface StorageOccupancy {
+  units_total: number;
+  units_occupied: number;
+  capacity_cuft: number;
+  used_cuft: number;
+  occupancy_percent: number;
+}
+
+export function unitCubicFeet(length: number | null, width: number | null, height: number | null): number | null {
+  if (!length || !width || !height) return null;
+  return Math.round(length * width * height);
+}
+
+/**
+ * Cubic feet a unit holds. Assignments without a cuft figure fill the unit,
+ * since a vault with anything in it can't take another customer.
+ */
+export function unitUsedCuft(unit: Pick<StorageUnit, 'capacity_cuft'>, assignments: Pick<StorageUnitAssignment, 'cubic_feet'>[]): number {
+  if (assignments.length === 0) return 0;
+  if (assignments.some((a) => a.cubic_feet == null)) return unit.capacity_cuft;
+  return Math.min(
+    unit.capacity_cuft,
+    assignments.reduce((sum, a) => sum + Number(a.cubic_feet), 0)
+  );
+}
+
+export function summarizeOccupancy(units: StorageUnitWithContents[]): StorageOccupancy {
+  const capacity = units.reduce((sum, unit) => sum + unit.capacity_cuft, 0);
+  const used = units.reduce((sum, unit) => sum + unit.used_cuft, 0);
+
+  return {
+    units_total: units.length,
+    units_occupied: units.filter((unit) => unit.assignments.length > 0).length,
+    capacity_cuft: capacity,
+    used_cuft: used,
+    occupancy_percent: capacity > 0 ? Math.round((used / capacity) * 100) : 0,
+  };
+}
+
+/**
+ * Units grouped into map rows, in row order, with units ordered by position
+ * then number. Units without a row come last under "Unassigned".
+ */
+export function groupUnitsByRow<T extends Pick<StorageUnit, 'map_row' | 'map_position' | 'unit_number'>>(
+  units: T[]
+): { row: string; units: T[] }[] {
+  const rows = new Map<string, T[]>();
+  for (const unit of units) {
+    const row = unit.map_row?.trim() || '';
+    rows.set(row, [...(rows.get(row) || []), unit]);
+  }
+
+  return Array.from(rows.entries())
+    .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b, undefined, { numeric: true })))
+    .map(([row, rowUnits]) => ({
+      row: row || 'Unassigned',
+      units: rowUnits.sort(
+        (a, b) =>
+          (a.map_position ?? Number.MAX_SAFE_INTEGER) - (b.map_position ?? Number.MAX_SAFE_INTEGER) ||
+          a.unit_number.localeCompare(b.unit_number, undefined, { numeric: true })
+      ),
+    }));
+}
+
+// Raw form values from the warehouse map dialogs, validated on the server
+export interface StorageUnitFormValues {
+  unit_number: string;
+  unit_type: StorageUnitType;
+  length_ft: string;
+  width_ft: string;
+  height_ft: string;
+  capacity_cuft: string;
+  map_row: string;
+  map_position: string;
+  notes: string;
+}
+
+export interface StorageAssignmentFormValues {
+  storage_unit_id: string;
+  load_id: string;
+  move_in_date: string;
+  cubic_feet: string;
+  notes: string;
+}
@@ -0,0 +1,395 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import {
+  summarizeOccupancy,
+  unitCubicFeet,
+  unitUsedCuft,
+  type StorageOccupancy,
+  type StorageUnit,
+  type StorageUnitAssignment,
+  type StorageUnitWithContents,
+} from '@/data/storage-units-shared';
+
+/**
+ * Storage unit inventory
+ *
+ * Units (vaults, rooms, bays) belong to a storage location; loads are
+ * assigned to units with move-in/move-out dates. Assignments are also
+ * created and closed by the sync_storage_unit_assignment trigger when
+ * drivers drop a load in storage or pick up a storage_out load.
+ */
+
+const UNIT_COLUMNS =
+  'id, storage_location_id, unit_number, unit_type, length_ft, width_ft, height_ft, capacity_cuft, map_row, map_position, notes, is_active';
+
+const ASSIGNMENT_COLUMNS = `
+  id, storage_unit_id, load_id, move_in_date, move_out_date, cubic_feet, source, notes,
+  load:loads(id, load_number, customer_name, service_type)
+`;
+
+const optionalNumber = z.preprocess(
+  (value) => (value === '' || value === null || value === undefined ? undefined : value),
+  z.coerce.number().positive().optional()
+);
+
+export const storageUnitInputSchema = z
+  .object({
+    unit_number: z.string().trim().min(1, 'Unit number is required').max(50),
+    unit_type: z.enum(['vault', 'room', 'floor_bay', 'container', 'other']).default('vault'),
+    length_ft: optionalNumber,
+    width_ft: optionalNumber,
+    height_ft: optionalNumber,
+    capacity_cuft: optionalNumber,
+    map_row: z.string().trim().max(20).optional(),
+    map_position: z.preprocess(
+      (value) => (value === '' || value === null || value === undefined ? undefined : value),
+      z.coerce.number().int().min(0).optional()
+    ),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (data) => data.capacity_cuft != null || unitCubicFeet(data.length_ft ?? null, data.width_ft ?? null, data.height_ft ?? null) != null,
+    { message: 'Enter the dimensions or the capacity in cubic feet', path: ['capacity_cuft'] }
+  );
+
+export type StorageUnitInput = z.infer<typeof storageUnitInputSchema>;
+
+export const storageAssignmentInputSchema = z.object({
+  storage_unit_id: z.string().uuid(),
+  load_id: z.string().uuid('Select a load'),
+  move_in_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Move-in date is required'),
+  cubic_feet: optionalNumber,
+  notes: z.string().trim().max(500).optional(),
+});
+
+export type StorageAssignmentInput = z.infer<typeof storageAssignmentInputSchema>;
+
+function toUnitRow(input: StorageUnitInput) {
+  return {
+    unit_number: input.unit_number,
+    unit_type: input.unit_type,
+    length_ft: input.length_ft ?? null,
+    width_ft: input.width_ft ?? null,
+    height_ft: input.height_ft ?? null,
+    capacity_cuft:
+      input.capacity_cuft ?? unitCubicFeet(input.length_ft ?? null, input.width_ft ?? null, input.height_ft ?? null),
+    map_row: input.map_row || null,
+    map_position: input.map_position ?? null,
+    notes: input.notes || null,
+  };
+}
+
+function withContents(unit: StorageUnit, assignments: StorageUnitAssignment[]): StorageUnitWithContents {
+  const capacity = Number(unit.capacity_cuft);
+  const used = unitUsedCuft({ capacity_cuft: capacity }, assignments);
+  return {
+    ...unit,
+    capacity_cuft: capacity,
+    assignments,
+    used_cuft: used,
+    occupancy_percent: capacity > 0 ? Math.round((used / capacity) * 100) : 0,
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Active units at a location with what's in them now
+ */
+export async function getStorageUnitsWithContents(
+  locationId: string,
+  ownerId: string
+): Promise<StorageUnitWithContents[]> {
+  const supabase = await createClient();
+
+  const { data: units, error } = await supabase
+    .from('storage_units')
+    .select(UNIT_COLUMNS)
+    .eq('storage_location_id', locationId)
+    .eq('owner_id', ownerId)
+    .eq('is_active', true)
+    .order('unit_number');
+
+  if (error || !units) {
+    console.error('Error fetching storage units:', error);
+    return [];
+  }
+
+  if (units.length === 0) return [];
+
+  const { data: assignments, error: assignmentError } = await supabase
+    .from('storage_unit_assignments')
+    .select(ASSIGNMENT_COLUMNS)
+    .in('storage_unit_id', units.map((unit) => unit.id))
+    .is('move_out_date', null)
+    .order('move_in_date');
+
+  if (assignmentError) {
+    console.error('Error fetching storage assignments:', assignmentError);
+  }
+
+  const byUnit = new Map<string, StorageUnitAssignment[]>();
+  for (const assignment of (assignments || []) as unknown as StorageUnitAssignment[]) {
+    byUnit.set(assignment.storage_unit_id, [...(byUnit.get(assignment.storage_unit_id) || []), assignment]);
+  }
+
+  return (units as StorageUnit[]).map((unit) => withContents(unit, byUnit.get(unit.id) || []));
+}
+
+/**
+ * Occupancy per location, for locations that have units set up
+ */
+export async function getStorageOccupancyByLocation(ownerId: string): Promise<Map<string, StorageOccupancy>> {
+  const supabase = await createClient();
+
+  const [{ data: units }, { data: assignments }] = await Promise.all([
+    supabase
+      .from('storage_units')
+      .select(UNIT_COLUMNS)
+      .eq('owner_id', ownerId)
+      .eq('is_active', true),
+    supabase
+      .from('storage_unit_assignments')
+      .select('id, storage_unit_id, cubic_feet')
+      .eq('owner_id', ownerId)
+      .is('move_out_date', null),
+  ]);
+
+  const byUnit = new Map<string, StorageUnitAssignment[]>();
+  for (const assignment of (assignments || []) as StorageUnitAssignment[]) {
+    byUnit.set(assignment.storage_unit_id, [...(byUnit.get(assignment.storage_unit_id) || []), assignment]);
+  }
+
+  const byLocation = new Map<string, StorageUnitWithContents[]>();
+  for (const unit of (units || []) as StorageUnit[]) {
+    const contents = withContents(unit, byUnit.get(unit.id) || []);
+    byLocation.set(unit.storage_location_id, [...(byLocation.get(unit.storage_location_id) || []), contents]);
+  }
+
+  return new Map(Array.from(byLocation.entries()).map(([locationId, locationUnits]) => [locationId, summarizeOccupancy(locationUnits)]));
+}
+
+/**
+ * Loads that can be put in a unit: the location's loads plus anything in or
+ * headed for storage, most recent first
+ */
+export async function getStorableLoads(
+  locationId: string,
+  ownerId: string
+): Promise<{ id: string; load_number: string | null; customer_name: string | null; cubic_feet: number | null }[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('loads')
+    .select('id, load_number, customer_name, cubic_feet, actual_cuft_loaded')
+    .eq('owner_id', ownerId)
+    .or(
+      `storage_location_id.eq.${locationId},load_status.eq.storage_completed,service_type.in.(storage_in,storage_out)`
+    )
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching storable loads:', error);
+    return [];
+  }
+
+  return (data || []).map((load) => ({
+    id: load.id,
+    load_number: load.load_number,
+    customer_name: load.customer_name,
+    cubic_feet: load.actual_cuft_loaded ?? load.cubic_feet,
+  }));
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+export async function createStorageUnit(
+  ownerId: string,
+  locationId: string,
+  input: StorageUnitInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: location } = await supabase
+    .from('storage_locations')
+    .select('id')
+    .eq('id', locationId)
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  if (!location) {
+    return { success: false, error: 'Storage location not found' };
+  }
+
+  const { data, error } = await supabase
+    .from('storage_units')
+    .insert({ owner_id: ownerId, storage_location_id: locationId, ...toUnitRow(input) })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error creating storage unit:', error);
+    if (error.code === '23505') {
+      return { success: false, error: `Unit ${input.unit_number} already exists at this location` };
+    }
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, id: data.id };
+}
+
+export async function updateStorageUnit(
+  unitId: string,
+  ownerId: string,
+  input: StorageUnitInput
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('storage_units')
+    .update({ ...toUnitRow(input), updated_at: new Date().toISOString() })
+    .eq('id', unitId)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    console.error('Error updating storage unit:', error);
+    if (error.code === '23505') {
+      return { success: false, error: `Unit ${input.unit_number} already exists at this location` };
+    }
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Remove a unit. Units with history are deactivated so past assignments keep
+ * their unit; units with goods in them can't be removed.
+ */
+export async function deleteStorageUnit(
+  unitId: string,
+  ownerId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: assignments } = await supabase
+    .from('storage_unit_assignments')
+    .select('id, move_out_date')
+    .eq('storage_unit_id', unitId)
+    .eq('owner_id', ownerId);
+
+  if (assignments?.some((a) => a.move_out_date === null)) {
+    return { success: false, error: 'Move the loads out of this unit first' };
+  }
+
+  const { error } =
+    assignments && assignments.length > 0
+      ? await supabase
+          .from('storage_units')
+          .update({ is_active: false, updated_at: new Date().toISOString() })
+          .eq('id', unitId)
+          .eq('owner_id', ownerId)
+      : await supabase.from('storage_units').delete().eq('id', unitId).eq('owner_id', ownerId);
+
+  if (error) {
+    console.error('Error deleting storage unit:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// ASSIGNMENTS
+// ============================================================================
+
+export async function assignLoadToStorageUnit(
+  ownerId: string,
+  input: StorageAssignmentInput
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const [{ data: unit }, { data: load }] = await Promise.all([
+    supabase
+      .from('storage_units')
+      .select('id')
+      .eq('id', input.storage_unit_id)
+      .eq('owner_id', ownerId)
+      .eq('is_active', true)
+      .maybeSingle(),
+    supabase
+      .from('loads')
+      .select('id, cubic_feet, actual_cuft_loaded')
+      .eq('id', input.load_id)
+      .eq('owner_id', ownerId)
+      .maybeSingle(),
+  ]);
+
+  if (!unit) {
+    return { success: false, error: 'Storage unit not found' };
+  }
+  if (!load) {
+    return { success: false, error: 'Load not found' };
+  }
+
+  const { error } = await supabase.from('storage_unit_assignments').insert({
+    owner_id: ownerId,
+    storage_unit_id: input.storage_unit_id,
+    load_id: input.load_id,
+    move_in_date: input.move_in_date,
+    cubic_feet: input.cubic_feet ?? load.actual_cuft_loaded ?? load.cubic_feet ?? null,
+    source: 'manual',
+    notes: input.notes || null,
+  });
+
+  if (error) {
+    console.error('Error assigning load to storage unit:', error);
+    if (error.code === '23505') {
+      return { success: false, error: 'This load is already in that unit' };
+    }
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function moveOutStorageAssignment(
+  assignmentId: string,
+  ownerId: string,
+  moveOutDate: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: assignment } = await supabase
+    .from('storage_unit_assignments')
+    .select('id, move_in_date')
+    .eq('id', assignmentId)
+    .eq('owner_id', ownerId)
+    .is('move_out_date', null)
+    .maybeSingle();
+
+  if (!assignment) {
+    return { success: false, error: 'Assignment not found' };
+  }
+  if (moveOutDate < assignment.move_in_date) {
+    return { success: false, error: 'Move-out date is before the move-in date' };
+  }
+
+  const { error } = await supabase
+    .from('storage_unit_assignments')
+    .update({ move_out_date: moveOutDate })
+    .eq('id', assignmentId)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    console.error('Error moving out storage assignment:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
@@ -24,6 +24,7 @@ export interface TripFinancialResult {
   fuel_total: number;
   tolls_total: number;
   other_expenses_total: number;
+  helper_labor_total: number;
   profit_total: number;
   total_cuft: number | null;
   driver_pay_breakdown: DriverPayCalculation | null;
@@ -231,6 +232,23 @@ export async function computeTripFinancialsWithDriverPay(
     return sum + (typeof cuft === 'number' ? cuft : 0);
   }, 0);
 
+  // Helper labor on the trip's loads (loading and delivery crews)
+  let helper_labor_total = 0;
+  const loadIds = tripLoads.map((tl) => tl.load_id).filter(Boolean);
+  if (loadIds.length > 0) {
+    const { data: helperRows, error: helperError } = await supabase
+      .from('load_helpers')
+      .select('amount')
+      .eq('owner_id', userId)
+      .in('load_id', loadIds);
+    if (helperError) {
+      throw new Error(`Failed to load helper labor for financials: ${helperError.message}`);
+    }
+    helper_labor_total = Number(
+      (helperRows || []).reduce((sum, row) => sum + (Number(row.amount) || 0), 0).toFixed(2)
+    );
+  }
+
   // Categorize expenses
   let expense_driver_pay_total = 0;
   let fuel_total = 0;
@@ -281,7 +299,8 @@ export async function computeTripFinancialsWithDriverPay(
   const driver_pay_total = calculated_driver_pay + expense_driver_pay_total;
 
   // Profit calculation
-  const profit_total = revenue_total - (driver_pay_total + fuel_total + tolls_total + other_expenses_total);
+  const profit_total =
+    revenue_total - (driver_pay_total + fuel_total + tolls_total + other_expenses_total + helper_labor_total);
 
   const result: TripFinancialResult = {
     revenue_total,
@@ -289,6 +308,7 @@ export async function computeTripFinancialsWithDriverPay(
     fuel_total,
     tolls_total,
     other_expenses_total,
+    helper_labor_total,
     profit_total,
     total_cuft: total_cuft || null,
     driver_pay_breakdown,
@@ -301,6 +321,7 @@ export async function computeTripFinancialsWithDriverPay(
     fuel_total,
     tolls_total,
     other_expenses_total,
+    helper_labor_total,
     profit_total,
     total_cuft: total_cuft || null,
     driver_pay_breakdown: driver_pay_breakdown ? JSON.stringify(driver_pay_breakdown) : null,
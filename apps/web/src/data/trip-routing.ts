@@ -0,0 +1,226 @@
+import { createClient } from '@/lib/supabase-server';
+import { geocodeAddresses, storedCoordinates, type GeoCoordinates } from '@/lib/geocoding';
+import {
+  compareRoutes,
+  savedRouteStops,
+  COMPLETED_LOAD_STATUSES,
+  PICKED_UP_LOAD_STATUSES,
+  type RouteComparison,
+  type RouteLoad,
+} from '@/lib/route-optimizer';
+
+interface TripRoutingRow {
+  id: string;
+  start_date: string | null;
+  origin_city: string | null;
+  origin_state: string | null;
+  origin_postal_code: string | null;
+  origin_lat: number | string | null;
+  origin_lng: number | string | null;
+  destination_city: string | null;
+  destination_state: string | null;
+  destination_postal_code: string | null;
+  destination_lat: number | string | null;
+  destination_lng: number | string | null;
+  truck: { cubic_capacity: number | null } | { cubic_capacity: number | null }[] | null;
+  trailer: { capacity_cuft: number | null } | { capacity_cuft: number | null }[] | null;
+}
+
+interface TripLoadRoutingRow {
+  load_id: string;
+  sequence_index: number;
+  pickup_stop_index: number | null;
+  delivery_stop_index: number | null;
+  load: LoadRoutingRow | LoadRoutingRow[] | null;
+}
+
+interface LoadRoutingRow {
+  id: string;
+  load_number: string | null;
+  load_status: string | null;
+  cubic_feet: number | string | null;
+  cubic_feet_estimate: number | string | null;
+  pickup_city: string | null;
+  pickup_state: string | null;
+  pickup_postal_code: string | null;
+  loading_city: string | null;
+  loading_state: string | null;
+  loading_postal_code: string | null;
+  delivery_city: string | null;
+  delivery_state: string | null;
+  delivery_postal_code: string | null;
+  dropoff_city: string | null;
+  dropoff_state: string | null;
+  dropoff_postal_code: string | null;
+  pickup_lat: number | string | null;
+  pickup_lng: number | string | null;
+  delivery_lat: number | string | null;
+  delivery_lng: number | string | null;
+  pickup_date: string | null;
+  pickup_window_start: string | null;
+  pickup_window_end: string | null;
+  delivery_date: string | null;
+  delivery_window_end: string | null;
+  rfd_date: string | null;
+  rfd_delivery_deadline: string | null;
+}
+
+export interface TripRouteComparison extends RouteComparison {
+  capacity_cuft: number;
+  // Delivered loads stay at the front of the trip's load order
+  completed_load_ids: string[];
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * The trip's saved stop order against the optimized one, or null when the
+ * trip has no loads left to route
+ */
+export async function getTripRouteComparison(tripId: string, userId: string): Promise<TripRouteComparison | null> {
+  const supabase = await createClient();
+
+  const [tripResult, loadsResult] = await Promise.all([
+    supabase
+      .from('trips')
+      .select(
+        `
+        id, start_date,
+        origin_city, origin_state, origin_postal_code, origin_lat, origin_lng,
+        destination_city, destination_state, destination_postal_code, destination_lat, destination_lng,
+        truck:trucks!trips_truck_id_fkey(cubic_capacity),
+        trailer:trailers!trips_trailer_id_fkey(capacity_cuft)
+      `
+      )
+      .eq('id', tripId)
+      .eq('owner_id', userId)
+      .single(),
+    supabase
+      .from('trip_loads')
+      .select(
+        `
+        load_id, sequence_index, pickup_stop_index, delivery_stop_index,
+        load:loads!trip_loads_load_id_fkey(
+          id, load_number, load_status, cubic_feet, cubic_feet_estimate,
+          pickup_city, pickup_state, pickup_postal_code,
+          loading_city, loading_state, loading_postal_code,
+          delivery_city, delivery_state, delivery_postal_code,
+          dropoff_city, dropoff_state, dropoff_postal_code,
+          pickup_lat, pickup_lng, delivery_lat, delivery_lng,
+          pickup_date, pickup_window_start, pickup_window_end,
+          delivery_date, delivery_window_end, rfd_date, rfd_delivery_deadline
+        )
+      `
+      )
+      .eq('trip_id', tripId)
+      .eq('owner_id', userId)
+      .order('sequence_index', { ascending: true }),
+  ]);
+
+  if (tripResult.error) {
+    throw new Error(`Failed to fetch trip: ${tripResult.error.message}`);
+  }
+  if (loadsResult.error) {
+    throw new Error(`Failed to fetch trip loads: ${loadsResult.error.message}`);
+  }
+
+  const trip = tripResult.data as unknown as TripRoutingRow;
+  const rows = ((loadsResult.data || []) as unknown as TripLoadRoutingRow[])
+    .map((row) => ({ ...row, load: Array.isArray(row.load) ? row.load[0] : row.load }))
+    .filter((row): row is TripLoadRoutingRow & { load: LoadRoutingRow } => !!row.load);
+  const isCompleted = (row: { load: LoadRoutingRow }) => COMPLETED_LOAD_STATUSES.includes(row.load.load_status || '');
+  const tripLoads = rows.filter((row) => !isCompleted(row));
+
+  if (tripLoads.length === 0) return null;
+
+  // Geocode anything saved before coordinates were stored, in one batch
+  const pickups = tripLoads.map(({ load }) => pickupAddress(load));
+  const deliveries = tripLoads.map(({ load }) => deliveryAddress(load));
+  const geocoded = await geocodeAddresses([
+    { city: trip.origin_city, state: trip.origin_state, postalCode: trip.origin_postal_code },
+    { city: trip.destination_city, state: trip.destination_state, postalCode: trip.destination_postal_code },
+    ...pickups,
+    ...deliveries,
+  ]);
+
+  const loads = tripLoads.map(({ load, pickup_stop_index, delivery_stop_index }, index) => ({
+    ...toRouteLoad(load, {
+      pickup: storedCoordinates(load.pickup_lat, load.pickup_lng) ?? geocoded[2 + index],
+      delivery: storedCoordinates(load.delivery_lat, load.delivery_lng) ?? geocoded[2 + tripLoads.length + index],
+    }),
+    pickup_stop_index,
+    delivery_stop_index,
+  }));
+
+  const truck = Array.isArray(trip.truck) ? trip.truck[0] : trip.truck;
+  const trailer = Array.isArray(trip.trailer) ? trip.trailer[0] : trip.trailer;
+  // Prioritize trailer capacity, then truck capacity (for box trucks)
+  const capacity = Number(trailer?.capacity_cuft || truck?.cubic_capacity || 0);
+
+  const today = new Date().toISOString().split('T')[0];
+  const input = {
+    start: storedCoordinates(trip.origin_lat, trip.origin_lng) ?? geocoded[0],
+    end: storedCoordinates(trip.destination_lat, trip.destination_lng) ?? geocoded[1],
+    // Plan from today once the trip is underway
+    departure: trip.start_date && trip.start_date > today ? trip.start_date : today,
+    capacity_cuft: capacity,
+    loads,
+  };
+
+  return {
+    ...compareRoutes(input, savedRouteStops(loads)),
+    capacity_cuft: capacity,
+    completed_load_ids: rows.filter(isCompleted).map((row) => row.load_id),
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Company loads keep their pickup in the loading snapshot; partner loads
+// record the delivery as the dropoff
+function pickupAddress(load: LoadRoutingRow) {
+  return load.pickup_city || load.pickup_postal_code
+    ? { city: load.pickup_city, state: load.pickup_state, postalCode: load.pickup_postal_code }
+    : { city: load.loading_city, state: load.loading_state, postalCode: load.loading_postal_code };
+}
+
+function deliveryAddress(load: LoadRoutingRow) {
+  return load.delivery_city || load.delivery_postal_code
+    ? { city: load.delivery_city, state: load.delivery_state, postalCode: load.delivery_postal_code }
+    : { city: load.dropoff_city, state: load.dropoff_state, postalCode: load.dropoff_postal_code };
+}
+
+function toRouteLoad(
+  load: LoadRoutingRow,
+  coordinates: { pickup: GeoCoordinates | null; delivery: GeoCoordinates | null }
+): RouteLoad {
+  const pickup = pickupAddress(load);
+  const delivery = deliveryAddress(load);
+
+  return {
+    id: load.id,
+    load_number: load.load_number || 'Load',
+    pickup: coordinates.pickup,
+    pickup_label: formatPlace(pickup.city, pickup.state),
+    delivery: coordinates.delivery,
+    delivery_label: formatPlace(delivery.city, delivery.state),
+    cubic_feet: Number(load.cubic_feet ?? load.cubic_feet_estimate ?? 0),
+    picked_up: PICKED_UP_LOAD_STATUSES.includes(load.load_status || ''),
+    pickup_earliest: load.pickup_window_start,
+    pickup_latest: load.pickup_window_end ?? endOfDay(load.pickup_date),
+    delivery_earliest: load.rfd_date,
+    delivery_deadline: load.delivery_window_end ?? endOfDay(load.rfd_delivery_deadline ?? load.delivery_date),
+  };
+}
+
+function endOfDay(date: string | null): string | null {
+  return date ? `${date}T23:59:59Z` : null;
+}
+
+function formatPlace(city: string | null, state: string | null): string {
+  return [city, state].filter(Boolean).join(', ') || 'Unknown location';
+}
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase-server';
 import type { Load } from '@/data/loads';
+import { geocodeTripCoordinates } from '@/data/coordinates';
 import { computeTripFinancialsWithDriverPay, snapshotDriverCompensation, type TripFinancialResult } from '@/data/trip-financials';
 import { notifyDriverTripAssigned, notifyDriverLoadAddedToTrip, notifyDriverLoadRemovedFromTrip, notifyDriverDeliveryOrderChanged } from '@/lib/push-notifications';
 import {
@@ -40,6 +41,9 @@ const optionalTrimmedString = (max = 200) =>
     .optional()
     .transform((val) => (val && val.length > 0 ? val : undefined));
 
+// Form fields arrive as '' or null when left blank
+const blankToUndefined = (val: unknown) => (val === '' || val === null ? undefined : val);
+
 export const newTripInputSchema = z.object({
   trip_number: z.string().trim().max(100).optional(), // Auto-generated if not provided
   reference_number: z.string().trim().max(100).optional(), // Owner's custom reference
@@ -77,6 +81,19 @@ export const newTripExpenseInputSchema = z.object({
   category: tripExpenseCategorySchema,
   description: optionalTrimmedString(1000),
   amount: z.coerce.number().positive('Amount must be greater than zero'),
+  gallons: z.preprocess(
+    blankToUndefined,
+    z.coerce.number().positive('Gallons must be greater than zero').optional()
+  ),
+  fuel_state: z.preprocess(
+    blankToUndefined,
+    z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z]{2}$/, 'Use the two-letter state code')
+      .optional()
+  ),
   incurred_at: optionalDateSchema,
   expense_type: z.string().trim().optional(),
   paid_by: z.enum(['driver_personal', 'driver_cash', 'company_card', 'fuel_card']).optional(),
@@ -112,6 +129,10 @@ export interface Trip {
   destination_city: string | null;
   destination_state: string | null;
   destination_postal_code: string | null;
+  origin_lat: number | null;
+  origin_lng: number | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
   start_date: string | null;
   end_date: string | null;
   total_miles: number | null;
@@ -120,6 +141,7 @@ export interface Trip {
   fuel_total: number;
   tolls_total: number;
   other_expenses_total: number;
+  helper_labor_total: number;
   profit_total: number;
   notes: string | null;
   driver?: { id: string; first_name: string; last_name: string; phone?: string | null } | null;
@@ -147,11 +169,21 @@ export interface TripLoad {
   load_id: string;
   sequence_index: number;
   role: TripLoadRole;
+  // Positions in the combined stop sequence; null means pickups first
+  pickup_stop_index: number | null;
+  delivery_stop_index: number | null;
   load?: (Load & {
     company?: { id: string; name: string } | null;
   }) | null;
 }
 
+export interface TripLoadOrderItem {
+  load_id: string;
+  sequence_index: number;
+  pickup_stop_index?: number | null;
+  delivery_stop_index?: number | null;
+}
+
 export interface TripExpense {
   id: string;
   owner_id: string;
@@ -161,6 +193,8 @@ export interface TripExpense {
   category: TripExpenseCategory;
   description: string | null;
   amount: number;
+  gallons?: number | null;
+  fuel_state?: string | null;
   incurred_at: string;
   expense_type?: string | null;
   paid_by?: 'driver_personal' | 'driver_cash' | 'company_card' | 'fuel_card' | null;
@@ -676,9 +710,12 @@ export async function createTrip(input: NewTripInput, userId: string): Promise<T
     share_driver_with_companies: input.share_driver_with_companies ?? true,
   };
 
+  // Store coordinates so matching and the trip map don't geocode on read
+  const coordinates = await geocodeTripCoordinates(payload);
+
   const { data, error } = await supabase
     .from('trips')
-    .insert(payload)
+    .insert({ ...payload, ...coordinates })
     .select(
       `
       *,
@@ -731,7 +768,7 @@ export async function updateTrip(
   // EQUIPMENT INHERITANCE: Also fetch truck_id and trailer_id to detect changes
   const { data: currentTrip, error: fetchError } = await supabase
     .from('trips')
-    .select('status, driver_id, truck_id, trailer_id, odometer_start, odometer_end, odometer_start_photo_url, odometer_end_photo_url')
+    .select('status, driver_id, truck_id, trailer_id, odometer_start, odometer_end, odometer_start_photo_url, odometer_end_photo_url, origin_city, origin_state, origin_postal_code, destination_city, destination_state, destination_postal_code')
     .eq('id', id)
     .eq('owner_id', userId)
     .single();
@@ -874,6 +911,19 @@ export async function updateTrip(
   if (input.odometer_end_photo_url !== undefined) payload.odometer_end_photo_url = nullable(input.odometer_end_photo_url);
   if (input.notes !== undefined) payload.notes = nullable(input.notes);
 
+  // Re-geocode when either end of the trip moves
+  const addressChanged = [
+    'origin_city',
+    'origin_state',
+    'origin_postal_code',
+    'destination_city',
+    'destination_state',
+    'destination_postal_code',
+  ].some((field) => field in payload);
+  if (addressChanged) {
+    Object.assign(payload, await geocodeTripCoordinates({ ...currentTrip, ...payload }));
+  }
+
   const { data, error } = await supabase
     .from('trips')
     .update(payload)
@@ -1554,7 +1604,7 @@ export async function removeLoadFromTrip(tripId: string, loadId: string, userId:
 
 export async function reorderTripLoads(
   tripId: string,
-  items: { load_id: string; sequence_index: number }[],
+  items: TripLoadOrderItem[],
   userId: string
 ): Promise<void> {
   if (!items.length) return;
@@ -1562,11 +1612,16 @@ export async function reorderTripLoads(
   const supabase = await createClient();
   await assertOwnership(supabase, 'trips', tripId, userId, 'Trip');
 
-  // Update sequence_index on trip_loads
+  // Update sequence_index on trip_loads. Stop positions come from route
+  // optimization; a manual reorder clears them back to pickups-first.
   const tripLoadUpdates = items.map((item) =>
     supabase
       .from('trip_loads')
-      .update({ sequence_index: item.sequence_index })
+      .update({
+        sequence_index: item.sequence_index,
+        pickup_stop_index: item.pickup_stop_index ?? null,
+        delivery_stop_index: item.delivery_stop_index ?? null,
+      })
       .eq('trip_id', tripId)
       .eq('load_id', item.load_id)
       .eq('owner_id', userId)
@@ -1686,6 +1741,8 @@ export async function createTripExpense(
     category: input.category,
     description: nullable(input.description),
     amount: input.amount,
+    gallons: nullable(input.gallons),
+    fuel_state: nullable(input.fuel_state),
     incurred_at: normalizeDate(input.incurred_at) ?? new Date().toISOString().split('T')[0],
     expense_type: nullable(input.expense_type),
     paid_by: nullable(input.paid_by as any),
@@ -1785,6 +1842,8 @@ export async function updateTripExpense(
   if (input.category !== undefined) updatePayload.category = input.category;
   if (input.description !== undefined) updatePayload.description = nullable(input.description);
   if (input.amount !== undefined) updatePayload.amount = input.amount;
+  if (input.gallons !== undefined) updatePayload.gallons = input.gallons;
+  if (input.fuel_state !== undefined) updatePayload.fuel_state = input.fuel_state;
   if (input.incurred_at !== undefined) {
     updatePayload.incurred_at = normalizeDate(input.incurred_at) ?? new Date().toISOString().split('T')[0];
   }
@@ -1,7 +1,21 @@
 'use client';
 
 import { generateCSV, downloadCSV, formatters, ExportColumn } from '@/lib/export/csv';
-import { generatePDF, downloadPDF, PDFColumn } from '@/lib/export/pdf';
+import {
+  generatePDF,
+  generateInvoicePDF,
+  generateDriverStatementPDF,
+  generateLoadInventoryPDF,
+  generateIftaSummaryPDF,
+  generateProofOfServicePDF,
+  downloadPDF,
+  PDFColumn,
+  InvoicePDFOptions,
+  DriverStatementPDFOptions,
+  LoadInventoryPDFOptions,
+  IftaSummaryPDFOptions,
+  ProofOfServicePDFOptions,
+} from '@/lib/export/pdf';
 
 // ============================================
 // LOADS EXPORT
@@ -384,3 +398,75 @@ export function exportComplianceToPDF(
 
   downloadPDF(doc, options.filename || 'compliance-report');
 }
+
+// ============================================
+// INVOICE EXPORT
+// ============================================
+
+export function exportInvoiceToPDF(options: InvoicePDFOptions) {
+  const doc = generateInvoicePDF(options);
+  downloadPDF(doc, options.invoice.invoice_number);
+}
+
+// ============================================
+// DRIVER STATEMENT EXPORT
+// ============================================
+
+export function exportDriverStatementToPDF(options: DriverStatementPDFOptions) {
+  const doc = generateDriverStatementPDF(options);
+  downloadPDF(doc, options.statement.statement_number);
+}
+
+// ============================================
+// LOAD INVENTORY EXPORT
+// ============================================
+
+export function exportLoadInventoryToPDF(options: LoadInventoryPDFOptions) {
+  const doc = generateLoadInventoryPDF(options);
+  downloadPDF(doc, `inventory-${options.loadNumber}`);
+}
+
+// ============================================
+// IFTA EXPORT
+// ============================================
+
+export interface IftaExportData {
+  jurisdiction: string;
+  miles: number;
+  taxable_gallons: number;
+  tax_paid_gallons: number;
+  net_taxable_gallons: number;
+  rate_per_gallon: number;
+  surcharge_per_gallon: number;
+  tax_due: number;
+}
+
+const iftaColumns: ExportColumn[] = [
+  { key: 'jurisdiction', header: 'Jurisdiction' },
+  { key: 'miles', header: 'Total Miles' },
+  { key: 'taxable_gallons', header: 'Taxable Gallons' },
+  { key: 'tax_paid_gallons', header: 'Tax-Paid Gallons' },
+  { key: 'net_taxable_gallons', header: 'Net Taxable Gallons' },
+  { key: 'rate_per_gallon', header: 'Tax Rate' },
+  { key: 'surcharge_per_gallon', header: 'Surcharge Rate' },
+  { key: 'tax_due', header: 'Tax Due (Credit)', format: (value: number) => value.toFixed(2) },
+];
+
+export function exportIftaToCSV(lines: IftaExportData[], filename: string = 'ifta') {
+  const csv = generateCSV(lines, iftaColumns);
+  downloadCSV(csv, filename);
+}
+
+export function exportIftaToPDF(options: IftaSummaryPDFOptions, filename: string = 'ifta') {
+  const doc = generateIftaSummaryPDF(options);
+  downloadPDF(doc, filename);
+}
+
+// ============================================
+// PROOF OF SERVICE EXPORT
+// ============================================
+
+export function exportProofOfServiceToPDF(options: ProofOfServicePDFOptions, filename: string) {
+  const doc = generateProofOfServicePDF(options);
+  downloadPDF(doc, filename);
+}
@@ -1,8 +1,8 @@
 import { useState, useCallback } from 'react';
+import { geocodeZipCode } from '@/lib/geocoding';
 
 interface ZipLookupResult {
   city: string;
-  state: string;
   stateAbbr: string;
 }
 
@@ -36,33 +36,28 @@ export function useZipLookup(): UseZipLookupReturn {
     setError(null);
 
     try {
-      const response = await fetch(`https://api.zippopotam.us/us/${cleanZip}`);
+      const response = await fetch(`/api/zip-lookup?postal_code=${cleanZip}&country=US`);
 
       if (!response.ok) {
-        if (response.status === 404) {
-          setError('Invalid zip code');
-          return null;
-        }
         throw new Error('Failed to lookup zip code');
       }
 
       const data = await response.json();
 
-      if (data.places && data.places.length > 0) {
-        const place = data.places[0];
-        const result: ZipLookupResult = {
-          city: place['place name'],
-          state: place['state'],
-          stateAbbr: place['state abbreviation'],
-        };
+      if (!data.city || !data.state) {
+        setError('Invalid zip code');
+        return null;
+      }
 
-        // Cache the result
-        zipCache.set(cleanZip, result);
+      const result: ZipLookupResult = {
+        city: data.city,
+        stateAbbr: data.state,
+      };
 
-        return result;
-      }
+      // Cache the result
+      zipCache.set(cleanZip, result);
 
-      return null;
+      return result;
     } catch (err) {
       setError('Failed to lookup zip code');
       return null;
@@ -76,32 +71,13 @@ export function useZipLookup(): UseZipLookupReturn {
 
 // Standalone function for server-side or one-off lookups
 export async function lookupZip(zip: string): Promise<ZipLookupResult | null> {
-  const cleanZip = zip.replace(/\D/g, '').slice(0, 5);
-
-  if (cleanZip.length !== 5) {
+  const result = await geocodeZipCode(zip.replace(/\D/g, '').slice(0, 5));
+  if (!result.success || !result.coordinates?.city || !result.coordinates.state) {
     return null;
   }
 
-  try {
-    const response = await fetch(`https://api.zippopotam.us/us/${cleanZip}`);
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
-
-    if (data.places && data.places.length > 0) {
-      const place = data.places[0];
-      return {
-        city: place['place name'],
-        state: place['state'],
-        stateAbbr: place['state abbreviation'],
-      };
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
+  return {
+    city: result.coordinates.city,
+    stateAbbr: result.coordinates.state,
+  };
 }
@@ -36,6 +36,10 @@ export type AuditAction =
   | 'carrier_request_rejected'
   | 'carrier_request_submitted'
   | 'carrier_request_withdrawn'
+  | 'carrier_request_countered'
+  | 'carrier_request_agreed'
+  | 'carrier_auto_awarded'
+  | 'auto_award_reposted'
   | 'load_created'
   | 'load_updated'
   | 'load_deleted'
@@ -43,6 +47,7 @@ export type AuditAction =
   | 'load_status_changed'
   | 'added_to_trip'
   | 'removed_from_trip'
+  | 'geofence_arrival_recorded'
   // Partnership actions
   | 'partnership_created'
   | 'partnership_upgraded'
@@ -54,6 +59,17 @@ export type AuditAction =
   // Settlement actions
   | 'settlement_created'
   | 'settlement_recalculated'
+  // Invoice actions
+  | 'invoice_created'
+  | 'invoice_sent'
+  | 'invoice_voided'
+  // Payment actions
+  | 'payment_recorded'
+  | 'payment_voided'
+  // Claim actions
+  | 'claim_filed'
+  | 'claim_status_changed'
+  | 'claim_settled'
   // Upload/photo actions
   | 'photo_uploaded'
   | 'photo_deleted'
@@ -0,0 +1,150 @@
+/**
+ * Trailer load planning: cubic feet on board after each stop of a trip's
+ * sequence, against the trailer's capacity
+ */
+
+import type { RouteStop } from '@/lib/route-optimizer';
+
+export interface CapacityLoad {
+  id: string;
+  load_number: string;
+  pickup_label: string;
+  delivery_label: string;
+  estimated_cuft: number;
+  // Measured at loading; null until the driver records it
+  actual_cuft: number | null;
+  // Already on the trailer, so only the delivery is left
+  picked_up: boolean;
+  // Marketplace load being tried before it's requested
+  what_if?: boolean;
+}
+
+export interface CapacityStop extends RouteStop {
+  load_number: string;
+  label: string;
+  // Cubic feet added (pickup) or removed (delivery) at this stop
+  change_cuft: number;
+  estimated_onboard_cuft: number;
+  // Actual cubic feet where recorded, estimates otherwise
+  onboard_cuft: number;
+  // Null when the trip has no trailer or truck capacity on file
+  utilization_percent: number | null;
+  overloaded: boolean;
+  what_if: boolean;
+}
+
+export interface CapacityOverload {
+  // 1-based position in the stop sequence
+  stop_number: number;
+  load_number: string;
+  label: string;
+  over_by_cuft: number;
+}
+
+export interface CapacityTimeline {
+  capacity_cuft: number;
+  // On the trailer before the first stop
+  starting_cuft: number;
+  starting_estimated_cuft: number;
+  stops: CapacityStop[];
+  peak_cuft: number;
+  peak_utilization_percent: number | null;
+  overloads: CapacityOverload[];
+}
+
+/**
+ * Running trailer fill for a stop sequence. Loads already on the trailer
+ * count from the start; their pickups aren't part of the sequence.
+ */
+export function buildCapacityTimeline(
+  capacityCuft: number,
+  loads: CapacityLoad[],
+  stops: RouteStop[]
+): CapacityTimeline {
+  const loadsById = new Map(loads.map((load) => [load.id, load]));
+  const onTrailer = loads.filter((load) => load.picked_up);
+
+  let onboard = onTrailer.reduce((sum, load) => sum + loadedCuft(load), 0);
+  let estimatedOnboard = onTrailer.reduce((sum, load) => sum + load.estimated_cuft, 0);
+  const startingCuft = onboard;
+  const startingEstimatedCuft = estimatedOnboard;
+  let peak = onboard;
+
+  const timelineStops: CapacityStop[] = [];
+  const overloads: CapacityOverload[] = [];
+
+  for (const stop of stops) {
+    const load = loadsById.get(stop.load_id);
+    if (!load) continue;
+
+    const sign = stop.type === 'pickup' ? 1 : -1;
+    onboard += sign * loadedCuft(load);
+    estimatedOnboard += sign * load.estimated_cuft;
+    peak = Math.max(peak, onboard);
+
+    const overloaded = capacityCuft > 0 && onboard > capacityCuft;
+    timelineStops.push({
+      ...stop,
+      load_number: load.load_number,
+      label: stop.type === 'pickup' ? load.pickup_label : load.delivery_label,
+      change_cuft: sign * loadedCuft(load),
+      estimated_onboard_cuft: estimatedOnboard,
+      onboard_cuft: onboard,
+      utilization_percent: utilization(onboard, capacityCuft),
+      overloaded,
+      what_if: !!load.what_if,
+    });
+
+    if (overloaded) {
+      overloads.push({
+        stop_number: timelineStops.length,
+        load_number: load.load_number,
+        label: timelineStops[timelineStops.length - 1].label,
+        over_by_cuft: onboard - capacityCuft,
+      });
+    }
+  }
+
+  return {
+    capacity_cuft: capacityCuft,
+    starting_cuft: startingCuft,
+    starting_estimated_cuft: startingEstimatedCuft,
+    stops: timelineStops,
+    peak_cuft: peak,
+    peak_utilization_percent: utilization(peak, capacityCuft),
+    overloads,
+  };
+}
+
+/**
+ * The stop sequence with a what-if load's pickup inserted before stop
+ * `pickupPosition` and its delivery before stop `deliveryPosition` of the
+ * original sequence (positions past the end append). The delivery never
+ * lands ahead of the pickup.
+ */
+export function insertWhatIfStops(
+  stops: RouteStop[],
+  loadId: string,
+  pickupPosition: number,
+  deliveryPosition: number
+): RouteStop[] {
+  const pickupAt = clamp(pickupPosition, 0, stops.length);
+  const deliveryAt = clamp(deliveryPosition, pickupAt, stops.length);
+
+  const result = [...stops];
+  result.splice(deliveryAt, 0, { load_id: loadId, type: 'delivery' });
+  result.splice(pickupAt, 0, { load_id: loadId, type: 'pickup' });
+  return result;
+}
+
+function loadedCuft(load: CapacityLoad): number {
+  return load.actual_cuft ?? load.estimated_cuft;
+}
+
+function utilization(cuft: number, capacityCuft: number): number | null {
+  return capacityCuft > 0 ? Math.round((cuft / capacityCuft) * 100) : null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,78 @@
+import { cache } from 'react';
+import { cookies, headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { getPortalSessionByToken, type PortalRequestMeta } from '@/data/company-portal-auth';
+import {
+  portalRoleAllows,
+  type CompanyPortalSession,
+  type PortalPermission,
+} from '@/data/company-portal-auth-shared';
+
+/**
+ * Company portal session helpers. The company_session cookie holds an opaque
+ * session token; everything else (company, role, expiry) is looked up server
+ * side on each request.
+ */
+
+export const COMPANY_SESSION_COOKIE = 'company_session';
+
+// Cached per request so the layout, notification bell and page share one lookup
+export const getCompanyPortalSession = cache(async (): Promise<CompanyPortalSession | null> => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(COMPANY_SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  return getPortalSessionByToken(token);
+});
+
+export async function requireCompanyPortalSession(): Promise<CompanyPortalSession> {
+  const session = await getCompanyPortalSession();
+  if (!session) redirect('/company-login');
+  return session;
+}
+
+/**
+ * For server actions: the signed-in portal user, or an error when they're
+ * signed out or their role doesn't allow the action.
+ */
+export async function authorizePortalAction(
+  permission?: PortalPermission
+): Promise<{ session: CompanyPortalSession; error?: undefined } | { session?: undefined; error: string }> {
+  const session = await getCompanyPortalSession();
+  if (!session) return { error: 'Your session has expired. Please sign in again.' };
+
+  if (permission && !portalRoleAllows(session.role, permission)) {
+    return { error: "Your portal role doesn't allow this. Ask your carrier for more access." };
+  }
+
+  return { session };
+}
+
+export async function setCompanyPortalSessionCookie(token: string, expiresAt: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(COMPANY_SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: new Date(expiresAt),
+    path: '/',
+  });
+}
+
+export async function getCompanyPortalSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(COMPANY_SESSION_COOKIE)?.value ?? null;
+}
+
+export async function clearCompanyPortalSessionCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(COMPANY_SESSION_COOKIE);
+}
+
+export async function getPortalRequestMeta(): Promise<PortalRequestMeta> {
+  const headersList = await headers();
+  return {
+    ip: headersList.get('x-forwarded-for')?.split(',')[0]?.trim() || null,
+    userAgent: headersList.get('user-agent'),
+  };
+}
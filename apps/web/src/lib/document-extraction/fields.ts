@@ -0,0 +1,125 @@
+import type { NewLoadInput } from '@/data/loads';
+
+// ============================================================================
+// DOCUMENT EXTRACTION - FIELD CATALOG (client-safe)
+// ============================================================================
+// Every field the scanner can pull off a moving contract, rate confirmation or
+// loading report. Keys are newLoadInputSchema keys, so reviewed values drop
+// straight into the load form.
+// ============================================================================
+
+export type ExtractionDocumentType = 'contract' | 'rate_confirmation' | 'loading_report';
+
+export const EXTRACTION_DOCUMENT_LABELS: Record<ExtractionDocumentType, string> = {
+  contract: 'Moving Contract / Bill of Lading',
+  rate_confirmation: 'Rate Confirmation',
+  loading_report: 'Loading Report',
+};
+
+export type ExtractedFieldKind = 'text' | 'phone' | 'state' | 'postal_code' | 'date' | 'money' | 'number' | 'integer';
+
+export const EXTRACTABLE_LOAD_FIELD_KEYS = [
+  'internal_reference',
+  'customer_name',
+  'customer_phone',
+  'pickup_address_line1',
+  'pickup_city',
+  'pickup_state',
+  'pickup_postal_code',
+  'pickup_date',
+  'delivery_address_line1',
+  'delivery_address_line2',
+  'delivery_city',
+  'delivery_state',
+  'delivery_postal_code',
+  'delivery_address_full',
+  'delivery_date',
+  'rfd_date',
+  'cubic_feet',
+  'actual_cuft_loaded',
+  'rate_per_cuft',
+  'weight_lbs_estimate',
+  'pieces_count',
+  'balance_due',
+  'contract_accessorials_shuttle',
+  'contract_accessorials_stairs',
+  'contract_accessorials_long_carry',
+  'contract_accessorials_bulky',
+  'contract_accessorials_packing',
+  'contract_accessorials_other',
+  'contract_accessorials_total',
+  'contract_notes',
+] as const;
+
+export type ExtractableLoadField = (typeof EXTRACTABLE_LOAD_FIELD_KEYS)[number] & keyof NewLoadInput;
+
+export interface ExtractableFieldDefinition {
+  label: string;
+  kind: ExtractedFieldKind;
+  /** What the reader should look for, used in the extraction prompt */
+  hint: string;
+}
+
+export const EXTRACTABLE_LOAD_FIELDS: Record<ExtractableLoadField, ExtractableFieldDefinition> = {
+  internal_reference: { label: 'Job / Reference #', kind: 'text', hint: "the shipper's job, order or registration number" },
+  customer_name: { label: 'Customer Name', kind: 'text', hint: 'the shipper/customer being moved' },
+  customer_phone: { label: 'Customer Phone', kind: 'phone', hint: "the customer's phone number" },
+  pickup_address_line1: { label: 'Origin Street', kind: 'text', hint: 'origin street address' },
+  pickup_city: { label: 'Origin City', kind: 'text', hint: 'origin city' },
+  pickup_state: { label: 'Origin State', kind: 'state', hint: 'origin state, 2-letter code' },
+  pickup_postal_code: { label: 'Origin ZIP', kind: 'postal_code', hint: 'origin ZIP code' },
+  pickup_date: { label: 'Pickup Date', kind: 'date', hint: 'pickup/load date' },
+  delivery_address_line1: { label: 'Delivery Street', kind: 'text', hint: 'destination street address' },
+  delivery_address_line2: { label: 'Delivery Unit', kind: 'text', hint: 'apartment, suite or unit' },
+  delivery_city: { label: 'Delivery City', kind: 'text', hint: 'destination city' },
+  delivery_state: { label: 'Delivery State', kind: 'state', hint: 'destination state, 2-letter code' },
+  delivery_postal_code: { label: 'Delivery ZIP', kind: 'postal_code', hint: 'destination ZIP code' },
+  delivery_address_full: { label: 'Delivery Address', kind: 'text', hint: 'the full destination address on one line' },
+  delivery_date: { label: 'Delivery Date', kind: 'date', hint: 'requested or first available delivery date' },
+  rfd_date: { label: 'RFD Date', kind: 'date', hint: 'ready-for-delivery date (when the customer can first accept delivery)' },
+  cubic_feet: { label: 'Cubic Feet', kind: 'number', hint: 'estimated or rated cubic feet' },
+  actual_cuft_loaded: { label: 'Actual CuFt Loaded', kind: 'number', hint: 'cubic feet actually loaded, from a loading report' },
+  rate_per_cuft: { label: 'Rate per CuFt', kind: 'money', hint: 'rate per cubic foot paid for the haul' },
+  weight_lbs_estimate: { label: 'Weight (lbs)', kind: 'integer', hint: 'estimated or actual weight in pounds' },
+  pieces_count: { label: 'Pieces', kind: 'integer', hint: 'number of pieces/items' },
+  balance_due: { label: 'Balance Due on Delivery', kind: 'money', hint: 'amount the customer still owes at delivery (not the total estimate)' },
+  contract_accessorials_shuttle: { label: 'Shuttle', kind: 'money', hint: 'shuttle charge' },
+  contract_accessorials_stairs: { label: 'Stairs', kind: 'money', hint: 'stair/flight carry charge' },
+  contract_accessorials_long_carry: { label: 'Long Carry', kind: 'money', hint: 'long carry charge' },
+  contract_accessorials_bulky: { label: 'Bulky Items', kind: 'money', hint: 'bulky article charges' },
+  contract_accessorials_packing: { label: 'Packing', kind: 'money', hint: 'packing and materials charges' },
+  contract_accessorials_other: { label: 'Other Accessorials', kind: 'money', hint: 'any other accessorial charges combined' },
+  contract_accessorials_total: { label: 'Accessorials Total', kind: 'money', hint: 'total of all accessorial charges' },
+  contract_notes: { label: 'Contract Notes', kind: 'text', hint: 'special instructions, access notes or remarks' },
+};
+
+export const CONTRACT_ACCESSORIAL_FIELDS = [
+  'contract_accessorials_shuttle',
+  'contract_accessorials_stairs',
+  'contract_accessorials_long_carry',
+  'contract_accessorials_bulky',
+  'contract_accessorials_packing',
+  'contract_accessorials_other',
+] as const;
+
+export interface ExtractedField {
+  value: string | number;
+  /** 0-1, how sure the reader is that the value was read correctly */
+  confidence: number;
+}
+
+export type ExtractedLoadFields = Partial<Record<ExtractableLoadField, ExtractedField>>;
+
+export interface LoadDocumentExtraction {
+  document_type: ExtractionDocumentType;
+  fields: ExtractedLoadFields;
+  /** Fields below LOW_CONFIDENCE_THRESHOLD that need a human look */
+  low_confidence: ExtractableLoadField[];
+}
+
+// Anything under this is flagged on the review screen instead of trusted
+export const LOW_CONFIDENCE_THRESHOLD = 0.75;
+
+export function isLowConfidence(field: ExtractedField | undefined): boolean {
+  return !!field && field.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
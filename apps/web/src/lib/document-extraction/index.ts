@@ -0,0 +1,200 @@
+import { newLoadInputSchema } from '@/data/loads';
+import {
+  CONTRACT_ACCESSORIAL_FIELDS,
+  EXTRACTABLE_LOAD_FIELDS,
+  EXTRACTABLE_LOAD_FIELD_KEYS,
+  LOW_CONFIDENCE_THRESHOLD,
+  isLowConfidence,
+  type ExtractableLoadField,
+  type ExtractedField,
+  type ExtractedLoadFields,
+  type ExtractionDocumentType,
+  type LoadDocumentExtraction,
+} from './fields';
+import {
+  getDocumentExtractionProvider,
+  type DocumentExtractionProvider,
+  type ExtractionMediaType,
+} from './providers';
+
+export * from './fields';
+export type { DocumentExtractionProvider, DocumentExtractionRequest, ExtractionMediaType } from './providers';
+export { createAnthropicExtractionProvider, createStubExtractionProvider } from './providers';
+
+// ============================================================================
+// DOCUMENT EXTRACTION - PIPELINE
+// ============================================================================
+// file -> provider (model call) -> per-field normalization -> schema check.
+// Values that don't survive newLoadInputSchema are dropped rather than shown.
+// ============================================================================
+
+const SUPPORTED_MEDIA_TYPES: ExtractionMediaType[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+];
+
+const DOCUMENT_DESCRIPTIONS: Record<ExtractionDocumentType, string> = {
+  contract:
+    'a household goods moving contract or bill of lading (customer, origin, destination, estimate, accessorial charges and balance due)',
+  rate_confirmation:
+    'a carrier rate confirmation from a moving company or van line (route, dates, cubic feet and agreed rate)',
+  loading_report:
+    'a moving company loading report (actual cubic feet loaded, rate, balance due on delivery and job number)',
+};
+
+export function isExtractionDocumentType(value: unknown): value is ExtractionDocumentType {
+  return value === 'contract' || value === 'rate_confirmation' || value === 'loading_report';
+}
+
+export function buildExtractionPrompt(documentType: ExtractionDocumentType): string {
+  const fieldLines = EXTRACTABLE_LOAD_FIELD_KEYS.map(
+    (key) => `- ${key}: ${EXTRACTABLE_LOAD_FIELDS[key].hint} (${EXTRACTABLE_LOAD_FIELDS[key].kind})`
+  ).join('\n');
+
+  return `This is ${DOCUMENT_DESCRIPTIONS[documentType]}.
+
+Extract these fields:
+${fieldLines}
+
+Return ONLY a JSON object, no other text. Use the field names above as keys. Each value must be an object:
+{"value": <string or number>, "confidence": <0 to 1>}
+
+Rules:
+- confidence is how sure you are the value is read correctly. Use below ${LOW_CONFIDENCE_THRESHOLD} for smudged, handwritten, cut-off or ambiguous values.
+- Omit fields that are not on the document. Never guess a value that isn't printed or written.
+- money and number fields: just the number, no $ sign or commas.
+- date fields: YYYY-MM-DD.
+- state fields: the 2-letter US state code.`;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = Number(value.replace(/[$,\s]/g, ''));
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalizeValue(key: ExtractableLoadField, value: unknown): string | number | null {
+  const { kind } = EXTRACTABLE_LOAD_FIELDS[key];
+  const numeric = toNumber(value);
+
+  switch (kind) {
+    case 'money':
+      return numeric === null ? null : Number(numeric.toFixed(2));
+    case 'number':
+      return numeric;
+    case 'integer':
+      return numeric === null ? null : Math.round(numeric);
+    case 'date': {
+      if (typeof value !== 'string') return null;
+      if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return value.trim();
+      const parsed = new Date(value);
+      return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+    }
+    case 'state':
+      return typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : null;
+    case 'postal_code':
+      if (typeof value === 'number') return String(value).padStart(5, '0');
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
+    default:
+      if (typeof value === 'number') return String(value);
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+}
+
+function normalizeConfidence(value: unknown): number {
+  const confidence = toNumber(value);
+  // A reader that forgot to score a value gets it reviewed
+  if (confidence === null) return 0.5;
+  return Math.min(1, Math.max(0, confidence));
+}
+
+export function normalizeExtractedFields(raw: Record<string, unknown>): ExtractedLoadFields {
+  const fields: ExtractedLoadFields = {};
+
+  for (const key of EXTRACTABLE_LOAD_FIELD_KEYS) {
+    const entry = raw[key];
+    if (entry === null || entry === undefined) continue;
+
+    // Tolerate readers that return bare values instead of {value, confidence}
+    const { value, confidence } =
+      typeof entry === 'object' && !Array.isArray(entry)
+        ? (entry as { value?: unknown; confidence?: unknown })
+        : { value: entry, confidence: undefined };
+
+    const normalized = normalizeValue(key, value);
+    if (normalized === null) continue;
+
+    const checked = newLoadInputSchema.shape[key].safeParse(normalized);
+    if (!checked.success || checked.data === undefined) continue;
+
+    fields[key] = { value: normalized, confidence: normalizeConfidence(confidence) };
+  }
+
+  // Accessorial lines and their printed total should agree; when they don't,
+  // the total is the one to check, so it's pushed under the review threshold.
+  const accessorials = CONTRACT_ACCESSORIAL_FIELDS.map((key) => fields[key]).filter(
+    (field): field is ExtractedField => !!field
+  );
+  if (accessorials.length > 0) {
+    const sum = Number(accessorials.reduce((total, field) => total + Number(field.value), 0).toFixed(2));
+    const lowest = Math.min(...accessorials.map((field) => field.confidence));
+    const total = fields.contract_accessorials_total;
+
+    if (!total) {
+      fields.contract_accessorials_total = { value: sum, confidence: lowest };
+    } else if (Math.abs(Number(total.value) - sum) > 1) {
+      total.confidence = Math.min(total.confidence, LOW_CONFIDENCE_THRESHOLD - 0.05);
+    }
+  }
+
+  if (!fields.delivery_address_full) {
+    const parts = (
+      ['delivery_address_line1', 'delivery_address_line2', 'delivery_city', 'delivery_state', 'delivery_postal_code'] as const
+    )
+      .map((key) => fields[key])
+      .filter((field): field is ExtractedField => !!field);
+    if (parts.length >= 2) {
+      fields.delivery_address_full = {
+        value: parts.map((field) => field.value).join(', '),
+        confidence: Math.min(...parts.map((field) => field.confidence)),
+      };
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Reads a load document and returns every field it could map onto
+ * newLoadInputSchema, each with a confidence score.
+ */
+export async function extractLoadDocument(
+  file: File,
+  documentType: ExtractionDocumentType,
+  provider: DocumentExtractionProvider = getDocumentExtractionProvider()
+): Promise<{ success: true; extraction: LoadDocumentExtraction } | { success: false; error: string }> {
+  const mediaType = (file.type === 'image/jpg' ? 'image/jpeg' : file.type) as ExtractionMediaType;
+  if (!SUPPORTED_MEDIA_TYPES.includes(mediaType)) {
+    return { success: false, error: 'Upload a photo (JPEG, PNG, GIF, WebP) or a PDF' };
+  }
+
+  const arrayBuffer = await file.arrayBuffer();
+  const raw = await provider.extract({
+    documentType,
+    data: Buffer.from(arrayBuffer).toString('base64'),
+    mediaType,
+    prompt: buildExtractionPrompt(documentType),
+  });
+
+  const fields = normalizeExtractedFields(raw);
+  const lowConfidence = EXTRACTABLE_LOAD_FIELD_KEYS.filter((key) => isLowConfidence(fields[key]));
+
+  return {
+    success: true,
+    extraction: { document_type: documentType, fields, low_confidence: lowConfidence },
+  };
+}
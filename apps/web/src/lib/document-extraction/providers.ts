@@ -0,0 +1,140 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { ExtractionDocumentType } from './fields';
+
+// ============================================================================
+// DOCUMENT EXTRACTION - MODEL PROVIDERS
+// ============================================================================
+// The pipeline only needs "image + prompt in, JSON object out", so the model
+// call sits behind this interface. OCR_PROVIDER=stub swaps in canned results
+// for local development and tests without an API key.
+// ============================================================================
+
+export type ExtractionMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'application/pdf';
+
+export interface DocumentExtractionRequest {
+  documentType: ExtractionDocumentType;
+  /** Base64-encoded file contents */
+  data: string;
+  mediaType: ExtractionMediaType;
+  prompt: string;
+}
+
+export interface DocumentExtractionProvider {
+  readonly name: string;
+  /** Returns the raw JSON object the model produced; the pipeline validates it */
+  extract(request: DocumentExtractionRequest): Promise<Record<string, unknown>>;
+}
+
+// ============================================================================
+// ANTHROPIC (Claude vision)
+// ============================================================================
+
+export function createAnthropicExtractionProvider(
+  apiKey = process.env.ANTHROPIC_API_KEY
+): DocumentExtractionProvider {
+  const anthropic = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    async extract({ data, mediaType, prompt }) {
+      const message = await anthropic.messages.create({
+        model: 'claude-sonnet-4-20250514',
+        max_tokens: 4096,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              mediaType === 'application/pdf'
+                ? { type: 'document', source: { type: 'base64', media_type: mediaType, data } }
+                : { type: 'image', source: { type: 'base64', media_type: mediaType, data } },
+              { type: 'text', text: prompt },
+            ],
+          },
+        ],
+      });
+
+      const responseText = message.content[0]?.type === 'text' ? message.content[0].text : '';
+
+      // Extract JSON from the response
+      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('Could not parse document. Please enter details manually.');
+      }
+
+      const parsed: unknown = JSON.parse(jsonMatch[0]);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Could not parse document. Please enter details manually.');
+      }
+      return parsed as Record<string, unknown>;
+    },
+  };
+}
+
+// ============================================================================
+// STUB (local development and tests)
+// ============================================================================
+
+const STUB_RESULTS: Record<ExtractionDocumentType, Record<string, unknown>> = {
+  contract: {
+    internal_reference: { value: 'JOB-48213', confidence: 0.96 },
+    customer_name: { value: 'Jordan Avery', confidence: 0.97 },
+    customer_phone: { value: '(555) 201-7788', confidence: 0.9 },
+    pickup_city: { value: 'Columbus', confidence: 0.93 },
+    pickup_state: { value: 'OH', confidence: 0.95 },
+    pickup_postal_code: { value: '43215', confidence: 0.88 },
+    pickup_date: { value: '2026-11-02', confidence: 0.86 },
+    delivery_address_line1: { value: '1420 Willow Bend Dr', confidence: 0.82 },
+    delivery_city: { value: 'Austin', confidence: 0.94 },
+    delivery_state: { value: 'TX', confidence: 0.95 },
+    delivery_postal_code: { value: '78745', confidence: 0.61 },
+    rfd_date: { value: '2026-11-06', confidence: 0.7 },
+    cubic_feet: { value: 850, confidence: 0.91 },
+    weight_lbs_estimate: { value: 5950, confidence: 0.84 },
+    balance_due: { value: 3240.5, confidence: 0.78 },
+    contract_accessorials_shuttle: { value: 350, confidence: 0.8 },
+    contract_accessorials_stairs: { value: 120, confidence: 0.55 },
+    contract_accessorials_total: { value: 470, confidence: 0.8 },
+    contract_notes: { value: 'Gate code 4412. Call 30 minutes ahead.', confidence: 0.74 },
+  },
+  rate_confirmation: {
+    internal_reference: { value: 'RC-20931', confidence: 0.95 },
+    pickup_city: { value: 'Denver', confidence: 0.94 },
+    pickup_state: { value: 'CO', confidence: 0.96 },
+    delivery_city: { value: 'Phoenix', confidence: 0.93 },
+    delivery_state: { value: 'AZ', confidence: 0.96 },
+    delivery_postal_code: { value: '85004', confidence: 0.72 },
+    pickup_date: { value: '2026-11-10', confidence: 0.88 },
+    rfd_date: { value: '2026-11-12', confidence: 0.83 },
+    cubic_feet: { value: 1200, confidence: 0.92 },
+    rate_per_cuft: { value: 3.15, confidence: 0.68 },
+  },
+  loading_report: {
+    internal_reference: { value: 'JOB-48213', confidence: 0.93 },
+    actual_cuft_loaded: { value: 880, confidence: 0.89 },
+    rate_per_cuft: { value: 3.4, confidence: 0.81 },
+    balance_due: { value: 3240.5, confidence: 0.72 },
+    pieces_count: { value: 112, confidence: 0.77 },
+    contract_accessorials_bulky: { value: 150, confidence: 0.66 },
+  },
+};
+
+export function createStubExtractionProvider(
+  results: Partial<Record<ExtractionDocumentType, Record<string, unknown>>> = {}
+): DocumentExtractionProvider {
+  return {
+    name: 'stub',
+    async extract({ documentType }) {
+      return results[documentType] ?? STUB_RESULTS[documentType];
+    },
+  };
+}
+
+let defaultProvider: DocumentExtractionProvider | null = null;
+
+export function getDocumentExtractionProvider(): DocumentExtractionProvider {
+  if (!defaultProvider) {
+    defaultProvider =
+      process.env.OCR_PROVIDER === 'stub' ? createStubExtractionProvider() : createAnthropicExtractionProvider();
+  }
+  return defaultProvider;
+}
@@ -8,6 +8,9 @@ import {
   partnershipInvitationEmail,
   PartnershipInvitationEmailData,
 } from './templates/partnership-invitation';
+import { savedSearchDigestEmail, SavedSearchDigestEmailData } from './templates/saved-search-digest';
+import { customerTrackingEmail, CustomerTrackingEmailData } from './templates/customer-tracking';
+import { companyPortalEmail, CompanyPortalEmailData } from './templates/company-portal';
 import { createClient } from '@/lib/supabase-server';
 
 // Get user email preferences
@@ -537,3 +540,61 @@ export async function sendPartnershipInvitationEmail(data: {
   console.log('[Partnership Email] Send result:', result);
   return result;
 }
+
+// ============================================
+// SAVED SEARCH NOTIFICATIONS
+// ============================================
+
+// Called from the digest job, which runs without a user session, so the
+// caller passes the recipient's address
+export async function sendSavedSearchDigestEmail(
+  data: SavedSearchDigestEmailData & { email: string }
+): Promise<{ success: boolean; error?: string }> {
+  const total = data.searches.reduce((sum, search) => sum + search.loads.length, 0);
+
+  return sendEmail({
+    to: data.email,
+    subject: `${total} new load${total === 1 ? '' : 's'} match your saved searches`,
+    html: savedSearchDigestEmail(data),
+  });
+}
+
+// ============================================
+// CUSTOMER TRACKING NOTIFICATIONS
+// ============================================
+
+// Customers have no account or preferences; the owner opted them in per load
+export async function sendCustomerTrackingEmail(
+  data: CustomerTrackingEmailData & { email: string; replyTo?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const subjects: Record<CustomerTrackingEmailData['kind'], string> = {
+    link: `Track your shipment with ${data.companyName}`,
+    out_for_delivery: `Your shipment ${data.loadNumber} is out for delivery`,
+    arriving_soon: `Your shipment ${data.loadNumber} arrives in about an hour`,
+  };
+
+  return sendEmail({
+    to: data.email,
+    subject: subjects[data.kind],
+    html: customerTrackingEmail(data),
+    replyTo: data.replyTo,
+  });
+}
+
+// ============================================
+// COMPANY PORTAL ACCOUNTS
+// ============================================
+
+// Portal users aren't MoveBoss accounts, so there are no preferences to check
+export async function sendCompanyPortalEmail(
+  data: CompanyPortalEmailData & { email: string }
+): Promise<{ success: boolean; error?: string }> {
+  return sendEmail({
+    to: data.email,
+    subject:
+      data.kind === 'invite'
+        ? `You've been invited to the ${data.companyName} portal`
+        : `Your sign-in link for the ${data.companyName} portal`,
+    html: companyPortalEmail(data),
+  });
+}
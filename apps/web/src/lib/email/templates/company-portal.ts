@@ -0,0 +1,54 @@
+import { baseTemplate, detailsTable } from './base';
+
+export interface CompanyPortalEmailData {
+  kind: 'invite' | 'magic_link';
+  recipientName?: string | null;
+  companyName: string;
+  invitedByName?: string | null;
+  role: string;
+  url: string;
+  expiresIn: string;
+}
+
+export function companyPortalEmail(data: CompanyPortalEmailData): string {
+  const greeting = data.recipientName ? `Hi ${data.recipientName},` : 'Hi,';
+
+  if (data.kind === 'magic_link') {
+    const body = `
+      <p>${greeting}</p>
+
+      <p>Use the button below to sign in to the ${data.companyName} portal on MoveBoss Pro. The link works once and expires in ${data.expiresIn}.</p>
+
+      <p style="color: #6b7280; font-size: 14px;">If you didn't ask to sign in, you can ignore this email.</p>
+    `;
+
+    return baseTemplate({
+      previewText: `Your sign-in link for the ${data.companyName} portal`,
+      title: 'Sign In to Your Portal',
+      body,
+      ctaText: 'Sign In',
+      ctaUrl: data.url,
+    });
+  }
+
+  const body = `
+    <p>${greeting}</p>
+
+    <p>${data.invitedByName || 'Your carrier'} has invited you to the ${data.companyName} portal on MoveBoss Pro, where you can post loads, follow them to delivery and work with carriers.</p>
+
+    ${detailsTable([
+      { label: 'Company', value: data.companyName },
+      { label: 'Access', value: data.role },
+    ])}
+
+    <p>Choose a password to finish setting up your account. This invitation expires in ${data.expiresIn}.</p>
+  `;
+
+  return baseTemplate({
+    previewText: `You've been invited to the ${data.companyName} portal`,
+    title: 'Portal Invitation',
+    body,
+    ctaText: 'Accept Invitation',
+    ctaUrl: data.url,
+  });
+}
@@ -0,0 +1,54 @@
+import { baseTemplate, detailsTable, highlight } from './base';
+
+export interface CustomerTrackingEmailData {
+  customerName: string;
+  companyName: string;
+  loadNumber: string;
+  kind: 'link' | 'out_for_delivery' | 'arriving_soon';
+  deliveryWindow?: string;
+  driverFirstName?: string;
+  balanceDue?: string;
+  trackingUrl: string;
+}
+
+const HEADLINES: Record<CustomerTrackingEmailData['kind'], string> = {
+  link: 'Track Your Shipment',
+  out_for_delivery: 'Out for Delivery',
+  arriving_soon: 'Arriving in About an Hour',
+};
+
+export function customerTrackingEmail(data: CustomerTrackingEmailData): string {
+  const intro =
+    data.kind === 'out_for_delivery'
+      ? `Your shipment is out for delivery${data.driverFirstName ? ` with ${data.driverFirstName}` : ''}.`
+      : data.kind === 'arriving_soon'
+        ? `${data.driverFirstName || 'Your driver'} is about an hour away from your delivery address.`
+        : `${data.companyName} has shared a tracking page for your shipment.`;
+
+  const details = [
+    { label: 'Shipment', value: data.loadNumber },
+    ...(data.deliveryWindow ? [{ label: 'Delivery Window', value: data.deliveryWindow }] : []),
+    ...(data.driverFirstName ? [{ label: 'Driver', value: data.driverFirstName }] : []),
+  ];
+
+  const body = `
+    <p>Hi ${data.customerName},</p>
+
+    <p>${intro}</p>
+
+    ${detailsTable(details)}
+
+    ${data.balanceDue ? highlight(`<strong>Balance due at delivery:</strong> ${data.balanceDue}`) : ''}
+
+    <p>Use the link below to see the truck's approximate location and estimated arrival.</p>
+  `;
+
+  return baseTemplate({
+    previewText: intro,
+    title: HEADLINES[data.kind],
+    body,
+    ctaText: 'Track Shipment',
+    ctaUrl: data.trackingUrl,
+    footer: `You're receiving this because ${data.companyName} is moving your shipment.`,
+  });
+}
@@ -0,0 +1,57 @@
+import { baseTemplate, detailsTable } from './base';
+
+export interface SavedSearchDigestEmailData {
+  recipientName: string;
+  searches: {
+    name: string;
+    loads: {
+      loadNumber: string;
+      route: string;
+      cuft: number | null;
+      ratePerCuft: number | null;
+      viewUrl: string;
+    }[];
+  }[];
+  viewUrl: string;
+}
+
+export function savedSearchDigestEmail(data: SavedSearchDigestEmailData): string {
+  const total = data.searches.reduce((sum, search) => sum + search.loads.length, 0);
+  const summary = `${total} new load${total === 1 ? '' : 's'} matched your saved searches in the last day.`;
+
+  const sections = data.searches
+    .map(
+      (search) => `
+    <h3 style="margin: 24px 0 8px 0;">${search.name}</h3>
+    ${detailsTable(
+      search.loads.map((load) => ({
+        label: `<a href="${load.viewUrl}">${load.loadNumber}</a>`,
+        value: [
+          load.route,
+          load.cuft ? `${load.cuft} CUFT` : null,
+          load.ratePerCuft ? `$${load.ratePerCuft.toFixed(2)}/CUFT` : null,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      }))
+    )}
+  `
+    )
+    .join('');
+
+  const body = `
+    <p>Hi ${data.recipientName},</p>
+
+    <p>${summary}</p>
+
+    ${sections}
+  `;
+
+  return baseTemplate({
+    previewText: summary,
+    title: 'Saved Search Digest',
+    body,
+    ctaText: 'Open Load Board',
+    ctaUrl: data.viewUrl,
+  });
+}
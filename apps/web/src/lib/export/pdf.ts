@@ -271,3 +271,897 @@ export function generateSettlementPDF(options: SettlementPDFOptions): jsPDF {
 
   return doc;
 }
+
+// Customer invoice PDF
+export interface InvoicePDFOptions {
+  invoice: {
+    invoice_number: string;
+    status: string;
+    issue_date: string;
+    due_date: string;
+    payment_terms: string;
+    total_amount: number;
+    amount_paid: number;
+    balance_due: number;
+    notes?: string | null;
+  };
+  from: {
+    name: string;
+    address?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    mc_number?: string | null;
+  };
+  billTo: {
+    name: string;
+    address?: string | null;
+  };
+  lineItems: {
+    load_number: string | null;
+    description: string;
+    quantity: number;
+    unit_price: number;
+    amount: number;
+  }[];
+}
+
+export function generateInvoicePDF(options: InvoicePDFOptions): jsPDF {
+  const { invoice, from, billTo, lineItems } = options;
+
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+
+  // Header
+  doc.setFontSize(24);
+  doc.setFont('helvetica', 'bold');
+  doc.text('INVOICE', margin, 25);
+
+  doc.setFontSize(11);
+  doc.text(invoice.invoice_number, pageWidth - margin, 20, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Issued: ${invoice.issue_date}`, pageWidth - margin, 26, { align: 'right' });
+  doc.text(`Due: ${invoice.due_date}`, pageWidth - margin, 31, { align: 'right' });
+  doc.text(`Terms: ${invoice.payment_terms.replace(/_/g, ' ').toUpperCase()}`, pageWidth - margin, 36, {
+    align: 'right',
+  });
+
+  // From / Bill To
+  let y = 45;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('From', margin, y);
+  doc.text('Bill To', pageWidth / 2, y);
+  doc.setFont('helvetica', 'normal');
+
+  const fromLines = [from.name, from.address, from.phone, from.email, from.mc_number ? `MC# ${from.mc_number}` : null].filter(
+    Boolean
+  ) as string[];
+  const billToLines = [billTo.name, billTo.address].filter(Boolean) as string[];
+
+  fromLines.forEach((line, i) => doc.text(line, margin, y + 5 + i * 5));
+  billToLines.forEach((line, i) => doc.text(line, pageWidth / 2, y + 5 + i * 5));
+
+  y += 10 + Math.max(fromLines.length, billToLines.length) * 5;
+
+  // Line items
+  autoTable(doc, {
+    head: [['Load #', 'Description', 'Qty', 'Rate', 'Amount']],
+    body: lineItems.map((item) => [
+      item.load_number || '-',
+      item.description,
+      item.quantity.toString(),
+      `$${item.unit_price.toFixed(2)}`,
+      `$${item.amount.toFixed(2)}`,
+    ]),
+    startY: y,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [66, 66, 66] },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+  });
+
+  y = (doc as any).lastAutoTable.finalY + 8;
+
+  // Totals
+  const labelX = pageWidth - margin - 60;
+  const valueX = pageWidth - margin;
+  doc.setFontSize(10);
+  doc.text('Total:', labelX, y);
+  doc.text(`$${invoice.total_amount.toFixed(2)}`, valueX, y, { align: 'right' });
+  doc.text('Paid:', labelX, y + 6);
+  doc.text(`$${invoice.amount_paid.toFixed(2)}`, valueX, y + 6, { align: 'right' });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Balance Due:', labelX, y + 14);
+  doc.text(`$${invoice.balance_due.toFixed(2)}`, valueX, y + 14, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+
+  if (invoice.status === 'void') {
+    doc.setFontSize(48);
+    doc.setTextColor(200, 0, 0);
+    doc.text('VOID', pageWidth / 2, 140, { align: 'center', angle: 30 });
+    doc.setTextColor(0);
+  }
+
+  if (invoice.notes) {
+    doc.setFontSize(9);
+    doc.text('Notes', margin, y + 26);
+    doc.setTextColor(100);
+    doc.text(doc.splitTextToSize(invoice.notes, pageWidth - margin * 2), margin, y + 31);
+    doc.setTextColor(0);
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(128);
+  doc.text('MoveBoss Pro', margin, doc.internal.pageSize.getHeight() - 10);
+  doc.setTextColor(0);
+
+  return doc;
+}
+
+// Driver pay-period statement PDF
+export interface DriverStatementPDFOptions {
+  statement: {
+    statement_number: string;
+    status: string;
+    period_start: string;
+    period_end: string;
+    gross_pay: number;
+    reimbursements: number;
+    collections: number;
+    advances: number;
+    deductions: number;
+    escrow_holdback: number;
+    escrow_release: number;
+    net_pay: number;
+    escrow_balance?: number | null;
+    notes?: string | null;
+  };
+  companyName: string;
+  driverName: string;
+  lines: {
+    trip_number: string | null;
+    description: string;
+    amount: number;
+  }[];
+}
+
+export function generateDriverStatementPDF(options: DriverStatementPDFOptions): jsPDF {
+  const { statement, companyName, driverName, lines } = options;
+
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Driver Settlement Statement', margin, 25);
+
+  doc.setFontSize(11);
+  doc.text(statement.statement_number, pageWidth - margin, 20, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Period: ${statement.period_start} - ${statement.period_end}`, pageWidth - margin, 26, {
+    align: 'right',
+  });
+  doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth - margin, 31, { align: 'right' });
+
+  doc.setFontSize(12);
+  doc.text(companyName, margin, 33);
+
+  // Driver box
+  doc.setFillColor(245, 245, 245);
+  doc.rect(margin, 40, pageWidth - margin * 2, 12, 'F');
+  doc.setFontSize(10);
+  doc.text(`Driver: ${driverName}`, margin + 4, 47.5);
+  doc.text(`Status: ${statement.status.toUpperCase()}`, pageWidth - margin - 4, 47.5, { align: 'right' });
+
+  // Lines
+  autoTable(doc, {
+    head: [['Trip', 'Description', 'Amount']],
+    body: lines.map((line) => [line.trip_number || '-', line.description, money(line.amount)]),
+    startY: 58,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [66, 66, 66] },
+    columnStyles: {
+      2: { halign: 'right' },
+    },
+  });
+
+  let y = (doc as any).lastAutoTable.finalY + 8;
+
+  // Totals
+  const labelX = pageWidth - margin - 70;
+  const valueX = pageWidth - margin;
+  const totals: [string, number][] = [
+    ['Trip Pay', statement.gross_pay],
+    ['Reimbursements', statement.reimbursements],
+    ['Escrow Release', statement.escrow_release],
+    ['Collections', -statement.collections],
+    ['Advances', -statement.advances],
+    ['Deductions', -statement.deductions],
+    ['Escrow Holdback', -statement.escrow_holdback],
+  ];
+
+  doc.setFontSize(10);
+  totals
+    .filter(([, value]) => value !== 0)
+    .forEach(([label, value]) => {
+      doc.text(`${label}:`, labelX, y);
+      doc.text(money(value), valueX, y, { align: 'right' });
+      y += 6;
+    });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Net Pay:', labelX, y + 2);
+  doc.text(money(statement.net_pay), valueX, y + 2, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += 10;
+
+  if (statement.escrow_balance !== null && statement.escrow_balance !== undefined) {
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(`Escrow balance held: ${money(statement.escrow_balance)}`, valueX, y, { align: 'right' });
+    doc.setTextColor(0);
+    y += 6;
+  }
+
+  if (statement.status === 'void') {
+    doc.setFontSize(48);
+    doc.setTextColor(200, 0, 0);
+    doc.text('VOID', pageWidth / 2, 140, { align: 'center', angle: 30 });
+    doc.setTextColor(0);
+  }
+
+  if (statement.notes) {
+    doc.setFontSize(9);
+    doc.text('Notes', margin, y + 6);
+    doc.setTextColor(100);
+    doc.text(doc.splitTextToSize(statement.notes, pageWidth - margin * 2), margin, y + 11);
+    doc.setTextColor(0);
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(128);
+  doc.text('MoveBoss Pro', margin, doc.internal.pageSize.getHeight() - 10);
+  doc.setTextColor(0);
+
+  return doc;
+}
+
+// Household goods descriptive inventory PDF
+export interface LoadInventoryPDFOptions {
+  loadNumber: string;
+  companyName: string;
+  customerName?: string | null;
+  origin: string;
+  destination: string;
+  items: {
+    tag_number: string;
+    room: string | null;
+    description: string;
+    condition_codes: string[];
+    condition_notes: string | null;
+    carton_count: number;
+    is_high_value: boolean;
+    declared_value: number | null;
+    damage_sticker: string | null;
+    delivery_status: string;
+    delivery_exception: string | null;
+    delivery_notes: string | null;
+  }[];
+  conditionLegend: Record<string, string>;
+}
+
+export function generateLoadInventoryPDF(options: LoadInventoryPDFOptions): jsPDF {
+  const { loadNumber, companyName, customerName, origin, destination, items, conditionLegend } = options;
+
+  const doc = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+
+  // Header
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Household Goods Descriptive Inventory', margin, 20);
+
+  doc.setFontSize(11);
+  doc.text(`Load ${loadNumber}`, pageWidth - margin, 18, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth - margin, 24, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.text(companyName, margin, 27);
+  if (customerName) doc.text(`Shipper: ${customerName}`, margin, 32);
+  doc.text(`${origin}  ->  ${destination}`, margin, customerName ? 37 : 32);
+
+  const cartons = items.reduce((sum, item) => sum + item.carton_count, 0);
+  const highValue = items.filter((item) => item.is_high_value).length;
+  const exceptions = items.filter((item) => item.delivery_status === 'exception').length;
+  doc.text(
+    `${items.length} tags  |  ${cartons} cartons  |  ${highValue} high value  |  ${exceptions} delivery exceptions`,
+    pageWidth - margin,
+    32,
+    { align: 'right' }
+  );
+
+  autoTable(doc, {
+    head: [['Tag', 'Room', 'Article', 'Ctn', 'Condition at Origin', 'HV', 'Delivery']],
+    body: items.map((item) => [
+      item.tag_number,
+      item.room || '',
+      item.description,
+      item.carton_count ? String(item.carton_count) : '',
+      [
+        item.condition_codes.join(', '),
+        item.condition_notes,
+        item.damage_sticker ? `(damage sticker #${item.damage_sticker})` : null,
+      ]
+        .filter(Boolean)
+        .join(' - '),
+      item.is_high_value ? (item.declared_value ? `$${item.declared_value.toFixed(2)}` : 'Yes') : '',
+      item.delivery_status === 'exception'
+        ? `${(item.delivery_exception || 'exception').toUpperCase()}${item.delivery_notes ? `: ${item.delivery_notes}` : ''}`
+        : item.delivery_status === 'delivered'
+          ? 'OK'
+          : '',
+    ]),
+    startY: 43,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 66, 66] },
+    columnStyles: {
+      0: { cellWidth: 14 },
+      1: { cellWidth: 30 },
+      3: { cellWidth: 12, halign: 'right' },
+      5: { cellWidth: 20 },
+      6: { cellWidth: 45 },
+    },
+  });
+
+  let y = (doc as any).lastAutoTable.finalY + 8;
+  if (y > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    y = 20;
+  }
+
+  // Condition code legend
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  const legend = Object.entries(conditionLegend)
+    .map(([code, label]) => `${code}-${label}`)
+    .join('   ');
+  doc.text(doc.splitTextToSize(legend, pageWidth - margin * 2), margin, y);
+  doc.setTextColor(0);
+
+  doc.setFontSize(8);
+  doc.setTextColor(128);
+  doc.text('MoveBoss Pro', margin, doc.internal.pageSize.getHeight() - 10);
+  doc.setTextColor(0);
+
+  return doc;
+}
+
+// Signed bill of lading / delivery receipt PDF
+export interface SignedLoadDocumentPDFOptions {
+  title: string;
+  loadNumber: string;
+  companyName: string;
+  customerName?: string | null;
+  origin: string;
+  destination: string;
+  details: { label: string; value: string }[];
+  accessorials: { label: string; amount: number }[];
+  balanceCollected: number;
+  balanceRemaining?: number | null;
+  acknowledgement: string;
+  signerName: string;
+  signedAt: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  signature: {
+    strokes: [number, number][][];
+    width: number;
+    height: number;
+  };
+}
+
+export function generateSignedLoadDocumentPDF(options: SignedLoadDocumentPDFOptions): jsPDF {
+  const {
+    title,
+    loadNumber,
+    companyName,
+    customerName,
+    origin,
+    destination,
+    details,
+    accessorials,
+    balanceCollected,
+    balanceRemaining,
+    acknowledgement,
+    signerName,
+    signedAt,
+    latitude,
+    longitude,
+    signature,
+  } = options;
+
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  const money = (value: number) => `$${value.toFixed(2)}`;
+  const lastTableY = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, margin, 25);
+
+  doc.setFontSize(11);
+  doc.text(`Load ${loadNumber}`, pageWidth - margin, 20, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(companyName, margin, 33);
+  if (customerName) doc.text(`Shipper: ${customerName}`, margin, 39);
+  doc.text(`${origin}  ->  ${destination}`, margin, customerName ? 45 : 39);
+
+  // Load details
+  autoTable(doc, {
+    body: details.map((detail) => [detail.label, detail.value]),
+    startY: 52,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9 },
+    columnStyles: {
+      0: { fontStyle: 'bold', cellWidth: 60 },
+    },
+    theme: 'plain',
+  });
+
+  // Accessorials
+  const accessorialsTotal = accessorials.reduce((sum, line) => sum + line.amount, 0);
+  autoTable(doc, {
+    head: [['Accessorial', 'Amount']],
+    body:
+      accessorials.length > 0
+        ? accessorials.map((line) => [line.label, money(line.amount)])
+        : [['None', money(0)]],
+    foot: [['Total Accessorials', money(accessorialsTotal)]],
+    startY: lastTableY() + 6,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [66, 66, 66] },
+    footStyles: { fillColor: [245, 245, 245], textColor: 0 },
+    columnStyles: {
+      1: { halign: 'right' },
+    },
+  });
+
+  let y = lastTableY() + 10;
+
+  // Balance
+  const valueX = pageWidth - margin;
+  const labelX = valueX - 70;
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Balance Collected:', labelX, y);
+  doc.text(money(balanceCollected), valueX, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  if (balanceRemaining !== null && balanceRemaining !== undefined) {
+    y += 6;
+    doc.setFontSize(10);
+    doc.text('Balance Remaining:', labelX, y);
+    doc.text(money(balanceRemaining), valueX, y, { align: 'right' });
+  }
+  y += 12;
+
+  if (y > doc.internal.pageSize.getHeight() - 90) {
+    doc.addPage();
+    y = 20;
+  }
+
+  // Acknowledgement
+  doc.setFontSize(9);
+  const acknowledgementLines = doc.splitTextToSize(acknowledgement, pageWidth - margin * 2);
+  doc.text(acknowledgementLines, margin, y);
+  y += acknowledgementLines.length * 4.5 + 6;
+
+  // Signature, scaled into a fixed box keeping the pad's aspect ratio
+  const boxWidth = 90;
+  const boxHeight = 35;
+  doc.setDrawColor(180);
+  doc.rect(margin, y, boxWidth, boxHeight);
+  if (signature.width > 0 && signature.height > 0) {
+    const scale = Math.min((boxWidth - 4) / signature.width, (boxHeight - 4) / signature.height);
+    const offsetX = margin + (boxWidth - signature.width * scale) / 2;
+    const offsetY = y + (boxHeight - signature.height * scale) / 2;
+    doc.setDrawColor(0, 0, 80);
+    doc.setLineWidth(0.4);
+    signature.strokes.forEach((stroke) => {
+      for (let i = 1; i < stroke.length; i++) {
+        doc.line(
+          offsetX + stroke[i - 1][0] * scale,
+          offsetY + stroke[i - 1][1] * scale,
+          offsetX + stroke[i][0] * scale,
+          offsetY + stroke[i][1] * scale
+        );
+      }
+    });
+  }
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.2);
+
+  y += boxHeight + 6;
+  doc.setFontSize(10);
+  doc.text(`Signed by: ${signerName}`, margin, y);
+  doc.text(`Date/time: ${new Date(signedAt).toLocaleString('en-US', { timeZone: 'UTC' })} UTC`, margin, y + 6);
+  doc.text(
+    `Location: ${
+      latitude !== null && latitude !== undefined && longitude !== null && longitude !== undefined
+        ? `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`
+        : 'Not available'
+    }`,
+    margin,
+    y + 12
+  );
+
+  doc.setFontSize(8);
+  doc.setTextColor(128);
+  doc.text('Signed electronically in MoveBoss Pro', margin, doc.internal.pageSize.getHeight() - 10);
+  doc.setTextColor(0);
+
+  return doc;
+}
+
+// Quarterly IFTA fuel tax summary PDF
+export interface IftaSummaryPDFOptions {
+  companyName: string;
+  quarterLabel: string;
+  period: string;
+  scope: string;
+  summary: {
+    total_miles: number;
+    total_gallons: number;
+    mpg: number;
+    total_tax_due: number;
+    lines: {
+      jurisdiction: string;
+      miles: number;
+      taxable_gallons: number;
+      tax_paid_gallons: number;
+      net_taxable_gallons: number;
+      rate_per_gallon: number;
+      surcharge_per_gallon: number;
+      tax_due: number;
+      rate_missing: boolean;
+    }[];
+  };
+  trucks: { unit_number: string; trip_count: number; miles: number; gallons: number; mpg: number }[];
+  notes: string[];
+}
+
+export function generateIftaSummaryPDF(options: IftaSummaryPDFOptions): jsPDF {
+  const { companyName, quarterLabel, period, scope, summary, trucks, notes } = options;
+
+  const doc = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+  const number = (value: number, digits = 0) =>
+    value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const lastTableY = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  // Header
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('IFTA Quarterly Fuel Tax Summary', margin, 20);
+
+  doc.setFontSize(11);
+  doc.text(quarterLabel, pageWidth - margin, 18, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Period: ${period}`, pageWidth - margin, 24, { align: 'right' });
+  doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth - margin, 29, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.text(companyName, margin, 27);
+  doc.text(scope, margin, 32);
+  doc.text(
+    `Total miles: ${number(summary.total_miles)}   |   Total gallons: ${number(summary.total_gallons, 2)}   |   ` +
+      `Average MPG: ${summary.mpg.toFixed(2)}   |   Net tax: ${money(summary.total_tax_due)}`,
+    margin,
+    39
+  );
+
+  autoTable(doc, {
+    head: [['Jurisdiction', 'Miles', 'Taxable Gal', 'Tax-Paid Gal', 'Net Taxable Gal', 'Rate', 'Surcharge', 'Tax Due / (Credit)']],
+    body: summary.lines.map((line) => [
+      line.jurisdiction,
+      number(line.miles),
+      number(line.taxable_gallons, 2),
+      number(line.tax_paid_gallons, 2),
+      number(line.net_taxable_gallons, 2),
+      line.rate_missing ? 'not set' : line.rate_per_gallon.toFixed(4),
+      line.surcharge_per_gallon ? line.surcharge_per_gallon.toFixed(4) : '',
+      line.tax_due < 0 ? `(${money(-line.tax_due)})` : money(line.tax_due),
+    ]),
+    foot: [
+      [
+        'Total',
+        number(summary.total_miles),
+        '',
+        number(summary.total_gallons, 2),
+        '',
+        '',
+        '',
+        summary.total_tax_due < 0 ? `(${money(-summary.total_tax_due)})` : money(summary.total_tax_due),
+      ],
+    ],
+    startY: 45,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [66, 66, 66] },
+    footStyles: { fillColor: [240, 240, 240], textColor: 0, fontStyle: 'bold' },
+    columnStyles: {
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+    },
+  });
+
+  if (trucks.length > 0) {
+    autoTable(doc, {
+      head: [['Truck', 'Trips', 'Miles', 'Gallons', 'MPG']],
+      body: trucks.map((truck) => [
+        truck.unit_number,
+        String(truck.trip_count),
+        number(truck.miles),
+        number(truck.gallons, 2),
+        truck.mpg ? truck.mpg.toFixed(2) : '-',
+      ]),
+      startY: lastTableY() + 8,
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [66, 66, 66] },
+      columnStyles: {
+        1: { halign: 'right' },
+        2: { halign: 'right' },
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+      },
+    });
+  }
+
+  if (notes.length > 0) {
+    let y = lastTableY() + 8;
+    if (y > doc.internal.pageSize.getHeight() - 30) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    notes.forEach((note) => {
+      const wrapped = doc.splitTextToSize(note, pageWidth - margin * 2);
+      doc.text(wrapped, margin, y);
+      y += wrapped.length * 4;
+    });
+    doc.setTextColor(0);
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(128);
+  doc.text('MoveBoss Pro', margin, doc.internal.pageSize.getHeight() - 10);
+  doc.setTextColor(0);
+
+  return doc;
+}
+
+// GPS proof-of-service report for a trip or load
+export interface ProofOfServicePDFOptions {
+  title: string;
+  companyName: string;
+  driverName: string | null;
+  truckUnit: string | null;
+  windowStart: string;
+  windowEnd: string;
+  miles: number;
+  pingCount: number;
+  dwellMinutes: number;
+  points: { lat: number; lng: number }[];
+  events: { at: string; label: string; loadNumber: string | null; location: string; detail: string | null }[];
+  stops: { arrivedAt: string; departedAt: string; minutes: number; location: string }[];
+  notes: string[];
+}
+
+export function generateProofOfServicePDF(options: ProofOfServicePDFOptions): jsPDF {
+  const {
+    title,
+    companyName,
+    driverName,
+    truckUnit,
+    windowStart,
+    windowEnd,
+    miles,
+    pingCount,
+    dwellMinutes,
+    points,
+    events,
+    stops,
+    notes,
+  } = options;
+
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  const timestamp = (value: string) => `${new Date(value).toLocaleString('en-US', { timeZone: 'UTC' })} UTC`;
+  const lastTableY = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  // Header
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Proof of Service', margin, 20);
+
+  doc.setFontSize(11);
+  doc.text(title, pageWidth - margin, 18, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth - margin, 24, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.text(companyName, margin, 27);
+  doc.text(`Driver: ${driverName || 'Unassigned'}   |   Truck: ${truckUnit || '-'}`, margin, 33);
+  doc.text(`Period: ${timestamp(windowStart)} - ${timestamp(windowEnd)}`, margin, 39);
+  doc.text(
+    `GPS pings: ${pingCount.toLocaleString('en-US')}   |   Distance: ${miles.toFixed(1)} mi   |   ` +
+      `Stops of ${dwellMinutes}+ min: ${stops.length}`,
+    margin,
+    45
+  );
+
+  // Route sketch: the breadcrumb trail scaled into a box, start green and end red
+  const boxTop = 51;
+  const boxWidth = pageWidth - margin * 2;
+  const boxHeight = 80;
+  doc.setDrawColor(180);
+  doc.rect(margin, boxTop, boxWidth, boxHeight);
+  if (points.length > 1) {
+    const lats = points.map((point) => point.lat);
+    const lngs = points.map((point) => point.lng);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    // Longitude degrees shrink with latitude; keep the sketch's proportions
+    const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+    const spanX = Math.max((maxLng - minLng) * lngScale, 0.0001);
+    const spanY = Math.max(maxLat - minLat, 0.0001);
+    const scale = Math.min((boxWidth - 10) / spanX, (boxHeight - 10) / spanY);
+    const offsetX = margin + (boxWidth - spanX * scale) / 2;
+    const offsetY = boxTop + (boxHeight - spanY * scale) / 2;
+    const toX = (lng: number) => offsetX + (lng - minLng) * lngScale * scale;
+    const toY = (lat: number) => offsetY + (maxLat - lat) * scale;
+
+    doc.setDrawColor(37, 99, 235);
+    doc.setLineWidth(0.5);
+    for (let i = 1; i < points.length; i++) {
+      doc.line(toX(points[i - 1].lng), toY(points[i - 1].lat), toX(points[i].lng), toY(points[i].lat));
+    }
+
+    doc.setFillColor(22, 163, 74);
+    doc.circle(toX(points[0].lng), toY(points[0].lat), 1.5, 'F');
+    doc.setFillColor(220, 38, 38);
+    doc.circle(toX(points[points.length - 1].lng), toY(points[points.length - 1].lat), 1.5, 'F');
+  } else {
+    doc.setFontSize(9);
+    doc.setTextColor(128);
+    doc.text('No GPS pings recorded in this period', pageWidth / 2, boxTop + boxHeight / 2, { align: 'center' });
+    doc.setTextColor(0);
+  }
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.2);
+
+  // Workflow events and photos
+  autoTable(doc, {
+    head: [['Time', 'Event', 'Load', 'Location', 'Detail']],
+    body:
+      events.length > 0
+        ? events.map((event) => [
+            timestamp(event.at),
+            event.label,
+            event.loadNumber || '-',
+            event.location,
+            event.detail || '',
+          ])
+        : [['-', 'No workflow events recorded', '', '', '']],
+    startY: boxTop + boxHeight + 6,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 66, 66] },
+    columnStyles: {
+      0: { cellWidth: 40 },
+    },
+  });
+
+  // Stops
+  autoTable(doc, {
+    head: [['Arrived', 'Departed', 'Minutes', 'Location']],
+    body:
+      stops.length > 0
+        ? stops.map((stop) => [timestamp(stop.arrivedAt), timestamp(stop.departedAt), String(stop.minutes), stop.location])
+        : [['-', '-', '-', `No stops of ${dwellMinutes}+ minutes`]],
+    startY: lastTableY() + 8,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 66, 66] },
+    columnStyles: {
+      2: { halign: 'right' },
+    },
+  });
+
+  if (notes.length > 0) {
+    let y = lastTableY() + 8;
+    if (y > doc.internal.pageSize.getHeight() - 30) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    notes.forEach((note) => {
+      const wrapped = doc.splitTextToSize(note, pageWidth - margin * 2);
+      doc.text(wrapped, margin, y);
+      y += wrapped.length * 4;
+    });
+    doc.setTextColor(0);
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(128);
+  doc.text('MoveBoss Pro', margin, doc.internal.pageSize.getHeight() - 10);
+  doc.setTextColor(0);
+
+  return doc;
+}
@@ -0,0 +1,154 @@
+/**
+ * Offline US ZIP and city lookups against the bundled centroid dataset.
+ * Server-only: the dataset is large, so keep it out of client bundles.
+ */
+
+import { US_ZIP_DATA } from './us-zip-data';
+
+export interface ZipLocation {
+  zip: string;
+  city: string;
+  state: string;
+  lat: number;
+  lng: number;
+}
+
+export interface CityLocation {
+  city: string;
+  state: string;
+  lat: number;
+  lng: number;
+  // False when the name only matched after allowing for typos
+  exact: boolean;
+}
+
+interface CityEntry {
+  city: string;
+  state: string;
+  latSum: number;
+  lngSum: number;
+  count: number;
+}
+
+// Built on first use; parsing ~40k rows takes a few milliseconds
+let zipIndex: Map<string, ZipLocation> | null = null;
+// state -> normalized city name -> centroid accumulator
+let cityIndex: Map<string, Map<string, CityEntry>> | null = null;
+
+const CITY_ABBREVIATIONS: [RegExp, string][] = [
+  [/\bsaint\b/g, 'st'],
+  [/\bsainte\b/g, 'ste'],
+  [/\bfort\b/g, 'ft'],
+  [/\bmount\b/g, 'mt'],
+  [/\bnorth\b/g, 'n'],
+  [/\bsouth\b/g, 's'],
+  [/\beast\b/g, 'e'],
+  [/\bwest\b/g, 'w'],
+];
+
+function buildIndexes() {
+  zipIndex = new Map();
+  cityIndex = new Map();
+
+  for (const row of US_ZIP_DATA.split('\n')) {
+    const [zip, city, state, lat, lng] = row.split('|');
+    if (!zip || !city || !state) continue;
+
+    const location: ZipLocation = { zip, city, state, lat: Number(lat), lng: Number(lng) };
+    zipIndex.set(zip, location);
+
+    const cities = cityIndex.get(state) || new Map<string, CityEntry>();
+    const key = normalizeCityName(city);
+    const entry = cities.get(key) || { city, state, latSum: 0, lngSum: 0, count: 0 };
+    entry.latSum += location.lat;
+    entry.lngSum += location.lng;
+    entry.count += 1;
+    cities.set(key, entry);
+    cityIndex.set(state, cities);
+  }
+}
+
+function indexes() {
+  if (!zipIndex || !cityIndex) buildIndexes();
+  return { zips: zipIndex!, cities: cityIndex! };
+}
+
+export function lookupZip(zipCode: string): ZipLocation | null {
+  const cleanZip = zipCode.replace(/\D/g, '').slice(0, 5);
+  if (cleanZip.length !== 5) return null;
+  return indexes().zips.get(cleanZip) || null;
+}
+
+/**
+ * Centroid of a city's ZIP codes. Tolerates case, punctuation, common
+ * abbreviations (Saint/St, Fort/Ft, Mount/Mt) and small typos within the state.
+ */
+export function resolveCity(city: string | null | undefined, state: string | null | undefined): CityLocation | null {
+  const key = city ? normalizeCityName(city) : '';
+  const stateCode = state?.trim().toUpperCase();
+  if (!key || !stateCode) return null;
+
+  const cities = indexes().cities.get(stateCode);
+  if (!cities) return null;
+
+  const exact = cities.get(key);
+  if (exact) return toCityLocation(exact, true);
+
+  // Short names get less slack so "Ada" doesn't become "Ida"
+  const maxDistance = key.length <= 5 ? 1 : 2;
+  let best: CityEntry | null = null;
+  let bestDistance = maxDistance + 1;
+  for (const [candidate, entry] of cities) {
+    if (Math.abs(candidate.length - key.length) > maxDistance) continue;
+    const distance = levenshtein(key, candidate, maxDistance);
+    if (distance < bestDistance || (distance === bestDistance && best && entry.count > best.count)) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+
+  return best ? toCityLocation(best, false) : null;
+}
+
+export function normalizeCityName(city: string): string {
+  let name = city
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  for (const [pattern, abbreviation] of CITY_ABBREVIATIONS) {
+    name = name.replace(pattern, abbreviation);
+  }
+  return name;
+}
+
+function toCityLocation(entry: CityEntry, exact: boolean): CityLocation {
+  return {
+    city: entry.city,
+    state: entry.state,
+    lat: entry.latSum / entry.count,
+    lng: entry.lngSum / entry.count,
+    exact,
+  };
+}
+
+/**
+ * Edit distance, giving up early once it exceeds `max`
+ */
+function levenshtein(a: string, b: string, max: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
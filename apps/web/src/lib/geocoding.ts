@@ -15,11 +15,19 @@ export interface GeocodingResult {
   error?: string;
 }
 
-// Cache for zip code lookups to avoid repeated API calls
-const zipCodeCache = new Map<string, GeoCoordinates>();
+export interface AddressToGeocode {
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+// Loaded on demand so the dataset stays out of client bundles
+function loadZipLookup() {
+  return import('./geo/zip-lookup');
+}
 
 /**
- * Get coordinates for a US zip code using Zippopotam.us API (free, no key required)
+ * Get coordinates for a US zip code from the bundled centroid dataset
  */
 export async function geocodeZipCode(zipCode: string): Promise<GeocodingResult> {
   const cleanZip = zipCode.trim().substring(0, 5);
@@ -28,53 +36,22 @@ export async function geocodeZipCode(zipCode: string): Promise<GeocodingResult>
     return { success: false, error: 'Invalid zip code format' };
   }
 
-  // Check cache first
-  const cached = zipCodeCache.get(cleanZip);
-  if (cached) {
-    return { success: true, coordinates: cached };
+  const { lookupZip } = await loadZipLookup();
+  const location = lookupZip(cleanZip);
+  if (!location) {
+    return { success: false, error: 'Zip code not found' };
   }
 
-  try {
-    const response = await fetch(`https://api.zippopotam.us/us/${cleanZip}`, {
-      next: { revalidate: 86400 }, // Cache for 24 hours
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return { success: false, error: 'Zip code not found' };
-      }
-      return { success: false, error: `API error: ${response.status}` };
-    }
-
-    const data = await response.json();
-    const place = data.places?.[0];
-
-    if (!place) {
-      return { success: false, error: 'No location data found' };
-    }
-
-    const coordinates: GeoCoordinates = {
-      lat: parseFloat(place.latitude),
-      lng: parseFloat(place.longitude),
-      city: place['place name'],
-      state: place['state abbreviation'],
-    };
-
-    // Cache the result
-    zipCodeCache.set(cleanZip, coordinates);
-
-    return { success: true, coordinates };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to geocode zip code',
-    };
-  }
+  return {
+    success: true,
+    coordinates: { lat: location.lat, lng: location.lng, city: location.city, state: location.state },
+  };
 }
 
 /**
- * Geocode a full address using city, state, and optional zip
- * Falls back to zip code if provided
+ * Geocode a full address using city, state, and optional zip.
+ * Tries the zip first, then the city within its state (typo tolerant), then
+ * the state center as a rough estimate.
  */
 export async function geocodeAddress(
   city?: string | null,
@@ -89,7 +66,17 @@ export async function geocodeAddress(
     }
   }
 
-  // If no zip or zip failed, we can't geocode without an API key
+  if (city && state) {
+    const { resolveCity } = await loadZipLookup();
+    const location = resolveCity(city, state);
+    if (location) {
+      return {
+        success: true,
+        coordinates: { lat: location.lat, lng: location.lng, city: location.city, state: location.state },
+      };
+    }
+  }
+
   // Return a fallback based on state center (rough estimate)
   if (state) {
     const stateCenter = STATE_CENTERS[state.toUpperCase()];
@@ -109,6 +96,42 @@ export async function geocodeAddress(
   return { success: false, error: 'Unable to geocode location' };
 }
 
+/**
+ * Geocode many addresses at once, resolving each distinct address only once.
+ * Results line up with the input; null where an address can't be geocoded.
+ */
+export async function geocodeAddresses(addresses: AddressToGeocode[]): Promise<(GeoCoordinates | null)[]> {
+  const keyOf = (address: AddressToGeocode) =>
+    [address.city, address.state, address.postalCode].map((part) => part?.trim().toLowerCase() || '').join('|');
+
+  const results = new Map<string, GeoCoordinates | null>();
+  for (const address of addresses) {
+    const key = keyOf(address);
+    if (results.has(key)) continue;
+    if (key === '||') {
+      results.set(key, null);
+      continue;
+    }
+    const result = await geocodeAddress(address.city, address.state, address.postalCode);
+    results.set(key, result.success && result.coordinates ? result.coordinates : null);
+  }
+
+  return addresses.map((address) => results.get(keyOf(address)) ?? null);
+}
+
+/**
+ * Coordinates from a row's stored lat/lng columns (NUMERIC columns come back
+ * as strings), or null when the row hasn't been geocoded
+ */
+export function storedCoordinates(
+  lat: number | string | null | undefined,
+  lng: number | string | null | undefined
+): GeoCoordinates | null {
+  if (lat === null || lat === undefined || lng === null || lng === undefined) return null;
+  const coordinates = { lat: Number(lat), lng: Number(lng) };
+  return Number.isFinite(coordinates.lat) && Number.isFinite(coordinates.lng) ? coordinates : null;
+}
+
 /**
  * Calculate distance between two points using Haversine formula
  * Returns distance in miles
@@ -200,6 +223,46 @@ export function calculateAddedMiles(
   return Math.max(0, viaDetour - directDistance);
 }
 
+// Straight-line distance understates highway miles
+const ROAD_MILES_FACTOR = 1.2;
+
+/**
+ * Estimate road miles between two locations from their straight-line distance.
+ * Returns null when either end can't be geocoded.
+ */
+export async function estimateRoadMiles(
+  origin: { city?: string | null; state?: string | null; postalCode?: string | null },
+  destination: { city?: string | null; state?: string | null; postalCode?: string | null }
+): Promise<number | null> {
+  const [from, to] = await Promise.all([
+    geocodeAddress(origin.city, origin.state, origin.postalCode),
+    geocodeAddress(destination.city, destination.state, destination.postalCode),
+  ]);
+
+  if (!from.success || !from.coordinates || !to.success || !to.coordinates) {
+    return null;
+  }
+
+  return Math.round(calculateDistance(from.coordinates, to.coordinates) * ROAD_MILES_FACTOR);
+}
+
+/**
+ * State whose approximate center is closest to a point. A rough fallback for
+ * locations recorded without a state; accuracy drops near state lines.
+ */
+export function nearestStateCode(point: GeoCoordinates): string {
+  let nearest = '';
+  let nearestDistance = Infinity;
+  for (const [state, center] of Object.entries(STATE_CENTERS)) {
+    const distance = calculateDistance(point, center);
+    if (distance < nearestDistance) {
+      nearest = state;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
 function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
@@ -0,0 +1,179 @@
+import Papa from 'papaparse';
+
+/**
+ * Browser-side reading of CSV and XLSX exports into { header: cell } rows.
+ *
+ * XLSX files are zip archives of XML parts. Only the first worksheet's cell
+ * values are needed, so instead of pulling in a spreadsheet library this reads
+ * the zip directory directly, inflates entries with DecompressionStream and
+ * parses the XML with DOMParser. Dates are left as Excel serial numbers; the
+ * import normalizes them server side.
+ */
+
+export interface ParsedSpreadsheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export async function parseSpreadsheetFile(file: File): Promise<ParsedSpreadsheet> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) return parseXlsx(file);
+  if (name.endsWith('.xls')) {
+    throw new Error('Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and try again.');
+  }
+  return parseCsv(file);
+}
+
+function toParsedSpreadsheet(grid: string[][]): ParsedSpreadsheet {
+  const headerIndex = grid.findIndex((row) => row.some((cell) => cell.trim()));
+  if (headerIndex === -1) return { headers: [], rows: [] };
+
+  // Blank or repeated headers still need a distinct key per column
+  const seen = new Map<string, number>();
+  const headers = grid[headerIndex].map((cell, index) => {
+    const base = cell.trim() || `Column ${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+
+  const rows = grid
+    .slice(headerIndex + 1)
+    .filter((row) => row.some((cell) => cell.trim()))
+    .map((row) => Object.fromEntries(headers.map((header, index) => [header, (row[index] ?? '').trim()])));
+
+  return { headers, rows };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function parseCsv(file: File): Promise<ParsedSpreadsheet> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (result) => resolve(toParsedSpreadsheet(result.data)),
+      error: (error) => reject(new Error(`Could not read CSV: ${error.message}`)),
+    });
+  });
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record, searched backwards past any archive comment
+  let eocd = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('This file is not a valid .xlsx workbook.');
+
+  const entries = new Map<string, () => Promise<string>>();
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(entryName, async () => {
+      const dataStart =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error('This workbook uses an unsupported compression method.');
+
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function textOf(element: Element): string {
+  return elements(element, 't')
+    .map((node) => node.textContent ?? '')
+    .join('');
+}
+
+/** "BC12" -> 54 (zero-based column index) */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function findFirstSheetPath(entries: Map<string, () => Promise<string>>): Promise<string> {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) return 'xl/worksheets/sheet1.xml';
+
+  const sheet = elements(parseXml(await workbook()), 'sheet')[0];
+  const relationId =
+    sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') ??
+    sheet?.getAttribute('r:id');
+  const target = elements(parseXml(await rels()), 'Relationship')
+    .find((relationship) => relationship.getAttribute('Id') === relationId)
+    ?.getAttribute('Target');
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+async function parseXlsx(file: File): Promise<ParsedSpreadsheet> {
+  const entries = await readZipEntries(await file.arrayBuffer());
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry ? elements(parseXml(await sharedStringsEntry()), 'si').map(textOf) : [];
+
+  const sheetEntry = entries.get(await findFirstSheetPath(entries));
+  if (!sheetEntry) throw new Error('No worksheet found in this workbook.');
+
+  const grid = elements(parseXml(await sheetEntry()), 'row').map((row) => {
+    const cells: string[] = [];
+    elements(row, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const raw = elements(cell, 'v')[0]?.textContent ?? '';
+
+      if (type === 's') cells[index] = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') cells[index] = textOf(cell);
+      else if (type === 'b') cells[index] = raw === '1' ? 'TRUE' : 'FALSE';
+      else cells[index] = raw;
+    });
+    return Array.from(cells, (cell) => cell ?? '');
+  });
+
+  return toParsedSpreadsheet(grid);
+}
@@ -4,6 +4,7 @@
  */
 
 import type { DriverPayMode } from '@/data/driver-shared';
+import { fuelCostPerMile } from '@/data/fuel-prices-shared';
 
 export interface DriverPayConfig {
   pay_mode: DriverPayMode;
@@ -26,8 +27,17 @@ export interface CostEstimate {
   };
 }
 
-// Default fuel cost per mile (can be overridden)
-const DEFAULT_FUEL_COST_PER_MILE = 0.50;
+// Fallback fuel cost per mile when no diesel price has been entered
+export const DEFAULT_FUEL_COST_PER_MILE = 0.50;
+
+/**
+ * Fuel cost per mile from the current diesel price and the truck's MPG,
+ * falling back to the flat default when no price is on file
+ */
+export function resolveFuelCostPerMile(dieselPrice: number | null, mpg: number | null): number {
+  const costPerMile = fuelCostPerMile(dieselPrice || 0, mpg || 0);
+  return costPerMile > 0 ? costPerMile : DEFAULT_FUEL_COST_PER_MILE;
+}
 
 /**
  * Estimate costs for a potential load
@@ -6,10 +6,16 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import {
   geocodeAddress,
+  storedCoordinates,
   calculateDistance,
   type GeoCoordinates,
 } from '@/lib/geocoding';
-import { estimateLoadCosts, estimateDaysForLoad, type DriverPayConfig } from './cost-calculator';
+import {
+  estimateLoadCosts,
+  estimateDaysForLoad,
+  resolveFuelCostPerMile,
+  type DriverPayConfig,
+} from './cost-calculator';
 import { notifyOwnerLoadSuggestions } from '@/lib/push-notifications';
 
 // Types
@@ -50,6 +56,9 @@ export interface TripMatchingContext {
   // Driver pay config (for cost estimation)
   driverPayConfig: DriverPayConfig;
 
+  // Current diesel price / truck MPG
+  fuelCostPerMile: number;
+
   // Preferences
   returnRoutePreference?: string[];
 }
@@ -111,6 +120,10 @@ interface LoadForMatching {
   delivery_city?: string | null;
   delivery_state?: string | null;
   delivery_zip?: string | null;
+  pickup_lat?: number | null;
+  pickup_lng?: number | null;
+  delivery_lat?: number | null;
+  delivery_lng?: number | null;
 
   // Size and revenue
   cubic_feet?: number | null;
@@ -186,6 +199,10 @@ export async function findMatchingLoads(
       delivery_city,
       delivery_state,
       delivery_zip,
+      pickup_lat,
+      pickup_lng,
+      delivery_lat,
+      delivery_lng,
       cubic_feet,
       total_rate,
       rate_per_cuft,
@@ -284,19 +301,15 @@ async function scoreLoadForTrip(
     return null;
   }
 
-  // Get pickup coordinates
-  const pickupResult = await geocodeAddress(
-    pickupLocation.city,
-    pickupLocation.state,
-    pickupLocation.zip
-  );
+  // Get pickup coordinates (stored on write; geocode older loads locally)
+  const pickupCoords =
+    storedCoordinates(load.pickup_lat, load.pickup_lng) ??
+    (await geocodeAddress(pickupLocation.city, pickupLocation.state, pickupLocation.zip)).coordinates;
 
-  if (!pickupResult.success || !pickupResult.coordinates) {
+  if (!pickupCoords) {
     return null;
   }
 
-  const pickupCoords = pickupResult.coordinates;
-
   // Calculate distance to pickup (deadhead)
   const distanceToPickup = calculateDistance(deliveryCoords, pickupCoords);
 
@@ -306,17 +319,15 @@ async function scoreLoadForTrip(
   }
 
   // Get dropoff coordinates and calculate load distance
-  const dropoffResult = await geocodeAddress(
-    dropoffLocation.city,
-    dropoffLocation.state,
-    dropoffLocation.zip
-  );
+  const dropoffCoords =
+    storedCoordinates(load.delivery_lat, load.delivery_lng) ??
+    (await geocodeAddress(dropoffLocation.city, dropoffLocation.state, dropoffLocation.zip)).coordinates;
 
-  if (!dropoffResult.success || !dropoffResult.coordinates) {
+  if (!dropoffCoords) {
     return null;
   }
 
-  const loadDistance = calculateDistance(pickupCoords, dropoffResult.coordinates);
+  const loadDistance = calculateDistance(pickupCoords, dropoffCoords);
 
   // Extract load details
   const cubicFeet = load.cubic_feet || 0;
@@ -354,7 +365,8 @@ async function scoreLoadForTrip(
     totalMiles,
     cubicFeet,
     revenue,
-    estimatedDays
+    estimatedDays,
+    context.fuelCostPerMile
   );
 
   // Calculate profit
@@ -571,6 +583,7 @@ export async function buildMatchingContext(
         flat_daily_rate,
         location_sharing_enabled
       ),
+      truck:trucks(id, mpg),
       trailer:trailers(id, cubic_capacity),
       trip_loads:trip_loads(
         load:loads(
@@ -603,6 +616,24 @@ export async function buildMatchingContext(
 
   const companyId = profile?.company_id || null;
 
+  // Fuel cost from the latest diesel price and the truck's fuel economy
+  const [{ data: fuelPrice }, { data: fuelSettings }] = await Promise.all([
+    supabase
+      .from('fuel_prices')
+      .select('price_per_gallon')
+      .eq('owner_id', userId)
+      .lte('effective_date', new Date().toISOString().split('T')[0])
+      .order('effective_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase.from('fuel_surcharge_settings').select('default_mpg').eq('owner_id', userId).maybeSingle(),
+  ]);
+  const truck = Array.isArray(trip.truck) ? trip.truck[0] : trip.truck;
+  const fuelCostPerMile = resolveFuelCostPerMile(
+    fuelPrice ? Number(fuelPrice.price_per_gallon) : null,
+    Number(truck?.mpg) || Number(fuelSettings?.default_mpg) || null
+  );
+
   // Calculate remaining capacity
   const trailerCapacity = trip.trailer?.cubic_capacity || 4200;
   const loadedCuft = trip.trip_loads?.reduce((sum: number, tl: any) => {
@@ -647,6 +678,7 @@ export async function buildMatchingContext(
     trailerCapacityCuft: trailerCapacity,
     remainingCapacityCuft: remainingCapacity,
     driverPayConfig,
+    fuelCostPerMile,
     returnRoutePreference: trip.return_route_preference || [],
   };
 }
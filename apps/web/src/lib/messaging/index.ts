@@ -1,10 +1,12 @@
 export {
   recordStructuredUploadMessage,
+  recordLoadEventMessage,
   shouldSendToShared,
   type UploadMessageEntityType,
   type UploadMessageTarget,
   type RecordUploadMessageInput,
   type RecordUploadMessageResult,
+  type RecordLoadEventMessageInput,
 } from './recordStructuredUploadMessage';
 
 export {
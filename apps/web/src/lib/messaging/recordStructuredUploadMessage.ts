@@ -240,6 +240,78 @@ export async function recordStructuredUploadMessage(
   }
 }
 
+/**
+ * Input for recording a load event that is not an upload (claims, ...)
+ */
+export interface RecordLoadEventMessageInput {
+  loadId: string;
+  /** Company ID that owns the load conversations */
+  companyId: string;
+  /** Message body shown in the conversation */
+  body: string;
+  performerUserId?: string;
+  /** Which conversations to send to */
+  target?: UploadMessageTarget;
+  /** Partner company ID (for shared conversations) */
+  partnerCompanyId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Record a load event as a system message in the load conversation(s).
+ * Same delivery rules as uploads: shared only goes out when a partner exists.
+ * Does NOT throw errors - logs and returns failure status.
+ */
+export async function recordLoadEventMessage(
+  client: SupabaseClient,
+  input: RecordLoadEventMessageInput
+): Promise<RecordUploadMessageResult> {
+  const result: RecordUploadMessageResult = { success: false };
+  const target = input.target ?? 'internal';
+  const metadata = { ...input.metadata, performer_user_id: input.performerUserId };
+
+  try {
+    if (target === 'internal' || target === 'both') {
+      const internalResult = await sendToLoadConversation(
+        client,
+        input.loadId,
+        input.companyId,
+        'load_internal',
+        input.body,
+        metadata,
+        input.performerUserId
+      );
+      if (internalResult.success) {
+        result.internalMessageId = internalResult.messageId;
+      }
+    }
+
+    if ((target === 'shared' || target === 'both') && input.partnerCompanyId) {
+      const sharedResult = await sendToLoadConversation(
+        client,
+        input.loadId,
+        input.companyId,
+        'load_shared',
+        input.body,
+        metadata,
+        input.performerUserId,
+        undefined,
+        input.partnerCompanyId
+      );
+      if (sharedResult.success) {
+        result.sharedMessageId = sharedResult.messageId;
+      }
+    }
+
+    result.success = !!(result.internalMessageId || result.sharedMessageId);
+    return result;
+  } catch (err) {
+    console.error('[UploadMessage] Exception while recording load event message:', err);
+    result.error = err instanceof Error ? err.message : 'Unknown error';
+    return result;
+  }
+}
+
 /**
  * Send a system message to a load conversation
  */
@@ -25,6 +25,7 @@ export type PushNotificationType =
   | 'payment_received'
   | 'settlement_approved'
   | 'load_suggestion'
+  | 'saved_search_match'
   | 'balance_dispute'
   | 'balance_dispute_resolved'
   | 'message'
@@ -894,9 +895,12 @@ export async function notifyOwnerDeliveryStarted(loadId: string): Promise<void>
 }
 
 /**
- * Notify owner when driver arrives at delivery location
+ * Notify owner when driver arrives at the delivery (or pickup) location
  */
-export async function notifyOwnerDriverArrived(loadId: string): Promise<void> {
+export async function notifyOwnerDriverArrived(
+  loadId: string,
+  stop: 'pickup' | 'delivery' = 'delivery'
+): Promise<void> {
   const { ownerId, loadNumber, driverName, tripId } = await getLoadOwnerInfo(loadId);
 
   if (!ownerId) return;
@@ -904,7 +908,7 @@ export async function notifyOwnerDriverArrived(loadId: string): Promise<void> {
   await sendPushToUser(
     ownerId,
     '📍 Driver Arrived',
-    `${driverName} arrived at delivery location for ${loadNumber}`,
+    `${driverName} arrived at ${stop} location for ${loadNumber}`,
     {
       type: 'load_status_changed',
       loadId,
@@ -1279,6 +1283,27 @@ export async function notifyCarrierRequestDeclined(
   );
 }
 
+/**
+ * Notify a user when a newly posted load matches their saved searches
+ */
+export async function notifyUserSavedSearchMatch(
+  userId: string,
+  loadId: string,
+  title: string,
+  body: string
+): Promise<void> {
+  await sendPushToUser(
+    userId,
+    title,
+    body,
+    {
+      type: 'saved_search_match',
+      loadId,
+    },
+    { channelId: 'marketplace' }
+  );
+}
+
 // ============================================
 // MESSAGE NOTIFICATION HELPERS
 // ============================================
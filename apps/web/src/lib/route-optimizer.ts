@@ -0,0 +1,393 @@
+/**
+ * Trip route optimization: orders a trip's pickup and delivery stops to
+ * minimize miles without delivering a load before it's picked up, overfilling
+ * the trailer, or missing pickup windows and delivery deadlines
+ */
+
+import { calculateDistance, type GeoCoordinates } from '@/lib/geocoding';
+
+export type RouteStopType = 'pickup' | 'delivery';
+
+export interface RouteStop {
+  load_id: string;
+  type: RouteStopType;
+}
+
+export interface RouteLoad {
+  id: string;
+  load_number: string;
+  pickup: GeoCoordinates | null;
+  pickup_label: string;
+  delivery: GeoCoordinates | null;
+  delivery_label: string;
+  cubic_feet: number;
+  // Already on the trailer, so only the delivery is left
+  picked_up: boolean;
+  // ISO timestamps; null when the load has no such limit
+  pickup_earliest: string | null;
+  pickup_latest: string | null;
+  // Ready-for-delivery date: the customer can't receive before it
+  delivery_earliest: string | null;
+  delivery_deadline: string | null;
+}
+
+export interface RouteInput {
+  start: GeoCoordinates | null;
+  end: GeoCoordinates | null;
+  departure: string;
+  // 0 when the trip has no trailer or truck capacity on file
+  capacity_cuft: number;
+  loads: RouteLoad[];
+}
+
+export interface PlannedStop extends RouteStop {
+  load_number: string;
+  label: string;
+  leg_miles: number;
+  arrival: string;
+  onboard_cuft: number;
+  late: boolean;
+  over_capacity: boolean;
+  located: boolean;
+}
+
+export interface RoutePlan {
+  stops: PlannedStop[];
+  total_miles: number;
+  late_stops: number;
+  over_capacity: boolean;
+  unlocated_stops: number;
+}
+
+export interface RouteComparison {
+  current: RoutePlan;
+  proposed: RoutePlan;
+  miles_saved: number;
+  late_stops_avoided: number;
+  // False when the current order is already the best found
+  improved: boolean;
+}
+
+// Loads in these states are off the trailer and out of the route
+export const COMPLETED_LOAD_STATUSES = ['delivered', 'storage_completed'];
+// Loads in these states are already on the trailer
+export const PICKED_UP_LOAD_STATUSES = ['loaded', 'in_transit'];
+
+// Planning assumptions for arrival estimates
+const AVERAGE_SPEED_MPH = 50;
+const WORKDAY_START_HOUR = 8;
+const WORKDAY_HOURS = 11;
+const STOP_HOURS = 3;
+// Exhaustive search stops here and keeps the best order found so far
+const MAX_SEARCH_NODES = 200_000;
+
+interface SearchState {
+  position: GeoCoordinates | null;
+  clock: number;
+  onboard: number;
+  miles: number;
+  late: number;
+}
+
+/**
+ * Stops in the trip's saved order. Loads with stop positions from a previous
+ * optimization keep them; otherwise every pickup comes first, then
+ * deliveries, both following the loads' sequence.
+ */
+export function savedRouteStops(
+  loads: (Pick<RouteLoad, 'id' | 'picked_up'> & {
+    pickup_stop_index?: number | null;
+    delivery_stop_index?: number | null;
+  })[]
+): RouteStop[] {
+  const positioned = loads.every(
+    (load) => (load.picked_up || load.pickup_stop_index != null) && load.delivery_stop_index != null
+  );
+
+  if (positioned) {
+    return loads
+      .flatMap((load) => [
+        ...(load.picked_up ? [] : [{ load_id: load.id, type: 'pickup' as const, index: load.pickup_stop_index! }]),
+        { load_id: load.id, type: 'delivery' as const, index: load.delivery_stop_index! },
+      ])
+      .sort((a, b) => a.index - b.index)
+      .map(({ load_id, type }) => ({ load_id, type }));
+  }
+
+  return [
+    ...loads.filter((load) => !load.picked_up).map((load) => ({ load_id: load.id, type: 'pickup' as const })),
+    ...loads.map((load) => ({ load_id: load.id, type: 'delivery' as const })),
+  ];
+}
+
+/**
+ * Miles, arrival estimates, trailer fill and deadline risk for a stop order
+ */
+export function planRoute(input: RouteInput, stops: RouteStop[]): RoutePlan {
+  const loadsById = new Map(input.loads.map((load) => [load.id, load]));
+  let state = initialState(input);
+  const planned: PlannedStop[] = [];
+
+  for (const stop of stops) {
+    const load = loadsById.get(stop.load_id);
+    if (!load) continue;
+
+    const location = stopLocation(load, stop.type);
+    const next = visit(state, input, load, stop.type);
+
+    planned.push({
+      ...stop,
+      load_number: load.load_number,
+      label: stop.type === 'pickup' ? load.pickup_label : load.delivery_label,
+      leg_miles: Math.round(next.state.miles - state.miles),
+      arrival: new Date(next.arrival).toISOString(),
+      onboard_cuft: next.state.onboard,
+      late: next.state.late > state.late,
+      over_capacity: overCapacity(input, next.state.onboard),
+      located: location !== null,
+    });
+    state = next.state;
+  }
+
+  const endMiles = input.end && state.position ? calculateDistance(state.position, input.end) : 0;
+
+  return {
+    stops: planned,
+    total_miles: Math.round(state.miles + endMiles),
+    late_stops: state.late,
+    over_capacity: planned.some((stop) => stop.over_capacity),
+    unlocated_stops: planned.filter((stop) => !stop.located).length,
+  };
+}
+
+/**
+ * Lowest-mileage stop order that keeps each pickup before its delivery and
+ * the trailer within capacity at every stop. Orders with fewer late stops
+ * always win over shorter ones.
+ */
+export function optimizeRoute(input: RouteInput): RouteStop[] {
+  const remaining: RouteStop[] = input.loads.flatMap((load) => [
+    ...(load.picked_up ? [] : [{ load_id: load.id, type: 'pickup' as const }]),
+    { load_id: load.id, type: 'delivery' as const },
+  ]);
+  const loadsById = new Map(input.loads.map((load) => [load.id, load]));
+
+  let best = null as { stops: RouteStop[]; late: number; miles: number } | null;
+  const consider = (stops: RouteStop[], late: number, miles: number) => {
+    if (!best || late < best.late || (late === best.late && miles < best.miles)) {
+      best = { stops: [...stops], late, miles };
+    }
+  };
+
+  // Seed the bound with a nearest-stop-first order so pruning starts early
+  const greedy = greedyRoute(input, remaining, loadsById);
+  if (greedy) consider(greedy.stops, greedy.late, greedy.miles);
+
+  let nodes = 0;
+  const path: RouteStop[] = [];
+  const pickedUp = new Set(input.loads.filter((load) => load.picked_up).map((load) => load.id));
+
+  const search = (state: SearchState, left: RouteStop[]) => {
+    if (nodes++ > MAX_SEARCH_NODES) return;
+    if (best && (state.late > best.late || (state.late === best.late && state.miles >= best.miles))) return;
+
+    if (left.length === 0) {
+      const endMiles = input.end && state.position ? calculateDistance(state.position, input.end) : 0;
+      consider(path, state.late, state.miles + endMiles);
+      return;
+    }
+
+    // Try the closest stops first so good orders are found early
+    const candidates = left
+      .filter((stop) => stop.type === 'pickup' || pickedUp.has(stop.load_id))
+      .map((stop) => ({ stop, distance: legMiles(state.position, stopLocation(loadsById.get(stop.load_id)!, stop.type)) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    for (const { stop } of candidates) {
+      const load = loadsById.get(stop.load_id)!;
+      const next = visit(state, input, load, stop.type);
+      if (overCapacity(input, next.state.onboard)) continue;
+
+      path.push(stop);
+      if (stop.type === 'pickup') pickedUp.add(stop.load_id);
+      search(next.state, left.filter((other) => other !== stop));
+      if (stop.type === 'pickup') pickedUp.delete(stop.load_id);
+      path.pop();
+    }
+  };
+
+  search(initialState(input), remaining);
+
+  // Nothing fits the trailer; fall back to the legacy pickups-first order
+  return best ? best.stops : savedRouteStops(input.loads);
+}
+
+/**
+ * Saved order against the optimized one
+ */
+export function compareRoutes(input: RouteInput, currentStops: RouteStop[]): RouteComparison {
+  const current = planRoute(input, currentStops);
+  const proposed = planRoute(input, optimizeRoute(input));
+
+  const improved =
+    proposed.late_stops < current.late_stops ||
+    (current.over_capacity && !proposed.over_capacity) ||
+    (proposed.late_stops === current.late_stops && proposed.total_miles < current.total_miles);
+
+  return {
+    current,
+    proposed: improved ? proposed : current,
+    miles_saved: improved ? current.total_miles - proposed.total_miles : 0,
+    late_stops_avoided: improved ? current.late_stops - proposed.late_stops : 0,
+    improved,
+  };
+}
+
+/**
+ * Stop positions to save through reorderTripLoads: loads ordered by
+ * delivery, each with its pickup and delivery position in the stop sequence
+ */
+export function routeStopIndexes(
+  stops: RouteStop[]
+): { load_id: string; sequence_index: number; pickup_stop_index: number | null; delivery_stop_index: number }[] {
+  const pickupIndex = new Map<string, number>();
+  stops.forEach((stop, index) => {
+    if (stop.type === 'pickup') pickupIndex.set(stop.load_id, index);
+  });
+
+  return stops
+    .map((stop, index) => ({ stop, index }))
+    .filter(({ stop }) => stop.type === 'delivery')
+    .map(({ stop, index }, sequence) => ({
+      load_id: stop.load_id,
+      sequence_index: sequence,
+      pickup_stop_index: pickupIndex.get(stop.load_id) ?? null,
+      delivery_stop_index: index,
+    }));
+}
+
+function greedyRoute(
+  input: RouteInput,
+  stops: RouteStop[],
+  loadsById: Map<string, RouteLoad>
+): { stops: RouteStop[]; late: number; miles: number } | null {
+  let state = initialState(input);
+  let left = [...stops];
+  const route: RouteStop[] = [];
+  const pickedUp = new Set(input.loads.filter((load) => load.picked_up).map((load) => load.id));
+
+  while (left.length > 0) {
+    let choice: { stop: RouteStop; next: ReturnType<typeof visit> } | null = null;
+    for (const stop of left) {
+      if (stop.type === 'delivery' && !pickedUp.has(stop.load_id)) continue;
+      const next = visit(state, input, loadsById.get(stop.load_id)!, stop.type);
+      if (overCapacity(input, next.state.onboard)) continue;
+      if (
+        !choice ||
+        next.state.late < choice.next.state.late ||
+        (next.state.late === choice.next.state.late && next.state.miles < choice.next.state.miles)
+      ) {
+        choice = { stop, next };
+      }
+    }
+
+    if (!choice) return null;
+    route.push(choice.stop);
+    if (choice.stop.type === 'pickup') pickedUp.add(choice.stop.load_id);
+    state = choice.next.state;
+    left = left.filter((stop) => stop !== choice!.stop);
+  }
+
+  const endMiles = input.end && state.position ? calculateDistance(state.position, input.end) : 0;
+  return { stops: route, late: state.late, miles: state.miles + endMiles };
+}
+
+function initialState(input: RouteInput): SearchState {
+  return {
+    position: input.start,
+    clock: startOfWorkday(new Date(input.departure).getTime()),
+    onboard: input.loads.filter((load) => load.picked_up).reduce((sum, load) => sum + load.cubic_feet, 0),
+    miles: 0,
+    late: 0,
+  };
+}
+
+function visit(
+  state: SearchState,
+  input: RouteInput,
+  load: RouteLoad,
+  type: RouteStopType
+): { state: SearchState; arrival: number } {
+  const location = stopLocation(load, type);
+  const miles = legMiles(state.position, location);
+  let arrival = addWorkHours(state.clock, miles / AVERAGE_SPEED_MPH);
+
+  const earliest = type === 'pickup' ? load.pickup_earliest : load.delivery_earliest;
+  const latest = type === 'pickup' ? load.pickup_latest : load.delivery_deadline;
+  if (earliest) arrival = Math.max(arrival, startOfWorkday(Date.parse(earliest)));
+  const late = latest !== null && arrival > Date.parse(latest);
+
+  return {
+    arrival,
+    state: {
+      position: location ?? state.position,
+      clock: addWorkHours(arrival, STOP_HOURS),
+      onboard: state.onboard + (type === 'pickup' ? load.cubic_feet : -load.cubic_feet),
+      miles: state.miles + miles,
+      late: state.late + (late ? 1 : 0),
+    },
+  };
+}
+
+function stopLocation(load: RouteLoad, type: RouteStopType): GeoCoordinates | null {
+  return type === 'pickup' ? load.pickup : load.delivery;
+}
+
+// Unlocated stops count as zero miles so they don't skew the order
+function legMiles(from: GeoCoordinates | null, to: GeoCoordinates | null): number {
+  return from && to ? calculateDistance(from, to) : 0;
+}
+
+function overCapacity(input: RouteInput, onboard: number): boolean {
+  return input.capacity_cuft > 0 && onboard > input.capacity_cuft;
+}
+
+/**
+ * The given time, or the start of the next workday when it falls outside one
+ */
+function startOfWorkday(time: number): number {
+  const date = new Date(time);
+  const hour = date.getUTCHours() + date.getUTCMinutes() / 60;
+  if (hour < WORKDAY_START_HOUR) {
+    date.setUTCHours(WORKDAY_START_HOUR, 0, 0, 0);
+  } else if (hour >= WORKDAY_START_HOUR + WORKDAY_HOURS) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    date.setUTCHours(WORKDAY_START_HOUR, 0, 0, 0);
+  }
+  return date.getTime();
+}
+
+/**
+ * Advance a clock by working hours, carrying anything past the end of the
+ * workday over to the next morning
+ */
+function addWorkHours(time: number, hours: number): number {
+  let clock = startOfWorkday(time);
+  let remaining = hours;
+
+  while (remaining > 0) {
+    const date = new Date(clock);
+    const dayEnd = Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      WORKDAY_START_HOUR + WORKDAY_HOURS
+    );
+    const available = (dayEnd - clock) / 3_600_000;
+    if (remaining < available) return clock + remaining * 3_600_000;
+    remaining -= available;
+    clock = startOfWorkday(dayEnd);
+  }
+
+  return clock;
+}
@@ -0,0 +1,67 @@
+export interface SendSmsOptions {
+  to: string;
+  body: string;
+}
+
+function getTwilioConfig(): { accountSid: string; authToken: string; from: string } | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+
+  if (!accountSid || !authToken || !from) {
+    return null;
+  }
+  return { accountSid, authToken, from };
+}
+
+// US numbers are stored however they were typed; Twilio wants E.164
+export function normalizePhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (phone.trim().startsWith('+') && digits.length >= 10) return `+${digits}`;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+export async function sendSms(
+  options: SendSmsOptions
+): Promise<{ success: boolean; error?: string }> {
+  const config = getTwilioConfig();
+
+  // Skip if not configured (development)
+  if (!config) {
+    console.log('[SMS] Skipping SMS (no Twilio config):', options.body.slice(0, 40));
+    return { success: true };
+  }
+
+  const to = normalizePhoneNumber(options.to);
+  if (!to) {
+    return { success: false, error: 'Invalid phone number' };
+  }
+
+  try {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: config.from, Body: options.body }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => null)) as { message?: string } | null;
+      console.error('[SMS] Send error:', error);
+      return { success: false, error: error?.message || `Twilio responded ${response.status}` };
+    }
+
+    console.log('[SMS] Sent successfully');
+    return { success: true };
+  } catch (error) {
+    console.error('[SMS] Exception:', error);
+    return { success: false, error: String(error) };
+  }
+}
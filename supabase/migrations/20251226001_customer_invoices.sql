@@ -0,0 +1,137 @@
+-- Customer Invoices: numbered invoices generated from delivered loads for a partner company
+-- Invoices replace ad-hoc settlement receivables as the source of accounts receivable.
+-- Sending an invoice raises a receivable linked back through receivables.invoice_id.
+
+BEGIN;
+
+-- Global sequence for invoice numbers (INV-000001 format)
+CREATE SEQUENCE IF NOT EXISTS global_invoice_number_seq
+  START WITH 1
+  INCREMENT BY 1
+  NO MAXVALUE
+  NO CYCLE;
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE RESTRICT,
+  invoice_number TEXT NOT NULL UNIQUE,
+
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'void')),
+
+  -- Terms are copied from the partnership at creation so later edits don't move due dates
+  payment_terms TEXT NOT NULL DEFAULT 'net_30',
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE NOT NULL,
+
+  total_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  amount_paid NUMERIC(14,2) NOT NULL DEFAULT 0,
+
+  notes TEXT,
+  sent_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  voided_at TIMESTAMPTZ,
+  void_reason TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_owner_id ON public.invoices(owner_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_company_id ON public.invoices(company_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON public.invoices(status) WHERE status IN ('sent', 'partially_paid');
+CREATE INDEX IF NOT EXISTS idx_invoices_due_date ON public.invoices(due_date);
+
+CREATE TABLE IF NOT EXISTS public.invoice_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  load_id UUID REFERENCES public.loads(id) ON DELETE SET NULL,
+  item_type TEXT NOT NULL
+    CHECK (item_type IN ('base_revenue', 'contract_accessorials', 'extra_accessorials', 'storage', 'adjustment')),
+  description TEXT NOT NULL,
+  quantity NUMERIC(12,2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(14,2) NOT NULL DEFAULT 0,
+  amount NUMERIC(14,2) NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_id ON public.invoice_line_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_load_id ON public.invoice_line_items(load_id);
+
+-- A load can only be billed on one active invoice
+ALTER TABLE public.loads ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_loads_invoice_id ON public.loads(invoice_id) WHERE invoice_id IS NOT NULL;
+
+-- Receivables raised from an invoice point back to it
+ALTER TABLE public.receivables ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_receivables_invoice_id ON public.receivables(invoice_id);
+
+-- Function to generate the next invoice number in INV-000001 format
+CREATE OR REPLACE FUNCTION generate_invoice_number()
+RETURNS TEXT AS $$
+BEGIN
+  RETURN 'INV-' || LPAD(nextval('global_invoice_number_seq')::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL OR NEW.invoice_number = '' THEN
+    NEW.invoice_number := generate_invoice_number();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_invoice_number ON public.invoices;
+CREATE TRIGGER trigger_set_invoice_number
+  BEFORE INSERT ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION set_invoice_number();
+
+CREATE OR REPLACE FUNCTION update_invoice_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_updated_at ON public.invoices;
+CREATE TRIGGER invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_invoice_updated_at();
+
+-- RLS
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'invoices_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY invoices_owner_access ON public.invoices
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'invoice_line_items_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY invoice_line_items_owner_access ON public.invoice_line_items
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.invoices IS 'Numbered customer invoices billing delivered loads to a partner company';
+COMMENT ON COLUMN public.invoices.status IS 'draft = editable, sent = receivable raised, partially_paid/paid = payments applied, void = cancelled';
+COMMENT ON COLUMN public.invoices.payment_terms IS 'Partnership payment terms at creation (net_15, net_30, net_45, net_60, due_on_delivery)';
+COMMENT ON COLUMN public.loads.invoice_id IS 'Invoice this load is billed on (cleared when the invoice is voided)';
+COMMENT ON FUNCTION generate_invoice_number() IS 'Generates next invoice number in INV-000001 format';
+
+COMMIT;
@@ -0,0 +1,95 @@
+-- Receivable Payments: a ledger of money received from partner companies
+-- One payment (check, ACH, Zelle, ...) can be split across several receivables.
+-- Any amount not applied stays on the payment as a credit for that company.
+
+BEGIN;
+
+-- Receivables track how much has been applied so short-pays leave a balance
+ALTER TABLE public.receivables ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(14,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.receivables ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+ALTER TABLE public.receivables DROP CONSTRAINT IF EXISTS receivables_status_check;
+ALTER TABLE public.receivables ADD CONSTRAINT receivables_status_check
+  CHECK (status IN ('open', 'partial', 'paid', 'void'));
+
+-- Receivables already marked paid were paid in full
+UPDATE public.receivables SET amount_paid = amount WHERE status = 'paid' AND amount_paid = 0;
+
+CREATE INDEX IF NOT EXISTS idx_receivables_status ON public.receivables(status) WHERE status IN ('open', 'partial');
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE RESTRICT,
+
+  amount NUMERIC(14,2) NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  payment_method TEXT NOT NULL DEFAULT 'check'
+    CHECK (payment_method IN ('check', 'ach', 'zelle', 'wire', 'cash', 'other')),
+  reference_number TEXT,
+  notes TEXT,
+
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'void')),
+  voided_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_owner_id ON public.payments(owner_id);
+CREATE INDEX IF NOT EXISTS idx_payments_company_id ON public.payments(company_id);
+CREATE INDEX IF NOT EXISTS idx_payments_payment_date ON public.payments(payment_date DESC);
+
+CREATE TABLE IF NOT EXISTS public.payment_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  receivable_id UUID NOT NULL REFERENCES public.receivables(id) ON DELETE CASCADE,
+  amount NUMERIC(14,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_applications_payment_id ON public.payment_applications(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_applications_receivable_id ON public.payment_applications(receivable_id);
+
+CREATE OR REPLACE FUNCTION update_payment_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payments_updated_at ON public.payments;
+CREATE TRIGGER payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payment_updated_at();
+
+-- RLS
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_applications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'payments_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY payments_owner_access ON public.payments
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'payment_applications_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY payment_applications_owner_access ON public.payment_applications
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.payments IS 'Payments received from partner companies, split across receivables via payment_applications';
+COMMENT ON COLUMN public.payments.reference_number IS 'Check number, ACH trace or Zelle confirmation';
+COMMENT ON TABLE public.payment_applications IS 'Portion of a payment applied to a single receivable';
+COMMENT ON COLUMN public.receivables.amount_paid IS 'Sum of active payment applications against this receivable';
+
+COMMIT;
@@ -0,0 +1,242 @@
+-- Driver Settlement Statements: pay-period statements netting trip pay against
+-- recurring deductions, cash advances, reimbursements and escrow holdbacks.
+-- Used for owner-operators and contract drivers paid across several trips.
+
+BEGIN;
+
+-- Escrow settings per driver
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS escrow_holdback_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS escrow_cap NUMERIC(12,2);
+
+-- Recurring deductions (truck lease, insurance, ELD fee, ...)
+CREATE TABLE IF NOT EXISTS public.driver_deductions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  deduction_type TEXT NOT NULL DEFAULT 'other'
+    CHECK (deduction_type IN ('truck_lease', 'insurance', 'eld_fee', 'fuel_card', 'occupational_accident', 'other')),
+  description TEXT,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  frequency TEXT NOT NULL DEFAULT 'per_statement'
+    CHECK (frequency IN ('per_statement', 'weekly', 'monthly')),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_deductions_driver_id ON public.driver_deductions(driver_id) WHERE is_active = TRUE;
+
+-- Global sequence for statement numbers (DS-000001 format)
+CREATE SEQUENCE IF NOT EXISTS global_driver_statement_number_seq
+  START WITH 1
+  INCREMENT BY 1
+  NO MAXVALUE
+  NO CYCLE;
+
+CREATE TABLE IF NOT EXISTS public.driver_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  statement_number TEXT NOT NULL UNIQUE,
+
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'finalized', 'paid', 'void')),
+
+  gross_pay NUMERIC(14,2) NOT NULL DEFAULT 0,
+  reimbursements NUMERIC(14,2) NOT NULL DEFAULT 0,
+  collections NUMERIC(14,2) NOT NULL DEFAULT 0,
+  advances NUMERIC(14,2) NOT NULL DEFAULT 0,
+  deductions NUMERIC(14,2) NOT NULL DEFAULT 0,
+  escrow_holdback NUMERIC(14,2) NOT NULL DEFAULT 0,
+  escrow_release NUMERIC(14,2) NOT NULL DEFAULT 0,
+  net_pay NUMERIC(14,2) NOT NULL DEFAULT 0,
+
+  notes TEXT,
+  finalized_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  paid_method TEXT,
+  paid_reference TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_statements_owner_id ON public.driver_statements(owner_id);
+CREATE INDEX IF NOT EXISTS idx_driver_statements_driver_id ON public.driver_statements(driver_id, period_end DESC);
+
+CREATE TABLE IF NOT EXISTS public.driver_statement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  statement_id UUID NOT NULL REFERENCES public.driver_statements(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  category TEXT NOT NULL
+    CHECK (category IN ('trip_pay', 'reimbursement', 'collection', 'advance', 'deduction', 'escrow_holdback', 'escrow_release')),
+  description TEXT NOT NULL,
+  -- Signed: positive adds to driver pay, negative is withheld
+  amount NUMERIC(14,2) NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_statement_lines_statement_id ON public.driver_statement_lines(statement_id);
+
+-- Cash advances taken on the road, recovered on the next statement
+CREATE TABLE IF NOT EXISTS public.driver_advances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  advance_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL DEFAULT 'cash'
+    CHECK (method IN ('cash', 'comchek', 'efs', 'fuel_card', 'other')),
+  description TEXT,
+  statement_id UUID REFERENCES public.driver_statements(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_advances_driver_id ON public.driver_advances(driver_id);
+CREATE INDEX IF NOT EXISTS idx_driver_advances_open ON public.driver_advances(driver_id) WHERE statement_id IS NULL;
+
+-- Escrow ledger: holdbacks add to the balance, releases pay it back out
+CREATE TABLE IF NOT EXISTS public.driver_escrow_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  statement_id UUID REFERENCES public.driver_statements(id) ON DELETE CASCADE,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('holdback', 'release')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_escrow_transactions_driver_id ON public.driver_escrow_transactions(driver_id);
+
+-- A trip is settled on one statement
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS driver_statement_id UUID REFERENCES public.driver_statements(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_trips_driver_statement_id ON public.trips(driver_statement_id) WHERE driver_statement_id IS NOT NULL;
+
+-- Function to generate the next statement number in DS-000001 format
+CREATE OR REPLACE FUNCTION generate_driver_statement_number()
+RETURNS TEXT AS $$
+BEGIN
+  RETURN 'DS-' || LPAD(nextval('global_driver_statement_number_seq')::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_driver_statement_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.statement_number IS NULL OR NEW.statement_number = '' THEN
+    NEW.statement_number := generate_driver_statement_number();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_driver_statement_number ON public.driver_statements;
+CREATE TRIGGER trigger_set_driver_statement_number
+  BEFORE INSERT ON public.driver_statements
+  FOR EACH ROW
+  EXECUTE FUNCTION set_driver_statement_number();
+
+CREATE OR REPLACE FUNCTION update_driver_statement_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS driver_statements_updated_at ON public.driver_statements;
+CREATE TRIGGER driver_statements_updated_at
+  BEFORE UPDATE ON public.driver_statements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_driver_statement_updated_at();
+
+DROP TRIGGER IF EXISTS driver_deductions_updated_at ON public.driver_deductions;
+CREATE TRIGGER driver_deductions_updated_at
+  BEFORE UPDATE ON public.driver_deductions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_driver_statement_updated_at();
+
+-- RLS
+ALTER TABLE public.driver_deductions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_statement_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_advances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_escrow_transactions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'driver_deductions_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY driver_deductions_owner_access ON public.driver_deductions
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'driver_statements_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY driver_statements_owner_access ON public.driver_statements
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'driver_statement_lines_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY driver_statement_lines_owner_access ON public.driver_statement_lines
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'driver_advances_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY driver_advances_owner_access ON public.driver_advances
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'driver_escrow_transactions_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY driver_escrow_transactions_owner_access ON public.driver_escrow_transactions
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+-- Drivers can read their own finalized statements from the mobile app
+DROP POLICY IF EXISTS driver_statements_driver_select_policy ON public.driver_statements;
+CREATE POLICY driver_statements_driver_select_policy
+  ON public.driver_statements
+  FOR SELECT
+  USING (status IN ('finalized', 'paid') AND public.is_trip_driver(driver_id));
+
+DROP POLICY IF EXISTS driver_statement_lines_driver_select_policy ON public.driver_statement_lines;
+CREATE POLICY driver_statement_lines_driver_select_policy
+  ON public.driver_statement_lines
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.driver_statements s
+      WHERE s.id = statement_id
+      AND s.status IN ('finalized', 'paid')
+      AND public.is_trip_driver(s.driver_id)
+    )
+  );
+
+COMMENT ON TABLE public.driver_statements IS 'Pay-period settlement statements for a driver covering one or more trips';
+COMMENT ON COLUMN public.driver_statements.net_pay IS 'gross_pay + reimbursements + escrow_release - collections - advances - deductions - escrow_holdback';
+COMMENT ON TABLE public.driver_deductions IS 'Recurring deductions taken from driver statements (truck lease, insurance, ELD fee, ...)';
+COMMENT ON COLUMN public.driver_deductions.frequency IS 'per_statement = every statement, weekly = once per started week, monthly = on statements covering the 1st of a month';
+COMMENT ON TABLE public.driver_advances IS 'Cash advances paid to a driver, recovered on the statement they are linked to';
+COMMENT ON COLUMN public.drivers.escrow_holdback_amount IS 'Amount withheld into escrow on each statement until escrow_cap is reached';
+COMMENT ON FUNCTION generate_driver_statement_number() IS 'Generates next driver statement number in DS-000001 format';
+
+COMMIT;
@@ -0,0 +1,92 @@
+-- Helpers: day labor hired at origin and destination, attached to a load's
+-- loading or delivery event. Helper labor is costed into trip financials.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.helpers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
+  first_name TEXT NOT NULL,
+  last_name TEXT,
+  phone TEXT,
+  home_city TEXT,
+  home_state TEXT,
+  rate_type TEXT NOT NULL DEFAULT 'hourly'
+    CHECK (rate_type IN ('hourly', 'flat')),
+  rate NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (rate >= 0),
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'inactive')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_helpers_owner_id ON public.helpers(owner_id);
+
+-- One row per helper per load event. Rate is copied from the helper when
+-- attached so later rate changes don't rewrite past labor cost.
+CREATE TABLE IF NOT EXISTS public.load_helpers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  helper_id UUID NOT NULL REFERENCES public.helpers(id) ON DELETE RESTRICT,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('loading', 'delivery')),
+  work_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  hours NUMERIC(6,2) CHECK (hours IS NULL OR hours >= 0),
+  rate_type TEXT NOT NULL CHECK (rate_type IN ('hourly', 'flat')),
+  rate NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (rate >= 0),
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  notes TEXT,
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_load_helpers_load_id ON public.load_helpers(load_id);
+CREATE INDEX IF NOT EXISTS idx_load_helpers_helper_id ON public.load_helpers(helper_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_load_helpers_owner_work_date ON public.load_helpers(owner_id, work_date);
+
+-- Helper labor rolled up per trip alongside fuel/tolls/other
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS helper_labor_total NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_helpers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS helpers_updated_at ON public.helpers;
+CREATE TRIGGER helpers_updated_at
+  BEFORE UPDATE ON public.helpers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_helpers_updated_at();
+
+-- RLS
+ALTER TABLE public.helpers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.load_helpers ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'helpers_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY helpers_owner_access ON public.helpers
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_helpers_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY load_helpers_owner_access ON public.load_helpers
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.helpers IS 'Day labor roster - helpers hired at origin and destination';
+COMMENT ON TABLE public.load_helpers IS 'Helper labor on a load''s loading or delivery event';
+COMMENT ON COLUMN public.load_helpers.amount IS 'hours * rate for hourly helpers, rate for flat helpers';
+COMMENT ON COLUMN public.trips.helper_labor_total IS 'Sum of load_helpers.amount for the trip''s loads';
+
+COMMIT;
@@ -0,0 +1,89 @@
+-- Household goods descriptive inventory: one row per tagged item on a load.
+-- Built by the driver during loading and checked off at delivery.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.load_inventory_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  tag_number TEXT NOT NULL,
+  room TEXT,
+  description TEXT NOT NULL,
+  -- Standard HHG exception symbols recorded at origin (BE, SC, MAR, ...)
+  condition_codes TEXT[] NOT NULL DEFAULT '{}',
+  condition_notes TEXT,
+  -- Cartons covered by this tag line; 0 for furniture/loose items
+  carton_count INTEGER NOT NULL DEFAULT 0 CHECK (carton_count >= 0),
+  is_high_value BOOLEAN NOT NULL DEFAULT FALSE,
+  declared_value NUMERIC(12,2) CHECK (declared_value IS NULL OR declared_value >= 0),
+  -- id of the matching entry in loads.pre_existing_damages
+  damage_item_id TEXT,
+  delivery_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (delivery_status IN ('pending', 'delivered', 'exception')),
+  delivery_exception TEXT
+    CHECK (delivery_exception IS NULL OR delivery_exception IN ('missing', 'damaged', 'refused', 'other')),
+  delivery_notes TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_by_driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (load_id, tag_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_load_inventory_items_load_id ON public.load_inventory_items(load_id);
+CREATE INDEX IF NOT EXISTS idx_load_inventory_items_owner_id ON public.load_inventory_items(owner_id);
+
+CREATE OR REPLACE FUNCTION update_load_inventory_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS load_inventory_items_updated_at ON public.load_inventory_items;
+CREATE TRIGGER load_inventory_items_updated_at
+  BEFORE UPDATE ON public.load_inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_load_inventory_items_updated_at();
+
+-- RLS
+ALTER TABLE public.load_inventory_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_inventory_items_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY load_inventory_items_owner_access ON public.load_inventory_items
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+-- Drivers build and check off the inventory for loads on their trips
+DROP POLICY IF EXISTS load_inventory_items_driver_access ON public.load_inventory_items;
+CREATE POLICY load_inventory_items_driver_access
+  ON public.load_inventory_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.trip_loads tl
+      JOIN public.trips t ON t.id = tl.trip_id
+      WHERE tl.load_id = load_inventory_items.load_id
+      AND public.is_trip_driver(t.driver_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.trip_loads tl
+      JOIN public.trips t ON t.id = tl.trip_id
+      WHERE tl.load_id = load_inventory_items.load_id
+      AND public.is_trip_driver(t.driver_id)
+    )
+  );
+
+COMMENT ON TABLE public.load_inventory_items IS 'Descriptive household goods inventory per load, checked off at delivery';
+COMMENT ON COLUMN public.load_inventory_items.damage_item_id IS 'Links to an entry in loads.pre_existing_damages';
+
+COMMIT;
@@ -0,0 +1,176 @@
+-- Cargo Claims: damage and loss claims filed against a load by the customer or
+-- a partner company. Claims reference inventory tags and damage photos, track
+-- claimed/offered/settled amounts, who bears the cost, a status timeline and the
+-- acknowledge (30 day) and resolve (120 day) deadlines. A driver chargeback can
+-- flow into the driver's settlement as a one-time driver deduction.
+
+BEGIN;
+
+-- Allow claim chargebacks as a driver deduction type
+ALTER TABLE public.driver_deductions DROP CONSTRAINT IF EXISTS driver_deductions_deduction_type_check;
+ALTER TABLE public.driver_deductions ADD CONSTRAINT driver_deductions_deduction_type_check
+  CHECK (deduction_type IN ('truck_lease', 'insurance', 'eld_fee', 'fuel_card', 'occupational_accident', 'claim_chargeback', 'other'));
+
+-- One-time deductions (claim chargebacks) are taken by the first statement
+-- that reaches their date and then marked with that statement
+ALTER TABLE public.driver_deductions
+  ADD COLUMN IF NOT EXISTS is_one_time BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS statement_id UUID REFERENCES public.driver_statements(id) ON DELETE SET NULL;
+
+-- Global sequence for claim numbers (CLM-000001 format)
+CREATE SEQUENCE IF NOT EXISTS global_cargo_claim_number_seq
+  START WITH 1
+  INCREMENT BY 1
+  NO MAXVALUE
+  NO CYCLE;
+
+CREATE TABLE IF NOT EXISTS public.cargo_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claim_number TEXT NOT NULL,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL,
+  claim_type TEXT NOT NULL DEFAULT 'damage'
+    CHECK (claim_type IN ('damage', 'loss', 'shortage', 'other')),
+  claimant_type TEXT NOT NULL DEFAULT 'customer'
+    CHECK (claimant_type IN ('customer', 'partner', 'other')),
+  claimant_name TEXT NOT NULL,
+  claimant_company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'filed'
+    CHECK (status IN ('filed', 'acknowledged', 'under_review', 'offered', 'settled', 'denied', 'closed')),
+  claimed_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (claimed_amount >= 0),
+  offered_amount NUMERIC(12,2) CHECK (offered_amount >= 0),
+  settled_amount NUMERIC(12,2) CHECK (settled_amount >= 0),
+  liability TEXT CHECK (liability IN ('carrier', 'driver_chargeback', 'insurance')),
+  chargeback_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (chargeback_amount >= 0),
+  driver_deduction_id UUID REFERENCES public.driver_deductions(id) ON DELETE SET NULL,
+  insurance_claim_number TEXT,
+  filed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  acknowledge_by DATE NOT NULL,
+  resolve_by DATE NOT NULL,
+  acknowledged_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(claim_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cargo_claims_owner_status ON public.cargo_claims(owner_id, status);
+CREATE INDEX IF NOT EXISTS idx_cargo_claims_load_id ON public.cargo_claims(load_id);
+CREATE INDEX IF NOT EXISTS idx_cargo_claims_driver_id ON public.cargo_claims(driver_id) WHERE driver_id IS NOT NULL;
+
+-- Inventory tags and damage photos a claim refers to
+CREATE TABLE IF NOT EXISTS public.cargo_claim_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claim_id UUID NOT NULL REFERENCES public.cargo_claims(id) ON DELETE CASCADE,
+  inventory_item_id UUID REFERENCES public.load_inventory_items(id) ON DELETE SET NULL,
+  photo_id UUID REFERENCES public.load_photos(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  claimed_amount NUMERIC(12,2) CHECK (claimed_amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cargo_claim_items_claim_id ON public.cargo_claim_items(claim_id);
+
+-- Status timeline
+CREATE TABLE IF NOT EXISTS public.cargo_claim_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claim_id UUID NOT NULL REFERENCES public.cargo_claims(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL
+    CHECK (event_type IN ('filed', 'acknowledged', 'under_review', 'offered', 'settled', 'denied', 'closed', 'note')),
+  amount NUMERIC(12,2),
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cargo_claim_events_claim_id ON public.cargo_claim_events(claim_id, created_at);
+
+-- Function to generate the next claim number in CLM-000001 format
+CREATE OR REPLACE FUNCTION generate_cargo_claim_number()
+RETURNS TEXT AS $$
+BEGIN
+  RETURN 'CLM-' || LPAD(nextval('global_cargo_claim_number_seq')::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_cargo_claim_defaults()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.claim_number IS NULL OR NEW.claim_number = '' THEN
+    NEW.claim_number := generate_cargo_claim_number();
+  END IF;
+  IF NEW.acknowledge_by IS NULL THEN
+    NEW.acknowledge_by := NEW.filed_on + 30;
+  END IF;
+  IF NEW.resolve_by IS NULL THEN
+    NEW.resolve_by := NEW.filed_on + 120;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_cargo_claim_defaults ON public.cargo_claims;
+CREATE TRIGGER trigger_set_cargo_claim_defaults
+  BEFORE INSERT ON public.cargo_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION set_cargo_claim_defaults();
+
+CREATE OR REPLACE FUNCTION update_cargo_claim_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS cargo_claims_updated_at ON public.cargo_claims;
+CREATE TRIGGER cargo_claims_updated_at
+  BEFORE UPDATE ON public.cargo_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION update_cargo_claim_updated_at();
+
+-- RLS
+ALTER TABLE public.cargo_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cargo_claim_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cargo_claim_events ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'cargo_claims_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY cargo_claims_owner_access ON public.cargo_claims
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'cargo_claim_items_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY cargo_claim_items_owner_access ON public.cargo_claim_items
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'cargo_claim_events_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY cargo_claim_events_owner_access ON public.cargo_claim_events
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.cargo_claims IS 'Cargo damage and loss claims filed against a load';
+COMMENT ON COLUMN public.cargo_claims.acknowledge_by IS 'Claim must be acknowledged in writing within 30 days of filing';
+COMMENT ON COLUMN public.cargo_claims.resolve_by IS 'Claim must be paid, declined or offered a compromise within 120 days of filing';
+COMMENT ON COLUMN public.cargo_claims.chargeback_amount IS 'Portion of the settlement charged back to the driver';
+COMMENT ON COLUMN public.cargo_claims.driver_deduction_id IS 'One-time claim_chargeback deduction taken on the first driver statement on or after the chargeback date';
+COMMENT ON COLUMN public.driver_deductions.statement_id IS 'Statement that took a one-time deduction; it is not charged again';
+COMMENT ON TABLE public.cargo_claim_items IS 'Inventory tags and damage photos referenced by a claim';
+COMMENT ON TABLE public.cargo_claim_events IS 'Status timeline for a cargo claim';
+COMMENT ON FUNCTION generate_cargo_claim_number() IS 'Generates next cargo claim number in CLM-000001 format';
+
+COMMIT;
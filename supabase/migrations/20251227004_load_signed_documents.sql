@@ -0,0 +1,76 @@
+-- Electronically signed load paperwork: the bill of lading signed at pickup and
+-- the delivery receipt signed at delivery. The generated PDF is also filed in
+-- load_photos so it shows with the rest of the load documents.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.load_signed_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL CHECK (document_type IN ('bol', 'delivery_receipt')),
+  signer_name TEXT NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL,
+  latitude NUMERIC(10, 7),
+  longitude NUMERIC(10, 7),
+  -- Captured pen strokes: [[[x, y], ...], ...] in the capture pad's coordinate space
+  signature_strokes JSONB NOT NULL,
+  signature_width NUMERIC(8, 2) NOT NULL,
+  signature_height NUMERIC(8, 2) NOT NULL,
+  -- Amounts printed on the document, kept as signed
+  accessorials_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  balance_collected NUMERIC(12,2) NOT NULL DEFAULT 0,
+  pdf_url TEXT NOT NULL,
+  load_photo_id UUID REFERENCES public.load_photos(id) ON DELETE SET NULL,
+  created_by_driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_load_signed_documents_load_id ON public.load_signed_documents(load_id);
+CREATE INDEX IF NOT EXISTS idx_load_signed_documents_owner_id ON public.load_signed_documents(owner_id);
+
+-- RLS
+ALTER TABLE public.load_signed_documents ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_signed_documents_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY load_signed_documents_owner_access ON public.load_signed_documents
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+-- Drivers capture signatures for loads on their trips; signed documents are never edited
+DROP POLICY IF EXISTS load_signed_documents_driver_select ON public.load_signed_documents;
+CREATE POLICY load_signed_documents_driver_select
+  ON public.load_signed_documents
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.trip_loads tl
+      JOIN public.trips t ON t.id = tl.trip_id
+      WHERE tl.load_id = load_signed_documents.load_id
+      AND public.is_trip_driver(t.driver_id)
+    )
+  );
+
+DROP POLICY IF EXISTS load_signed_documents_driver_insert ON public.load_signed_documents;
+CREATE POLICY load_signed_documents_driver_insert
+  ON public.load_signed_documents
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.trip_loads tl
+      JOIN public.trips t ON t.id = tl.trip_id
+      WHERE tl.load_id = load_signed_documents.load_id
+      AND public.is_trip_driver(t.driver_id)
+    )
+  );
+
+COMMENT ON TABLE public.load_signed_documents IS 'Signed BOLs and delivery receipts captured in the driver app';
+COMMENT ON COLUMN public.load_signed_documents.signature_strokes IS 'Vector pen strokes as drawn on the device, used to render the signature into the PDF';
+COMMENT ON COLUMN public.load_signed_documents.load_photo_id IS 'load_photos row that files the PDF with the load documents';
+
+COMMIT;
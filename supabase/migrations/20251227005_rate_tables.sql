@@ -0,0 +1,107 @@
+-- Tariffs / rate tables used to quote loads. A table belongs to a partner company
+-- (or is the company-wide default when company_id is NULL) and prices by cubic
+-- feet bands, mileage bands or origin/destination state lanes. Each table carries
+-- a minimum charge, a fuel surcharge percentage and standard accessorial prices.
+-- Loads remember which table and rule priced them.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.rate_tables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL = default company tariff used when a partner has no table of its own
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  pricing_basis TEXT NOT NULL DEFAULT 'cuft_band'
+    CHECK (pricing_basis IN ('cuft_band', 'mileage_band', 'lane')),
+  minimum_charge NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (minimum_charge >= 0),
+  fuel_surcharge_percent NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (fuel_surcharge_percent >= 0),
+  stairs_per_flight NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (stairs_per_flight >= 0),
+  long_carry_per_50ft NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (long_carry_per_50ft >= 0),
+  shuttle_charge NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (shuttle_charge >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One active table per partner, and one active default tariff
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_tables_active_company
+  ON public.rate_tables(owner_id, company_id)
+  WHERE is_active AND company_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_tables_active_default
+  ON public.rate_tables(owner_id)
+  WHERE is_active AND company_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_rate_tables_owner_id ON public.rate_tables(owner_id);
+
+CREATE TABLE IF NOT EXISTS public.rate_table_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rate_table_id UUID NOT NULL REFERENCES public.rate_tables(id) ON DELETE CASCADE,
+  -- Band bounds: min inclusive, max exclusive, NULL max = open ended
+  min_cuft NUMERIC(10,2) CHECK (min_cuft >= 0),
+  max_cuft NUMERIC(10,2) CHECK (max_cuft >= 0),
+  min_miles NUMERIC(10,2) CHECK (min_miles >= 0),
+  max_miles NUMERIC(10,2) CHECK (max_miles >= 0),
+  -- Lane: two-letter state codes, NULL matches any state
+  origin_state TEXT,
+  destination_state TEXT,
+  rate_per_cuft NUMERIC(10,4) NOT NULL CHECK (rate_per_cuft >= 0),
+  -- Overrides the table minimum for loads priced by this rule
+  minimum_charge NUMERIC(12,2) CHECK (minimum_charge >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_table_rules_table ON public.rate_table_rules(rate_table_id, sort_order);
+
+-- Pricing trace on loads
+ALTER TABLE public.loads
+  ADD COLUMN IF NOT EXISTS rate_table_id UUID REFERENCES public.rate_tables(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rate_table_rule_id UUID REFERENCES public.rate_table_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pricing_rule TEXT,
+  ADD COLUMN IF NOT EXISTS linehaul_minimum NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS fuel_surcharge_percent NUMERIC(5,2);
+
+CREATE OR REPLACE FUNCTION update_rate_tables_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rate_tables_updated_at ON public.rate_tables;
+CREATE TRIGGER rate_tables_updated_at
+  BEFORE UPDATE ON public.rate_tables
+  FOR EACH ROW
+  EXECUTE FUNCTION update_rate_tables_updated_at();
+
+-- RLS
+ALTER TABLE public.rate_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_table_rules ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'rate_tables_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY rate_tables_owner_access ON public.rate_tables
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'rate_table_rules_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY rate_table_rules_owner_access ON public.rate_table_rules
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.rate_tables IS 'Tariffs for quoting loads, per partner company or company-wide default';
+COMMENT ON TABLE public.rate_table_rules IS 'Cuft band, mileage band or state lane rates within a rate table';
+COMMENT ON COLUMN public.loads.pricing_rule IS 'Human-readable description of the tariff rule that priced the load';
+COMMENT ON COLUMN public.loads.linehaul_minimum IS 'Tariff minimum charge; base revenue is never less than this';
+COMMENT ON COLUMN public.loads.fuel_surcharge_percent IS 'Fuel surcharge percentage quoted from the tariff';
+
+COMMIT;
@@ -0,0 +1,90 @@
+-- Company diesel price table and fuel surcharge schedule. Weekly diesel prices
+-- drive the matching engine's fuel cost estimate (price / truck MPG) and an
+-- automatically computed fuel surcharge on load revenue, either cents per mile
+-- or percent of linehaul for every price increment above the base price.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.fuel_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  effective_date DATE NOT NULL,
+  price_per_gallon NUMERIC(6,3) NOT NULL CHECK (price_per_gallon > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (owner_id, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_prices_owner_date ON public.fuel_prices(owner_id, effective_date DESC);
+
+CREATE TABLE IF NOT EXISTS public.fuel_surcharge_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL DEFAULT 'none'
+    CHECK (method IN ('none', 'cents_per_mile', 'percent_of_linehaul')),
+  -- No surcharge at or below this diesel price
+  base_price NUMERIC(6,3) NOT NULL DEFAULT 3.000 CHECK (base_price >= 0),
+  increment NUMERIC(6,3) NOT NULL DEFAULT 0.050 CHECK (increment > 0),
+  cents_per_mile_per_increment NUMERIC(6,3) NOT NULL DEFAULT 1.000 CHECK (cents_per_mile_per_increment >= 0),
+  percent_per_increment NUMERIC(5,2) NOT NULL DEFAULT 0.50 CHECK (percent_per_increment >= 0),
+  -- Used for fuel cost estimates when a truck has no MPG recorded
+  default_mpg NUMERIC(5,2) NOT NULL DEFAULT 6.50 CHECK (default_mpg > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.trucks
+  ADD COLUMN IF NOT EXISTS mpg NUMERIC(5,2) CHECK (mpg > 0);
+
+ALTER TABLE public.loads
+  ADD COLUMN IF NOT EXISTS fuel_surcharge_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS fuel_price_used NUMERIC(6,3);
+
+-- Invoices carry the fuel surcharge as its own line
+ALTER TABLE public.invoice_line_items DROP CONSTRAINT IF EXISTS invoice_line_items_item_type_check;
+ALTER TABLE public.invoice_line_items ADD CONSTRAINT invoice_line_items_item_type_check
+  CHECK (item_type IN ('base_revenue', 'contract_accessorials', 'extra_accessorials', 'storage', 'fuel_surcharge', 'adjustment'));
+
+CREATE OR REPLACE FUNCTION update_fuel_surcharge_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS fuel_surcharge_settings_updated_at ON public.fuel_surcharge_settings;
+CREATE TRIGGER fuel_surcharge_settings_updated_at
+  BEFORE UPDATE ON public.fuel_surcharge_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fuel_surcharge_settings_updated_at();
+
+-- RLS
+ALTER TABLE public.fuel_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fuel_surcharge_settings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'fuel_prices_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY fuel_prices_owner_access ON public.fuel_prices
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'fuel_surcharge_settings_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY fuel_surcharge_settings_owner_access ON public.fuel_surcharge_settings
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.fuel_prices IS 'Weekly diesel prices per gallon, entered or imported from CSV';
+COMMENT ON TABLE public.fuel_surcharge_settings IS 'Fuel surcharge schedule indexed to the diesel price table';
+COMMENT ON COLUMN public.trucks.mpg IS 'Average miles per gallon, used for fuel cost estimates';
+COMMENT ON COLUMN public.loads.fuel_surcharge_amount IS 'Fuel surcharge added to load revenue';
+COMMENT ON COLUMN public.loads.fuel_price_used IS 'Diesel price the fuel surcharge was computed from';
+
+COMMIT;
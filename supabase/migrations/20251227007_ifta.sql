@@ -0,0 +1,67 @@
+-- IFTA fuel tax reporting. Quarterly miles by jurisdiction come from the
+-- driver_locations ping history; fuel purchases come from fuel trip expenses,
+-- which now record gallons and the state the fuel was bought in. Tax rates
+-- are published per quarter, so each company keeps its own rate table.
+
+BEGIN;
+
+ALTER TABLE public.trip_expenses
+  ADD COLUMN IF NOT EXISTS gallons NUMERIC(10,3) CHECK (gallons > 0),
+  ADD COLUMN IF NOT EXISTS fuel_state TEXT CHECK (fuel_state ~ '^[A-Z]{2}$');
+
+CREATE INDEX IF NOT EXISTS idx_trip_expenses_fuel_state
+  ON public.trip_expenses(owner_id, incurred_at)
+  WHERE category = 'fuel';
+
+CREATE INDEX IF NOT EXISTS idx_driver_locations_truck_created
+  ON public.driver_locations(truck_id, created_at)
+  WHERE truck_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.ifta_tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  quarter INTEGER NOT NULL CHECK (quarter BETWEEN 1 AND 4),
+  jurisdiction TEXT NOT NULL CHECK (jurisdiction ~ '^[A-Z]{2}$'),
+  rate_per_gallon NUMERIC(6,4) NOT NULL CHECK (rate_per_gallon >= 0),
+  -- Surcharge jurisdictions (e.g. KY, IN, VA) tax every taxable gallon with no credit
+  surcharge_per_gallon NUMERIC(6,4) NOT NULL DEFAULT 0 CHECK (surcharge_per_gallon >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (owner_id, year, quarter, jurisdiction)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ifta_tax_rates_owner_quarter ON public.ifta_tax_rates(owner_id, year, quarter);
+
+CREATE OR REPLACE FUNCTION update_ifta_tax_rates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ifta_tax_rates_updated_at ON public.ifta_tax_rates;
+CREATE TRIGGER ifta_tax_rates_updated_at
+  BEFORE UPDATE ON public.ifta_tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_ifta_tax_rates_updated_at();
+
+-- RLS
+ALTER TABLE public.ifta_tax_rates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'ifta_tax_rates_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY ifta_tax_rates_owner_access ON public.ifta_tax_rates
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.ifta_tax_rates IS 'IFTA fuel tax rates per jurisdiction for a quarter';
+COMMENT ON COLUMN public.trip_expenses.gallons IS 'Gallons purchased, for fuel expenses';
+COMMENT ON COLUMN public.trip_expenses.fuel_state IS 'Jurisdiction the fuel was purchased in, for IFTA';
+
+COMMIT;
@@ -0,0 +1,39 @@
+-- Stored coordinates for loads, trips and storage locations. Addresses are
+-- geocoded against the bundled ZIP centroid dataset when they're written, so
+-- matching, the trip planner map and mileage estimates read lat/lng directly
+-- instead of geocoding on every request. storage_locations already has
+-- latitude/longitude columns.
+
+BEGIN;
+
+ALTER TABLE public.loads
+  ADD COLUMN IF NOT EXISTS pickup_lat NUMERIC(10,7),
+  ADD COLUMN IF NOT EXISTS pickup_lng NUMERIC(10,7),
+  ADD COLUMN IF NOT EXISTS delivery_lat NUMERIC(10,7),
+  ADD COLUMN IF NOT EXISTS delivery_lng NUMERIC(10,7);
+
+ALTER TABLE public.trips
+  ADD COLUMN IF NOT EXISTS origin_lat NUMERIC(10,7),
+  ADD COLUMN IF NOT EXISTS origin_lng NUMERIC(10,7),
+  ADD COLUMN IF NOT EXISTS destination_lat NUMERIC(10,7),
+  ADD COLUMN IF NOT EXISTS destination_lng NUMERIC(10,7);
+
+-- Backfill jobs look for rows that still need coordinates
+CREATE INDEX IF NOT EXISTS idx_loads_missing_pickup_coords
+  ON public.loads(owner_id)
+  WHERE pickup_lat IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trips_missing_origin_coords
+  ON public.trips(owner_id)
+  WHERE origin_lat IS NULL;
+
+COMMENT ON COLUMN public.loads.pickup_lat IS 'Pickup latitude, geocoded from the pickup address on write';
+COMMENT ON COLUMN public.loads.pickup_lng IS 'Pickup longitude, geocoded from the pickup address on write';
+COMMENT ON COLUMN public.loads.delivery_lat IS 'Delivery latitude, geocoded from the delivery address on write';
+COMMENT ON COLUMN public.loads.delivery_lng IS 'Delivery longitude, geocoded from the delivery address on write';
+COMMENT ON COLUMN public.trips.origin_lat IS 'Origin latitude, geocoded from the origin address on write';
+COMMENT ON COLUMN public.trips.origin_lng IS 'Origin longitude, geocoded from the origin address on write';
+COMMENT ON COLUMN public.trips.destination_lat IS 'Destination latitude, geocoded from the destination address on write';
+COMMENT ON COLUMN public.trips.destination_lng IS 'Destination longitude, geocoded from the destination address on write';
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Pickup and delivery stop positions for optimized trip routes. A trip's
+-- sequence_index still orders its loads for delivery; these columns place
+-- each load's pickup and delivery in the combined stop sequence so pickups
+-- can be interleaved with deliveries. NULL means the legacy order: every
+-- pickup first, then deliveries by sequence_index.
+
+BEGIN;
+
+ALTER TABLE public.trip_loads
+  ADD COLUMN IF NOT EXISTS pickup_stop_index INTEGER CHECK (pickup_stop_index >= 0),
+  ADD COLUMN IF NOT EXISTS delivery_stop_index INTEGER CHECK (delivery_stop_index >= 0);
+
+COMMENT ON COLUMN public.trip_loads.pickup_stop_index IS 'Position of the pickup in the trip stop sequence, set by route optimization';
+COMMENT ON COLUMN public.trip_loads.delivery_stop_index IS 'Position of the delivery in the trip stop sequence, set by route optimization';
+
+COMMIT;
@@ -0,0 +1,149 @@
+-- Saved load-board searches. Each search holds the lanes and limits a dispatcher
+-- watches (origin/destination radius or states, cubic feet range, minimum rate
+-- per cuft, pickup vs RFD vs live, availability dates and truck requirement).
+-- Newly posted marketplace loads are matched against every search; matches are
+-- recorded once per search so instant alerts and the daily email digest never
+-- repeat a load.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.saved_load_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Radius search around a center; states apply when no radius is set
+  origin_label TEXT,
+  origin_lat NUMERIC(10,7),
+  origin_lng NUMERIC(10,7),
+  origin_radius_miles INTEGER CHECK (origin_radius_miles > 0),
+  origin_states TEXT[] NOT NULL DEFAULT '{}',
+  destination_label TEXT,
+  destination_lat NUMERIC(10,7),
+  destination_lng NUMERIC(10,7),
+  destination_radius_miles INTEGER CHECK (destination_radius_miles > 0),
+  destination_states TEXT[] NOT NULL DEFAULT '{}',
+  min_cuft NUMERIC(10,2) CHECK (min_cuft >= 0),
+  max_cuft NUMERIC(10,2) CHECK (max_cuft >= 0),
+  min_rate_per_cuft NUMERIC(10,4) CHECK (min_rate_per_cuft >= 0),
+  load_kind TEXT NOT NULL DEFAULT 'any'
+    CHECK (load_kind IN ('any', 'pickup', 'rfd', 'live')),
+  available_from DATE,
+  available_to DATE,
+  -- The equipment the searcher runs; loads restricted to other trucks don't match
+  truck_requirement TEXT NOT NULL DEFAULT 'any'
+    CHECK (truck_requirement IN ('any', 'semi_only', 'box_truck_only')),
+  instant_alerts BOOLEAN NOT NULL DEFAULT TRUE,
+  email_digest BOOLEAN NOT NULL DEFAULT FALSE,
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_load_searches_owner_id ON public.saved_load_searches(owner_id);
+
+CREATE TABLE IF NOT EXISTS public.saved_load_search_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  search_id UUID NOT NULL REFERENCES public.saved_load_searches(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  alerted_at TIMESTAMPTZ,
+  digested_at TIMESTAMPTZ,
+  UNIQUE (search_id, load_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_load_search_matches_search
+  ON public.saved_load_search_matches(search_id, matched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_load_search_matches_undigested
+  ON public.saved_load_search_matches(owner_id)
+  WHERE digested_at IS NULL;
+
+CREATE OR REPLACE FUNCTION update_saved_load_searches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS saved_load_searches_updated_at ON public.saved_load_searches;
+CREATE TRIGGER saved_load_searches_updated_at
+  BEFORE UPDATE ON public.saved_load_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_saved_load_searches_updated_at();
+
+-- Loads posted outside the web app (mobile, direct updates) are matched by
+-- calling the API from the database. Matching is idempotent, so loads the web
+-- app already matched are skipped.
+CREATE OR REPLACE FUNCTION notify_saved_search_load_posted()
+RETURNS TRIGGER AS $$
+DECLARE
+  api_url TEXT;
+  service_key TEXT;
+BEGIN
+  IF NOT (NEW.is_marketplace_visible AND NEW.posting_status = 'posted' AND NEW.assigned_carrier_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.is_marketplace_visible AND OLD.posting_status = 'posted' THEN
+    RETURN NEW;
+  END IF;
+
+  api_url := current_setting('app.settings.api_url', true);
+  service_key := current_setting('app.settings.service_role_key', true);
+  IF api_url IS NULL OR api_url = '' OR service_key IS NULL OR service_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := api_url || '/api/saved-searches/match',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := jsonb_build_object('load_id', NEW.id)
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Never fail the load write because an alert couldn't be queued
+    RAISE WARNING 'Failed to trigger saved search matching: %', SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_saved_search_load_posted ON public.loads;
+CREATE TRIGGER trigger_saved_search_load_posted
+  AFTER INSERT OR UPDATE OF posting_status, is_marketplace_visible ON public.loads
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_saved_search_load_posted();
+
+-- RLS
+ALTER TABLE public.saved_load_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_load_search_matches ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'saved_load_searches_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY saved_load_searches_owner_access ON public.saved_load_searches
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'saved_load_search_matches_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY saved_load_search_matches_owner_access ON public.saved_load_search_matches
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.saved_load_searches IS 'Load-board searches that alert their owner when a newly posted load matches';
+COMMENT ON COLUMN public.saved_load_searches.load_kind IS 'any, pickup (pickup postings), rfd or live (load postings by subtype)';
+COMMENT ON COLUMN public.saved_load_searches.truck_requirement IS 'Equipment the searcher runs: semi_only or box_truck_only exclude loads restricted to the other truck';
+COMMENT ON COLUMN public.saved_load_searches.available_from IS 'Earliest pickup/ready date to match, inclusive';
+COMMENT ON COLUMN public.saved_load_searches.available_to IS 'Latest pickup/ready date to match, inclusive';
+COMMENT ON TABLE public.saved_load_search_matches IS 'Loads matched by a saved search; one row per search and load';
+
+COMMIT;
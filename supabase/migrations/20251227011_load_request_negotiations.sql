@@ -0,0 +1,402 @@
+-- Counter-offer negotiation threads on marketplace load requests. Each request
+-- keeps a history of offers: the carrier's counter, the poster's counter to
+-- that, and so on. Either side can attach terms (pickup date, cubic feet cap)
+-- and an expiry. Only the latest offer is open; once one side agrees, the
+-- agreed terms are stored on the request and written to the load (carrier
+-- rate, load date, cubic feet cap) when the poster accepts.
+
+BEGIN;
+
+ALTER TABLE public.load_requests
+  ADD COLUMN IF NOT EXISTS awaiting_response_from TEXT NOT NULL DEFAULT 'poster'
+    CHECK (awaiting_response_from IN ('carrier', 'poster')),
+  ADD COLUMN IF NOT EXISTS agreed_rate NUMERIC(10,4),
+  ADD COLUMN IF NOT EXISTS agreed_rate_type TEXT,
+  ADD COLUMN IF NOT EXISTS agreed_load_date DATE,
+  ADD COLUMN IF NOT EXISTS agreed_max_cuft NUMERIC(10,2);
+
+CREATE TABLE IF NOT EXISTS public.load_request_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.load_requests(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  offered_by TEXT NOT NULL CHECK (offered_by IN ('carrier', 'poster')),
+  offered_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  rate NUMERIC(10,4) NOT NULL CHECK (rate > 0),
+  rate_type TEXT NOT NULL DEFAULT 'per_cuft',
+  -- Optional terms attached to the offer
+  load_date DATE,
+  max_cuft NUMERIC(10,2) CHECK (max_cuft > 0),
+  message TEXT,
+  expires_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'accepted', 'countered', 'declined', 'expired', 'withdrawn')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_load_request_offers_request
+  ON public.load_request_offers(request_id, created_at);
+-- Only the latest offer in a thread can be answered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_load_request_offers_one_open
+  ON public.load_request_offers(request_id)
+  WHERE status = 'open';
+
+-- Counter-offer requests open their thread with the carrier's offer, whether
+-- they were created on the web or directly from the mobile app
+CREATE OR REPLACE FUNCTION open_load_request_negotiation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.request_type = 'counter_offer' AND NEW.counter_offer_rate IS NOT NULL AND NEW.status = 'pending' THEN
+    INSERT INTO public.load_request_offers (
+      request_id, load_id, offered_by, offered_by_user_id, rate, rate_type, load_date, message
+    ) VALUES (
+      NEW.id, NEW.load_id, 'carrier', NEW.carrier_owner_id, NEW.counter_offer_rate,
+      COALESCE((SELECT company_rate_type FROM public.loads WHERE id = NEW.load_id), 'per_cuft'),
+      NEW.proposed_load_date_start, NEW.message
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_open_load_request_negotiation ON public.load_requests;
+CREATE TRIGGER trigger_open_load_request_negotiation
+  AFTER INSERT ON public.load_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION open_load_request_negotiation();
+
+-- Tell the other side about counters and agreements
+CREATE OR REPLACE FUNCTION notify_load_request_offer()
+RETURNS TRIGGER AS $$
+DECLARE
+  req RECORD;
+  ld RECORD;
+  carrier_name TEXT;
+  rate_text TEXT;
+BEGIN
+  SELECT * INTO req FROM public.load_requests WHERE id = NEW.request_id;
+  SELECT id, owner_id, company_id, load_number INTO ld FROM public.loads WHERE id = NEW.load_id;
+  SELECT name INTO carrier_name FROM public.companies WHERE id = req.carrier_id;
+  rate_text := '$' || to_char(NEW.rate, 'FM999990.00') || CASE WHEN NEW.rate_type = 'per_cuft' THEN '/cf' ELSE '' END;
+
+  IF TG_OP = 'INSERT' THEN
+    -- The opening carrier offer is announced by the load request notification
+    IF NEW.offered_by = 'carrier' AND NOT EXISTS (
+      SELECT 1 FROM public.load_request_offers
+      WHERE request_id = NEW.request_id AND id <> NEW.id
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    IF NEW.offered_by = 'carrier' THEN
+      INSERT INTO public.notifications (user_id, company_id, type, title, message, load_id, request_id)
+      VALUES (
+        ld.owner_id, ld.company_id, 'load_request_countered',
+        COALESCE(carrier_name, 'Carrier') || ' countered at ' || rate_text,
+        COALESCE(ld.load_number, 'Load') || ' - Review the offer',
+        ld.id, NEW.request_id
+      );
+    ELSE
+      INSERT INTO public.notifications (user_id, company_id, type, title, message, load_id, request_id)
+      VALUES (
+        req.carrier_owner_id, req.carrier_id, 'request_countered',
+        'Counter offer: ' || rate_text,
+        COALESCE(ld.load_number, 'Load') || ' - Accept or counter in My Requests',
+        ld.id, NEW.request_id
+      );
+    END IF;
+  ELSIF NEW.status = 'accepted' AND OLD.status = 'open' AND NEW.offered_by = 'poster' THEN
+    INSERT INTO public.notifications (user_id, company_id, type, title, message, load_id, request_id)
+    VALUES (
+      ld.owner_id, ld.company_id, 'load_request_agreed',
+      COALESCE(carrier_name, 'Carrier') || ' agreed to ' || rate_text,
+      COALESCE(ld.load_number, 'Load') || ' - Accept the request to assign the load',
+      ld.id, NEW.request_id
+    );
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Never fail the negotiation because a notification couldn't be written
+    RAISE WARNING 'Failed to notify load request offer: %', SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_load_request_offer ON public.load_request_offers;
+CREATE TRIGGER trigger_notify_load_request_offer
+  AFTER INSERT OR UPDATE OF status ON public.load_request_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_load_request_offer();
+
+-- Open threads for counter offers that are still pending
+INSERT INTO public.load_request_offers (
+  request_id, load_id, offered_by, offered_by_user_id, rate, rate_type, load_date, message, created_at
+)
+SELECT r.id, r.load_id, 'carrier', r.carrier_owner_id, r.counter_offer_rate, COALESCE(l.company_rate_type, 'per_cuft'),
+  r.proposed_load_date_start, r.message, r.created_at
+FROM public.load_requests r
+LEFT JOIN public.loads l ON l.id = r.load_id
+WHERE r.request_type = 'counter_offer'
+  AND r.counter_offer_rate IS NOT NULL
+  AND r.status = 'pending'
+  AND NOT EXISTS (SELECT 1 FROM public.load_request_offers o WHERE o.request_id = r.id);
+
+-- Side of a request the current user is on: carrier, poster or NULL
+CREATE OR REPLACE FUNCTION public.load_request_party(p_request_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN r.carrier_owner_id = auth.uid() THEN 'carrier'
+    WHEN l.owner_id = auth.uid() THEN 'poster'
+  END
+  FROM public.load_requests r
+  JOIN public.loads l ON l.id = r.load_id
+  WHERE r.id = p_request_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Agreed terms are copied from an accepted offer, never written by the
+-- carrier directly. Carriers counter and agree through the functions below,
+-- which run as the function owner and so pass this check.
+CREATE OR REPLACE FUNCTION guard_load_request_negotiation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.agreed_rate IS NOT NULL OR NEW.agreed_rate_type IS NOT NULL
+      OR NEW.agreed_load_date IS NOT NULL OR NEW.agreed_max_cuft IS NOT NULL
+      OR NEW.awaiting_response_from <> 'poster'
+    THEN
+      RAISE EXCEPTION 'New requests cannot carry agreed terms';
+    END IF;
+  ELSIF public.load_request_party(OLD.id) = 'carrier' AND (
+    NEW.agreed_rate IS DISTINCT FROM OLD.agreed_rate
+    OR NEW.agreed_rate_type IS DISTINCT FROM OLD.agreed_rate_type
+    OR NEW.agreed_load_date IS DISTINCT FROM OLD.agreed_load_date
+    OR NEW.agreed_max_cuft IS DISTINCT FROM OLD.agreed_max_cuft
+    OR NEW.awaiting_response_from IS DISTINCT FROM OLD.awaiting_response_from
+  ) THEN
+    RAISE EXCEPTION 'Negotiated terms can only change by answering an offer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_load_request_negotiation ON public.load_requests;
+CREATE TRIGGER trigger_guard_load_request_negotiation
+  BEFORE INSERT OR UPDATE ON public.load_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_load_request_negotiation();
+
+-- An offer's terms are fixed once sent; only its status moves. Posters accept
+-- the carrier's open offer directly, carriers agree through
+-- agree_to_load_request_offer, and closed offers can't be reopened.
+CREATE OR REPLACE FUNCTION guard_load_request_offer_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.request_id IS DISTINCT FROM OLD.request_id
+    OR NEW.load_id IS DISTINCT FROM OLD.load_id
+    OR NEW.offered_by IS DISTINCT FROM OLD.offered_by
+    OR NEW.offered_by_user_id IS DISTINCT FROM OLD.offered_by_user_id
+    OR NEW.rate IS DISTINCT FROM OLD.rate
+    OR NEW.rate_type IS DISTINCT FROM OLD.rate_type
+    OR NEW.load_date IS DISTINCT FROM OLD.load_date
+    OR NEW.max_cuft IS DISTINCT FROM OLD.max_cuft
+  THEN
+    RAISE EXCEPTION 'Offer terms cannot be changed; send a counter offer instead';
+  END IF;
+
+  IF current_user = 'authenticated' THEN
+    IF NEW.status = 'open' AND OLD.status <> 'open' THEN
+      RAISE EXCEPTION 'Closed offers cannot be reopened';
+    END IF;
+    IF NEW.status = 'accepted' AND OLD.status <> 'accepted' AND (
+      OLD.status <> 'open'
+      OR OLD.offered_by <> 'carrier'
+      OR public.load_request_party(OLD.request_id) IS DISTINCT FROM 'poster'
+    ) THEN
+      RAISE EXCEPTION 'Only the load owner can accept the carrier''s open offer';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_load_request_offer_update ON public.load_request_offers;
+CREATE TRIGGER trigger_guard_load_request_offer_update
+  BEFORE UPDATE ON public.load_request_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_load_request_offer_update();
+
+-- Carrier answers the poster's open counter with one of their own. The rate
+-- type defaults to the load's.
+CREATE OR REPLACE FUNCTION public.counter_load_request_as_carrier(
+  p_request_id UUID,
+  p_rate NUMERIC,
+  p_rate_type TEXT DEFAULT NULL,
+  p_load_date DATE DEFAULT NULL,
+  p_max_cuft NUMERIC DEFAULT NULL,
+  p_message TEXT DEFAULT NULL,
+  p_expires_in_hours INTEGER DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  req RECORD;
+  new_offer_id UUID;
+BEGIN
+  SELECT r.load_id, r.status, r.awaiting_response_from,
+    l.is_open_to_counter, l.assigned_carrier_id, l.company_rate_type
+  INTO req
+  FROM public.load_requests r
+  JOIN public.loads l ON l.id = r.load_id
+  WHERE r.id = p_request_id AND r.carrier_owner_id = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  IF req.status <> 'pending' OR req.assigned_carrier_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This request is no longer open';
+  END IF;
+  IF req.awaiting_response_from <> 'carrier' THEN
+    RAISE EXCEPTION 'Waiting on the other side to respond';
+  END IF;
+  IF NOT COALESCE(req.is_open_to_counter, FALSE) THEN
+    RAISE EXCEPTION 'This load does not accept counter offers';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Enter a rate above zero';
+  END IF;
+
+  UPDATE public.load_request_offers
+  SET status = 'countered', responded_at = NOW()
+  WHERE request_id = p_request_id AND status = 'open';
+
+  INSERT INTO public.load_request_offers (
+    request_id, load_id, offered_by, offered_by_user_id, rate, rate_type, load_date, max_cuft, message, expires_at
+  ) VALUES (
+    p_request_id, req.load_id, 'carrier', auth.uid(), p_rate,
+    COALESCE(p_rate_type, req.company_rate_type, 'per_cuft'),
+    p_load_date, p_max_cuft, NULLIF(btrim(p_message), ''),
+    CASE WHEN p_expires_in_hours > 0 THEN NOW() + make_interval(hours => p_expires_in_hours) END
+  )
+  RETURNING id INTO new_offer_id;
+
+  UPDATE public.load_requests
+  SET awaiting_response_from = 'poster',
+    agreed_rate = NULL,
+    agreed_rate_type = NULL,
+    agreed_load_date = NULL,
+    agreed_max_cuft = NULL,
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  RETURN new_offer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Carrier agrees to the poster's open counter; its terms are copied onto the
+-- request for the poster to accept. Returns the accepted offer, or NULL when
+-- the counter had already expired.
+CREATE OR REPLACE FUNCTION public.agree_to_load_request_offer(p_request_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  req RECORD;
+  offer RECORD;
+BEGIN
+  SELECT r.status, l.assigned_carrier_id
+  INTO req
+  FROM public.load_requests r
+  JOIN public.loads l ON l.id = r.load_id
+  WHERE r.id = p_request_id AND r.carrier_owner_id = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  IF req.status <> 'pending' OR req.assigned_carrier_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This request is no longer open';
+  END IF;
+
+  SELECT * INTO offer
+  FROM public.load_request_offers
+  WHERE request_id = p_request_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no counter offer to accept';
+  END IF;
+  IF offer.offered_by <> 'poster' THEN
+    RAISE EXCEPTION 'There is no counter offer to accept';
+  END IF;
+
+  IF offer.expires_at IS NOT NULL AND offer.expires_at <= NOW() THEN
+    UPDATE public.load_request_offers
+    SET status = 'expired', responded_at = NOW()
+    WHERE id = offer.id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.load_request_offers
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = offer.id;
+
+  UPDATE public.load_requests
+  SET awaiting_response_from = 'poster',
+    agreed_rate = offer.rate,
+    agreed_rate_type = offer.rate_type,
+    agreed_load_date = offer.load_date,
+    agreed_max_cuft = offer.max_cuft,
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  RETURN offer.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.counter_load_request_as_carrier(UUID, NUMERIC, TEXT, DATE, NUMERIC, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.agree_to_load_request_offer(UUID) TO authenticated;
+
+-- RLS: the carrier who made the request and the load's owner. Each side can
+-- only send offers as itself, and new offers start open.
+ALTER TABLE public.load_request_offers ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_request_offers_participant_select';
+  IF NOT FOUND THEN
+    CREATE POLICY load_request_offers_participant_select ON public.load_request_offers
+      FOR SELECT
+      USING (public.load_request_party(request_id) IS NOT NULL);
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_request_offers_own_side_insert';
+  IF NOT FOUND THEN
+    CREATE POLICY load_request_offers_own_side_insert ON public.load_request_offers
+      FOR INSERT
+      WITH CHECK (status = 'open' AND offered_by = public.load_request_party(request_id));
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_request_offers_participant_update';
+  IF NOT FOUND THEN
+    CREATE POLICY load_request_offers_participant_update ON public.load_request_offers
+      FOR UPDATE
+      USING (public.load_request_party(request_id) IS NOT NULL)
+      WITH CHECK (public.load_request_party(request_id) IS NOT NULL);
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.load_request_offers IS 'Negotiation history for a load request; the latest offer is the only open one';
+COMMENT ON COLUMN public.load_request_offers.status IS 'open (awaiting a reply), accepted, countered (replaced by a later offer), declined, expired or withdrawn';
+COMMENT ON COLUMN public.load_request_offers.expires_at IS 'Open offers past this time can no longer be accepted';
+COMMENT ON COLUMN public.load_requests.awaiting_response_from IS 'Side that must answer next: poster (accept, counter or decline) or carrier (answer the poster''s counter)';
+COMMENT ON COLUMN public.load_requests.agreed_rate IS 'Rate both sides agreed to, copied from the accepted offer';
+COMMENT ON COLUMN public.load_requests.agreed_load_date IS 'Pickup/load date agreed in negotiation';
+COMMENT ON COLUMN public.load_requests.agreed_max_cuft IS 'Cubic feet cap agreed in negotiation';
+
+COMMIT;
@@ -0,0 +1,118 @@
+-- Automated carrier award rules for posted loads. A company sets a default
+-- policy and can override it per load: accept the first request from a
+-- verified partner at the listed rate, or pick the best request once a
+-- decision window has passed. Loads nobody requests can be reposted
+-- automatically. Decisions are recorded in audit_logs with the reason.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.carrier_award_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for the company default; set to override it for one load
+  load_id UUID REFERENCES public.loads(id) ON DELETE CASCADE,
+  strategy TEXT NOT NULL DEFAULT 'manual'
+    CHECK (strategy IN ('manual', 'first_partner', 'best_after_window')),
+  -- best_after_window: hours after posting before the best request is picked
+  decision_window_hours INTEGER CHECK (decision_window_hours > 0),
+  rank_by TEXT NOT NULL DEFAULT 'rating' CHECK (rank_by IN ('rating', 'price')),
+  -- Filters every auto-awarded carrier must pass
+  partners_only BOOLEAN NOT NULL DEFAULT FALSE,
+  require_fmcsa_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  require_compliance_complete BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Repost when nobody has requested the load this many hours after posting
+  repost_after_hours INTEGER CHECK (repost_after_hours > 0),
+  max_reposts INTEGER NOT NULL DEFAULT 1 CHECK (max_reposts >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT carrier_award_rules_window_required
+    CHECK (strategy <> 'best_after_window' OR decision_window_hours IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_carrier_award_rules_company_default
+  ON public.carrier_award_rules(company_id)
+  WHERE load_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_carrier_award_rules_load
+  ON public.carrier_award_rules(load_id)
+  WHERE load_id IS NOT NULL;
+
+ALTER TABLE public.loads
+  ADD COLUMN IF NOT EXISTS auto_repost_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_carrier_award_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_carrier_award_rules_updated_at ON public.carrier_award_rules;
+CREATE TRIGGER trigger_carrier_award_rules_updated_at
+  BEFORE UPDATE ON public.carrier_award_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_carrier_award_rules_updated_at();
+
+-- New requests (web or mobile) are evaluated right away so "first partner"
+-- rules award without waiting for the scheduled sweep
+CREATE OR REPLACE FUNCTION evaluate_award_on_load_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  api_url TEXT;
+  service_key TEXT;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  api_url := current_setting('app.settings.api_url', true);
+  service_key := current_setting('app.settings.service_role_key', true);
+  IF api_url IS NULL OR api_url = '' OR service_key IS NULL OR service_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := api_url || '/api/award-rules/evaluate',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := jsonb_build_object('load_id', NEW.load_id)
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Never fail the request because evaluation couldn't be queued
+    RAISE WARNING 'Failed to trigger award evaluation: %', SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_evaluate_award_on_load_request ON public.load_requests;
+CREATE TRIGGER trigger_evaluate_award_on_load_request
+  AFTER INSERT ON public.load_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_award_on_load_request();
+
+-- RLS: the company owner manages their rules
+ALTER TABLE public.carrier_award_rules ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'carrier_award_rules_owner_access';
+  IF NOT FOUND THEN
+    CREATE POLICY carrier_award_rules_owner_access ON public.carrier_award_rules
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.carrier_award_rules IS 'Auto-award policy for marketplace loads: company default (load_id NULL) or per-load override';
+COMMENT ON COLUMN public.carrier_award_rules.strategy IS 'manual, first_partner (first verified partner request at the listed rate) or best_after_window (best eligible request once the window passes)';
+COMMENT ON COLUMN public.carrier_award_rules.rank_by IS 'How best_after_window ranks requests: rating (highest platform rating) or price (lowest rate)';
+COMMENT ON COLUMN public.carrier_award_rules.repost_after_hours IS 'Repost the load when it has no requests this many hours after posting';
+COMMENT ON COLUMN public.loads.auto_repost_count IS 'Times the load was reposted by an award rule; capped by the rule''s max_reposts';
+
+COMMIT;
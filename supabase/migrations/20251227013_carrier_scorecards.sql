@@ -0,0 +1,186 @@
+-- Carrier scorecards: performance history per carrier company, computed from
+-- the loads it hauled. Covers on-time pickup and delivery against windows and
+-- RFD deadlines, give-backs and cancellations, balance disputes, damage
+-- claims and photos, and how quickly the carrier answers messages.
+-- Award rules can require a minimum score before auto-awarding.
+
+BEGIN;
+
+-- Raw counts per carrier; the app turns them into rates and an overall score.
+-- SECURITY DEFINER because brokers need history from loads they didn't post.
+CREATE OR REPLACE FUNCTION public.get_carrier_scorecards(
+  p_carrier_ids UUID[],
+  p_since TIMESTAMPTZ DEFAULT NOW() - INTERVAL '12 months'
+)
+RETURNS TABLE (
+  carrier_id UUID,
+  loads_hauled INTEGER,
+  pickups_measured INTEGER,
+  pickups_on_time INTEGER,
+  deliveries_measured INTEGER,
+  deliveries_on_time INTEGER,
+  loads_given_back INTEGER,
+  loads_canceled INTEGER,
+  balance_disputes INTEGER,
+  cargo_claims INTEGER,
+  damaged_loads INTEGER,
+  responses_measured INTEGER,
+  avg_response_minutes NUMERIC,
+  rating_average NUMERIC,
+  rating_count INTEGER
+) AS $$
+  WITH hauled AS (
+    SELECT
+      l.id,
+      l.assigned_carrier_id AS carrier_id,
+      COALESCE(l.loading_started_at, l.pickup_completed_at) AS picked_up_at,
+      -- Window end if set, otherwise the end of the latest pickup day
+      COALESCE(
+        l.pickup_window_end,
+        (COALESCE(l.pickup_date_end, l.pickup_date, l.expected_load_date) + 1)::TIMESTAMPTZ
+      ) AS pickup_due,
+      COALESCE(l.delivered_at, l.delivery_completed_at) AS delivered_at,
+      COALESCE(
+        l.delivery_window_end,
+        (COALESCE(l.rfd_delivery_deadline, l.delivery_date) + 1)::TIMESTAMPTZ
+      ) AS delivery_due
+    FROM public.loads l
+    WHERE l.assigned_carrier_id = ANY(p_carrier_ids)
+      AND l.carrier_assigned_at >= p_since
+  ),
+  timeliness AS (
+    SELECT
+      carrier_id,
+      COUNT(*)::INTEGER AS loads_hauled,
+      COUNT(*) FILTER (WHERE picked_up_at IS NOT NULL AND pickup_due IS NOT NULL)::INTEGER AS pickups_measured,
+      COUNT(*) FILTER (WHERE picked_up_at <= pickup_due)::INTEGER AS pickups_on_time,
+      COUNT(*) FILTER (WHERE delivered_at IS NOT NULL AND delivery_due IS NOT NULL)::INTEGER AS deliveries_measured,
+      COUNT(*) FILTER (WHERE delivered_at <= delivery_due)::INTEGER AS deliveries_on_time
+    FROM hauled
+    GROUP BY carrier_id
+  ),
+  -- Give-backs clear assigned_carrier_id, so they come from load_cancellations
+  cancellations AS (
+    SELECT
+      c.carrier_id,
+      COUNT(*) FILTER (WHERE c.kind = 'given_back')::INTEGER AS loads_given_back,
+      COUNT(*) FILTER (WHERE c.kind = 'canceled')::INTEGER AS loads_canceled
+    FROM (
+      SELECT
+        lc.canceled_by_company_id AS carrier_id,
+        'given_back' AS kind
+      FROM public.load_cancellations lc
+      WHERE lc.canceled_by_type = 'carrier'
+        AND lc.load_stage IN ('accepted', 'confirmed')
+        AND lc.canceled_by_company_id = ANY(p_carrier_ids)
+        AND lc.canceled_at >= p_since
+      UNION ALL
+      -- Companies canceling the carrier, counted only when the carrier was at fault
+      SELECT
+        lc.affected_company_id AS carrier_id,
+        'canceled' AS kind
+      FROM public.load_cancellations lc
+      WHERE lc.canceled_by_type = 'company'
+        AND lc.fault_party = 'carrier'
+        AND lc.affected_company_id = ANY(p_carrier_ids)
+        AND lc.canceled_at >= p_since
+    ) c
+    GROUP BY c.carrier_id
+  ),
+  disputes AS (
+    SELECT h.carrier_id, COUNT(*)::INTEGER AS balance_disputes
+    FROM public.load_balance_disputes d
+    JOIN hauled h ON h.id = d.load_id
+    GROUP BY h.carrier_id
+  ),
+  damage AS (
+    SELECT
+      h.carrier_id,
+      COUNT(DISTINCT cc.id)::INTEGER AS cargo_claims,
+      COUNT(DISTINCT h.id) FILTER (
+        WHERE cc.id IS NOT NULL
+          OR EXISTS (
+            SELECT 1 FROM public.load_photos p
+            WHERE p.load_id = h.id AND p.photo_type = 'damage'
+          )
+      )::INTEGER AS damaged_loads
+    FROM hauled h
+    LEFT JOIN public.cargo_claims cc ON cc.load_id = h.id
+    GROUP BY h.carrier_id
+  ),
+  -- A response is a carrier message that follows a message from someone else
+  thread AS (
+    SELECT
+      m.sender_company_id,
+      m.created_at,
+      LAG(m.sender_company_id) OVER w AS previous_company_id,
+      LAG(m.created_at) OVER w AS previous_created_at
+    FROM public.messages m
+    WHERE m.conversation_id IN (
+        SELECT DISTINCT conversation_id
+        FROM public.messages
+        WHERE sender_company_id = ANY(p_carrier_ids)
+          AND created_at >= p_since
+      )
+      AND m.created_at >= p_since
+      AND m.is_deleted = FALSE
+      AND m.message_type NOT IN ('system', 'ai_response', 'status_update')
+    WINDOW w AS (PARTITION BY m.conversation_id ORDER BY m.created_at)
+  ),
+  responses AS (
+    SELECT
+      sender_company_id AS carrier_id,
+      COUNT(*)::INTEGER AS responses_measured,
+      ROUND(AVG(EXTRACT(EPOCH FROM created_at - previous_created_at) / 60)::NUMERIC, 1) AS avg_response_minutes
+    FROM thread
+    WHERE sender_company_id = ANY(p_carrier_ids)
+      AND previous_company_id IS NOT NULL
+      AND previous_company_id <> sender_company_id
+    GROUP BY sender_company_id
+  ),
+  rated AS (
+    SELECT
+      r.rated_company_id AS carrier_id,
+      ROUND(AVG(r.rating)::NUMERIC, 2) AS rating_average,
+      COUNT(*)::INTEGER AS rating_count
+    FROM public.ratings r
+    WHERE r.rated_company_id = ANY(p_carrier_ids)
+      AND r.created_at >= p_since
+    GROUP BY r.rated_company_id
+  )
+  SELECT
+    c.id AS carrier_id,
+    COALESCE(t.loads_hauled, 0),
+    COALESCE(t.pickups_measured, 0),
+    COALESCE(t.pickups_on_time, 0),
+    COALESCE(t.deliveries_measured, 0),
+    COALESCE(t.deliveries_on_time, 0),
+    COALESCE(x.loads_given_back, 0),
+    COALESCE(x.loads_canceled, 0),
+    COALESCE(d.balance_disputes, 0),
+    COALESCE(dm.cargo_claims, 0),
+    COALESCE(dm.damaged_loads, 0),
+    COALESCE(rs.responses_measured, 0),
+    rs.avg_response_minutes,
+    rt.rating_average,
+    COALESCE(rt.rating_count, 0)
+  FROM public.companies c
+  LEFT JOIN timeliness t ON t.carrier_id = c.id
+  LEFT JOIN cancellations x ON x.carrier_id = c.id
+  LEFT JOIN disputes d ON d.carrier_id = c.id
+  LEFT JOIN damage dm ON dm.carrier_id = c.id
+  LEFT JOIN responses rs ON rs.carrier_id = c.id
+  LEFT JOIN rated rt ON rt.carrier_id = c.id
+  WHERE c.id = ANY(p_carrier_ids);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_carrier_scorecards(UUID[], TIMESTAMPTZ) TO authenticated;
+
+-- Award rules can skip carriers whose scorecard is below a minimum
+ALTER TABLE public.carrier_award_rules
+  ADD COLUMN IF NOT EXISTS min_scorecard INTEGER CHECK (min_scorecard BETWEEN 0 AND 100);
+
+COMMENT ON FUNCTION public.get_carrier_scorecards(UUID[], TIMESTAMPTZ) IS 'Performance counts per carrier since p_since (default 12 months): on-time pickup/delivery, give-backs, cancellations, disputes, damage, message response time, ratings';
+COMMENT ON COLUMN public.carrier_award_rules.min_scorecard IS 'Minimum carrier scorecard (0-100) to auto-award; carriers without enough history are skipped';
+
+COMMIT;
@@ -0,0 +1,62 @@
+-- Geofenced arrival and departure detection. The driver app watches a radius
+-- around each active load's pickup, delivery and storage coordinates and
+-- reports entering and leaving it. Every visit is kept for detention time;
+-- the owner chooses whether arrivals are recorded on the load automatically
+-- or the driver is prompted to confirm them.
+
+BEGIN;
+
+ALTER TABLE public.company_matching_settings
+  ADD COLUMN IF NOT EXISTS geofence_arrival_mode TEXT NOT NULL DEFAULT 'prompt'
+    CHECK (geofence_arrival_mode IN ('off', 'prompt', 'auto')),
+  ADD COLUMN IF NOT EXISTS geofence_radius_meters INTEGER NOT NULL DEFAULT 250
+    CHECK (geofence_radius_meters BETWEEN 100 AND 2000),
+  ADD COLUMN IF NOT EXISTS detention_free_minutes INTEGER NOT NULL DEFAULT 120
+    CHECK (detention_free_minutes >= 0);
+
+CREATE TABLE IF NOT EXISTS public.load_stop_visits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL,
+  stop_type TEXT NOT NULL CHECK (stop_type IN ('pickup', 'delivery', 'storage')),
+  arrived_at TIMESTAMPTZ NOT NULL,
+  -- NULL while the driver is still inside the geofence
+  departed_at TIMESTAMPTZ,
+  arrival_latitude NUMERIC(10,7),
+  arrival_longitude NUMERIC(10,7),
+  -- Set once the load's origin/destination arrival was taken from this visit
+  arrival_recorded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT load_stop_visits_departed_after_arrival
+    CHECK (departed_at IS NULL OR departed_at >= arrived_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_load_stop_visits_load
+  ON public.load_stop_visits(load_id, arrived_at);
+
+-- At most one open visit per stop
+CREATE UNIQUE INDEX IF NOT EXISTS idx_load_stop_visits_open
+  ON public.load_stop_visits(load_id, stop_type)
+  WHERE departed_at IS NULL;
+
+-- RLS: owners read their visits; the driver app writes through the API
+ALTER TABLE public.load_stop_visits ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_stop_visits_owner_select';
+  IF NOT FOUND THEN
+    CREATE POLICY load_stop_visits_owner_select ON public.load_stop_visits
+      FOR SELECT
+      USING (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.load_stop_visits IS 'Time a driver spent inside a load stop geofence, from the driver app; used for detention';
+COMMENT ON COLUMN public.load_stop_visits.arrival_recorded_at IS 'When this visit''s arrival was written to loads.origin_arrival_at / destination_arrival_at';
+COMMENT ON COLUMN public.company_matching_settings.geofence_arrival_mode IS 'off, prompt (driver confirms the arrival) or auto (arrival recorded on entering the geofence)';
+COMMENT ON COLUMN public.company_matching_settings.geofence_radius_meters IS 'Radius of the geofence around each load stop';
+COMMENT ON COLUMN public.company_matching_settings.detention_free_minutes IS 'Time allowed at a stop before it counts as detention';
+
+COMMIT;
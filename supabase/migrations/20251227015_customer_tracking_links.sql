@@ -0,0 +1,52 @@
+-- Customer tracking links. A private, tokenized page per load for the
+-- household customer whose goods are on the truck: status, delivery window,
+-- driver first name, city-level truck location, ETA and balance due. The
+-- owner can send the link by SMS or email, and opt in to automatic
+-- "out for delivery" and "arriving in about an hour" messages.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.load_tracking_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Send the automatic out-for-delivery / arriving-soon messages
+  notify_customer BOOLEAN NOT NULL DEFAULT FALSE,
+  out_for_delivery_notified_at TIMESTAMPTZ,
+  arriving_notified_at TIMESTAMPTZ,
+  last_sent_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One live link per load; regenerating deactivates the old one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_load_tracking_links_active_load
+  ON public.load_tracking_links(load_id)
+  WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_load_tracking_links_notify
+  ON public.load_tracking_links(owner_id)
+  WHERE is_active AND notify_customer;
+
+-- RLS: owners manage their links; the public page reads through the service role
+ALTER TABLE public.load_tracking_links ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_tracking_links_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY load_tracking_links_owner_all ON public.load_tracking_links
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.load_tracking_links IS 'Tokenized customer tracking pages, one active link per load';
+COMMENT ON COLUMN public.load_tracking_links.notify_customer IS 'Text/email the customer when the load goes out for delivery and when the truck is about an hour away';
+COMMENT ON COLUMN public.load_tracking_links.arriving_notified_at IS 'When the arriving-soon message went out; it is sent once per link';
+
+COMMIT;
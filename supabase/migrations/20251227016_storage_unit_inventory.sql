@@ -0,0 +1,183 @@
+-- Storage unit inventory. Each storage location can be split into individual
+-- units (vaults, rooms, floor bays, containers) and loads are assigned to
+-- units with move-in and move-out dates, so occupancy comes from what is
+-- actually in the building instead of the aggregate current_usage_cuft.
+--
+-- Assignments follow the driver workflow: a storage drop or a delivered
+-- storage_in load moves into the unit named on the load, and loading a
+-- storage_out load moves it out.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.storage_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_location_id UUID NOT NULL REFERENCES public.storage_locations(id) ON DELETE CASCADE,
+  unit_number TEXT NOT NULL,
+  unit_type TEXT NOT NULL DEFAULT 'vault'
+    CHECK (unit_type IN ('vault', 'room', 'floor_bay', 'container', 'other')),
+  length_ft NUMERIC(6,2),
+  width_ft NUMERIC(6,2),
+  height_ft NUMERIC(6,2),
+  capacity_cuft NUMERIC(10,2) NOT NULL CHECK (capacity_cuft > 0),
+  -- Position on the warehouse map: rows top to bottom, units left to right
+  map_row TEXT,
+  map_position INTEGER,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_units_number
+  ON public.storage_units(storage_location_id, lower(unit_number))
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.storage_unit_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_unit_id UUID NOT NULL REFERENCES public.storage_units(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  move_in_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- NULL while the goods are still in the unit
+  move_out_date DATE,
+  cubic_feet NUMERIC(10,2),
+  -- 'manual' from the storage page, 'workflow' from the driver's status updates
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'workflow')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT storage_unit_assignments_dates
+    CHECK (move_out_date IS NULL OR move_out_date >= move_in_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_unit_assignments_unit
+  ON public.storage_unit_assignments(storage_unit_id, move_in_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_storage_unit_assignments_load
+  ON public.storage_unit_assignments(load_id);
+
+-- A load is in a given unit at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_unit_assignments_open
+  ON public.storage_unit_assignments(storage_unit_id, load_id)
+  WHERE move_out_date IS NULL;
+
+-- RLS: owners manage their units and assignments
+ALTER TABLE public.storage_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.storage_unit_assignments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'storage_units_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY storage_units_owner_all ON public.storage_units
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'storage_unit_assignments_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY storage_unit_assignments_owner_all ON public.storage_unit_assignments
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+-- ============================================================================
+-- WORKFLOW SYNC: move loads in and out of units as drivers update them
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_storage_unit_assignment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_location_id UUID;
+  v_unit_id UUID;
+  v_unit_number TEXT;
+  v_closed INTEGER;
+BEGIN
+  IF NEW.load_status IS NOT DISTINCT FROM OLD.load_status
+     AND NEW.storage_unit_number IS NOT DISTINCT FROM OLD.storage_unit_number THEN
+    RETURN NEW;
+  END IF;
+
+  -- The load's storage location, or the one the driver named on a storage drop
+  v_location_id := COALESCE(NEW.storage_location_id, NEW.current_storage_location_id);
+  IF v_location_id IS NULL AND NEW.storage_location_name IS NOT NULL THEN
+    SELECT id INTO v_location_id
+    FROM public.storage_locations
+    WHERE owner_id = NEW.owner_id
+      AND is_active
+      AND lower(name) = lower(trim(NEW.storage_location_name))
+    LIMIT 1;
+  END IF;
+
+  v_unit_number := trim(COALESCE(NEW.storage_unit_number, NEW.storage_unit));
+
+  IF v_location_id IS NOT NULL AND v_unit_number <> '' THEN
+    SELECT id INTO v_unit_id
+    FROM public.storage_units
+    WHERE storage_location_id = v_location_id
+      AND is_active
+      AND lower(unit_number) = lower(v_unit_number)
+    LIMIT 1;
+  END IF;
+
+  -- Move in: storage drop, or a storage_in load delivered to the warehouse
+  IF NEW.load_status = 'storage_completed'
+     OR (NEW.load_status = 'delivered' AND NEW.service_type = 'storage_in') THEN
+    IF v_unit_id IS NOT NULL THEN
+      -- The driver corrected the unit number: move the goods, keeping manual assignments
+      UPDATE public.storage_unit_assignments
+      SET move_out_date = CURRENT_DATE
+      WHERE load_id = NEW.id
+        AND storage_unit_id <> v_unit_id
+        AND source = 'workflow'
+        AND move_out_date IS NULL;
+
+      INSERT INTO public.storage_unit_assignments (owner_id, storage_unit_id, load_id, cubic_feet, source)
+      VALUES (
+        NEW.owner_id,
+        v_unit_id,
+        NEW.id,
+        COALESCE(NEW.actual_cuft_loaded, NEW.cubic_feet, NEW.estimated_cuft, NEW.cubic_feet_estimate),
+        'workflow'
+      )
+      ON CONFLICT (storage_unit_id, load_id) WHERE move_out_date IS NULL DO NOTHING;
+    END IF;
+
+  -- Move out: a storage_out load picked up from the warehouse
+  ELSIF NEW.load_status = 'loaded' AND NEW.service_type = 'storage_out' THEN
+    UPDATE public.storage_unit_assignments
+    SET move_out_date = CURRENT_DATE
+    WHERE load_id = NEW.id AND move_out_date IS NULL;
+    GET DIAGNOSTICS v_closed = ROW_COUNT;
+
+    -- A separate storage_out load: release the same customer's goods in its unit
+    IF v_closed = 0 AND v_unit_id IS NOT NULL AND NEW.customer_name IS NOT NULL THEN
+      UPDATE public.storage_unit_assignments a
+      SET move_out_date = CURRENT_DATE
+      FROM public.loads l
+      WHERE a.load_id = l.id
+        AND a.storage_unit_id = v_unit_id
+        AND a.move_out_date IS NULL
+        AND lower(trim(l.customer_name)) = lower(trim(NEW.customer_name));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_sync_storage_unit_assignment ON public.loads;
+CREATE TRIGGER trigger_sync_storage_unit_assignment
+  AFTER UPDATE OF load_status, storage_unit_number ON public.loads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_storage_unit_assignment();
+
+COMMENT ON TABLE public.storage_units IS 'Individual vaults, rooms, bays or containers inside a storage location';
+COMMENT ON COLUMN public.storage_units.map_row IS 'Row label on the warehouse map; units without one are listed last';
+COMMENT ON TABLE public.storage_unit_assignments IS 'Which load is in which storage unit, with move-in and move-out dates';
+COMMENT ON FUNCTION public.sync_storage_unit_assignment IS 'Moves loads into their named unit on storage drop / storage_in delivery (or a unit number correction) and out when a storage_out load is loaded';
+
+COMMIT;
@@ -0,0 +1,96 @@
+-- Recurring storage billing. Loads held in storage (SIT or permanent) get a
+-- billing plan that charges the owner of the goods every cycle. Each closed
+-- period becomes a storage charge and a receivable against the bill-to
+-- company, so storage revenue flows through the same aging and payment
+-- application as invoices.
+--
+-- Periods follow the calendar (months, or Monday-Sunday weeks); the first and
+-- last periods are prorated by day. Periods are billed once they end.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.storage_billing_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  bill_to_company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE RESTRICT,
+  storage_location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL,
+  storage_type TEXT NOT NULL DEFAULT 'sit' CHECK (storage_type IN ('sit', 'permanent')),
+  billing_cycle TEXT NOT NULL DEFAULT 'monthly' CHECK (billing_cycle IN ('weekly', 'monthly')),
+  -- Charge for one full cycle
+  rate NUMERIC(12,2) NOT NULL CHECK (rate >= 0),
+  payment_terms_days INTEGER NOT NULL DEFAULT 15 CHECK (payment_terms_days >= 0),
+  start_date DATE NOT NULL,
+  -- Last day in storage; NULL while the goods are still there
+  end_date DATE,
+  -- First day not yet billed
+  next_period_start DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended', 'cancelled')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT storage_billing_plans_dates CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- One live plan per load
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_billing_plans_active_load
+  ON public.storage_billing_plans(load_id)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_storage_billing_plans_due
+  ON public.storage_billing_plans(next_period_start)
+  WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS public.storage_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES public.storage_billing_plans(id) ON DELETE CASCADE,
+  load_id UUID NOT NULL REFERENCES public.loads(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE RESTRICT,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  days_billed INTEGER NOT NULL,
+  period_days INTEGER NOT NULL,
+  is_prorated BOOLEAN NOT NULL DEFAULT FALSE,
+  amount NUMERIC(12,2) NOT NULL,
+  due_date DATE NOT NULL,
+  receivable_id UUID REFERENCES public.receivables(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT storage_charges_period UNIQUE (plan_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_charges_owner_period
+  ON public.storage_charges(owner_id, period_end DESC);
+
+CREATE INDEX IF NOT EXISTS idx_storage_charges_receivable
+  ON public.storage_charges(receivable_id);
+
+-- RLS: owners manage their plans and charges; the scheduler uses the service role
+ALTER TABLE public.storage_billing_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.storage_charges ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'storage_billing_plans_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY storage_billing_plans_owner_all ON public.storage_billing_plans
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'storage_charges_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY storage_charges_owner_all ON public.storage_charges
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.storage_billing_plans IS 'Recurring storage charges for a load held in storage, billed to the company that owns the goods';
+COMMENT ON COLUMN public.storage_billing_plans.rate IS 'Charge for one full weekly or monthly cycle; partial first/last periods are prorated by day';
+COMMENT ON COLUMN public.storage_billing_plans.next_period_start IS 'First day not yet billed; advanced as charges are generated';
+COMMENT ON TABLE public.storage_charges IS 'One billed storage period, raised as a receivable against the bill-to company';
+
+COMMIT;
@@ -0,0 +1,137 @@
+-- Company portal accounts. Replaces the single shared portal_access_code per
+-- company with individual portal users invited by the company's owner, each
+-- with a role (viewer / poster / approver), a hashed password or email magic
+-- links, expiring server-side sessions and a login audit trail.
+--
+-- Existing portal logins become an approver account on the portal email. The
+-- old access code still works once for that account: it is hashed onto the
+-- user at first sign-in and then cleared from companies.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.company_portal_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  -- The MoveBoss account that owns the company record and manages its portal users
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'poster', 'approver')),
+  -- scrypt$<salt>$<hash>; NULL until the user sets a password (magic-link only users stay NULL)
+  password_hash TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_at TIMESTAMPTZ,
+  accepted_at TIMESTAMPTZ,
+  last_login_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Sign-in is by email alone, so an email belongs to one active portal user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_portal_users_email
+  ON public.company_portal_users(lower(email))
+  WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_company_portal_users_company
+  ON public.company_portal_users(company_id);
+
+-- Single-use invite and magic-link tokens; only the SHA-256 of the token is stored
+CREATE TABLE IF NOT EXISTS public.company_portal_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  portal_user_id UUID NOT NULL REFERENCES public.company_portal_users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('invite', 'magic_link')),
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_portal_tokens_user
+  ON public.company_portal_tokens(portal_user_id, purpose);
+
+-- Server-side sessions; the cookie holds the token, the table its SHA-256
+CREATE TABLE IF NOT EXISTS public.company_portal_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  portal_user_id UUID NOT NULL REFERENCES public.company_portal_users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_portal_sessions_user
+  ON public.company_portal_sessions(portal_user_id)
+  WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.company_portal_login_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL when the email didn't match a portal user
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  portal_user_id UUID REFERENCES public.company_portal_users(id) ON DELETE SET NULL,
+  email TEXT NOT NULL,
+  event TEXT NOT NULL CHECK (event IN (
+    'login', 'login_failed', 'magic_link_sent', 'invite_accepted', 'logout', 'sessions_revoked'
+  )),
+  method TEXT CHECK (method IN ('password', 'magic_link', 'access_code', 'invite')),
+  ip_address TEXT,
+  user_agent TEXT,
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_portal_login_events_company
+  ON public.company_portal_login_events(company_id, created_at DESC);
+
+-- RLS: owners manage their companies' portal users and read the login history.
+-- Tokens and sessions are only touched by the server through the service role.
+ALTER TABLE public.company_portal_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_portal_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_portal_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_portal_login_events ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'company_portal_users_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY company_portal_users_owner_all ON public.company_portal_users
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+
+  PERFORM 1 FROM pg_policies WHERE policyname = 'company_portal_login_events_owner_select';
+  IF NOT FOUND THEN
+    CREATE POLICY company_portal_login_events_owner_select ON public.company_portal_login_events
+      FOR SELECT
+      USING (
+        company_id IN (SELECT id FROM public.companies WHERE owner_id = auth.uid())
+      );
+  END IF;
+END $$;
+
+-- Existing shared logins become an approver on the portal email
+INSERT INTO public.company_portal_users (company_id, owner_id, email, role, accepted_at)
+SELECT c.id, c.owner_id, lower(trim(c.portal_email)), 'approver', NOW()
+FROM public.companies c
+WHERE c.portal_enabled
+  AND c.portal_email IS NOT NULL
+  AND trim(c.portal_email) <> ''
+  AND c.owner_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.company_portal_users u
+    WHERE lower(u.email) = lower(trim(c.portal_email)) AND u.is_active
+  )
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE public.company_portal_users IS 'Individual company portal accounts, invited by the company owner';
+COMMENT ON COLUMN public.company_portal_users.role IS 'viewer: read only; poster: post and release loads; approver: also accept carrier requests and manage carriers';
+COMMENT ON TABLE public.company_portal_sessions IS 'Portal sessions; the cookie token is stored as a SHA-256 hash and expires server-side';
+COMMENT ON TABLE public.company_portal_login_events IS 'Portal sign-in audit history';
+COMMENT ON COLUMN public.companies.portal_access_code IS 'Legacy shared access code; hashed onto the portal user at first sign-in, then cleared';
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Bulk load import. Partners send their loads as spreadsheet exports from their
+-- own TMS, each with its own column names. A template remembers how one
+-- partner's columns map onto load fields (plus fixed values for columns the
+-- sheet doesn't have), so the next file from them maps itself.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.load_import_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The partner whose exports this template reads; NULL for the owner's own sheets
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- { "<load field>": "<spreadsheet column header>" }
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- { "<load field>": "<value>" } used when the mapped cell is empty or unmapped
+  defaults JSONB NOT NULL DEFAULT '{}'::jsonb,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_load_import_templates_name
+  ON public.load_import_templates(owner_id, lower(name));
+
+CREATE INDEX IF NOT EXISTS idx_load_import_templates_company
+  ON public.load_import_templates(owner_id, company_id);
+
+-- RLS: owners manage their own templates
+ALTER TABLE public.load_import_templates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  PERFORM 1 FROM pg_policies WHERE policyname = 'load_import_templates_owner_all';
+  IF NOT FOUND THEN
+    CREATE POLICY load_import_templates_owner_all ON public.load_import_templates
+      FOR ALL
+      USING (owner_id = auth.uid())
+      WITH CHECK (owner_id = auth.uid());
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.load_import_templates IS 'Saved spreadsheet column mappings for bulk load import, usually one per partner';
+COMMENT ON COLUMN public.load_import_templates.column_mapping IS 'Load field -> spreadsheet column header';
+COMMENT ON COLUMN public.load_import_templates.defaults IS 'Load field -> fixed value applied when the row has no value for it';
+
+COMMIT;